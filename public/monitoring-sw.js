@@ -1,7 +1,7 @@
 /**
  * Service Worker - 后台监控服务
  * 
- * 负责在后台监控两阶段提交任务的状态
+ * 负责在后台监控两阶段提交任务的状态，以及定时 / 条件交易的到期检查
  * 即使页面关闭也能继续监控任务状态
  * 
  * 注意：这是一个独立的 Service Worker 文件，用于监控功能
@@ -51,6 +51,8 @@ self.addEventListener('message', (event) => {
 function startMonitoring(config) {
   const task = {
     taskId: config.taskId,
+    kind: config.kind || 'two-phase-commit',
+    dueAt: config.dueAt || 0,
     chainId: config.chainId,
     contractAddress: config.contractAddress,
     commitmentHash: config.commitmentHash,
@@ -94,6 +96,19 @@ async function monitoringLoop() {
     if (now - task.lastCheck >= task.interval) {
       task.lastCheck = now;
 
+      // 定时 / 条件交易：到期后由主线程检查条件并执行
+      if (task.kind !== 'two-phase-commit') {
+        if (now >= task.dueAt) {
+          clients.forEach((client) => {
+            client.postMessage({
+              type: 'CHECK_SCHEDULED_TRANSACTION',
+              data: { taskId: task.taskId, kind: task.kind },
+            });
+          });
+        }
+        continue;
+      }
+
       // 请求主线程检查任务状态
       clients.forEach((client) => {
         client.postMessage({
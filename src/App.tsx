@@ -12,6 +12,7 @@ import { GlobalStyle } from '@/styles/global';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { PasswordInputProvider } from '@/components/PasswordInput';
 import { GlobalMessage } from '@/components/GlobalMessage';
+import { InteractionDialog } from '@/components/InteractionDialog';
 import { RequireAuth } from '@/components/Auth/RequireAuth';
 
 // 懒加载页面组件
@@ -30,6 +31,7 @@ const SettingsPage = lazy(() => import('@/pages/SettingsPage').then(m => ({ defa
 const GuardiansPage = lazy(() => import('@/pages/GuardiansPage').then(m => ({ default: m.GuardiansPage })));
 const GuardianProposalsPage = lazy(() => import('@/pages/GuardianProposalsPage').then(m => ({ default: m.GuardianProposalsPage })));
 const TwoPhaseCommitPage = lazy(() => import('@/pages/TwoPhaseCommitPage').then(m => ({ default: m.TwoPhaseCommitPage })));
+const ScheduledTransactionsPage = lazy(() => import('@/pages/ScheduledTransactionsPage').then(m => ({ default: m.ScheduledTransactionsPage })));
 const RecoveryPage = lazy(() => import('@/pages/RecoveryPage').then(m => ({ default: m.RecoveryPage })));
 const PluginsPage = lazy(() => import('@/pages/PluginsPage').then(m => ({ default: m.PluginsPage })));
 const SponsorDashboardPage = lazy(() => import('@/pages/SponsorDashboardPage').then(m => ({ default: m.SponsorDashboardPage })));
@@ -55,6 +57,7 @@ function App() {
       <StoreProvider>
         <GlobalStyle />
         <PasswordInputProvider />
+        <InteractionDialog />
         <GlobalMessage />
         <BrowserRouter>
           <Suspense fallback={<LoadingFallback />}>
@@ -75,6 +78,7 @@ function App() {
                 <Route path="guardians" element={<RequireAuth><GuardiansPage /></RequireAuth>} />
                 <Route path="guardians/proposals" element={<RequireAuth><GuardianProposalsPage /></RequireAuth>} />
                 <Route path="two-phase-commit" element={<RequireAuth><TwoPhaseCommitPage /></RequireAuth>} />
+                <Route path="scheduled-transactions" element={<RequireAuth><ScheduledTransactionsPage /></RequireAuth>} />
                 <Route path="recovery" element={<RequireAuth><RecoveryPage /></RequireAuth>} />
                 <Route path="plugins" element={<RequireAuth><PluginsPage /></RequireAuth>} />
                 <Route path="sponsor/dashboard" element={<RequireAuth><SponsorDashboardPage /></RequireAuth>} />
@@ -0,0 +1,155 @@
+/**
+ * 跨源 Provider 客户端
+ *
+ * 运行在外部 DApp 页面，把 EIP-1193 request 经 postMessage 中继到以 popup / iframe
+ * 打开的 AnDaoWallet，并接收钱包转发的 Provider 事件
+ *
+ * @example
+ * ```typescript
+ * const popup = window.open('https://wallet.example/', 'andao-wallet');
+ * const provider = new PostMessageProviderClient(popup!, 'https://wallet.example');
+ * const accounts = await provider.request({ method: 'eth_requestAccounts' });
+ * ```
+ */
+
+import type { EthereumProvider } from './ProviderAdapter';
+import {
+  PROVIDER_BRIDGE_MESSAGE,
+  type ProviderBridgeEventMessage,
+  type ProviderBridgeHandshakeMessage,
+  type ProviderBridgeReadyMessage,
+  type ProviderBridgeRequestMessage,
+  type ProviderBridgeResponseMessage,
+} from '@/types/provider-bridge';
+
+type ProviderEventHandler = (...args: unknown[]) => void;
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type BridgeMessage = ProviderBridgeReadyMessage | ProviderBridgeResponseMessage | ProviderBridgeEventMessage;
+
+export class PostMessageProviderClient implements EthereumProvider {
+  isAnDaoWallet = true;
+  private readonly listeners: Map<string, Set<ProviderEventHandler>> = new Map();
+  private readonly pending: Map<string, PendingRequest> = new Map();
+  private readonly ready: Promise<void>;
+  private markReady: () => void = () => undefined;
+  private requestSeq = 0;
+
+  private readonly handleMessage = (event: MessageEvent): void => {
+    this.onMessage(event);
+  };
+
+  /**
+   * @param target 钱包窗口（popup 的 window 或 iframe.contentWindow）
+   * @param walletOrigin 钱包来源，只接受该来源的消息，也只向该来源发送请求
+   */
+  constructor(
+    private readonly target: Window,
+    private readonly walletOrigin: string
+  ) {
+    this.ready = new Promise((resolve) => {
+      this.markReady = resolve;
+    });
+    window.addEventListener('message', this.handleMessage);
+
+    // 钱包已加载完成时不会再广播 READY，主动握手
+    const handshake: ProviderBridgeHandshakeMessage = { type: PROVIDER_BRIDGE_MESSAGE.HANDSHAKE };
+    this.target.postMessage(handshake, this.walletOrigin);
+  }
+
+  /**
+   * 发送 EIP-1193 请求（钱包就绪前排队）
+   */
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    await this.ready;
+
+    const id = `andao_${Date.now()}_${++this.requestSeq}`;
+    const message: ProviderBridgeRequestMessage = {
+      type: PROVIDER_BRIDGE_MESSAGE.REQUEST,
+      id,
+      method: args.method,
+      params: args.params,
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.target.postMessage(message, this.walletOrigin);
+    });
+  }
+
+  on(event: string, handler: ProviderEventHandler): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(handler);
+  }
+
+  removeListener(event: string, handler: ProviderEventHandler): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /**
+   * 断开与钱包的连接，未完成的请求以 4900 拒绝
+   */
+  close(): void {
+    window.removeEventListener('message', this.handleMessage);
+    this.pending.forEach(({ reject }) => {
+      reject(Object.assign(new Error('Wallet window disconnected'), { code: 4900 }));
+    });
+    this.pending.clear();
+  }
+
+  private onMessage(event: MessageEvent): void {
+    // 来源绑定：只接受目标钱包窗口、钱包来源的消息
+    if (event.origin !== this.walletOrigin || event.source !== this.target) {
+      return;
+    }
+
+    const data = event.data as BridgeMessage | null;
+    if (!data || typeof data !== 'object') {
+      return;
+    }
+
+    switch (data.type) {
+      case PROVIDER_BRIDGE_MESSAGE.READY:
+        this.markReady();
+        if (data.chainId) {
+          this.emit('connect', { chainId: data.chainId });
+        }
+        if (data.accounts) {
+          this.emit('accountsChanged', data.accounts);
+        }
+        break;
+      case PROVIDER_BRIDGE_MESSAGE.RESPONSE: {
+        const pending = this.pending.get(data.id);
+        if (!pending) {
+          return;
+        }
+        this.pending.delete(data.id);
+        if (data.error) {
+          pending.reject(Object.assign(new Error(data.error.message), data.error));
+        } else {
+          pending.resolve(data.result);
+        }
+        break;
+      }
+      case PROVIDER_BRIDGE_MESSAGE.EVENT:
+        this.emit(data.event, ...data.args);
+        break;
+    }
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach((handler) => {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.error('Error in event handler:', error);
+      }
+    });
+  }
+}
@@ -5,6 +5,7 @@
  * 将标准的以太坊 Provider 方法转换为 UserOperation
  */
 
+import { reaction, type IReactionDisposer } from 'mobx';
 import { AccountStore } from '@/stores/AccountStore';
 import { interactionStore } from '@/stores/InteractionStore';
 import { TransactionRelayer } from '@/services/TransactionRelayer';
@@ -12,10 +13,22 @@ import { AccountManager } from '@/services/AccountManager';
 import { signatureService } from '@/services/SignatureService';
 import { keyManagerService } from '@/services/KeyManagerService';
 import { chainService } from '@/services/ChainService';
-import { getChainConfigByChainId } from '@/config/chains';
+import { permissionService, type OriginPermission, type PermissionCapability } from '@/services/PermissionService';
+import { tokenService, type TokenInfo, type TokenStandard } from '@/services/TokenService';
+import { abiRegistryService } from '@/services/AbiRegistryService';
+import { riskAssessmentService, type RiskAssessment } from '@/services/RiskAssessmentService';
+import { feeOracleService, type FeeEstimate, type FeeTier } from '@/services/FeeOracleService';
+import { userOperationTracker, type TrackedUserOperation } from '@/services/UserOperationTracker';
+import {
+  transactionSimulationService,
+  type SimulationCall,
+  type TransactionSimulationResult,
+} from '@/services/TransactionSimulationService';
+import { ALL_CHAIN_CONFIGS, getChainConfigByChainId } from '@/config/chains';
 import { rpcClientManager } from '@/utils/RpcClientManager';
 import type { TypedData } from '@/services/SignatureService';
-import type { Address } from 'viem';
+import type { ChainConfig } from '@/types';
+import type { Address, Hash, Hex } from 'viem';
 
 type ProviderEventHandler = (...args: unknown[]) => void;
 
@@ -78,6 +91,109 @@ type WalletSendTransactionParams = {
   sponsorPolicyContext?: SendTransactionParams['sponsorPolicyContext'];
 };
 
+/**
+ * EIP-5792 wallet_sendCalls 参数
+ */
+type SendCallsParams = {
+  version?: string;
+  chainId?: string;
+  from?: string;
+  atomicRequired?: boolean;
+  calls: Array<{
+    to: string;
+    data?: string;
+    value?: string;
+  }>;
+  capabilities?: Record<string, { optional?: boolean } & Record<string, unknown>>;
+};
+
+/**
+ * EIP-5792 wallet_getCallsStatus 返回值
+ * 
+ * status: 100 待上链 / 200 已确认 / 500 链上回滚
+ */
+type CallsStatusResult = {
+  version: string;
+  id: string;
+  chainId: string;
+  status: 100 | 200 | 500;
+  atomic: boolean;
+  receipts?: Array<{
+    logs: unknown[];
+    status: string;
+    blockHash: string;
+    blockNumber: string;
+    gasUsed: string;
+    transactionHash: string;
+  }>;
+};
+
+/**
+ * EIP-747 wallet_watchAsset 参数
+ */
+type WatchAssetParams = {
+  type: TokenStandard;
+  options: {
+    address: Address;
+    symbol?: string;
+    decimals?: number;
+    image?: string;
+    tokenId?: string;
+  };
+};
+
+/**
+ * 交给确认框的 wallet_watchAsset 请求
+ * 
+ * token 为链上校验后的元数据，warnings 为 DApp 声明与链上不一致的提示
+ */
+type WatchAssetRequest = {
+  asset: WatchAssetParams;
+  token: Omit<TokenInfo, 'addedAt' | 'balance'>;
+  warnings: string[];
+};
+
+const WATCH_ASSET_TYPES: TokenStandard[] = ['ERC20', 'ERC721', 'ERC1155'];
+
+/**
+ * 直接透传到当前链 RPC 的只读方法白名单
+ * 
+ * eth_estimateGas / eth_getTransactionReceipt 需要智能账户语义，单独处理
+ */
+const READ_ONLY_RPC_METHODS = [
+  'eth_call',
+  'eth_blockNumber',
+  'eth_getLogs',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getBlockByNumber',
+  'eth_getBlockByHash',
+  'eth_getTransactionByHash',
+  'eth_gasPrice',
+  'eth_feeHistory',
+  'net_version',
+];
+
+/**
+ * 需要来源已获得 eth_accounts 授权的方法（EIP-1193 4100 Unauthorized）
+ */
+const ACCOUNT_AUTHORIZED_METHODS = [
+  'eth_sendTransaction',
+  'wallet_sendTransaction',
+  'wallet_sendCalls',
+  'eth_sign',
+  'personal_sign',
+  'eth_signTypedData',
+  'eth_signTypedData_v4',
+];
+
+/**
+ * 钱包支持的 EIP-5792 capability
+ *
+ * 不支持 paymasterService：批量调用始终使用链配置的 Paymaster，无法按 dApp 指定的服务地址与上下文代付
+ */
+const SUPPORTED_CALL_CAPABILITIES = ['atomic'];
+
 /**
  * AnDaoWallet Ethereum Provider
  * 
@@ -88,6 +204,17 @@ export class AnDaoWalletProvider implements EthereumProvider {
   private accountStore: AccountStore;
   private transactionRelayer: TransactionRelayer;
   private listeners: Map<string, Set<ProviderEventHandler>> = new Map();
+  /**
+   * 本 Provider 提交的 userOpHash 到链 ID 的映射
+   * 供 wallet_getCallsStatus 与 eth_getTransactionReceipt 查询回执
+   */
+  private submittedUserOps: Map<string, number> = new Map();
+  /** 状态 reaction 的销毁函数 */
+  private stateReactionDisposers: IReactionDisposer[] = [];
+  /** 最近一次发出的 accountsChanged 账户列表（用于去重） */
+  private lastEmittedAccounts: string[] | null = null;
+  /** accountsChanged 计算序号，丢弃过期的异步结果 */
+  private accountsEmitSeq = 0;
 
   constructor(
     accountStore: AccountStore,
@@ -98,6 +225,83 @@ export class AnDaoWalletProvider implements EthereumProvider {
     this.transactionRelayer = transactionRelayer;
   }
 
+  /**
+   * 订阅 AccountStore 状态变化，驱动 EIP-1193 事件
+   *
+   * - currentChainId 变化 → chainChanged
+   * - 当前账户或锁定状态变化 → accountsChanged（锁定时为空列表）
+   * - 锁定 → disconnect；解锁 → connect
+   */
+  startStateReactions(): void {
+    this.stopStateReactions();
+
+    this.stateReactionDisposers = [
+      reaction(
+        () => this.accountStore.currentChainId,
+        (chainId) => {
+          this.emit('chainChanged', `0x${chainId.toString(16)}`);
+        }
+      ),
+      reaction(
+        () => `${Boolean(this.accountStore.isLocked)}:${this.getActiveAccount()?.address ?? ''}`,
+        () => {
+          void this.emitAccountsChangedIfNeeded();
+        }
+      ),
+      reaction(
+        () => Boolean(this.accountStore.isLocked),
+        (locked) => {
+          if (locked) {
+            this.emit(
+              'disconnect',
+              Object.assign(new Error('Wallet is locked'), { code: 4900 })
+            );
+          } else {
+            this.emit('connect', { chainId: `0x${this.accountStore.currentChainId.toString(16)}` });
+          }
+        }
+      ),
+    ];
+  }
+
+  /**
+   * 停止状态订阅
+   */
+  stopStateReactions(): void {
+    this.stateReactionDisposers.forEach((dispose) => dispose());
+    this.stateReactionDisposers = [];
+  }
+
+  /**
+   * 账户列表与上次发出的不同时触发 accountsChanged
+   */
+  private async emitAccountsChangedIfNeeded(): Promise<void> {
+    const seq = ++this.accountsEmitSeq;
+    const accounts = await this.getAccounts(this.getRequestOrigin());
+    if (seq !== this.accountsEmitSeq) {
+      return;
+    }
+
+    const previous = this.lastEmittedAccounts;
+    if (
+      previous &&
+      previous.length === accounts.length &&
+      previous.every((address, index) => address.toLowerCase() === accounts[index].toLowerCase())
+    ) {
+      return;
+    }
+
+    this.emitAccountsChanged(accounts);
+  }
+
+  /**
+   * 触发 accountsChanged 并记录结果
+   */
+  private emitAccountsChanged(accounts: string[]): void {
+    this.lastEmittedAccounts = accounts;
+    this.emit('accountsChanged', accounts);
+  }
+
   /**
    * 获取当前激活链的配置（优先内置链，其次自定义链）
    */
@@ -115,6 +319,13 @@ export class AnDaoWalletProvider implements EthereumProvider {
     return this.accountStore.getAccount(this.accountStore.currentChainId);
   }
 
+  /**
+   * 获取当前请求的 DApp 来源
+   */
+  private getRequestOrigin(): string {
+    return typeof window !== 'undefined' ? window.location.origin : 'unknown';
+  }
+
   /**
    * 处理 Provider 请求
    * 
@@ -122,41 +333,86 @@ export class AnDaoWalletProvider implements EthereumProvider {
    * 等待用户批准或拒绝
    */
   async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
-    const { method, params = [] } = args;
-    
     // 获取 DApp 来源（如果可用）
-    const origin = typeof window !== 'undefined' ? window.location.origin : 'unknown';
+    return this.requestForOrigin(this.getRequestOrigin(), args);
+  }
+
+  /**
+   * 以指定来源处理 Provider 请求
+   * 
+   * 供跨源传输（popup / iframe）使用，origin 必须取自 MessageEvent.origin，不能信任消息内容
+   */
+  async requestForOrigin(origin: string, args: { method: string; params?: unknown[] }): Promise<unknown> {
+    const { method, params = [] } = args;
+
+    // 交易与签名请求只接受已连接的来源，未连接的站点不能弹出确认框或触发模拟、风险评估等请求
+    if (ACCOUNT_AUTHORIZED_METHODS.includes(method) && !(await permissionService.hasPermission(origin, 'eth_accounts'))) {
+      throw Object.assign(new Error(`Unauthorized: ${origin} has not been granted eth_accounts`), { code: 4100 });
+    }
+
+    // 已授权的来源再次请求连接时无需重复确认
+    if (method === 'eth_requestAccounts' && (await permissionService.hasPermission(origin, 'eth_accounts'))) {
+      return this.requestAccounts();
+    }
+    if (method === 'wallet_requestPermissions') {
+      // 先校验参数，避免为非法请求弹出确认框
+      this.parseRequestPermissionsParam(params[0]);
+    }
+
+    // wallet_watchAsset 在确认前读取链上元数据，确认框展示校验结果与不一致警告
+    let confirmationParams: unknown[] = params;
+    if (method === 'wallet_watchAsset') {
+      // EIP-747 的 params 为对象，兼容包装成数组的写法
+      const asset = this.parseWatchAssetParam(Array.isArray(params) ? params[0] : params);
+      confirmationParams = [await this.prepareWatchAsset(asset)];
+    }
 
     // 需要用户确认的方法
     const requiresConfirmation = [
+      'eth_requestAccounts',
+      'wallet_requestPermissions',
       'eth_sendTransaction',
       'wallet_sendTransaction',
+      'wallet_sendCalls',
       'eth_sign',
       'personal_sign',
       'eth_signTypedData',
       'eth_signTypedData_v4',
       'wallet_switchEthereumChain',
       'wallet_addEthereumChain',
+      'wallet_watchAsset',
     ];
 
     if (requiresConfirmation.includes(method)) {
+      // 交易类请求先模拟执行并解码调用数据，确认框展示方法、参数、资产变化与回滚原因
+      const calls = this.getConfirmationCalls(method, params);
+      const simulation = calls ? await this.simulateForConfirmation(calls) : undefined;
+      const decodedCalls = calls?.map((call) =>
+        abiRegistryService.decodeCall(call.data, call.to, this.accountStore.currentChainId, call.value)
+      );
+      const risk = await this.assessRisk(origin, calls);
+      const feeEstimate = calls ? await this.estimateFeesForConfirmation() : undefined;
+
       // 添加到交互队列
       const requestId = interactionStore.addRequest(
         method as Parameters<typeof interactionStore.addRequest>[0],
         origin,
-        params
+        confirmationParams,
+        { simulation, decodedCalls, risk, feeEstimate }
       );
 
       // 等待用户确认
-      return this.waitForConfirmation(requestId, method, params);
+      return this.waitForConfirmation(requestId, method, confirmationParams, origin);
     }
 
     // 不需要确认的方法直接执行
     switch (method) {
-      case 'eth_requestAccounts':
-        return this.requestAccounts();
       case 'eth_accounts':
-        return this.getAccounts();
+        return this.getAccounts(origin);
+      case 'wallet_getPermissions':
+        return this.getPermissions(origin);
+      case 'wallet_revokePermissions':
+        return this.revokePermissions(origin, this.parseRevokePermissionsParam(params[0]));
       case 'eth_chainId':
         return this.getChainId();
       case 'eth_getBalance':
@@ -166,7 +422,21 @@ export class AnDaoWalletProvider implements EthereumProvider {
         );
       case 'wallet_watchTx':
         return this.watchTransaction(this.parseWatchTxParam(params[0]));
+      case 'wallet_getCallsStatus':
+        return this.getCallsStatus(this.parseStringParam(params[0], 'wallet_getCallsStatus.id'));
+      case 'wallet_getCapabilities':
+        return this.getCapabilities(
+          this.parseStringParam(params[0], 'wallet_getCapabilities.address'),
+          this.parseCapabilityChainIdsParam(params[1])
+        );
+      case 'eth_estimateGas':
+        return this.estimateGas(this.parseTransactionParam(params[0]), params[1]);
+      case 'eth_getTransactionReceipt':
+        return this.getTransactionReceipt(this.parseStringParam(params[0], 'eth_getTransactionReceipt.hash'));
       default:
+        if (READ_ONLY_RPC_METHODS.includes(method)) {
+          return this.forwardReadOnlyRequest(method, params);
+        }
         throw new Error(`Unsupported method: ${method}`);
     }
   }
@@ -179,7 +449,8 @@ export class AnDaoWalletProvider implements EthereumProvider {
   private async waitForConfirmation(
     requestId: string,
     method: string,
-    params: unknown[]
+    params: unknown[],
+    origin: string
   ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       let settled = false;
@@ -202,7 +473,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
 
         if (request.status === 'approved') {
           // 请求已批准，执行实际操作
-          this.executeApprovedRequest(method, params, request.result)
+          this.executeApprovedRequest(method, params, request.result, origin, request.feeTier)
             .then((result) => settle(resolve as (value: unknown) => void, result))
             .catch((error) => settle(reject as (value: unknown) => void, error));
         } else if (request.status === 'rejected') {
@@ -222,7 +493,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
         if (settled) return;
         const detail = (event as CustomEvent).detail;
         if (detail?.request?.id === requestId) {
-          this.executeApprovedRequest(method, params, detail.request.result)
+          this.executeApprovedRequest(method, params, detail.request.result, origin, detail.request.feeTier)
             .then((result) => settle(resolve as (value: unknown) => void, result))
             .catch((error) => settle(reject as (value: unknown) => void, error));
         }
@@ -259,14 +530,104 @@ export class AnDaoWalletProvider implements EthereumProvider {
     });
   }
 
+  /**
+   * 提取待确认交易的调用列表（非交易请求或参数非法时返回 undefined，参数错误在执行时再报告）
+   */
+  private getConfirmationCalls(method: string, params: unknown[]): SimulationCall[] | undefined {
+    try {
+      if (method === 'eth_sendTransaction' || method === 'wallet_sendTransaction') {
+        const tx =
+          method === 'eth_sendTransaction'
+            ? this.parseTransactionParam(params[0])
+            : this.parseWalletSendTransactionParam(params[0]);
+        return [{ to: tx.to as Address, data: (tx.data || '0x') as Hex, value: BigInt(tx.value || '0') }];
+      }
+      if (method === 'wallet_sendCalls') {
+        return this.parseSendCallsParam(params[0]).calls.map((call) => ({
+          to: call.to as Address,
+          data: (call.data || '0x') as Hex,
+          value: BigInt(call.value || '0'),
+        }));
+      }
+    } catch {
+      return undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * 评估待确认请求的风险（评估失败时返回 undefined，不阻断确认流程）
+   */
+  private async assessRisk(origin: string, calls?: SimulationCall[]): Promise<RiskAssessment | undefined> {
+    try {
+      return await riskAssessmentService.assess({
+        origin,
+        chainId: this.accountStore.currentChainId,
+        accountAddress: this.getActiveAccount()?.address as Address | undefined,
+        calls,
+      });
+    } catch (error) {
+      console.warn('Risk assessment failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 估算待确认交易的三档 Gas 费（估算失败时返回 undefined，发送时按默认档位重新估算）
+   */
+  private async estimateFeesForConfirmation(): Promise<FeeEstimate | undefined> {
+    try {
+      return await feeOracleService.getFeeEstimate(this.accountStore.currentChainId);
+    } catch (error) {
+      console.warn('Fee estimation failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 模拟待确认的交易（模拟失败时返回 undefined，不阻断确认流程）
+   */
+  private async simulateForConfirmation(calls: SimulationCall[]): Promise<TransactionSimulationResult | undefined> {
+    const account = this.getActiveAccount();
+    if (!account) {
+      return undefined;
+    }
+
+    try {
+      return await transactionSimulationService.simulate(
+        account.address as Address,
+        this.accountStore.currentChainId,
+        calls
+      );
+    } catch (error) {
+      console.warn('Transaction simulation failed:', error);
+      return undefined;
+    }
+  }
+
   /**
    * 执行已批准的请求
+   * 
+   * @param feeTier 用户在确认框中选择的 Gas 费档位（交易类请求）
    */
   private async executeApprovedRequest(
     method: string,
     params: unknown[],
-    preApprovedResult?: unknown
+    preApprovedResult?: unknown,
+    origin: string = this.getRequestOrigin(),
+    feeTier?: FeeTier
   ): Promise<unknown> {
+    // 连接授权必须落库，不能直接使用预批准结果
+    if (method === 'eth_requestAccounts') {
+      await permissionService.grantPermissions(origin, ['eth_accounts']);
+      const accounts = await this.requestAccounts();
+      this.emitAccountsChanged(accounts);
+      return accounts;
+    }
+    if (method === 'wallet_requestPermissions') {
+      return this.requestPermissions(origin, this.parseRequestPermissionsParam(params[0]));
+    }
+
     // 如果已经有预批准的结果，直接返回
     if (preApprovedResult !== undefined) {
       return preApprovedResult;
@@ -275,9 +636,11 @@ export class AnDaoWalletProvider implements EthereumProvider {
     // 否则执行实际操作
     switch (method) {
       case 'eth_sendTransaction':
-        return this.sendTransaction(this.parseTransactionParam(params[0]));
+        return this.sendTransaction(this.parseTransactionParam(params[0]), feeTier);
       case 'wallet_sendTransaction':
-        return this.sendTransaction(this.parseWalletSendTransactionParam(params[0]));
+        return this.sendTransaction(this.parseWalletSendTransactionParam(params[0]), feeTier);
+      case 'wallet_sendCalls':
+        return this.sendCalls(this.parseSendCallsParam(params[0]), feeTier);
       case 'eth_sign':
         return this.sign(this.parseStringParam(params[0], 'eth_sign.address'), this.parseStringParam(params[1], 'eth_sign.message'));
       case 'personal_sign':
@@ -295,6 +658,8 @@ export class AnDaoWalletProvider implements EthereumProvider {
         return this.switchChain(this.parseSwitchChainParam(params[0]));
       case 'wallet_addEthereumChain':
         return this.addChain(this.parseAddChainParam(params[0]));
+      case 'wallet_watchAsset':
+        return this.watchAsset(params[0] as WatchAssetRequest);
       default:
         throw new Error(`Unsupported method: ${method}`);
     }
@@ -315,13 +680,84 @@ export class AnDaoWalletProvider implements EthereumProvider {
 
   /**
    * 获取当前账户列表
+   * 
+   * 钱包锁定或未获得 eth_accounts 授权的来源返回空列表
    */
-  private async getAccounts(): Promise<string[]> {
+  private async getAccounts(origin: string): Promise<string[]> {
+    if (this.accountStore.isLocked) {
+      return [];
+    }
+
+    if (!(await permissionService.hasPermission(origin, 'eth_accounts'))) {
+      return [];
+    }
+
     const account = this.getActiveAccount();
     
     return account ? [account.address] : [];
   }
 
+  /**
+   * 请求权限（EIP-2255 wallet_requestPermissions）
+   */
+  private async requestPermissions(
+    origin: string,
+    capabilities: PermissionCapability[]
+  ): Promise<OriginPermission[]> {
+    if (capabilities.includes('eth_accounts') && !this.getActiveAccount()) {
+      throw new Error('No account available. Please create or import an account first.');
+    }
+
+    const permissions = await permissionService.grantPermissions(origin, capabilities);
+    if (capabilities.includes('eth_accounts')) {
+      this.emitAccountsChanged(await this.getAccounts(origin));
+    }
+
+    return this.formatPermissions(
+      permissions.filter((permission) => capabilities.includes(permission.parentCapability))
+    );
+  }
+
+  /**
+   * 获取来源已有的权限（EIP-2255 wallet_getPermissions）
+   */
+  private async getPermissions(origin: string): Promise<OriginPermission[]> {
+    return this.formatPermissions(await permissionService.getPermissions(origin));
+  }
+
+  /**
+   * 撤销来源的权限（wallet_revokePermissions）
+   */
+  private async revokePermissions(origin: string, capabilities: PermissionCapability[]): Promise<null> {
+    await permissionService.revokePermissions(origin, capabilities);
+    if (capabilities.includes('eth_accounts')) {
+      this.emitAccountsChanged([]);
+    }
+    return null;
+  }
+
+  /**
+   * 为 eth_accounts 权限附加 restrictReturnedAccounts caveat
+   * 
+   * 智能账户地址随链变化，caveat 按当前激活账户实时计算，不做持久化
+   */
+  private formatPermissions(permissions: OriginPermission[]): OriginPermission[] {
+    const account = this.getActiveAccount();
+    return permissions.map((permission) =>
+      permission.parentCapability === 'eth_accounts'
+        ? {
+            ...permission,
+            caveats: [
+              {
+                type: 'restrictReturnedAccounts',
+                value: account ? [account.address] : [],
+              },
+            ],
+          }
+        : permission
+    );
+  }
+
   /**
    * 获取当前链 ID
    */
@@ -356,7 +792,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
   /**
    * 发送交易（转换为 UserOperation）
    */
-  private async sendTransaction(tx: SendTransactionParams): Promise<string> {
+  private async sendTransaction(tx: SendTransactionParams, feeTier?: FeeTier): Promise<string> {
     const account = this.getActiveAccount();
     
     if (!account) {
@@ -370,24 +806,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
     const data = tx.data || '0x';
 
     // 获取 owner 的私钥（用于签名 UserOperation）
-    // 优先从会话中获取，如果不存在则抛出错误要求用户输入密码
-    const ownerAddress = account.owner as `0x${string}`;
-    let ownerPrivateKey: `0x${string}` | null = null;
-
-    try {
-      // 尝试从会话中获取私钥
-      ownerPrivateKey = await keyManagerService.getPrivateKeyFromSession(ownerAddress);
-    } catch (error) {
-      console.warn('Failed to get private key from session:', error);
-    }
-
-    if (!ownerPrivateKey) {
-      // 如果会话中没有私钥，抛出错误
-      // DApp 应该提示用户输入密码或重新登录
-      throw new Error(
-        'Private key not available. Please unlock wallet or re-enter password to sign transaction.'
-      );
-    }
+    const ownerPrivateKey = await this.getSessionOwnerPrivateKey(account.owner as Address);
 
     // 使用 TransactionRelayer 发送交易
     // TransactionRelayer.sendTransaction 的参数顺序是 (accountAddress, chainId, target, data, ownerPrivateKey)
@@ -405,9 +824,14 @@ export class AnDaoWalletProvider implements EthereumProvider {
             ownerAddress: tx.sponsorPolicyContext.ownerAddress as Address | undefined,
             eoaAddress: tx.sponsorPolicyContext.eoaAddress as Address | undefined,
           }
-        : undefined
+        : undefined,
+      { feeTier }
     );
 
+    if (result) {
+      this.submittedUserOps.set(result, chainConfig.chainId);
+    }
+
     // 触发交易发送事件
     this.emit('message', {
       type: 'eth_sendTransaction',
@@ -417,6 +841,201 @@ export class AnDaoWalletProvider implements EthereumProvider {
     return result || '';
   }
 
+  /**
+   * 发送批量调用（EIP-5792 wallet_sendCalls）
+   * 
+   * 整个调用批次打包为一个 Kernel executeBatch UserOperation，原子执行
+   * 返回的批次 ID 即 userOpHash
+   */
+  private async sendCalls(params: SendCallsParams, feeTier?: FeeTier): Promise<{ id: string }> {
+    const account = this.getActiveAccount();
+
+    if (!account) {
+      throw new Error('No account available');
+    }
+    if (params.from && params.from.toLowerCase() !== account.address.toLowerCase()) {
+      throw new Error('Address mismatch');
+    }
+
+    const chainConfig = this.getActiveChainConfig();
+    if (!chainConfig) {
+      throw new Error(`Current chain ${this.accountStore.currentChainId} is not configured`);
+    }
+
+    const ownerPrivateKey = await this.getSessionOwnerPrivateKey(account.owner as Address);
+
+    const userOpHash = await this.transactionRelayer.sendBatch(
+      account.address as Address,
+      chainConfig.chainId,
+      params.calls.map((call) => ({
+        to: call.to,
+        value: BigInt(call.value || '0'),
+        data: call.data || '0x',
+      })),
+      ownerPrivateKey,
+      undefined,
+      { feeTier }
+    );
+
+    this.submittedUserOps.set(userOpHash, chainConfig.chainId);
+
+    this.emit('message', {
+      type: 'wallet_sendCalls',
+      data: userOpHash,
+    });
+
+    return { id: userOpHash };
+  }
+
+  /**
+   * 查询批量调用状态（EIP-5792 wallet_getCallsStatus）
+   * 
+   * 根据 Bundler 的 UserOperation 回执判断批次状态
+   */
+  private async getCallsStatus(id: string): Promise<CallsStatusResult> {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(id)) {
+      throw new Error('Invalid parameter: wallet_getCallsStatus.id must be a 32-byte hex string');
+    }
+
+    const chainId = this.submittedUserOps.get(id) ?? this.accountStore.currentChainId;
+    const receipt = await this.transactionRelayer.getUserOperationReceipt(chainId, id as Hash);
+    const base = {
+      version: '2.0.0',
+      id,
+      chainId: `0x${chainId.toString(16)}`,
+      atomic: true,
+    };
+
+    if (!receipt) {
+      return { ...base, status: 100 };
+    }
+
+    return {
+      ...base,
+      status: receipt.success ? 200 : 500,
+      receipts: [
+        {
+          logs: receipt.logs,
+          status: receipt.success ? '0x1' : '0x0',
+          blockHash: receipt.receipt.blockHash,
+          blockNumber: receipt.receipt.blockNumber,
+          gasUsed: receipt.receipt.gasUsed,
+          transactionHash: receipt.receipt.transactionHash,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 查询钱包能力（EIP-5792 wallet_getCapabilities）
+   * 
+   * 仅配置了 Bundler 与 EntryPoint 的 EVM 链支持 UserOperation，
+   * 这些链上的批量调用通过 executeBatch 原子执行
+   */
+  private async getCapabilities(
+    address: string,
+    chainIds?: string[]
+  ): Promise<Record<string, Record<string, unknown>>> {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new Error('Invalid parameter: wallet_getCapabilities.address must be a valid EVM address');
+    }
+
+    const requested = chainIds?.map((chainId) => parseInt(chainId, 16));
+    const chains: ChainConfig[] = [...ALL_CHAIN_CONFIGS, ...chainService.getAllCustomChains()];
+    const capabilities: Record<string, Record<string, unknown>> = {};
+
+    for (const chain of chains) {
+      if ((!chain.bundlerUrl && !chain.bundlerUrls?.length) || !chain.entryPointAddress) continue;
+      if (requested && !requested.includes(chain.chainId)) continue;
+
+      capabilities[`0x${chain.chainId.toString(16)}`] = {
+        atomic: { status: 'supported' },
+      };
+    }
+
+    return capabilities;
+  }
+
+  /**
+   * 透传只读 RPC 请求到当前链
+   */
+  private async forwardReadOnlyRequest(method: string, params: unknown[]): Promise<unknown> {
+    const publicClient = rpcClientManager.getPublicClient(this.accountStore.currentChainId);
+    return publicClient.request({ method, params } as never);
+  }
+
+  /**
+   * 估算 Gas（eth_estimateGas）
+   * 
+   * from 为当前智能账户（或未指定）时，按 UserOperation 口径估算：
+   * callGasLimit + verificationGasLimit + preVerificationGas
+   * 其他 from 地址按普通交易透传到 RPC
+   */
+  private async estimateGas(tx: SendTransactionParams, blockTag?: unknown): Promise<string> {
+    const account = this.getActiveAccount();
+    const isSmartAccount =
+      !!account && (!tx.from || tx.from.toLowerCase() === account.address.toLowerCase());
+
+    if (!account || !isSmartAccount) {
+      return this.forwardReadOnlyRequest(
+        'eth_estimateGas',
+        typeof blockTag === 'undefined' ? [tx] : [tx, blockTag]
+      ) as Promise<string>;
+    }
+
+    const { userOp } = await this.transactionRelayer.previewTransaction(
+      account.address as Address,
+      this.accountStore.currentChainId,
+      tx.to as Address,
+      tx.data || '0x',
+      BigInt(tx.value || '0')
+    );
+    const totalGas = userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas;
+
+    return `0x${totalGas.toString(16)}`;
+  }
+
+  /**
+   * 查询交易回执（eth_getTransactionReceipt）
+   * 
+   * eth_sendTransaction 返回的是 userOpHash，链上不存在同名交易：
+   * 先按普通交易查询，未找到时通过 Bundler 查询 UserOperation 回执，
+   * 并将其映射为标准交易回执（status / logs 取 UserOperation 自身的执行结果）
+   */
+  private async getTransactionReceipt(hash: string): Promise<unknown> {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(hash)) {
+      throw new Error('Invalid parameter: eth_getTransactionReceipt.hash must be a 32-byte hex string');
+    }
+
+    const knownChainId = this.submittedUserOps.get(hash);
+    if (typeof knownChainId === 'undefined') {
+      const receipt = await this.forwardReadOnlyRequest('eth_getTransactionReceipt', [hash]);
+      if (receipt) {
+        return receipt;
+      }
+    }
+
+    const chainId = knownChainId ?? this.accountStore.currentChainId;
+    let userOpReceipt: Awaited<ReturnType<TransactionRelayer['getUserOperationReceipt']>> = null;
+    try {
+      userOpReceipt = await this.transactionRelayer.getUserOperationReceipt(chainId, hash as Hash);
+    } catch (error) {
+      console.warn('Failed to get UserOperation receipt:', error);
+    }
+
+    if (!userOpReceipt) {
+      return null;
+    }
+
+    return {
+      ...userOpReceipt.receipt,
+      userOpHash: userOpReceipt.userOpHash,
+      from: userOpReceipt.sender,
+      status: userOpReceipt.success ? '0x1' : '0x0',
+      logs: userOpReceipt.logs,
+    };
+  }
+
   private async watchTransaction(txHash: string): Promise<{
     status: 'submitted' | 'confirmed' | 'failed';
     receipt?: unknown;
@@ -426,6 +1045,13 @@ export class AnDaoWalletProvider implements EthereumProvider {
       if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
         throw new Error('Invalid txHash');
       }
+
+      // 钱包发出的 UserOperation 哈希由生命周期跟踪服务给出结果
+      const operation = await userOperationTracker.waitForFinalStatus(txHash, 120_000);
+      if (operation) {
+        return this.toWatchResult(operation);
+      }
+
       const publicClient = rpcClientManager.getPublicClient(this.accountStore.currentChainId);
       const receipt = await publicClient.waitForTransactionReceipt({
         hash: txHash as `0x${string}`,
@@ -446,6 +1072,40 @@ export class AnDaoWalletProvider implements EthereumProvider {
     }
   }
 
+  private toWatchResult(operation: TrackedUserOperation): {
+    status: 'submitted' | 'confirmed' | 'failed';
+    receipt?: unknown;
+    error?: { code: string; message: string };
+  } {
+    const receipt = operation.bundleTxHash
+      ? {
+          userOpHash: operation.userOpHash,
+          transactionHash: operation.bundleTxHash,
+          blockNumber: operation.blockNumber,
+          actualGasCost: operation.actualGasCost,
+          actualGasUsed: operation.actualGasUsed,
+        }
+      : undefined;
+
+    switch (operation.status) {
+      case 'confirmed':
+        return { status: 'confirmed', receipt };
+      case 'failed':
+      case 'dropped':
+        return {
+          status: 'failed',
+          receipt,
+          error: {
+            code: operation.status === 'dropped' ? 'USER_OP_DROPPED' : 'USER_OP_REVERTED',
+            message: operation.reason || 'UserOperation failed',
+          },
+        };
+      default:
+        // 仍在等待上链（含跟踪超时），由 DApp 决定是否继续观察
+        return { status: 'submitted', receipt };
+    }
+  }
+
   /**
    * 签名消息（eth_sign）
    * 
@@ -477,6 +1137,8 @@ export class AnDaoWalletProvider implements EthereumProvider {
    * Personal Sign（推荐的消息签名方式）
    * 
    * EIP-191 标准个人消息签名
+   * 签名对象是智能账户而非 owner：DApp 通过账户的 ERC-1271 isValidSignature 验证，
+   * 未部署账户返回 ERC-6492 包装签名
    */
   private async personalSign(message: string, address: string): Promise<string> {
     const account = this.getActiveAccount();
@@ -494,7 +1156,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
     const privateKey = await this.getSignerPrivateKey(account.owner as Address);
     
     // 执行签名
-    const signature = await signatureService.personalSign(message, privateKey);
+    const signature = await signatureService.smartAccountPersonalSign(message, account, privateKey);
     return signature;
   }
 
@@ -502,6 +1164,7 @@ export class AnDaoWalletProvider implements EthereumProvider {
    * 签名结构化数据（EIP-712）
    * 
    * 最安全和推荐的结构化数据签名方式
+   * 与 personal_sign 相同，返回智能账户的 ERC-1271 / ERC-6492 签名
    */
   private async signTypedData(address: string, typedData: TypedData): Promise<string> {
     const account = this.getActiveAccount();
@@ -519,10 +1182,34 @@ export class AnDaoWalletProvider implements EthereumProvider {
     const privateKey = await this.getSignerPrivateKey(account.owner as Address);
     
     // 执行签名
-    const signature = await signatureService.signTypedData(typedData, privateKey);
+    const signature = await signatureService.smartAccountSignTypedData(typedData, account, privateKey);
     return signature;
   }
 
+  /**
+   * 从会话中获取 owner 私钥（用于签名 UserOperation）
+   * 
+   * 会话中没有私钥时抛出错误，DApp 应该提示用户解锁钱包或重新输入密码
+   */
+  private async getSessionOwnerPrivateKey(ownerAddress: Address): Promise<`0x${string}`> {
+    let ownerPrivateKey: `0x${string}` | null = null;
+
+    try {
+      // 尝试从会话中获取私钥
+      ownerPrivateKey = await keyManagerService.getPrivateKeyFromSession(ownerAddress);
+    } catch (error) {
+      console.warn('Failed to get private key from session:', error);
+    }
+
+    if (!ownerPrivateKey) {
+      throw new Error(
+        'Private key not available. Please unlock wallet or re-enter password to sign transaction.'
+      );
+    }
+
+    return ownerPrivateKey;
+  }
+
   /**
    * 获取签名者私钥
    * 
@@ -685,12 +1372,9 @@ export class AnDaoWalletProvider implements EthereumProvider {
 
     try {
       // 统一按 chainId 切换，避免主网/测试网在同一链枚举下被混淆
+      // chainChanged / accountsChanged 由 startStateReactions 中的 reaction 触发
       this.accountStore.setCurrentChain(chainId);
 
-      // 触发链切换事件
-      this.emit('chainChanged', params.chainId);
-      this.emit('accountsChanged', await this.getAccounts());
-
       return null;
     } catch (error) {
       throw new Error(`Failed to switch chain: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -726,6 +1410,45 @@ export class AnDaoWalletProvider implements EthereumProvider {
     }
   }
 
+  /**
+   * 校验 wallet_watchAsset 资产（EIP-747）
+   * 
+   * 读取链上元数据，DApp 声明的 symbol / decimals 与链上不一致时生成警告
+   */
+  private async prepareWatchAsset(asset: WatchAssetParams): Promise<WatchAssetRequest> {
+    const chainId = this.accountStore.currentChainId;
+    const { address, symbol, decimals, image, tokenId } = asset.options;
+
+    const onChain =
+      asset.type === 'ERC20'
+        ? await tokenService.fetchTokenInfo(address, chainId)
+        : await tokenService.fetchNftInfo(address, chainId, asset.type, tokenId!);
+
+    const warnings: string[] = [];
+    if (symbol !== undefined && onChain.symbol && symbol !== onChain.symbol) {
+      warnings.push(`DApp 声明的代币符号 "${symbol}" 与链上 "${onChain.symbol}" 不一致`);
+    }
+    if (asset.type === 'ERC20' && decimals !== undefined && decimals !== onChain.decimals) {
+      warnings.push(`DApp 声明的精度 ${decimals} 与链上 ${onChain.decimals} 不一致`);
+    }
+
+    return {
+      asset,
+      token: { ...onChain, standard: asset.type, image },
+      warnings,
+    };
+  }
+
+  /**
+   * 关注资产 (wallet_watchAsset)
+   * 
+   * 以链上校验后的元数据持久化，不使用 DApp 声明的值
+   */
+  private async watchAsset(request: WatchAssetRequest): Promise<boolean> {
+    await tokenService.addToken(request.token);
+    return true;
+  }
+
   /**
    * 事件监听
    */
@@ -849,6 +1572,99 @@ export class AnDaoWalletProvider implements EthereumProvider {
     };
   }
 
+  private parseSendCallsParam(value: unknown): SendCallsParams {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Invalid parameter: wallet_sendCalls requires an object payload');
+    }
+    const candidate = value as Partial<SendCallsParams>;
+    if (!Array.isArray(candidate.calls) || candidate.calls.length === 0) {
+      throw new Error('Invalid parameter: wallet_sendCalls.calls must be a non-empty array');
+    }
+    if (typeof candidate.chainId === 'string') {
+      const chainId = parseInt(candidate.chainId, 16);
+      if (chainId !== this.accountStore.currentChainId) {
+        throw new Error(
+          `Chain mismatch: wallet_sendCalls.chainId=${chainId}, current=${this.accountStore.currentChainId}`
+        );
+      }
+    }
+
+    // 按 EIP-5792，不支持的非 optional capability 必须以 5700 拒绝
+    const capabilities =
+      candidate.capabilities && typeof candidate.capabilities === 'object'
+        ? candidate.capabilities
+        : undefined;
+    if (capabilities) {
+      for (const [name, capability] of Object.entries(capabilities)) {
+        if (!SUPPORTED_CALL_CAPABILITIES.includes(name) && !capability?.optional) {
+          throw Object.assign(new Error(`Unsupported non-optional capability: ${name}`), {
+            code: 5700,
+          });
+        }
+      }
+    }
+
+    const calls = candidate.calls.map((call, index) => {
+      if (!call || typeof call !== 'object') {
+        throw new Error(`Invalid parameter: wallet_sendCalls.calls[${index}] must be an object`);
+      }
+      if (typeof call.to !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(call.to)) {
+        throw new Error(`Invalid parameter: wallet_sendCalls.calls[${index}].to must be a valid EVM address`);
+      }
+      return {
+        to: call.to,
+        data: typeof call.data === 'string' ? call.data : undefined,
+        value: typeof call.value === 'string' ? call.value : undefined,
+      };
+    });
+
+    return {
+      version: typeof candidate.version === 'string' ? candidate.version : undefined,
+      chainId: typeof candidate.chainId === 'string' ? candidate.chainId : undefined,
+      from: typeof candidate.from === 'string' ? candidate.from : undefined,
+      atomicRequired: typeof candidate.atomicRequired === 'boolean' ? candidate.atomicRequired : undefined,
+      calls,
+      capabilities,
+    };
+  }
+
+  private parseRequestPermissionsParam(value: unknown): PermissionCapability[] {
+    return this.parsePermissionsObject(value, 'wallet_requestPermissions');
+  }
+
+  private parseRevokePermissionsParam(value: unknown): PermissionCapability[] {
+    return this.parsePermissionsObject(value, 'wallet_revokePermissions');
+  }
+
+  /**
+   * 解析 { [capability]: {} } 形式的权限参数
+   */
+  private parsePermissionsObject(value: unknown, method: string): PermissionCapability[] {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Invalid parameter: ${method} requires a permissions object`);
+    }
+    const capabilities = Object.keys(value);
+    if (capabilities.length === 0) {
+      throw new Error(`Invalid parameter: ${method} requires at least one permission`);
+    }
+    for (const capability of capabilities) {
+      if (!permissionService.isSupportedPermission(capability)) {
+        throw Object.assign(new Error(`Unsupported permission: ${capability}`), { code: 4200 });
+      }
+    }
+    return capabilities as PermissionCapability[];
+  }
+
+  private parseCapabilityChainIdsParam(value: unknown): string[] | undefined {
+    if (typeof value === 'undefined' || value === null) {
+      return undefined;
+    }
+    if (!Array.isArray(value) || value.some((chainId) => typeof chainId !== 'string')) {
+      throw new Error('Invalid parameter: wallet_getCapabilities.chainIds must be an array of hex strings');
+    }
+    return value as string[];
+  }
+
   private parseBalanceAddressParam(value: unknown): string | undefined {
     if (typeof value === 'undefined' || value === null) {
       return undefined;
@@ -885,6 +1701,52 @@ export class AnDaoWalletProvider implements EthereumProvider {
     throw new Error('Invalid parameter: wallet_watchTx requires txHash');
   }
 
+  private parseWatchAssetParam(value: unknown): WatchAssetParams {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Invalid parameter: wallet_watchAsset requires an object payload');
+    }
+    const candidate = value as { type?: unknown; options?: Record<string, unknown> };
+    if (!WATCH_ASSET_TYPES.includes(candidate.type as TokenStandard)) {
+      throw new Error(`Invalid parameter: unsupported asset type ${String(candidate.type)}`);
+    }
+    const type = candidate.type as TokenStandard;
+    const options = candidate.options;
+    if (!options || typeof options !== 'object') {
+      throw new Error('Invalid parameter: wallet_watchAsset.options is required');
+    }
+    if (typeof options.address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(options.address)) {
+      throw new Error('Invalid parameter: wallet_watchAsset.options.address must be an address');
+    }
+    if (options.symbol !== undefined && typeof options.symbol !== 'string') {
+      throw new Error('Invalid parameter: wallet_watchAsset.options.symbol must be a string');
+    }
+    if (
+      options.decimals !== undefined &&
+      (typeof options.decimals !== 'number' || !Number.isInteger(options.decimals) || options.decimals < 0)
+    ) {
+      throw new Error('Invalid parameter: wallet_watchAsset.options.decimals must be a non-negative integer');
+    }
+
+    let tokenId: string | undefined;
+    if (type !== 'ERC20') {
+      if (typeof options.tokenId !== 'string' || !/^\d+$/.test(options.tokenId)) {
+        throw new Error('Invalid parameter: wallet_watchAsset.options.tokenId must be a decimal string');
+      }
+      tokenId = options.tokenId;
+    }
+
+    return {
+      type,
+      options: {
+        address: options.address as Address,
+        symbol: options.symbol as string | undefined,
+        decimals: options.decimals as number | undefined,
+        image: typeof options.image === 'string' ? options.image : undefined,
+        tokenId,
+      },
+    };
+  }
+
   private parseSponsorPolicyContext(
     value: unknown
   ): SendTransactionParams['sponsorPolicyContext'] | undefined {
@@ -971,6 +1833,7 @@ export class WindowProviderAdapter {
       transactionRelayer,
       accountManager
     );
+    this.provider.startStateReactions();
 
     // 注册到 window.ethereum
     if (typeof window !== 'undefined') {
@@ -982,6 +1845,13 @@ export class WindowProviderAdapter {
     }
   }
 
+  /**
+   * 获取已注册的 Provider（供跨源传输复用）
+   */
+  getProvider(): AnDaoWalletProvider | null {
+    return this.provider;
+  }
+
   /**
    * 注销 Provider
    */
@@ -990,6 +1860,7 @@ export class WindowProviderAdapter {
       const walletWindow = window as Window & { ethereum?: EthereumProvider };
       delete walletWindow.ethereum;
     }
+    this.provider?.stopStateReactions();
     this.provider = null;
   }
 
@@ -1,8 +1,16 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { observable, runInAction } from 'mobx';
 import { AnDaoWalletProvider } from '../ProviderAdapter';
 import { SupportedChain } from '@/types';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { permissionService } from '@/services/PermissionService';
+import { tokenService } from '@/services/TokenService';
+import { interactionStore } from '@/stores/InteractionStore';
+import { transactionSimulationService } from '@/services/TransactionSimulationService';
+import { feeOracleService, type FeeEstimate } from '@/services/FeeOracleService';
 
 const mockGetPublicClient = vi.fn();
+const USER_OP_HASH = `0x${'ab'.repeat(32)}`;
 
 vi.mock('@/stores/InteractionStore', () => ({
   interactionStore: {
@@ -11,6 +19,18 @@ vi.mock('@/stores/InteractionStore', () => ({
   },
 }));
 
+vi.mock('@/services/TransactionSimulationService', () => ({
+  transactionSimulationService: {
+    simulate: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/FeeOracleService', () => ({
+  feeOracleService: {
+    getFeeEstimate: vi.fn(),
+  },
+}));
+
 vi.mock('@/services/KeyManagerService', () => ({
   keyManagerService: {
     getPrivateKeyFromSession: vi.fn().mockResolvedValue(
@@ -27,9 +47,21 @@ vi.mock('@/utils/RpcClientManager', () => ({
   },
 }));
 
+vi.mock('@/config/chains', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/config/chains')>();
+  return {
+    ...actual,
+    ALL_CHAIN_CONFIGS: actual.ALL_CHAIN_CONFIGS.map((config) =>
+      config.chainId === 5003 ? { ...config, bundlerUrl: 'https://bundler.test' } : config
+    ),
+  };
+});
+
 describe('AnDaoWalletProvider chain selection', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
+    await storageAdapter.clear();
+    await permissionService.init();
     mockGetPublicClient.mockReturnValue({
       getBalance: vi.fn().mockResolvedValue(1000000000000000000n),
     });
@@ -52,6 +84,9 @@ describe('AnDaoWalletProvider chain selection', () => {
 
     const transactionRelayer = {
       sendTransaction: vi.fn().mockResolvedValue('0xmockedtxhash'),
+      sendBatch: vi.fn().mockResolvedValue(USER_OP_HASH),
+      getUserOperationReceipt: vi.fn().mockResolvedValue(null),
+      previewTransaction: vi.fn(),
     };
 
     const accountManager = {};
@@ -94,6 +129,7 @@ describe('AnDaoWalletProvider chain selection', () => {
 
   it('eth_accounts 应按 currentChainId 查询账户', async () => {
     const { provider, accountStore, testAccount } = setup();
+    await permissionService.grantPermissions(window.location.origin, ['eth_accounts']);
 
     const accounts = await provider.request({ method: 'eth_accounts' });
 
@@ -103,6 +139,7 @@ describe('AnDaoWalletProvider chain selection', () => {
 
   it('eth_requestAccounts 应按 currentChainId 返回账户', async () => {
     const { provider, accountStore, testAccount } = setup();
+    await permissionService.grantPermissions(window.location.origin, ['eth_accounts']);
 
     const accounts = await provider.request({ method: 'eth_requestAccounts' });
 
@@ -110,6 +147,87 @@ describe('AnDaoWalletProvider chain selection', () => {
     expect(accounts).toStrictEqual([testAccount.address]);
   });
 
+  it('未授权来源调用 eth_accounts 应返回空列表', async () => {
+    const { provider } = setup();
+
+    const accounts = await provider.request({ method: 'eth_accounts' });
+
+    expect(accounts).toStrictEqual([]);
+  });
+
+  it('wallet_requestPermissions 批准后应持久化授权并可撤销', async () => {
+    const { provider, testAccount } = setup();
+    const origin = window.location.origin;
+    const onAccountsChanged = vi.fn();
+    provider.on('accountsChanged', onAccountsChanged);
+
+    const granted = await (
+      provider as unknown as {
+        executeApprovedRequest: (method: string, params: unknown[]) => Promise<unknown>;
+      }
+    ).executeApprovedRequest('wallet_requestPermissions', [{ eth_accounts: {} }]);
+
+    expect(granted).toMatchObject([
+      {
+        invoker: origin,
+        parentCapability: 'eth_accounts',
+        caveats: [{ type: 'restrictReturnedAccounts', value: [testAccount.address] }],
+      },
+    ]);
+    expect(await provider.request({ method: 'eth_accounts' })).toStrictEqual([testAccount.address]);
+    expect(await provider.request({ method: 'wallet_getPermissions' })).toHaveLength(1);
+
+    await provider.request({ method: 'wallet_revokePermissions', params: [{ eth_accounts: {} }] });
+
+    expect(onAccountsChanged).toHaveBeenLastCalledWith([]);
+    expect(await provider.request({ method: 'eth_accounts' })).toStrictEqual([]);
+    expect(await permissionService.hasPermission(origin, 'eth_accounts')).toBe(false);
+  });
+
+  it('wallet_watchAsset 应校验链上元数据并在不一致时给出警告', async () => {
+    const { provider } = setup();
+    const tokenAddress = '0x4444444444444444444444444444444444444444';
+    const onChain: Record<string, unknown> = { name: 'USD Coin', symbol: 'USDC', decimals: 6 };
+    mockGetPublicClient.mockReturnValue({
+      readContract: vi.fn(({ functionName }: { functionName: string }) => Promise.resolve(onChain[functionName])),
+    });
+    vi.mocked(interactionStore.addRequest).mockReturnValue('watch-asset-request');
+    vi.mocked(interactionStore.getRequest).mockReturnValue({ status: 'approved' } as never);
+
+    const result = await provider.request({
+      method: 'wallet_watchAsset',
+      params: { type: 'ERC20', options: { address: tokenAddress, symbol: 'USDT', decimals: 18 } } as never,
+    });
+
+    expect(result).toBe(true);
+    const [, , confirmationParams] = vi.mocked(interactionStore.addRequest).mock.calls[0];
+    expect((confirmationParams as Array<{ warnings: string[] }>)[0].warnings).toHaveLength(2);
+
+    const tokens = await tokenService.getTokens(5003);
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0]).toMatchObject({ address: tokenAddress, symbol: 'USDC', decimals: 6, standard: 'ERC20' });
+  });
+
+  it('wallet_watchAsset 应拒绝不支持的资产类型', async () => {
+    const { provider } = setup();
+
+    await expect(
+      provider.request({
+        method: 'wallet_watchAsset',
+        params: [{ type: 'ERC777', options: { address: '0x4444444444444444444444444444444444444444' } }],
+      })
+    ).rejects.toThrow('unsupported asset type');
+    expect(interactionStore.addRequest).not.toHaveBeenCalled();
+  });
+
+  it('wallet_requestPermissions 应拒绝不支持的权限', async () => {
+    const { provider } = setup();
+
+    await expect(
+      provider.request({ method: 'wallet_requestPermissions', params: [{ eth_sign: {} }] })
+    ).rejects.toMatchObject({ code: 4200 });
+  });
+
   it('switchChain 应按 chainId 数值切换，避免同链族主网/测试网混淆', async () => {
     const { provider, accountStore } = setup();
 
@@ -138,8 +256,373 @@ describe('AnDaoWalletProvider chain selection', () => {
       data,
       '0x1234567890123456789012345678901234567890123456789012345678901234',
       BigInt(0),
-      undefined
+      undefined,
+      { feeTier: undefined }
     );
     expect(txHash).toBe('0xmockedtxhash');
   });
+
+  it('eth_sendTransaction 应在确认前模拟执行并把结果附加到交互请求', async () => {
+    const { provider, transactionRelayer, testAccount } = setup();
+    await permissionService.grantPermissions(window.location.origin, ['eth_accounts']);
+    const to = '0x3333333333333333333333333333333333333333';
+    const simulation = {
+      success: false,
+      revertReason: 'ERC20: transfer amount exceeds balance',
+      assetChanges: [],
+      approvals: [],
+      source: 'calldata' as const,
+    };
+    const feeEstimate = { chainId: 5003, source: 'feeHistory', tiers: {}, updatedAt: Date.now() } as unknown as FeeEstimate;
+    vi.mocked(transactionSimulationService.simulate).mockResolvedValue(simulation);
+    vi.mocked(feeOracleService.getFeeEstimate).mockResolvedValue(feeEstimate);
+    vi.mocked(interactionStore.addRequest).mockReturnValue('send-request');
+    vi.mocked(interactionStore.getRequest).mockReturnValue({ status: 'rejected' } as never);
+
+    await expect(
+      provider.request({ method: 'eth_sendTransaction', params: [{ to, data: '0xabcdef', value: '0x10' }] })
+    ).rejects.toThrow('User rejected the request');
+
+    expect(transactionSimulationService.simulate).toHaveBeenCalledWith(testAccount.address, 5003, [
+      { to, data: '0xabcdef', value: BigInt(16) },
+    ]);
+    expect(interactionStore.addRequest).toHaveBeenCalledWith(
+      'eth_sendTransaction',
+      window.location.origin,
+      expect.any(Array),
+      {
+        simulation,
+        decodedCalls: [expect.objectContaining({ to, selector: '0xabcdef', value: BigInt(16) })],
+        risk: expect.objectContaining({ level: expect.any(String), reasons: expect.any(Array) }),
+        feeEstimate,
+      }
+    );
+    expect(feeOracleService.getFeeEstimate).toHaveBeenCalledWith(5003);
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('未连接的来源发起交易或签名请求应以 4100 拒绝，且不触发模拟与确认', async () => {
+    const { provider } = setup();
+
+    for (const method of ['eth_sendTransaction', 'wallet_sendCalls', 'personal_sign', 'eth_signTypedData_v4']) {
+      await expect(
+        provider.requestForOrigin('https://unconnected.example', { method, params: [] })
+      ).rejects.toMatchObject({ code: 4100 });
+    }
+    expect(transactionSimulationService.simulate).not.toHaveBeenCalled();
+    expect(feeOracleService.getFeeEstimate).not.toHaveBeenCalled();
+    expect(interactionStore.addRequest).not.toHaveBeenCalled();
+  });
+
+  it('eth_sendTransaction 批准后应该按确认框选择的 Gas 费档位发送', async () => {
+    const { provider, transactionRelayer } = setup();
+    await permissionService.grantPermissions(window.location.origin, ['eth_accounts']);
+    vi.mocked(transactionSimulationService.simulate).mockResolvedValue(undefined as never);
+    vi.mocked(feeOracleService.getFeeEstimate).mockRejectedValue(new Error('rpc unavailable'));
+    vi.mocked(interactionStore.addRequest).mockReturnValue('send-request');
+    vi.mocked(interactionStore.getRequest).mockReturnValue({ status: 'approved', feeTier: 'fast' } as never);
+
+    await provider.request({
+      method: 'eth_sendTransaction',
+      params: [{ to: '0x3333333333333333333333333333333333333333', data: '0xabcdef' }],
+    });
+
+    expect(vi.mocked(interactionStore.addRequest).mock.calls[0][3]).toMatchObject({ feeEstimate: undefined });
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledWith(
+      expect.any(String),
+      5003,
+      '0x3333333333333333333333333333333333333333',
+      '0xabcdef',
+      expect.any(String),
+      BigInt(0),
+      undefined,
+      { feeTier: 'fast' }
+    );
+  });
+
+  it('wallet_sendCalls 应将调用批次打包为一次 sendBatch', async () => {
+    const { provider, transactionRelayer, testAccount } = setup();
+    const calls = [
+      { to: '0x3333333333333333333333333333333333333333', data: '0x095ea7b3', value: '0x0' },
+      { to: '0x4444444444444444444444444444444444444444', data: '0xabcdef', value: '0x10' },
+    ];
+
+    const result = await (
+      provider as unknown as {
+        executeApprovedRequest: (method: string, params: unknown[]) => Promise<unknown>;
+      }
+    ).executeApprovedRequest('wallet_sendCalls', [
+      { version: '2.0.0', chainId: '0x138b', from: testAccount.address, atomicRequired: true, calls },
+    ]);
+
+    expect(transactionRelayer.sendBatch).toHaveBeenCalledWith(
+      testAccount.address,
+      5003,
+      [
+        { to: calls[0].to, value: BigInt(0), data: calls[0].data },
+        { to: calls[1].to, value: BigInt(16), data: calls[1].data },
+      ],
+      '0x1234567890123456789012345678901234567890123456789012345678901234',
+      undefined,
+      { feeTier: undefined }
+    );
+    expect(result).toStrictEqual({ id: USER_OP_HASH });
+  });
+
+  it('wallet_sendCalls 应拒绝不支持的非 optional capability', async () => {
+    const { provider } = setup();
+    const executeApprovedRequest = (
+      provider as unknown as {
+        executeApprovedRequest: (method: string, params: unknown[]) => Promise<unknown>;
+      }
+    ).executeApprovedRequest.bind(provider);
+
+    await expect(
+      executeApprovedRequest('wallet_sendCalls', [
+        {
+          calls: [{ to: '0x3333333333333333333333333333333333333333' }],
+          capabilities: { auxiliaryFunds: { supported: true } },
+        },
+      ])
+    ).rejects.toMatchObject({ code: 5700 });
+    // 无法按 dApp 指定的 paymasterService 代付，不能静默改用默认 Paymaster
+    await expect(
+      executeApprovedRequest('wallet_sendCalls', [
+        {
+          calls: [{ to: '0x3333333333333333333333333333333333333333' }],
+          capabilities: { paymasterService: { url: 'https://paymaster.example' } },
+        },
+      ])
+    ).rejects.toMatchObject({ code: 5700 });
+  });
+
+  it('wallet_getCallsStatus 应根据 UserOperation 回执返回批次状态', async () => {
+    const { provider, transactionRelayer } = setup();
+
+    const pending = await provider.request({ method: 'wallet_getCallsStatus', params: [USER_OP_HASH] });
+    expect(transactionRelayer.getUserOperationReceipt).toHaveBeenCalledWith(5003, USER_OP_HASH);
+    expect(pending).toMatchObject({ id: USER_OP_HASH, chainId: '0x138b', status: 100, atomic: true });
+
+    transactionRelayer.getUserOperationReceipt.mockResolvedValueOnce({
+      success: false,
+      logs: [],
+      receipt: {
+        transactionHash: `0x${'cd'.repeat(32)}`,
+        blockHash: `0x${'ef'.repeat(32)}`,
+        blockNumber: '0x10',
+        gasUsed: '0x5208',
+        status: '0x1',
+        logs: [],
+      },
+    });
+
+    const reverted = await provider.request({ method: 'wallet_getCallsStatus', params: [USER_OP_HASH] });
+    expect(reverted).toMatchObject({
+      status: 500,
+      receipts: [{ status: '0x0', transactionHash: `0x${'cd'.repeat(32)}`, blockNumber: '0x10' }],
+    });
+  });
+
+  it('wallet_getCapabilities 应按链返回原子批量能力', async () => {
+    const { provider, testAccount } = setup();
+
+    const capabilities = (await provider.request({
+      method: 'wallet_getCapabilities',
+      params: [testAccount.address, ['0x138b', '0x65']],
+    })) as Record<string, Record<string, unknown>>;
+
+    // Solana（0x65）不支持 UserOperation，不应出现
+    expect(Object.keys(capabilities)).toStrictEqual(['0x138b']);
+    expect(capabilities['0x138b']).toStrictEqual({ atomic: { status: 'supported' } });
+  });
+
+  it('只读 RPC 白名单方法应透传到当前链 PublicClient', async () => {
+    const { provider } = setup();
+    const request = vi.fn().mockResolvedValue('0x1b4');
+    mockGetPublicClient.mockReturnValue({ request });
+
+    const blockNumber = await provider.request({ method: 'eth_blockNumber' });
+    const code = await provider.request({
+      method: 'eth_getCode',
+      params: ['0x3333333333333333333333333333333333333333', 'latest'],
+    });
+
+    expect(mockGetPublicClient).toHaveBeenCalledWith(5003);
+    expect(request).toHaveBeenCalledWith({ method: 'eth_blockNumber', params: [] });
+    expect(request).toHaveBeenCalledWith({
+      method: 'eth_getCode',
+      params: ['0x3333333333333333333333333333333333333333', 'latest'],
+    });
+    expect(blockNumber).toBe('0x1b4');
+    expect(code).toBe('0x1b4');
+  });
+
+  it('白名单外的方法应继续拒绝', async () => {
+    const { provider } = setup();
+
+    await expect(provider.request({ method: 'eth_sendRawTransaction', params: ['0x00'] })).rejects.toThrow(
+      'Unsupported method: eth_sendRawTransaction'
+    );
+  });
+
+  it('eth_estimateGas 对智能账户应返回 UserOperation 总 Gas', async () => {
+    const { provider, transactionRelayer, testAccount } = setup();
+    transactionRelayer.previewTransaction.mockResolvedValue({
+      userOp: { callGasLimit: 100n, verificationGasLimit: 200n, preVerificationGas: 50n },
+      estimatedFee: 0n,
+    });
+
+    const gas = await provider.request({
+      method: 'eth_estimateGas',
+      params: [{ from: testAccount.address, to: '0x3333333333333333333333333333333333333333', data: '0x12' }],
+    });
+
+    expect(transactionRelayer.previewTransaction).toHaveBeenCalledWith(
+      testAccount.address,
+      5003,
+      '0x3333333333333333333333333333333333333333',
+      '0x12',
+      BigInt(0)
+    );
+    expect(gas).toBe('0x15e');
+  });
+
+  it('eth_getTransactionReceipt 应将 userOpHash 映射为 UserOperation 回执', async () => {
+    const { provider, transactionRelayer, testAccount } = setup();
+    const request = vi.fn().mockResolvedValue(null);
+    mockGetPublicClient.mockReturnValue({ request });
+    const bundleTxHash = `0x${'cd'.repeat(32)}`;
+    const userOpLogs = [{ address: '0x3333333333333333333333333333333333333333' }];
+    transactionRelayer.getUserOperationReceipt.mockResolvedValue({
+      userOpHash: USER_OP_HASH,
+      sender: testAccount.address,
+      success: true,
+      logs: userOpLogs,
+      receipt: {
+        transactionHash: bundleTxHash,
+        blockHash: `0x${'ef'.repeat(32)}`,
+        blockNumber: '0x10',
+        gasUsed: '0x5208',
+        status: '0x1',
+        from: '0x9999999999999999999999999999999999999999',
+        logs: [],
+      },
+    });
+
+    const receipt = await provider.request({ method: 'eth_getTransactionReceipt', params: [USER_OP_HASH] });
+
+    expect(request).toHaveBeenCalledWith({ method: 'eth_getTransactionReceipt', params: [USER_OP_HASH] });
+    expect(transactionRelayer.getUserOperationReceipt).toHaveBeenCalledWith(5003, USER_OP_HASH);
+    expect(receipt).toMatchObject({
+      transactionHash: bundleTxHash,
+      userOpHash: USER_OP_HASH,
+      from: testAccount.address,
+      status: '0x1',
+      logs: userOpLogs,
+    });
+  });
+});
+
+describe('AnDaoWalletProvider state events', () => {
+  const accountA = '0x1111111111111111111111111111111111111111';
+  const accountB = '0x3333333333333333333333333333333333333333';
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    await permissionService.init();
+    await permissionService.grantPermissions(window.location.origin, ['eth_accounts']);
+  });
+
+  function setup() {
+    const accountStore = observable({
+      currentChainId: 5003,
+      isLocked: false,
+      accounts: [
+        { address: accountA, chainId: 5003 },
+        { address: accountB, chainId: 5000 },
+      ],
+      getAccount(chainId: number) {
+        return this.accounts.find((account) => account.chainId === chainId) || null;
+      },
+      setCurrentChain(chainId: number) {
+        this.currentChainId = chainId;
+      },
+    });
+
+    const provider = new AnDaoWalletProvider(accountStore as never, {} as never, {} as never);
+    provider.startStateReactions();
+
+    const handlers = {
+      accountsChanged: vi.fn(),
+      chainChanged: vi.fn(),
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+    };
+    Object.entries(handlers).forEach(([event, handler]) => provider.on(event, handler));
+
+    return { provider, accountStore, handlers };
+  }
+
+  it('切换链时应触发 chainChanged 与 accountsChanged', async () => {
+    const { provider, accountStore, handlers } = setup();
+
+    runInAction(() => accountStore.setCurrentChain(5000));
+
+    await vi.waitFor(() => expect(handlers.accountsChanged).toHaveBeenCalledWith([accountB]));
+    expect(handlers.chainChanged).toHaveBeenCalledTimes(1);
+    expect(handlers.chainChanged).toHaveBeenCalledWith('0x1388');
+
+    provider.stopStateReactions();
+  });
+
+  it('wallet_switchEthereumChain 不应重复触发 chainChanged', async () => {
+    const { provider, handlers } = setup();
+
+    await (
+      provider as unknown as {
+        executeApprovedRequest: (method: string, params: unknown[]) => Promise<unknown>;
+      }
+    ).executeApprovedRequest('wallet_switchEthereumChain', [{ chainId: '0x1388' }]);
+
+    expect(handlers.chainChanged).toHaveBeenCalledTimes(1);
+    provider.stopStateReactions();
+  });
+
+  it('锁定时应触发 accountsChanged([]) 与 disconnect，解锁后恢复', async () => {
+    const { provider, accountStore, handlers } = setup();
+
+    runInAction(() => {
+      accountStore.isLocked = true;
+    });
+
+    await vi.waitFor(() => expect(handlers.accountsChanged).toHaveBeenLastCalledWith([]));
+    expect(handlers.disconnect).toHaveBeenCalledWith(expect.objectContaining({ code: 4900 }));
+    expect(await provider.request({ method: 'eth_accounts' })).toStrictEqual([]);
+
+    runInAction(() => {
+      accountStore.isLocked = false;
+    });
+
+    await vi.waitFor(() => expect(handlers.accountsChanged).toHaveBeenLastCalledWith([accountA]));
+    expect(handlers.connect).toHaveBeenCalledWith({ chainId: '0x138b' });
+
+    provider.stopStateReactions();
+  });
+
+  it('切换链但账户地址不变时不应触发 accountsChanged', async () => {
+    const { provider, accountStore, handlers } = setup();
+
+    runInAction(() => {
+      accountStore.accounts[1].address = accountA;
+      accountStore.setCurrentChain(5000);
+    });
+    runInAction(() => accountStore.setCurrentChain(5003));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(handlers.chainChanged).toHaveBeenCalledTimes(2);
+    expect(handlers.accountsChanged).not.toHaveBeenCalled();
+
+    provider.stopStateReactions();
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * 资产变化预览
+ * 
+ * 展示交易模拟结果：原生代币 / ERC-20 / NFT 余额变化、授予的授权，以及模拟回滚原因
+ * 
+ * @module components/AssetChangePreview
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { formatUnits } from 'viem';
+import type {
+  ApprovalChange,
+  AssetChange,
+  TransactionSimulationResult,
+} from '@/services/TransactionSimulationService';
+
+const Container = styled.div`
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  padding: 12px;
+  margin-top: 12px;
+  background: #f8f9fa;
+  font-size: 13px;
+`;
+
+const SectionTitle = styled.div`
+  font-weight: 600;
+  color: #1a1a1a;
+  margin-bottom: 8px;
+`;
+
+const Row = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 6px;
+  gap: 8px;
+  word-break: break-all;
+`;
+
+const Amount = styled.strong<{ $negative: boolean }>`
+  color: ${(props) => (props.$negative ? '#e03131' : '#2f9e44')};
+  white-space: nowrap;
+`;
+
+const RevertBox = styled.div`
+  padding: 12px;
+  background: #fff5f5;
+  border: 1px solid #ffc9c9;
+  border-radius: 8px;
+  color: #e03131;
+  margin-bottom: 8px;
+`;
+
+const WarningText = styled.span`
+  color: #e8590c;
+  font-weight: 600;
+`;
+
+const HintText = styled.div`
+  font-size: 12px;
+  color: #868e96;
+  margin-top: 8px;
+`;
+
+export interface AssetChangePreviewProps {
+  simulation: TransactionSimulationResult;
+  /** 当前链原生代币符号 */
+  nativeSymbol?: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+function formatAssetLabel(change: AssetChange, nativeSymbol: string): string {
+  switch (change.type) {
+    case 'native':
+      return nativeSymbol;
+    case 'erc20':
+      return change.symbol || shortAddress(change.token || '');
+    default:
+      return `${change.symbol || shortAddress(change.token || '')} #${change.tokenId}`;
+  }
+}
+
+function formatAssetAmount(change: AssetChange): string {
+  const sign = change.amount < 0n ? '-' : '+';
+  const absolute = change.amount < 0n ? -change.amount : change.amount;
+  if (change.type === 'native') {
+    return `${sign}${formatUnits(absolute, 18)}`;
+  }
+  if (change.type === 'erc20') {
+    return `${sign}${change.decimals !== undefined ? formatUnits(absolute, change.decimals) : absolute.toString()}`;
+  }
+  return `${sign}${absolute.toString()}`;
+}
+
+function formatApproval(approval: ApprovalChange): string {
+  if (approval.type === 'erc721-all') {
+    return approval.approved ? '全部 NFT' : '撤销全部 NFT 授权';
+  }
+  if (approval.type === 'erc721') {
+    return `NFT #${approval.tokenId}`;
+  }
+  return approval.unlimited ? '无限额度' : (approval.amount ?? 0n).toString();
+}
+
+export const AssetChangePreview: React.FC<AssetChangePreviewProps> = ({ simulation, nativeSymbol = 'ETH' }) => {
+  return (
+    <Container>
+      {!simulation.success && (
+        <RevertBox>
+          交易模拟失败，发送后很可能回滚：{simulation.revertReason || '未知原因'}
+        </RevertBox>
+      )}
+
+      <SectionTitle>资产变化</SectionTitle>
+      {simulation.assetChanges.length === 0 ? (
+        <Row>
+          <span>无资产变化</span>
+        </Row>
+      ) : (
+        simulation.assetChanges.map((change) => (
+          <Row key={`${change.type}:${change.token ?? ''}:${change.tokenId ?? ''}`}>
+            <span>{formatAssetLabel(change, nativeSymbol)}</span>
+            <Amount $negative={change.amount < 0n}>{formatAssetAmount(change)}</Amount>
+          </Row>
+        ))
+      )}
+
+      {simulation.approvals.length > 0 && (
+        <>
+          <SectionTitle style={{ marginTop: '8px' }}>授权</SectionTitle>
+          {simulation.approvals.map((approval, index) => (
+            <Row key={`${approval.token}:${approval.spender}:${index}`}>
+              <span>
+                {shortAddress(approval.token)} → {shortAddress(approval.spender)}
+              </span>
+              {approval.unlimited ? (
+                <WarningText>{formatApproval(approval)}</WarningText>
+              ) : (
+                <span>{formatApproval(approval)}</span>
+              )}
+            </Row>
+          ))}
+        </>
+      )}
+
+      {simulation.source === 'calldata' && (
+        <HintText>当前节点不支持执行追踪，资产变化根据调用数据推断，可能不完整</HintText>
+      )}
+    </Container>
+  );
+};
@@ -0,0 +1,10 @@
+/**
+ * 资产变化预览组件导出
+ * 
+ * 展示交易模拟得到的资产变化、代币授权与回滚原因
+ * 
+ * @module components/AssetChangePreview
+ */
+
+export { AssetChangePreview } from './AssetChangePreview';
+export type { AssetChangePreviewProps } from './AssetChangePreview';
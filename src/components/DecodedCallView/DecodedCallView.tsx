@@ -0,0 +1,89 @@
+/**
+ * 解码调用展示
+ * 
+ * 展示调用数据解码后的方法名与参数，Kernel execute / executeBatch 的内层调用逐级缩进展示；
+ * 未命中签名库的调用展示函数选择器
+ * 
+ * @module components/DecodedCallView
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { formatUnits } from 'viem';
+import type { DecodedCall } from '@/services/AbiRegistryService';
+
+const CallBox = styled.div<{ $nested: boolean }>`
+  font-size: 13px;
+  margin-top: ${(props) => (props.$nested ? '8px' : '0')};
+  padding-left: ${(props) => (props.$nested ? '12px' : '0')};
+  border-left: ${(props) => (props.$nested ? '2px solid #dee2e6' : 'none')};
+  word-break: break-all;
+`;
+
+const MethodName = styled.span`
+  font-family: monospace;
+  font-weight: 600;
+  color: #1a1a1a;
+`;
+
+const Meta = styled.span`
+  font-size: 12px;
+  color: #868e96;
+  margin-left: 8px;
+`;
+
+const ArgList = styled.div`
+  margin-top: 4px;
+  font-family: monospace;
+  font-size: 12px;
+  color: #495057;
+`;
+
+export interface DecodedCallViewProps {
+  call: DecodedCall;
+  /** 当前链原生代币符号 */
+  nativeSymbol?: string;
+  /** 是否展示参数（列表等紧凑场景只展示方法名） */
+  showArgs?: boolean;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const CallNode: React.FC<DecodedCallViewProps & { nested: boolean }> = ({ call, nativeSymbol, showArgs, nested }) => {
+  const title = call.functionName ?? (call.selector === '0x' ? '原生代币转账' : `未知方法 ${call.selector}`);
+
+  return (
+    <CallBox $nested={nested}>
+      <MethodName>{title}</MethodName>
+      {call.source && <Meta>{call.source}</Meta>}
+      {nested && call.to && <Meta>→ {shortAddress(call.to)}</Meta>}
+      {nested && !!call.value && (
+        <Meta>
+          {formatUnits(call.value, 18)} {nativeSymbol}
+        </Meta>
+      )}
+      {showArgs && call.args.length > 0 && !call.children?.length && (
+        <ArgList>
+          {call.args.map((arg) => (
+            <div key={arg.name}>
+              {arg.name} ({arg.type}): {arg.value}
+            </div>
+          ))}
+        </ArgList>
+      )}
+      {call.children?.map((child, index) => (
+        <CallNode
+          key={`${child.to}-${index}`}
+          call={child}
+          nativeSymbol={nativeSymbol}
+          showArgs={showArgs}
+          nested
+        />
+      ))}
+    </CallBox>
+  );
+};
+
+export const DecodedCallView: React.FC<DecodedCallViewProps> = ({ call, nativeSymbol = 'ETH', showArgs = true }) => (
+  <CallNode call={call} nativeSymbol={nativeSymbol} showArgs={showArgs} nested={false} />
+);
@@ -0,0 +1,7 @@
+/**
+ * 解码调用展示组件导出
+ * 
+ * @module components/DecodedCallView
+ */
+
+export { DecodedCallView } from './DecodedCallView';
@@ -115,6 +115,8 @@ export interface FallbackModeDialogProps {
   accountBalance: bigint;
   /** 当前链原生代币符号 */
   nativeSymbol?: string;
+  /** 本次交易同时部署账户（估算费用已包含部署成本） */
+  includesDeployment?: boolean;
   /** 确认回调 */
   onConfirm: () => void;
   /** 取消回调 */
@@ -130,6 +132,7 @@ export const FallbackModeDialog: React.FC<FallbackModeDialogProps> = ({
   gasPrice,
   accountBalance,
   nativeSymbol = 'ETH',
+  includesDeployment = false,
   onConfirm,
   onCancel,
 }) => {
@@ -159,11 +162,12 @@ export const FallbackModeDialog: React.FC<FallbackModeDialogProps> = ({
             <InfoItem>需要账户有足够的余额支付 Gas 费用</InfoItem>
             <InfoItem>交易确认时间可能较长</InfoItem>
             <InfoItem>如果账户余额不足，交易将失败</InfoItem>
+            {includesDeployment && <InfoItem>账户尚未部署，本次交易将同时完成部署</InfoItem>}
           </InfoList>
         </InfoBox>
 
         <GasInfo>
-          <GasLabel>估算 Gas 费用</GasLabel>
+          <GasLabel>估算 Gas 费用{includesDeployment ? '（含账户部署）' : ''}</GasLabel>
           <GasValue>{estimatedFeeEth} {nativeSymbol}</GasValue>
         </GasInfo>
 
@@ -0,0 +1,98 @@
+/**
+ * Gas 费档位选择
+ * 
+ * 展示 FeeOracleService 估算的慢 / 标准 / 快三档费用（Gwei）与预计打包时间，供用户选择档位
+ * 
+ * @module components/FeeTierSelector
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { formatGwei } from 'viem';
+import { FEE_TIERS, FEE_TIER_LABELS, type FeeEstimate, type FeeTier } from '@/services/FeeOracleService';
+
+const Options = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 8px;
+`;
+
+const Option = styled.button<{ $selected: boolean }>`
+  display: flex;
+  flex-direction: column;
+  align-items: flex-start;
+  gap: 4px;
+  padding: 10px;
+  border-radius: 8px;
+  border: 1px solid ${(props) => (props.$selected ? '#4c6ef5' : '#e0e0e0')};
+  background: ${(props) => (props.$selected ? '#edf2ff' : '#ffffff')};
+  cursor: pointer;
+  text-align: left;
+  font-size: 12px;
+  color: #495057;
+
+  &:disabled {
+    cursor: not-allowed;
+    opacity: 0.6;
+  }
+`;
+
+const TierLabel = styled.strong`
+  font-size: 14px;
+  color: #1a1a1a;
+`;
+
+const HintText = styled.div`
+  font-size: 12px;
+  color: #868e96;
+  margin-top: 6px;
+`;
+
+const SOURCE_LABELS: Record<FeeEstimate['source'], string> = {
+  bundler: 'Bundler 报价',
+  feeHistory: '近期区块费用',
+  legacy: '网络 Gas 价格',
+};
+
+interface FeeTierSelectorProps {
+  /** 费用估算，加载中或估算失败时为空 */
+  estimate?: FeeEstimate | null;
+  value: FeeTier;
+  onChange: (tier: FeeTier) => void;
+  loading?: boolean;
+  disabled?: boolean;
+}
+
+const formatFee = (fee: bigint) => Number(formatGwei(fee)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+export const FeeTierSelector: React.FC<FeeTierSelectorProps> = ({ estimate, value, onChange, loading, disabled }) => (
+  <div>
+    <Options>
+      {FEE_TIERS.map((tier) => {
+        const fees = estimate?.tiers[tier];
+        return (
+          <Option
+            key={tier}
+            type="button"
+            $selected={tier === value}
+            aria-pressed={tier === value}
+            onClick={() => onChange(tier)}
+            disabled={disabled}
+          >
+            <TierLabel>{FEE_TIER_LABELS[tier]}</TierLabel>
+            {fees ? (
+              <>
+                <span>最高 {formatFee(fees.maxFeePerGas)} Gwei</span>
+                <span>小费 {formatFee(fees.maxPriorityFeePerGas)} Gwei</span>
+                <span>{fees.inclusionHint}</span>
+              </>
+            ) : (
+              <span>{loading ? '估算中...' : '暂无估算'}</span>
+            )}
+          </Option>
+        );
+      })}
+    </Options>
+    {estimate && <HintText>费用来源：{SOURCE_LABELS[estimate.source]}</HintText>}
+  </div>
+);
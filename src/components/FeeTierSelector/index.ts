@@ -0,0 +1,7 @@
+/**
+ * Gas 费档位选择组件导出
+ * 
+ * @module components/FeeTierSelector
+ */
+
+export { FeeTierSelector } from './FeeTierSelector';
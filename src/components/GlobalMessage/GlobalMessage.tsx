@@ -1,6 +1,24 @@
 import { useEffect, useRef, useState } from 'react';
 import styled from 'styled-components';
 import type { WalletMessageDetail } from '@/utils/errors';
+import {
+  WALLET_OP_EVENT_PREFIX,
+  type TrackedUserOperation,
+  type UserOperationLifecycleStatus,
+} from '@/services/UserOperationTracker';
+
+/**
+ * 需要提示用户的 UserOperation 结束状态
+ */
+const WALLET_OP_MESSAGES: Partial<Record<UserOperationLifecycleStatus, (op: TrackedUserOperation) => WalletMessageDetail>> = {
+  confirmed: (op) => ({
+    type: 'success',
+    message: op.replacement === 'cancel' && op.minedUserOpHash === op.userOpHash ? '交易已取消' : '交易已上链确认',
+  }),
+  failed: (op) => ({ type: 'error', message: `交易执行失败${op.reason ? `：${op.reason}` : ''}` }),
+  dropped: () => ({ type: 'error', message: '交易已被 Bundler 丢弃，请重新发送' }),
+  timeout: () => ({ type: 'error', message: '交易长时间未上链，请稍后在交易历史中查看' }),
+};
 
 const Toast = styled.div<{ $type: 'error' | 'success' }>`
   position: fixed;
@@ -22,9 +40,7 @@ export function GlobalMessage(): JSX.Element | null {
   const timerRef = useRef<number | null>(null);
 
   useEffect(() => {
-    const handleMessage = (event: Event) => {
-      const detail = (event as CustomEvent<WalletMessageDetail>).detail;
-      if (!detail?.message) return;
+    const showMessage = (detail: WalletMessageDetail) => {
       setMessage(detail);
 
       if (timerRef.current !== null) {
@@ -36,9 +52,25 @@ export function GlobalMessage(): JSX.Element | null {
       }, 4500);
     };
 
+    const handleMessage = (event: Event) => {
+      const detail = (event as CustomEvent<WalletMessageDetail>).detail;
+      if (!detail?.message) return;
+      showMessage(detail);
+    };
+
+    const walletOpHandlers = Object.entries(WALLET_OP_MESSAGES).map(([status, toMessage]) => {
+      const handler = (event: Event) => {
+        const operation = (event as CustomEvent<TrackedUserOperation>).detail;
+        if (operation && toMessage) showMessage(toMessage(operation));
+      };
+      return [`${WALLET_OP_EVENT_PREFIX}${status}`, handler] as const;
+    });
+
     window.addEventListener('wallet:message', handleMessage as EventListener);
+    walletOpHandlers.forEach(([eventName, handler]) => window.addEventListener(eventName, handler));
     return () => {
       window.removeEventListener('wallet:message', handleMessage as EventListener);
+      walletOpHandlers.forEach(([eventName, handler]) => window.removeEventListener(eventName, handler));
       if (timerRef.current !== null) {
         window.clearTimeout(timerRef.current);
       }
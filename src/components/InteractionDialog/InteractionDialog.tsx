@@ -0,0 +1,227 @@
+/**
+ * DApp 请求确认对话框
+ * 
+ * 展示 InteractionStore 中待处理的 DApp 请求（连接、签名、交易等），
+ * 交易类请求附带解码后的调用与模拟得到的资产变化，并可选择 Gas 费档位，由用户批准或拒绝；
+ * 高风险请求需先勾选风险确认才能批准
+ * 
+ * @module components/InteractionDialog
+ */
+
+import React from 'react';
+import styled from 'styled-components';
+import { observer } from 'mobx-react-lite';
+import { Modal } from '@/components/Modal';
+import { Button } from '@/components/Button';
+import { AssetChangePreview } from '@/components/AssetChangePreview';
+import { DecodedCallView } from '@/components/DecodedCallView';
+import { FeeTierSelector } from '@/components/FeeTierSelector';
+import { useStore } from '@/stores';
+import type { InteractionType } from '@/stores/InteractionStore';
+import type { RiskLevel } from '@/services/RiskAssessmentService';
+import { DEFAULT_FEE_TIER } from '@/services/FeeOracleService';
+import { getChainNativeSymbol } from '@/utils/chainConfigValidation';
+
+const Origin = styled.div`
+  font-size: 14px;
+  color: #495057;
+  margin-bottom: 12px;
+  word-break: break-all;
+`;
+
+const ParamsBox = styled.pre`
+  max-height: 200px;
+  overflow: auto;
+  background: #f8f9fa;
+  border: 1px solid #e9ecef;
+  border-radius: 8px;
+  padding: 12px;
+  font-size: 12px;
+  white-space: pre-wrap;
+  word-break: break-all;
+  margin: 0;
+`;
+
+const CallsBox = styled.div`
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+`;
+
+const WarningBox = styled.div`
+  padding: 12px;
+  background: #fff3cd;
+  border: 1px solid #ffc107;
+  border-radius: 8px;
+  color: #856404;
+  font-size: 13px;
+  margin-bottom: 12px;
+`;
+
+const FeeSection = styled.div`
+  margin-bottom: 12px;
+`;
+
+const SectionTitle = styled.div`
+  font-size: 14px;
+  font-weight: 600;
+  color: #1a1a1a;
+  margin-bottom: 8px;
+`;
+
+const RISK_COLORS: Record<RiskLevel, { background: string; border: string; color: string }> = {
+  low: { background: '#ebfbee', border: '#b2f2bb', color: '#2b8a3e' },
+  medium: { background: '#fff3cd', border: '#ffc107', color: '#856404' },
+  high: { background: '#fff5f5', border: '#ffc9c9', color: '#e03131' },
+};
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  low: '低风险',
+  medium: '中风险',
+  high: '高风险',
+};
+
+const RiskBox = styled.div<{ $level: RiskLevel }>`
+  padding: 12px;
+  border-radius: 8px;
+  margin-bottom: 12px;
+  font-size: 13px;
+  background: ${(props) => RISK_COLORS[props.$level].background};
+  border: 1px solid ${(props) => RISK_COLORS[props.$level].border};
+  color: ${(props) => RISK_COLORS[props.$level].color};
+
+  ul {
+    margin: 8px 0 0;
+    padding-left: 18px;
+  }
+`;
+
+const AcknowledgeLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-top: 12px;
+  font-weight: 600;
+  cursor: pointer;
+`;
+
+const TITLES: Record<InteractionType, string> = {
+  eth_sendTransaction: '交易确认',
+  wallet_sendCalls: '批量交易确认',
+  eth_sign: '签名请求',
+  personal_sign: '签名请求',
+  eth_signTypedData: '结构化数据签名',
+  eth_requestAccounts: '连接请求',
+  wallet_requestPermissions: '权限请求',
+  wallet_switchEthereumChain: '切换网络',
+  wallet_addEthereumChain: '添加网络',
+  wallet_watchAsset: '添加代币',
+};
+
+const stringifyParams = (params: unknown): string =>
+  JSON.stringify(params, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+
+/**
+ * 读取请求参数中附带的警告（如 wallet_watchAsset 的元数据不一致提示）
+ */
+const getParamWarnings = (params: unknown): string[] => {
+  const first = Array.isArray(params) ? params[0] : undefined;
+  const warnings = first && typeof first === 'object' ? (first as { warnings?: unknown }).warnings : undefined;
+  return Array.isArray(warnings) ? warnings.filter((item): item is string => typeof item === 'string') : [];
+};
+
+export const InteractionDialog: React.FC = observer(() => {
+  const { interactionStore, accountStore } = useStore();
+  const request = interactionStore.getPendingRequests()[0];
+
+  if (!request) {
+    return null;
+  }
+
+  const handleReject = () => interactionStore.rejectRequest(request.id);
+  const handleApprove = () => interactionStore.approveRequest(request.id, undefined);
+  const risk = request.risk;
+  const approveBlocked = !!risk?.requiresAcknowledgement && !request.riskAcknowledged;
+  const warnings = getParamWarnings(request.params);
+  const nativeSymbol = getChainNativeSymbol(accountStore.currentChainId);
+
+  return (
+    <Modal
+      isOpen
+      onClose={handleReject}
+      title={TITLES[request.type] || 'DApp 请求'}
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleReject}>
+            拒绝
+          </Button>
+          <Button variant={risk?.level === 'high' ? 'danger' : 'primary'} onClick={handleApprove} disabled={approveBlocked}>
+            批准
+          </Button>
+        </>
+      }
+    >
+      <Origin>
+        来源：<strong>{request.origin}</strong>
+      </Origin>
+
+      {risk && (
+        <RiskBox $level={risk.level}>
+          <strong>
+            {RISK_LABELS[risk.level]}（评分 {risk.score}）
+          </strong>
+          {risk.trustedOrigin && <span>，来源在受信任名单中</span>}
+          {risk.reasons.length > 0 && (
+            <ul>
+              {risk.reasons.map((reason, index) => (
+                <li key={`${reason.code}-${index}`}>{reason.message}</li>
+              ))}
+            </ul>
+          )}
+          {risk.requiresAcknowledgement && (
+            <AcknowledgeLabel>
+              <input
+                type="checkbox"
+                checked={!!request.riskAcknowledged}
+                disabled={!!request.riskAcknowledged}
+                onChange={() => interactionStore.acknowledgeRisk(request.id)}
+              />
+              我已了解以上风险，仍要继续
+            </AcknowledgeLabel>
+          )}
+        </RiskBox>
+      )}
+
+      {warnings.map((warning) => (
+        <WarningBox key={warning}>{warning}</WarningBox>
+      ))}
+
+      {request.decodedCalls && request.decodedCalls.length > 0 && (
+        <CallsBox>
+          {request.decodedCalls.map((call, index) => (
+            <DecodedCallView key={`${call.to}-${index}`} call={call} nativeSymbol={nativeSymbol} />
+          ))}
+        </CallsBox>
+      )}
+
+      {request.feeEstimate && (
+        <FeeSection>
+          <SectionTitle>Gas 费档位</SectionTitle>
+          <FeeTierSelector
+            estimate={request.feeEstimate}
+            value={request.feeTier ?? DEFAULT_FEE_TIER}
+            onChange={(tier) => interactionStore.setFeeTier(request.id, tier)}
+          />
+        </FeeSection>
+      )}
+
+      <ParamsBox>{stringifyParams(request.params)}</ParamsBox>
+
+      {request.simulation && <AssetChangePreview simulation={request.simulation} nativeSymbol={nativeSymbol} />}
+    </Modal>
+  );
+});
@@ -0,0 +1,7 @@
+/**
+ * DApp 请求确认对话框导出
+ * 
+ * @module components/InteractionDialog
+ */
+
+export { InteractionDialog } from './InteractionDialog';
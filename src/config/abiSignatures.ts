@@ -0,0 +1,91 @@
+/**
+ * 内置合约签名库
+ * 
+ * 离线解码调用数据与事件日志使用的常用函数 / 事件签名：
+ * - ERC-20 / ERC-721 / ERC-1155 代币标准
+ * - Kernel 账户（execute / executeBatch / installModule）
+ * - ApplicationRegistry 应用与赞助商管理
+ * - 守护人 / 社交恢复插件
+ * 
+ * 签名与各服务中编码调用时使用的 ABI 保持一致；transferFrom / approve 在 ERC-20 与 ERC-721
+ * 中选择器相同，只在 ERC-20 分组登记一次
+ * 
+ * @module config/abiSignatures
+ */
+
+import { parseAbi, type Abi } from 'viem';
+
+/**
+ * 内置签名分组
+ */
+export interface BundledAbi {
+  /** 分组名称（展示为解码来源） */
+  name: string;
+  abi: Abi;
+}
+
+export const BUNDLED_ABIS: BundledAbi[] = [
+  {
+    name: 'ERC-20',
+    abi: parseAbi([
+      'function transfer(address to, uint256 amount) returns (bool)',
+      'function transferFrom(address from, address to, uint256 amountOrTokenId) returns (bool)',
+      'function approve(address spender, uint256 amountOrTokenId) returns (bool)',
+      'function increaseAllowance(address spender, uint256 addedValue) returns (bool)',
+      'function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)',
+      'event Transfer(address indexed from, address indexed to, uint256 value)',
+      'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    ]),
+  },
+  {
+    name: 'ERC-721',
+    abi: parseAbi([
+      'function safeTransferFrom(address from, address to, uint256 tokenId)',
+      'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+      'function setApprovalForAll(address operator, bool approved)',
+      'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+      'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+      'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    ]),
+  },
+  {
+    name: 'ERC-1155',
+    abi: parseAbi([
+      'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+      'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+      'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+      'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+    ]),
+  },
+  {
+    name: 'Kernel',
+    abi: parseAbi([
+      'function execute(address target, uint256 value, bytes data)',
+      'function executeBatch(address[] targets, uint256[] values, bytes[] datas)',
+      'function installModule(uint256 moduleTypeId, address module, bytes data)',
+      'function uninstallModule(uint256 moduleTypeId, address module, bytes data)',
+      'event ModuleInstalled(uint256 moduleTypeId, address module)',
+      'event ModuleUninstalled(uint256 moduleTypeId, address module)',
+    ]),
+  },
+  {
+    name: 'ApplicationRegistry',
+    abi: parseAbi([
+      'function registerApplication((string applicationId, address accountAddress, address ownerAddress, address eoaAddress, address sponsorId, address targetContractAddress, uint256 chainId, string storageIdentifier, uint8 storageType) input)',
+      'function updateApplicationStatus(string applicationId, uint8 status, string reviewStorageIdentifier)',
+      'function registerSponsor(address sponsorAddress, address gasAccountAddress, string name, string description, uint8 storageType)',
+      'function updateSponsorRules(uint256 dailyLimit, uint256 maxGasPerAccount, bool autoApprove)',
+      'function setSponsorContractWhitelist(address[] targetContracts, bool allowed)',
+      'function setSponsorUserWhitelist(address[] users, bool allowed)',
+    ]),
+  },
+  {
+    name: 'Recovery',
+    abi: parseAbi([
+      'function addGuardian(address guardian) returns (bool)',
+      'function removeGuardian(address guardian) returns (bool)',
+      'function initiateRecovery(address newOwner) returns (bytes32 recoveryId)',
+      'function voteForRecovery(bytes32 recoveryId) returns (bool)',
+    ]),
+  },
+];
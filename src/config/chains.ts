@@ -8,9 +8,16 @@
  * - chainId: 链的唯一标识符
  * - rpcUrl: RPC 节点 URL，用于与链交互
  * - bundlerUrl: ERC-4337 Bundler 服务 URL（必需）
+ * - bundlerUrls: 备用 Bundler 服务 URL（可选，逗号分隔，主 Bundler 故障时自动切换）
  * - paymasterAddress: Paymaster 合约地址（可选，用于 Gas 代付）
+ * - tokenPaymasterAddress: ERC-20 Token Paymaster 合约地址（可选，用于以代币支付 Gas）
+ * - gasTokenAddresses: 可用于支付 Gas 的 ERC-20 代币地址（可选，逗号分隔）
+ * - sessionKeyValidatorAddress: 会话密钥验证器合约地址（可选，用于限定权限的会话密钥）
+ * - spendingLimitHookAddress: 支出限额 Hook 合约地址（可选，用于按周期限制转出金额）
+ * - scheduledExecutorAddress: 定时执行器合约地址（可选，用于链上预授权的延迟 / 周期交易）
  * - kernelFactoryAddress: Kernel Factory 合约地址（必需，用于创建账户）
  * - entryPointAddress: ERC-4337 EntryPoint 合约地址（必需）
+ * - entryPointVersion: EntryPoint 版本（可选，0.6 / 0.7；未配置时按 entryPointAddress 识别）
  * - nativeCurrency: 原生代币信息
  * 
  * 注意：
@@ -66,6 +73,16 @@ function getFactoryAddress(envAddress: string, useCREATE2: boolean = false): str
   return '';
 }
 
+/**
+ * 解析逗号分隔的列表（URL / 地址，忽略空项）
+ */
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 /**
  * Mantle 链配置（优先支持）
  * 
@@ -87,7 +104,10 @@ export const MANTLE_CHAIN: ChainConfig = {
   name: 'Mantle',
   rpcUrl: import.meta.env.VITE_MANTLE_RPC_URL || 'https://rpc.mantle.xyz',
   bundlerUrl: import.meta.env.VITE_MANTLE_BUNDLER_URL || '', // 需要配置
+  bundlerUrls: parseList(import.meta.env.VITE_MANTLE_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_MANTLE_PAYMASTER_ADDRESS || '', // 可选
+  tokenPaymasterAddress: import.meta.env.VITE_MANTLE_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_MANTLE_GAS_TOKENS),
   // 优先使用环境变量，如果未配置且支持 CREATE2_PROXY，则使用固定地址
   // 注意：需要先验证 CREATE2_PROXY 在 Mantle 主网上的支持
   kernelFactoryAddress: getFactoryAddress(
@@ -97,6 +117,9 @@ export const MANTLE_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_MANTLE_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789', // ERC-4337 EntryPoint v0.6.0 标准地址
   multiChainValidatorAddress: import.meta.env.VITE_MANTLE_MULTI_CHAIN_VALIDATOR_ADDRESS || '', // MultiChainValidator 地址（需要部署）
   recoveryPluginAddress: import.meta.env.VITE_MANTLE_RECOVERY_PLUGIN_ADDRESS || '', // 恢复插件地址（可选，用于社交恢复功能）
+  sessionKeyValidatorAddress: import.meta.env.VITE_MANTLE_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_MANTLE_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_MANTLE_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Mantle',
     symbol: 'MNT',
@@ -110,7 +133,10 @@ export const MANTLE_TESTNET_CHAIN: ChainConfig = {
   name: 'Mantle Sepolia Testnet',
   rpcUrl: import.meta.env.VITE_MANTLE_TESTNET_RPC_URL || 'https://rpc.sepolia.mantle.xyz',
   bundlerUrl: import.meta.env.VITE_MANTLE_TESTNET_BUNDLER_URL || '',
+  bundlerUrls: parseList(import.meta.env.VITE_MANTLE_TESTNET_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_MANTLE_TESTNET_PAYMASTER_ADDRESS || '',
+  tokenPaymasterAddress: import.meta.env.VITE_MANTLE_TESTNET_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_MANTLE_TESTNET_GAS_TOKENS),
   // 优先使用环境变量，如果未配置且支持 CREATE2_PROXY，则使用固定地址
   // 当前默认使用独立部署的地址（0x5401b77d3b9BB2ce8757951d03aB6d9aEb22161d）
   // 如果验证 CREATE2_PROXY 支持后，可以启用固定地址
@@ -122,6 +148,9 @@ export const MANTLE_TESTNET_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_MANTLE_TESTNET_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
   multiChainValidatorAddress: import.meta.env.VITE_MANTLE_TESTNET_MULTI_CHAIN_VALIDATOR_ADDRESS || '', // MultiChainValidator 地址（需要部署）
   recoveryPluginAddress: import.meta.env.VITE_MANTLE_TESTNET_RECOVERY_PLUGIN_ADDRESS || '', // 恢复插件地址（可选）
+  sessionKeyValidatorAddress: import.meta.env.VITE_MANTLE_TESTNET_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_MANTLE_TESTNET_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_MANTLE_TESTNET_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Mantle Testnet',
     symbol: 'MNT',
@@ -148,7 +177,10 @@ export const INJECTIVE_CHAIN: ChainConfig = {
   name: 'Injective',
   rpcUrl: import.meta.env.VITE_INJECTIVE_RPC_URL || 'https://sentry.evm-rpc.injective.network',
   bundlerUrl: import.meta.env.VITE_INJECTIVE_BUNDLER_URL || '', // 需要配置
+  bundlerUrls: parseList(import.meta.env.VITE_INJECTIVE_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_INJECTIVE_PAYMASTER_ADDRESS || '',
+  tokenPaymasterAddress: import.meta.env.VITE_INJECTIVE_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_INJECTIVE_GAS_TOKENS),
   // 优先使用环境变量，如果未配置且支持 CREATE2_PROXY，则使用固定地址
   // 注意：需要先验证 CREATE2_PROXY 在 Injective 主网上的支持
   kernelFactoryAddress: getFactoryAddress(
@@ -158,6 +190,9 @@ export const INJECTIVE_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_INJECTIVE_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789', // ERC-4337 EntryPoint v0.6.0 标准地址
   multiChainValidatorAddress: import.meta.env.VITE_INJECTIVE_MULTI_CHAIN_VALIDATOR_ADDRESS || '',
   recoveryPluginAddress: import.meta.env.VITE_INJECTIVE_RECOVERY_PLUGIN_ADDRESS || '', // 恢复插件地址（可选）
+  sessionKeyValidatorAddress: import.meta.env.VITE_INJECTIVE_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_INJECTIVE_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_INJECTIVE_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Injective',
     symbol: 'INJ',
@@ -180,7 +215,10 @@ export const INJECTIVE_TESTNET_CHAIN: ChainConfig = {
   name: 'Injective Testnet',
   rpcUrl: import.meta.env.VITE_INJECTIVE_TESTNET_RPC_URL || 'https://k8s.testnet.json-rpc.injective.network',
   bundlerUrl: import.meta.env.VITE_INJECTIVE_TESTNET_BUNDLER_URL || '',
+  bundlerUrls: parseList(import.meta.env.VITE_INJECTIVE_TESTNET_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_INJECTIVE_TESTNET_PAYMASTER_ADDRESS || '',
+  tokenPaymasterAddress: import.meta.env.VITE_INJECTIVE_TESTNET_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_INJECTIVE_TESTNET_GAS_TOKENS),
   // 优先使用环境变量，如果未配置且支持 CREATE2_PROXY，则使用固定地址
   // 注意：需要先验证 CREATE2_PROXY 在 Injective 测试网上的支持
   kernelFactoryAddress: getFactoryAddress(
@@ -190,6 +228,9 @@ export const INJECTIVE_TESTNET_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_INJECTIVE_TESTNET_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789', // ERC-4337 EntryPoint v0.6.0 标准地址
   multiChainValidatorAddress: import.meta.env.VITE_INJECTIVE_TESTNET_MULTI_CHAIN_VALIDATOR_ADDRESS || '',
   recoveryPluginAddress: import.meta.env.VITE_INJECTIVE_TESTNET_RECOVERY_PLUGIN_ADDRESS || '', // 恢复插件地址（可选）
+  sessionKeyValidatorAddress: import.meta.env.VITE_INJECTIVE_TESTNET_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_INJECTIVE_TESTNET_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_INJECTIVE_TESTNET_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Injective Testnet',
     symbol: 'INJ',
@@ -209,7 +250,10 @@ export const AVALANCHE_CHAIN: ChainConfig = {
   name: 'Avalanche C-Chain',
   rpcUrl: import.meta.env.VITE_AVALANCHE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc',
   bundlerUrl: import.meta.env.VITE_AVALANCHE_BUNDLER_URL || '',
+  bundlerUrls: parseList(import.meta.env.VITE_AVALANCHE_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_AVALANCHE_PAYMASTER_ADDRESS || '',
+  tokenPaymasterAddress: import.meta.env.VITE_AVALANCHE_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_AVALANCHE_GAS_TOKENS),
   kernelFactoryAddress: getFactoryAddress(
     import.meta.env.VITE_AVALANCHE_KERNEL_FACTORY_ADDRESS || '',
     import.meta.env.VITE_USE_CREATE2_PROXY === 'true'
@@ -217,6 +261,9 @@ export const AVALANCHE_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_AVALANCHE_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
   multiChainValidatorAddress: import.meta.env.VITE_AVALANCHE_MULTI_CHAIN_VALIDATOR_ADDRESS || '',
   recoveryPluginAddress: import.meta.env.VITE_AVALANCHE_RECOVERY_PLUGIN_ADDRESS || '',
+  sessionKeyValidatorAddress: import.meta.env.VITE_AVALANCHE_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_AVALANCHE_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_AVALANCHE_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Avalanche',
     symbol: 'AVAX',
@@ -236,7 +283,10 @@ export const AVALANCHE_FUJI_CHAIN: ChainConfig = {
   name: 'Avalanche Fuji Testnet',
   rpcUrl: import.meta.env.VITE_AVALANCHE_FUJI_RPC_URL || 'https://api.avax-test.network/ext/bc/C/rpc',
   bundlerUrl: import.meta.env.VITE_AVALANCHE_FUJI_BUNDLER_URL || '',
+  bundlerUrls: parseList(import.meta.env.VITE_AVALANCHE_FUJI_BUNDLER_URLS),
   paymasterAddress: import.meta.env.VITE_AVALANCHE_FUJI_PAYMASTER_ADDRESS || '',
+  tokenPaymasterAddress: import.meta.env.VITE_AVALANCHE_FUJI_TOKEN_PAYMASTER_ADDRESS || '',
+  gasTokenAddresses: parseList(import.meta.env.VITE_AVALANCHE_FUJI_GAS_TOKENS),
   kernelFactoryAddress: getFactoryAddress(
     import.meta.env.VITE_AVALANCHE_FUJI_KERNEL_FACTORY_ADDRESS || '',
     import.meta.env.VITE_USE_CREATE2_PROXY === 'true'
@@ -244,6 +294,9 @@ export const AVALANCHE_FUJI_CHAIN: ChainConfig = {
   entryPointAddress: import.meta.env.VITE_AVALANCHE_FUJI_ENTRYPOINT_ADDRESS || '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
   multiChainValidatorAddress: import.meta.env.VITE_AVALANCHE_FUJI_MULTI_CHAIN_VALIDATOR_ADDRESS || '',
   recoveryPluginAddress: import.meta.env.VITE_AVALANCHE_FUJI_RECOVERY_PLUGIN_ADDRESS || '',
+  sessionKeyValidatorAddress: import.meta.env.VITE_AVALANCHE_FUJI_SESSION_KEY_VALIDATOR_ADDRESS || '', // 会话密钥验证器地址（可选）
+  spendingLimitHookAddress: import.meta.env.VITE_AVALANCHE_FUJI_SPENDING_LIMIT_HOOK_ADDRESS || '', // 支出限额 Hook 地址（可选）
+  scheduledExecutorAddress: import.meta.env.VITE_AVALANCHE_FUJI_SCHEDULED_EXECUTOR_ADDRESS || '', // 定时执行器地址（可选）
   nativeCurrency: {
     name: 'Avalanche Fuji',
     symbol: 'AVAX',
@@ -26,12 +26,24 @@ interface ImportMetaEnv {
   readonly VITE_MANTLE_TESTNET_RPC_URL?: string;
   /** Mantle Bundler 服务 URL */
   readonly VITE_MANTLE_BUNDLER_URL?: string;
+  /** Mantle 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_MANTLE_BUNDLER_URLS?: string;
   /** Mantle 测试网 Bundler 服务 URL */
   readonly VITE_MANTLE_TESTNET_BUNDLER_URL?: string;
+  /** Mantle 测试网 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_MANTLE_TESTNET_BUNDLER_URLS?: string;
   /** Mantle 主网 Paymaster 地址 */
   readonly VITE_MANTLE_PAYMASTER_ADDRESS?: string;
+  /** Mantle 主网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_MANTLE_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Mantle 主网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_MANTLE_GAS_TOKENS?: string;
   /** Mantle 测试网 Paymaster 地址 */
   readonly VITE_MANTLE_TESTNET_PAYMASTER_ADDRESS?: string;
+  /** Mantle 测试网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_MANTLE_TESTNET_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Mantle 测试网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_MANTLE_TESTNET_GAS_TOKENS?: string;
   /** Mantle Kernel Factory 合约地址 */
   readonly VITE_MANTLE_KERNEL_FACTORY_ADDRESS?: string;
   /** Mantle 测试网 Kernel Factory 合约地址 */
@@ -46,8 +58,20 @@ interface ImportMetaEnv {
   readonly VITE_MANTLE_TESTNET_MULTI_CHAIN_VALIDATOR_ADDRESS?: string;
   /** Mantle 主网 Recovery Plugin 地址 */
   readonly VITE_MANTLE_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Mantle 主网 Session Key Validator 地址 */
+  readonly VITE_MANTLE_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Mantle 主网 Spending Limit Hook 地址 */
+  readonly VITE_MANTLE_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Mantle 主网 Scheduled Executor 地址 */
+  readonly VITE_MANTLE_SCHEDULED_EXECUTOR_ADDRESS?: string;
   /** Mantle 测试网 Recovery Plugin 地址 */
   readonly VITE_MANTLE_TESTNET_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Mantle 测试网 Session Key Validator 地址 */
+  readonly VITE_MANTLE_TESTNET_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Mantle 测试网 Spending Limit Hook 地址 */
+  readonly VITE_MANTLE_TESTNET_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Mantle 测试网 Scheduled Executor 地址 */
+  readonly VITE_MANTLE_TESTNET_SCHEDULED_EXECUTOR_ADDRESS?: string;
 
   /** Injective 主网 RPC URL（待技术验证） */
   readonly VITE_INJECTIVE_RPC_URL?: string;
@@ -55,12 +79,24 @@ interface ImportMetaEnv {
   readonly VITE_INJECTIVE_TESTNET_RPC_URL?: string;
   /** Injective Bundler 服务 URL（待技术验证） */
   readonly VITE_INJECTIVE_BUNDLER_URL?: string;
+  /** Injective 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_INJECTIVE_BUNDLER_URLS?: string;
   /** Injective 测试网 Bundler 服务 URL（待技术验证） */
   readonly VITE_INJECTIVE_TESTNET_BUNDLER_URL?: string;
+  /** Injective 测试网 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_INJECTIVE_TESTNET_BUNDLER_URLS?: string;
   /** Injective 主网 Paymaster 地址（待技术验证） */
   readonly VITE_INJECTIVE_PAYMASTER_ADDRESS?: string;
+  /** Injective 主网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_INJECTIVE_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Injective 主网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_INJECTIVE_GAS_TOKENS?: string;
   /** Injective 测试网 Paymaster 地址（待技术验证） */
   readonly VITE_INJECTIVE_TESTNET_PAYMASTER_ADDRESS?: string;
+  /** Injective 测试网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_INJECTIVE_TESTNET_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Injective 测试网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_INJECTIVE_TESTNET_GAS_TOKENS?: string;
   /** Injective Kernel Factory 合约地址（待技术验证） */
   readonly VITE_INJECTIVE_KERNEL_FACTORY_ADDRESS?: string;
   /** Injective 测试网 Kernel Factory 合约地址（待技术验证） */
@@ -75,15 +111,33 @@ interface ImportMetaEnv {
   readonly VITE_INJECTIVE_TESTNET_MULTI_CHAIN_VALIDATOR_ADDRESS?: string;
   /** Injective 主网 Recovery Plugin 地址（待技术验证） */
   readonly VITE_INJECTIVE_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Injective 主网 Session Key Validator 地址（待技术验证） */
+  readonly VITE_INJECTIVE_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Injective 主网 Spending Limit Hook 地址（待技术验证） */
+  readonly VITE_INJECTIVE_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Injective 主网 Scheduled Executor 地址（待技术验证） */
+  readonly VITE_INJECTIVE_SCHEDULED_EXECUTOR_ADDRESS?: string;
   /** Injective 测试网 Recovery Plugin 地址（待技术验证） */
   readonly VITE_INJECTIVE_TESTNET_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Injective 测试网 Session Key Validator 地址（待技术验证） */
+  readonly VITE_INJECTIVE_TESTNET_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Injective 测试网 Spending Limit Hook 地址（待技术验证） */
+  readonly VITE_INJECTIVE_TESTNET_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Injective 测试网 Scheduled Executor 地址（待技术验证） */
+  readonly VITE_INJECTIVE_TESTNET_SCHEDULED_EXECUTOR_ADDRESS?: string;
 
   /** Avalanche 主网 RPC URL */
   readonly VITE_AVALANCHE_RPC_URL?: string;
   /** Avalanche 主网 Paymaster 地址 */
   readonly VITE_AVALANCHE_PAYMASTER_ADDRESS?: string;
+  /** Avalanche 主网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_AVALANCHE_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Avalanche 主网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_AVALANCHE_GAS_TOKENS?: string;
   /** Avalanche 主网 Bundler URL */
   readonly VITE_AVALANCHE_BUNDLER_URL?: string;
+  /** Avalanche 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_AVALANCHE_BUNDLER_URLS?: string;
   /** Avalanche 主网 Kernel Factory 合约地址 */
   readonly VITE_AVALANCHE_KERNEL_FACTORY_ADDRESS?: string;
   /** Avalanche 主网 EntryPoint 合约地址 */
@@ -92,12 +146,24 @@ interface ImportMetaEnv {
   readonly VITE_AVALANCHE_MULTI_CHAIN_VALIDATOR_ADDRESS?: string;
   /** Avalanche 主网 Recovery Plugin 合约地址 */
   readonly VITE_AVALANCHE_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Avalanche 主网 Session Key Validator 地址 */
+  readonly VITE_AVALANCHE_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Avalanche 主网 Spending Limit Hook 地址 */
+  readonly VITE_AVALANCHE_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Avalanche 主网 Scheduled Executor 地址 */
+  readonly VITE_AVALANCHE_SCHEDULED_EXECUTOR_ADDRESS?: string;
   /** Avalanche Fuji 测试网 RPC URL */
   readonly VITE_AVALANCHE_FUJI_RPC_URL?: string;
   /** Avalanche Fuji 测试网 Paymaster 地址 */
   readonly VITE_AVALANCHE_FUJI_PAYMASTER_ADDRESS?: string;
+  /** Avalanche Fuji 测试网 ERC-20 Token Paymaster 地址 */
+  readonly VITE_AVALANCHE_FUJI_TOKEN_PAYMASTER_ADDRESS?: string;
+  /** Avalanche Fuji 测试网可用于支付 Gas 的 ERC-20 代币地址（逗号分隔） */
+  readonly VITE_AVALANCHE_FUJI_GAS_TOKENS?: string;
   /** Avalanche Fuji 测试网 Bundler URL */
   readonly VITE_AVALANCHE_FUJI_BUNDLER_URL?: string;
+  /** Avalanche Fuji 备用 Bundler 服务 URL（逗号分隔） */
+  readonly VITE_AVALANCHE_FUJI_BUNDLER_URLS?: string;
   /** Avalanche Fuji 测试网 Kernel Factory 合约地址 */
   readonly VITE_AVALANCHE_FUJI_KERNEL_FACTORY_ADDRESS?: string;
   /** Avalanche Fuji 测试网 EntryPoint 合约地址 */
@@ -106,8 +172,16 @@ interface ImportMetaEnv {
   readonly VITE_AVALANCHE_FUJI_MULTI_CHAIN_VALIDATOR_ADDRESS?: string;
   /** Avalanche Fuji 测试网 Recovery Plugin 合约地址 */
   readonly VITE_AVALANCHE_FUJI_RECOVERY_PLUGIN_ADDRESS?: string;
+  /** Avalanche Fuji 测试网 Session Key Validator 地址 */
+  readonly VITE_AVALANCHE_FUJI_SESSION_KEY_VALIDATOR_ADDRESS?: string;
+  /** Avalanche Fuji 测试网 Spending Limit Hook 地址 */
+  readonly VITE_AVALANCHE_FUJI_SPENDING_LIMIT_HOOK_ADDRESS?: string;
+  /** Avalanche Fuji 测试网 Scheduled Executor 地址 */
+  readonly VITE_AVALANCHE_FUJI_SCHEDULED_EXECUTOR_ADDRESS?: string;
   /** 是否启用 CREATE2_PROXY 固定地址策略 */
   readonly VITE_USE_CREATE2_PROXY?: string;
+  /** 跨源 Provider（popup / iframe）允许的 DApp 来源，逗号分隔；未配置时拒绝所有来源 */
+  readonly VITE_PROVIDER_ALLOWED_ORIGINS?: string;
   /** Ming 协议允许的消息来源，逗号分隔 */
   readonly VITE_MING_ALLOWED_ORIGINS?: string;
   /** Ming bridge 调试日志开关（true/false 或 1/0） */
@@ -59,6 +59,7 @@ import { monitoringService } from './services/MonitoringService';
  * Service Worker 用于后台监控两阶段提交任务状态
  */
 import { twoPhaseCommitService } from './services/TwoPhaseCommitService';
+import { scheduledTransactionService } from './services/ScheduledTransactionService';
 
 /**
  * 初始化 Solana bridge
@@ -76,6 +77,48 @@ import { solanaBridgeService } from './services/SolanaBridgeService';
  */
 import { mingWalletBridgeService } from './services/MingWalletBridgeService';
 
+/**
+ * 初始化跨源 Provider 桥接服务
+ *
+ * 外部 DApp 以 popup / iframe 打开钱包时，经 postMessage 中继 EIP-1193 请求与事件
+ */
+import { providerBridgeService } from './services/ProviderBridgeService';
+
+/**
+ * 初始化 DApp 权限服务
+ *
+ * 加载按来源持久化的 EIP-2255 连接授权，Provider 据此过滤 eth_accounts
+ */
+import { permissionService } from './services/PermissionService';
+
+/**
+ * 初始化代币服务
+ *
+ * 加载用户关注的代币（含 wallet_watchAsset 添加的资产）
+ */
+import { tokenService } from './services/TokenService';
+
+/**
+ * 初始化 ABI 注册服务
+ *
+ * 加载用户注册的合约 ABI，用于解码交易确认与历史中的调用数据
+ */
+import { abiRegistryService } from './services/AbiRegistryService';
+
+/**
+ * 初始化交易历史服务
+ *
+ * 加载历史交易，风险评估据此识别首次转账的收款地址
+ */
+import { transactionHistoryService } from './services/TransactionHistoryService';
+
+/**
+ * 初始化 UserOperation 生命周期跟踪
+ *
+ * 恢复重新加载前未结束的 UserOperation，继续轮询并同步交易历史
+ */
+import { userOperationTracker } from './services/UserOperationTracker';
+
 /**
  * 初始化 ApplicationRegistry 合约客户端（可选）
  */
@@ -188,6 +231,7 @@ let providerInitialized = false;
  * - WindowProviderAdapter：注册 window.ethereum Provider
  * - 支持 EIP-6963 钱包发现
  * - 提供标准的以太坊 Provider 接口
+ * - ProviderBridgeService：供 popup / iframe 中的外部 DApp 跨源调用
  */
 async function initProvider() {
   if (providerInitialized) return;
@@ -202,6 +246,10 @@ async function initProvider() {
     // 注册 Provider 到 window.ethereum
     // 注意：这里需要在应用加载后初始化，确保 Store 已就绪
     providerAdapter.registerProvider(accountStore, transactionRelayer, accountManager);
+    const provider = providerAdapter.getProvider();
+    if (provider) {
+      await providerBridgeService.init(provider);
+    }
     providerInitialized = true;
   } catch (error) {
     console.error('Failed to initialize Provider:', error);
@@ -213,12 +261,19 @@ async function bootstrap() {
     // 1) 强依赖初始化（顺序执行）
     await storageAdapter.init();
     await chainService.init();
+    await permissionService.init();
+    await tokenService.init();
+    await abiRegistryService.init();
+    await transactionHistoryService.init();
     await initApplicationRegistryClient();
     await initSponsorApplicationIndexerResolver();
 
     // 2) 可选服务初始化（不阻断主流程）
     await monitoringService.init().catch(console.error);
     await twoPhaseCommitService.init().catch(console.error);
+    // 在 Service Worker 注册之后恢复定时 / 条件交易监控
+    await scheduledTransactionService.init().catch(console.error);
+    await userOperationTracker.init().catch(console.error);
     await Promise.resolve(solanaBridgeService.init()).catch(console.error);
     await mingWalletBridgeService.init().catch(console.error);
 
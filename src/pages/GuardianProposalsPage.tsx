@@ -9,10 +9,10 @@ import { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { observer } from 'mobx-react-lite';
 import { useStore } from '@/stores';
-import { guardianService, GuardianProposal } from '@/services/GuardianService';
+import { guardianService, GuardianProposal, GuardianProposalType } from '@/services/GuardianService';
 import { keyManagerService } from '@/services/KeyManagerService';
 import { ErrorHandler } from '@/utils/errors';
-import type { Address } from 'viem';
+import { formatUnits, type Address } from 'viem';
 import { Modal } from '@/components/Modal';
 import { Button } from '@/components/Button';
 import { PasswordInputField } from '@/components/PasswordInput/PasswordInputField';
@@ -53,15 +53,32 @@ const ProposalHeader = styled.div`
   margin-bottom: 12px;
 `;
 
-const ProposalType = styled.span<{ type: 'add' | 'remove' }>`
+const ProposalType = styled.span<{ type: GuardianProposalType }>`
   padding: 4px 12px;
   border-radius: 4px;
   font-size: 12px;
   font-weight: 600;
-  background: ${props => props.type === 'add' ? '#d1ecf1' : '#f8d7da'};
-  color: ${props => props.type === 'add' ? '#0c5460' : '#721c24'};
+  background: ${props => props.type === 'remove' ? '#f8d7da' : '#d1ecf1'};
+  color: ${props => props.type === 'remove' ? '#721c24' : '#0c5460'};
 `;
 
+const PROPOSAL_TYPE_LABELS: Record<GuardianProposalType, string> = {
+  add: '添加守护人',
+  remove: '移除守护人',
+  spending_limit: '提高支出限额',
+};
+
+/**
+ * 提案对象的描述：守护人地址，或申请的新支出限额
+ */
+const describeProposalTarget = (proposal: GuardianProposal): string => {
+  if (proposal.spendingLimit) {
+    const { amount, decimals, symbol, period } = proposal.spendingLimit;
+    return `${formatUnits(amount, decimals)} ${symbol} / ${period === 'daily' ? '每日' : '每周'}`;
+  }
+  return proposal.guardianAddress ?? '';
+};
+
 const ProposalStatus = styled.span<{ status: string }>`
   padding: 4px 12px;
   border-radius: 4px;
@@ -354,7 +371,7 @@ export const GuardianProposalsPage = observer(() => {
             <ProposalItem>
               <ProposalHeader>
                 <ProposalType type={proposal.type}>
-                  {proposal.type === 'add' ? '添加守护人' : '移除守护人'}
+                  {PROPOSAL_TYPE_LABELS[proposal.type]}
                 </ProposalType>
                 <ProposalStatus status={proposal.status}>
                   {proposal.status === 'pending' ? '待投票' :
@@ -366,9 +383,9 @@ export const GuardianProposalsPage = observer(() => {
               </ProposalHeader>
 
               <ProposalInfo>
-                <strong>守护人地址:</strong>
+                <strong>{proposal.type === 'spending_limit' ? '新限额:' : '守护人地址:'}</strong>
               </ProposalInfo>
-              <ProposalAddress>{proposal.guardianAddress}</ProposalAddress>
+              <ProposalAddress>{describeProposalTarget(proposal)}</ProposalAddress>
 
               <ProposalInfo>
                 <strong>创建时间:</strong> {formatDate(proposal.createdAt)}
@@ -445,8 +462,10 @@ export const GuardianProposalsPage = observer(() => {
         {selectedProposal && (
           <div>
             <div style={{ marginBottom: '16px' }}>
-              <p>提案类型: {selectedProposal.type === 'add' ? '添加守护人' : '移除守护人'}</p>
-              <p>守护人地址: {selectedProposal.guardianAddress}</p>
+              <p>提案类型: {PROPOSAL_TYPE_LABELS[selectedProposal.type]}</p>
+              <p>
+                {selectedProposal.type === 'spending_limit' ? '新限额' : '守护人地址'}: {describeProposalTarget(selectedProposal)}
+              </p>
             </div>
             <PasswordInputField
               label="请输入密码以解锁守护人私钥"
@@ -5,16 +5,33 @@
  */
 
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
 import { observer } from 'mobx-react-lite';
 import { useStore } from '@/stores';
 import { pluginService } from '@/services/PluginService';
+import { abiRegistryService } from '@/services/AbiRegistryService';
+import { DecodedCallView } from '@/components/DecodedCallView';
 import { keyManagerService } from '@/services/KeyManagerService';
+import { isSessionKeyPlugin, sessionKeyService, type SessionKey, type SessionKeyStatus } from '@/services/SessionKeyService';
+import {
+  DEFAULT_LIMIT_INCREASE_DELAY,
+  NATIVE_TOKEN_ADDRESS,
+  isSpendingLimitPlugin,
+  spendingLimitService,
+  type LimitIncreaseApproval,
+  type SpendingLimit,
+  type SpendingLimitSettings,
+  type SpendingPeriod,
+  type SpendingUsage,
+} from '@/services/SpendingLimitService';
+import { tokenService } from '@/services/TokenService';
 import { IPlugin, PluginType } from '@/types/plugins';
 import { ErrorHandler } from '@/utils/errors';
-import { validateEvmAddress } from '@/utils/pathFlowValidation';
+import { parsePositiveAmountToUnits, validateEvmAddress } from '@/utils/pathFlowValidation';
 import { trimInputValue } from '@/utils/formValidation';
-import type { Address } from 'viem';
+import { formatEther, formatUnits, parseEther, type Address, type Hex } from 'viem';
+import { getChainNativeSymbol } from '@/utils/chainConfigValidation';
 
 const Container = styled.div`
   max-width: 800px;
@@ -82,6 +99,13 @@ const PluginAddress = styled.div`
   word-break: break-all;
 `;
 
+const PendingCall = styled.div`
+  margin-top: 8px;
+  padding: 8px;
+  background: #f8f9fa;
+  border-radius: 6px;
+`;
+
 const StatusBadge = styled.span<{ installed: boolean }>`
   padding: 4px 12px;
   border-radius: 12px;
@@ -154,6 +178,46 @@ const EmptyState = styled.div`
   color: #999;
 `;
 
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 72px;
+  padding: 12px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  font-size: 14px;
+  font-family: monospace;
+  margin-bottom: 16px;
+  box-sizing: border-box;
+
+  &:focus {
+    outline: none;
+    border-color: #4c6ef5;
+  }
+`;
+
+const SESSION_KEY_STATUS_LABELS: Record<SessionKeyStatus, string> = {
+  pending: '待确认',
+  active: '有效',
+  failed: '安装失败',
+  expired: '已过期',
+  revoking: '撤销中',
+  revoked: '已撤销',
+};
+
+const SPENDING_PERIOD_LABELS: Record<SpendingPeriod, string> = {
+  daily: '每日',
+  weekly: '每周',
+};
+
+const selectStyle = {
+  width: '100%',
+  padding: '12px',
+  border: '1px solid #e0e0e0',
+  borderRadius: '8px',
+  fontSize: '16px',
+  marginBottom: '16px',
+};
+
 const getPluginTypeName = (type: PluginType): string => {
   const typeMap: Record<PluginType, string> = {
     [PluginType.VALIDATOR]: '验证器',
@@ -168,6 +232,7 @@ const getPluginTypeName = (type: PluginType): string => {
 
 export const PluginsPage = observer(() => {
   const { accountStore } = useStore();
+  const navigate = useNavigate();
   const [plugins, setPlugins] = useState<IPlugin[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -178,6 +243,23 @@ export const PluginsPage = observer(() => {
   const [isUninstalling, setIsUninstalling] = useState<string | null>(null);
   const [password, setPassword] = useState('');
   const [showPasswordInput, setShowPasswordInput] = useState(false);
+  const [sessionKeys, setSessionKeys] = useState<SessionKey[]>([]);
+  const [sessionLabel, setSessionLabel] = useState('');
+  const [sessionTargets, setSessionTargets] = useState('');
+  const [sessionSelectors, setSessionSelectors] = useState('');
+  const [sessionMaxPerCall, setSessionMaxPerCall] = useState('0');
+  const [sessionTotalLimit, setSessionTotalLimit] = useState('0');
+  const [sessionHours, setSessionHours] = useState('24');
+  const [isCreatingSessionKey, setIsCreatingSessionKey] = useState(false);
+  const [isRevoking, setIsRevoking] = useState<string | null>(null);
+  const [spendingSettings, setSpendingSettings] = useState<SpendingLimitSettings | null>(null);
+  const [spendingUsage, setSpendingUsage] = useState<SpendingUsage[]>([]);
+  const [limitToken, setLimitToken] = useState('');
+  const [limitAmount, setLimitAmount] = useState('');
+  const [limitPeriod, setLimitPeriod] = useState<SpendingPeriod>('daily');
+  const [limitApproval, setLimitApproval] = useState<LimitIncreaseApproval>('delay');
+  const [limitDelayHours, setLimitDelayHours] = useState(String(DEFAULT_LIMIT_INCREASE_DELAY / 3600));
+  const [isSavingLimit, setIsSavingLimit] = useState<string | null>(null);
 
   const currentAccount = accountStore.currentAccount;
   const currentChainId = currentAccount?.chainId || 0;
@@ -198,8 +280,24 @@ export const PluginsPage = observer(() => {
 
     try {
       await pluginService.init(currentAccount.address as Address, currentChainId);
-      const list = pluginService.getAllPlugins();
+      await sessionKeyService.init();
+      // 会话密钥与支出限额在下方单独管理
+      const list = pluginService
+        .getAllPlugins()
+        .filter((plugin) => !isSessionKeyPlugin(plugin) && !isSpendingLimitPlugin(plugin));
       setPlugins(list);
+      const accountSessionKeys = sessionKeyService.getSessionKeys(currentAccount.address as Address, currentChainId);
+      // 确认待上链的安装、撤销与会话密钥操作，回执查询失败时保持原状态
+      await Promise.all(
+        accountSessionKeys.map((sessionKey) =>
+          sessionKeyService
+            .sync(sessionKey.id)
+            .catch((syncError) => console.warn('Failed to sync session key:', syncError))
+        )
+      );
+      setSessionKeys(accountSessionKeys);
+      setSpendingSettings(await spendingLimitService.getSettings(currentAccount.address as Address, currentChainId));
+      setSpendingUsage(await spendingLimitService.getUsage(currentAccount.address as Address, currentChainId));
     } catch (err) {
       setError(ErrorHandler.handleAndShow(err));
     } finally {
@@ -298,6 +396,233 @@ export const PluginsPage = observer(() => {
     }
   };
 
+  const unlockOwnerKey = async (): Promise<{ password: string; privateKey: Hex } | null> => {
+    if (!currentAccount) {
+      setError('请先选择账户');
+      return null;
+    }
+
+    const passwordValue = trimInputValue(password);
+    if (!passwordValue) {
+      setShowPasswordInput(true);
+      setError('请输入密码以解锁私钥');
+      return null;
+    }
+
+    const privateKey = await keyManagerService.getPrivateKey(currentAccount.owner as Address, passwordValue);
+    if (!privateKey) {
+      setError('无法获取签名者私钥，请检查密码');
+      setShowPasswordInput(true);
+      return null;
+    }
+    return { password: passwordValue, privateKey };
+  };
+
+  const handleCreateSessionKey = async () => {
+    if (!currentAccount) return;
+
+    const targets = sessionTargets
+      .split(/[\s,]+/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+    for (const target of targets) {
+      const targetError = validateEvmAddress(target, '授权合约地址');
+      if (targetError) {
+        setError(targetError);
+        return;
+      }
+    }
+    const selectors = sessionSelectors
+      .split(/[\s,]+/)
+      .map((item) => item.trim())
+      .filter(Boolean) as Hex[];
+    const hours = Number(sessionHours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      setError('请输入有效的有效期（小时）');
+      return;
+    }
+
+    let maxValuePerCall: bigint;
+    let totalValueLimit: bigint;
+    try {
+      maxValuePerCall = parseEther(trimInputValue(sessionMaxPerCall) || '0');
+      totalValueLimit = parseEther(trimInputValue(sessionTotalLimit) || '0');
+    } catch {
+      setError('请输入有效的金额上限');
+      return;
+    }
+
+    setIsCreatingSessionKey(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const owner = await unlockOwnerKey();
+      if (!owner) return;
+
+      const record = await sessionKeyService.createSessionKey(
+        {
+          accountAddress: currentAccount.address as Address,
+          chainId: currentChainId,
+          label: trimInputValue(sessionLabel) || 'dApp',
+          scope: {
+            permissions: targets.map((target) => ({ target: target as Address, selectors, maxValuePerCall })),
+            totalValueLimit,
+            validUntil: Math.floor(Date.now() / 1000 + hours * 3600),
+          },
+          password: owner.password,
+        },
+        owner.privateKey
+      );
+
+      setSuccess(`会话密钥已提交，安装上链后生效，交易哈希: ${record.installTxHash}`);
+      setSessionLabel('');
+      setSessionTargets('');
+      setSessionSelectors('');
+      setPassword('');
+      setShowPasswordInput(false);
+      await loadPlugins();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsCreatingSessionKey(false);
+    }
+  };
+
+  const handleRevokeSessionKey = async (sessionKey: SessionKey) => {
+    setIsRevoking(sessionKey.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const owner = await unlockOwnerKey();
+      if (!owner) return;
+
+      const txHash = await sessionKeyService.revokeSessionKey(sessionKey.id, owner.privateKey);
+      setSuccess(`撤销已提交，上链确认后生效，交易哈希: ${txHash}`);
+      setPassword('');
+      setShowPasswordInput(false);
+      await loadPlugins();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsRevoking(null);
+    }
+  };
+
+  const handleSaveSpendingLimit = async () => {
+    if (!currentAccount) return;
+
+    const tokenValue = trimInputValue(limitToken);
+    if (tokenValue) {
+      const tokenError = validateEvmAddress(tokenValue, '代币地址');
+      if (tokenError) {
+        setError(tokenError);
+        return;
+      }
+    }
+    const delayHours = Number(limitDelayHours);
+    if (!spendingSettings && limitApproval === 'delay' && (!Number.isFinite(delayHours) || delayHours <= 0)) {
+      setError('请输入有效的等待期（小时）');
+      return;
+    }
+
+    setIsSavingLimit('save');
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const token = tokenValue
+        ? await tokenService.fetchTokenInfo(tokenValue as Address, currentChainId)
+        : { address: NATIVE_TOKEN_ADDRESS, symbol: getChainNativeSymbol(currentChainId), decimals: 18 };
+      const limit: SpendingLimit = {
+        token: (tokenValue || NATIVE_TOKEN_ADDRESS) as Address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        amount: parsePositiveAmountToUnits(limitAmount, token.decimals, '限额'),
+        period: limitPeriod,
+      };
+
+      const owner = await unlockOwnerKey();
+      if (!owner) return;
+
+      if (!spendingSettings) {
+        await spendingLimitService.installSpendingLimits(
+          {
+            accountAddress: currentAccount.address as Address,
+            chainId: currentChainId,
+            limits: [limit],
+            approval: limitApproval,
+            increaseDelay: Math.round(delayHours * 3600),
+          },
+          owner.privateKey
+        );
+        setSuccess('支出限额已启用');
+      } else {
+        const result = await spendingLimitService.updateLimit(
+          currentAccount.address as Address,
+          currentChainId,
+          limit,
+          owner.privateKey
+        );
+        setSuccess(
+          result.status === 'applied'
+            ? '限额已生效'
+            : result.proposalId
+              ? '提高限额需守护人审批，已发起守护人提案'
+              : '提高限额已提交，等待期结束后可生效'
+        );
+      }
+
+      setLimitAmount('');
+      setPassword('');
+      setShowPasswordInput(false);
+      await loadPlugins();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsSavingLimit(null);
+    }
+  };
+
+  const handlePendingIncrease = async (token: Address, action: 'apply' | 'cancel') => {
+    if (!currentAccount) return;
+
+    setIsSavingLimit(token);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const owner = await unlockOwnerKey();
+      if (!owner) return;
+
+      if (action === 'apply') {
+        await spendingLimitService.applyPendingIncrease(
+          currentAccount.address as Address,
+          currentChainId,
+          token,
+          owner.privateKey
+        );
+        setSuccess('提高的限额已生效');
+      } else {
+        await spendingLimitService.cancelPendingIncrease(
+          currentAccount.address as Address,
+          currentChainId,
+          token,
+          owner.privateKey
+        );
+        setSuccess('已取消提高限额');
+      }
+      setPassword('');
+      setShowPasswordInput(false);
+      await loadPlugins();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsSavingLimit(null);
+    }
+  };
+
   const handleAddPlugin = () => {
     const pluginAddressValue = trimInputValue(newPluginAddress);
     const pluginAddressError = validateEvmAddress(pluginAddressValue, '插件地址');
@@ -334,6 +659,9 @@ export const PluginsPage = observer(() => {
   return (
     <Container>
       <Title>插件管理</Title>
+      <Button onClick={() => navigate('/scheduled-transactions')} style={{ marginBottom: '16px' }}>
+        定时 / 条件交易
+      </Button>
 
       {error && <ErrorMessage>{error}</ErrorMessage>}
       {success && <SuccessMessage>{success}</SuccessMessage>}
@@ -349,14 +677,7 @@ export const PluginsPage = observer(() => {
         <select
           value={newPluginType}
           onChange={(e) => setNewPluginType(Number(e.target.value) as PluginType)}
-          style={{
-            width: '100%',
-            padding: '12px',
-            border: '1px solid #e0e0e0',
-            borderRadius: '8px',
-            fontSize: '16px',
-            marginBottom: '16px',
-          }}
+          style={selectStyle}
         >
           {Object.values(PluginType)
             .filter((v) => typeof v === 'number')
@@ -399,6 +720,15 @@ export const PluginsPage = observer(() => {
                     <PluginName>{plugin.name}</PluginName>
                     <PluginDescription>{plugin.description || '无描述'}</PluginDescription>
                     <PluginAddress>{plugin.address}</PluginAddress>
+                    <PendingCall>
+                      <DecodedCallView
+                        call={abiRegistryService.decodeCall(
+                          pluginService.buildUninstallCallData(plugin),
+                          currentAccount.address as Address,
+                          currentChainId
+                        )}
+                      />
+                    </PendingCall>
                   </PluginInfo>
                   <div style={{ display: 'flex', alignItems: 'center' }}>
                     <StatusBadge installed={plugin.installed}>已安装</StatusBadge>
@@ -415,6 +745,188 @@ export const PluginsPage = observer(() => {
         )}
       </Card>
 
+      <Card>
+        <SectionTitle>会话密钥</SectionTitle>
+        <PluginDescription>
+          为 dApp 生成限定合约、函数、金额与有效期的会话密钥，授权范围内的操作无需每次输入密码
+        </PluginDescription>
+        <Input
+          type="text"
+          placeholder="名称（如 游戏 / Ming）"
+          value={sessionLabel}
+          onChange={(e) => setSessionLabel(e.target.value)}
+        />
+        <TextArea
+          placeholder="授权合约地址，每行一个"
+          value={sessionTargets}
+          onChange={(e) => setSessionTargets(e.target.value)}
+        />
+        <Input
+          type="text"
+          placeholder="允许的函数选择器（如 0xa0712d68，逗号分隔，留空表示任意函数）"
+          value={sessionSelectors}
+          onChange={(e) => setSessionSelectors(e.target.value)}
+        />
+        <Input
+          type="text"
+          placeholder="单笔金额上限（原生代币）"
+          value={sessionMaxPerCall}
+          onChange={(e) => setSessionMaxPerCall(e.target.value)}
+        />
+        <Input
+          type="text"
+          placeholder="累计金额上限（原生代币）"
+          value={sessionTotalLimit}
+          onChange={(e) => setSessionTotalLimit(e.target.value)}
+        />
+        <Input
+          type="number"
+          placeholder="有效期（小时）"
+          value={sessionHours}
+          onChange={(e) => setSessionHours(e.target.value)}
+        />
+        <Button
+          onClick={handleCreateSessionKey}
+          disabled={isCreatingSessionKey || !sessionTargets}
+        >
+          {isCreatingSessionKey ? '创建中...' : '创建会话密钥'}
+        </Button>
+
+        {sessionKeys.length === 0 ? (
+          <EmptyState>暂无会话密钥</EmptyState>
+        ) : (
+          <PluginList>
+            {sessionKeys.map((sessionKey) => {
+              const status = sessionKeyService.getStatus(sessionKey);
+              return (
+                <PluginItem key={sessionKey.id}>
+                  <PluginInfo>
+                    <PluginName>{sessionKey.label}</PluginName>
+                    <PluginDescription>
+                      过期时间 {new Date(sessionKey.scope.validUntil * 1000).toLocaleString()}，已用{' '}
+                      {formatEther(sessionKey.spentValue)} / {formatEther(sessionKey.scope.totalValueLimit)}
+                    </PluginDescription>
+                    <PluginAddress>{sessionKey.address}</PluginAddress>
+                    {sessionKey.scope.permissions.map((permission) => (
+                      <PluginAddress key={permission.target}>
+                        {permission.target} {permission.selectors.length > 0 ? permission.selectors.join(', ') : '任意函数'}，
+                        单笔 ≤ {formatEther(permission.maxValuePerCall)}
+                      </PluginAddress>
+                    ))}
+                  </PluginInfo>
+                  <div style={{ display: 'flex', alignItems: 'center' }}>
+                    <StatusBadge installed={status === 'active'}>{SESSION_KEY_STATUS_LABELS[status]}</StatusBadge>
+                    {status !== 'revoked' && status !== 'revoking' && status !== 'failed' && (
+                      <DangerButton
+                        onClick={() => handleRevokeSessionKey(sessionKey)}
+                        disabled={isRevoking === sessionKey.id}
+                      >
+                        {isRevoking === sessionKey.id ? '撤销中...' : '撤销'}
+                      </DangerButton>
+                    )}
+                  </div>
+                </PluginItem>
+              );
+            })}
+          </PluginList>
+        )}
+      </Card>
+
+      <Card>
+        <SectionTitle>支出限额</SectionTitle>
+        <PluginDescription>
+          按日 / 按周限制账户转出的原生代币与 ERC-20 数量；降低限额立即生效，提高限额需等待期或守护人审批；启用后不能使用会话密钥
+        </PluginDescription>
+        {spendingUsage.length > 0 && (
+          <PluginList>
+            {spendingUsage.map(({ limit, spent, remaining }) => (
+              <PluginItem key={limit.token}>
+                <PluginInfo>
+                  <PluginName>
+                    {limit.symbol} {SPENDING_PERIOD_LABELS[limit.period]} {formatUnits(limit.amount, limit.decimals)}
+                  </PluginName>
+                  <PluginDescription>
+                    已用 {formatUnits(spent, limit.decimals)}，剩余 {formatUnits(remaining, limit.decimals)}
+                  </PluginDescription>
+                  {limit.token !== NATIVE_TOKEN_ADDRESS && <PluginAddress>{limit.token}</PluginAddress>}
+                </PluginInfo>
+              </PluginItem>
+            ))}
+          </PluginList>
+        )}
+        {spendingSettings?.pendingIncreases.map((pending) => (
+          <PluginItem key={`pending-${pending.token}`}>
+            <PluginInfo>
+              <PluginName>
+                待生效：{pending.symbol} {SPENDING_PERIOD_LABELS[pending.period]} {formatUnits(pending.amount, pending.decimals)}
+              </PluginName>
+              <PluginDescription>
+                {pending.proposalId
+                  ? '等待守护人审批'
+                  : `可生效时间 ${new Date(pending.effectiveAt ?? 0).toLocaleString()}`}
+              </PluginDescription>
+            </PluginInfo>
+            <div style={{ display: 'flex', alignItems: 'center' }}>
+              {!pending.proposalId && (
+                <Button
+                  onClick={() => handlePendingIncrease(pending.token, 'apply')}
+                  disabled={!!isSavingLimit || Date.now() < (pending.effectiveAt ?? 0)}
+                >
+                  生效
+                </Button>
+              )}
+              <DangerButton onClick={() => handlePendingIncrease(pending.token, 'cancel')} disabled={!!isSavingLimit}>
+                取消
+              </DangerButton>
+            </div>
+          </PluginItem>
+        ))}
+
+        <Input
+          type="text"
+          placeholder="代币地址（留空为原生代币）"
+          value={limitToken}
+          onChange={(e) => setLimitToken(e.target.value)}
+        />
+        <Input
+          type="text"
+          placeholder="限额数量"
+          value={limitAmount}
+          onChange={(e) => setLimitAmount(e.target.value)}
+        />
+        <select
+          value={limitPeriod}
+          onChange={(e) => setLimitPeriod(e.target.value as SpendingPeriod)}
+          style={selectStyle}
+        >
+          <option value="daily">每日</option>
+          <option value="weekly">每周</option>
+        </select>
+        {!spendingSettings && (
+          <>
+            <select
+              value={limitApproval}
+              onChange={(e) => setLimitApproval(e.target.value as LimitIncreaseApproval)}
+              style={selectStyle}
+            >
+              <option value="delay">提高限额需等待期</option>
+              <option value="guardians">提高限额需守护人审批</option>
+            </select>
+            {limitApproval === 'delay' && (
+              <Input
+                type="number"
+                placeholder="等待期（小时）"
+                value={limitDelayHours}
+                onChange={(e) => setLimitDelayHours(e.target.value)}
+              />
+            )}
+          </>
+        )}
+        <Button onClick={handleSaveSpendingLimit} disabled={!!isSavingLimit || !limitAmount}>
+          {isSavingLimit === 'save' ? '提交中...' : spendingSettings ? '设置限额' : '启用支出限额'}
+        </Button>
+      </Card>
+
       <Card>
         <SectionTitle>可用插件</SectionTitle>
         {isLoading ? (
@@ -431,6 +943,15 @@ export const PluginsPage = observer(() => {
                     <PluginName>{plugin.name}</PluginName>
                     <PluginDescription>{plugin.description || '无描述'}</PluginDescription>
                     <PluginAddress>{plugin.address}</PluginAddress>
+                    <PendingCall>
+                      <DecodedCallView
+                        call={abiRegistryService.decodeCall(
+                          pluginService.buildInstallCallData(plugin, {}),
+                          currentAccount.address as Address,
+                          currentChainId
+                        )}
+                      />
+                    </PendingCall>
                   </PluginInfo>
                   <div style={{ display: 'flex', alignItems: 'center' }}>
                     <StatusBadge installed={plugin.installed}>未安装</StatusBadge>
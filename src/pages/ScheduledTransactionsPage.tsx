@@ -0,0 +1,897 @@
+/**
+ * 定时 / 条件交易管理页面
+ *
+ * 查看条件交易与延迟交易的状态、历史与执行结果，支持编辑、执行与取消；
+ * 创建由链上执行器模块代为执行的延迟 / 周期调度，并展示链上执行状态
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { observer } from 'mobx-react-lite';
+import { formatEther, isHex, parseEther, type Address, type Hex } from 'viem';
+import { scheduledTransactionService } from '@/services/ScheduledTransactionService';
+import {
+  MAX_SCHEDULE_COUNT,
+  scheduledExecutorService,
+  type ExecutorSchedule,
+  type ExecutorScheduleStatus,
+} from '@/services/ScheduledExecutorService';
+import { keyManagerService } from '@/services/KeyManagerService';
+import { useStore } from '@/stores';
+import {
+  ConditionType,
+  parseConditions,
+  serializeConditions,
+  type Condition,
+  type ConditionalTransaction,
+  type LogicalConditionParams,
+} from '@/plugins/ConditionalTransactionPlugin';
+import type { DelayedTransaction } from '@/plugins/DelayedTransactionPlugin';
+import type { PluginTransactionStatusChange } from '@/types/plugins';
+import { ErrorHandler } from '@/utils/errors';
+import { trimInputValue } from '@/utils/formValidation';
+import { validateEvmAddress } from '@/utils/pathFlowValidation';
+
+const Container = styled.div`
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 24px;
+`;
+
+const Title = styled.h1`
+  font-size: 24px;
+  font-weight: 600;
+  margin-bottom: 24px;
+  color: #1a1a1a;
+`;
+
+const Card = styled.div`
+  background: #ffffff;
+  border-radius: 12px;
+  padding: 24px;
+  box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+  margin-bottom: 16px;
+`;
+
+const SectionTitle = styled.h2`
+  font-size: 18px;
+  font-weight: 600;
+  margin-bottom: 16px;
+  color: #1a1a1a;
+`;
+
+const TaskItem = styled.div`
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  padding: 16px;
+  margin-bottom: 12px;
+`;
+
+const TaskHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 12px;
+`;
+
+const TaskId = styled.div`
+  font-family: monospace;
+  font-size: 14px;
+  color: #666;
+  word-break: break-all;
+`;
+
+const StatusBadge = styled.span<{ status: string }>`
+  padding: 4px 12px;
+  border-radius: 12px;
+  font-size: 12px;
+  font-weight: 500;
+  background: ${(props) => {
+    switch (props.status) {
+      case 'ready':
+      case 'due':
+        return '#2f9e44';
+      case 'executed':
+      case 'completed':
+        return '#4c6ef5';
+      case 'monitoring':
+      case 'scheduled':
+      case 'waiting':
+        return '#ffc107';
+      case 'failed':
+        return '#e03131';
+      default:
+        return '#999';
+    }
+  }};
+  color: #ffffff;
+`;
+
+const TaskInfo = styled.div`
+  font-size: 14px;
+  color: #666;
+  margin: 8px 0;
+  word-break: break-all;
+`;
+
+const HistoryList = styled.ul`
+  font-size: 12px;
+  color: #999;
+  margin: 8px 0 0;
+  padding-left: 20px;
+`;
+
+const Button = styled.button`
+  background: #4c6ef5;
+  color: #ffffff;
+  border: none;
+  border-radius: 8px;
+  padding: 8px 16px;
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: background 0.2s;
+  margin-right: 8px;
+
+  &:hover {
+    background: #3b5bdb;
+  }
+
+  &:disabled {
+    background: #ccc;
+    cursor: not-allowed;
+  }
+`;
+
+const DangerButton = styled(Button)`
+  background: #e03131;
+
+  &:hover {
+    background: #c92a2a;
+  }
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: 12px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  font-size: 16px;
+  margin-bottom: 16px;
+
+  &:focus {
+    outline: none;
+    border-color: #4c6ef5;
+  }
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 120px;
+  padding: 12px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  font-size: 14px;
+  font-family: monospace;
+  margin-bottom: 16px;
+
+  &:focus {
+    outline: none;
+    border-color: #4c6ef5;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: #e03131;
+  font-size: 14px;
+  margin-top: 8px;
+`;
+
+const SuccessMessage = styled.div`
+  color: #2f9e44;
+  font-size: 14px;
+  margin-top: 8px;
+`;
+
+const EmptyState = styled.div`
+  text-align: center;
+  padding: 40px 20px;
+  color: #999;
+`;
+
+const Modal = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background: rgba(0, 0, 0, 0.5);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+`;
+
+const ModalContent = styled.div`
+  background: #ffffff;
+  border-radius: 12px;
+  padding: 24px;
+  max-width: 500px;
+  width: 90%;
+`;
+
+type ScheduledKind = 'conditional' | 'delayed';
+type ScheduledAction = 'edit' | 'execute' | 'cancel';
+
+interface ActionTarget {
+  kind: ScheduledKind;
+  action: ScheduledAction;
+  transaction: ConditionalTransaction | DelayedTransaction;
+}
+
+/** 链上执行器调度的操作 */
+interface ExecutorActionTarget {
+  kind: 'executor';
+  action: Exclude<ScheduledAction, 'edit'>;
+  schedule: ExecutorSchedule;
+}
+
+interface ExecutorScheduleItem {
+  schedule: ExecutorSchedule;
+  status?: ExecutorScheduleStatus;
+  statusError?: string;
+}
+
+const STATUS_TEXT: Record<string, string> = {
+  pending: '待处理',
+  monitoring: '监控中',
+  ready: '条件已满足',
+  scheduled: '已调度',
+  executed: '已执行',
+  failed: '执行失败',
+  cancelled: '已取消',
+  waiting: '等待执行',
+  due: '可触发',
+  completed: '已完成',
+};
+
+const ACTION_TITLES: Record<ScheduledAction, string> = {
+  edit: '编辑交易',
+  execute: '执行交易',
+  cancel: '取消交易',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN');
+
+const LOGICAL_TYPES: string[] = [ConditionType.AND, ConditionType.OR, ConditionType.NOT];
+
+/** 条件摘要，组合条件递归展开 */
+function describeCondition(condition: Condition): string {
+  if (LOGICAL_TYPES.includes(condition.type)) {
+    const children = (condition.params as LogicalConditionParams).conditions || [];
+    return `${condition.type.toUpperCase()}(${children.map(describeCondition).join(', ')})`;
+  }
+  return `${condition.type} ${condition.operator} ${String(condition.expectedValue)}`;
+}
+
+function StatusHistory({ history }: { history: PluginTransactionStatusChange[] }) {
+  return (
+    <HistoryList>
+      {history.map((entry, index) => (
+        <li key={`${entry.status}-${entry.at}-${index}`}>
+          {formatDate(entry.at)} {STATUS_TEXT[entry.status] || entry.status}
+          {entry.txHash && ` · ${entry.txHash}`}
+          {entry.error && ` · ${entry.error}`}
+        </li>
+      ))}
+    </HistoryList>
+  );
+}
+
+export const ScheduledTransactionsPage = observer(() => {
+  const { accountStore } = useStore();
+  const currentAccount = accountStore.currentAccount;
+  const currentChainId = currentAccount?.chainId || 0;
+
+  const [conditionalTransactions, setConditionalTransactions] = useState<ConditionalTransaction[]>([]);
+  const [delayedTransactions, setDelayedTransactions] = useState<DelayedTransaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [actionTarget, setActionTarget] = useState<ActionTarget | ExecutorActionTarget | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [password, setPassword] = useState('');
+  const [editTarget, setEditTarget] = useState('');
+  const [editValue, setEditValue] = useState('');
+  const [editData, setEditData] = useState('');
+  const [editDelaySeconds, setEditDelaySeconds] = useState('');
+  const [editConditions, setEditConditions] = useState('');
+  const [executorSchedules, setExecutorSchedules] = useState<ExecutorScheduleItem[]>([]);
+  const [scheduleLabel, setScheduleLabel] = useState('');
+  const [scheduleTarget, setScheduleTarget] = useState('');
+  const [scheduleValue, setScheduleValue] = useState('');
+  const [scheduleData, setScheduleData] = useState('');
+  const [scheduleStartAt, setScheduleStartAt] = useState('');
+  const [scheduleIntervalHours, setScheduleIntervalHours] = useState('0');
+  const [scheduleCount, setScheduleCount] = useState('1');
+  const [scheduleMaxAmount, setScheduleMaxAmount] = useState('');
+  const [schedulePassword, setSchedulePassword] = useState('');
+  const [isCreatingSchedule, setIsCreatingSchedule] = useState(false);
+
+  const loadTransactions = useCallback(() => {
+    if (!currentAccount) {
+      setConditionalTransactions([]);
+      setDelayedTransactions([]);
+      return;
+    }
+    const accountAddress = currentAccount.address as Address;
+    setConditionalTransactions(scheduledTransactionService.getConditionalTransactions(accountAddress, currentChainId));
+    setDelayedTransactions(scheduledTransactionService.getDelayedTransactions(accountAddress, currentChainId));
+  }, [currentAccount, currentChainId]);
+
+  /** 执行状态从链上读取，只在进入页面与操作后刷新 */
+  const loadExecutorSchedules = useCallback(async () => {
+    if (!currentAccount) {
+      setExecutorSchedules([]);
+      return;
+    }
+    const schedules = await scheduledExecutorService.getSchedules(currentAccount.address as Address, currentChainId);
+    const items = await Promise.all(
+      schedules.map(async (schedule): Promise<ExecutorScheduleItem> => {
+        try {
+          return { schedule, status: await scheduledExecutorService.getScheduleStatus(schedule) };
+        } catch (err) {
+          return { schedule, statusError: err instanceof Error ? err.message : String(err) };
+        }
+      })
+    );
+    setExecutorSchedules(items);
+  }, [currentAccount, currentChainId]);
+
+  useEffect(() => {
+    loadExecutorSchedules().catch((err) => setError(ErrorHandler.handleAndShow(err)));
+  }, [loadExecutorSchedules]);
+
+  useEffect(() => {
+    loadTransactions();
+
+    // 条件满足或延迟到期时刷新列表
+    const handleReady = (event: CustomEvent) => {
+      loadTransactions();
+      setSuccess(`交易 ${event.detail.transactionId} 条件已满足，可以执行`);
+    };
+    const handleDue = () => loadTransactions();
+
+    window.addEventListener('conditional-transaction:ready', handleReady as EventListener);
+    window.addEventListener('delayed-transaction:due', handleDue);
+    // 自动执行在后台完成，定期刷新以展示结果
+    const interval = setInterval(loadTransactions, 5000);
+
+    return () => {
+      window.removeEventListener('conditional-transaction:ready', handleReady as EventListener);
+      window.removeEventListener('delayed-transaction:due', handleDue);
+      clearInterval(interval);
+    };
+  }, [loadTransactions]);
+
+  const openAction = (
+    kind: ScheduledKind,
+    action: ScheduledAction,
+    transaction: ConditionalTransaction | DelayedTransaction
+  ) => {
+    setActionTarget({ kind, action, transaction });
+    setPassword('');
+    setError(null);
+    setSuccess(null);
+    if (action === 'edit') {
+      setEditTarget(transaction.config.target);
+      setEditValue(formatEther(transaction.config.value));
+      setEditData(transaction.config.data);
+      if (kind === 'delayed') {
+        setEditDelaySeconds(String((transaction as DelayedTransaction).config.delaySeconds));
+      } else {
+        setEditConditions(serializeConditions((transaction as ConditionalTransaction).config.conditions));
+      }
+    }
+  };
+
+  const closeAction = () => {
+    setActionTarget(null);
+    setPassword('');
+  };
+
+  const openExecutorAction = (action: ExecutorActionTarget['action'], schedule: ExecutorSchedule) => {
+    setActionTarget({ kind: 'executor', action, schedule });
+    setPassword('');
+    setError(null);
+    setSuccess(null);
+  };
+
+  /** 仅本地取消条件交易时不需要签名 */
+  const requiresSigner = (target: ActionTarget | ExecutorActionTarget) =>
+    !(target.kind === 'conditional' && target.action !== 'execute');
+
+  const readEditedCall = () => {
+    const target = trimInputValue(editTarget);
+    const targetError = validateEvmAddress(target, '目标地址');
+    if (targetError) {
+      throw new Error(targetError);
+    }
+    const data = trimInputValue(editData) || '0x';
+    if (!isHex(data)) {
+      throw new Error('调用数据必须是 0x 开头的十六进制');
+    }
+    let value: bigint;
+    try {
+      value = parseEther(trimInputValue(editValue) || '0');
+    } catch {
+      throw new Error('请输入有效的转账金额');
+    }
+    return { target: target as Address, data: data as Hex, value };
+  };
+
+  const handleSubmit = async () => {
+    if (!actionTarget || !currentAccount) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      let signerPrivateKey: Hex | null = null;
+      if (requiresSigner(actionTarget)) {
+        const passwordValue = trimInputValue(password);
+        if (!passwordValue) {
+          setError('请输入密码以解锁私钥');
+          return;
+        }
+        signerPrivateKey = await keyManagerService.getPrivateKey(currentAccount.owner as Address, passwordValue);
+        if (!signerPrivateKey) {
+          setError('无法获取签名者私钥，请检查密码');
+          return;
+        }
+      }
+
+      if (actionTarget.kind === 'executor') {
+        const { action, schedule } = actionTarget;
+        if (action === 'execute') {
+          const txHash = await scheduledExecutorService.triggerSchedule(
+            schedule.accountAddress,
+            schedule.chainId,
+            schedule.id,
+            signerPrivateKey!
+          );
+          setSuccess(`已触发执行，交易哈希: ${txHash}`);
+        } else {
+          const txHash = await scheduledExecutorService.cancelSchedule(
+            schedule.accountAddress,
+            schedule.chainId,
+            schedule.id,
+            signerPrivateKey!
+          );
+          setSuccess(`调度已取消，交易哈希: ${txHash}`);
+        }
+        closeAction();
+        await loadExecutorSchedules();
+        return;
+      }
+
+      const { kind, action, transaction } = actionTarget;
+      if (kind === 'conditional') {
+        const plugin = await scheduledTransactionService.getConditionalPlugin(transaction.pluginAddress);
+        if (action === 'edit') {
+          await plugin.updateConditionalTransaction(transaction.id, {
+            ...readEditedCall(),
+            conditions: parseConditions(editConditions),
+          });
+          setSuccess('条件交易已更新，重新开始监控');
+        } else if (action === 'execute') {
+          const txHash = await plugin.executeTransaction(transaction.id, signerPrivateKey!);
+          setSuccess(`执行成功，交易哈希: ${txHash}`);
+        } else {
+          await plugin.cancelTransaction(transaction.id, transaction.accountAddress, transaction.chainId);
+          setSuccess('条件交易已取消');
+        }
+      } else {
+        const plugin = await scheduledTransactionService.getDelayedPlugin(transaction.pluginAddress);
+        if (action === 'edit') {
+          const delaySeconds = Number(editDelaySeconds);
+          if (!Number.isInteger(delaySeconds) || delaySeconds <= 0) {
+            setError('请输入有效的延迟时间（秒）');
+            return;
+          }
+          await plugin.rescheduleTransaction(transaction.id, { ...readEditedCall(), delaySeconds }, signerPrivateKey!);
+          setSuccess('延迟交易已重新调度');
+        } else if (action === 'execute') {
+          const txHash = await plugin.executeTransaction(transaction as DelayedTransaction, signerPrivateKey!);
+          setSuccess(`执行成功，交易哈希: ${txHash}`);
+        } else {
+          const txHash = await plugin.cancelTransaction(
+            transaction.id,
+            transaction.accountAddress,
+            transaction.chainId,
+            signerPrivateKey!
+          );
+          setSuccess(`延迟交易已取消，交易哈希: ${txHash}`);
+        }
+      }
+
+      closeAction();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsSubmitting(false);
+      loadTransactions();
+    }
+  };
+
+  const handleCreateSchedule = async () => {
+    if (!currentAccount) return;
+
+    setIsCreatingSchedule(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const target = trimInputValue(scheduleTarget);
+      const targetError = validateEvmAddress(target, '目标地址');
+      if (targetError) {
+        setError(targetError);
+        return;
+      }
+      const data = trimInputValue(scheduleData) || '0x';
+      if (!isHex(data)) {
+        setError('调用数据必须是 0x 开头的十六进制');
+        return;
+      }
+      let value: bigint;
+      try {
+        value = parseEther(trimInputValue(scheduleValue) || '0');
+      } catch {
+        setError('请输入有效的转账金额');
+        return;
+      }
+      const startAt = Math.floor(new Date(scheduleStartAt).getTime() / 1000);
+      if (!Number.isFinite(startAt)) {
+        setError('请选择首次执行时间');
+        return;
+      }
+      const intervalHours = Number(scheduleIntervalHours);
+      if (!Number.isFinite(intervalHours) || intervalHours < 0) {
+        setError('请输入有效的执行间隔（小时）');
+        return;
+      }
+      const maxAmountText = trimInputValue(scheduleMaxAmount);
+      if (maxAmountText && !/^\d+$/.test(maxAmountText)) {
+        setError('转出总额上限必须是整数（代币最小单位）');
+        return;
+      }
+      const passwordValue = trimInputValue(schedulePassword);
+      if (!passwordValue) {
+        setError('请输入密码以解锁私钥');
+        return;
+      }
+      const ownerPrivateKey = await keyManagerService.getPrivateKey(currentAccount.owner as Address, passwordValue);
+      if (!ownerPrivateKey) {
+        setError('无法获取签名者私钥，请检查密码');
+        return;
+      }
+
+      const schedule = await scheduledExecutorService.createSchedule(
+        {
+          accountAddress: currentAccount.address as Address,
+          chainId: currentChainId,
+          label: trimInputValue(scheduleLabel) || '定时交易',
+          target: target as Address,
+          value,
+          data: data as Hex,
+          startAt,
+          interval: Math.round(intervalHours * 3600),
+          count: Number(scheduleCount),
+          maxAmount: maxAmountText ? BigInt(maxAmountText) : undefined,
+        },
+        ownerPrivateKey
+      );
+      setSuccess(`调度已创建，交易哈希: ${schedule.txHash}`);
+      setSchedulePassword('');
+      await loadExecutorSchedules();
+    } catch (err) {
+      setError(ErrorHandler.handleAndShow(err));
+    } finally {
+      setIsCreatingSchedule(false);
+    }
+  };
+
+  const renderCall = (transaction: ConditionalTransaction | DelayedTransaction) => (
+    <>
+      <TaskInfo>目标地址: {transaction.config.target}</TaskInfo>
+      <TaskInfo>转账金额: {formatEther(transaction.config.value)}</TaskInfo>
+      <TaskInfo>调用数据: {transaction.config.data}</TaskInfo>
+      <TaskInfo>创建时间: {formatDate(transaction.createdAt)}</TaskInfo>
+      {transaction.txHash && <TaskInfo>最近交易: {transaction.txHash}</TaskInfo>}
+      {transaction.error && <ErrorMessage>执行失败: {transaction.error}</ErrorMessage>}
+    </>
+  );
+
+  return (
+    <Container>
+      <Title>定时 / 条件交易</Title>
+
+      {error && !actionTarget && <ErrorMessage>{error}</ErrorMessage>}
+      {success && <SuccessMessage>{success}</SuccessMessage>}
+
+      <Card>
+        <SectionTitle>条件交易</SectionTitle>
+        {conditionalTransactions.length === 0 ? (
+          <EmptyState>暂无条件交易</EmptyState>
+        ) : (
+          conditionalTransactions.map((transaction) => (
+            <TaskItem key={transaction.id}>
+              <TaskHeader>
+                <TaskId>交易 ID: {transaction.id}</TaskId>
+                <StatusBadge status={transaction.status}>
+                  {STATUS_TEXT[transaction.status] || transaction.status}
+                </StatusBadge>
+              </TaskHeader>
+              {renderCall(transaction)}
+              <TaskInfo>
+                条件:{' '}
+                {transaction.config.conditions.map(describeCondition).join('；')}
+              </TaskInfo>
+              <StatusHistory history={transaction.history} />
+              <div style={{ marginTop: '12px' }}>
+                {(transaction.status === 'ready' || transaction.status === 'failed') && (
+                  <Button onClick={() => openAction('conditional', 'execute', transaction)}>执行</Button>
+                )}
+                {transaction.status !== 'executed' && transaction.status !== 'cancelled' && (
+                  <>
+                    <Button onClick={() => openAction('conditional', 'edit', transaction)}>编辑</Button>
+                    <DangerButton onClick={() => openAction('conditional', 'cancel', transaction)}>取消</DangerButton>
+                  </>
+                )}
+              </div>
+            </TaskItem>
+          ))
+        )}
+      </Card>
+
+      <Card>
+        <SectionTitle>延迟交易</SectionTitle>
+        {delayedTransactions.length === 0 ? (
+          <EmptyState>暂无延迟交易</EmptyState>
+        ) : (
+          delayedTransactions.map((transaction) => (
+            <TaskItem key={transaction.id}>
+              <TaskHeader>
+                <TaskId>交易 ID: {transaction.id}</TaskId>
+                <StatusBadge status={transaction.status}>
+                  {STATUS_TEXT[transaction.status] || transaction.status}
+                </StatusBadge>
+              </TaskHeader>
+              {renderCall(transaction)}
+              <TaskInfo>计划执行时间: {formatDate(transaction.scheduledAt)}</TaskInfo>
+              {transaction.executedAt && <TaskInfo>执行时间: {formatDate(transaction.executedAt)}</TaskInfo>}
+              <StatusHistory history={transaction.history} />
+              <div style={{ marginTop: '12px' }}>
+                {((transaction.status === 'scheduled' && transaction.scheduledAt <= Date.now()) ||
+                  transaction.status === 'failed') && (
+                  <Button onClick={() => openAction('delayed', 'execute', transaction)}>执行</Button>
+                )}
+                {(transaction.status === 'scheduled' || transaction.status === 'failed') && (
+                  <>
+                    <Button onClick={() => openAction('delayed', 'edit', transaction)}>编辑</Button>
+                    <DangerButton onClick={() => openAction('delayed', 'cancel', transaction)}>取消</DangerButton>
+                  </>
+                )}
+              </div>
+            </TaskItem>
+          ))
+        )}
+      </Card>
+
+      <Card>
+        <SectionTitle>链上定时执行</SectionTitle>
+        <TaskInfo>
+          通过执行器模块预先授权，到期后任何 keeper 都可以触发执行，无需打开钱包。执行间隔为 0 且次数为 1 时为单次延迟交易。
+        </TaskInfo>
+        <Input
+          type="text"
+          placeholder="名称（如：每月订阅）"
+          value={scheduleLabel}
+          onChange={(e) => setScheduleLabel(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="text"
+          placeholder="目标地址"
+          value={scheduleTarget}
+          onChange={(e) => setScheduleTarget(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="text"
+          placeholder="每次转账金额"
+          value={scheduleValue}
+          onChange={(e) => setScheduleValue(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="text"
+          placeholder="调用数据（0x...，可选）"
+          value={scheduleData}
+          onChange={(e) => setScheduleData(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="datetime-local"
+          value={scheduleStartAt}
+          onChange={(e) => setScheduleStartAt(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="执行间隔（小时）"
+          value={scheduleIntervalHours}
+          onChange={(e) => setScheduleIntervalHours(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="number"
+          min="1"
+          max={MAX_SCHEDULE_COUNT}
+          placeholder="执行次数"
+          value={scheduleCount}
+          onChange={(e) => setScheduleCount(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="text"
+          placeholder="转出总额上限（代币最小单位，留空为每次转出 × 次数）"
+          value={scheduleMaxAmount}
+          onChange={(e) => setScheduleMaxAmount(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Input
+          type="password"
+          placeholder="请输入密码以解锁私钥"
+          value={schedulePassword}
+          onChange={(e) => setSchedulePassword(e.target.value)}
+          disabled={isCreatingSchedule}
+        />
+        <Button onClick={handleCreateSchedule} disabled={isCreatingSchedule}>
+          {isCreatingSchedule ? '创建中...' : '创建调度'}
+        </Button>
+      </Card>
+
+      <Card>
+        <SectionTitle>链上调度</SectionTitle>
+        {executorSchedules.length === 0 ? (
+          <EmptyState>暂无链上调度</EmptyState>
+        ) : (
+          executorSchedules.map(({ schedule, status, statusError }) => (
+            <TaskItem key={schedule.id}>
+              <TaskHeader>
+                <TaskId>{schedule.label}</TaskId>
+                {status && (
+                  <StatusBadge status={status.state}>{STATUS_TEXT[status.state] || status.state}</StatusBadge>
+                )}
+              </TaskHeader>
+              <TaskInfo>调度 ID: {schedule.id}</TaskInfo>
+              <TaskInfo>目标地址: {schedule.target}</TaskInfo>
+              <TaskInfo>每次转账金额: {formatEther(schedule.value)}</TaskInfo>
+              <TaskInfo>调用数据: {schedule.data}</TaskInfo>
+              <TaskInfo>
+                首次执行: {formatDate(schedule.startAt * 1000)}
+                {schedule.interval > 0 && `，每 ${schedule.interval / 3600} 小时`}，共 {schedule.count} 次
+              </TaskInfo>
+              <TaskInfo>
+                转出上限: {schedule.maxAmount.toString()}（{schedule.token}）
+              </TaskInfo>
+              {status && (
+                <>
+                  <TaskInfo>
+                    已执行 {status.executedCount} 次，剩余 {status.remainingCount} 次，已转出 {status.spent.toString()}
+                  </TaskInfo>
+                  {status.lastExecutedAt > 0 && <TaskInfo>上次执行: {formatDate(status.lastExecutedAt * 1000)}</TaskInfo>}
+                  {status.nextExecutionAt && <TaskInfo>下次可执行: {formatDate(status.nextExecutionAt * 1000)}</TaskInfo>}
+                </>
+              )}
+              {statusError && <ErrorMessage>无法读取链上状态: {statusError}</ErrorMessage>}
+              <TaskInfo>创建交易: {schedule.txHash}</TaskInfo>
+              {schedule.cancelTxHash && <TaskInfo>取消交易: {schedule.cancelTxHash}</TaskInfo>}
+              <div style={{ marginTop: '12px' }}>
+                {status?.state === 'due' && (
+                  <Button onClick={() => openExecutorAction('execute', schedule)}>立即触发</Button>
+                )}
+                {!schedule.cancelTxHash && (status?.state === 'waiting' || status?.state === 'due') && (
+                  <DangerButton onClick={() => openExecutorAction('cancel', schedule)}>取消</DangerButton>
+                )}
+              </div>
+            </TaskItem>
+          ))
+        )}
+        <Button onClick={() => loadExecutorSchedules().catch((err) => setError(ErrorHandler.handleAndShow(err)))}>
+          刷新链上状态
+        </Button>
+      </Card>
+
+      {actionTarget && (
+        <Modal onClick={closeAction}>
+          <ModalContent onClick={(e) => e.stopPropagation()}>
+            <SectionTitle>
+              {actionTarget.kind === 'executor' && actionTarget.action === 'execute'
+                ? '触发调度'
+                : ACTION_TITLES[actionTarget.action]}
+            </SectionTitle>
+            {actionTarget.action === 'edit' && (
+              <>
+                <Input
+                  type="text"
+                  placeholder="目标地址"
+                  value={editTarget}
+                  onChange={(e) => setEditTarget(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Input
+                  type="text"
+                  placeholder="转账金额"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Input
+                  type="text"
+                  placeholder="调用数据（0x...）"
+                  value={editData}
+                  onChange={(e) => setEditData(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                {actionTarget.kind === 'delayed' ? (
+                  <Input
+                    type="number"
+                    placeholder="延迟时间（秒，从现在开始计算）"
+                    value={editDelaySeconds}
+                    onChange={(e) => setEditDelaySeconds(e.target.value)}
+                    disabled={isSubmitting}
+                  />
+                ) : (
+                  <TextArea
+                    placeholder="条件（JSON 数组）"
+                    value={editConditions}
+                    onChange={(e) => setEditConditions(e.target.value)}
+                    disabled={isSubmitting}
+                  />
+                )}
+              </>
+            )}
+            {actionTarget.action === 'cancel' && (
+              <TaskInfo>
+                {actionTarget.kind === 'conditional'
+                  ? '将停止监控该条件交易，取消后不可恢复'
+                  : '将调用合约取消该调度，取消后不可恢复'}
+              </TaskInfo>
+            )}
+            {requiresSigner(actionTarget) && (
+              <Input
+                type="password"
+                placeholder="请输入密码以解锁私钥"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isSubmitting}
+              />
+            )}
+            {error && <ErrorMessage>{error}</ErrorMessage>}
+            <div style={{ display: 'flex', gap: '12px' }}>
+              <Button onClick={handleSubmit} disabled={isSubmitting}>
+                {isSubmitting ? '提交中...' : '确认'}
+              </Button>
+              <Button onClick={closeAction} style={{ background: '#999' }}>
+                关闭
+              </Button>
+            </div>
+          </ModalContent>
+        </Modal>
+      )}
+    </Container>
+  );
+});
@@ -13,9 +13,23 @@ import { transactionRelayer, FallbackModeError } from '@/services/TransactionRel
 import { tokenService, TokenInfo } from '@/services/TokenService';
 import { keyManagerService } from '@/services/KeyManagerService';
 import { ErrorHandler } from '@/utils/errors';
-import { encodeFunctionData, parseAbi } from 'viem';
+import { encodeFunctionData, formatUnits, parseAbi } from 'viem';
 import type { UserOperation } from '@/utils/kernel-types';
 import { FallbackModeDialog } from '@/components/FallbackModeDialog';
+import { FeeTierSelector } from '@/components/FeeTierSelector';
+import { AssetChangePreview } from '@/components/AssetChangePreview';
+import {
+  transactionSimulationService,
+  type TransactionSimulationResult,
+} from '@/services/TransactionSimulationService';
+import {
+  feeOracleService,
+  DEFAULT_FEE_TIER,
+  FEE_TIER_LABELS,
+  type FeeEstimate,
+  type FeeTier,
+} from '@/services/FeeOracleService';
+import { tokenPaymasterService, type GasToken, type GasTokenFee } from '@/services/TokenPaymasterService';
 import { rpcClientManager } from '@/utils/RpcClientManager';
 import { getChainNativeSymbol, requireChainConfig } from '@/utils/chainConfigValidation';
 import { parsePositiveAmountToUnits, validateEvmAddress } from '@/utils/pathFlowValidation';
@@ -112,10 +126,6 @@ const GasSettings = styled.div`
   border-top: 1px solid #e0e0e0;
 `;
 
-const GasInput = styled(Input)`
-  margin-bottom: 8px;
-`;
-
 const InfoText = styled.p`
   font-size: 12px;
   color: #666;
@@ -166,18 +176,27 @@ export const SendTransactionPage = observer(() => {
   const [selectedToken, setSelectedToken] = useState<'native' | string>('native');
   const [tokens, setTokens] = useState<TokenInfo[]>([]);
   const [showGasSettings, setShowGasSettings] = useState(false);
-  const [maxFeePerGas, setMaxFeePerGas] = useState('');
-  const [maxPriorityFeePerGas, setMaxPriorityFeePerGas] = useState('');
+  const [feeTier, setFeeTier] = useState<FeeTier>(DEFAULT_FEE_TIER);
+  const [feeEstimate, setFeeEstimate] = useState<FeeEstimate | null>(null);
+  const [isLoadingFees, setIsLoadingFees] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [isPreviewing, setIsPreviewing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [password, setPassword] = useState('');
   const [showPasswordInput, setShowPasswordInput] = useState(false);
-  const [preview, setPreview] = useState<{ userOp: UserOperation; estimatedFee: bigint } | null>(null);
+  const [gasTokens, setGasTokens] = useState<GasToken[]>([]);
+  const [gasToken, setGasToken] = useState<'native' | string>('native');
+  const [preview, setPreview] = useState<{
+    userOp: UserOperation;
+    estimatedFee: bigint;
+    tokenFee?: GasTokenFee;
+  } | null>(null);
+  const [simulation, setSimulation] = useState<TransactionSimulationResult | null>(null);
   const [showFallbackDialog, setShowFallbackDialog] = useState(false);
   const [fallbackEstimatedGas, setFallbackEstimatedGas] = useState(0n);
   const [fallbackGasPrice, setFallbackGasPrice] = useState(0n);
   const [fallbackAccountBalance, setFallbackAccountBalance] = useState(0n);
+  const [fallbackIncludesDeployment, setFallbackIncludesDeployment] = useState(false);
   const [pendingTransaction, setPendingTransaction] =
     useState<PendingFallbackTransaction | null>(null);
   const nativeSymbol = getChainNativeSymbol(accountStore.currentChainId, 'ETH');
@@ -185,10 +204,25 @@ export const SendTransactionPage = observer(() => {
   useEffect(() => {
     // 表单变化时清理预览，避免展示过期数据
     setPreview(null);
+    setSimulation(null);
   }, [to, amount, selectedToken, accountStore.currentAccount]);
 
+  useEffect(() => {
+    // 切换档位或 Gas 支付代币后预览中的费用已过期
+    setPreview(null);
+  }, [feeTier, gasToken]);
+
+  useEffect(() => {
+    if (showGasSettings) {
+      loadFeeEstimate();
+    }
+    // 仅在展开 Gas 设置或切换账户时刷新费用估算
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showGasSettings, accountStore.currentAccount]);
+
   useEffect(() => {
     loadTokens();
+    loadGasTokens();
     // 仅在当前账户切换时加载代币列表
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [accountStore.currentAccount]);
@@ -204,6 +238,35 @@ export const SendTransactionPage = observer(() => {
     }
   };
 
+  const loadGasTokens = async () => {
+    setGasToken('native');
+    if (!accountStore.currentAccount) {
+      setGasTokens([]);
+      return;
+    }
+
+    try {
+      setGasTokens(await tokenPaymasterService.getGasTokens(accountStore.currentAccount.chainId));
+    } catch (error) {
+      setGasTokens([]);
+      console.error('加载 Gas 支付代币失败:', error);
+    }
+  };
+
+  const loadFeeEstimate = async () => {
+    if (!accountStore.currentAccount) return;
+
+    setIsLoadingFees(true);
+    try {
+      setFeeEstimate(await feeOracleService.getFeeEstimate(accountStore.currentAccount.chainId));
+    } catch (error) {
+      setFeeEstimate(null);
+      console.error('Gas 费估算失败:', error);
+    } finally {
+      setIsLoadingFees(false);
+    }
+  };
+
   const buildTransactionPayload = () => {
     if (!accountStore.currentAccount) {
       throw new Error('请先选择账户');
@@ -254,17 +317,33 @@ export const SendTransactionPage = observer(() => {
 
     try {
       const { target, callData, value } = buildTransactionPayload();
+      const accountAddress = accountStore.currentAccount.address as `0x${string}`;
+      const chainId = accountStore.currentAccount.chainId;
+
+      // 先模拟执行：回滚的交易不再估算 Gas
+      const simulationResult = await transactionSimulationService.simulate(accountAddress, chainId, [
+        { to: target, data: callData as `0x${string}`, value },
+      ]);
+      setSimulation(simulationResult);
+      if (!simulationResult.success) {
+        setPreview(null);
+        return;
+      }
+
       const result = await transactionRelayer.previewTransaction(
-        accountStore.currentAccount.address as `0x${string}`,
-        accountStore.currentAccount.chainId,
+        accountAddress,
+        chainId,
         target,
         callData,
-        value
+        value,
+        feeTier,
+        gasToken === 'native' ? undefined : (gasToken as `0x${string}`)
       );
       setPreview(result);
       setShowPasswordInput(false);
     } catch (err) {
       setPreview(null);
+      setSimulation(null);
       setError(ErrorHandler.handleAndShow(err));
     } finally {
       setIsPreviewing(false);
@@ -287,6 +366,20 @@ export const SendTransactionPage = observer(() => {
         throw new Error('请先选择账户');
       }
 
+      // 签名前模拟执行，会回滚的交易不解锁私钥、不签名
+      const payload = buildTransactionPayload();
+      const simulationResult = await transactionSimulationService.simulate(
+        accountStore.currentAccount.address as `0x${string}`,
+        accountStore.currentAccount.chainId,
+        [{ to: payload.target, data: payload.callData as `0x${string}`, value: payload.value }]
+      );
+      setSimulation(simulationResult);
+      if (!simulationResult.success) {
+        setError(`交易模拟失败：${simulationResult.revertReason || '执行回滚'}`);
+        setIsSending(false);
+        return;
+      }
+
       // 从安全存储获取签名者私钥
       const ownerAddress = accountStore.currentAccount.owner as `0x${string}`;
       const signerPrivateKey = await keyManagerService.getPrivateKey(ownerAddress, passwordValue);
@@ -298,7 +391,7 @@ export const SendTransactionPage = observer(() => {
         return;
       }
 
-      const { target, callData, value, recipient } = buildTransactionPayload();
+      const { target, callData, value, recipient } = payload;
       const historyTo = selectedToken === 'native' ? recipient : selectedToken;
       const historyValue = selectedToken === 'native' ? value : BigInt(0);
       const historyType: 'transfer' | 'contract' = selectedToken === 'native' ? 'transfer' : 'contract';
@@ -311,7 +404,9 @@ export const SendTransactionPage = observer(() => {
           target,
           callData,
           signerPrivateKey as `0x${string}`,
-          value
+          value,
+          undefined,
+          { feeTier, gasToken: gasToken === 'native' ? undefined : (gasToken as `0x${string}`) }
         );
 
         // 记录交易历史
@@ -370,6 +465,7 @@ export const SendTransactionPage = observer(() => {
           setFallbackEstimatedGas(fallbackError.estimatedGas);
           setFallbackGasPrice(gasPrice);
           setFallbackAccountBalance(balance);
+          setFallbackIncludesDeployment(fallbackError.includesDeployment);
           setShowFallbackDialog(true);
           setIsSending(false);
           return;
@@ -530,25 +626,33 @@ export const SendTransactionPage = observer(() => {
 
         {showGasSettings && (
           <GasSettings>
-            <Label>Max Fee Per Gas (Gwei)</Label>
-            <GasInput
-              type="text"
-              placeholder="自动估算"
-              value={maxFeePerGas}
-              onChange={(e) => setMaxFeePerGas(e.target.value)}
+            <Label>Gas 费档位</Label>
+            <FeeTierSelector
+              estimate={feeEstimate}
+              value={feeTier}
+              onChange={setFeeTier}
+              loading={isLoadingFees}
               disabled={isSending}
             />
-            <InfoText>留空将使用自动估算的 Gas 价格</InfoText>
-
-            <Label>Max Priority Fee Per Gas (Gwei)</Label>
-            <GasInput
-              type="text"
-              placeholder="自动估算"
-              value={maxPriorityFeePerGas}
-              onChange={(e) => setMaxPriorityFeePerGas(e.target.value)}
-              disabled={isSending}
-            />
-            <InfoText>留空将使用自动估算的优先费用</InfoText>
+            <InfoText>发送时按所选档位重新估算最新费用</InfoText>
+            {gasTokens.length > 0 && (
+              <>
+                <Label>Gas 支付方式</Label>
+                <Select
+                  value={gasToken}
+                  onChange={(e) => setGasToken(e.target.value)}
+                  disabled={isSending}
+                >
+                  <option value="native">{`原生代币 (${nativeSymbol})`}</option>
+                  {gasTokens.map((token) => (
+                    <option key={token.address} value={token.address}>
+                      {token.symbol}
+                    </option>
+                  ))}
+                </Select>
+                <InfoText>使用代币支付时，授权额度不足会在本次交易中一并授权本次最大扣费</InfoText>
+              </>
+            )}
           </GasSettings>
         )}
 
@@ -558,11 +662,27 @@ export const SendTransactionPage = observer(() => {
           {isPreviewing ? '预览中...' : '预览交易'}
         </Button>
 
+        {simulation && <AssetChangePreview simulation={simulation} nativeSymbol={nativeSymbol} />}
+
         {preview && (
           <PreviewBox>
             <PreviewRow>
               <span>预估费用</span>
-              <strong>{preview.estimatedFee.toString()} wei</strong>
+              <strong>
+                {preview.tokenFee
+                  ? `${formatUnits(preview.tokenFee.maxAmount, preview.tokenFee.decimals)} ${preview.tokenFee.symbol}`
+                  : `${preview.estimatedFee.toString()} wei`}
+              </strong>
+            </PreviewRow>
+            {preview.tokenFee && (
+              <PreviewRow>
+                <span>代币授权</span>
+                <span>{preview.tokenFee.includesApproval ? '本次交易附带精确额度授权' : '已有足够授权'}</span>
+              </PreviewRow>
+            )}
+            <PreviewRow>
+              <span>Gas 费档位</span>
+              <span>{FEE_TIER_LABELS[feeTier]}</span>
             </PreviewRow>
             <PreviewRow>
               <span>CallGasLimit</span>
@@ -595,6 +715,7 @@ export const SendTransactionPage = observer(() => {
         gasPrice={fallbackGasPrice}
         accountBalance={fallbackAccountBalance}
         nativeSymbol={nativeSymbol}
+        includesDeployment={fallbackIncludesDeployment}
         onConfirm={handleFallbackConfirm}
         onCancel={handleFallbackCancel}
       />
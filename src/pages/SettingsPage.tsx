@@ -11,6 +11,11 @@ import { useNavigate } from 'react-router-dom';
 import { authService } from '@/services/AuthService';
 import { settingsService } from '@/services/SettingsService';
 import { paymasterService, type PaymasterUsageRecord } from '@/services/PaymasterService';
+import { permissionService, type OriginPermission } from '@/services/PermissionService';
+import { abiRegistryService, type RegisteredAbi } from '@/services/AbiRegistryService';
+import { providerBridgeService } from '@/services/ProviderBridgeService';
+import { bundlerClient, type BundlerStatus } from '@/services/BundlerClient';
+import { ALL_CHAIN_CONFIGS } from '@/config/chains';
 import { validateRequiredFields } from '@/utils/formValidation';
 
 const Container = styled.div`
@@ -121,6 +126,23 @@ const Select = styled.select`
   }
 `;
 
+const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 120px;
+  padding: 12px;
+  border: 1px solid #e0e0e0;
+  border-radius: 8px;
+  font-family: monospace;
+  font-size: 13px;
+  margin-bottom: 16px;
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: #4c6ef5;
+  }
+`;
+
 const Checkbox = styled.input.attrs({ type: 'checkbox' })`
   width: 20px;
   height: 20px;
@@ -144,6 +166,14 @@ const Description = styled.p`
   margin-bottom: 16px;
 `;
 
+const BUNDLER_CHAINS = ALL_CHAIN_CONFIGS.filter((chain) => !!chain.entryPointAddress);
+
+const CIRCUIT_LABELS: Record<BundlerStatus['circuitState'], string> = {
+  closed: '正常',
+  open: '熔断中',
+  'half-open': '试探中',
+};
+
 export const SettingsPage = observer(() => {
   const navigate = useNavigate();
   const [oldPassword, setOldPassword] = useState('');
@@ -166,10 +196,32 @@ export const SettingsPage = observer(() => {
   const [showSecurityTips, setShowSecurityTips] = useState(true);
   const [securityTipLevel, setSecurityTipLevel] = useState<'low' | 'medium' | 'high'>('medium');
   const [isSavingSecurityTips, setIsSavingSecurityTips] = useState(false);
+  // 来源黑 / 白名单（每行一个）
+  const [originAllowlistText, setOriginAllowlistText] = useState('');
+  const [originBlocklistText, setOriginBlocklistText] = useState('');
+  const [isSavingOriginLists, setIsSavingOriginLists] = useState(false);
+
+  const [bundlerChainId, setBundlerChainId] = useState<number>(BUNDLER_CHAINS[0]?.chainId ?? 0);
+  const [bundlerEndpointsText, setBundlerEndpointsText] = useState('');
+  const [bundlerStatus, setBundlerStatus] = useState<BundlerStatus[]>([]);
+  const [isSavingBundlers, setIsSavingBundlers] = useState(false);
+  const [isCheckingBundlers, setIsCheckingBundlers] = useState(false);
   // Paymaster 历史
   const [paymasterHistory, setPaymasterHistory] = useState<PaymasterUsageRecord[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
+  // 已连接的网站
+  const [connectedSites, setConnectedSites] = useState<
+    Array<{ origin: string; permissions: OriginPermission[] }>
+  >([]);
+  const [revokingOrigin, setRevokingOrigin] = useState<string | null>(null);
+
+  // 用户注册的合约 ABI
+  const [registeredAbis, setRegisteredAbis] = useState<RegisteredAbi[]>([]);
+  const [abiName, setAbiName] = useState('');
+  const [abiAddress, setAbiAddress] = useState('');
+  const [abiText, setAbiText] = useState('');
+
   // 加载设置
   useEffect(() => {
     const loadSettings = async () => {
@@ -180,6 +232,8 @@ export const SettingsPage = observer(() => {
         setPaymasterStrategy(settings.paymasterStrategy);
         setShowSecurityTips(settings.showSecurityTips);
         setSecurityTipLevel(settings.securityTipLevel);
+        setOriginAllowlistText((settings.originAllowlist ?? []).join('\n'));
+        setOriginBlocklistText((settings.originBlocklist ?? []).join('\n'));
       } catch (err) {
         console.error('加载设置失败:', err);
       }
@@ -191,6 +245,79 @@ export const SettingsPage = observer(() => {
     refreshPaymasterHistory();
   }, []);
 
+  useEffect(() => {
+    refreshConnectedSites();
+  }, []);
+
+  useEffect(() => {
+    setRegisteredAbis(abiRegistryService.getRegisteredAbis());
+  }, []);
+
+  useEffect(() => {
+    if (!bundlerChainId) return;
+    const loadBundlers = async () => {
+      try {
+        const endpoints = await settingsService.getBundlerEndpoints(bundlerChainId);
+        setBundlerEndpointsText(endpoints.join('\n'));
+        await bundlerClient.configureChain(bundlerChainId);
+        setBundlerStatus(bundlerClient.getBundlerStatus(bundlerChainId));
+      } catch (err) {
+        console.error('加载 Bundler 配置失败:', err);
+      }
+    };
+    loadBundlers();
+  }, [bundlerChainId]);
+
+  const handleRegisterAbi = async () => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const entry = await abiRegistryService.registerAbi({
+        name: abiName,
+        abi: abiText,
+        address: abiAddress.trim() || undefined,
+      });
+      setSuccess(`已注册 ABI：${entry.name}`);
+      setAbiName('');
+      setAbiAddress('');
+      setAbiText('');
+      setRegisteredAbis(abiRegistryService.getRegisteredAbis());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '注册 ABI 失败');
+    }
+  };
+
+  const handleRemoveAbi = async (id: string) => {
+    await abiRegistryService.removeAbi(id);
+    setRegisteredAbis(abiRegistryService.getRegisteredAbis());
+  };
+
+  const refreshConnectedSites = async () => {
+    try {
+      setConnectedSites(await permissionService.getConnectedSites());
+    } catch (error) {
+      console.error('加载已连接网站失败:', error);
+    }
+  };
+
+  const handleRevokeSite = async (origin: string) => {
+    setRevokingOrigin(origin);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      // 经桥接服务撤销，已连接的 DApp 窗口会收到 accountsChanged([])
+      await providerBridgeService.revokeOrigin(origin);
+      setSuccess(`已断开 ${origin} 的连接`);
+      await refreshConnectedSites();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '断开连接失败');
+    } finally {
+      setRevokingOrigin(null);
+    }
+  };
+
   const refreshPaymasterHistory = async () => {
     setIsLoadingHistory(true);
     try {
@@ -307,6 +434,59 @@ export const SettingsPage = observer(() => {
     }
   };
 
+  const handleSaveOriginLists = async () => {
+    setIsSavingOriginLists(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await settingsService.setOriginLists(originAllowlistText.split('\n'), originBlocklistText.split('\n'));
+      const lists = await settingsService.getOriginLists();
+      setOriginAllowlistText(lists.allowlist.join('\n'));
+      setOriginBlocklistText(lists.blocklist.join('\n'));
+      setSuccess('来源名单已更新');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setIsSavingOriginLists(false);
+    }
+  };
+
+  const handleSaveBundlers = async () => {
+    setIsSavingBundlers(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await settingsService.setBundlerEndpoints(bundlerChainId, bundlerEndpointsText.split('\n'));
+      const endpoints = await settingsService.getBundlerEndpoints(bundlerChainId);
+      setBundlerEndpointsText(endpoints.join('\n'));
+      await bundlerClient.configureChain(bundlerChainId);
+      setBundlerStatus(bundlerClient.getBundlerStatus(bundlerChainId));
+      setSuccess('Bundler 节点已更新');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setIsSavingBundlers(false);
+    }
+  };
+
+  const handleCheckBundlers = async () => {
+    setIsCheckingBundlers(true);
+    setError(null);
+
+    try {
+      await bundlerClient.configureChain(bundlerChainId);
+      setBundlerStatus(await bundlerClient.refreshHealth(bundlerChainId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '检测失败');
+    } finally {
+      setIsCheckingBundlers(false);
+    }
+  };
+
+  const bundlerEntryPoint = BUNDLER_CHAINS.find((chain) => chain.chainId === bundlerChainId)?.entryPointAddress;
+
   return (
     <Container>
       <Title>设置</Title>
@@ -447,6 +627,169 @@ export const SettingsPage = observer(() => {
         ))}
       </Card>
 
+      <Card>
+        <SectionTitle>来源黑白名单</SectionTitle>
+        <Description>
+          每行一个，支持完整来源（https://app.example）、主机名或 *.example 通配。黑名单来源的请求会被标记为高风险，白名单条目优先于黑名单。
+        </Description>
+        <Label>受信任来源</Label>
+        <TextArea
+          value={originAllowlistText}
+          onChange={(e) => setOriginAllowlistText(e.target.value)}
+          placeholder="https://app.uniswap.org"
+        />
+        <Label>拦截来源</Label>
+        <TextArea
+          value={originBlocklistText}
+          onChange={(e) => setOriginBlocklistText(e.target.value)}
+          placeholder="*.phishing.example"
+        />
+        <Button onClick={handleSaveOriginLists} disabled={isSavingOriginLists}>
+          {isSavingOriginLists ? '保存中...' : '保存名单'}
+        </Button>
+      </Card>
+
+      <Card>
+        <SectionTitle>Bundler 节点</SectionTitle>
+        <Description>
+          链配置中的 Bundler 之外，可为每条链添加备用节点（每行一个）。发送交易时按健康分选择节点，故障时自动切换；连续失败的节点会暂停使用一段时间，不支持该链 EntryPoint 的节点不会被选用。
+        </Description>
+        <Label>链</Label>
+        <Select value={bundlerChainId} onChange={(e) => setBundlerChainId(Number(e.target.value))}>
+          {BUNDLER_CHAINS.map((chain) => (
+            <option key={chain.chainId} value={chain.chainId}>
+              {chain.name}
+            </option>
+          ))}
+        </Select>
+        <Label>自定义节点</Label>
+        <TextArea
+          value={bundlerEndpointsText}
+          onChange={(e) => setBundlerEndpointsText(e.target.value)}
+          placeholder="https://bundler.example.com/rpc"
+        />
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <Button onClick={handleSaveBundlers} disabled={isSavingBundlers}>
+            {isSavingBundlers ? '保存中...' : '保存节点'}
+          </Button>
+          <Button onClick={handleCheckBundlers} disabled={isCheckingBundlers}>
+            {isCheckingBundlers ? '检测中...' : '检测健康状态'}
+          </Button>
+        </div>
+
+        {bundlerStatus.length === 0 && (
+          <Description style={{ marginTop: '12px' }}>该链尚未配置 Bundler</Description>
+        )}
+
+        {bundlerStatus.map((status) => (
+          <div
+            key={status.url}
+            style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              padding: '12px',
+              marginTop: '12px',
+              fontSize: '13px',
+              wordBreak: 'break-all',
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '6px' }}>{status.url}</div>
+            <div>
+              健康分：{status.score}
+              {status.latencyMs !== undefined && `（平均延迟 ${status.latencyMs}ms）`}
+            </div>
+            <div>
+              状态：{CIRCUIT_LABELS[status.circuitState]}
+              {status.circuitState === 'open' && status.circuitOpenUntil &&
+                `，${new Date(status.circuitOpenUntil).toLocaleTimeString()} 后重试`}
+            </div>
+            {status.supportedEntryPoints && bundlerEntryPoint && (
+              <div>
+                EntryPoint：
+                {status.supportedEntryPoints.includes(bundlerEntryPoint.toLowerCase()) ? '支持' : '不支持，已跳过'}
+              </div>
+            )}
+            {status.lastError && <div style={{ color: '#e03131' }}>最近错误：{status.lastError}</div>}
+          </div>
+        ))}
+      </Card>
+
+      <Card>
+        <SectionTitle>已连接的网站</SectionTitle>
+        <Description>以下网站已获得读取账户地址的授权，断开后需重新确认连接。</Description>
+
+        {connectedSites.length === 0 && (
+          <Description style={{ marginTop: '12px' }}>暂无已连接的网站</Description>
+        )}
+
+        {connectedSites.map((site) => (
+          <div
+            key={site.origin}
+            style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              padding: '12px',
+              marginTop: '12px',
+              fontSize: '13px',
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '6px' }}>{site.origin}</div>
+            <div>权限：{site.permissions.map((permission) => permission.parentCapability).join(', ')}</div>
+            <div>
+              授权时间：
+              {new Date(Math.max(...site.permissions.map((permission) => permission.date))).toLocaleString()}
+            </div>
+            <DangerButton
+              style={{ marginTop: '12px', marginBottom: 0 }}
+              onClick={() => handleRevokeSite(site.origin)}
+              disabled={revokingOrigin === site.origin}
+            >
+              {revokingOrigin === site.origin ? '断开中...' : '断开连接'}
+            </DangerButton>
+          </div>
+        ))}
+      </Card>
+
+      <Card>
+        <SectionTitle>合约 ABI</SectionTitle>
+        <Description>
+          为自有合约注册 ABI 后，交易确认与交易历史会展示解码后的方法和参数。支持 JSON ABI 或每行一个的函数签名。
+        </Description>
+        <Label>名称</Label>
+        <Input value={abiName} onChange={(e) => setAbiName(e.target.value)} placeholder="例如：My Vault" />
+        <Label>合约地址（可选，留空对所有合约生效）</Label>
+        <Input value={abiAddress} onChange={(e) => setAbiAddress(e.target.value)} placeholder="0x..." />
+        <Label>ABI</Label>
+        <TextArea
+          value={abiText}
+          onChange={(e) => setAbiText(e.target.value)}
+          placeholder="function deposit(uint256 amount)"
+        />
+        <Button onClick={handleRegisterAbi} disabled={!abiName.trim() || !abiText.trim()}>
+          注册 ABI
+        </Button>
+
+        {registeredAbis.map((entry) => (
+          <div
+            key={entry.id}
+            style={{
+              border: '1px solid #e0e0e0',
+              borderRadius: '8px',
+              padding: '12px',
+              marginTop: '12px',
+              fontSize: '13px',
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: '6px' }}>{entry.name}</div>
+            <div>合约：{entry.address || '所有合约'}</div>
+            <div>条目：{entry.abi.filter((item) => item.type === 'function' || item.type === 'event').length}</div>
+            <DangerButton style={{ marginTop: '12px', marginBottom: 0 }} onClick={() => handleRemoveAbi(entry.id)}>
+              删除
+            </DangerButton>
+          </div>
+        ))}
+      </Card>
+
       <Card>
         <SectionTitle>账户</SectionTitle>
         <DangerButton onClick={handleLogout}>登出</DangerButton>
@@ -9,7 +9,33 @@ import styled from 'styled-components';
 import { observer } from 'mobx-react-lite';
 import { useStore } from '@/stores';
 import { transactionHistoryService, TransactionHistory } from '@/services/TransactionHistoryService';
-import { formatUnits } from 'viem';
+import { abiRegistryService } from '@/services/AbiRegistryService';
+import { DecodedCallView } from '@/components/DecodedCallView';
+import { WALLET_OP_EVENT_PREFIX, userOperationTracker } from '@/services/UserOperationTracker';
+import { transactionRelayer } from '@/services/TransactionRelayer';
+import { isRootValidationNonce } from '@/services/NonceManager';
+import { getAccountOwnerPrivateKey } from '@/utils/getPrivateKey';
+import { ErrorHandler } from '@/utils/errors';
+import { formatUnits, type Address, type Hash, type Hex } from 'viem';
+
+const STATUS_LABELS: Record<TransactionHistory['status'], string> = {
+  pending: '待确认',
+  success: '成功',
+  failed: '失败',
+  dropped: '已丢弃',
+  timeout: '超时',
+  cancelled: '已取消',
+};
+
+const REPLACEMENT_LABELS: Record<NonNullable<TransactionHistory['replacement']>, string> = {
+  speedUp: '已加速',
+  cancel: '取消中',
+};
+
+/** UserOperation 状态变化时刷新列表 */
+const WALLET_OP_REFRESH_EVENTS = ['included', 'confirmed', 'failed', 'dropped', 'timeout'].map(
+  (status) => `${WALLET_OP_EVENT_PREFIX}${status}`
+);
 
 const Container = styled.div`
   max-width: 1200px;
@@ -76,6 +102,7 @@ const StatusBadge = styled.span<{ status: TransactionHistory['status'] }>`
       case 'pending':
         return '#fff3bf';
       case 'failed':
+      case 'dropped':
         return '#ffe3e3';
       default:
         return '#e0e0e0';
@@ -88,6 +115,7 @@ const StatusBadge = styled.span<{ status: TransactionHistory['status'] }>`
       case 'pending':
         return '#f59f00';
       case 'failed':
+      case 'dropped':
         return '#e03131';
       default:
         return '#666';
@@ -95,6 +123,28 @@ const StatusBadge = styled.span<{ status: TransactionHistory['status'] }>`
   }};
 `;
 
+const ActionButton = styled.button`
+  padding: 4px 10px;
+  margin-right: 6px;
+  border: 1px solid #4c6ef5;
+  border-radius: 4px;
+  background: #ffffff;
+  color: #4c6ef5;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Note = styled.div`
+  margin-top: 4px;
+  font-size: 12px;
+  color: #868e96;
+`;
+
 const EmptyState = styled.div`
   text-align: center;
   padding: 48px;
@@ -105,6 +155,7 @@ export const TransactionHistoryPage = observer(() => {
   const { accountStore } = useStore();
   const [transactions, setTransactions] = useState<TransactionHistory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [replacingHash, setReplacingHash] = useState<string | null>(null);
 
   useEffect(() => {
     loadTransactions();
@@ -112,8 +163,21 @@ export const TransactionHistoryPage = observer(() => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [accountStore.currentAccount]);
 
-  const loadTransactions = async () => {
-    setIsLoading(true);
+  useEffect(() => {
+    const handleWalletOp = () => {
+      void loadTransactions(true);
+    };
+    WALLET_OP_REFRESH_EVENTS.forEach((eventName) => window.addEventListener(eventName, handleWalletOp));
+    return () => {
+      WALLET_OP_REFRESH_EVENTS.forEach((eventName) => window.removeEventListener(eventName, handleWalletOp));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accountStore.currentAccount]);
+
+  const loadTransactions = async (silent = false) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
     try {
       const txs = await transactionHistoryService.getTransactions({
         accountAddress: accountStore.currentAccountAddress || undefined,
@@ -128,6 +192,41 @@ export const TransactionHistoryPage = observer(() => {
     }
   };
 
+  /**
+   * 仍在 Bundler 内存池中、由 owner 签名的 UserOperation 可以加速或取消（会话密钥等验证器签名的操作不能以 owner 重签）
+   */
+  const canReplace = (tx: TransactionHistory) => {
+    const operation = userOperationTracker.getOperation(tx.hash);
+    return (
+      tx.status === 'pending' &&
+      operation?.status === 'submitted' &&
+      !!operation.userOperation &&
+      !operation.validator &&
+      isRootValidationNonce(operation.userOperation.nonce)
+    );
+  };
+
+  const handleReplace = async (tx: TransactionHistory, kind: 'speedUp' | 'cancel') => {
+    if (kind === 'cancel' && !confirm('确定要取消此交易吗？取消操作同样需要支付 Gas 费。')) {
+      return;
+    }
+
+    setReplacingHash(tx.hash);
+    try {
+      const ownerPrivateKey = await getAccountOwnerPrivateKey(tx.from as Address, tx.chainId);
+      const newHash =
+        kind === 'speedUp'
+          ? await transactionRelayer.speedUpUserOperation(tx.hash as Hash, ownerPrivateKey)
+          : await transactionRelayer.cancelUserOperation(tx.hash as Hash, ownerPrivateKey);
+      ErrorHandler.showSuccess(`${kind === 'speedUp' ? '加速' : '取消'}交易已发送，新哈希: ${newHash}`);
+      await loadTransactions(true);
+    } catch (error) {
+      ErrorHandler.handleAndShow(error);
+    } finally {
+      setReplacingHash(null);
+    }
+  };
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
@@ -169,8 +268,10 @@ export const TransactionHistoryPage = observer(() => {
               <TableHeaderCell>状态</TableHeaderCell>
               <TableHeaderCell>发送方</TableHeaderCell>
               <TableHeaderCell>接收方</TableHeaderCell>
+              <TableHeaderCell>方法</TableHeaderCell>
               <TableHeaderCell>金额</TableHeaderCell>
               <TableHeaderCell>时间</TableHeaderCell>
+              <TableHeaderCell>操作</TableHeaderCell>
             </TableRow>
           </TableHeader>
           <tbody>
@@ -178,7 +279,7 @@ export const TransactionHistoryPage = observer(() => {
               <TableRow key={tx.hash}>
                 <TableCell>
                   <a
-                    href={`https://explorer.mantle.xyz/tx/${tx.hash}`}
+                    href={`https://explorer.mantle.xyz/tx/${tx.bundleTxHash ?? tx.hash}`}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={{ color: '#4c6ef5', textDecoration: 'none' }}
@@ -187,14 +288,33 @@ export const TransactionHistoryPage = observer(() => {
                   </a>
                 </TableCell>
                 <TableCell>
-                  <StatusBadge status={tx.status}>
-                    {tx.status === 'success' ? '成功' : tx.status === 'pending' ? '待确认' : '失败'}
+                  <StatusBadge status={tx.status} title={tx.failureReason}>
+                    {STATUS_LABELS[tx.status]}
                   </StatusBadge>
+                  {tx.replacement && tx.status === 'pending' && <Note>{REPLACEMENT_LABELS[tx.replacement]}</Note>}
+                  {!!tx.replacedHashes?.length && <Note>已替换 {tx.replacedHashes.length} 次</Note>}
                 </TableCell>
                 <TableCell>{formatAddress(tx.from)}</TableCell>
                 <TableCell>{formatAddress(tx.to)}</TableCell>
+                <TableCell>
+                  <DecodedCallView
+                    call={abiRegistryService.decodeCall((tx.data || '0x') as Hex, tx.to as Address, tx.chainId, tx.value)}
+                  />
+                </TableCell>
                 <TableCell>{formatUnits(tx.value, 18)} ETH</TableCell>
                 <TableCell>{formatDate(tx.timestamp)}</TableCell>
+                <TableCell>
+                  {canReplace(tx) && (
+                    <>
+                      <ActionButton disabled={replacingHash !== null} onClick={() => handleReplace(tx, 'speedUp')}>
+                        加速
+                      </ActionButton>
+                      <ActionButton disabled={replacingHash !== null} onClick={() => handleReplace(tx, 'cancel')}>
+                        取消
+                      </ActionButton>
+                    </>
+                  )}
+                </TableCell>
               </TableRow>
             ))}
           </tbody>
@@ -2,12 +2,18 @@
  * 条件交易插件
  * 
  * 支持条件触发的交易执行
+ * 条件交易持久化到 storageAdapter，页面重新加载后由 init 恢复监控
+ *
+ * 条件必须可以 JSON 序列化（不含 bigint、函数），金额等大整数以十进制字符串表示；
+ * AND / OR / NOT 条件可以嵌套组合其它条件
  */
 
-import type { Address, Hex } from 'viem';
-import { IPlugin, PluginType } from '@/types/plugins';
+import { parseAbi, parseUnits, toHex, type Address, type Hex, type PublicClient } from 'viem';
+import { IPlugin, PluginType, type PluginTransactionStatusChange } from '@/types/plugins';
 import { getChainConfigByChainId } from '@/config/chains';
-import { createPublicClient, http } from 'viem';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import { rpcClientManager } from '@/utils/RpcClientManager';
 
 /**
  * 条件类型
@@ -17,9 +23,21 @@ export enum ConditionType {
   TIMESTAMP = 'timestamp',            // 时间戳条件
   BALANCE = 'balance',               // 余额条件
   CONTRACT_STATE = 'contract_state',  // 合约状态条件
+  EVENT_EMITTED = 'event_emitted',    // 事件日志条件（匹配的日志数量）
+  ORACLE_PRICE = 'oracle_price',      // Chainlink 风格预言机价格条件
+  ERC20_BALANCE = 'erc20_balance',    // ERC-20 余额条件
+  ERC20_ALLOWANCE = 'erc20_allowance', // ERC-20 授权额度条件
+  AND = 'and',                       // 子条件全部满足
+  OR = 'or',                         // 任一子条件满足
+  NOT = 'not',                       // 子条件不满足
   CUSTOM = 'custom',                 // 自定义条件
 }
 
+/**
+ * 比较操作符
+ */
+export type ConditionOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ne';
+
 /**
  * 条件定义
  */
@@ -37,7 +55,7 @@ export interface Condition {
   /**
    * 比较操作符
    */
-  operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ne';
+  operator: ConditionOperator;
 
   /**
    * 期望值
@@ -52,6 +70,175 @@ type ContractStateParams = {
   args?: readonly unknown[];
 };
 
+/**
+ * 事件日志条件参数
+ *
+ * 实际值为 fromBlock 至最新区块之间匹配的日志数量，通常与 `gte 1` 比较。
+ * 监控时从上次扫描到的区块增量查询，扫描进度随交易持久化
+ */
+export type EventEmittedParams = {
+  address: Address;
+  /** 主题过滤，null 表示任意，数组表示其中之一 */
+  topics?: (Hex | Hex[] | null)[];
+  /** 起始区块（十进制字符串），创建时未指定则填入当前区块 */
+  fromBlock?: string;
+  /** 已扫描到的区块（十进制字符串），由监控写入 */
+  scannedBlock?: string;
+  /** 已扫描区块中匹配的日志数量，由监控写入 */
+  matchedCount?: number;
+};
+
+/**
+ * 预言机价格条件参数
+ *
+ * 实际值为 latestRoundData 的 answer；期望值以价格单位表示（如 "1850.5"），
+ * 按聚合器 decimals 换算后比较。数据超过 maxAge 秒未更新时条件视为不满足
+ */
+export type OraclePriceParams = {
+  address: Address;
+  maxAge: number;
+};
+
+/**
+ * ERC-20 余额条件参数（期望值为最小单位的十进制字符串）
+ */
+export type Erc20BalanceParams = {
+  token: Address;
+  owner: Address;
+};
+
+/**
+ * ERC-20 授权额度条件参数（期望值为最小单位的十进制字符串）
+ */
+export type Erc20AllowanceParams = {
+  token: Address;
+  owner: Address;
+  spender: Address;
+};
+
+/**
+ * 组合条件参数（NOT 只能有一个子条件）
+ */
+export type LogicalConditionParams = {
+  conditions: Condition[];
+};
+
+const LOGICAL_CONDITION_TYPES: ConditionType[] = [ConditionType.AND, ConditionType.OR, ConditionType.NOT];
+const CONDITION_OPERATORS: ConditionOperator[] = ['eq', 'gt', 'gte', 'lt', 'lte', 'ne'];
+
+/** 单次 eth_getLogs 查询的最大区块数，落后较多时在后续轮询中逐段追上 */
+const MAX_EVENT_LOG_BLOCK_RANGE = BigInt(2000);
+
+const ERC20_ABI = parseAbi([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+]);
+
+const AGGREGATOR_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+]);
+
+/**
+ * 条件树中是否包含事件条件
+ */
+function hasEventCondition(conditions: Condition[]): boolean {
+  return conditions.some((condition) =>
+    LOGICAL_CONDITION_TYPES.includes(condition.type)
+      ? hasEventCondition((condition.params as LogicalConditionParams).conditions)
+      : condition.type === ConditionType.EVENT_EMITTED
+  );
+}
+
+/**
+ * 构造 AND 条件
+ */
+export function allOf(...conditions: Condition[]): Condition {
+  return { type: ConditionType.AND, params: { conditions }, operator: 'eq', expectedValue: true };
+}
+
+/**
+ * 构造 OR 条件
+ */
+export function anyOf(...conditions: Condition[]): Condition {
+  return { type: ConditionType.OR, params: { conditions }, operator: 'eq', expectedValue: true };
+}
+
+/**
+ * 构造 NOT 条件
+ */
+export function not(condition: Condition): Condition {
+  return { type: ConditionType.NOT, params: { conditions: [condition] }, operator: 'eq', expectedValue: true };
+}
+
+/**
+ * 校验条件（含嵌套子条件）的结构，并确保可以 JSON 序列化
+ *
+ * @throws 条件格式无效或包含无法序列化的值时抛出错误
+ */
+export function validateConditions(conditions: Condition[]): void {
+  if (!Array.isArray(conditions) || conditions.length === 0) {
+    throw new Error('至少需要一个条件');
+  }
+
+  const conditionTypes = Object.values(ConditionType) as string[];
+  const visit = (condition: Condition) => {
+    if (
+      !condition ||
+      typeof condition !== 'object' ||
+      !conditionTypes.includes(condition.type) ||
+      !CONDITION_OPERATORS.includes(condition.operator) ||
+      !condition.params ||
+      typeof condition.params !== 'object'
+    ) {
+      throw new Error('条件格式无效：需要 type、operator、params 与 expectedValue');
+    }
+
+    if (LOGICAL_CONDITION_TYPES.includes(condition.type)) {
+      const children = (condition.params as LogicalConditionParams).conditions;
+      if (!Array.isArray(children) || children.length === 0) {
+        throw new Error(`${condition.type} 条件至少需要一个子条件`);
+      }
+      if (condition.type === ConditionType.NOT && children.length !== 1) {
+        throw new Error('not 条件只能有一个子条件');
+      }
+      children.forEach(visit);
+    }
+  };
+  conditions.forEach(visit);
+
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(conditions);
+  } catch {
+    throw new Error('条件必须可以序列化：大整数请使用十进制字符串');
+  }
+  if (serialized !== JSON.stringify(JSON.parse(serialized))) {
+    throw new Error('条件必须可以序列化');
+  }
+}
+
+/**
+ * 序列化条件
+ */
+export function serializeConditions(conditions: Condition[]): string {
+  return JSON.stringify(conditions, null, 2);
+}
+
+/**
+ * 解析并校验序列化的条件
+ */
+export function parseConditions(text: string): Condition[] {
+  let parsed: Condition[];
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('条件必须是有效的 JSON');
+  }
+  validateConditions(parsed);
+  return parsed;
+}
+
 /**
  * 条件交易配置
  */
@@ -77,6 +264,17 @@ export interface ConditionalTransactionConfig {
   value: bigint;
 }
 
+/**
+ * 条件交易状态
+ */
+export type ConditionalTransactionStatus =
+  | 'pending'
+  | 'monitoring'
+  | 'ready'
+  | 'executed'
+  | 'failed'
+  | 'cancelled';
+
 /**
  * 条件交易信息
  */
@@ -86,6 +284,11 @@ export interface ConditionalTransaction {
    */
   id: string;
 
+  /**
+   * 插件合约地址
+   */
+  pluginAddress: Address;
+
   /**
    * 账户地址
    */
@@ -104,7 +307,12 @@ export interface ConditionalTransaction {
   /**
    * 状态
    */
-  status: 'pending' | 'monitoring' | 'ready' | 'executed' | 'cancelled';
+  status: ConditionalTransactionStatus;
+
+  /**
+   * 状态变更历史
+   */
+  history: PluginTransactionStatusChange<ConditionalTransactionStatus>[];
 
   /**
    * 创建时间
@@ -120,8 +328,16 @@ export interface ConditionalTransaction {
    * 交易哈希
    */
   txHash?: string;
+
+  /**
+   * 最近一次执行失败的错误信息
+   */
+  error?: string;
 }
 
+/** 仍需监控条件的状态 */
+const MONITORED_STATUSES: ConditionalTransactionStatus[] = ['pending', 'monitoring'];
+
 /**
  * 条件交易插件
  */
@@ -129,6 +345,8 @@ export class ConditionalTransactionPlugin {
   private plugin: IPlugin;
   private conditionalTransactions: Map<string, ConditionalTransaction> = new Map();
   private monitoringIntervals: Map<string, NodeJS.Timeout> = new Map();
+  /** 正在检查的交易，事件条件的扫描进度原地累加，同一交易的检查不能重叠 */
+  private checkInProgress: Set<string> = new Set();
 
   constructor(pluginAddress: Address) {
     this.plugin = {
@@ -149,6 +367,26 @@ export class ConditionalTransactionPlugin {
     return this.plugin;
   }
 
+  /**
+   * 初始化
+   *
+   * 从存储中加载本插件的条件交易，并恢复仍在等待条件的交易的监控
+   */
+  async init(): Promise<void> {
+    const stored = await storageAdapter.get<ConditionalTransaction[]>(StorageKey.CONDITIONAL_TRANSACTIONS);
+    const pluginAddress = this.plugin.address.toLowerCase();
+
+    for (const transaction of stored || []) {
+      if (transaction.pluginAddress.toLowerCase() !== pluginAddress) {
+        continue;
+      }
+      this.conditionalTransactions.set(transaction.id, transaction);
+      if (MONITORED_STATUSES.includes(transaction.status)) {
+        await this.startMonitoring(transaction);
+      }
+    }
+  }
+
   /**
    * 创建条件交易
    */
@@ -157,16 +395,23 @@ export class ConditionalTransactionPlugin {
     chainId: number,
     config: ConditionalTransactionConfig
   ): Promise<ConditionalTransaction> {
+    validateConditions(config.conditions);
+    config = { ...config, conditions: await this.resolveEventStartBlocks(config.conditions, chainId) };
+
+    const createdAt = Date.now();
     const transaction: ConditionalTransaction = {
-      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `${createdAt}_${Math.random().toString(36).substr(2, 9)}`,
+      pluginAddress: this.plugin.address,
       accountAddress,
       chainId,
       config,
       status: 'pending',
-      createdAt: Date.now(),
+      history: [{ status: 'pending', at: createdAt }],
+      createdAt,
     };
 
     this.conditionalTransactions.set(transaction.id, transaction);
+    await this.saveTransaction(transaction);
 
     // 开始监控条件
     await this.startMonitoring(transaction);
@@ -176,27 +421,36 @@ export class ConditionalTransactionPlugin {
 
   /**
    * 开始监控条件
+   *
+   * 优先由 Service Worker 定时请求检查，不支持时使用 setInterval 作为降级方案
    */
   private async startMonitoring(transaction: ConditionalTransaction): Promise<void> {
-    transaction.status = 'monitoring';
-
-    const interval = setInterval(async () => {
-      try {
-        const allConditionsMet = await this.checkConditions(transaction);
-        if (allConditionsMet) {
-          transaction.status = 'ready';
-          this.stopMonitoring(transaction.id);
-
-          // 触发事件通知
-          window.dispatchEvent(
-            new CustomEvent('conditional-transaction:ready', {
-              detail: { transactionId: transaction.id },
-            })
-          );
-        }
-      } catch (error) {
-        console.error(`Error checking conditions for transaction ${transaction.id}:`, error);
+    // Service Worker 中同 ID 的任务会被新的 START_MONITORING 覆盖，这里只需清理降级定时器
+    clearInterval(this.monitoringIntervals.get(transaction.id));
+    this.monitoringIntervals.delete(transaction.id);
+
+    if (transaction.status !== 'monitoring') {
+      await this.updateStatus(transaction, 'monitoring');
+    }
+
+    try {
+      const { monitoringServiceWorker } = await import('@/serviceWorker/MonitoringServiceWorker');
+      if (monitoringServiceWorker.isAvailable()) {
+        await monitoringServiceWorker.startScheduledMonitoring({
+          taskId: transaction.id,
+          kind: 'conditional-transaction',
+          interval: 5000,
+        });
+        return;
       }
+    } catch (error) {
+      console.warn('[ConditionalTransactionPlugin] Service Worker monitoring failed, using fallback:', error);
+    }
+
+    const interval = setInterval(() => {
+      this.checkTransaction(transaction.id).catch((error) => {
+        console.error(`Error checking conditions for transaction ${transaction.id}:`, error);
+      });
     }, 5000); // 每5秒检查一次
 
     this.monitoringIntervals.set(transaction.id, interval);
@@ -211,6 +465,122 @@ export class ConditionalTransactionPlugin {
       clearInterval(interval);
       this.monitoringIntervals.delete(transactionId);
     }
+
+    import('@/serviceWorker/MonitoringServiceWorker')
+      .then(({ monitoringServiceWorker }) => monitoringServiceWorker.stopMonitoring(transactionId))
+      .catch((error) => {
+        console.warn('[ConditionalTransactionPlugin] Failed to stop Service Worker monitoring:', error);
+      });
+  }
+
+  /**
+   * 检查条件交易
+   *
+   * 由 Service Worker 请求或降级定时器调用；条件全部满足时标记为 ready 并停止监控。
+   * 同一交易已有检查在进行时直接返回 false，避免两次检查重复累计同一批事件日志
+   *
+   * @param transactionId 交易ID
+   * @returns 条件是否已满足
+   */
+  async checkTransaction(transactionId: string): Promise<boolean> {
+    const transaction = this.conditionalTransactions.get(transactionId);
+    if (!transaction || transaction.status !== 'monitoring') {
+      return false;
+    }
+    if (this.checkInProgress.has(transaction.id)) {
+      return false;
+    }
+    this.checkInProgress.add(transaction.id);
+
+    try {
+      const allConditionsMet = await this.checkConditions(transaction);
+      // 检查期间可能已被取消或编辑
+      if (transaction.status !== 'monitoring') {
+        return false;
+      }
+      if (!allConditionsMet) {
+        // 保存事件条件的扫描进度，重新加载后从上次扫描到的区块继续
+        if (hasEventCondition(transaction.config.conditions)) {
+          await this.saveTransaction(transaction);
+        }
+        return false;
+      }
+    } finally {
+      this.checkInProgress.delete(transaction.id);
+    }
+
+    this.stopMonitoring(transaction.id);
+    await this.updateStatus(transaction, 'ready');
+
+    // 触发事件通知
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(
+        new CustomEvent('conditional-transaction:ready', {
+          detail: { transactionId: transaction.id },
+        })
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * 编辑条件交易
+   *
+   * 仅未执行、未取消的交易可以编辑；编辑后重新开始监控条件
+   *
+   * @param transactionId 交易ID
+   * @param config 新配置
+   * @returns 更新后的条件交易
+   */
+  async updateConditionalTransaction(
+    transactionId: string,
+    config: ConditionalTransactionConfig
+  ): Promise<ConditionalTransaction> {
+    const transaction = this.conditionalTransactions.get(transactionId);
+    if (!transaction) {
+      throw new Error(`Transaction not found: ${transactionId}`);
+    }
+
+    if (transaction.status === 'executed' || transaction.status === 'cancelled') {
+      throw new Error(`Transaction can no longer be edited. Current status: ${transaction.status}`);
+    }
+
+    validateConditions(config.conditions);
+    transaction.config = {
+      ...config,
+      conditions: await this.resolveEventStartBlocks(config.conditions, transaction.chainId),
+    };
+    transaction.error = undefined;
+    transaction.status = 'pending';
+    await this.startMonitoring(transaction);
+
+    return transaction;
+  }
+
+  /**
+   * 为未指定起始区块的事件条件填入当前区块，并重置扫描进度
+   */
+  private async resolveEventStartBlocks(conditions: Condition[], chainId: number): Promise<Condition[]> {
+    let latestBlock: bigint | undefined;
+    const resolve = async (condition: Condition): Promise<Condition> => {
+      if (LOGICAL_CONDITION_TYPES.includes(condition.type)) {
+        const children = (condition.params as LogicalConditionParams).conditions;
+        return { ...condition, params: { ...condition.params, conditions: await Promise.all(children.map(resolve)) } };
+      }
+      if (condition.type !== ConditionType.EVENT_EMITTED) {
+        return condition;
+      }
+      const params = { ...(condition.params as EventEmittedParams) };
+      delete params.scannedBlock;
+      delete params.matchedCount;
+      if (!params.fromBlock) {
+        latestBlock ??= await rpcClientManager.getPublicClient(chainId).getBlockNumber();
+        params.fromBlock = latestBlock.toString();
+      }
+      return { ...condition, params };
+    };
+    return Promise.all(conditions.map(resolve));
   }
 
   /**
@@ -222,12 +592,11 @@ export class ConditionalTransactionPlugin {
       return false;
     }
 
-    const publicClient = createPublicClient({
-      transport: http(chainConfig.rpcUrl),
-    });
+    // 复用缓存的 PublicClient，避免每次轮询都创建新实例
+    const publicClient = rpcClientManager.getPublicClient(transaction.chainId);
 
     for (const condition of transaction.config.conditions) {
-      const conditionMet = await this.checkCondition(condition, publicClient, transaction.chainId);
+      const conditionMet = await this.checkCondition(condition, publicClient);
       if (!conditionMet) {
         return false;
       }
@@ -239,12 +608,9 @@ export class ConditionalTransactionPlugin {
   /**
    * 检查单个条件
    */
-  private async checkCondition(
-    condition: Condition,
-    publicClient: ReturnType<typeof createPublicClient>,
-    _chainId: number
-  ): Promise<boolean> {
+  private async checkCondition(condition: Condition, publicClient: PublicClient): Promise<boolean> {
     let actualValue: unknown;
+    let expectedValue = condition.expectedValue;
 
     switch (condition.type) {
       case ConditionType.BLOCK_NUMBER: {
@@ -261,8 +627,7 @@ export class ConditionalTransactionPlugin {
 
       case ConditionType.BALANCE: {
         const address = condition.params.address as Address;
-        const balance = await publicClient.getBalance({ address });
-        actualValue = Number(balance);
+        actualValue = await publicClient.getBalance({ address });
         break;
       }
 
@@ -288,9 +653,9 @@ export class ConditionalTransactionPlugin {
             functionName,
             args,
           });
-          
-          // 将结果转换为数字进行比较
-          actualValue = typeof result === 'bigint' ? Number(result) : Number(result);
+
+          // bigint 保持精度，其它结果转换为数字进行比较
+          actualValue = typeof result === 'bigint' ? result : Number(result);
         } catch (error) {
           console.error('Failed to read contract state:', error);
           return false;
@@ -298,12 +663,113 @@ export class ConditionalTransactionPlugin {
         break;
       }
 
+      case ConditionType.EVENT_EMITTED: {
+        const params = condition.params as EventEmittedParams;
+        if (!params.address) {
+          console.warn('Invalid event condition params');
+          return false;
+        }
+
+        // 从上次扫描到的区块之后增量查询，单次查询不超过 MAX_EVENT_LOG_BLOCK_RANGE 个区块
+        const latestBlock = await publicClient.getBlockNumber();
+        const startBlock = params.scannedBlock
+          ? BigInt(params.scannedBlock) + BigInt(1)
+          : BigInt(params.fromBlock ?? latestBlock);
+        if (startBlock <= latestBlock) {
+          const rangeEnd = startBlock + MAX_EVENT_LOG_BLOCK_RANGE - BigInt(1);
+          const endBlock = rangeEnd < latestBlock ? rangeEnd : latestBlock;
+          const logs = await publicClient.request({
+            method: 'eth_getLogs',
+            params: [
+              {
+                address: params.address,
+                topics: params.topics ?? [],
+                fromBlock: toHex(startBlock),
+                toBlock: toHex(endBlock),
+              },
+            ],
+          });
+          params.matchedCount = (params.matchedCount ?? 0) + logs.length;
+          params.scannedBlock = endBlock.toString();
+        }
+        actualValue = params.matchedCount ?? 0;
+        break;
+      }
+
+      case ConditionType.ORACLE_PRICE: {
+        const { address, maxAge } = condition.params as OraclePriceParams;
+        if (!address || !(maxAge > 0)) {
+          console.warn('Invalid oracle price condition params');
+          return false;
+        }
+
+        const [decimals, [roundId, answer, , updatedAt, answeredInRound]] = await Promise.all([
+          publicClient.readContract({ address, abi: AGGREGATOR_ABI, functionName: 'decimals' }),
+          publicClient.readContract({ address, abi: AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+        ]);
+
+        // 过期、未完成的轮次或非正价格都不能作为触发依据
+        const age = Math.floor(Date.now() / 1000) - Number(updatedAt);
+        if (age > maxAge || answeredInRound < roundId || answer <= BigInt(0)) {
+          return false;
+        }
+
+        actualValue = answer;
+        expectedValue = parseUnits(String(condition.expectedValue), decimals);
+        break;
+      }
+
+      case ConditionType.ERC20_BALANCE: {
+        const { token, owner } = condition.params as Erc20BalanceParams;
+        actualValue = await publicClient.readContract({
+          address: token,
+          abi: ERC20_ABI,
+          functionName: 'balanceOf',
+          args: [owner],
+        });
+        break;
+      }
+
+      case ConditionType.ERC20_ALLOWANCE: {
+        const { token, owner, spender } = condition.params as Erc20AllowanceParams;
+        actualValue = await publicClient.readContract({
+          address: token,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [owner, spender],
+        });
+        break;
+      }
+
+      case ConditionType.AND:
+      case ConditionType.OR:
+      case ConditionType.NOT: {
+        const children = (condition.params as LogicalConditionParams).conditions || [];
+        if (condition.type === ConditionType.NOT) {
+          actualValue = children.length === 1 && !(await this.checkCondition(children[0], publicClient));
+        } else {
+          // 逐个检查并短路，避免不必要的 RPC 调用
+          const expectAll = condition.type === ConditionType.AND;
+          actualValue = expectAll;
+          for (const child of children) {
+            if ((await this.checkCondition(child, publicClient)) !== expectAll) {
+              actualValue = !expectAll;
+              break;
+            }
+          }
+          if (children.length === 0) {
+            actualValue = false;
+          }
+        }
+        break;
+      }
+
       default:
         return false;
     }
 
     // 比较值
-    return this.compareValues(actualValue, condition.operator, condition.expectedValue);
+    return this.compareValues(actualValue, condition.operator, expectedValue);
   }
 
   /**
@@ -314,6 +780,19 @@ export class ConditionalTransactionPlugin {
     operator: Condition['operator'],
     expected: unknown
   ): boolean {
+    // 整数（bigint、安全整数、十进制字符串）按 bigint 比较，避免 uint256 金额丢失精度
+    const asInteger = (value: unknown): bigint | null => {
+      if (typeof value === 'bigint') {
+        return value;
+      }
+      if (typeof value === 'number') {
+        return Number.isSafeInteger(value) ? BigInt(value) : null;
+      }
+      if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+        return BigInt(value.trim());
+      }
+      return null;
+    };
     const asNumeric = (value: unknown): number | null => {
       if (typeof value === 'number') {
         return Number.isFinite(value) ? value : null;
@@ -327,32 +806,36 @@ export class ConditionalTransactionPlugin {
       }
       return null;
     };
+    const actualInt = asInteger(actual);
+    const expectedInt = asInteger(expected);
+    const bothIntegers = actualInt !== null && expectedInt !== null;
+    const compare = (): number | null => {
+      if (actualInt !== null && expectedInt !== null) {
+        return actualInt === expectedInt ? 0 : actualInt > expectedInt ? 1 : -1;
+      }
+      const actualNum = asNumeric(actual);
+      const expectedNum = asNumeric(expected);
+      if (actualNum === null || expectedNum === null) {
+        return null;
+      }
+      return actualNum === expectedNum ? 0 : actualNum > expectedNum ? 1 : -1;
+    };
 
+    const order = compare();
     switch (operator) {
       case 'eq':
-        return actual === expected;
-      case 'gt': {
-        const actualNum = asNumeric(actual);
-        const expectedNum = asNumeric(expected);
-        return actualNum !== null && expectedNum !== null && actualNum > expectedNum;
-      }
-      case 'gte': {
-        const actualNum = asNumeric(actual);
-        const expectedNum = asNumeric(expected);
-        return actualNum !== null && expectedNum !== null && actualNum >= expectedNum;
-      }
-      case 'lt': {
-        const actualNum = asNumeric(actual);
-        const expectedNum = asNumeric(expected);
-        return actualNum !== null && expectedNum !== null && actualNum < expectedNum;
-      }
-      case 'lte': {
-        const actualNum = asNumeric(actual);
-        const expectedNum = asNumeric(expected);
-        return actualNum !== null && expectedNum !== null && actualNum <= expectedNum;
-      }
+        // 地址等十六进制字符串不按数值比较
+        return bothIntegers ? order === 0 : actual === expected;
+      case 'gt':
+        return order !== null && order > 0;
+      case 'gte':
+        return order !== null && order >= 0;
+      case 'lt':
+        return order !== null && order < 0;
+      case 'lte':
+        return order !== null && order <= 0;
       case 'ne':
-        return actual !== expected;
+        return bothIntegers ? order !== 0 : actual !== expected;
       default:
         return false;
     }
@@ -376,7 +859,8 @@ export class ConditionalTransactionPlugin {
       throw new Error(`Transaction not found: ${transactionId}`);
     }
 
-    if (transaction.status !== 'ready') {
+    // 执行失败的交易允许重试
+    if (transaction.status !== 'ready' && transaction.status !== 'failed') {
       throw new Error(`Transaction is not ready. Current status: ${transaction.status}`);
     }
 
@@ -430,18 +914,25 @@ export class ConditionalTransactionPlugin {
     });
 
     // 发送交易到插件合约
-    const txHash = await transactionRelayer.sendTransaction(
-      transaction.accountAddress,
-      transaction.chainId,
-      this.plugin.address,
-      callData,
-      signerPrivateKey
-    );
+    let txHash: string;
+    try {
+      txHash = await transactionRelayer.sendTransaction(
+        transaction.accountAddress,
+        transaction.chainId,
+        this.plugin.address,
+        callData,
+        signerPrivateKey
+      );
+    } catch (error) {
+      await this.updateStatus(transaction, 'failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
 
     // 更新本地状态
-    transaction.status = 'executed';
     transaction.executedAt = Date.now();
-    transaction.txHash = txHash;
+    await this.updateStatus(transaction, 'executed', { txHash });
 
     // 停止监控
     this.stopMonitoring(transactionId);
@@ -529,15 +1020,46 @@ export class ConditionalTransactionPlugin {
         signerPrivateKey
       );
 
-      transaction.txHash = txHash;
-      transaction.status = 'cancelled';
       this.stopMonitoring(transactionId);
+      await this.updateStatus(transaction, 'cancelled', { txHash });
 
       return txHash;
     } else {
       // 仅更新本地状态
-      transaction.status = 'cancelled';
       this.stopMonitoring(transactionId);
+      await this.updateStatus(transaction, 'cancelled');
+    }
+  }
+
+  /**
+   * 更新状态并记录历史
+   */
+  private async updateStatus(
+    transaction: ConditionalTransaction,
+    status: ConditionalTransactionStatus,
+    result: { txHash?: string; error?: string } = {}
+  ): Promise<void> {
+    transaction.status = status;
+    if (result.txHash) {
+      transaction.txHash = result.txHash;
+    }
+    transaction.error = result.error;
+    transaction.history.push({ status, at: Date.now(), ...result });
+    await this.saveTransaction(transaction);
+  }
+
+  /**
+   * 保存条件交易
+   */
+  private async saveTransaction(transaction: ConditionalTransaction): Promise<void> {
+    const transactions =
+      (await storageAdapter.get<ConditionalTransaction[]>(StorageKey.CONDITIONAL_TRANSACTIONS)) || [];
+    const index = transactions.findIndex((t) => t.id === transaction.id);
+    if (index >= 0) {
+      transactions[index] = transaction;
+    } else {
+      transactions.push(transaction);
     }
+    await storageAdapter.set(StorageKey.CONDITIONAL_TRANSACTIONS, transactions);
   }
 }
@@ -1,12 +1,15 @@
 /**
  * 延迟交易插件
- * 
+ *
  * 支持延迟执行交易功能
+ * 延迟交易持久化到 storageAdapter，页面重新加载后由 init 恢复到期检查
  */
 
 import type { Address, Hex } from 'viem';
-import { IPlugin, PluginType } from '@/types/plugins';
+import { IPlugin, PluginType, type PluginTransactionStatusChange } from '@/types/plugins';
 import { getChainConfigByChainId } from '@/config/chains';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
 
 /**
  * 延迟交易配置
@@ -33,6 +36,11 @@ export interface DelayedTransactionConfig {
   value: bigint;
 }
 
+/**
+ * 延迟交易状态
+ */
+export type DelayedTransactionStatus = 'pending' | 'scheduled' | 'executed' | 'failed' | 'cancelled';
+
 /**
  * 延迟交易信息
  */
@@ -42,6 +50,11 @@ export interface DelayedTransaction {
    */
   id: string;
 
+  /**
+   * 插件合约地址
+   */
+  pluginAddress: Address;
+
   /**
    * 账户地址
    */
@@ -57,6 +70,11 @@ export interface DelayedTransaction {
    */
   config: DelayedTransactionConfig;
 
+  /**
+   * 创建时间
+   */
+  createdAt: number;
+
   /**
    * 计划执行时间
    */
@@ -65,20 +83,74 @@ export interface DelayedTransaction {
   /**
    * 状态
    */
-  status: 'pending' | 'scheduled' | 'executed' | 'cancelled';
+  status: DelayedTransactionStatus;
 
   /**
-   * 交易哈希（执行后）
+   * 状态变更历史
+   */
+  history: PluginTransactionStatusChange<DelayedTransactionStatus>[];
+
+  /**
+   * 交易哈希（最近一次调度 / 执行 / 取消）
    */
   txHash?: string;
+
+  /**
+   * 执行时间
+   */
+  executedAt?: number;
+
+  /**
+   * 最近一次执行失败的错误信息
+   */
+  error?: string;
 }
 
+/**
+ * 延迟交易插件合约标准接口
+ *
+ * - schedule(bytes32 transactionHash, address target, uint256 value, bytes data, uint256 delay)
+ * - execute(bytes32 transactionHash)
+ * - cancel(bytes32 transactionHash)
+ */
+const DELAYED_TRANSACTION_ABI = [
+  {
+    inputs: [
+      { name: 'transactionHash', type: 'bytes32' },
+      { name: 'target', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
+      { name: 'delay', type: 'uint256' },
+    ],
+    name: 'schedule',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'transactionHash', type: 'bytes32' }],
+    name: 'execute',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'transactionHash', type: 'bytes32' }],
+    name: 'cancel',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
 /**
  * 延迟交易插件
  */
 export class DelayedTransactionPlugin {
   private plugin: IPlugin;
   private scheduledTransactions: Map<string, DelayedTransaction> = new Map();
+  private monitoringIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private autoExecuteInProgress: Set<string> = new Set();
 
   constructor(pluginAddress: Address) {
     this.plugin = {
@@ -99,11 +171,31 @@ export class DelayedTransactionPlugin {
     return this.plugin;
   }
 
+  /**
+   * 初始化
+   *
+   * 从存储中加载本插件的延迟交易，并恢复已调度交易的到期检查
+   */
+  async init(): Promise<void> {
+    const stored = await storageAdapter.get<DelayedTransaction[]>(StorageKey.DELAYED_TRANSACTIONS);
+    const pluginAddress = this.plugin.address.toLowerCase();
+
+    for (const transaction of stored || []) {
+      if (transaction.pluginAddress.toLowerCase() !== pluginAddress) {
+        continue;
+      }
+      this.scheduledTransactions.set(transaction.id, transaction);
+      if (transaction.status === 'scheduled') {
+        await this.startMonitoring(transaction);
+      }
+    }
+  }
+
   /**
    * 调度延迟交易
-   * 
+   *
    * 调用插件合约的 schedule 方法，将交易调度到指定时间执行
-   * 
+   *
    * @param accountAddress 账户地址
    * @param chainId 链ID
    * @param config 延迟交易配置
@@ -122,49 +214,17 @@ export class DelayedTransactionPlugin {
     }
 
     // 生成交易ID（使用交易哈希）
-    const transactionId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // 计算交易哈希（用于在插件合约中标识）
-    const { keccak256, encodeAbiParameters, parseAbiParameters } = await import('viem');
-    const transactionHash = keccak256(
-      encodeAbiParameters(
-        parseAbiParameters('address, uint256, bytes, uint256'),
-        [config.target, config.value, config.data, BigInt(config.delaySeconds)]
-      )
-    ) as `0x${string}`;
+    const createdAt = Date.now();
+    const transactionId = `${createdAt}_${Math.random().toString(36).substr(2, 9)}`;
 
-    const transaction: DelayedTransaction = {
-      id: transactionId,
-      accountAddress,
-      chainId,
-      config,
-      scheduledAt: Date.now() + config.delaySeconds * 1000,
-      status: 'scheduled',
-    };
-
-    this.scheduledTransactions.set(transaction.id, transaction);
+    const transactionHash = await this.computeTransactionHash(config);
 
     // 调用插件合约的 schedule 方法
-    // 标准接口：function schedule(bytes32 transactionHash, address target, uint256 value, bytes calldata data, uint256 delay) external
     const { encodeFunctionData } = await import('viem');
     const { transactionRelayer } = await import('@/services/TransactionRelayer');
-    
+
     const callData = encodeFunctionData({
-      abi: [
-        {
-          inputs: [
-            { name: 'transactionHash', type: 'bytes32' },
-            { name: 'target', type: 'address' },
-            { name: 'value', type: 'uint256' },
-            { name: 'data', type: 'bytes' },
-            { name: 'delay', type: 'uint256' },
-          ],
-          name: 'schedule',
-          outputs: [],
-          stateMutability: 'nonpayable',
-          type: 'function',
-        },
-      ],
+      abi: DELAYED_TRANSACTION_ABI,
       functionName: 'schedule',
       args: [
         transactionHash,
@@ -185,8 +245,90 @@ export class DelayedTransactionPlugin {
       signerPrivateKey
     );
 
-    // 更新交易哈希
-    transaction.txHash = txHash;
+    // 调度交易发送成功后才记录，避免保存未上链的调度
+    const transaction: DelayedTransaction = {
+      id: transactionId,
+      pluginAddress: this.plugin.address,
+      accountAddress,
+      chainId,
+      config,
+      createdAt,
+      scheduledAt: createdAt + config.delaySeconds * 1000,
+      status: 'scheduled',
+      history: [{ status: 'scheduled', at: Date.now(), txHash }],
+      txHash,
+    };
+
+    this.scheduledTransactions.set(transaction.id, transaction);
+    await this.saveTransaction(transaction);
+    await this.startMonitoring(transaction);
+
+    return transaction;
+  }
+
+  /**
+   * 重新调度延迟交易
+   *
+   * 在同一笔 UserOperation 中取消原调度并以新配置重新调度，延迟从现在开始重新计算
+   *
+   * @param transactionId 交易ID
+   * @param config 新配置
+   * @param signerPrivateKey 签名者私钥
+   * @returns 更新后的延迟交易
+   */
+  async rescheduleTransaction(
+    transactionId: string,
+    config: DelayedTransactionConfig,
+    signerPrivateKey: `0x${string}`
+  ): Promise<DelayedTransaction> {
+    const transaction = this.scheduledTransactions.get(transactionId);
+    if (!transaction) {
+      throw new Error(`Transaction not found: ${transactionId}`);
+    }
+
+    if (transaction.status !== 'scheduled' && transaction.status !== 'failed') {
+      throw new Error(`Transaction can no longer be edited. Current status: ${transaction.status}`);
+    }
+
+    const { encodeFunctionData } = await import('viem');
+    const { transactionRelayer } = await import('@/services/TransactionRelayer');
+
+    const txHash = await transactionRelayer.sendBatch(
+      transaction.accountAddress,
+      transaction.chainId,
+      [
+        {
+          to: this.plugin.address,
+          value: BigInt(0),
+          data: encodeFunctionData({
+            abi: DELAYED_TRANSACTION_ABI,
+            functionName: 'cancel',
+            args: [await this.computeTransactionHash(transaction.config)],
+          }),
+        },
+        {
+          to: this.plugin.address,
+          value: BigInt(0),
+          data: encodeFunctionData({
+            abi: DELAYED_TRANSACTION_ABI,
+            functionName: 'schedule',
+            args: [
+              await this.computeTransactionHash(config),
+              config.target,
+              config.value,
+              config.data,
+              BigInt(config.delaySeconds),
+            ],
+          }),
+        },
+      ],
+      signerPrivateKey
+    );
+
+    transaction.config = config;
+    transaction.scheduledAt = Date.now() + config.delaySeconds * 1000;
+    await this.updateStatus(transaction, 'scheduled', { txHash });
+    await this.startMonitoring(transaction);
 
     return transaction;
   }
@@ -207,9 +349,9 @@ export class DelayedTransactionPlugin {
 
   /**
    * 取消延迟交易
-   * 
+   *
    * 调用插件合约的 cancel 方法，取消已调度的交易
-   * 
+   *
    * @param transactionId 交易ID
    * @param accountAddress 账户地址
    * @param chainId 链ID
@@ -228,34 +370,14 @@ export class DelayedTransactionPlugin {
     }
 
     // 计算交易哈希（与schedule时一致）
-    const { keccak256, encodeAbiParameters, parseAbiParameters } = await import('viem');
-    const transactionHash = keccak256(
-      encodeAbiParameters(
-        parseAbiParameters('address, uint256, bytes, uint256'),
-        [
-          transaction.config.target,
-          transaction.config.value,
-          transaction.config.data,
-          BigInt(transaction.config.delaySeconds),
-        ]
-      )
-    ) as `0x${string}`;
+    const transactionHash = await this.computeTransactionHash(transaction.config);
 
     // 调用插件合约的 cancel 方法
-    // 标准接口：function cancel(bytes32 transactionHash) external
     const { encodeFunctionData } = await import('viem');
     const { transactionRelayer } = await import('@/services/TransactionRelayer');
-    
+
     const callData = encodeFunctionData({
-      abi: [
-        {
-          inputs: [{ name: 'transactionHash', type: 'bytes32' }],
-          name: 'cancel',
-          outputs: [],
-          stateMutability: 'nonpayable',
-          type: 'function',
-        },
-      ],
+      abi: DELAYED_TRANSACTION_ABI,
       functionName: 'cancel',
       args: [transactionHash],
     });
@@ -270,18 +392,18 @@ export class DelayedTransactionPlugin {
     );
 
     // 更新本地状态
-    transaction.status = 'cancelled';
-    transaction.txHash = txHash;
+    this.stopMonitoring(transactionId);
+    await this.updateStatus(transaction, 'cancelled', { txHash });
 
     return txHash;
   }
 
   /**
    * 检查并执行到期的交易
-   * 
+   *
    * 自动检查到期的延迟交易并执行
    * 注意：需要提供签名者私钥
-   * 
+   *
    * @param signerPrivateKey 签名者私钥
    * @returns 执行的交易数量
    */
@@ -304,11 +426,40 @@ export class DelayedTransactionPlugin {
     return executedCount;
   }
 
+  /**
+   * 检查延迟交易是否到期
+   *
+   * 由 Service Worker 请求或降级定时器调用；到期后停止监控、通知页面，
+   * 并在会话中存在 owner 私钥时自动执行
+   *
+   * @param transactionId 交易ID
+   * @returns 是否已到期
+   */
+  async checkTransaction(transactionId: string): Promise<boolean> {
+    const transaction = this.scheduledTransactions.get(transactionId);
+    if (!transaction || transaction.status !== 'scheduled' || transaction.scheduledAt > Date.now()) {
+      return false;
+    }
+
+    this.stopMonitoring(transaction.id);
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(
+        new CustomEvent('delayed-transaction:due', {
+          detail: { transactionId: transaction.id },
+        })
+      );
+    }
+
+    await this.tryAutoExecute(transaction);
+    return true;
+  }
+
   /**
    * 执行延迟交易
-   * 
+   *
    * 调用插件合约的 execute 方法，执行到期的延迟交易
-   * 
+   *
    * @param transaction 延迟交易信息
    * @param signerPrivateKey 签名者私钥
    * @returns 交易哈希
@@ -317,56 +468,167 @@ export class DelayedTransactionPlugin {
     transaction: DelayedTransaction,
     signerPrivateKey: `0x${string}`
   ): Promise<string> {
-    if (transaction.status !== 'scheduled') {
-      throw new Error(`Transaction is not scheduled. Current status: ${transaction.status}`);
+    // 以插件内保存的记录为准，调用方传入的可能是过期副本
+    const current = this.scheduledTransactions.get(transaction.id) ?? transaction;
+
+    // 执行失败的交易允许重试
+    if (current.status !== 'scheduled' && current.status !== 'failed') {
+      throw new Error(`Transaction is not scheduled. Current status: ${current.status}`);
     }
 
     // 计算交易哈希（与schedule时一致）
-    const { keccak256, encodeAbiParameters, parseAbiParameters } = await import('viem');
-    const transactionHash = keccak256(
-      encodeAbiParameters(
-        parseAbiParameters('address, uint256, bytes, uint256'),
-        [
-          transaction.config.target,
-          transaction.config.value,
-          transaction.config.data,
-          BigInt(transaction.config.delaySeconds),
-        ]
-      )
-    ) as `0x${string}`;
+    const transactionHash = await this.computeTransactionHash(current.config);
 
     // 调用插件合约的 execute 方法
-    // 标准接口：function execute(bytes32 transactionHash) external
     const { encodeFunctionData } = await import('viem');
     const { transactionRelayer } = await import('@/services/TransactionRelayer');
-    
+
     const callData = encodeFunctionData({
-      abi: [
-        {
-          inputs: [{ name: 'transactionHash', type: 'bytes32' }],
-          name: 'execute',
-          outputs: [],
-          stateMutability: 'nonpayable',
-          type: 'function',
-        },
-      ],
+      abi: DELAYED_TRANSACTION_ABI,
       functionName: 'execute',
       args: [transactionHash],
     });
 
     // 发送交易到插件合约
-    const txHash = await transactionRelayer.sendTransaction(
-      transaction.accountAddress,
-      transaction.chainId,
-      this.plugin.address,
-      callData,
-      signerPrivateKey
-    );
+    let txHash: string;
+    try {
+      txHash = await transactionRelayer.sendTransaction(
+        current.accountAddress,
+        current.chainId,
+        this.plugin.address,
+        callData,
+        signerPrivateKey
+      );
+    } catch (error) {
+      this.stopMonitoring(current.id);
+      await this.updateStatus(current, 'failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
 
     // 更新本地状态
-    transaction.status = 'executed';
-    transaction.txHash = txHash;
+    this.stopMonitoring(current.id);
+    current.executedAt = Date.now();
+    await this.updateStatus(current, 'executed', { txHash });
 
     return txHash;
   }
+
+  /**
+   * 开始到期检查
+   *
+   * 优先由 Service Worker 在到期后请求检查，不支持时使用 setInterval 作为降级方案
+   */
+  private async startMonitoring(transaction: DelayedTransaction): Promise<void> {
+    clearInterval(this.monitoringIntervals.get(transaction.id));
+    this.monitoringIntervals.delete(transaction.id);
+
+    try {
+      const { monitoringServiceWorker } = await import('@/serviceWorker/MonitoringServiceWorker');
+      if (monitoringServiceWorker.isAvailable()) {
+        await monitoringServiceWorker.startScheduledMonitoring({
+          taskId: transaction.id,
+          kind: 'delayed-transaction',
+          dueAt: transaction.scheduledAt,
+          interval: 5000,
+        });
+        return;
+      }
+    } catch (error) {
+      console.warn('[DelayedTransactionPlugin] Service Worker monitoring failed, using fallback:', error);
+    }
+
+    const interval = setInterval(() => {
+      this.checkTransaction(transaction.id).catch((error) => {
+        console.error(`Error checking delayed transaction ${transaction.id}:`, error);
+      });
+    }, 5000); // 每5秒检查一次
+
+    this.monitoringIntervals.set(transaction.id, interval);
+  }
+
+  /**
+   * 停止到期检查
+   */
+  private stopMonitoring(transactionId: string): void {
+    const interval = this.monitoringIntervals.get(transactionId);
+    if (interval) {
+      clearInterval(interval);
+      this.monitoringIntervals.delete(transactionId);
+    }
+
+    import('@/serviceWorker/MonitoringServiceWorker')
+      .then(({ monitoringServiceWorker }) => monitoringServiceWorker.stopMonitoring(transactionId))
+      .catch((error) => {
+        console.warn('[DelayedTransactionPlugin] Failed to stop Service Worker monitoring:', error);
+      });
+  }
+
+  /**
+   * 自动执行到期交易（会话内可用时）
+   *
+   * 无会话私钥时保持 scheduled 状态，等待用户在列表中手动执行
+   */
+  private async tryAutoExecute(transaction: DelayedTransaction): Promise<void> {
+    if (this.autoExecuteInProgress.has(transaction.id)) {
+      return;
+    }
+    this.autoExecuteInProgress.add(transaction.id);
+
+    try {
+      const { getAccountOwnerPrivateKey } = await import('@/utils/getPrivateKey');
+      const ownerPrivateKey = await getAccountOwnerPrivateKey(transaction.accountAddress, transaction.chainId);
+      await this.executeTransaction(transaction, ownerPrivateKey);
+    } catch (error) {
+      // 自动执行是能力增强，失败原因已记录在交易状态中（或等待手动执行）
+      console.info(`[DelayedTransactionPlugin] Auto execute skipped/failed for ${transaction.id}:`, error);
+    } finally {
+      this.autoExecuteInProgress.delete(transaction.id);
+    }
+  }
+
+  /**
+   * 计算交易哈希（用于在插件合约中标识）
+   */
+  private async computeTransactionHash(config: DelayedTransactionConfig): Promise<Hex> {
+    const { keccak256, encodeAbiParameters, parseAbiParameters } = await import('viem');
+    return keccak256(
+      encodeAbiParameters(
+        parseAbiParameters('address, uint256, bytes, uint256'),
+        [config.target, config.value, config.data, BigInt(config.delaySeconds)]
+      )
+    );
+  }
+
+  /**
+   * 更新状态并记录历史
+   */
+  private async updateStatus(
+    transaction: DelayedTransaction,
+    status: DelayedTransactionStatus,
+    result: { txHash?: string; error?: string } = {}
+  ): Promise<void> {
+    transaction.status = status;
+    if (result.txHash) {
+      transaction.txHash = result.txHash;
+    }
+    transaction.error = result.error;
+    transaction.history.push({ status, at: Date.now(), ...result });
+    await this.saveTransaction(transaction);
+  }
+
+  /**
+   * 保存延迟交易
+   */
+  private async saveTransaction(transaction: DelayedTransaction): Promise<void> {
+    const transactions = (await storageAdapter.get<DelayedTransaction[]>(StorageKey.DELAYED_TRANSACTIONS)) || [];
+    const index = transactions.findIndex((t) => t.id === transaction.id);
+    if (index >= 0) {
+      transactions[index] = transaction;
+    } else {
+      transactions.push(transaction);
+    }
+    await storageAdapter.set(StorageKey.DELAYED_TRANSACTIONS, transactions);
+  }
 }
@@ -0,0 +1,248 @@
+/**
+ * ConditionalTransactionPlugin 单元测试
+ *
+ * 测试事件日志、预言机价格、ERC-20 余额 / 授权与嵌套 AND / OR / NOT 条件，以及条件的序列化校验
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address, Hex } from 'viem';
+import {
+  ConditionType,
+  ConditionalTransactionPlugin,
+  allOf,
+  anyOf,
+  not,
+  parseConditions,
+  serializeConditions,
+  type Condition,
+} from '../ConditionalTransactionPlugin';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+const PLUGIN = '0x5555555555555555555555555555555555555555' as Address;
+const TOKEN = '0x7777777777777777777777777777777777777777' as Address;
+const SPENDER = '0x8888888888888888888888888888888888888888' as Address;
+const FEED = '0x9999999999999999999999999999999999999999' as Address;
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' as Hex;
+
+const publicClient = {
+  getBlockNumber: vi.fn(),
+  readContract: vi.fn(),
+  request: vi.fn(),
+};
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+  }),
+}));
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(),
+  },
+}));
+
+vi.mock('@/serviceWorker/MonitoringServiceWorker', () => ({
+  monitoringServiceWorker: {
+    isAvailable: vi.fn().mockReturnValue(true),
+    startScheduledMonitoring: vi.fn(),
+    stopMonitoring: vi.fn(),
+  },
+}));
+
+/** 按函数名返回合约读取结果 */
+function mockReads(results: Record<string, unknown>) {
+  publicClient.readContract.mockImplementation(async ({ functionName }: { functionName: string }) => {
+    if (!(functionName in results)) {
+      throw new Error(`unexpected read ${functionName}`);
+    }
+    return results[functionName];
+  });
+}
+
+describe('ConditionalTransactionPlugin', () => {
+  let plugin: ConditionalTransactionPlugin;
+
+  const check = async (...conditions: Condition[]) => {
+    const transaction = await plugin.createConditionalTransaction(ACCOUNT, 5000, {
+      conditions,
+      target: TOKEN,
+      data: '0x',
+      value: BigInt(0),
+    });
+    return plugin.checkTransaction(transaction.id);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    vi.mocked(rpcClientManager.getPublicClient).mockReturnValue(
+      publicClient as unknown as ReturnType<typeof rpcClientManager.getPublicClient>
+    );
+    plugin = new ConditionalTransactionPlugin(PLUGIN);
+  });
+
+  it('应该按 bigint 精度比较 ERC-20 余额与授权额度，并支持嵌套的 AND / OR / NOT', async () => {
+    // 超出 Number 安全整数范围，按 Number 比较会误判相等
+    mockReads({ balanceOf: BigInt('1000000000000000000000001'), allowance: BigInt(0) });
+    const balance: Condition = {
+      type: ConditionType.ERC20_BALANCE,
+      params: { token: TOKEN, owner: ACCOUNT },
+      operator: 'gt',
+      expectedValue: '1000000000000000000000000',
+    };
+    const allowanceGranted: Condition = {
+      type: ConditionType.ERC20_ALLOWANCE,
+      params: { token: TOKEN, owner: ACCOUNT, spender: SPENDER },
+      operator: 'gt',
+      expectedValue: '0',
+    };
+
+    expect(await check(balance)).toBe(true);
+    expect(await check(allOf(balance, allowanceGranted))).toBe(false);
+    expect(await check(allOf(balance, not(allowanceGranted)))).toBe(true);
+    expect(await check(anyOf(allowanceGranted, balance))).toBe(true);
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: TOKEN, functionName: 'allowance', args: [ACCOUNT, SPENDER] })
+    );
+    expect(rpcClientManager.getPublicClient).toHaveBeenCalledWith(5000);
+
+    // AND 在首个不满足的子条件处短路
+    publicClient.readContract.mockClear();
+    expect(await check(allOf(allowanceGranted, balance))).toBe(false);
+    expect(publicClient.readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it('预言机价格应该按 decimals 换算期望值，数据过期或轮次未完成时视为不满足', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const price: Condition = {
+      type: ConditionType.ORACLE_PRICE,
+      params: { address: FEED, maxAge: 3600 },
+      operator: 'lte',
+      expectedValue: '1850.5',
+    };
+
+    mockReads({ decimals: 8, latestRoundData: [BigInt(10), BigInt(185000000000), BigInt(0), BigInt(now - 60), BigInt(10)] });
+    expect(await check(price)).toBe(true);
+
+    mockReads({ decimals: 8, latestRoundData: [BigInt(10), BigInt(185100000000), BigInt(0), BigInt(now - 60), BigInt(10)] });
+    expect(await check(price)).toBe(false);
+
+    mockReads({ decimals: 8, latestRoundData: [BigInt(10), BigInt(185000000000), BigInt(0), BigInt(now - 7200), BigInt(10)] });
+    expect(await check(price)).toBe(false);
+
+    mockReads({ decimals: 8, latestRoundData: [BigInt(11), BigInt(185000000000), BigInt(0), BigInt(now - 60), BigInt(10)] });
+    expect(await check(price)).toBe(false);
+  });
+
+  it('事件条件应该从创建时的区块开始按地址与主题过滤日志', async () => {
+    publicClient.getBlockNumber.mockResolvedValue(BigInt(100));
+    publicClient.request.mockResolvedValueOnce([]).mockResolvedValueOnce([{ blockNumber: '0x65' }]);
+    const transaction = await plugin.createConditionalTransaction(ACCOUNT, 5000, {
+      conditions: [
+        not({
+          type: ConditionType.EVENT_EMITTED,
+          params: { address: TOKEN, topics: [TRANSFER_TOPIC, null] },
+          operator: 'gte',
+          expectedValue: 1,
+        }),
+      ],
+      target: TOKEN,
+      data: '0x',
+      value: BigInt(0),
+    });
+
+    // 起始区块写入条件后随交易持久化
+    expect(serializeConditions(transaction.config.conditions)).toContain('"fromBlock": "100"');
+    expect(await plugin.checkTransaction(transaction.id)).toBe(true);
+    expect(publicClient.request).toHaveBeenCalledWith({
+      method: 'eth_getLogs',
+      params: [{ address: TOKEN, topics: [TRANSFER_TOPIC, null], fromBlock: '0x64', toBlock: '0x64' }],
+    });
+
+    // 复用配置创建的交易重新从起始区块扫描
+    const second = await plugin.createConditionalTransaction(ACCOUNT, 5000, transaction.config);
+    expect(serializeConditions(second.config.conditions)).not.toContain('scannedBlock');
+    expect(await plugin.checkTransaction(second.id)).toBe(false);
+  });
+
+  it('事件条件应该从上次扫描到的区块增量查询，单次查询有区块上限，扫描进度随交易持久化', async () => {
+    publicClient.getBlockNumber.mockResolvedValue(BigInt(100));
+    const transaction = await plugin.createConditionalTransaction(ACCOUNT, 5000, {
+      conditions: [
+        { type: ConditionType.EVENT_EMITTED, params: { address: TOKEN }, operator: 'gte', expectedValue: 2 },
+      ],
+      target: TOKEN,
+      data: '0x',
+      value: BigInt(0),
+    });
+
+    publicClient.getBlockNumber.mockResolvedValue(BigInt(5000));
+    publicClient.request
+      .mockResolvedValueOnce([{ blockNumber: '0x65' }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ blockNumber: '0x1100' }]);
+    expect(await plugin.checkTransaction(transaction.id)).toBe(false);
+    expect(await plugin.checkTransaction(transaction.id)).toBe(false);
+
+    // 重新加载后从保存的扫描进度继续，累计的日志数量达到期望值
+    const reloaded = new ConditionalTransactionPlugin(PLUGIN);
+    await reloaded.init();
+    expect(await reloaded.checkTransaction(transaction.id)).toBe(true);
+
+    const ranges = publicClient.request.mock.calls.map(([{ params }]) => [params[0].fromBlock, params[0].toBlock]);
+    expect(ranges).toEqual([
+      ['0x64', '0x833'],
+      ['0x834', '0x1003'],
+      ['0x1004', '0x1388'],
+    ]);
+  });
+
+  it('同一交易的检查重叠时应该跳过，不重复累计事件日志', async () => {
+    publicClient.getBlockNumber.mockResolvedValue(BigInt(100));
+    const transaction = await plugin.createConditionalTransaction(ACCOUNT, 5000, {
+      conditions: [
+        { type: ConditionType.EVENT_EMITTED, params: { address: TOKEN }, operator: 'gte', expectedValue: 2 },
+      ],
+      target: TOKEN,
+      data: '0x',
+      value: BigInt(0),
+    });
+
+    publicClient.getBlockNumber.mockResolvedValue(BigInt(110));
+    publicClient.request.mockResolvedValue([{ blockNumber: '0x65' }]);
+    // 定时器与 Service Worker 同时触发检查
+    const results = await Promise.all([
+      plugin.checkTransaction(transaction.id),
+      plugin.checkTransaction(transaction.id),
+    ]);
+
+    expect(results).toEqual([false, false]);
+    expect(publicClient.request).toHaveBeenCalledTimes(1);
+    expect(serializeConditions(plugin.getConditionalTransaction(transaction.id)!.config.conditions)).toContain(
+      '"matchedCount": 1'
+    );
+  });
+
+  it('应该拒绝无法序列化或结构无效的条件', async () => {
+    const nested = allOf(
+      { type: ConditionType.BLOCK_NUMBER, params: {}, operator: 'gte', expectedValue: 10 },
+      not({ type: ConditionType.TIMESTAMP, params: {}, operator: 'lt', expectedValue: 1_700_000_000 })
+    );
+    expect(parseConditions(serializeConditions([nested]))).toEqual([nested]);
+
+    await expect(
+      check({ type: ConditionType.BALANCE, params: { address: ACCOUNT }, operator: 'gte', expectedValue: BigInt(1) })
+    ).rejects.toThrow('序列化');
+    await expect(
+      check({ type: ConditionType.NOT, params: { conditions: [nested, nested] }, operator: 'eq', expectedValue: true })
+    ).rejects.toThrow('not 条件只能有一个子条件');
+    expect(() => parseConditions('[{"type":"and","params":{"conditions":[]},"operator":"eq"}]')).toThrow(
+      '至少需要一个子条件'
+    );
+  });
+});
@@ -19,6 +19,24 @@ export interface MonitoringTaskConfig {
   interval?: number; // 检查间隔（毫秒），默认 5000
 }
 
+/**
+ * 定时 / 条件交易监控任务类型
+ */
+export type ScheduledMonitoringKind = 'conditional-transaction' | 'delayed-transaction';
+
+/**
+ * 定时 / 条件交易监控任务配置
+ *
+ * Service Worker 只负责计时，到期（或每个间隔）后通过 CHECK_SCHEDULED_TRANSACTION
+ * 请求主线程检查条件并执行
+ */
+export interface ScheduledMonitoringTaskConfig {
+  taskId: string;
+  kind: ScheduledMonitoringKind;
+  dueAt?: number; // 到期时间（毫秒时间戳），之前不发起检查
+  interval?: number; // 检查间隔（毫秒），默认 5000
+}
+
 /**
  * Service Worker 监控管理器
  */
@@ -88,6 +106,10 @@ export class MonitoringServiceWorker {
         );
         break;
 
+      case 'CHECK_SCHEDULED_TRANSACTION':
+        // 由 onMessage 注册的处理器处理（ScheduledTransactionService）
+        break;
+
       case 'CHECK_TASK_STATUS':
         // Service Worker 请求检查任务状态
         this.checkTaskStatusInMainThread(data);
@@ -164,6 +186,25 @@ export class MonitoringServiceWorker {
     });
   }
 
+  /**
+   * 启动定时 / 条件交易监控任务
+   */
+  async startScheduledMonitoring(config: ScheduledMonitoringTaskConfig): Promise<void> {
+    if (!this.registration?.active) {
+      throw new Error('Service Worker not ready');
+    }
+
+    this.registration.active.postMessage({
+      type: 'START_MONITORING',
+      data: {
+        taskId: config.taskId,
+        kind: config.kind,
+        dueAt: config.dueAt || 0,
+        interval: config.interval || 5000,
+      },
+    });
+  }
+
   /**
    * 停止监控任务
    */
@@ -0,0 +1,330 @@
+/**
+ * ABI / 函数选择器注册服务
+ *
+ * 离线解码调用数据与事件日志，供交互确认、交易历史与插件管理展示可读的方法名和参数：
+ * - 内置常用签名（见 config/abiSignatures）
+ * - 用户为自有合约注册的 ABI（可绑定合约地址与链），优先于内置签名
+ * - Kernel execute / executeBatch 的内层调用递归解码
+ *
+ * @module services/AbiRegistryService
+ */
+
+import {
+  decodeEventLog,
+  decodeFunctionData,
+  isAddress,
+  parseAbi,
+  toEventSelector,
+  toEventSignature,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Abi,
+  type AbiEvent,
+  type AbiFunction,
+  type AbiParameter,
+  type Address,
+  type Hex,
+} from 'viem';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import { BUNDLED_ABIS } from '@/config/abiSignatures';
+
+/**
+ * 用户注册的 ABI
+ */
+export interface RegisteredAbi {
+  id: string;
+  name: string;
+  /** 绑定的合约地址（为空时对所有合约生效） */
+  address?: Address;
+  /** 绑定的链（为空时对所有链生效） */
+  chainId?: number;
+  abi: Abi;
+  createdAt: number;
+}
+
+/**
+ * 注册 ABI 的输入
+ */
+export interface RegisterAbiInput {
+  name: string;
+  /** JSON ABI，或每行一个的可读签名（如 `function mint(address to, uint256 amount)`） */
+  abi: string | Abi;
+  address?: string;
+  chainId?: number;
+}
+
+/**
+ * 解码后的参数（值已格式化为字符串）
+ */
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+/**
+ * 解码后的调用
+ */
+export interface DecodedCall {
+  to?: Address;
+  value?: bigint;
+  data: Hex;
+  /** 函数选择器（空调用数据为 0x） */
+  selector: Hex;
+  /** 未命中签名库时为空 */
+  functionName?: string;
+  signature?: string;
+  args: DecodedArgument[];
+  /** 命中的签名来源：内置分组名称或用户注册的 ABI 名称 */
+  source?: string;
+  /** execute / executeBatch 的内层调用 */
+  children?: DecodedCall[];
+}
+
+/**
+ * 解码后的事件日志
+ */
+export interface DecodedLog {
+  address: Address;
+  eventName: string;
+  signature: string;
+  args: DecodedArgument[];
+  source: string;
+}
+
+type AbiSource = { name: string; abi: Abi };
+
+/** 内层调用的最大递归深度 */
+const MAX_DECODE_DEPTH = 4;
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value)
+      .map(([key, item]) => `${key}: ${formatValue(item)}`)
+      .join(', ')} }`;
+  }
+  return String(value);
+}
+
+function toArguments(inputs: readonly AbiParameter[], values: readonly unknown[] | Record<string, unknown>): DecodedArgument[] {
+  return inputs.map((input, index) => ({
+    name: input.name || `arg${index}`,
+    type: input.type,
+    value: formatValue(Array.isArray(values) ? values[index] : (values as Record<string, unknown>)[input.name || index]),
+  }));
+}
+
+export class AbiRegistryService {
+  private registered: RegisteredAbi[] = [];
+
+  /**
+   * 初始化，从存储加载用户注册的 ABI
+   */
+  async init(): Promise<void> {
+    this.registered = (await storageAdapter.get<RegisteredAbi[]>(StorageKey.ABI_REGISTRY)) || [];
+  }
+
+  /**
+   * 获取用户注册的 ABI 列表
+   */
+  getRegisteredAbis(): RegisteredAbi[] {
+    return [...this.registered];
+  }
+
+  /**
+   * 注册合约 ABI
+   */
+  async registerAbi(input: RegisterAbiInput): Promise<RegisteredAbi> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Invalid ABI: name is required');
+    }
+    if (input.address && !isAddress(input.address)) {
+      throw new Error('Invalid ABI: address is not a valid EVM address');
+    }
+
+    const abi = this.parseAbiInput(input.abi);
+    const entry: RegisteredAbi = {
+      id: `abi_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      address: input.address ? (input.address.toLowerCase() as Address) : undefined,
+      chainId: input.chainId,
+      abi,
+      createdAt: Date.now(),
+    };
+
+    this.registered.push(entry);
+    await this.save();
+    return entry;
+  }
+
+  /**
+   * 删除用户注册的 ABI
+   */
+  async removeAbi(id: string): Promise<void> {
+    this.registered = this.registered.filter((entry) => entry.id !== id);
+    await this.save();
+  }
+
+  /**
+   * 解码调用数据
+   *
+   * @param data 调用数据
+   * @param to 目标合约（用于匹配绑定地址的用户 ABI）
+   * @param chainId 链 ID
+   * @param value 调用附带的原生代币数量
+   */
+  decodeCall(data: Hex, to?: Address, chainId?: number, value?: bigint): DecodedCall {
+    return this.decodeCallAtDepth(data, to, chainId, value, 0);
+  }
+
+  /**
+   * 解码事件日志（未命中签名库时返回 null）
+   */
+  decodeLog(log: { address: Address; topics: Hex[]; data: Hex }, chainId?: number): DecodedLog | null {
+    const [topic0] = log.topics;
+    if (!topic0) {
+      return null;
+    }
+
+    for (const source of this.getSources(log.address, chainId)) {
+      const events = source.abi.filter(
+        (item): item is AbiEvent => item.type === 'event' && toEventSelector(item) === topic0
+      );
+      for (const event of events) {
+        try {
+          const decoded = decodeEventLog({
+            abi: [event],
+            topics: log.topics as [Hex, ...Hex[]],
+            data: log.data,
+            strict: true,
+          });
+          return {
+            address: log.address,
+            eventName: decoded.eventName,
+            signature: toEventSignature(event),
+            args: toArguments(event.inputs, (decoded.args || []) as readonly unknown[] | Record<string, unknown>),
+            source: source.name,
+          };
+        } catch {
+          // 同一 topic0 的不同 indexed 布局（如 ERC-20 / ERC-721 Transfer），继续尝试
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private decodeCallAtDepth(
+    data: Hex,
+    to: Address | undefined,
+    chainId: number | undefined,
+    value: bigint | undefined,
+    depth: number
+  ): DecodedCall {
+    const selector = data.slice(0, 10) as Hex;
+    const call: DecodedCall = { to, value, data, selector, args: [] };
+    if (selector.length < 10) {
+      return call;
+    }
+
+    for (const source of this.getSources(to, chainId)) {
+      const functions = source.abi.filter(
+        (item): item is AbiFunction => item.type === 'function' && toFunctionSelector(item) === selector
+      );
+      for (const fn of functions) {
+        try {
+          const decoded = decodeFunctionData({ abi: [fn], data });
+          const args = (decoded.args || []) as readonly unknown[];
+          call.functionName = decoded.functionName;
+          call.signature = toFunctionSignature(fn);
+          call.args = toArguments(fn.inputs, args);
+          call.source = source.name;
+          if (depth < MAX_DECODE_DEPTH) {
+            call.children = this.decodeInnerCalls(fn, args, chainId, depth);
+          }
+          return call;
+        } catch {
+          // 参数布局不匹配，继续尝试下一个候选签名
+        }
+      }
+    }
+
+    return call;
+  }
+
+  /**
+   * 递归解码 Kernel execute / executeBatch 的内层调用
+   */
+  private decodeInnerCalls(
+    fn: AbiFunction,
+    args: readonly unknown[],
+    chainId: number | undefined,
+    depth: number
+  ): DecodedCall[] | undefined {
+    const signature = toFunctionSignature(fn);
+    if (signature === 'execute(address,uint256,bytes)') {
+      const [target, value, data] = args as [Address, bigint, Hex];
+      return [this.decodeCallAtDepth(data, target, chainId, value, depth + 1)];
+    }
+    if (signature === 'executeBatch(address[],uint256[],bytes[])') {
+      const [targets, values, datas] = args as [Address[], bigint[], Hex[]];
+      return targets.map((target, index) =>
+        this.decodeCallAtDepth(datas[index], target, chainId, values[index], depth + 1)
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * 按优先级返回候选签名来源：绑定地址的用户 ABI → 通用用户 ABI → 内置签名
+   */
+  private getSources(to?: Address, chainId?: number): AbiSource[] {
+    const matchesChain = (entry: RegisteredAbi) =>
+      entry.chainId === undefined || chainId === undefined || entry.chainId === chainId;
+    const bound = this.registered.filter((entry) => entry.address && sameAddress(entry.address, to) && matchesChain(entry));
+    const generic = this.registered.filter((entry) => !entry.address && matchesChain(entry));
+    return [...bound, ...generic, ...BUNDLED_ABIS];
+  }
+
+  private parseAbiInput(input: string | Abi): Abi {
+    let abi: Abi;
+    try {
+      if (typeof input !== 'string') {
+        abi = input;
+      } else if (input.trim().startsWith('[')) {
+        abi = JSON.parse(input) as Abi;
+      } else {
+        const lines = input
+          .split('\n')
+          .map((line) => line.trim())
+          .filter(Boolean);
+        abi = parseAbi(lines);
+      }
+    } catch (error) {
+      throw new Error(`Invalid ABI: ${error instanceof Error ? error.message : 'unable to parse'}`);
+    }
+
+    if (!Array.isArray(abi) || !abi.some((item) => item.type === 'function' || item.type === 'event')) {
+      throw new Error('Invalid ABI: no function or event definitions found');
+    }
+    return abi;
+  }
+
+  private async save(): Promise<void> {
+    await storageAdapter.set(StorageKey.ABI_REGISTRY, this.registered);
+  }
+}
+
+export const abiRegistryService = new AbiRegistryService();
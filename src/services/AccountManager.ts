@@ -5,7 +5,7 @@
  * 直接使用 kernel-dev 中的 Factory 合约接口
  */
 
-import { type Address, type Hash, encodeFunctionData } from 'viem';
+import { type Address, type Hash, type Hex, encodeFunctionData } from 'viem';
 import { AccountInfo, StorageKey, AccountCreationPath, UserType } from '@/types';
 import { requireChainConfig } from '@/utils/chainConfigValidation';
 import { storageAdapter } from '@/adapters/StorageAdapter';
@@ -84,6 +84,27 @@ export class AccountManager {
     );
   }
 
+  /**
+   * 获取账户的工厂部署数据
+   * 
+   * 返回 KernelFactory 地址与 createAccount(initData, salt) 调用数据，
+   * 用于 ERC-6492 签名包装等需要描述“如何部署该账户”的场景
+   * 
+   * @param owner 账户所有者地址（签名者）
+   * @param chainId 链 ID
+   */
+  async getFactoryData(owner: Address, chainId: number): Promise<{ factory: Address; factoryData: Hex }> {
+    const chainConfig = requireChainConfig(chainId, ['kernelFactoryAddress']);
+    const initData = this.buildInitData(owner, chainId);
+    const salt = await this.generateSalt(owner, chainId);
+
+    const { encodeCreateAccountCallData } = await import('@/utils/kernel');
+    return {
+      factory: chainConfig.kernelFactoryAddress as Address,
+      factoryData: encodeCreateAccountCallData(initData, salt),
+    };
+  }
+
   /**
    * 创建并部署账户（返回地址）
    * 
@@ -350,6 +371,32 @@ export class AccountManager {
     await this.saveAccounts();
   }
 
+  /**
+   * 将账户标记为已部署
+   * 
+   * 反事实账户随首笔 UserOperation 的 initCode 部署，上链后调用；
+   * 状态变化以 `account:deployed` 事件广播，供 AccountStore 刷新
+   * 
+   * @returns 更新后的账户信息，账户不存在时返回 null
+   */
+  async markAccountDeployed(address: Address, chainId: number, deployedAt: number = Date.now()): Promise<AccountInfo | null> {
+    const account = await this.getAccountByAddress(address, chainId);
+    if (!account) {
+      return null;
+    }
+    if (account.status === 'deployed') {
+      return account;
+    }
+
+    const deployed: AccountInfo = { ...account, status: 'deployed', deployedAt };
+    await this.saveAccount(deployed);
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('account:deployed', { detail: deployed }));
+    }
+    return deployed;
+  }
+
   /**
    * 检查账户是否存在
    * 
@@ -41,6 +41,7 @@ export class AuthService {
       this.session = storedSession;
       this.startAutoLock();
       this.setupActivityListeners();
+      this.dispatchLockState(false);
     } else {
       // 会话已过期，清除
       await this.clearSession();
@@ -161,6 +162,7 @@ export class AuthService {
     await storageAdapter.set(StorageKey.SESSION, this.session);
     this.startAutoLock();
     this.setupActivityListeners();
+    this.dispatchLockState(false);
     return true;
   }
 
@@ -379,10 +381,26 @@ export class AuthService {
    * 清除会话
    */
   private async clearSession(): Promise<void> {
+    const wasUnlocked = this.session !== null;
     this.session = null;
     await storageAdapter.remove(StorageKey.SESSION);
     this.stopAutoLock();
     this.removeActivityListeners();
+    if (wasUnlocked) {
+      this.dispatchLockState(true);
+    }
+  }
+
+  /**
+   * 广播锁定状态变化（wallet:locked / wallet:unlocked）
+   *
+   * AccountStore 据此更新 isLocked，Provider 再由 MobX reaction 向 DApp 发出事件
+   */
+  private dispatchLockState(locked: boolean): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    window.dispatchEvent(new CustomEvent(locked ? 'wallet:locked' : 'wallet:unlocked'));
   }
 
   /**
@@ -2,13 +2,25 @@
  * Bundler 客户端
  * 
  * 负责与 ERC-4337 Bundler 服务交互
- * 支持多服务商故障转移
+ * 支持多服务商故障转移：
+ * - 每条链可配置多个 Bundler（链配置、环境变量备用节点、设置中的自定义节点）
+ * - 按健康检查与请求延迟计算滚动健康分，优先使用健康节点
+ * - 连续失败的节点熔断一段时间
+ * - 仅选择 eth_supportedEntryPoints 包含该链 EntryPoint 的节点
  */
 
-import { UserOperation } from '@/types';
-import type { Address, Hash } from 'viem';
+import { UserOperation, EntryPointVersion } from '@/types';
+import { encodeFunctionData, type Address, type Hash, type Hex } from 'viem';
 import { rpcClientManager } from '@/utils/RpcClientManager';
 import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { settingsService } from './SettingsService';
+import { ENTRYPOINT_V07_ADDRESS } from '@/utils/kernel-types';
+import {
+  resolveEntryPointVersion,
+  splitInitCode,
+  splitPaymasterAndData,
+  toPackedUserOperation,
+} from '@/utils/userOperation';
 
 const ENTRYPOINT_HANDLE_OPS_ABI = [
   {
@@ -39,6 +51,74 @@ const ENTRYPOINT_HANDLE_OPS_ABI = [
   },
 ] as const;
 
+const ENTRYPOINT_V07_HANDLE_OPS_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: 'sender', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'initCode', type: 'bytes' },
+          { name: 'callData', type: 'bytes' },
+          { name: 'accountGasLimits', type: 'bytes32' },
+          { name: 'preVerificationGas', type: 'uint256' },
+          { name: 'gasFees', type: 'bytes32' },
+          { name: 'paymasterAndData', type: 'bytes' },
+          { name: 'signature', type: 'bytes' },
+        ],
+        name: 'ops',
+        type: 'tuple[]',
+      },
+      { name: 'beneficiary', type: 'address' },
+    ],
+    name: 'handleOps',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+/**
+ * Bundler 返回的 Gas 估算结果
+ *
+ * v0.7 Bundler 在使用 Paymaster 时额外返回 Paymaster 的验证 / postOp Gas 限制
+ */
+export interface UserOperationGasEstimate {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * eth_getUserOperationByHash 返回结果（仅保留跟踪需要的字段）
+ */
+export interface UserOperationByHashResult {
+  entryPoint: Address;
+  transactionHash: Hash | null;
+  blockHash: Hash | null;
+  blockNumber: Hex | null;
+}
+
+/**
+ * Bundler 建议的 UserOperation Gas 费（pimlico_getUserOperationGasPrice）
+ */
+export interface BundlerGasPrice {
+  slow: UserOperationGasFees;
+  standard: UserOperationGasFees;
+  fast: UserOperationGasFees;
+}
+
+export interface UserOperationGasFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+type RawGasFees = { maxFeePerGas: Hex; maxPriorityFeePerGas: Hex };
+
+const toHexQuantity = (value: bigint) => `0x${value.toString(16)}`;
+
 export class BundlerUnavailableError extends Error {
   code = 'BUNDLER_UNAVAILABLE';
   constructor(message: string) {
@@ -47,6 +127,22 @@ export class BundlerUnavailableError extends Error {
   }
 }
 
+/**
+ * Bundler 返回的 JSON-RPC 错误
+ * 
+ * 属于请求本身的错误（如 AA 校验失败），换用其他 Bundler 也无法成功，因此不触发故障转移
+ */
+export class BundlerRpcError extends Error {
+  rpcCode: number;
+  data?: unknown;
+  constructor(message: string, rpcCode: number, data?: unknown) {
+    super(message);
+    this.name = 'BundlerRpcError';
+    this.rpcCode = rpcCode;
+    this.data = data;
+  }
+}
+
 export interface BundlerConfig {
   url: string;
   name: string;
@@ -54,10 +150,67 @@ export interface BundlerConfig {
   chainId?: number; // 关联的链ID，用于获取EntryPoint地址
 }
 
+/**
+ * Bundler 熔断状态
+ * 
+ * - closed：正常使用
+ * - open：连续失败后熔断，冷却期内不会被选中
+ * - half-open：冷却结束，允许试探请求，成功后恢复、失败后重新熔断
+ */
+export type BundlerCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Bundler 健康状态（供设置页展示）
+ */
+export interface BundlerStatus extends BundlerConfig {
+  /** 0-100 滚动健康分（成功率按延迟加权） */
+  score: number;
+  /** 请求延迟滚动均值（毫秒），尚无样本时为空 */
+  latencyMs?: number;
+  consecutiveFailures: number;
+  circuitState: BundlerCircuitState;
+  /** 熔断恢复时间 */
+  circuitOpenUntil?: number;
+  /** eth_supportedEntryPoints 返回的 EntryPoint（尚未查询时为空） */
+  supportedEntryPoints?: string[];
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+interface BundlerHealthState {
+  /** 成功率滚动均值（0-1） */
+  successRate: number;
+  latencyMs?: number;
+  consecutiveFailures: number;
+  openUntil?: number;
+  supportedEntryPoints?: string[];
+  entryPointsCheckedAt?: number;
+  /** 节点不支持 Bundler 专有的 Gas 价格接口 */
+  gasPriceUnsupported?: boolean;
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+/** 健康分滚动权重（新样本占比） */
+const HEALTH_SMOOTHING = 0.3;
+/** 连续失败达到该次数后熔断 */
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+/** 熔断冷却时间 */
+const CIRCUIT_OPEN_MS = 30_000;
+/** eth_supportedEntryPoints 结果缓存时间 */
+const ENTRY_POINTS_CACHE_MS = 10 * 60_000;
+/** 延迟不超过 FAST 时不扣分，达到 SLOW 时健康分减半 */
+const FAST_LATENCY_MS = 500;
+const SLOW_LATENCY_MS = 5_000;
+/** 表示节点自身不可用的 JSON-RPC 错误码（方法不存在、限流），需要故障转移 */
+const ENDPOINT_ERROR_CODES = new Set([-32601, -32005]);
+const METHOD_NOT_FOUND_CODE = -32601;
+
 export class BundlerClient {
   private bundlers: BundlerConfig[] = [];
   private currentBundler: BundlerConfig | null = null;
   private currentChainId: number | null = null;
+  private health = new Map<string, BundlerHealthState>();
 
   /**
    * 添加 Bundler 服务
@@ -76,12 +229,44 @@ export class BundlerClient {
    * 确保 bundler 已注册（幂等）
    */
   ensureBundler(config: BundlerConfig): void {
-    const exists = this.bundlers.some((b) => b.url === config.url);
+    const exists = this.bundlers.some((b) => b.url === config.url && b.chainId === config.chainId);
     if (!exists) {
       this.addBundler(config);
     }
   }
 
+  /**
+   * 注册链的全部 Bundler 并设为当前链
+   * 
+   * 来源依次为：链配置的主 Bundler、环境变量中的备用 Bundler、设置中用户添加的 Bundler
+   * 
+   * @returns 该链可用的 Bundler 列表（为空表示未配置）
+   */
+  async configureChain(chainId: number): Promise<BundlerConfig[]> {
+    const chainConfig = requireChainConfig(chainId);
+    let custom: string[] = [];
+    try {
+      custom = await settingsService.getBundlerEndpoints(chainId);
+    } catch (error) {
+      console.warn('Failed to load custom bundlers:', error);
+    }
+
+    const urls = [chainConfig.bundlerUrl, ...(chainConfig.bundlerUrls ?? []), ...custom].filter(
+      (url): url is string => !!url
+    );
+    // 重建该链的列表，使设置中删除或调整顺序的节点即时生效（健康状态按 URL 保留）
+    this.bundlers = this.bundlers.filter((bundler) => bundler.chainId !== chainId);
+    if (this.currentBundler?.chainId === chainId) {
+      this.currentBundler = null;
+    }
+    Array.from(new Set(urls)).forEach((url, index) => {
+      this.addBundler({ url, name: url, priority: index + 1, chainId });
+    });
+    this.setChainId(chainId);
+
+    return this.getChainBundlers(chainId);
+  }
+
   /**
    * 设置当前使用的 Bundler
    */
@@ -105,44 +290,122 @@ export class BundlerClient {
   /**
    * 发送 UserOperation
    * 
-   * 优先使用 currentBundler，如果失败则尝试其他 bundlers
+   * 按健康分依次尝试支持该链 EntryPoint 的 Bundler，节点故障时自动切换
    */
   async sendUserOperation(userOp: UserOperation, chainId?: number): Promise<Hash> {
-    if (this.bundlers.length === 0) {
-      throw new BundlerUnavailableError('No bundler configured');
-    }
+    const { address: entryPointAddress, version } = this.getEntryPoint(chainId);
+    return this.requestWithFailover<Hash>(
+      'eth_sendUserOperation',
+      [this.formatUserOperation(userOp, version), entryPointAddress],
+      chainId,
+      entryPointAddress
+    );
+  }
 
-    const entryPointAddress = this.getEntryPointAddress(chainId);
+  /**
+   * 获取链上各 Bundler 的健康状态
+   */
+  getBundlerStatus(chainId?: number): BundlerStatus[] {
+    const now = Date.now();
+    return this.getChainBundlers(chainId).map((bundler) => {
+      const state = this.health.get(bundler.url);
+      return {
+        ...bundler,
+        score: this.getHealthScore(bundler.url),
+        latencyMs: state?.latencyMs,
+        consecutiveFailures: state?.consecutiveFailures ?? 0,
+        circuitState: this.getCircuitState(bundler.url, now),
+        circuitOpenUntil: state?.openUntil,
+        supportedEntryPoints: state?.supportedEntryPoints,
+        lastError: state?.lastError,
+        lastCheckedAt: state?.lastCheckedAt,
+      };
+    });
+  }
 
-    // 构建尝试列表：优先使用 currentBundler
-    const bundlersToTry: BundlerConfig[] = [];
-    if (this.currentBundler) {
-      bundlersToTry.push(this.currentBundler);
-    }
-    // 添加其他 bundlers（排除已添加的 currentBundler）
-    for (const bundler of this.bundlers) {
-      if (bundler.url !== this.currentBundler?.url) {
-        bundlersToTry.push(bundler);
-      }
+  /**
+   * 对链上全部 Bundler 执行健康检查，并刷新 EntryPoint 支持情况
+   */
+  async refreshHealth(chainId: number): Promise<BundlerStatus[]> {
+    const { address: entryPointAddress } = this.getEntryPoint(chainId);
+    await Promise.all(
+      this.getChainBundlers(chainId).map(async (bundler) => {
+        const healthy = await this.healthCheck(bundler.url);
+        if (healthy) {
+          const state = this.getHealthState(bundler.url);
+          state.entryPointsCheckedAt = undefined;
+          await this.supportsEntryPoint(bundler.url, entryPointAddress).catch(() => false);
+        }
+      })
+    );
+    return this.getBundlerStatus(chainId);
+  }
+
+  /**
+   * 获取链关联的 Bundler（未绑定链的 Bundler 对所有链生效）
+   */
+  private getChainBundlers(chainId?: number | null): BundlerConfig[] {
+    return this.bundlers.filter(
+      (bundler) => !chainId || bundler.chainId === undefined || bundler.chainId === chainId
+    );
+  }
+
+  /**
+   * 按健康分排序的候选 Bundler（排除熔断中的节点）
+   * 
+   * 同分时优先上次成功的节点，其次按配置优先级
+   */
+  private getCandidates(chainId?: number | null): BundlerConfig[] {
+    const now = Date.now();
+    const rank = (bundler: BundlerConfig) => (bundler.url === this.currentBundler?.url ? 0 : 1);
+    return this.getChainBundlers(chainId)
+      .filter((bundler) => this.getCircuitState(bundler.url, now) !== 'open')
+      .sort(
+        (a, b) =>
+          this.getHealthScore(b.url) - this.getHealthScore(a.url) ||
+          rank(a) - rank(b) ||
+          a.priority - b.priority
+      );
+  }
+
+  /**
+   * 依次请求候选 Bundler，节点故障（网络错误、HTTP 错误、方法不支持、限流）时切换到下一个
+   * 
+   * @param entryPointAddress 需要节点支持的 EntryPoint（为空时不检查）
+   */
+  private async requestWithFailover<T>(
+    method: string,
+    params: unknown[],
+    chainId?: number,
+    entryPointAddress?: string
+  ): Promise<T> {
+    const targetChainId = chainId || this.currentChainId;
+    if (this.getChainBundlers(targetChainId).length === 0) {
+      throw new BundlerUnavailableError('No bundler configured');
     }
 
-    // 如果 currentBundler 未设置，使用列表顺序
-    if (bundlersToTry.length === 0) {
-      bundlersToTry.push(...this.bundlers);
+    const candidates = this.getCandidates(targetChainId);
+    if (candidates.length === 0) {
+      throw new BundlerUnavailableError('All bundlers are temporarily disabled after repeated failures');
     }
 
-    // 尝试发送，如果失败则尝试下一个
     let lastError: Error | null = null;
-    for (const bundler of bundlersToTry) {
+    for (const bundler of candidates) {
       try {
-        const hash = await this.sendToBundler(userOp, bundler.url, entryPointAddress);
+        if (entryPointAddress && !(await this.supportsEntryPoint(bundler.url, entryPointAddress))) {
+          lastError = new Error(`${bundler.name} does not support EntryPoint ${entryPointAddress}`);
+          continue;
+        }
+        const result = await this.rpc<T>(bundler.url, method, params);
         // 成功时更新 currentBundler
         this.currentBundler = bundler;
-        return hash;
+        return result;
       } catch (error) {
+        if (error instanceof BundlerRpcError && !ENDPOINT_ERROR_CODES.has(error.rpcCode)) {
+          throw error;
+        }
         console.warn(`Bundler ${bundler.name} failed, trying next...`, error);
         lastError = error as Error;
-        continue;
       }
     }
 
@@ -150,99 +413,170 @@ export class BundlerClient {
   }
 
   /**
-   * 发送到指定的 Bundler
+   * 检查 Bundler 是否支持指定 EntryPoint（eth_supportedEntryPoints，结果缓存）
    */
-  private async sendToBundler(userOp: UserOperation, bundlerUrl: string, entryPointAddress: string): Promise<Hash> {
-    // ERC-4337 Bundler RPC 格式
-    // method: eth_sendUserOperation
-    // params: [userOp, entryPointAddress]
+  private async supportsEntryPoint(url: string, entryPointAddress: string): Promise<boolean> {
+    const state = this.getHealthState(url);
+    const now = Date.now();
+    if (!state.supportedEntryPoints || !state.entryPointsCheckedAt || now - state.entryPointsCheckedAt > ENTRY_POINTS_CACHE_MS) {
+      try {
+        const supported = await this.rpc<string[]>(url, 'eth_supportedEntryPoints', []);
+        state.supportedEntryPoints = Array.isArray(supported) ? supported.map((address) => address.toLowerCase()) : [];
+      } catch (error) {
+        if (!(error instanceof BundlerRpcError) || ENDPOINT_ERROR_CODES.has(error.rpcCode)) {
+          throw error;
+        }
+        state.supportedEntryPoints = [];
+      }
+      state.entryPointsCheckedAt = now;
+    }
+    return state.supportedEntryPoints.includes(entryPointAddress.toLowerCase());
+  }
+
+  /**
+   * 向指定 Bundler 发送 JSON-RPC 请求，并记录健康状态
+   * 
+   * @param optionalMethod 方法为部分 Bundler 才提供的扩展接口，方法不存在时不计为节点故障
+   */
+  private async rpc<T>(url: string, method: string, params: unknown[], optionalMethod = false): Promise<T> {
     const request = {
       jsonrpc: '2.0',
       id: Date.now(),
-      method: 'eth_sendUserOperation',
-      params: [this.formatUserOperation(userOp), entryPointAddress],
+      method,
+      params,
     };
 
-    const response = await fetch(bundlerUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+    } catch (error) {
+      this.recordFailure(url, error);
+      throw error;
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Bundler request failed: ${response.statusText} - ${errorText}`);
+      const error = new Error(`Bundler request failed: ${response.statusText} - ${errorText}`);
+      this.recordFailure(url, error);
+      throw error;
     }
 
     const result = await response.json();
     if (result.error) {
-      throw new Error(result.error.message || `Bundler error: ${JSON.stringify(result.error)}`);
+      const error = new BundlerRpcError(
+        result.error.message || `Bundler error: ${JSON.stringify(result.error)}`,
+        result.error.code,
+        result.error.data
+      );
+      if (ENDPOINT_ERROR_CODES.has(error.rpcCode) && !(optionalMethod && error.rpcCode === METHOD_NOT_FOUND_CODE)) {
+        this.recordFailure(url, error);
+      } else {
+        this.recordSuccess(url, Date.now() - startedAt);
+      }
+      throw error;
     }
 
-    return result.result as Hash;
+    this.recordSuccess(url, Date.now() - startedAt);
+    return result.result as T;
+  }
+
+  private getHealthState(url: string): BundlerHealthState {
+    let state = this.health.get(url);
+    if (!state) {
+      state = { successRate: 1, consecutiveFailures: 0 };
+      this.health.set(url, state);
+    }
+    return state;
+  }
+
+  private getHealthScore(url: string): number {
+    const state = this.health.get(url);
+    if (!state) {
+      return 100;
+    }
+    let latencyFactor = 1;
+    if (state.latencyMs !== undefined && state.latencyMs > FAST_LATENCY_MS) {
+      const slowness = Math.min(1, (state.latencyMs - FAST_LATENCY_MS) / (SLOW_LATENCY_MS - FAST_LATENCY_MS));
+      latencyFactor = 1 - slowness / 2;
+    }
+    return Math.round(state.successRate * 100 * latencyFactor);
+  }
+
+  private getCircuitState(url: string, now: number): BundlerCircuitState {
+    const openUntil = this.health.get(url)?.openUntil;
+    if (!openUntil) {
+      return 'closed';
+    }
+    return now < openUntil ? 'open' : 'half-open';
+  }
+
+  private recordSuccess(url: string, latencyMs: number): void {
+    const state = this.getHealthState(url);
+    state.successRate = state.successRate * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+    state.latencyMs =
+      state.latencyMs === undefined
+        ? latencyMs
+        : Math.round(state.latencyMs * (1 - HEALTH_SMOOTHING) + latencyMs * HEALTH_SMOOTHING);
+    state.consecutiveFailures = 0;
+    state.openUntil = undefined;
+    state.lastError = undefined;
+    state.lastCheckedAt = Date.now();
+  }
+
+  private recordFailure(url: string, error: unknown): void {
+    const state = this.getHealthState(url);
+    state.successRate = state.successRate * (1 - HEALTH_SMOOTHING);
+    state.consecutiveFailures += 1;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.lastCheckedAt = Date.now();
+    // 达到阈值后熔断；半开状态下的试探失败会直接重新熔断
+    if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      state.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+    }
   }
 
   /**
-   * 获取 EntryPoint 地址
+   * 获取 EntryPoint 地址与版本
    * 从链配置中获取，如果未配置则使用默认地址
    */
-  private getEntryPointAddress(chainId?: number): string {
+  private getEntryPoint(chainId?: number): { address: string; version: EntryPointVersion } {
     const targetChainId = chainId || this.currentChainId;
     if (targetChainId) {
       try {
         const chainConfig = requireChainConfig(targetChainId, ['entryPointAddress']);
-        return chainConfig.entryPointAddress;
+        return {
+          address: chainConfig.entryPointAddress,
+          version: resolveEntryPointVersion(chainConfig),
+        };
       } catch {
         // 保留降级路径，避免估算流程因配置缺失直接中断
       }
     }
-    // 降级方案：使用标准的 EntryPoint 地址（ERC-4337 v0.6）
-    return '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+    // 降级方案：使用标准的 EntryPoint 地址（ERC-4337 v0.7）
+    return { address: ENTRYPOINT_V07_ADDRESS, version: '0.7' };
   }
 
   /**
    * 估算 UserOperation Gas
    */
-  async estimateUserOperationGas(userOp: UserOperation, chainId?: number): Promise<{
-    callGasLimit: bigint;
-    verificationGasLimit: bigint;
-    preVerificationGas: bigint;
-  }> {
-    if (!this.currentBundler) {
-      throw new BundlerUnavailableError('No bundler configured');
-    }
-
-    const entryPointAddress = this.getEntryPointAddress(chainId);
-    const request = {
-      jsonrpc: '2.0',
-      id: Date.now(),
-      method: 'eth_estimateUserOperationGas',
-      params: [this.formatUserOperation(userOp), entryPointAddress],
-    };
-
-    const response = await fetch(this.currentBundler.url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Bundler request failed: ${response.statusText} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    if (result.error) {
-      throw new Error(result.error.message || `Bundler error: ${JSON.stringify(result.error)}`);
-    }
+  async estimateUserOperationGas(userOp: UserOperation, chainId?: number): Promise<UserOperationGasEstimate> {
+    const { address: entryPointAddress, version } = this.getEntryPoint(chainId);
+    const gasResult = await this.requestWithFailover<Record<string, string | number | null | undefined>>(
+      'eth_estimateUserOperationGas',
+      [this.formatUserOperation(userOp, version), entryPointAddress],
+      chainId,
+      entryPointAddress
+    );
 
     // 处理不同格式的返回值
-    const gasResult = result.result;
-    return {
+    const estimate: UserOperationGasEstimate = {
       callGasLimit: typeof gasResult.callGasLimit === 'string' 
         ? BigInt(gasResult.callGasLimit) 
         : BigInt(gasResult.callGasLimit || 0),
@@ -253,29 +587,67 @@ export class BundlerClient {
         ? BigInt(gasResult.preVerificationGas)
         : BigInt(gasResult.preVerificationGas || 0),
     };
+    if (gasResult.paymasterVerificationGasLimit !== undefined && gasResult.paymasterVerificationGasLimit !== null) {
+      estimate.paymasterVerificationGasLimit = BigInt(gasResult.paymasterVerificationGasLimit);
+    }
+    if (gasResult.paymasterPostOpGasLimit !== undefined && gasResult.paymasterPostOpGasLimit !== null) {
+      estimate.paymasterPostOpGasLimit = BigInt(gasResult.paymasterPostOpGasLimit);
+    }
+    return estimate;
   }
 
   /**
    * 格式化 UserOperation 为 Bundler 期望的格式
+   * 
+   * - v0.6：initCode / paymasterAndData 原样发送
+   * - v0.7：拆分为 factory / factoryData 与 paymaster / paymasterData，并附带 Paymaster Gas 限制；
+   *   未部署工厂或未使用 Paymaster 时省略对应字段
    */
-  private formatUserOperation(userOp: UserOperation): unknown {
+  private formatUserOperation(userOp: UserOperation, version: EntryPointVersion): unknown {
+    if (version === '0.6') {
+      return {
+        sender: userOp.sender,
+        nonce: toHexQuantity(userOp.nonce),
+        initCode: userOp.initCode,
+        callData: userOp.callData,
+        callGasLimit: toHexQuantity(userOp.callGasLimit),
+        verificationGasLimit: toHexQuantity(userOp.verificationGasLimit),
+        preVerificationGas: toHexQuantity(userOp.preVerificationGas),
+        maxFeePerGas: toHexQuantity(userOp.maxFeePerGas),
+        maxPriorityFeePerGas: toHexQuantity(userOp.maxPriorityFeePerGas),
+        paymasterAndData: userOp.paymasterAndData,
+        signature: userOp.signature,
+      };
+    }
+
+    const { factory, factoryData } = splitInitCode(userOp.initCode);
+    const { paymaster, paymasterData } = splitPaymasterAndData(userOp.paymasterAndData);
     return {
       sender: userOp.sender,
-      nonce: `0x${userOp.nonce.toString(16)}`,
-      initCode: userOp.initCode,
+      nonce: toHexQuantity(userOp.nonce),
+      ...(factory ? { factory, factoryData } : {}),
       callData: userOp.callData,
-      callGasLimit: `0x${userOp.callGasLimit.toString(16)}`,
-      verificationGasLimit: `0x${userOp.verificationGasLimit.toString(16)}`,
-      preVerificationGas: `0x${userOp.preVerificationGas.toString(16)}`,
-      maxFeePerGas: `0x${userOp.maxFeePerGas.toString(16)}`,
-      maxPriorityFeePerGas: `0x${userOp.maxPriorityFeePerGas.toString(16)}`,
-      paymasterAndData: userOp.paymasterAndData,
+      callGasLimit: toHexQuantity(userOp.callGasLimit),
+      verificationGasLimit: toHexQuantity(userOp.verificationGasLimit),
+      preVerificationGas: toHexQuantity(userOp.preVerificationGas),
+      maxFeePerGas: toHexQuantity(userOp.maxFeePerGas),
+      maxPriorityFeePerGas: toHexQuantity(userOp.maxPriorityFeePerGas),
+      ...(paymaster
+        ? {
+            paymaster,
+            paymasterVerificationGasLimit: toHexQuantity(userOp.paymasterVerificationGasLimit ?? 0n),
+            paymasterPostOpGasLimit: toHexQuantity(userOp.paymasterPostOpGasLimit ?? 0n),
+            paymasterData,
+          }
+        : {}),
       signature: userOp.signature,
     };
   }
 
   /**
    * 健康检查
+   * 
+   * 结果与响应延迟计入该 Bundler 的滚动健康分
    */
   async healthCheck(bundlerUrl?: string): Promise<boolean> {
     const url = bundlerUrl || this.currentBundler?.url;
@@ -283,6 +655,17 @@ export class BundlerClient {
       return false;
     }
 
+    const startedAt = Date.now();
+    const healthy = await this.probe(url);
+    if (healthy) {
+      this.recordSuccess(url, Date.now() - startedAt);
+    } else {
+      this.recordFailure(url, new Error('Health check failed'));
+    }
+    return healthy;
+  }
+
+  private async probe(url: string): Promise<boolean> {
     try {
       const response = await fetch(`${url}/health`, {
         method: 'GET',
@@ -307,37 +690,58 @@ export class BundlerClient {
   /**
    * 获取 UserOperation 状态
    */
-  async getUserOperationReceipt(userOpHash: Hash): Promise<unknown> {
-    if (!this.currentBundler) {
-      throw new Error('No bundler configured');
-    }
-
-    const request = {
-      jsonrpc: '2.0',
-      id: Date.now(),
-      method: 'eth_getUserOperationReceipt',
-      params: [userOpHash],
-    };
-
-    const response = await fetch(this.currentBundler.url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
+  async getUserOperationReceipt(userOpHash: Hash, chainId?: number): Promise<unknown> {
+    return this.requestWithFailover('eth_getUserOperationReceipt', [userOpHash], chainId);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Bundler request failed: ${response.statusText} - ${errorText}`);
-    }
+  /**
+   * 按哈希查询 UserOperation（eth_getUserOperationByHash）
+   *
+   * 仍在内存池时 transactionHash 为空；Bundler 未知该操作时返回 null
+   */
+  async getUserOperationByHash(userOpHash: Hash, chainId?: number): Promise<UserOperationByHashResult | null> {
+    const result = await this.requestWithFailover<UserOperationByHashResult | null>(
+      'eth_getUserOperationByHash',
+      [userOpHash],
+      chainId
+    );
+    return result ?? null;
+  }
 
-    const result = await response.json();
-    if (result.error) {
-      throw new Error(result.error.message || `Bundler error: ${JSON.stringify(result.error)}`);
+  /**
+   * 获取 Bundler 建议的 Gas 费（pimlico_getUserOperationGasPrice）
+   * 
+   * 仅部分 Bundler 提供该接口：按健康分依次尝试，不支持的节点记录后不再请求；
+   * 没有节点提供时返回 null，由调用方改用链上费用估算
+   */
+  async getUserOperationGasPrice(chainId?: number): Promise<BundlerGasPrice | null> {
+    const targetChainId = chainId || this.currentChainId;
+    for (const bundler of this.getCandidates(targetChainId)) {
+      const state = this.getHealthState(bundler.url);
+      if (state.gasPriceUnsupported) {
+        continue;
+      }
+      try {
+        const result = await this.rpc<Record<keyof BundlerGasPrice, RawGasFees>>(
+          bundler.url,
+          'pimlico_getUserOperationGasPrice',
+          [],
+          true
+        );
+        const parse = (fees: RawGasFees): UserOperationGasFees => ({
+          maxFeePerGas: BigInt(fees.maxFeePerGas),
+          maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas),
+        });
+        return { slow: parse(result.slow), standard: parse(result.standard), fast: parse(result.fast) };
+      } catch (error) {
+        if (error instanceof BundlerRpcError && error.rpcCode === METHOD_NOT_FOUND_CODE) {
+          state.gasPriceUnsupported = true;
+          continue;
+        }
+        console.warn(`Bundler ${bundler.name} gas price request failed:`, error);
+      }
     }
-
-    return result.result;
+    return null;
   }
 
   /**
@@ -364,6 +768,7 @@ export class BundlerClient {
     const chainConfig = requireChainConfig(chainId, ['entryPointAddress', 'rpcUrl']);
 
     const entryPointAddress = chainConfig.entryPointAddress as Address;
+    const version = resolveEntryPointVersion(chainConfig);
     const rpcUrl = chainConfig.rpcUrl;
 
     // 导入必要的模块
@@ -382,17 +787,12 @@ export class BundlerClient {
     // 注意：如果切换了 RPC，需要重新计算 hash，但签名是基于原始 hash 的
     // 这里我们假设 userOp 已经正确签名，直接使用
     const { getUserOpHash } = await import('@/utils/eip712');
-    getUserOpHash(userOp, entryPointAddress, chainId);
+    getUserOpHash(userOp, entryPointAddress, chainId, version);
 
-    const txHash = await walletClient.writeContract({
-      address: entryPointAddress,
-      abi: ENTRYPOINT_HANDLE_OPS_ABI,
-      functionName: 'handleOps',
-      args: [
-        [this.formatUserOperationForEntryPoint(userOp)],
-        account.address, // beneficiary（接收 Gas 退款）
-      ],
-      gas: userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas + BigInt(50000),
+    const txHash = await walletClient.sendTransaction({
+      to: entryPointAddress,
+      data: this.encodeHandleOps(userOp, version, account.address), // beneficiary（接收 Gas 退款）
+      gas: this.getTotalGasLimit(userOp) + BigInt(50000),
       chain: rpcClientManager.getChain(chainId),
     });
 
@@ -400,7 +800,42 @@ export class BundlerClient {
   }
 
   /**
-   * 格式化 UserOperation 为 EntryPoint 期望的格式
+   * 按 EntryPoint 版本编码 handleOps 调用
+   */
+  private encodeHandleOps(
+    userOp: UserOperation,
+    version: EntryPointVersion,
+    beneficiary: Address
+  ): `0x${string}` {
+    if (version === '0.7') {
+      return encodeFunctionData({
+        abi: ENTRYPOINT_V07_HANDLE_OPS_ABI,
+        functionName: 'handleOps',
+        args: [[toPackedUserOperation(userOp)], beneficiary],
+      });
+    }
+    return encodeFunctionData({
+      abi: ENTRYPOINT_HANDLE_OPS_ABI,
+      functionName: 'handleOps',
+      args: [[this.formatUserOperationForEntryPoint(userOp)], beneficiary],
+    });
+  }
+
+  /**
+   * UserOperation 声明的总 Gas 限制（v0.7 含 Paymaster 验证 / postOp）
+   */
+  private getTotalGasLimit(userOp: UserOperation): bigint {
+    return (
+      userOp.callGasLimit +
+      userOp.verificationGasLimit +
+      userOp.preVerificationGas +
+      (userOp.paymasterVerificationGasLimit ?? 0n) +
+      (userOp.paymasterPostOpGasLimit ?? 0n)
+    );
+  }
+
+  /**
+   * 格式化 UserOperation 为 EntryPoint v0.6 期望的格式
    * 
    * EntryPoint.handleOps 接收的 UserOperation 格式与 Bundler 略有不同
    */
@@ -436,10 +871,11 @@ export class BundlerClient {
     const chainConfig = requireChainConfig(chainId, ['entryPointAddress', 'rpcUrl']);
 
     const entryPointAddress = chainConfig.entryPointAddress as Address;
+    const version = resolveEntryPointVersion(chainConfig);
     const rpcUrl = chainConfig.rpcUrl;
 
     // 导入必要的模块
-    const { createPublicClient, http, encodeFunctionData } = await import('viem');
+    const { createPublicClient, http } = await import('viem');
 
     // 创建公共客户端
     const publicClient = createPublicClient({
@@ -448,14 +884,8 @@ export class BundlerClient {
     });
 
     // 构造 handleOps 调用数据
-    const callData = encodeFunctionData({
-      abi: ENTRYPOINT_HANDLE_OPS_ABI,
-      functionName: 'handleOps',
-      args: [
-        [this.formatUserOperationForEntryPoint(userOp)],
-        userOp.sender, // beneficiary（临时使用 sender 地址）
-      ],
-    });
+    // beneficiary 临时使用 sender 地址
+    const callData = this.encodeHandleOps(userOp, version, userOp.sender as Address);
 
     try {
       // 估算 Gas
@@ -470,7 +900,7 @@ export class BundlerClient {
     } catch (error) {
       console.warn('Gas estimation failed, using fallback:', error);
       // 降级方案：使用 UserOperation 的 Gas 限制加上缓冲
-      return userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas + BigInt(100000);
+      return this.getTotalGasLimit(userOp) + BigInt(100000);
     }
   }
 }
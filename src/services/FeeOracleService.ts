@@ -0,0 +1,257 @@
+/**
+ * EIP-1559 Gas 费预言机
+ *
+ * 为 UserOperation 提供慢 / 标准 / 快三档 maxFeePerGas 与 maxPriorityFeePerGas：
+ * - 优先使用 Bundler 专有的 Gas 价格接口（pimlico_getUserOperationGasPrice），其报价满足该 Bundler 的最低费用要求
+ * - 否则按 eth_feeHistory 最近区块的小费分位数（10 / 50 / 90）估算优先费，
+ *   区块为空或节点未返回小费时退化为 eth_maxPriorityFeePerGas
+ * - 不支持 EIP-1559 的链按 eth_gasPrice 分档，maxFeePerGas 与 maxPriorityFeePerGas 相同
+ *
+ * @module services/FeeOracleService
+ */
+
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { bundlerClient, type BundlerGasPrice, type UserOperationGasFees } from './BundlerClient';
+
+/**
+ * 费用档位
+ */
+export type FeeTier = 'slow' | 'normal' | 'fast';
+
+export const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast'];
+
+export const DEFAULT_FEE_TIER: FeeTier = 'normal';
+
+export const FEE_TIER_LABELS: Record<FeeTier, string> = {
+  slow: '慢',
+  normal: '标准',
+  fast: '快',
+};
+
+/**
+ * 单个档位的费用估算
+ */
+export interface FeeTierEstimate extends UserOperationGasFees {
+  tier: FeeTier;
+  /** 预计打包所需区块数 */
+  expectedBlocks: number;
+  /** 预计打包时间提示 */
+  inclusionHint: string;
+}
+
+/**
+ * 三档费用估算
+ */
+export interface FeeEstimate {
+  chainId: number;
+  /** 来源：bundler 为 Bundler 报价，feeHistory 为链上历史估算，legacy 为 eth_gasPrice */
+  source: 'bundler' | 'feeHistory' | 'legacy';
+  /** 下一区块的 baseFee（仅 feeHistory 来源） */
+  baseFeePerGas?: bigint;
+  tiers: Record<FeeTier, FeeTierEstimate>;
+  updatedAt: number;
+}
+
+interface FeeTierConfig {
+  /** eth_feeHistory 小费分位数 */
+  rewardPercentile: number;
+  /** maxFeePerGas 中 baseFee 的余量（百分比），应对后续区块 baseFee 上涨 */
+  baseFeePercent: bigint;
+  /** 退化为单一优先费 / gasPrice 时的倍率（百分比） */
+  fallbackPercent: bigint;
+  expectedBlocks: number;
+  inclusionHint: string;
+}
+
+const FEE_TIER_CONFIG: Record<FeeTier, FeeTierConfig> = {
+  slow: {
+    rewardPercentile: 10,
+    baseFeePercent: BigInt(110),
+    fallbackPercent: BigInt(90),
+    expectedBlocks: 10,
+    inclusionHint: '约 10 个区块内',
+  },
+  normal: {
+    rewardPercentile: 50,
+    baseFeePercent: BigInt(125),
+    fallbackPercent: BigInt(100),
+    expectedBlocks: 3,
+    inclusionHint: '约 3 个区块内',
+  },
+  fast: {
+    rewardPercentile: 90,
+    baseFeePercent: BigInt(200),
+    fallbackPercent: BigInt(125),
+    expectedBlocks: 1,
+    inclusionHint: '预计下一个区块',
+  },
+};
+
+/** Bundler 报价档位与钱包档位的对应关系 */
+const BUNDLER_TIER_KEYS: Record<FeeTier, keyof BundlerGasPrice> = {
+  slow: 'slow',
+  normal: 'standard',
+  fast: 'fast',
+};
+
+/** eth_feeHistory 统计的区块数 */
+const FEE_HISTORY_BLOCKS = 20;
+/** 估算结果缓存时间 */
+const FEE_ESTIMATE_TTL_MS = 12_000;
+
+const percentOf = (value: bigint, percent: bigint) => (value * percent) / BigInt(100);
+
+/**
+ * 取中位数（空数组返回 0）
+ */
+function median(values: bigint[]): bigint {
+  if (values.length === 0) {
+    return BigInt(0);
+  }
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export class FeeOracleService {
+  private estimates = new Map<number, FeeEstimate>();
+  private pending = new Map<number, Promise<FeeEstimate>>();
+
+  /**
+   * 获取三档费用估算（短时缓存，同一链的并发请求共用一次查询）
+   *
+   * @param refresh 忽略缓存重新估算
+   */
+  async getFeeEstimate(chainId: number, refresh = false): Promise<FeeEstimate> {
+    const cached = this.estimates.get(chainId);
+    if (!refresh && cached && Date.now() - cached.updatedAt < FEE_ESTIMATE_TTL_MS) {
+      return cached;
+    }
+
+    const inFlight = this.pending.get(chainId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const request = this.estimate(chainId)
+      .then((estimate) => {
+        this.estimates.set(chainId, estimate);
+        return estimate;
+      })
+      .finally(() => {
+        this.pending.delete(chainId);
+      });
+    this.pending.set(chainId, request);
+    return request;
+  }
+
+  /**
+   * 获取指定档位的 Gas 费
+   */
+  async getFees(chainId: number, tier: FeeTier = DEFAULT_FEE_TIER): Promise<UserOperationGasFees> {
+    const { maxFeePerGas, maxPriorityFeePerGas } = (await this.getFeeEstimate(chainId)).tiers[tier];
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private async estimate(chainId: number): Promise<FeeEstimate> {
+    const bundlerGasPrice = await this.getBundlerGasPrice(chainId);
+    if (bundlerGasPrice) {
+      return this.buildEstimate(chainId, 'bundler', (tier) => bundlerGasPrice[BUNDLER_TIER_KEYS[tier]]);
+    }
+
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    try {
+      const history = await publicClient.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        blockTag: 'latest',
+        rewardPercentiles: FEE_TIERS.map((tier) => FEE_TIER_CONFIG[tier].rewardPercentile),
+      });
+      // 最后一项为下一区块的 baseFee
+      const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+      if (baseFeePerGas !== undefined && baseFeePerGas > BigInt(0)) {
+        const priorityFees = await this.getPriorityFees(chainId, history.reward ?? [], history.gasUsedRatio);
+        const estimate = this.buildEstimate(chainId, 'feeHistory', (tier) => ({
+          maxPriorityFeePerGas: priorityFees[tier],
+          maxFeePerGas: percentOf(baseFeePerGas, FEE_TIER_CONFIG[tier].baseFeePercent) + priorityFees[tier],
+        }));
+        return { ...estimate, baseFeePerGas };
+      }
+    } catch (error) {
+      console.warn('[FeeOracleService] eth_feeHistory unavailable, falling back to eth_gasPrice:', error);
+    }
+
+    const gasPrice = await publicClient.getGasPrice();
+    return this.buildEstimate(chainId, 'legacy', (tier) => {
+      const fee = percentOf(gasPrice, FEE_TIER_CONFIG[tier].fallbackPercent);
+      return { maxFeePerGas: fee, maxPriorityFeePerGas: fee };
+    });
+  }
+
+  /**
+   * 按档位计算优先费：取非空区块小费分位数的中位数，没有可用样本时使用 eth_maxPriorityFeePerGas
+   *
+   * 档位之间保持单调，避免稀疏样本导致慢档高于快档
+   */
+  private async getPriorityFees(
+    chainId: number,
+    rewards: bigint[][],
+    gasUsedRatio: number[]
+  ): Promise<Record<FeeTier, bigint>> {
+    const samples = rewards.filter((_, index) => (gasUsedRatio[index] ?? 0) > 0);
+    const fees = {} as Record<FeeTier, bigint>;
+    let fallback: bigint | null = null;
+    let previous = BigInt(0);
+
+    for (const [index, tier] of FEE_TIERS.entries()) {
+      let fee = median(samples.map((reward) => reward[index] ?? BigInt(0)));
+      if (fee === BigInt(0)) {
+        fallback ??= await this.getMaxPriorityFeePerGas(chainId);
+        fee = percentOf(fallback, FEE_TIER_CONFIG[tier].fallbackPercent);
+      }
+      fees[tier] = fee > previous ? fee : previous;
+      previous = fees[tier];
+    }
+    return fees;
+  }
+
+  /**
+   * eth_maxPriorityFeePerGas（节点不支持时返回 0）
+   */
+  private async getMaxPriorityFeePerGas(chainId: number): Promise<bigint> {
+    try {
+      return await rpcClientManager.getPublicClient(chainId).estimateMaxPriorityFeePerGas();
+    } catch (error) {
+      console.warn('[FeeOracleService] eth_maxPriorityFeePerGas unavailable:', error);
+      return BigInt(0);
+    }
+  }
+
+  /**
+   * 读取 Bundler 报价（未配置或不支持时返回 null）
+   */
+  private async getBundlerGasPrice(chainId: number): Promise<BundlerGasPrice | null> {
+    try {
+      if (bundlerClient.getBundlerStatus(chainId).length === 0) {
+        await bundlerClient.configureChain(chainId);
+      }
+      return await bundlerClient.getUserOperationGasPrice(chainId);
+    } catch (error) {
+      console.warn('[FeeOracleService] Bundler gas price unavailable:', error);
+      return null;
+    }
+  }
+
+  private buildEstimate(
+    chainId: number,
+    source: FeeEstimate['source'],
+    getFees: (tier: FeeTier) => UserOperationGasFees
+  ): FeeEstimate {
+    const tiers = {} as Record<FeeTier, FeeTierEstimate>;
+    FEE_TIERS.forEach((tier) => {
+      const { expectedBlocks, inclusionHint } = FEE_TIER_CONFIG[tier];
+      tiers[tier] = { tier, ...getFees(tier), expectedBlocks, inclusionHint };
+    });
+    return { chainId, source, tiers, updatedAt: Date.now() };
+  }
+}
+
+export const feeOracleService = new FeeOracleService();
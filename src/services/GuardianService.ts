@@ -2,6 +2,7 @@
  * 守护人服务
  *
  * 负责社交恢复中的守护人管理、恢复流程和守护人提案流程。
+ * 守护人提案除增删守护人外，也用于审批提高账户支出限额（见 SpendingLimitService）。
  */
 
 import type { Address } from 'viem';
@@ -12,8 +13,12 @@ import { storageAdapter } from '@/adapters/StorageAdapter';
 import { transactionRelayer } from './TransactionRelayer';
 import { rpcClientManager } from '@/utils/RpcClientManager';
 import { accountManager } from './AccountManager';
+import type { SpendingLimit } from './SpendingLimitService';
 
-export type GuardianProposalType = 'add' | 'remove';
+/** 守护者相关操作使用独立的 nonce 通道，不与账户的日常交易互相阻塞 */
+const GUARDIAN_NONCE_CHANNEL = 'guardian';
+
+export type GuardianProposalType = 'add' | 'remove' | 'spending_limit';
 export type GuardianProposalStatus =
   | 'pending'
   | 'approved'
@@ -26,7 +31,12 @@ export interface GuardianProposal {
   accountAddress: Address;
   chainId: number;
   type: GuardianProposalType;
-  guardianAddress: Address;
+  /** add / remove 提案的守护人地址 */
+  guardianAddress?: Address;
+  /** spending_limit 提案申请的新限额 */
+  spendingLimit?: SpendingLimit;
+  /** spending_limit 提案发起时的守护人（与 Hook 中该请求的审批人一致），投票与过半数按其计算 */
+  approvers?: Address[];
   proposer: Address;
   createdAt: number;
   expiresAt: number;
@@ -35,6 +45,8 @@ export interface GuardianProposal {
     guardian: Address;
     vote: 'support' | 'oppose';
     timestamp: number;
+    /** spending_limit 提案：守护人在 Hook 上的批准交易 */
+    txHash?: string;
   }>;
   txHash?: string;
 }
@@ -179,7 +191,10 @@ export class GuardianService {
       chainId,
       pluginAddress,
       callData,
-      signerPrivateKey
+      signerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: GUARDIAN_NONCE_CHANNEL }
     );
 
     const recoveryId = `recovery_${txHash}`;
@@ -201,8 +216,6 @@ export class GuardianService {
     guardianPrivateKey: `0x${string}`,
     recoveryPluginAddress?: Address
   ): Promise<string> {
-    const chainConfig = requireChainConfig(chainId, ['rpcUrl']);
-
     const pluginAddress = this.resolveRecoveryPluginAddress(
       chainId,
       recoveryPluginAddress
@@ -222,6 +235,20 @@ export class GuardianService {
       args: [recoveryId as `0x${string}`],
     });
 
+    return this.sendFromGuardian(chainId, pluginAddress, callData, guardianPrivateKey);
+  }
+
+  /**
+   * 以守护人自己的地址发送交易：守护人为智能账户时走 UserOperation，否则直接由 EOA 发送
+   */
+  private async sendFromGuardian(
+    chainId: number,
+    to: Address,
+    data: `0x${string}`,
+    guardianPrivateKey: `0x${string}`
+  ): Promise<string> {
+    const chainConfig = requireChainConfig(chainId, ['rpcUrl']);
+
     const { privateKeyToAccount } = await import('viem/accounts');
     const guardianAccount = privateKeyToAccount(guardianPrivateKey);
     const guardianAddress = guardianAccount.address;
@@ -234,9 +261,12 @@ export class GuardianService {
       return transactionRelayer.sendTransaction(
         guardianAddress,
         chainId,
-        pluginAddress,
-        callData,
-        guardianPrivateKey
+        to,
+        data,
+        guardianPrivateKey,
+        BigInt(0),
+        undefined,
+        { nonceChannel: GUARDIAN_NONCE_CHANNEL }
       );
     }
 
@@ -249,8 +279,8 @@ export class GuardianService {
 
     return walletClient.sendTransaction({
       chain: rpcClientManager.getChain(chainId),
-      to: pluginAddress,
-      data: callData,
+      to,
+      data,
     });
   }
 
@@ -358,6 +388,46 @@ export class GuardianService {
     return proposalId;
   }
 
+  /**
+   * 发起提高支出限额的提案，守护人多数同意后执行
+   *
+   * 守护人从恢复插件读取，与支出限额 Hook 为该请求记录的审批人一致
+   */
+  async proposeSpendingLimitIncrease(
+    accountAddress: Address,
+    chainId: number,
+    spendingLimit: SpendingLimit,
+    signerPrivateKey: `0x${string}`
+  ): Promise<string> {
+    const proposer = await this.deriveAddressFromPrivateKey(signerPrivateKey);
+    const guardians = await this.getGuardians(
+      accountAddress,
+      chainId,
+      this.resolveRecoveryPluginAddress(chainId)
+    );
+    if (guardians.length === 0) {
+      throw new Error('No guardians configured to approve the spending limit increase');
+    }
+
+    const proposalId = this.createProposalId(accountAddress, chainId, spendingLimit.token);
+    const proposal: GuardianProposal = {
+      proposalId,
+      accountAddress,
+      chainId,
+      type: 'spending_limit',
+      spendingLimit,
+      approvers: guardians.map((guardian) => guardian.address as Address),
+      proposer,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 7 * 24 * 60 * 60 * 1000,
+      status: 'pending',
+      votes: [],
+    };
+
+    await this.saveProposal(proposal);
+    return proposalId;
+  }
+
   async voteForGuardianProposal(
     proposalId: string,
     guardianPrivateKey: `0x${string}`,
@@ -379,9 +449,13 @@ export class GuardianService {
     }
 
     const guardianAddress = await this.deriveAddressFromPrivateKey(guardianPrivateKey);
-    const guardians = await this.getGuardians(proposal.accountAddress, proposal.chainId);
+    const guardians =
+      proposal.approvers ??
+      (await this.getGuardians(proposal.accountAddress, proposal.chainId)).map(
+        (item) => item.address
+      );
     const isGuardian = guardians.some(
-      (item) => item.address.toLowerCase() === guardianAddress.toLowerCase()
+      (address) => address.toLowerCase() === guardianAddress.toLowerCase()
     );
     if (!isGuardian) {
       throw new Error('Only guardians can vote');
@@ -394,10 +468,24 @@ export class GuardianService {
       throw new Error('You have already voted');
     }
 
+    // 支出限额提案由守护人以自己的地址在 Hook 上批准，达到门槛后链上生效
+    let txHash: string | undefined;
+    if (proposal.type === 'spending_limit' && vote === 'support') {
+      const { spendingLimitService } = await import('./SpendingLimitService');
+      const approval = await spendingLimitService.getGuardianApprovalCall(proposal);
+      txHash = await this.sendFromGuardian(
+        proposal.chainId,
+        approval.to,
+        approval.data,
+        guardianPrivateKey
+      );
+    }
+
     proposal.votes.push({
       guardian: guardianAddress,
       vote,
       timestamp: Date.now(),
+      txHash,
     });
 
     const supportVotes = proposal.votes.filter((entry) => entry.vote === 'support').length;
@@ -485,7 +573,10 @@ export class GuardianService {
       chainId,
       pluginAddress,
       callData,
-      signerPrivateKey
+      signerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: GUARDIAN_NONCE_CHANNEL }
     );
 
     await this.updateLocalGuardians(accountAddress, chainId, guardianAddress, 'add');
@@ -524,7 +615,10 @@ export class GuardianService {
       chainId,
       pluginAddress,
       callData,
-      signerPrivateKey
+      signerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: GUARDIAN_NONCE_CHANNEL }
     );
 
     await this.updateLocalGuardians(accountAddress, chainId, guardianAddress, 'remove');
@@ -590,6 +684,18 @@ export class GuardianService {
     proposal: GuardianProposal,
     signerPrivateKey: `0x${string}`
   ): Promise<void> {
+    if (proposal.type === 'spending_limit') {
+      // 链上已由守护人的批准交易生效，这里只同步本地限额
+      const { spendingLimitService } = await import('./SpendingLimitService');
+      await spendingLimitService.applyApprovedIncrease(proposal);
+      proposal.txHash = proposal.votes[proposal.votes.length - 1]?.txHash;
+      return;
+    }
+
+    if (!proposal.guardianAddress) {
+      throw new Error('Proposal is missing the guardian address');
+    }
+
     if (proposal.type === 'add') {
       await this.addGuardianDirectly(
         proposal.accountAddress,
@@ -1,13 +1,18 @@
-import type { Address, Hash } from 'viem';
-import { encodeFunctionData } from 'viem';
+import type { Address, Hash, Hex } from 'viem';
+import { encodeFunctionData, toHex } from 'viem';
 import { storageAdapter } from '@/adapters/StorageAdapter';
 import { getChainConfigByChainId } from '@/config/chains';
-import { accountStore } from '@/stores';
+import { accountStore, interactionStore } from '@/stores';
+import type { InteractionRequest } from '@/stores/InteractionStore';
+import { abiRegistryService } from '@/services/AbiRegistryService';
+import { riskAssessmentService, type RiskAssessment } from '@/services/RiskAssessmentService';
 import { keyManagerService } from '@/services/KeyManagerService';
 import { transactionRelayer } from '@/services/TransactionRelayer';
-import type { SponsorPolicyContext } from '@/services/TransactionRelayer';
+import type { RelayOptions, SponsorPolicyContext } from '@/services/TransactionRelayer';
 import { StorageKey } from '@/types';
 import { rpcClientManager } from '@/utils/RpcClientManager';
+import { ErrorHandler } from '@/utils/errors';
+import { isOriginAllowed } from '@/utils/originAllowList';
 import type {
   MingCancelScheduledTaskRequestPayload,
   MingChainExecutionResult,
@@ -43,6 +48,8 @@ import {
 
 const MING_REQUEST_PREFIX = 'MING_WALLET_';
 const REQUEST_TIMEOUT_MS = 300_000;
+/** 高风险交易等待用户确认的时限，须短于 REQUEST_TIMEOUT_MS 以便按拒绝返回 */
+const RISK_CONFIRMATION_TIMEOUT_MS = 240_000;
 const MAX_RESPONSE_CACHE_SIZE = 500;
 const ERC721_TRANSFER_TOPIC =
   '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
@@ -161,7 +168,12 @@ export class MingWalletBridgeService {
       return;
     }
 
-    if (!this.isOriginAllowed(event.origin)) {
+    // 未配置 VITE_MING_ALLOWED_ORIGINS 时沿用原有行为，不限制来源
+    if (
+      !isOriginAllowed(event.origin, import.meta.env.VITE_MING_ALLOWED_ORIGINS, {
+        allowWhenUnconfigured: true,
+      })
+    ) {
       this.debug('reject request: origin not allowed', {
         type,
         origin: event.origin,
@@ -188,7 +200,7 @@ export class MingWalletBridgeService {
 
     try {
       const result = await withTimeout(
-        this.dispatchRequest(type as SupportedMingRequestType, data),
+        this.dispatchRequest(type as SupportedMingRequestType, data, event.origin),
         REQUEST_TIMEOUT_MS
       );
       responsePayload = {
@@ -220,7 +232,8 @@ export class MingWalletBridgeService {
 
   private async dispatchRequest(
     requestType: SupportedMingRequestType,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    origin: string
   ): Promise<Record<string, unknown>> {
     const payload = data.payload;
 
@@ -255,7 +268,8 @@ export class MingWalletBridgeService {
         );
       case MESSAGE_TYPE.SEND_TRANSACTION_REQUEST:
         return this.handleSendTransaction(
-          this.asPayload<MingSendTransactionRequestPayload>(payload)
+          this.asPayload<MingSendTransactionRequestPayload>(payload),
+          origin
         );
       default:
         throw new MingProtocolError(
@@ -509,7 +523,8 @@ export class MingWalletBridgeService {
   }
 
   private async handleSendTransaction(
-    payload: MingSendTransactionRequestPayload
+    payload: MingSendTransactionRequestPayload,
+    origin: string
   ): Promise<Record<string, unknown>> {
     this.assertProtocolVersion(payload.protocolVersion);
 
@@ -552,6 +567,7 @@ export class MingWalletBridgeService {
     this.validateGasPolicy(payload.gasPolicy);
 
     const context = await this.getEvmExecutionContext(payload.chainId);
+    await this.confirmRiskyTransaction(origin, payload, context.accountAddress);
     const txHash = await transactionRelayer.sendTransaction(
       context.accountAddress,
       payload.chainId,
@@ -572,6 +588,97 @@ export class MingWalletBridgeService {
     };
   }
 
+  /**
+   * Ming 交易默认免确认直接执行；评估为高风险时转入确认框，需用户显式确认风险后才继续
+   */
+  private async confirmRiskyTransaction(
+    origin: string,
+    payload: MingSendTransactionRequestPayload,
+    accountAddress: Address
+  ): Promise<void> {
+    const call = {
+      to: payload.to as Address,
+      data: payload.data as Hex,
+      value: BigInt(payload.value || '0'),
+    };
+
+    let risk: RiskAssessment;
+    try {
+      risk = await riskAssessmentService.assess({
+        origin,
+        chainId: payload.chainId,
+        accountAddress,
+        calls: [call],
+      });
+    } catch (error) {
+      this.debug('risk assessment failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (!risk.requiresAcknowledgement) {
+      return;
+    }
+
+    this.debug('high-risk transaction requires confirmation', {
+      origin,
+      reasons: risk.reasons.map((reason) => reason.code),
+    });
+    const requestId = interactionStore.addRequest(
+      'eth_sendTransaction',
+      origin,
+      [{ to: call.to, data: call.data, value: toHex(call.value) }],
+      {
+        risk,
+        decodedCalls: [
+          abiRegistryService.decodeCall(call.data, call.to, payload.chainId, call.value),
+        ],
+      }
+    );
+
+    const status = await this.waitForInteraction(requestId, RISK_CONFIRMATION_TIMEOUT_MS);
+    if (status !== 'approved') {
+      throw new MingProtocolError(
+        'TRANSACTION_REJECTED',
+        status === 'rejected'
+          ? 'User rejected the high-risk transaction'
+          : 'High-risk transaction confirmation was cancelled',
+        { riskReasons: risk.reasons.map((reason) => reason.code) }
+      );
+    }
+  }
+
+  /**
+   * 等待确认请求被批准、拒绝或取消；超时后取消仍待处理的请求
+   */
+  private waitForInteraction(
+    requestId: string,
+    timeoutMs: number
+  ): Promise<InteractionRequest['status']> {
+    const events = ['interaction:approved', 'interaction:rejected', 'interaction:cancelled'];
+    return new Promise((resolve) => {
+      const settle = (status: InteractionRequest['status']) => {
+        clearTimeout(timer);
+        events.forEach((name) => window.removeEventListener(name, handleResolved));
+        resolve(status);
+      };
+      const handleResolved = (event: Event) => {
+        const { request } = (event as CustomEvent<{ request: InteractionRequest }>).detail;
+        if (request.id === requestId) {
+          settle(request.status);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.debug('high-risk confirmation timed out', { requestId });
+        if (interactionStore.getRequest(requestId)?.status === 'pending') {
+          interactionStore.cancelRequest(requestId);
+        }
+        settle('cancelled');
+      }, timeoutMs);
+      events.forEach((name) => window.addEventListener(name, handleResolved));
+    });
+  }
+
   private validateMintPayload(
     payload: MingMintNFTRequestPayload,
     mode: 'mint' | 'scheduled'
@@ -618,10 +725,11 @@ export class MingWalletBridgeService {
 
   private async executeMint(
     payload: MingMintNFTRequestPayload,
-    chainFamily: MingChainFamily
+    chainFamily: MingChainFamily,
+    relayOptions?: RelayOptions
   ): Promise<MingChainExecutionResult> {
     if (chainFamily === 'evm') {
-      return this.executeMintOnEvm(payload);
+      return this.executeMintOnEvm(payload, relayOptions);
     }
     return this.executeMintOnSolana(payload);
   }
@@ -682,7 +790,10 @@ export class MingWalletBridgeService {
 
     try {
       const chainFamily = normalizeChainFamily(task.request.contract);
-      const result = await this.executeMint(task.request, chainFamily);
+      // 每个定时任务使用独立的 nonce 通道，不阻塞手动交易与其它任务
+      const result = await this.executeMint(task.request, chainFamily, {
+        nonceChannel: `ming-scheduled:${task.taskId}`,
+      });
       task.status = 'completed';
       task.mintedAt = new Date().toISOString();
       task.result = {
@@ -706,7 +817,8 @@ export class MingWalletBridgeService {
   }
 
   private async executeMintOnEvm(
-    payload: MingMintNFTRequestPayload
+    payload: MingMintNFTRequestPayload,
+    relayOptions?: RelayOptions
   ): Promise<MingChainExecutionResult> {
     const chainId = payload.contract.chainId;
     const context = await this.getEvmExecutionContext(chainId);
@@ -744,7 +856,8 @@ export class MingWalletBridgeService {
       callData,
       context.ownerPrivateKey,
       BigInt(0),
-      this.resolveSponsorPolicyContext(payload.sponsorPolicyContext)
+      this.resolveSponsorPolicyContext(payload.sponsorPolicyContext),
+      relayOptions
     );
 
     const receiptMeta = await this.tryGetReceiptMeta(chainId, txHash);
@@ -1359,6 +1472,20 @@ export class MingWalletBridgeService {
       };
     }
 
+    // Bundler / EntryPoint 失败使用与钱包一致的错误码（见 ErrorCode）
+    const userOperationError = ErrorHandler.fromUserOperationError(error);
+    if (userOperationError) {
+      return {
+        code: userOperationError.code,
+        message: userOperationError.message,
+        details: {
+          aaCode: userOperationError.aaCode,
+          userMessage: userOperationError.toUserMessage(),
+          retryable: userOperationError.isRetryable(),
+        },
+      };
+    }
+
     if (error instanceof Error) {
       const lowered = error.message.toLowerCase();
       if (lowered.includes('reject')) {
@@ -1373,20 +1500,6 @@ export class MingWalletBridgeService {
     };
   }
 
-  private isOriginAllowed(origin: string): boolean {
-    const configured = import.meta.env.VITE_MING_ALLOWED_ORIGINS;
-    if (!configured || !configured.trim()) {
-      return true;
-    }
-
-    const allowed = configured
-      .split(',')
-      .map((item) => item.trim())
-      .filter(Boolean);
-
-    return allowed.includes(origin);
-  }
-
   private async loadTasks(): Promise<void> {
     const stored = await storageAdapter.get<MingScheduledTask[]>(
       StorageKey.MING_SCHEDULED_TASKS
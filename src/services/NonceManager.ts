@@ -0,0 +1,209 @@
+/**
+ * UserOperation nonce 管理服务
+ *
+ * ERC-4337 nonce 由 192 位 key 与 64 位序列号组成，同一 key 内的序列号必须依次使用，
+ * 不同 key 之间互不阻塞：
+ * - 相互独立的流程（定时任务、两阶段提交揭示、守护者投票等）使用各自的通道，映射到不同的 nonce key
+ * - 同一通道内并发发送时在本地预留序列号，避免两笔操作读取到相同的链上 nonce
+ * - 已发送但尚未上链的操作（见 UserOperationTracker）占用的序列号同样视为已预留，
+ *   操作被丢弃或超时后自动释放
+ *
+ * Kernel v3 的 nonce key 高位依次为验证模式、验证类型与验证器标识，低 16 位为并行序列 key；
+ * 根验证器的高位全 0，通道只占用低 16 位；使用其它验证器（如会话密钥）签名时，
+ * 高位携带验证器地址，EntryPoint 为每个验证器维护独立的序列
+ *
+ * @module services/NonceManager
+ */
+
+import type { Address } from 'viem';
+import { userOperationTracker } from './UserOperationTracker';
+
+/** 默认通道，对应 nonce key 0（手动发起的交易） */
+export const DEFAULT_NONCE_CHANNEL = 'default';
+
+/** Kernel v3 并行序列 key 的取值上限（低 16 位） */
+const MAX_PARALLEL_NONCE_KEY = BigInt(0xffff);
+/** Kernel v3 验证类型：ROOT（0x00）/ VALIDATOR（0x01），位于验证模式之后、验证器地址之前 */
+const KERNEL_VALIDATION_TYPE_ROOT = BigInt(0x00);
+const KERNEL_VALIDATION_TYPE_VALIDATOR = BigInt(0x01);
+const SEQUENCE_BITS = BigInt(64);
+const SEQUENCE_MASK = (BigInt(1) << SEQUENCE_BITS) - BigInt(1);
+
+/**
+ * FNV-1a 32 位字符串哈希（通道名到 key 的映射只需稳定，不需要抗碰撞）
+ */
+function hashChannel(channel: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < channel.length; i++) {
+    hash ^= channel.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 已预留的 nonce
+ */
+export interface NonceReservation {
+  chainId: number;
+  sender: Address;
+  channel: string;
+  key: bigint;
+  sequence: bigint;
+  /** 完整 nonce（key << 64 | sequence） */
+  nonce: bigint;
+}
+
+export interface ReserveNonceInput {
+  chainId: number;
+  sender: Address;
+  channel?: string;
+  /** 签名所用的非根验证器，未设置时使用根验证器 */
+  validator?: Address;
+  /** 读取 EntryPoint.getNonce(sender, key) */
+  readOnChainNonce: (key: bigint) => Promise<bigint>;
+}
+
+/**
+ * 通道名映射到 nonce key（默认通道为 0，其它通道按名称哈希映射到 1-65535）
+ */
+export function getNonceKeyForChannel(channel: string = DEFAULT_NONCE_CHANNEL): bigint {
+  if (channel === DEFAULT_NONCE_CHANNEL) {
+    return BigInt(0);
+  }
+  return (BigInt(hashChannel(channel)) % MAX_PARALLEL_NONCE_KEY) + BigInt(1);
+}
+
+/**
+ * 非根验证器的 nonce key：验证模式（默认 0x00）| 验证类型 0x01 | 验证器地址 | 通道 key
+ */
+export function getValidatorNonceKey(validator: Address, channel: string = DEFAULT_NONCE_CHANNEL): bigint {
+  return (
+    (KERNEL_VALIDATION_TYPE_VALIDATOR << BigInt(176)) |
+    (BigInt(validator) << BigInt(16)) |
+    getNonceKeyForChannel(channel)
+  );
+}
+
+/**
+ * nonce 是否使用根验证（Kernel 按 nonce key 中的验证类型选择验证方式）
+ */
+export function isRootValidationNonce(nonce: bigint): boolean {
+  return ((decodeNonce(nonce).key >> BigInt(176)) & BigInt(0xff)) === KERNEL_VALIDATION_TYPE_ROOT;
+}
+
+export function encodeNonce(key: bigint, sequence: bigint): bigint {
+  return (key << SEQUENCE_BITS) | sequence;
+}
+
+export function decodeNonce(nonce: bigint): { key: bigint; sequence: bigint } {
+  return { key: nonce >> SEQUENCE_BITS, sequence: nonce & SEQUENCE_MASK };
+}
+
+export class NonceManager {
+  /** 按账户与 key 记录本地预留的序列号 */
+  private reservations = new Map<string, Set<bigint>>();
+  /** 同一账户与 key 的预留串行执行 */
+  private locks = new Map<string, Promise<unknown>>();
+
+  /**
+   * 预留下一个可用 nonce
+   *
+   * 从链上 nonce 开始，跳过本地预留与待上链操作占用的序列号；
+   * 之前释放留下的空位会被优先填补，保证同一 key 内的序列号连续
+   */
+  async reserve(input: ReserveNonceInput): Promise<NonceReservation> {
+    const channel = input.channel ?? DEFAULT_NONCE_CHANNEL;
+    const key = input.validator ? getValidatorNonceKey(input.validator, channel) : getNonceKeyForChannel(channel);
+    const scope = this.getScope(input.chainId, input.sender, key);
+
+    return this.withLock(scope, async () => {
+      const { sequence: onChainSequence } = decodeNonce(await input.readOnChainNonce(key));
+      const reserved = this.reservations.get(scope) ?? new Set<bigint>();
+
+      // 已上链的序列号不再需要保留
+      reserved.forEach((sequence) => {
+        if (sequence < onChainSequence) {
+          reserved.delete(sequence);
+        }
+      });
+
+      const inFlight = this.getInFlightSequences(input.chainId, input.sender, key);
+      let sequence = onChainSequence;
+      while (reserved.has(sequence) || inFlight.has(sequence)) {
+        sequence += BigInt(1);
+      }
+
+      reserved.add(sequence);
+      this.reservations.set(scope, reserved);
+      return {
+        chainId: input.chainId,
+        sender: input.sender,
+        channel,
+        key,
+        sequence,
+        nonce: encodeNonce(key, sequence),
+      };
+    });
+  }
+
+  /**
+   * 释放本地预留
+   *
+   * 操作发送成功后由 UserOperationTracker 继续占用该序列号，发送失败时序列号可被重新使用
+   */
+  release(reservation: NonceReservation): void {
+    const scope = this.getScope(reservation.chainId, reservation.sender, reservation.key);
+    const reserved = this.reservations.get(scope);
+    if (!reserved) {
+      return;
+    }
+    reserved.delete(reservation.sequence);
+    if (reserved.size === 0) {
+      this.reservations.delete(scope);
+    }
+  }
+
+  /**
+   * 获取本地预留中的 nonce
+   */
+  getReservedNonces(chainId: number, sender: Address, channel: string = DEFAULT_NONCE_CHANNEL): bigint[] {
+    const key = getNonceKeyForChannel(channel);
+    const reserved = this.reservations.get(this.getScope(chainId, sender, key));
+    return reserved ? Array.from(reserved).map((sequence) => encodeNonce(key, sequence)) : [];
+  }
+
+  private getInFlightSequences(chainId: number, sender: Address, key: bigint): Set<bigint> {
+    const sequences = new Set<bigint>();
+    userOperationTracker.getPendingOperations().forEach((operation) => {
+      if (operation.chainId !== chainId || operation.sender.toLowerCase() !== sender.toLowerCase()) {
+        return;
+      }
+      const decoded = decodeNonce(BigInt(operation.nonce));
+      if (decoded.key === key) {
+        sequences.add(decoded.sequence);
+      }
+    });
+    return sequences;
+  }
+
+  private getScope(chainId: number, sender: Address, key: bigint): string {
+    return `${chainId}:${sender.toLowerCase()}:${key.toString()}`;
+  }
+
+  private async withLock<T>(scope: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(scope) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    this.locks.set(scope, settled);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(scope) === settled) {
+        this.locks.delete(scope);
+      }
+    }
+  }
+}
+
+export const nonceManager = new NonceManager();
@@ -8,8 +8,54 @@
 import type { Address, Hex } from 'viem';
 import { rpcClientManager } from '@/utils/RpcClientManager';
 import { configStorage } from '@/adapters/StorageAdapter';
-import { UserOperation } from '@/types';
+import { UserOperation, PackedUserOperation, EntryPointVersion } from '@/types';
 import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { resolveEntryPointVersion, toPackedUserOperation } from '@/utils/userOperation';
+
+const USER_OPERATION_COMPONENTS = [
+  { name: 'sender', type: 'address' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'initCode', type: 'bytes' },
+  { name: 'callData', type: 'bytes' },
+  { name: 'callGasLimit', type: 'uint256' },
+  { name: 'verificationGasLimit', type: 'uint256' },
+  { name: 'preVerificationGas', type: 'uint256' },
+  { name: 'maxFeePerGas', type: 'uint256' },
+  { name: 'maxPriorityFeePerGas', type: 'uint256' },
+  { name: 'paymasterAndData', type: 'bytes' },
+  { name: 'signature', type: 'bytes' },
+] as const;
+
+const PACKED_USER_OPERATION_COMPONENTS = [
+  { name: 'sender', type: 'address' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'initCode', type: 'bytes' },
+  { name: 'callData', type: 'bytes' },
+  { name: 'accountGasLimits', type: 'bytes32' },
+  { name: 'preVerificationGas', type: 'uint256' },
+  { name: 'gasFees', type: 'bytes32' },
+  { name: 'paymasterAndData', type: 'bytes' },
+  { name: 'signature', type: 'bytes' },
+] as const;
+
+/**
+ * 构造 Paymaster getHash ABI
+ *
+ * v0.6 与 v0.7 的 getHash 分别接收 UserOperation 与 PackedUserOperation
+ */
+function buildGetHashAbi<T extends typeof USER_OPERATION_COMPONENTS | typeof PACKED_USER_OPERATION_COMPONENTS>(
+  components: T
+) {
+  return [
+    {
+      inputs: [{ components, name: 'userOp', type: 'tuple' }],
+      name: 'getHash',
+      outputs: [{ name: '', type: 'bytes32' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+  ] as const;
+}
 
 export interface PaymasterConfig {
   address: Address;
@@ -42,6 +88,9 @@ export class PaymasterService {
   /**
    * 构造 Paymaster 数据
    * 
+   * 返回钱包内部格式（paymaster + paymasterData），v0.7 的 Paymaster Gas 限制
+   * 由 UserOperation 的 paymasterVerificationGasLimit / paymasterPostOpGasLimit 携带
+   * 
    * @param userOp UserOperation
    * @param chainId 链ID
    * @param paymasterAddress Paymaster 地址（可选）
@@ -64,7 +113,8 @@ export class PaymasterService {
     // 根据 Paymaster 类型构造数据
     // 这里使用简单的验证 Paymaster 模式
     // 实际实现可能需要调用 Paymaster 合约的 getHash 方法
-    const paymasterData = await this.getPaymasterHash(userOp, chainId, pmAddress);
+    const version = resolveEntryPointVersion(chainConfig);
+    const paymasterData = await this.getPaymasterHash(userOp, chainId, pmAddress, version);
 
     // paymasterAndData = paymasterAddress (20 bytes) + paymasterData (可变长度)
     return `${pmAddress}${paymasterData.slice(2)}` as Hex;
@@ -78,7 +128,8 @@ export class PaymasterService {
   private async getPaymasterHash(
     userOp: UserOperation,
     chainId: number,
-    paymasterAddress: Address
+    paymasterAddress: Address,
+    version: EntryPointVersion
   ): Promise<Hex> {
     // 使用 RpcClientManager 获取缓存的 PublicClient 实例
     const publicClient = rpcClientManager.getPublicClient(chainId);
@@ -87,38 +138,21 @@ export class PaymasterService {
       // 调用 Paymaster 的 getHash 方法
       // 注意：不同的 Paymaster 实现可能有不同的接口
       // 这里使用标准的 ERC-4337 Paymaster 接口
-      const hash = await publicClient.readContract({
-        address: paymasterAddress,
-        abi: [
-          {
-            inputs: [
-              {
-                components: [
-                  { name: 'sender', type: 'address' },
-                  { name: 'nonce', type: 'uint256' },
-                  { name: 'initCode', type: 'bytes' },
-                  { name: 'callData', type: 'bytes' },
-                  { name: 'callGasLimit', type: 'uint256' },
-                  { name: 'verificationGasLimit', type: 'uint256' },
-                  { name: 'preVerificationGas', type: 'uint256' },
-                  { name: 'maxFeePerGas', type: 'uint256' },
-                  { name: 'maxPriorityFeePerGas', type: 'uint256' },
-                  { name: 'paymasterAndData', type: 'bytes' },
-                  { name: 'signature', type: 'bytes' },
-                ],
-                name: 'userOp',
-                type: 'tuple',
-              },
-            ],
-            name: 'getHash',
-            outputs: [{ name: '', type: 'bytes32' }],
-            stateMutability: 'view',
-            type: 'function',
-          },
-        ],
-        functionName: 'getHash',
-        args: [this.formatUserOpForPaymaster(userOp)],
-      });
+      const formatted = this.formatUserOpForPaymaster(userOp, version);
+      const hash =
+        version === '0.7'
+          ? await publicClient.readContract({
+              address: paymasterAddress,
+              abi: buildGetHashAbi(PACKED_USER_OPERATION_COMPONENTS),
+              functionName: 'getHash',
+              args: [formatted as PackedUserOperation],
+            })
+          : await publicClient.readContract({
+              address: paymasterAddress,
+              abi: buildGetHashAbi(USER_OPERATION_COMPONENTS),
+              functionName: 'getHash',
+              args: [formatted as UserOperation],
+            });
 
       return hash as Hex;
     } catch (error) {
@@ -130,8 +164,16 @@ export class PaymasterService {
 
   /**
    * 格式化 UserOperation 为 Paymaster 期望的格式
+   * 
+   * v0.7 Paymaster 接收 PackedUserOperation
    */
-  private formatUserOpForPaymaster(userOp: UserOperation): UserOperation {
+  private formatUserOpForPaymaster(
+    userOp: UserOperation,
+    version: EntryPointVersion
+  ): UserOperation | PackedUserOperation {
+    if (version === '0.7') {
+      return toPackedUserOperation(userOp);
+    }
     return {
       sender: userOp.sender,
       nonce: userOp.nonce,
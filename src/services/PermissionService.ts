@@ -0,0 +1,163 @@
+/**
+ * DApp 权限服务
+ *
+ * 按来源（origin）管理 DApp 连接权限，遵循 EIP-2255（wallet_requestPermissions）
+ * 授权记录持久化到 IndexedDB，跨会话保留
+ *
+ * @module services/PermissionService
+ */
+
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+
+/**
+ * 当前支持授权的能力
+ */
+export const SUPPORTED_PERMISSIONS = ['eth_accounts'] as const;
+
+export type PermissionCapability = (typeof SUPPORTED_PERMISSIONS)[number];
+
+/**
+ * 权限限制条件（EIP-2255 caveat）
+ */
+export interface PermissionCaveat {
+  type: string;
+  value: unknown;
+}
+
+/**
+ * 单个来源的权限记录（EIP-2255 permission 对象）
+ */
+export interface OriginPermission {
+  id: string;
+  invoker: string;
+  parentCapability: PermissionCapability;
+  caveats: PermissionCaveat[];
+  date: number;
+}
+
+/**
+ * DApp 权限服务
+ */
+export class PermissionService {
+  private permissions: Map<string, OriginPermission[]> = new Map();
+  private loaded = false;
+
+  /**
+   * 初始化权限服务，从存储加载授权记录
+   */
+  async init(): Promise<void> {
+    const stored = await storageAdapter.get<Record<string, OriginPermission[]>>(StorageKey.DAPP_PERMISSIONS);
+    this.permissions.clear();
+    if (stored) {
+      Object.entries(stored).forEach(([origin, permissions]) => {
+        this.permissions.set(origin, permissions);
+      });
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * 判断能力是否受支持
+   */
+  isSupportedPermission(capability: string): capability is PermissionCapability {
+    return (SUPPORTED_PERMISSIONS as readonly string[]).includes(capability);
+  }
+
+  /**
+   * 获取来源的所有权限
+   */
+  async getPermissions(origin: string): Promise<OriginPermission[]> {
+    await this.ensureLoaded();
+    return [...(this.permissions.get(origin) || [])];
+  }
+
+  /**
+   * 检查来源是否拥有某项权限
+   */
+  async hasPermission(origin: string, capability: PermissionCapability): Promise<boolean> {
+    const permissions = await this.getPermissions(origin);
+    return permissions.some((permission) => permission.parentCapability === capability);
+  }
+
+  /**
+   * 授予来源权限
+   *
+   * 已存在的同名权限会被覆盖（刷新授权时间）
+   *
+   * @param origin DApp 来源
+   * @param capabilities 授予的能力列表
+   * @returns 授权后该来源的全部权限
+   */
+  async grantPermissions(
+    origin: string,
+    capabilities: PermissionCapability[]
+  ): Promise<OriginPermission[]> {
+    await this.ensureLoaded();
+
+    const now = Date.now();
+    const existing = (this.permissions.get(origin) || []).filter(
+      (permission) => !capabilities.includes(permission.parentCapability)
+    );
+    const granted = capabilities.map((capability) => ({
+      id: `permission_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      invoker: origin,
+      parentCapability: capability,
+      caveats: [],
+      date: now,
+    }));
+
+    this.permissions.set(origin, [...existing, ...granted]);
+    await this.savePermissions();
+
+    return this.getPermissions(origin);
+  }
+
+  /**
+   * 撤销来源权限
+   *
+   * @param origin DApp 来源
+   * @param capabilities 要撤销的能力（不传则撤销该来源全部权限）
+   */
+  async revokePermissions(origin: string, capabilities?: PermissionCapability[]): Promise<void> {
+    await this.ensureLoaded();
+
+    const remaining = capabilities
+      ? (this.permissions.get(origin) || []).filter(
+          (permission) => !capabilities.includes(permission.parentCapability)
+        )
+      : [];
+
+    if (remaining.length > 0) {
+      this.permissions.set(origin, remaining);
+    } else {
+      this.permissions.delete(origin);
+    }
+    await this.savePermissions();
+  }
+
+  /**
+   * 获取所有已授权来源（用于设置页“已连接的网站”）
+   */
+  async getConnectedSites(): Promise<Array<{ origin: string; permissions: OriginPermission[] }>> {
+    await this.ensureLoaded();
+    return Array.from(this.permissions.entries())
+      .map(([origin, permissions]) => ({ origin, permissions: [...permissions] }))
+      .sort((a, b) => a.origin.localeCompare(b.origin));
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.init();
+    }
+  }
+
+  /**
+   * 保存授权记录
+   */
+  private async savePermissions(): Promise<void> {
+    await storageAdapter.set(StorageKey.DAPP_PERMISSIONS, Object.fromEntries(this.permissions));
+  }
+}
+
+export const permissionService = new PermissionService();
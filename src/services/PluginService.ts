@@ -119,19 +119,7 @@ export class PluginService {
   ): Promise<string> {
     requireChainConfig(chainId, ['rpcUrl']);
 
-    // 构造安装数据
-    const installData = config.installData || '0x';
-    
-    // 编码 installModule 调用
-    const callData = encodeFunctionData({
-      abi: KERNEL_PLUGIN_ABI,
-      functionName: 'installModule',
-      args: [
-        BigInt(plugin.type),
-        plugin.address,
-        installData,
-      ],
-    });
+    const callData = this.buildInstallCallData(plugin, config);
 
     // 发送交易
     const txHash = await transactionRelayer.sendTransaction(
@@ -167,16 +155,7 @@ export class PluginService {
 
     requireChainConfig(chainId, ['rpcUrl']);
 
-    // 编码 uninstallModule 调用
-    const callData = encodeFunctionData({
-      abi: KERNEL_PLUGIN_ABI,
-      functionName: 'uninstallModule',
-      args: [
-        BigInt(plugin.type),
-        plugin.address,
-        '0x', // uninstall data
-      ],
-    });
+    const callData = this.buildUninstallCallData(plugin);
 
     // 发送交易
     const txHash = await transactionRelayer.sendTransaction(
@@ -195,6 +174,28 @@ export class PluginService {
     return txHash;
   }
 
+  /**
+   * 编码 installModule 调用（账户调用自身）
+   */
+  buildInstallCallData(plugin: IPlugin, config: PluginConfig): Hex {
+    return encodeFunctionData({
+      abi: KERNEL_PLUGIN_ABI,
+      functionName: 'installModule',
+      args: [BigInt(plugin.type), plugin.address, config.installData || '0x'],
+    });
+  }
+
+  /**
+   * 编码 uninstallModule 调用（账户调用自身）
+   */
+  buildUninstallCallData(plugin: IPlugin): Hex {
+    return encodeFunctionData({
+      abi: KERNEL_PLUGIN_ABI,
+      functionName: 'uninstallModule',
+      args: [BigInt(plugin.type), plugin.address, plugin.uninstallData || '0x'],
+    });
+  }
+
   /**
    * 获取已安装的插件列表
    */
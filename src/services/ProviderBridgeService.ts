@@ -0,0 +1,218 @@
+/**
+ * 跨源 Provider 桥接服务
+ *
+ * 钱包以 popup / iframe 方式被外部 DApp 打开时，通过 postMessage 接收 EIP-1193 请求，
+ * 交给 AnDaoWalletProvider 处理（需确认的请求仍进入 InteractionStore 审批），
+ * 并把 Provider 事件转发给已连接的 DApp 窗口
+ *
+ * 来源绑定：请求来源一律取自 MessageEvent.origin，响应与事件只投递给该来源
+ * 来源白名单：VITE_PROVIDER_ALLOWED_ORIGINS 未配置时拒绝所有外部来源；
+ * 以 iframe 嵌入时所有祖先来源也必须在白名单中，否则不启动桥接
+ *
+ * @module services/ProviderBridgeService
+ */
+
+import type { AnDaoWalletProvider } from '@/adapters/ProviderAdapter';
+import { permissionService } from '@/services/PermissionService';
+import {
+  PROVIDER_BRIDGE_EVENTS,
+  PROVIDER_BRIDGE_MESSAGE,
+  type ProviderBridgeEvent,
+  type ProviderBridgeEventMessage,
+  type ProviderBridgeReadyMessage,
+  type ProviderBridgeResponseMessage,
+  type ProviderRpcErrorPayload,
+} from '@/types/provider-bridge';
+import { isEmbeddingAllowed, isOriginAllowed } from '@/utils/originAllowList';
+
+type MessageTarget = Pick<Window, 'postMessage'> & { closed?: boolean };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+/**
+ * 将 Provider 抛出的错误转换为 EIP-1193 ProviderRpcError
+ */
+export function toProviderRpcError(error: unknown): ProviderRpcErrorPayload {
+  const message = error instanceof Error ? error.message : 'Unknown wallet error';
+  const code = isObject(error) ? error.code : undefined;
+  if (typeof code === 'number') {
+    return { code, message };
+  }
+
+  const lowered = message.toLowerCase();
+  if (lowered.includes('rejected') || lowered.includes('cancelled')) {
+    return { code: 4001, message };
+  }
+  if (lowered.startsWith('unsupported method')) {
+    return { code: 4200, message };
+  }
+  if (lowered.startsWith('invalid parameter')) {
+    return { code: -32602, message };
+  }
+  return { code: -32603, message };
+}
+
+export class ProviderBridgeService {
+  private provider: AnDaoWalletProvider | null = null;
+  /** 已连接的 DApp 窗口 → 绑定来源 */
+  private readonly clients = new Map<MessageTarget, string>();
+  private readonly eventHandlers = new Map<ProviderBridgeEvent, (...args: unknown[]) => void>();
+
+  private readonly handleMessage = (event: MessageEvent): void => {
+    void this.onMessage(event);
+  };
+
+  /**
+   * 初始化桥接服务
+   *
+   * 被 popup / iframe 打开时向 opener / parent 广播 READY；
+   * 被不在白名单中的页面嵌入时不启动，避免嵌入方诱导用户确认连接或签名
+   */
+  async init(provider: AnDaoWalletProvider): Promise<void> {
+    if (this.provider || typeof window === 'undefined') {
+      return;
+    }
+    if (!isEmbeddingAllowed(window, import.meta.env.VITE_PROVIDER_ALLOWED_ORIGINS)) {
+      console.warn('[ProviderBridgeService] embedded by an origin outside the allow list, bridge disabled');
+      return;
+    }
+
+    this.provider = provider;
+    PROVIDER_BRIDGE_EVENTS.forEach((eventName) => {
+      const handler = (...args: unknown[]) => {
+        void this.broadcastEvent(eventName, args);
+      };
+      this.eventHandlers.set(eventName, handler);
+      provider.on(eventName, handler);
+    });
+    window.addEventListener('message', this.handleMessage);
+
+    // READY 不携带账户信息，对端来源未知时可以广播
+    const ready: ProviderBridgeReadyMessage = { type: PROVIDER_BRIDGE_MESSAGE.READY };
+    const hosts = [window.opener as Window | null, window.parent !== window ? window.parent : null];
+    hosts.forEach((host) => host?.postMessage(ready, '*'));
+  }
+
+  destroy(): void {
+    if (!this.provider || typeof window === 'undefined') {
+      return;
+    }
+
+    window.removeEventListener('message', this.handleMessage);
+    this.eventHandlers.forEach((handler, eventName) => this.provider?.removeListener(eventName, handler));
+    this.eventHandlers.clear();
+    this.clients.clear();
+    this.provider = null;
+  }
+
+  /**
+   * 断开来源的连接（设置页「已连接网站」）
+   *
+   * 撤销该来源的全部权限，并向其已连接的窗口发送 accountsChanged([])；
+   * 不经过 Provider 事件，避免其他来源与钱包页面收到空账户列表
+   */
+  async revokeOrigin(origin: string): Promise<void> {
+    await permissionService.revokePermissions(origin);
+
+    const message: ProviderBridgeEventMessage = {
+      type: PROVIDER_BRIDGE_MESSAGE.EVENT,
+      event: 'accountsChanged',
+      args: [[]],
+    };
+    for (const [client, clientOrigin] of Array.from(this.clients.entries())) {
+      if (client.closed) {
+        this.clients.delete(client);
+        continue;
+      }
+      if (clientOrigin === origin) {
+        client.postMessage(message, origin);
+      }
+    }
+  }
+
+  private async onMessage(event: MessageEvent): Promise<void> {
+    const data = event.data as unknown;
+    if (!isObject(data) || !this.provider) {
+      return;
+    }
+
+    const type = data.type;
+    if (type !== PROVIDER_BRIDGE_MESSAGE.HANDSHAKE && type !== PROVIDER_BRIDGE_MESSAGE.REQUEST) {
+      return;
+    }
+
+    const origin = event.origin;
+    const source = event.source as MessageTarget | null;
+    if (!origin || origin === 'null' || !source || typeof source.postMessage !== 'function') {
+      return;
+    }
+    if (!isOriginAllowed(origin, import.meta.env.VITE_PROVIDER_ALLOWED_ORIGINS)) {
+      return;
+    }
+
+    // 同一窗口导航到其他来源后重新绑定
+    this.clients.set(source, origin);
+
+    if (type === PROVIDER_BRIDGE_MESSAGE.HANDSHAKE) {
+      const ready: ProviderBridgeReadyMessage = {
+        type: PROVIDER_BRIDGE_MESSAGE.READY,
+        chainId: (await this.provider.requestForOrigin(origin, { method: 'eth_chainId' })) as string,
+        accounts: (await this.provider.requestForOrigin(origin, { method: 'eth_accounts' })) as string[],
+      };
+      source.postMessage(ready, origin);
+      return;
+    }
+
+    const id = typeof data.id === 'string' ? data.id : '';
+    if (!id) {
+      return;
+    }
+
+    const response: ProviderBridgeResponseMessage = { type: PROVIDER_BRIDGE_MESSAGE.RESPONSE, id };
+    try {
+      if (typeof data.method !== 'string' || !data.method) {
+        throw new Error('Invalid parameter: method must be a non-empty string');
+      }
+      response.result = await this.provider.requestForOrigin(origin, {
+        method: data.method,
+        params: data.params as unknown[] | undefined,
+      });
+    } catch (error) {
+      response.error = toProviderRpcError(error);
+    }
+
+    source.postMessage(response, origin);
+  }
+
+  /**
+   * 向已连接的 DApp 转发 Provider 事件
+   *
+   * accountsChanged 按来源重新计算，未授权来源收到空列表
+   */
+  private async broadcastEvent(eventName: ProviderBridgeEvent, args: unknown[]): Promise<void> {
+    for (const [client, origin] of Array.from(this.clients.entries())) {
+      if (client.closed) {
+        this.clients.delete(client);
+        continue;
+      }
+
+      let eventArgs = args;
+      if (eventName === 'accountsChanged' && this.provider) {
+        eventArgs = [await this.provider.requestForOrigin(origin, { method: 'eth_accounts' })];
+      } else if (eventName === 'disconnect' && args[0] instanceof Error) {
+        eventArgs = [toProviderRpcError(args[0])];
+      }
+
+      const message: ProviderBridgeEventMessage = {
+        type: PROVIDER_BRIDGE_MESSAGE.EVENT,
+        event: eventName,
+        args: eventArgs,
+      };
+      client.postMessage(message, origin);
+    }
+  }
+}
+
+export const providerBridgeService = new ProviderBridgeService();
@@ -0,0 +1,283 @@
+/**
+ * 风险评估服务
+ *
+ * 在请求进入确认流程前进行本地风险评分（不依赖外部服务）：
+ * - 来源黑 / 白名单（设置中维护，支持 `*.example.com` 通配）
+ * - 调用没有合约代码的目标地址
+ * - 无限额 approve / setApprovalForAll
+ * - 首次转账的收款地址
+ * - 转账金额超过安全提示级别对应的阈值
+ *
+ * 评分达到高风险时，确认界面需要用户显式确认风险后才能批准
+ *
+ * @module services/RiskAssessmentService
+ */
+
+import { decodeFunctionData, formatUnits, parseAbi, parseEther, type Address, type Hex } from 'viem';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { settingsService, type WalletSettings } from './SettingsService';
+import { transactionHistoryService } from './TransactionHistoryService';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskReasonCode =
+  | 'ORIGIN_BLOCKLISTED'
+  | 'TARGET_NO_CODE'
+  | 'UNLIMITED_APPROVAL'
+  | 'APPROVAL_FOR_ALL'
+  | 'FIRST_TIME_RECIPIENT'
+  | 'HIGH_VALUE';
+
+/**
+ * 风险原因
+ */
+export interface RiskReason {
+  code: RiskReasonCode;
+  message: string;
+  /** 该项贡献的分值 */
+  score: number;
+}
+
+/**
+ * 风险评估结果
+ */
+export interface RiskAssessment {
+  /** 0-100 */
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  /** 来源在白名单中 */
+  trustedOrigin: boolean;
+  /** 需要用户显式确认风险 */
+  requiresAcknowledgement: boolean;
+}
+
+/**
+ * 待评估的调用
+ */
+export interface RiskCall {
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
+
+export interface RiskAssessmentInput {
+  origin: string;
+  chainId: number;
+  accountAddress?: Address;
+  /** 交易类请求的调用列表（签名、连接等请求为空） */
+  calls?: RiskCall[];
+}
+
+const RISK_SCORES: Record<RiskReasonCode, number> = {
+  ORIGIN_BLOCKLISTED: 100,
+  TARGET_NO_CODE: 40,
+  UNLIMITED_APPROVAL: 40,
+  APPROVAL_FOR_ALL: 40,
+  FIRST_TIME_RECIPIENT: 15,
+  HIGH_VALUE: 25,
+};
+
+const HIGH_RISK_SCORE = 60;
+const MEDIUM_RISK_SCORE = 25;
+
+/**
+ * 安全提示级别越高，大额转账阈值越低（原生代币）
+ */
+const VALUE_THRESHOLDS: Record<WalletSettings['securityTipLevel'], bigint> = {
+  high: parseEther('0.1'),
+  medium: parseEther('1'),
+  low: parseEther('10'),
+};
+
+/** 达到该值的 ERC-20 授权视为无限授权 */
+const UNLIMITED_APPROVAL_THRESHOLD = 2n ** 255n;
+
+const RISK_CALL_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amountOrTokenId) returns (bool)',
+  'function approve(address spender, uint256 amountOrTokenId) returns (bool)',
+  'function increaseAllowance(address spender, uint256 addedValue) returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+
+function decodeRiskCall(data: Hex) {
+  try {
+    return decodeFunctionData({ abi: RISK_CALL_ABI, data });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 判断来源是否匹配名单条目
+ *
+ * 条目可以是完整来源（https://app.example）、主机名（app.example）或通配主机（*.example）
+ */
+export function matchesOriginPattern(origin: string, pattern: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase().replace(/\/+$/, '');
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  const normalizedOrigin = origin.trim().toLowerCase().replace(/\/+$/, '');
+  if (normalizedPattern.includes('://')) {
+    return normalizedOrigin === normalizedPattern;
+  }
+
+  let host: string;
+  try {
+    host = new URL(normalizedOrigin).hostname;
+  } catch {
+    return false;
+  }
+
+  if (normalizedPattern.startsWith('*.')) {
+    const domain = normalizedPattern.slice(2);
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === normalizedPattern;
+}
+
+export class RiskAssessmentService {
+  /**
+   * 评估请求风险
+   */
+  async assess(input: RiskAssessmentInput): Promise<RiskAssessment> {
+    const settings = await settingsService.getSettings();
+    const allowlist = settings.originAllowlist ?? [];
+    const blocklist = settings.originBlocklist ?? [];
+    const trustedOrigin = allowlist.some((pattern) => matchesOriginPattern(input.origin, pattern));
+    const reasons: RiskReason[] = [];
+
+    // 白名单条目作为黑名单通配的例外
+    if (!trustedOrigin && blocklist.some((pattern) => matchesOriginPattern(input.origin, pattern))) {
+      this.addReason(reasons, 'ORIGIN_BLOCKLISTED', `来源 ${input.origin} 在黑名单中，可能是钓鱼网站`);
+    }
+
+    const calls = input.calls ?? [];
+    if (calls.length > 0) {
+      await this.assessCalls(reasons, input, calls, VALUE_THRESHOLDS[settings.securityTipLevel]);
+    }
+
+    const score = Math.min(
+      100,
+      reasons.reduce((total, reason) => total + reason.score, 0)
+    );
+    const level: RiskLevel = score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+
+    return {
+      score,
+      level,
+      reasons,
+      trustedOrigin,
+      requiresAcknowledgement: level === 'high',
+    };
+  }
+
+  private async assessCalls(
+    reasons: RiskReason[],
+    input: RiskAssessmentInput,
+    calls: RiskCall[],
+    valueThreshold: bigint
+  ): Promise<void> {
+    const recipients = new Set<string>();
+    let totalValue = 0n;
+
+    for (const call of calls) {
+      totalValue += call.value;
+      if (call.data === '0x') {
+        recipients.add(call.to.toLowerCase());
+      } else if (!(await this.hasCode(input.chainId, call.to))) {
+        this.addReason(reasons, 'TARGET_NO_CODE', `目标地址 ${call.to} 没有合约代码，调用数据不会被执行`);
+      }
+
+      const decoded = decodeRiskCall(call.data);
+      if (!decoded) {
+        continue;
+      }
+      switch (decoded.functionName) {
+        case 'transfer':
+          recipients.add(decoded.args[0].toLowerCase());
+          break;
+        case 'transferFrom':
+          recipients.add(decoded.args[1].toLowerCase());
+          break;
+        case 'approve':
+        case 'increaseAllowance':
+          if (decoded.args[1] >= UNLIMITED_APPROVAL_THRESHOLD) {
+            this.addReason(
+              reasons,
+              'UNLIMITED_APPROVAL',
+              `向 ${decoded.args[0]} 授予 ${call.to} 的无限额度，对方可转走全部代币`
+            );
+          }
+          break;
+        case 'setApprovalForAll':
+          if (decoded.args[1]) {
+            this.addReason(
+              reasons,
+              'APPROVAL_FOR_ALL',
+              `授权 ${decoded.args[0]} 管理 ${call.to} 下的全部 NFT`
+            );
+          }
+          break;
+      }
+    }
+
+    if (input.accountAddress) {
+      recipients.delete(input.accountAddress.toLowerCase());
+      const known = await this.getKnownRecipients(input.accountAddress, input.chainId);
+      recipients.forEach((recipient) => {
+        if (!known.has(recipient)) {
+          this.addReason(reasons, 'FIRST_TIME_RECIPIENT', `首次向 ${recipient} 转账，请核对地址`);
+        }
+      });
+    }
+
+    if (totalValue > valueThreshold) {
+      this.addReason(
+        reasons,
+        'HIGH_VALUE',
+        `转出金额 ${formatUnits(totalValue, 18)} 超过安全提示阈值 ${formatUnits(valueThreshold, 18)}`
+      );
+    }
+  }
+
+  private async hasCode(chainId: number, address: Address): Promise<boolean> {
+    try {
+      const code = await rpcClientManager.getPublicClient(chainId).getCode({ address });
+      return !!code && code !== '0x';
+    } catch {
+      // 无法读取时不计入风险，避免 RPC 故障导致误报
+      return true;
+    }
+  }
+
+  /**
+   * 从交易历史汇总已转账过的地址（原生转账目标与 ERC-20 transfer 收款人）
+   */
+  private async getKnownRecipients(accountAddress: Address, chainId: number): Promise<Set<string>> {
+    const transactions = await transactionHistoryService.getTransactions({ accountAddress, chainId });
+    const known = new Set<string>();
+    for (const tx of transactions) {
+      if (tx.from.toLowerCase() !== accountAddress.toLowerCase()) {
+        continue;
+      }
+      known.add(tx.to.toLowerCase());
+      const decoded = tx.data ? decodeRiskCall(tx.data as Hex) : null;
+      if (decoded?.functionName === 'transfer') {
+        known.add(decoded.args[0].toLowerCase());
+      } else if (decoded?.functionName === 'transferFrom') {
+        known.add(decoded.args[1].toLowerCase());
+      }
+    }
+    return known;
+  }
+
+  private addReason(reasons: RiskReason[], code: RiskReasonCode, message: string): void {
+    reasons.push({ code, message, score: RISK_SCORES[code] });
+  }
+}
+
+export const riskAssessmentService = new RiskAssessmentService();
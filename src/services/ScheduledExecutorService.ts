@@ -0,0 +1,495 @@
+/**
+ * 定时执行器服务
+ *
+ * 通过 Kernel 执行器模块（ExecutorManager，installModule(EXECUTOR)）在链上预授权延迟交易或周期交易，
+ * 到期后任何 keeper 都可以触发执行，无需钱包打开或解锁 owner 私钥（订阅、工资发放等场景）：
+ * - owner 以一笔操作创建调度：目标调用、首次执行时间、间隔、执行次数与转出总额上限；
+ *   单次延迟交易即执行次数为 1、间隔为 0
+ * - 执行器在每次执行时校验到期时间与剩余次数，并按账户余额变化累计转出，超过上限的执行被拒绝
+ * - 首次创建调度时若执行器尚未安装，安装与创建调度在同一笔批量操作中提交，保证先安装后创建
+ * - 账户启用支出限额（见 SpendingLimitService）且根验证已挂载 Hook 时，执行器以同一 Hook 安装，
+ *   keeper 触发的执行同样受链上限额约束；执行器不经过 Hook 时，调度的转出上限不能超过一个周期的限额
+ * - 调度 ID 由客户端按账户与随机盐生成，本地保存调度参数，执行状态始终从链上读取
+ *
+ * @module services/ScheduledExecutorService
+ */
+
+import { encodeAbiParameters, encodeFunctionData, keccak256, type Address, type Hex } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import { IPlugin, PluginType } from '@/types/plugins';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { ErrorCode, WalletError } from '@/utils/errors';
+import { encodeExecutorInstallData } from '@/utils/kernel';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { pluginService } from './PluginService';
+import { getTokenOutflows, NATIVE_TOKEN_ADDRESS, spendingLimitService } from './SpendingLimitService';
+import { transactionRelayer } from './TransactionRelayer';
+
+/**
+ * 本地保存的执行器调度
+ */
+export interface ExecutorSchedule {
+  /** 链上调度 ID（bytes32） */
+  id: Hex;
+  label: string;
+  accountAddress: Address;
+  chainId: number;
+  executorAddress: Address;
+  target: Address;
+  value: bigint;
+  data: Hex;
+  /** 首次可执行时间（秒） */
+  startAt: number;
+  /** 两次执行的间隔（秒），单次执行为 0 */
+  interval: number;
+  /** 执行次数 */
+  count: number;
+  /** 计入上限的代币，原生代币为 NATIVE_TOKEN_ADDRESS */
+  token: Address;
+  /** 全部执行累计转出的上限（代币最小单位） */
+  maxAmount: bigint;
+  createdAt: number;
+  txHash: string;
+  cancelTxHash?: string;
+}
+
+/**
+ * 创建调度的输入
+ */
+export interface CreateExecutorScheduleInput {
+  accountAddress: Address;
+  chainId: number;
+  label: string;
+  target: Address;
+  value: bigint;
+  data: Hex;
+  startAt: number;
+  interval: number;
+  count: number;
+  /** 未指定时为单次转出数量乘以执行次数 */
+  maxAmount?: bigint;
+}
+
+export type ExecutorScheduleState = 'waiting' | 'due' | 'completed' | 'cancelled';
+
+/**
+ * 链上调度状态
+ */
+export interface ExecutorScheduleStatus {
+  state: ExecutorScheduleState;
+  executedCount: number;
+  remainingCount: number;
+  /** 已累计转出 */
+  spent: bigint;
+  /** 上次执行时间（秒），未执行过为 0 */
+  lastExecutedAt: number;
+  /** 下次可执行时间（秒），已完成或已取消时为 undefined */
+  nextExecutionAt?: number;
+}
+
+const SCHEDULED_EXECUTOR_ABI = [
+  {
+    inputs: [
+      { name: 'scheduleId', type: 'bytes32' },
+      { name: 'target', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'data', type: 'bytes' },
+      { name: 'startAt', type: 'uint48' },
+      { name: 'interval', type: 'uint48' },
+      { name: 'count', type: 'uint16' },
+      { name: 'token', type: 'address' },
+      { name: 'maxAmount', type: 'uint256' },
+    ],
+    name: 'createSchedule',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'scheduleId', type: 'bytes32' }],
+    name: 'cancelSchedule',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'account', type: 'address' },
+      { name: 'scheduleId', type: 'bytes32' },
+    ],
+    name: 'execute',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'account', type: 'address' },
+      { name: 'scheduleId', type: 'bytes32' },
+    ],
+    name: 'getSchedule',
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'startAt', type: 'uint48' },
+          { name: 'interval', type: 'uint48' },
+          { name: 'count', type: 'uint16' },
+          { name: 'executedCount', type: 'uint16' },
+          { name: 'lastExecutedAt', type: 'uint48' },
+          { name: 'spent', type: 'uint256' },
+          { name: 'cancelled', type: 'bool' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const KERNEL_MODULE_ABI = [
+  {
+    inputs: [
+      { name: 'moduleTypeId', type: 'uint256' },
+      { name: 'module', type: 'address' },
+      { name: 'additionalContext', type: 'bytes' },
+    ],
+    name: 'isModuleInstalled',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'executor', type: 'address' }],
+    name: 'executorConfig',
+    outputs: [{ name: '', type: 'tuple', components: [{ name: 'hook', type: 'address' }] }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const SCHEDULED_EXECUTOR_PLUGIN_ID = 'scheduled-executor';
+/** 调度管理使用独立的 nonce 通道 */
+const SCHEDULED_EXECUTOR_NONCE_CHANNEL = 'scheduled-executor';
+/** 链上 count 为 uint16 */
+export const MAX_SCHEDULE_COUNT = 65535;
+
+export function isScheduledExecutorPlugin(plugin: IPlugin): boolean {
+  return plugin.id === SCHEDULED_EXECUTOR_PLUGIN_ID;
+}
+
+/**
+ * 编码 keeper 触发调度的调用（任何地址都可以向执行器发送）
+ */
+export function encodeTriggerCallData(accountAddress: Address, scheduleId: Hex): Hex {
+  return encodeFunctionData({
+    abi: SCHEDULED_EXECUTOR_ABI,
+    functionName: 'execute',
+    args: [accountAddress, scheduleId],
+  });
+}
+
+export class ScheduledExecutorService {
+  /**
+   * 获取账户在指定链上的调度（按创建时间倒序）
+   */
+  async getSchedules(accountAddress: Address, chainId: number): Promise<ExecutorSchedule[]> {
+    const schedules = (await storageAdapter.get<ExecutorSchedule[]>(this.storageKey(accountAddress, chainId))) || [];
+    return [...schedules].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 创建调度，执行器未安装时与安装操作合并为一笔批量操作
+   */
+  async createSchedule(input: CreateExecutorScheduleInput, ownerPrivateKey: Hex): Promise<ExecutorSchedule> {
+    const chainConfig = requireChainConfig(input.chainId, ['scheduledExecutorAddress']);
+    const executorAddress = chainConfig.scheduledExecutorAddress as Address;
+    const { token, amount } = this.getScheduleOutflow(input);
+    const maxAmount = input.maxAmount ?? amount * BigInt(input.count);
+    this.validateSchedule(input, amount, maxAmount);
+
+    const installed = await this.isExecutorInstalled(input.accountAddress, input.chainId, executorAddress);
+    const executorHook = await this.resolveExecutorHook(input.accountAddress, input.chainId, executorAddress, installed);
+    if (!executorHook) {
+      await spendingLimitService.assertScheduleWithinLimits(input.accountAddress, input.chainId, token, maxAmount);
+    }
+
+    const id = keccak256(
+      encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [input.accountAddress, generatePrivateKey()])
+    );
+    const createScheduleData = encodeFunctionData({
+      abi: SCHEDULED_EXECUTOR_ABI,
+      functionName: 'createSchedule',
+      args: [id, input.target, input.value, input.data, input.startAt, input.interval, input.count, token, maxAmount],
+    });
+
+    let txHash: string;
+    if (installed) {
+      txHash = await this.sendExecutorCall(
+        input.accountAddress,
+        input.chainId,
+        executorAddress,
+        createScheduleData,
+        ownerPrivateKey
+      );
+    } else {
+      const plugin: IPlugin = {
+        id: SCHEDULED_EXECUTOR_PLUGIN_ID,
+        name: '定时执行器',
+        type: PluginType.EXECUTOR,
+        address: executorAddress,
+        version: '1.0.0',
+        description: '按预授权的时间、次数与金额上限代账户执行交易，到期后任何人都可以触发',
+        installed: false,
+      };
+      // 安装（账户调用自身）与创建调度在同一笔操作中按顺序执行
+      txHash = await transactionRelayer.sendBatch(
+        input.accountAddress,
+        input.chainId,
+        [
+          {
+            to: input.accountAddress,
+            value: BigInt(0),
+            data: pluginService.buildInstallCallData(plugin, {
+              installData: encodeExecutorInstallData('0x', executorHook),
+            }),
+          },
+          { to: executorAddress, value: BigInt(0), data: createScheduleData },
+        ],
+        ownerPrivateKey,
+        undefined,
+        { nonceChannel: SCHEDULED_EXECUTOR_NONCE_CHANNEL }
+      );
+      pluginService.registerPlugin({ ...plugin, installed: true, installedAt: Date.now() });
+    }
+
+    const schedule: ExecutorSchedule = {
+      id,
+      label: input.label,
+      accountAddress: input.accountAddress,
+      chainId: input.chainId,
+      executorAddress,
+      target: input.target,
+      value: input.value,
+      data: input.data,
+      startAt: input.startAt,
+      interval: input.interval,
+      count: input.count,
+      token,
+      maxAmount,
+      createdAt: Date.now(),
+      txHash,
+    };
+    const schedules = await this.getSchedules(input.accountAddress, input.chainId);
+    await this.saveSchedules(input.accountAddress, input.chainId, [...schedules, schedule]);
+    return schedule;
+  }
+
+  /**
+   * 从链上读取调度的执行状态
+   */
+  async getScheduleStatus(schedule: ExecutorSchedule): Promise<ExecutorScheduleStatus> {
+    const onChain = await rpcClientManager.getPublicClient(schedule.chainId).readContract({
+      address: schedule.executorAddress,
+      abi: SCHEDULED_EXECUTOR_ABI,
+      functionName: 'getSchedule',
+      args: [schedule.accountAddress, schedule.id],
+    });
+
+    const executedCount = Number(onChain.executedCount);
+    const remainingCount = Math.max(Number(onChain.count) - executedCount, 0);
+    const status: ExecutorScheduleStatus = {
+      state: 'waiting',
+      executedCount,
+      remainingCount,
+      spent: onChain.spent,
+      lastExecutedAt: Number(onChain.lastExecutedAt),
+    };
+    if (onChain.cancelled) {
+      return { ...status, state: 'cancelled' };
+    }
+    if (remainingCount === 0) {
+      return { ...status, state: 'completed' };
+    }
+
+    const nextExecutionAt = Number(onChain.startAt) + executedCount * Number(onChain.interval);
+    return {
+      ...status,
+      state: Math.floor(Date.now() / 1000) >= nextExecutionAt ? 'due' : 'waiting',
+      nextExecutionAt,
+    };
+  }
+
+  /**
+   * 以 owner 私钥取消调度
+   */
+  async cancelSchedule(
+    accountAddress: Address,
+    chainId: number,
+    scheduleId: Hex,
+    ownerPrivateKey: Hex
+  ): Promise<string> {
+    const schedules = await this.getSchedules(accountAddress, chainId);
+    const schedule = this.requireSchedule(schedules, scheduleId);
+    if (schedule.cancelTxHash) {
+      throw new WalletError('调度已取消', ErrorCode.VALIDATION_ERROR);
+    }
+
+    const txHash = await this.sendExecutorCall(
+      accountAddress,
+      chainId,
+      schedule.executorAddress,
+      encodeFunctionData({ abi: SCHEDULED_EXECUTOR_ABI, functionName: 'cancelSchedule', args: [schedule.id] }),
+      ownerPrivateKey
+    );
+    schedule.cancelTxHash = txHash;
+    await this.saveSchedules(accountAddress, chainId, schedules);
+    return txHash;
+  }
+
+  /**
+   * 从本账户触发到期的调度（keeper 未执行时的手动兜底）
+   */
+  async triggerSchedule(
+    accountAddress: Address,
+    chainId: number,
+    scheduleId: Hex,
+    signerPrivateKey: Hex
+  ): Promise<string> {
+    const schedule = this.requireSchedule(await this.getSchedules(accountAddress, chainId), scheduleId);
+    const status = await this.getScheduleStatus(schedule);
+    if (status.state !== 'due') {
+      throw new WalletError(
+        status.nextExecutionAt
+          ? `调度将于 ${new Date(status.nextExecutionAt * 1000).toLocaleString()} 后可执行`
+          : '调度已结束',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+
+    return this.sendExecutorCall(
+      accountAddress,
+      chainId,
+      schedule.executorAddress,
+      encodeTriggerCallData(accountAddress, schedule.id),
+      signerPrivateKey
+    );
+  }
+
+  /**
+   * 计算单次执行的转出（每个调度只能限制一种代币）
+   */
+  private getScheduleOutflow(input: CreateExecutorScheduleInput): { token: Address; amount: bigint } {
+    const outflows = getTokenOutflows(input.accountAddress, [
+      { to: input.target, value: input.value, data: input.data },
+    ]);
+    if (outflows.size > 1) {
+      throw new WalletError('一个调度只能转出一种代币', ErrorCode.VALIDATION_ERROR);
+    }
+    const [entry] = Array.from(outflows.entries());
+    return entry ? { token: entry[0] as Address, amount: entry[1] } : { token: NATIVE_TOKEN_ADDRESS, amount: BigInt(0) };
+  }
+
+  private validateSchedule(input: CreateExecutorScheduleInput, amount: bigint, maxAmount: bigint): void {
+    if (!Number.isInteger(input.count) || input.count < 1 || input.count > MAX_SCHEDULE_COUNT) {
+      throw new WalletError(`执行次数必须在 1 到 ${MAX_SCHEDULE_COUNT} 之间`, ErrorCode.VALIDATION_ERROR);
+    }
+    if (!Number.isInteger(input.interval) || input.interval < 0 || (input.count > 1 && input.interval === 0)) {
+      throw new WalletError('周期执行的间隔必须大于 0', ErrorCode.VALIDATION_ERROR);
+    }
+    if (!Number.isInteger(input.startAt) || input.startAt <= 0) {
+      throw new WalletError('首次执行时间无效', ErrorCode.VALIDATION_ERROR);
+    }
+    if (maxAmount < amount) {
+      throw new WalletError('转出上限小于单次转出数量，调度无法执行', ErrorCode.VALIDATION_ERROR);
+    }
+  }
+
+  /**
+   * 执行器执行时经过的支出限额 Hook，未启用限额或执行器不经过 Hook 时为 undefined
+   *
+   * 尚未安装时，根验证已挂载 Hook 则以同一 Hook 安装执行器；已安装时从链上读取执行器的 hook
+   */
+  private async resolveExecutorHook(
+    accountAddress: Address,
+    chainId: number,
+    executorAddress: Address,
+    installed: boolean
+  ): Promise<Address | undefined> {
+    const settings = await spendingLimitService.getSettings(accountAddress, chainId);
+    if (!settings) {
+      return undefined;
+    }
+    if (!installed) {
+      return (await spendingLimitService.isRootHookAttached(accountAddress, chainId))
+        ? settings.hookAddress
+        : undefined;
+    }
+
+    try {
+      const config = await rpcClientManager.getPublicClient(chainId).readContract({
+        address: accountAddress,
+        abi: KERNEL_MODULE_ABI,
+        functionName: 'executorConfig',
+        args: [executorAddress],
+      });
+      return config.hook.toLowerCase() === settings.hookAddress.toLowerCase() ? settings.hookAddress : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async isExecutorInstalled(accountAddress: Address, chainId: number, executorAddress: Address): Promise<boolean> {
+    try {
+      return await rpcClientManager.getPublicClient(chainId).readContract({
+        address: accountAddress,
+        abi: KERNEL_MODULE_ABI,
+        functionName: 'isModuleInstalled',
+        args: [BigInt(PluginType.EXECUTOR), executorAddress, '0x'],
+      });
+    } catch {
+      // 账户尚未部署时无法查询，视为未安装
+      return false;
+    }
+  }
+
+  private async sendExecutorCall(
+    accountAddress: Address,
+    chainId: number,
+    executorAddress: Address,
+    data: Hex,
+    signerPrivateKey: Hex
+  ): Promise<string> {
+    return transactionRelayer.sendTransaction(
+      accountAddress,
+      chainId,
+      executorAddress,
+      data,
+      signerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: SCHEDULED_EXECUTOR_NONCE_CHANNEL }
+    );
+  }
+
+  private requireSchedule(schedules: ExecutorSchedule[], scheduleId: Hex): ExecutorSchedule {
+    const schedule = schedules.find((item) => item.id.toLowerCase() === scheduleId.toLowerCase());
+    if (!schedule) {
+      throw new WalletError('调度不存在', ErrorCode.VALIDATION_ERROR);
+    }
+    return schedule;
+  }
+
+  private async saveSchedules(accountAddress: Address, chainId: number, schedules: ExecutorSchedule[]): Promise<void> {
+    await storageAdapter.set(this.storageKey(accountAddress, chainId), schedules);
+  }
+
+  private storageKey(accountAddress: Address, chainId: number): string {
+    return `${StorageKey.EXECUTOR_SCHEDULES}_${accountAddress.toLowerCase()}_${chainId}`;
+  }
+}
+
+export const scheduledExecutorService = new ScheduledExecutorService();
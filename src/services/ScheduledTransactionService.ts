@@ -0,0 +1,133 @@
+/**
+ * 定时 / 条件交易服务
+ *
+ * 管理 ConditionalTransactionPlugin 与 DelayedTransactionPlugin 实例：
+ * - 按插件合约地址复用实例，init 时为存储中出现过的每个插件地址恢复实例与监控
+ * - 处理 Service Worker 的 CHECK_SCHEDULED_TRANSACTION 请求，转交对应插件检查条件 / 到期
+ * - 为列表页面按账户与链汇总两类交易
+ *
+ * @module services/ScheduledTransactionService
+ */
+
+import type { Address } from 'viem';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import {
+  ConditionalTransactionPlugin,
+  type ConditionalTransaction,
+} from '@/plugins/ConditionalTransactionPlugin';
+import { DelayedTransactionPlugin, type DelayedTransaction } from '@/plugins/DelayedTransactionPlugin';
+import type { ScheduledMonitoringKind } from '@/serviceWorker/MonitoringServiceWorker';
+
+/**
+ * 定时 / 条件交易服务
+ */
+export class ScheduledTransactionService {
+  private conditionalPlugins: Map<string, ConditionalTransactionPlugin> = new Map();
+  private delayedPlugins: Map<string, DelayedTransactionPlugin> = new Map();
+
+  /**
+   * 初始化
+   *
+   * 注册 Service Worker 检查请求的处理器，并恢复已保存的条件交易与延迟交易
+   */
+  async init(): Promise<void> {
+    try {
+      const { monitoringServiceWorker } = await import('@/serviceWorker/MonitoringServiceWorker');
+      monitoringServiceWorker.onMessage<{ taskId: string; kind: ScheduledMonitoringKind }>(
+        'CHECK_SCHEDULED_TRANSACTION',
+        (data) => {
+          if (data && typeof data.taskId === 'string') {
+            this.handleCheckRequest(data.taskId, data.kind).catch((error) => {
+              console.error(`[ScheduledTransactionService] Error checking ${data.taskId}:`, error);
+            });
+          }
+        }
+      );
+    } catch (error) {
+      console.warn('[ScheduledTransactionService] Service Worker not available, using fallback:', error);
+    }
+
+    const conditional =
+      (await storageAdapter.get<ConditionalTransaction[]>(StorageKey.CONDITIONAL_TRANSACTIONS)) || [];
+    const delayed = (await storageAdapter.get<DelayedTransaction[]>(StorageKey.DELAYED_TRANSACTIONS)) || [];
+
+    for (const pluginAddress of new Set(conditional.map((t) => t.pluginAddress.toLowerCase()))) {
+      await this.getConditionalPlugin(pluginAddress as Address);
+    }
+    for (const pluginAddress of new Set(delayed.map((t) => t.pluginAddress.toLowerCase()))) {
+      await this.getDelayedPlugin(pluginAddress as Address);
+    }
+  }
+
+  /**
+   * 获取条件交易插件实例（首次获取时加载该插件已保存的交易）
+   */
+  async getConditionalPlugin(pluginAddress: Address): Promise<ConditionalTransactionPlugin> {
+    const key = pluginAddress.toLowerCase();
+    let plugin = this.conditionalPlugins.get(key);
+    if (!plugin) {
+      plugin = new ConditionalTransactionPlugin(pluginAddress);
+      this.conditionalPlugins.set(key, plugin);
+      await plugin.init();
+    }
+    return plugin;
+  }
+
+  /**
+   * 获取延迟交易插件实例（首次获取时加载该插件已保存的交易）
+   */
+  async getDelayedPlugin(pluginAddress: Address): Promise<DelayedTransactionPlugin> {
+    const key = pluginAddress.toLowerCase();
+    let plugin = this.delayedPlugins.get(key);
+    if (!plugin) {
+      plugin = new DelayedTransactionPlugin(pluginAddress);
+      this.delayedPlugins.set(key, plugin);
+      await plugin.init();
+    }
+    return plugin;
+  }
+
+  /**
+   * 获取账户在指定链上的条件交易（按创建时间倒序）
+   */
+  getConditionalTransactions(accountAddress: Address, chainId: number): ConditionalTransaction[] {
+    return Array.from(this.conditionalPlugins.values())
+      .flatMap((plugin) => plugin.getAllConditionalTransactions())
+      .filter((t) => t.chainId === chainId && t.accountAddress.toLowerCase() === accountAddress.toLowerCase())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 获取账户在指定链上的延迟交易（按创建时间倒序）
+   */
+  getDelayedTransactions(accountAddress: Address, chainId: number): DelayedTransaction[] {
+    return Array.from(this.delayedPlugins.values())
+      .flatMap((plugin) => plugin.getAllDelayedTransactions())
+      .filter((t) => t.chainId === chainId && t.accountAddress.toLowerCase() === accountAddress.toLowerCase())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 处理 Service Worker 的检查请求
+   */
+  private async handleCheckRequest(taskId: string, kind: ScheduledMonitoringKind): Promise<void> {
+    if (kind === 'conditional-transaction') {
+      for (const plugin of this.conditionalPlugins.values()) {
+        if (plugin.getConditionalTransaction(taskId)) {
+          await plugin.checkTransaction(taskId);
+          return;
+        }
+      }
+    } else {
+      for (const plugin of this.delayedPlugins.values()) {
+        if (plugin.getDelayedTransaction(taskId)) {
+          await plugin.checkTransaction(taskId);
+          return;
+        }
+      }
+    }
+  }
+}
+
+export const scheduledTransactionService = new ScheduledTransactionService();
@@ -0,0 +1,603 @@
+/**
+ * 会话密钥服务
+ *
+ * 为 dApp 交互生成限定权限的会话密钥，授权范围内的操作无需每次解锁 owner 私钥：
+ * - 密钥在浏览器内生成，私钥以用户密码加密存入 SecurityVault，使用前需解锁（仅驻留内存）
+ * - 每个密钥绑定允许的目标合约、函数选择器、单笔与累计原生代币上限以及过期时间；
+ *   ERC-20 转出（transfer / transferFrom / approve）需在 tokenLimits 中声明累计上限，
+ *   链上验证器只限制原生代币，代币上限仅在本地签名前检查
+ * - 通过 PluginService 将会话密钥验证器安装为 Kernel 验证器（installModule），
+ *   链上由验证器执行同样的限制；本地在签名前预先检查，避免提交必然失败的操作
+ * - 安装操作上链成功后密钥才生效（pending → active），执行失败时删除本地私钥
+ * - 使用会话密钥发送时，TransactionRelayer 以会话私钥签名，nonce 使用该验证器的序列；
+ *   验证器只授权 execute 选择器，因此不支持以 ERC-20 支付 Gas（需 executeBatch 附带 approve）
+ * - 已用额度在操作回执确认成功后才计入，待确认的操作先占用额度，执行失败时释放
+ * - 支出限额 Hook 只挂载在根验证上，会话密钥签名的操作不受链上限额约束，
+ *   因此账户启用支出限额（见 SpendingLimitService）后不能创建或使用会话密钥
+ * - 撤销时以 owner 私钥调用验证器的 revokeSessionKey，只移除该密钥；撤销操作上链成功后
+ *   才标记为已撤销并删除本地私钥（revoking → revoked），执行失败时恢复可用；
+ *   不能卸载验证器模块，uninstallModule 会清除整个 ValidationId，使同一验证器上的其他会话密钥一并失效
+ *
+ * @module services/SessionKeyService
+ */
+
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  isAddress,
+  decodeFunctionData,
+  parseAbi,
+  size,
+  slice,
+  toFunctionSelector,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import { IPlugin, PluginType } from '@/types/plugins';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { ErrorCode, WalletError } from '@/utils/errors';
+import { encodeValidatorInstallData } from '@/utils/kernel';
+import { pluginService } from './PluginService';
+import { securityVault } from './SecurityVault';
+import { getTokenOutflows, NATIVE_TOKEN_ADDRESS, spendingLimitService } from './SpendingLimitService';
+import { transactionRelayer, type RelayOptions } from './TransactionRelayer';
+
+/**
+ * 单个目标合约的授权
+ */
+export interface SessionKeyPermission {
+  target: Address;
+  /** 允许调用的函数选择器，为空表示允许该合约的任意函数 */
+  selectors: Hex[];
+  /** 单笔调用附带的原生代币上限（wei） */
+  maxValuePerCall: bigint;
+}
+
+/**
+ * ERC-20 代币的累计转出上限（仅本地检查）
+ */
+export interface SessionKeyTokenLimit {
+  token: Address;
+  /** 整个有效期内累计转出或授权的代币上限（最小单位） */
+  totalLimit: bigint;
+}
+
+/**
+ * 会话密钥的授权范围
+ */
+export interface SessionKeyScope {
+  permissions: SessionKeyPermission[];
+  /** 整个有效期内累计附带的原生代币上限（wei） */
+  totalValueLimit: bigint;
+  /** 允许转出的 ERC-20 代币，未列出的代币不能转出或授权 */
+  tokenLimits?: SessionKeyTokenLimit[];
+  /** 过期时间（秒） */
+  validUntil: number;
+}
+
+export type SessionKeyStatus = 'pending' | 'active' | 'failed' | 'expired' | 'revoking' | 'revoked';
+
+/**
+ * 已提交、等待回执确认的会话密钥操作
+ */
+export interface SessionKeyPendingSpend {
+  txHash: string;
+  /** 附带的原生代币（wei） */
+  value: bigint;
+  /** 转出或授权的 ERC-20 代币（小写代币地址 → 数量） */
+  tokens: Record<string, bigint>;
+}
+
+/**
+ * 会话密钥记录（不含私钥）
+ */
+export interface SessionKey {
+  /** 会话密钥地址（小写） */
+  id: string;
+  label: string;
+  accountAddress: Address;
+  chainId: number;
+  address: Address;
+  /** 会话密钥验证器地址 */
+  validator: Address;
+  scope: SessionKeyScope;
+  /** 已通过该密钥发送且执行成功的原生代币累计（wei） */
+  spentValue: bigint;
+  /** 已执行成功的 ERC-20 转出累计（小写代币地址 → 数量） */
+  spentTokens?: Record<string, bigint>;
+  /** 已提交、尚未确认的操作，确认前占用额度 */
+  pendingSpends?: SessionKeyPendingSpend[];
+  createdAt: number;
+  installTxHash?: string;
+  /** 安装操作上链成功的时间，此前密钥不可用 */
+  installedAt?: number;
+  /** 安装操作执行失败的原因 */
+  installError?: string;
+  /** 撤销操作上链成功的时间 */
+  revokedAt?: number;
+  revokeTxHash?: string;
+}
+
+/**
+ * 创建会话密钥的输入
+ */
+export interface CreateSessionKeyInput {
+  accountAddress: Address;
+  chainId: number;
+  label: string;
+  scope: SessionKeyScope;
+  /** 用于加密会话私钥的密码 */
+  password: string;
+}
+
+const SESSION_KEY_VAULT_PREFIX = 'session_key_';
+const SESSION_KEY_PLUGIN_PREFIX = 'session-key-';
+
+const SESSION_KEY_UNAVAILABLE_MESSAGES: Record<Exclude<SessionKeyStatus, 'active'>, string> = {
+  pending: '会话密钥尚未在链上生效',
+  failed: '会话密钥安装失败',
+  expired: '会话密钥已过期',
+  revoking: '会话密钥正在撤销',
+  revoked: '会话密钥已撤销',
+};
+
+const SESSION_KEY_VALIDATOR_ABI = parseAbi(['function revokeSessionKey(address sessionKey)']);
+const ERC20_APPROVE_ABI = parseAbi(['function approve(address spender, uint256 amount)']);
+
+const SESSION_KEY_INSTALL_PARAMETERS = [
+  { name: 'sessionKey', type: 'address' },
+  { name: 'validUntil', type: 'uint48' },
+  { name: 'totalValueLimit', type: 'uint256' },
+  {
+    name: 'permissions',
+    type: 'tuple[]',
+    components: [
+      { name: 'target', type: 'address' },
+      { name: 'selectors', type: 'bytes4[]' },
+      { name: 'maxValuePerCall', type: 'uint256' },
+    ],
+  },
+] as const;
+
+/**
+ * 会话密钥对应的插件 ID（同一验证器下每个会话密钥单独安装）
+ */
+export function getSessionKeyPluginId(sessionKeyAddress: string): string {
+  return `${SESSION_KEY_PLUGIN_PREFIX}${sessionKeyAddress.toLowerCase()}`;
+}
+
+export function isSessionKeyPlugin(plugin: IPlugin): boolean {
+  return plugin.id.startsWith(SESSION_KEY_PLUGIN_PREFIX);
+}
+
+/**
+ * 编码传给会话密钥验证器 onInstall 的数据
+ */
+export function encodeSessionKeyValidatorData(sessionKey: Address, scope: SessionKeyScope): Hex {
+  return encodeAbiParameters(SESSION_KEY_INSTALL_PARAMETERS, [
+    sessionKey,
+    scope.validUntil,
+    scope.totalValueLimit,
+    scope.permissions.map((permission) => ({
+      target: permission.target,
+      selectors: permission.selectors,
+      maxValuePerCall: permission.maxValuePerCall,
+    })),
+  ]);
+}
+
+export class SessionKeyService {
+  private sessionKeys = new Map<string, SessionKey>();
+  /** 已解锁的会话私钥（仅内存） */
+  private unlocked = new Map<string, Hex>();
+
+  /**
+   * 初始化，加载会话密钥记录
+   */
+  async init(): Promise<void> {
+    const stored = (await storageAdapter.get<SessionKey[]>(StorageKey.SESSION_KEYS)) || [];
+    this.sessionKeys = new Map(stored.map((record) => [record.id, record]));
+  }
+
+  /**
+   * 账户在指定链上的会话密钥（新创建的在前）
+   */
+  getSessionKeys(accountAddress: Address, chainId: number): SessionKey[] {
+    return Array.from(this.sessionKeys.values())
+      .filter(
+        (record) =>
+          record.accountAddress.toLowerCase() === accountAddress.toLowerCase() && record.chainId === chainId
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getSessionKey(id: string): SessionKey | undefined {
+    return this.sessionKeys.get(id.toLowerCase());
+  }
+
+  getStatus(record: SessionKey): SessionKeyStatus {
+    if (record.revokedAt) {
+      return 'revoked';
+    }
+    if (record.revokeTxHash) {
+      return 'revoking';
+    }
+    if (record.installError) {
+      return 'failed';
+    }
+    if (!record.installedAt) {
+      return 'pending';
+    }
+    return record.scope.validUntil <= Math.floor(Date.now() / 1000) ? 'expired' : 'active';
+  }
+
+  /**
+   * 生成会话密钥并以 owner 私钥安装到账户
+   *
+   * 返回的密钥处于 pending 状态，安装操作上链后由 syncInstallation 确认；
+   * 提交失败时删除已加密保存的会话私钥，不留下记录
+   */
+  async createSessionKey(input: CreateSessionKeyInput, ownerPrivateKey: Hex): Promise<SessionKey> {
+    const chainConfig = requireChainConfig(input.chainId, ['sessionKeyValidatorAddress']);
+    this.validateScope(input.scope);
+    await this.assertSpendingLimitsDisabled(input.accountAddress, input.chainId);
+
+    const privateKey = generatePrivateKey();
+    const address = privateKeyToAccount(privateKey).address;
+    const id = address.toLowerCase();
+    const validator = chainConfig.sessionKeyValidatorAddress as Address;
+    const vaultKey = `${SESSION_KEY_VAULT_PREFIX}${id}`;
+
+    await securityVault.setItem(vaultKey, privateKey, input.password);
+
+    const plugin: IPlugin = {
+      id: getSessionKeyPluginId(address),
+      name: `会话密钥 ${input.label}`,
+      type: PluginType.VALIDATOR,
+      address: validator,
+      version: '1.0.0',
+      description: `会话密钥 ${address}`,
+      installed: false,
+    };
+    const installData = encodeValidatorInstallData(
+      encodeSessionKeyValidatorData(address, input.scope),
+      toFunctionSelector('function execute(address,uint256,bytes)')
+    );
+
+    let installTxHash: string;
+    try {
+      installTxHash = await pluginService.installPlugin(
+        input.accountAddress,
+        input.chainId,
+        plugin,
+        { installData },
+        ownerPrivateKey
+      );
+    } catch (error) {
+      await securityVault.removeItem(vaultKey);
+      throw error;
+    }
+
+    const record: SessionKey = {
+      id,
+      label: input.label,
+      accountAddress: input.accountAddress,
+      chainId: input.chainId,
+      address,
+      validator,
+      scope: input.scope,
+      spentValue: BigInt(0),
+      createdAt: Date.now(),
+      installTxHash,
+    };
+    this.sessionKeys.set(id, record);
+    this.unlocked.set(id, privateKey);
+    await this.save();
+    return record;
+  }
+
+  /**
+   * 按安装操作的回执确认会话密钥是否生效
+   *
+   * 尚未上链时保持 pending；执行失败时记录原因并删除本地私钥
+   */
+  async syncInstallation(id: string): Promise<SessionKeyStatus> {
+    const record = this.requireSessionKey(id);
+    if (this.getStatus(record) !== 'pending' || !record.installTxHash) {
+      return this.getStatus(record);
+    }
+
+    const receipt = await transactionRelayer.getUserOperationReceipt(record.chainId, record.installTxHash as Hash);
+    if (!receipt) {
+      return 'pending';
+    }
+    if (receipt.success) {
+      record.installedAt = Date.now();
+    } else {
+      record.installError = receipt.reason || '安装操作执行失败';
+      this.lock(record.id);
+      await securityVault.removeItem(`${SESSION_KEY_VAULT_PREFIX}${record.id}`);
+    }
+    await this.save();
+    return this.getStatus(record);
+  }
+
+  /**
+   * 按撤销操作的回执确认是否已撤销
+   *
+   * 尚未上链时保持 revoking；成功后删除本地私钥，执行失败时清除撤销记录，密钥恢复可用
+   */
+  async syncRevocation(id: string): Promise<SessionKeyStatus> {
+    const record = this.requireSessionKey(id);
+    if (this.getStatus(record) !== 'revoking' || !record.revokeTxHash) {
+      return this.getStatus(record);
+    }
+
+    const receipt = await transactionRelayer.getUserOperationReceipt(record.chainId, record.revokeTxHash as Hash);
+    if (!receipt) {
+      return 'revoking';
+    }
+    if (receipt.success) {
+      record.revokedAt = Date.now();
+      await securityVault.removeItem(`${SESSION_KEY_VAULT_PREFIX}${record.id}`);
+    } else {
+      delete record.revokeTxHash;
+    }
+    await this.save();
+    return this.getStatus(record);
+  }
+
+  /**
+   * 按回执结算已提交的操作：成功的计入已用额度，失败的释放占用，未上链的保持占用
+   */
+  async syncSpending(id: string): Promise<void> {
+    const record = this.requireSessionKey(id);
+    if (!record.pendingSpends?.length) {
+      return;
+    }
+
+    const remaining: SessionKeyPendingSpend[] = [];
+    for (const spend of record.pendingSpends) {
+      const receipt = await transactionRelayer.getUserOperationReceipt(record.chainId, spend.txHash as Hash);
+      if (!receipt) {
+        remaining.push(spend);
+        continue;
+      }
+      if (receipt.success) {
+        record.spentValue += spend.value;
+        const spentTokens = { ...record.spentTokens };
+        Object.entries(spend.tokens).forEach(([token, amount]) => {
+          spentTokens[token] = (spentTokens[token] ?? BigInt(0)) + amount;
+        });
+        record.spentTokens = spentTokens;
+      }
+    }
+
+    if (remaining.length !== record.pendingSpends.length) {
+      record.pendingSpends = remaining;
+      await this.save();
+    }
+  }
+
+  /**
+   * 依次确认安装、撤销与已提交操作的回执
+   */
+  async sync(id: string): Promise<SessionKeyStatus> {
+    await this.syncInstallation(id);
+    await this.syncRevocation(id);
+    await this.syncSpending(id);
+    return this.getStatus(this.requireSessionKey(id));
+  }
+
+  /**
+   * 以密码解锁会话私钥
+   */
+  async unlock(id: string, password: string): Promise<void> {
+    const record = this.requireSessionKey(id);
+    const privateKey = await securityVault.getItem<Hex>(`${SESSION_KEY_VAULT_PREFIX}${record.id}`, password);
+    if (!privateKey) {
+      throw new WalletError('无法解锁会话密钥，请检查密码', ErrorCode.PASSWORD_INVALID);
+    }
+    this.unlocked.set(record.id, privateKey);
+  }
+
+  lock(id: string): void {
+    this.unlocked.delete(id.toLowerCase());
+  }
+
+  isUnlocked(id: string): boolean {
+    return this.unlocked.has(id.toLowerCase());
+  }
+
+  /**
+   * 检查调用是否在会话密钥的授权范围内，超出时抛出 VALIDATION_ERROR
+   */
+  assertAllowed(record: SessionKey, target: Address, data: Hex, value: bigint): void {
+    const status = this.getStatus(record);
+    if (status !== 'active') {
+      throw new WalletError(SESSION_KEY_UNAVAILABLE_MESSAGES[status], ErrorCode.VALIDATION_ERROR);
+    }
+
+    const permission = record.scope.permissions.find(
+      (item) => item.target.toLowerCase() === target.toLowerCase()
+    );
+    if (!permission) {
+      throw new WalletError(`会话密钥未授权调用 ${target}`, ErrorCode.VALIDATION_ERROR);
+    }
+
+    if (permission.selectors.length > 0) {
+      const selector = size(data) >= 4 ? slice(data, 0, 4).toLowerCase() : '0x';
+      if (!permission.selectors.some((item) => item.toLowerCase() === selector)) {
+        throw new WalletError(`会话密钥未授权调用函数 ${selector}`, ErrorCode.VALIDATION_ERROR);
+      }
+    }
+
+    if (value > permission.maxValuePerCall) {
+      throw new WalletError('转账金额超过会话密钥的单笔上限', ErrorCode.VALIDATION_ERROR);
+    }
+    const pendingSpends = record.pendingSpends ?? [];
+    const pendingValue = pendingSpends.reduce((sum, spend) => sum + spend.value, BigInt(0));
+    if (record.spentValue + pendingValue + value > record.scope.totalValueLimit) {
+      throw new WalletError('转账金额超过会话密钥的累计上限', ErrorCode.VALIDATION_ERROR);
+    }
+
+    this.getTokenAmounts(record.accountAddress, target, data).forEach((amount, token) => {
+      const limit = record.scope.tokenLimits?.find((item) => item.token.toLowerCase() === token);
+      if (!limit) {
+        throw new WalletError(`会话密钥未授权转出代币 ${token}`, ErrorCode.VALIDATION_ERROR);
+      }
+      const used = pendingSpends.reduce(
+        (sum, spend) => sum + (spend.tokens[token] ?? BigInt(0)),
+        record.spentTokens?.[token] ?? BigInt(0)
+      );
+      if (used + amount > limit.totalLimit) {
+        throw new WalletError('代币转出金额超过会话密钥的累计上限', ErrorCode.VALIDATION_ERROR);
+      }
+    });
+  }
+
+  /**
+   * 以会话密钥发送交易（需先解锁，发送前先确认安装、撤销与已提交操作的回执）
+   *
+   * 验证器只授权 execute 选择器，不支持 gasToken（代币支付 Gas 需要 executeBatch）
+   */
+  async sendTransaction(
+    id: string,
+    target: Address,
+    data: Hex,
+    value: bigint = BigInt(0),
+    options?: Omit<RelayOptions, 'validator' | 'gasToken'>
+  ): Promise<Hash> {
+    const record = this.requireSessionKey(id);
+    const privateKey = this.unlocked.get(record.id);
+    if (!privateKey) {
+      throw new WalletError('会话密钥未解锁', ErrorCode.AUTH_ERROR);
+    }
+    if (options && 'gasToken' in options) {
+      throw new WalletError('会话密钥不支持以 ERC-20 支付 Gas', ErrorCode.VALIDATION_ERROR);
+    }
+    await this.sync(record.id);
+    this.assertAllowed(record, target, data, value);
+    await this.assertSpendingLimitsDisabled(record.accountAddress, record.chainId);
+
+    const txHash = await transactionRelayer.sendTransaction(
+      record.accountAddress,
+      record.chainId,
+      target,
+      data,
+      privateKey,
+      value,
+      undefined,
+      { ...options, validator: record.validator }
+    );
+
+    const tokens = Object.fromEntries(this.getTokenAmounts(record.accountAddress, target, data));
+    if (value > BigInt(0) || Object.keys(tokens).length > 0) {
+      record.pendingSpends = [...(record.pendingSpends ?? []), { txHash, value, tokens }];
+      await this.save();
+    }
+    return txHash;
+  }
+
+  /**
+   * 以 owner 私钥撤销会话密钥（由账户调用验证器移除该密钥）
+   *
+   * 提交后密钥立即锁定、处于 revoking 状态，由 syncRevocation 按回执确认后删除本地加密私钥
+   */
+  async revokeSessionKey(id: string, ownerPrivateKey: Hex): Promise<string> {
+    const record = this.requireSessionKey(id);
+    const status = this.getStatus(record);
+    if (status === 'revoked' || status === 'revoking') {
+      throw new WalletError(SESSION_KEY_UNAVAILABLE_MESSAGES[status], ErrorCode.VALIDATION_ERROR);
+    }
+
+    const txHash = await transactionRelayer.sendTransaction(
+      record.accountAddress,
+      record.chainId,
+      record.validator,
+      encodeFunctionData({
+        abi: SESSION_KEY_VALIDATOR_ABI,
+        functionName: 'revokeSessionKey',
+        args: [record.address],
+      }),
+      ownerPrivateKey
+    );
+
+    record.revokeTxHash = txHash;
+    this.lock(record.id);
+    await this.save();
+    return txHash;
+  }
+
+  /**
+   * 调用转出或授权的 ERC-20 代币数量（小写代币地址 → 数量），原生代币单独按 value 计算
+   */
+  private getTokenAmounts(accountAddress: Address, target: Address, data: Hex): Map<string, bigint> {
+    const amounts = getTokenOutflows(accountAddress, [{ to: target, data, value: BigInt(0) }]);
+    amounts.delete(NATIVE_TOKEN_ADDRESS);
+    try {
+      const decoded = decodeFunctionData({ abi: ERC20_APPROVE_ABI, data });
+      if (decoded.args[1] > BigInt(0)) {
+        const token = target.toLowerCase();
+        amounts.set(token, (amounts.get(token) ?? BigInt(0)) + decoded.args[1]);
+      }
+    } catch {
+      // 不是 approve 调用
+    }
+    return amounts;
+  }
+
+  /**
+   * 会话密钥签名的操作不经过支出限额 Hook，启用支出限额的账户不能使用会话密钥
+   */
+  private async assertSpendingLimitsDisabled(accountAddress: Address, chainId: number): Promise<void> {
+    if (await spendingLimitService.getSettings(accountAddress, chainId)) {
+      throw new WalletError(
+        '账户已启用支出限额，会话密钥的操作不受限额约束，不能使用会话密钥',
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+  }
+
+  private requireSessionKey(id: string): SessionKey {
+    const record = this.getSessionKey(id);
+    if (!record) {
+      throw new WalletError(`会话密钥不存在: ${id}`, ErrorCode.VALIDATION_ERROR);
+    }
+    return record;
+  }
+
+  private validateScope(scope: SessionKeyScope): void {
+    if (scope.permissions.length === 0) {
+      throw new WalletError('会话密钥至少需要一个授权合约', ErrorCode.VALIDATION_ERROR);
+    }
+    scope.permissions.forEach((permission) => {
+      if (!isAddress(permission.target)) {
+        throw new WalletError(`无效的合约地址: ${permission.target}`, ErrorCode.VALIDATION_ERROR);
+      }
+      permission.selectors.forEach((selector) => {
+        if (!/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+          throw new WalletError(`无效的函数选择器: ${selector}`, ErrorCode.VALIDATION_ERROR);
+        }
+      });
+    });
+    scope.tokenLimits?.forEach((limit) => {
+      if (!isAddress(limit.token)) {
+        throw new WalletError(`无效的代币地址: ${limit.token}`, ErrorCode.VALIDATION_ERROR);
+      }
+    });
+    if (scope.validUntil <= Math.floor(Date.now() / 1000)) {
+      throw new WalletError('会话密钥的过期时间必须晚于当前时间', ErrorCode.VALIDATION_ERROR);
+    }
+  }
+
+  private async save(): Promise<void> {
+    await storageAdapter.set(StorageKey.SESSION_KEYS, Array.from(this.sessionKeys.values()));
+  }
+}
+
+export const sessionKeyService = new SessionKeyService();
@@ -17,6 +17,13 @@ export interface WalletSettings {
   // 安全提示设置
   showSecurityTips: boolean; // 是否显示安全提示
   securityTipLevel: 'low' | 'medium' | 'high'; // 安全提示级别
+
+  // DApp 来源名单（完整来源、主机名或 *.domain 通配）
+  originAllowlist?: string[]; // 受信任来源
+  originBlocklist?: string[]; // 拦截来源
+
+  // 用户自定义 Bundler（按链 ID 分组，作为链配置之外的备用节点）
+  bundlerEndpoints?: Record<number, string[]>;
   
   // 其他设置
   defaultChain?: string; // 默认链
@@ -29,6 +36,8 @@ const DEFAULT_SETTINGS: WalletSettings = {
   paymasterStrategy: 'auto',
   showSecurityTips: true,
   securityTipLevel: 'medium',
+  originAllowlist: [],
+  originBlocklist: [],
   theme: 'light',
 };
 
@@ -190,6 +199,56 @@ export class SettingsService {
     );
   }
 
+  /**
+   * 获取来源黑 / 白名单
+   */
+  async getOriginLists(): Promise<{ allowlist: string[]; blocklist: string[] }> {
+    const settings = await this.loadSettings();
+    return {
+      allowlist: settings.originAllowlist ?? [],
+      blocklist: settings.originBlocklist ?? [],
+    };
+  }
+
+  /**
+   * 设置来源黑 / 白名单（去除空白、统一小写并去重）
+   */
+  async setOriginLists(allowlist: string[], blocklist: string[]): Promise<void> {
+    const normalize = (list: string[]) =>
+      Array.from(new Set(list.map((item) => item.trim().toLowerCase().replace(/\/+$/, '')).filter(Boolean)));
+    await this.updateSettings({
+      originAllowlist: normalize(allowlist),
+      originBlocklist: normalize(blocklist),
+    });
+  }
+
+  /**
+   * 获取链的自定义 Bundler 列表
+   */
+  async getBundlerEndpoints(chainId: number): Promise<string[]> {
+    const settings = await this.loadSettings();
+    return settings.bundlerEndpoints?.[chainId] ?? [];
+  }
+
+  /**
+   * 设置链的自定义 Bundler 列表（仅接受 http(s) 地址，去除空白并去重）
+   */
+  async setBundlerEndpoints(chainId: number, urls: string[]): Promise<void> {
+    const normalized = Array.from(new Set(urls.map((url) => url.trim().replace(/\/+$/, '')).filter(Boolean)));
+    for (const url of normalized) {
+      if (!/^https?:\/\/[^\s]+$/i.test(url)) {
+        throw new Error(`Invalid bundler URL: ${url}`);
+      }
+    }
+    const settings = await this.loadSettings();
+    await this.updateSettings({
+      bundlerEndpoints: {
+        ...(settings.bundlerEndpoints ?? {}),
+        [chainId]: normalized,
+      },
+    });
+  }
+
   /**
    * 重置为默认设置
    */
@@ -5,6 +5,7 @@
  * - eth_sign: 原始消息签名（已弃用，但部分 DApp 仍在使用）
  * - personal_sign: EIP-191 个人消息签名
  * - eth_signTypedData: EIP-712 结构化数据签名
+ * - 智能账户签名：ERC-1271（Kernel replay-safe hash）与 ERC-6492（未部署账户）
  * 
  * @module services/SignatureService
  */
@@ -12,7 +13,8 @@
 import type { Address, Hex } from 'viem';
 import { Wallet } from 'ethers';
 import type { TypedDataDomain } from 'viem';
-import { keccak256, toBytes } from 'viem';
+import { keccak256, toBytes, hashMessage, hashTypedData, isHex } from 'viem';
+import type { AccountInfo } from '@/types';
 
 type TypedDataField = {
   name: string;
@@ -120,6 +122,65 @@ export class SignatureService {
     return signature as Hex;
   }
 
+  /**
+   * 智能账户 personal_sign 签名
+   * 
+   * 生成 Kernel 账户可通过 ERC-1271 isValidSignature 验证的签名
+   * hex 消息按原始字节处理（与 MetaMask personal_sign 一致）
+   * 
+   * @param message 消息（字符串或 hex）
+   * @param account 智能账户信息
+   * @param privateKey owner 私钥
+   * @returns ERC-1271 签名（未部署账户为 ERC-6492 包装签名）
+   */
+  async smartAccountPersonalSign(message: string | Hex, account: AccountInfo, privateKey: Hex): Promise<Hex> {
+    const messageHash = isHex(message) ? hashMessage({ raw: message }) : hashMessage(message);
+    return this.signSmartAccountHash(messageHash, account, privateKey);
+  }
+
+  /**
+   * 智能账户 eth_signTypedData 签名
+   * 
+   * @param typedData EIP-712 结构化数据
+   * @param account 智能账户信息
+   * @param privateKey owner 私钥
+   * @returns ERC-1271 签名（未部署账户为 ERC-6492 包装签名）
+   */
+  async smartAccountSignTypedData(typedData: TypedData, account: AccountInfo, privateKey: Hex): Promise<Hex> {
+    const typedDataHash = hashTypedData(typedData as Parameters<typeof hashTypedData>[0]);
+    return this.signSmartAccountHash(typedDataHash, account, privateKey);
+  }
+
+  /**
+   * 对消息哈希生成智能账户签名
+   * 
+   * 1. 按 Kernel 账户域计算 replay-safe hash
+   * 2. owner 私钥直接签名（不加 EIP-191 前缀，MultiChainValidator 按原始哈希恢复）
+   * 3. 加上根验证器前缀
+   * 4. 账户尚未部署时追加 ERC-6492 包装，便于部署前验证
+   */
+  private async signSmartAccountHash(hash: Hex, account: AccountInfo, privateKey: Hex): Promise<Hex> {
+    const { getKernelReplaySafeHash, encodeKernelRootSignature, wrapSignatureERC6492 } = await import(
+      '@/utils/kernel'
+    );
+
+    const replaySafeHash = getKernelReplaySafeHash(hash, account.address as Address, account.chainId);
+    const wallet = new Wallet(privateKey);
+    const validatorSignature = wallet.signingKey.sign(replaySafeHash).serialized as Hex;
+    const signature = encodeKernelRootSignature(validatorSignature);
+
+    if (account.status === 'deployed') {
+      return signature;
+    }
+
+    const { accountManager } = await import('./AccountManager');
+    const { factory, factoryData } = await accountManager.getFactoryData(
+      account.owner as Address,
+      account.chainId
+    );
+    return wrapSignatureERC6492(factory, factoryData, signature);
+  }
+
   /**
    * 验证签名
    * 
@@ -0,0 +1,739 @@
+/**
+ * 支出限额服务
+ *
+ * 账户 owner 为自己的转出设置按日 / 按周的限额（原生代币与 ERC-20 分别计算）：
+ * - 链上：将支出限额 Hook 挂载到账户的根验证（installValidations 以新的验证 nonce 重新安装根验证器），
+ *   根验证签名的操作经 executeUserOp 执行，Kernel 在执行前调用 Hook 累计转出金额并拒绝超额调用；
+ *   单独 installModule(HOOK) 只会调用 Hook 的 onInstall，不会在执行时生效
+ * - 本地：TransactionRelayer 在签名前按同样的规则检查，超额时直接报错，不提交必然被拒绝的操作；
+ *   本地按滚动窗口统计，比链上按固定周期重置更保守
+ * - 降低限额立即生效；提高限额（含放宽周期）在链上 Hook 中排队，按安装时选择的方式生效：
+ *   - 等待期：到期后由 owner 调用 applyLimitIncrease 生效
+ *   - 守护人：Hook 安装时登记守护人注册合约（恢复插件），每个提高请求排队时读取当时的守护人并按过半数计算门槛，
+ *     守护人以各自地址调用 approveLimitIncrease 批准，达到门槛后由 Hook 生效；
+ *     本地以守护人提案跟踪投票（提案同样记录发起时的守护人），账户操作始终由 owner 签名
+ * - Hook 只挂载在根验证上，会话密钥等其他验证器签名的操作不经过 Hook，
+ *   因此启用支出限额后不能再使用会话密钥（见 SessionKeyService）
+ *
+ * 计入限额的转出：调用附带的原生代币、ERC-20 `transfer` 与以账户为 from 的 `transferFrom`；
+ * approve 与 Gas 费不计入
+ *
+ * @module services/SpendingLimitService
+ */
+
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey, type Transaction } from '@/types';
+import { IPlugin } from '@/types/plugins';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { ErrorCode, WalletError } from '@/utils/errors';
+import { KERNEL_VALIDATION_ABI, encodeInstallValidationHookCallData } from '@/utils/kernel';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { guardianService, type GuardianProposal } from './GuardianService';
+import { transactionRelayer } from './TransactionRelayer';
+
+/** 原生代币在限额中使用的地址 */
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000' as const;
+
+export type SpendingPeriod = 'daily' | 'weekly';
+
+export const SPENDING_PERIOD_SECONDS: Record<SpendingPeriod, number> = {
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+};
+
+/** 提高限额的审批方式 */
+export type LimitIncreaseApproval = 'delay' | 'guardians';
+
+/**
+ * 单个代币的限额
+ */
+export interface SpendingLimit {
+  /** 代币地址，原生代币为 NATIVE_TOKEN_ADDRESS */
+  token: Address;
+  symbol: string;
+  decimals: number;
+  /** 每个周期允许转出的数量（代币最小单位） */
+  amount: bigint;
+  period: SpendingPeriod;
+}
+
+/**
+ * 等待生效的提高限额请求
+ */
+export interface PendingLimitIncrease extends SpendingLimit {
+  requestedAt: number;
+  /** 等待期模式：可以生效的时间 */
+  effectiveAt?: number;
+  /** 守护人模式：对应的守护人提案 */
+  proposalId?: string;
+  txHash?: string;
+}
+
+/**
+ * 账户的支出限额设置
+ */
+export interface SpendingLimitSettings {
+  accountAddress: Address;
+  chainId: number;
+  hookAddress: Address;
+  approval: LimitIncreaseApproval;
+  /** 等待期（秒），守护人模式为 0 */
+  increaseDelay: number;
+  /** 守护人模式：Hook 读取守护人的注册合约（恢复插件） */
+  guardianRegistry?: Address;
+  limits: SpendingLimit[];
+  pendingIncreases: PendingLimitIncrease[];
+  installTxHash?: string;
+}
+
+/**
+ * 已发送的转出记录（用于本地统计）
+ */
+export interface SpendingRecord {
+  /** 代币地址（小写） */
+  token: string;
+  amount: bigint;
+  timestamp: number;
+  txHash: string;
+}
+
+/**
+ * 限额使用情况
+ */
+export interface SpendingUsage {
+  limit: SpendingLimit;
+  spent: bigint;
+  remaining: bigint;
+}
+
+/**
+ * 安装支出限额的输入
+ */
+export interface InstallSpendingLimitsInput {
+  accountAddress: Address;
+  chainId: number;
+  limits: SpendingLimit[];
+  approval: LimitIncreaseApproval;
+  /** 等待期（秒），仅等待期模式使用 */
+  increaseDelay?: number;
+}
+
+/**
+ * 修改限额的结果：applied 已生效，pending 等待期或守护人审批中
+ */
+export interface UpdateSpendingLimitResult {
+  status: 'applied' | 'pending';
+  txHash?: string;
+  proposalId?: string;
+}
+
+const SPENDING_LIMIT_HOOK_ABI = [
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'limit', type: 'uint256' },
+      { name: 'period', type: 'uint48' },
+    ],
+    name: 'setSpendingLimit',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'applyLimitIncrease',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'account', type: 'address' },
+      { name: 'token', type: 'address' },
+    ],
+    name: 'approveLimitIncrease',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'cancelLimitIncrease',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+const ERC20_TRANSFER_ABI = [
+  {
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'transfer',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'transferFrom',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+const SPENDING_LIMIT_INSTALL_PARAMETERS = [
+  { name: 'increaseDelay', type: 'uint48' },
+  { name: 'guardianRegistry', type: 'address' },
+  {
+    name: 'limits',
+    type: 'tuple[]',
+    components: [
+      { name: 'token', type: 'address' },
+      { name: 'limit', type: 'uint256' },
+      { name: 'period', type: 'uint48' },
+    ],
+  },
+] as const;
+
+const SPENDING_LIMIT_PLUGIN_ID = 'spending-limit-hook';
+/** 限额设置使用独立的 nonce 通道 */
+const SPENDING_LIMIT_NONCE_CHANNEL = 'spending-limit';
+/** 默认等待期：48 小时 */
+export const DEFAULT_LIMIT_INCREASE_DELAY = 48 * 60 * 60;
+
+const ERC20_TRANSFER_SELECTOR = '0xa9059cbb';
+const ERC20_TRANSFER_FROM_SELECTOR = '0x23b872dd';
+
+export function isSpendingLimitPlugin(plugin: IPlugin): boolean {
+  return plugin.id === SPENDING_LIMIT_PLUGIN_ID;
+}
+
+/**
+ * 新限额是否比当前限额宽松（任一日内或任一周内允许转出更多即为提高）
+ */
+export function isLimitIncrease(current: SpendingLimit, next: SpendingLimit): boolean {
+  const weekly = (limit: SpendingLimit) => (limit.period === 'daily' ? limit.amount * BigInt(7) : limit.amount);
+  return next.amount > current.amount || weekly(next) > weekly(current);
+}
+
+/**
+ * 统计调用中各代币的转出数量（键为小写代币地址）
+ */
+export function getTokenOutflows(accountAddress: Address, calls: Transaction[]): Map<string, bigint> {
+  const outflows = new Map<string, bigint>();
+  const add = (token: string, amount: bigint) => {
+    if (amount > BigInt(0)) {
+      outflows.set(token.toLowerCase(), (outflows.get(token.toLowerCase()) ?? BigInt(0)) + amount);
+    }
+  };
+
+  calls.forEach((call) => {
+    add(NATIVE_TOKEN_ADDRESS, call.value);
+
+    const selector = call.data.slice(0, 10).toLowerCase();
+    if (selector !== ERC20_TRANSFER_SELECTOR && selector !== ERC20_TRANSFER_FROM_SELECTOR) {
+      return;
+    }
+    try {
+      const decoded = decodeFunctionData({ abi: ERC20_TRANSFER_ABI, data: call.data as Hex });
+      if (decoded.functionName === 'transfer') {
+        add(call.to, decoded.args[1]);
+      } else if (decoded.args[0].toLowerCase() === accountAddress.toLowerCase()) {
+        add(call.to, decoded.args[2]);
+      }
+    } catch {
+      // 选择器相同但参数不符的调用不是 ERC-20 转账
+    }
+  });
+  return outflows;
+}
+
+export class SpendingLimitService {
+  /** 已确认根验证挂载了 Hook 的账户（`chainId:address`） */
+  private attachedHooks = new Set<string>();
+
+  /**
+   * 获取账户的支出限额设置，未安装时返回 null
+   */
+  async getSettings(accountAddress: Address, chainId: number): Promise<SpendingLimitSettings | null> {
+    return (await storageAdapter.get<SpendingLimitSettings>(this.settingsKey(accountAddress, chainId))) || null;
+  }
+
+  /**
+   * 账户的根验证是否已挂载支出限额 Hook（TransactionRelayer 据此以 executeUserOp 包装根验证的操作）
+   *
+   * 按链上根验证配置的 hook 判断：安装操作尚未上链或执行失败时不包装，确认挂载后缓存结果
+   */
+  async isRootHookAttached(accountAddress: Address, chainId: number): Promise<boolean> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    if (!settings) {
+      return false;
+    }
+    const cacheKey = `${chainId}:${accountAddress.toLowerCase()}`;
+    if (this.attachedHooks.has(cacheKey)) {
+      return true;
+    }
+
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    const contract = { address: accountAddress, abi: KERNEL_VALIDATION_ABI } as const;
+    try {
+      const rootValidator = await publicClient.readContract({ ...contract, functionName: 'rootValidator' });
+      const config = await publicClient.readContract({
+        ...contract,
+        functionName: 'validationConfig',
+        args: [rootValidator],
+      });
+      if (config.hook.toLowerCase() !== settings.hookAddress.toLowerCase()) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+    this.attachedHooks.add(cacheKey);
+    return true;
+  }
+
+  /**
+   * 将支出限额 Hook 挂载到根验证并设置初始限额
+   */
+  async installSpendingLimits(input: InstallSpendingLimitsInput, ownerPrivateKey: Hex): Promise<SpendingLimitSettings> {
+    const chainConfig = requireChainConfig(input.chainId, ['spendingLimitHookAddress']);
+    if (await this.getSettings(input.accountAddress, input.chainId)) {
+      throw new WalletError('支出限额已启用，请直接修改限额', ErrorCode.VALIDATION_ERROR);
+    }
+    this.validateLimits(input.limits);
+
+    await this.assertNoSessionKeys(input.accountAddress, input.chainId);
+
+    const hookAddress = chainConfig.spendingLimitHookAddress as Address;
+    const increaseDelay = input.approval === 'delay' ? input.increaseDelay ?? DEFAULT_LIMIT_INCREASE_DELAY : 0;
+    // 守护人模式：Hook 在每个提高请求排队时从恢复插件读取当时的守护人，守护人变更后无需重新安装
+    const guardianRegistry =
+      input.approval === 'guardians'
+        ? (requireChainConfig(input.chainId, ['recoveryPluginAddress']).recoveryPluginAddress as Address)
+        : undefined;
+    const installData = encodeAbiParameters(SPENDING_LIMIT_INSTALL_PARAMETERS, [
+      increaseDelay,
+      guardianRegistry ?? zeroAddress,
+      input.limits.map((limit) => ({
+        token: limit.token,
+        limit: limit.amount,
+        period: SPENDING_PERIOD_SECONDS[limit.period],
+      })),
+    ]);
+
+    const { rootValidator, nonce } = await this.readRootValidation(input.accountAddress, input.chainId);
+    // 根验证器（MultiChainValidator）以 owner 地址重新初始化，owner 不变
+    const installTxHash = await transactionRelayer.sendTransaction(
+      input.accountAddress,
+      input.chainId,
+      input.accountAddress,
+      encodeInstallValidationHookCallData(
+        rootValidator,
+        nonce,
+        hookAddress,
+        privateKeyToAccount(ownerPrivateKey).address,
+        installData
+      ),
+      ownerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: SPENDING_LIMIT_NONCE_CHANNEL }
+    );
+
+    const settings: SpendingLimitSettings = {
+      accountAddress: input.accountAddress,
+      chainId: input.chainId,
+      hookAddress,
+      approval: input.approval,
+      increaseDelay,
+      guardianRegistry,
+      limits: input.limits,
+      pendingIncreases: [],
+      installTxHash,
+    };
+    await this.saveSettings(settings);
+    return settings;
+  }
+
+  /**
+   * 设置代币限额
+   *
+   * 新增或降低限额立即生效；提高限额按安装时选择的方式进入等待期或发起守护人提案
+   */
+  async updateLimit(
+    accountAddress: Address,
+    chainId: number,
+    limit: SpendingLimit,
+    ownerPrivateKey: Hex
+  ): Promise<UpdateSpendingLimitResult> {
+    const settings = await this.requireSettings(accountAddress, chainId);
+    this.validateLimits([limit]);
+    if (this.findPending(settings, limit.token)) {
+      throw new WalletError(`${limit.symbol} 已有等待生效的提高限额请求`, ErrorCode.VALIDATION_ERROR);
+    }
+
+    const current = this.findLimit(settings.limits, limit.token);
+    if (!current || !isLimitIncrease(current, limit)) {
+      const txHash = await this.sendHookCall(settings, this.encodeSetLimit(limit), ownerPrivateKey);
+      settings.limits = [...settings.limits.filter((item) => item !== current), limit];
+      await this.saveSettings(settings);
+      return { status: 'applied', txHash };
+    }
+
+    if (settings.approval === 'guardians') {
+      // 提案与 Hook 中的请求都以当前守护人为审批人；请求提交失败时撤回提案
+      const proposalId = await guardianService.proposeSpendingLimitIncrease(
+        accountAddress,
+        chainId,
+        limit,
+        ownerPrivateKey
+      );
+      let txHash: string;
+      try {
+        txHash = await this.sendHookCall(settings, this.encodeSetLimit(limit), ownerPrivateKey);
+      } catch (error) {
+        await guardianService.cancelProposal(proposalId, ownerPrivateKey);
+        throw error;
+      }
+      settings.pendingIncreases.push({ ...limit, requestedAt: Date.now(), proposalId, txHash });
+      await this.saveSettings(settings);
+      return { status: 'pending', txHash, proposalId };
+    }
+
+    // Hook 记录提高请求，等待期结束后由 applyLimitIncrease 生效
+    const txHash = await this.sendHookCall(settings, this.encodeSetLimit(limit), ownerPrivateKey);
+
+    const requestedAt = Date.now();
+    settings.pendingIncreases.push({
+      ...limit,
+      requestedAt,
+      effectiveAt: requestedAt + settings.increaseDelay * 1000,
+      txHash,
+    });
+    await this.saveSettings(settings);
+    return { status: 'pending', txHash };
+  }
+
+  /**
+   * 等待期结束后使提高的限额生效
+   */
+  async applyPendingIncrease(
+    accountAddress: Address,
+    chainId: number,
+    token: Address,
+    ownerPrivateKey: Hex
+  ): Promise<string> {
+    const settings = await this.requireSettings(accountAddress, chainId);
+    const pending = this.findPending(settings, token);
+    if (!pending?.effectiveAt) {
+      throw new WalletError('没有等待生效的提高限额请求', ErrorCode.VALIDATION_ERROR);
+    }
+    if (Date.now() < pending.effectiveAt) {
+      throw new WalletError(
+        `提高限额将于 ${new Date(pending.effectiveAt).toLocaleString()} 后可生效`,
+        ErrorCode.VALIDATION_ERROR
+      );
+    }
+
+    const txHash = await this.sendHookCall(
+      settings,
+      encodeFunctionData({ abi: SPENDING_LIMIT_HOOK_ABI, functionName: 'applyLimitIncrease', args: [token] }),
+      ownerPrivateKey
+    );
+    await this.replaceLimit(settings, pending);
+    return txHash;
+  }
+
+  /**
+   * 守护人对提高限额提案的链上批准调用（由 GuardianService 以守护人自己的地址发送）
+   */
+  async getGuardianApprovalCall(proposal: GuardianProposal): Promise<{ to: Address; data: Hex }> {
+    if (!proposal.spendingLimit) {
+      throw new WalletError('提案不包含支出限额', ErrorCode.VALIDATION_ERROR);
+    }
+    const settings = await this.requireSettings(proposal.accountAddress, proposal.chainId);
+    return {
+      to: settings.hookAddress,
+      data: encodeFunctionData({
+        abi: SPENDING_LIMIT_HOOK_ABI,
+        functionName: 'approveLimitIncrease',
+        args: [proposal.accountAddress, proposal.spendingLimit.token],
+      }),
+    };
+  }
+
+  /**
+   * 守护人提案通过后同步本地限额（由 GuardianService 调用）
+   *
+   * 链上由最后一个守护人的批准交易使提高生效，这里不发送账户操作
+   */
+  async applyApprovedIncrease(proposal: GuardianProposal): Promise<void> {
+    if (!proposal.spendingLimit) {
+      throw new WalletError('提案不包含支出限额', ErrorCode.VALIDATION_ERROR);
+    }
+    const settings = await this.requireSettings(proposal.accountAddress, proposal.chainId);
+    const limit = proposal.spendingLimit;
+    await this.replaceLimit(settings, this.findPending(settings, limit.token) ?? { ...limit, requestedAt: Date.now() });
+  }
+
+  /**
+   * 取消等待生效的提高限额请求
+   */
+  async cancelPendingIncrease(
+    accountAddress: Address,
+    chainId: number,
+    token: Address,
+    ownerPrivateKey: Hex
+  ): Promise<void> {
+    const settings = await this.requireSettings(accountAddress, chainId);
+    const pending = this.findPending(settings, token);
+    if (!pending) {
+      throw new WalletError('没有等待生效的提高限额请求', ErrorCode.VALIDATION_ERROR);
+    }
+
+    await this.sendHookCall(
+      settings,
+      encodeFunctionData({ abi: SPENDING_LIMIT_HOOK_ABI, functionName: 'cancelLimitIncrease', args: [token] }),
+      ownerPrivateKey
+    );
+    if (pending.proposalId) {
+      await guardianService.cancelProposal(pending.proposalId, ownerPrivateKey);
+    }
+    settings.pendingIncreases = settings.pendingIncreases.filter((item) => item !== pending);
+    await this.saveSettings(settings);
+  }
+
+  /**
+   * 各代币限额在当前窗口内的使用情况
+   */
+  async getUsage(accountAddress: Address, chainId: number): Promise<SpendingUsage[]> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    if (!settings) {
+      return [];
+    }
+    const records = await this.getRecords(accountAddress, chainId);
+    return settings.limits.map((limit) => {
+      const spent = this.getSpent(records, limit);
+      return { limit, spent, remaining: spent >= limit.amount ? BigInt(0) : limit.amount - spent };
+    });
+  }
+
+  /**
+   * 签名前检查转出是否超出限额（TransactionRelayer 调用），未启用限额时直接通过
+   */
+  async assertWithinLimits(accountAddress: Address, chainId: number, calls: Transaction[]): Promise<void> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    if (!settings || settings.limits.length === 0) {
+      return;
+    }
+
+    const outflows = getTokenOutflows(accountAddress, calls);
+    if (outflows.size === 0) {
+      return;
+    }
+    const records = await this.getRecords(accountAddress, chainId);
+    outflows.forEach((amount, token) => {
+      const limit = this.findLimit(settings.limits, token);
+      if (!limit) {
+        return;
+      }
+      const spent = this.getSpent(records, limit);
+      if (spent + amount > limit.amount) {
+        throw new WalletError(
+          `超出 ${limit.symbol} ${limit.period === 'daily' ? '每日' : '每周'}支出限额`,
+          ErrorCode.SPENDING_LIMIT_EXCEEDED,
+          { token: limit.token, limit: limit.amount, spent, amount }
+        );
+      }
+    });
+  }
+
+  /**
+   * 检查不经过 Hook 执行的调度（见 ScheduledExecutorService）：全部执行的转出总额不能超过该代币一个周期的限额
+   */
+  async assertScheduleWithinLimits(
+    accountAddress: Address,
+    chainId: number,
+    token: Address,
+    maxAmount: bigint
+  ): Promise<void> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    const limit = settings && this.findLimit(settings.limits, token);
+    if (limit && maxAmount > limit.amount) {
+      throw new WalletError(
+        `调度的转出上限超过 ${limit.symbol} ${limit.period === 'daily' ? '每日' : '每周'}支出限额`,
+        ErrorCode.SPENDING_LIMIT_EXCEEDED,
+        { token: limit.token, limit: limit.amount, amount: maxAmount }
+      );
+    }
+  }
+
+  /**
+   * 记录已发送的转出（仅记录设置了限额的代币）
+   */
+  async recordSpending(accountAddress: Address, chainId: number, calls: Transaction[], txHash: Hash): Promise<void> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    if (!settings) {
+      return;
+    }
+
+    const now = Date.now();
+    const added: SpendingRecord[] = [];
+    getTokenOutflows(accountAddress, calls).forEach((amount, token) => {
+      if (this.findLimit(settings.limits, token)) {
+        added.push({ token, amount, timestamp: now, txHash });
+      }
+    });
+    if (added.length === 0) {
+      return;
+    }
+
+    // 只保留最长周期内的记录
+    const cutoff = now - SPENDING_PERIOD_SECONDS.weekly * 1000;
+    const records = (await this.getRecords(accountAddress, chainId)).filter((record) => record.timestamp > cutoff);
+    await storageAdapter.set(this.recordsKey(accountAddress, chainId), [...records, ...added]);
+  }
+
+  /**
+   * 会话密钥签名的操作不经过根验证的 Hook，账户仍有可用的会话密钥时不能启用支出限额
+   */
+  private async assertNoSessionKeys(accountAddress: Address, chainId: number): Promise<void> {
+    const { sessionKeyService } = await import('./SessionKeyService');
+    const hasUsableKey = sessionKeyService
+      .getSessionKeys(accountAddress, chainId)
+      .some((record) => ['pending', 'active', 'revoking'].includes(sessionKeyService.getStatus(record)));
+    if (hasUsableKey) {
+      throw new WalletError('会话密钥不受支出限额约束，请先撤销会话密钥再启用支出限额', ErrorCode.VALIDATION_ERROR);
+    }
+  }
+
+  /**
+   * 读取根验证 ID 与重新安装所需的验证 nonce
+   *
+   * Kernel 在根验证的 nonce 等于 currentNonce 时先递增 currentNonce，新配置的 nonce 须等于递增后的值
+   */
+  private async readRootValidation(
+    accountAddress: Address,
+    chainId: number
+  ): Promise<{ rootValidator: Hex; nonce: number }> {
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    const contract = { address: accountAddress, abi: KERNEL_VALIDATION_ABI } as const;
+    try {
+      const [rootValidator, currentNonce] = await Promise.all([
+        publicClient.readContract({ ...contract, functionName: 'rootValidator' }),
+        publicClient.readContract({ ...contract, functionName: 'currentNonce' }),
+      ]);
+      const config = await publicClient.readContract({
+        ...contract,
+        functionName: 'validationConfig',
+        args: [rootValidator],
+      });
+      return { rootValidator, nonce: config.nonce === currentNonce ? currentNonce + 1 : currentNonce };
+    } catch (error) {
+      throw new WalletError('无法读取账户的根验证配置，请确认账户已部署', ErrorCode.ACCOUNT_NOT_DEPLOYED, error);
+    }
+  }
+
+  private getSpent(records: SpendingRecord[], limit: SpendingLimit): bigint {
+    const since = Date.now() - SPENDING_PERIOD_SECONDS[limit.period] * 1000;
+    const token = limit.token.toLowerCase();
+    return records
+      .filter((record) => record.token === token && record.timestamp > since)
+      .reduce((total, record) => total + record.amount, BigInt(0));
+  }
+
+  private async getRecords(accountAddress: Address, chainId: number): Promise<SpendingRecord[]> {
+    return (await storageAdapter.get<SpendingRecord[]>(this.recordsKey(accountAddress, chainId))) || [];
+  }
+
+  private encodeSetLimit(limit: SpendingLimit): Hex {
+    return encodeFunctionData({
+      abi: SPENDING_LIMIT_HOOK_ABI,
+      functionName: 'setSpendingLimit',
+      args: [limit.token, limit.amount, SPENDING_PERIOD_SECONDS[limit.period]],
+    });
+  }
+
+  private async sendHookCall(settings: SpendingLimitSettings, data: Hex, signerPrivateKey: Hex): Promise<string> {
+    return transactionRelayer.sendTransaction(
+      settings.accountAddress,
+      settings.chainId,
+      settings.hookAddress,
+      data,
+      signerPrivateKey,
+      BigInt(0),
+      undefined,
+      { nonceChannel: SPENDING_LIMIT_NONCE_CHANNEL }
+    );
+  }
+
+  private async replaceLimit(settings: SpendingLimitSettings, pending: PendingLimitIncrease): Promise<void> {
+    const { token, symbol, decimals, amount, period } = pending;
+    const current = this.findLimit(settings.limits, token);
+    settings.limits = [...settings.limits.filter((item) => item !== current), { token, symbol, decimals, amount, period }];
+    settings.pendingIncreases = settings.pendingIncreases.filter((item) => item !== pending);
+    await this.saveSettings(settings);
+  }
+
+  private findLimit(limits: SpendingLimit[], token: string): SpendingLimit | undefined {
+    return limits.find((limit) => limit.token.toLowerCase() === token.toLowerCase());
+  }
+
+  private findPending(settings: SpendingLimitSettings, token: string): PendingLimitIncrease | undefined {
+    return settings.pendingIncreases.find((item) => item.token.toLowerCase() === token.toLowerCase());
+  }
+
+  private async requireSettings(accountAddress: Address, chainId: number): Promise<SpendingLimitSettings> {
+    const settings = await this.getSettings(accountAddress, chainId);
+    if (!settings) {
+      throw new WalletError('尚未启用支出限额', ErrorCode.VALIDATION_ERROR);
+    }
+    return settings;
+  }
+
+  private validateLimits(limits: SpendingLimit[]): void {
+    const tokens = new Set<string>();
+    limits.forEach((limit) => {
+      if (limit.amount <= BigInt(0)) {
+        throw new WalletError(`${limit.symbol} 的限额必须大于 0`, ErrorCode.VALIDATION_ERROR);
+      }
+      if (tokens.has(limit.token.toLowerCase())) {
+        throw new WalletError(`${limit.symbol} 的限额重复`, ErrorCode.VALIDATION_ERROR);
+      }
+      tokens.add(limit.token.toLowerCase());
+    });
+  }
+
+  private async saveSettings(settings: SpendingLimitSettings): Promise<void> {
+    await storageAdapter.set(this.settingsKey(settings.accountAddress, settings.chainId), settings);
+  }
+
+  private settingsKey(accountAddress: Address, chainId: number): string {
+    return `${StorageKey.SPENDING_LIMITS}_${accountAddress.toLowerCase()}_${chainId}`;
+  }
+
+  private recordsKey(accountAddress: Address, chainId: number): string {
+    return `${StorageKey.SPENDING_LIMITS}_records_${accountAddress.toLowerCase()}_${chainId}`;
+  }
+}
+
+export const spendingLimitService = new SpendingLimitService();
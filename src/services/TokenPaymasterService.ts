@@ -0,0 +1,254 @@
+/**
+ * ERC-20 Token Paymaster 服务
+ *
+ * 允许账户以 ERC-20 代币（如 USDC）支付 Gas，无需持有原生代币或依赖赞助方：
+ * - 报价：链上读取 Token Paymaster 的 `getTokenQuote(token)`，得到 1 个原生代币（1e18 wei）
+ *   折合的代币数量（已含 Paymaster 溢价）与 postOp 消耗的 Gas
+ * - 授权：Paymaster 在 postOp 中按实际费用 transferFrom 扣款，授权可随同一个 UserOperation
+ *   在 executeBatch 中先行执行；授权额度不足时仅授权本次最大扣费，不做无限授权
+ * - paymasterAndData：paymaster + token（20 字节）+ maxTokenCost（uint256），
+ *   maxTokenCost 为账户签名认可的最大扣费，Paymaster 按报价计算的费用超过该值时拒绝
+ *
+ * @module services/TokenPaymasterService
+ */
+
+import { concat, encodeFunctionData, pad, toHex, type Address, type Hex } from 'viem';
+import type { Transaction } from '@/types';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { ErrorCode, WalletError } from '@/utils/errors';
+import type { UserOperation } from '@/utils/kernel-types';
+import { tokenService } from './TokenService';
+
+const TOKEN_PAYMASTER_ABI = [
+  {
+    inputs: [{ name: 'token', type: 'address' }],
+    name: 'getTokenQuote',
+    outputs: [
+      { name: 'exchangeRate', type: 'uint256' },
+      { name: 'postOpGas', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const ERC20_ALLOWANCE_ABI = [
+  {
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    name: 'allowance',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    name: 'approve',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+/** exchangeRate 对应的原生代币数量（1e18 wei） */
+const EXCHANGE_RATE_DENOMINATOR = BigInt(10) ** BigInt(18);
+/** 报价缓存时间 */
+const QUOTE_TTL_MS = 30_000;
+
+/**
+ * 可用于支付 Gas 的代币
+ */
+export interface GasToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Token Paymaster 报价
+ */
+export interface GasTokenQuote extends GasToken {
+  chainId: number;
+  paymaster: Address;
+  /** 1e18 wei 原生代币折合的代币数量（代币最小单位，已含溢价） */
+  exchangeRate: bigint;
+  /** Paymaster postOp 扣款消耗的 Gas */
+  postOpGas: bigint;
+  updatedAt: number;
+}
+
+/**
+ * 以代币计价的 Gas 费
+ */
+export interface GasTokenFee extends GasToken {
+  /** 最大扣费（代币最小单位），实际扣费按消耗的 Gas 计算 */
+  maxAmount: bigint;
+  /** 本次操作是否附带 approve */
+  includesApproval: boolean;
+}
+
+export class TokenPaymasterService {
+  private gasTokens = new Map<number, GasToken[]>();
+  private quotes = new Map<string, GasTokenQuote>();
+
+  /**
+   * 链是否配置了 Token Paymaster 与可用代币
+   */
+  isAvailable(chainId: number): boolean {
+    try {
+      const chainConfig = requireChainConfig(chainId);
+      return !!chainConfig.tokenPaymasterAddress && (chainConfig.gasTokenAddresses?.length ?? 0) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取链上可用于支付 Gas 的代币（读取失败的代币不列出）
+   */
+  async getGasTokens(chainId: number): Promise<GasToken[]> {
+    if (!this.isAvailable(chainId)) {
+      return [];
+    }
+    const cached = this.gasTokens.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const addresses = requireChainConfig(chainId).gasTokenAddresses ?? [];
+    const results = await Promise.all(
+      addresses.map(async (address) => {
+        try {
+          const info = await tokenService.fetchTokenInfo(address as Address, chainId);
+          return { address: address as Address, symbol: info.symbol, decimals: info.decimals };
+        } catch (error) {
+          console.warn(`[TokenPaymasterService] Failed to load gas token ${address}:`, error);
+          return null;
+        }
+      })
+    );
+    const tokens = results.filter((token): token is GasToken => token !== null);
+    this.gasTokens.set(chainId, tokens);
+    return tokens;
+  }
+
+  /**
+   * 获取代币报价（短时缓存）
+   *
+   * @param refresh 忽略缓存重新读取
+   */
+  async getQuote(chainId: number, token: Address, refresh = false): Promise<GasTokenQuote> {
+    const chainConfig = requireChainConfig(chainId, ['tokenPaymasterAddress']);
+    const cacheKey = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.quotes.get(cacheKey);
+    if (!refresh && cached && Date.now() - cached.updatedAt < QUOTE_TTL_MS) {
+      return cached;
+    }
+
+    const gasToken = (await this.getGasTokens(chainId)).find(
+      (item) => item.address.toLowerCase() === token.toLowerCase()
+    );
+    if (!gasToken) {
+      throw new WalletError(`代币 ${token} 不支持支付 Gas`, ErrorCode.VALIDATION_ERROR);
+    }
+
+    const paymaster = chainConfig.tokenPaymasterAddress as Address;
+    const [exchangeRate, postOpGas] = await rpcClientManager.getPublicClient(chainId).readContract({
+      address: paymaster,
+      abi: TOKEN_PAYMASTER_ABI,
+      functionName: 'getTokenQuote',
+      args: [gasToken.address],
+    });
+    if (exchangeRate === BigInt(0)) {
+      throw new WalletError(`Token Paymaster 暂无 ${gasToken.symbol} 报价`, ErrorCode.PAYMASTER_VALIDATION_FAILED);
+    }
+
+    const quote: GasTokenQuote = {
+      ...gasToken,
+      chainId,
+      paymaster,
+      exchangeRate,
+      postOpGas,
+      updatedAt: Date.now(),
+    };
+    this.quotes.set(cacheKey, quote);
+    return quote;
+  }
+
+  /**
+   * 将原生代币数量（wei）按报价折算为代币数量（向上取整）
+   */
+  toTokenAmount(quote: GasTokenQuote, weiAmount: bigint): bigint {
+    return (weiAmount * quote.exchangeRate + EXCHANGE_RATE_DENOMINATOR - BigInt(1)) / EXCHANGE_RATE_DENOMINATOR;
+  }
+
+  /**
+   * UserOperation 按 Gas 限制与 maxFeePerGas 计算的最大代币扣费
+   *
+   * v0.6 没有单独的 postOp Gas 限制，使用报价中的 postOpGas
+   */
+  getMaxTokenCost(quote: GasTokenQuote, userOp: UserOperation): bigint {
+    const gas =
+      userOp.callGasLimit +
+      userOp.verificationGasLimit +
+      userOp.preVerificationGas +
+      (userOp.paymasterVerificationGasLimit ?? BigInt(0)) +
+      (userOp.paymasterPostOpGasLimit ?? quote.postOpGas);
+    return this.toTokenAmount(quote, gas * userOp.maxFeePerGas);
+  }
+
+  /**
+   * 构造代币支付模式的 paymasterAndData（钱包内部格式，不含 v0.7 Paymaster Gas 限制）
+   */
+  buildPaymasterAndData(quote: GasTokenQuote, maxTokenCost: bigint): Hex {
+    return concat([quote.paymaster, quote.address, pad(toHex(maxTokenCost), { size: 32 })]);
+  }
+
+  /**
+   * 授权额度不足时返回精确额度的 approve 调用，额度足够时返回 null
+   */
+  async getApproveCall(quote: GasTokenQuote, owner: Address, amount: bigint): Promise<Transaction | null> {
+    const allowance = await rpcClientManager.getPublicClient(quote.chainId).readContract({
+      address: quote.address,
+      abi: ERC20_ALLOWANCE_ABI,
+      functionName: 'allowance',
+      args: [owner, quote.paymaster],
+    });
+    if (allowance >= amount) {
+      return null;
+    }
+    return {
+      to: quote.address,
+      value: BigInt(0),
+      data: encodeFunctionData({
+        abi: ERC20_ALLOWANCE_ABI,
+        functionName: 'approve',
+        args: [quote.paymaster, amount],
+      }),
+    };
+  }
+
+  /**
+   * 读取账户的代币余额
+   */
+  async getBalance(quote: GasTokenQuote, owner: Address): Promise<bigint> {
+    return tokenService.getTokenBalance(quote.address, owner, quote.chainId);
+  }
+
+  /**
+   * 检查代币余额是否足以支付最大扣费
+   */
+  assertSufficientBalance(quote: GasTokenQuote, balance: bigint, maxTokenCost: bigint): void {
+    if (balance < maxTokenCost) {
+      throw new WalletError(`${quote.symbol} 余额不足以支付 Gas 费用`, ErrorCode.INSUFFICIENT_GAS);
+    }
+  }
+}
+
+export const tokenPaymasterService = new TokenPaymasterService();
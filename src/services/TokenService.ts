@@ -41,6 +41,29 @@ const ERC20_ABI = [
   },
 ] as const;
 
+// ERC-165 接口探测 ABI（用于识别 ERC-721 / ERC-1155 合约）
+const ERC165_ABI = [
+  {
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    name: 'supportsInterface',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const NFT_INTERFACE_IDS = {
+  ERC721: '0x80ac58cd',
+  ERC1155: '0xd9b67a26',
+} as const;
+
+/**
+ * 代币标准（未设置时视为 ERC20）
+ */
+export type TokenStandard = 'ERC20' | 'ERC721' | 'ERC1155';
+
+export type NftStandard = Exclude<TokenStandard, 'ERC20'>;
+
 export interface TokenInfo {
   address: string;
   chainId: number;
@@ -49,6 +72,12 @@ export interface TokenInfo {
   decimals: number;
   balance?: bigint;
   addedAt: number;
+  /** 代币标准，默认 ERC20 */
+  standard?: TokenStandard;
+  /** NFT 的 tokenId（仅 ERC721 / ERC1155） */
+  tokenId?: string;
+  /** 代币图标 */
+  image?: string;
 }
 
 export class TokenService {
@@ -61,27 +90,38 @@ export class TokenService {
     const storedTokens = await storageAdapter.get<TokenInfo[]>(StorageKey.SETTINGS + ':tokens');
     if (storedTokens) {
       storedTokens.forEach((token) => {
-        this.tokens.set(`${token.chainId}:${token.address.toLowerCase()}`, token);
+        this.tokens.set(this.getTokenKey(token.address, token.chainId, token.tokenId), token);
       });
     }
   }
 
   /**
-   * 获取所有代币
+   * 获取所有代币（仅同质化代币，NFT 见 getNfts）
    */
   async getTokens(chainId?: number): Promise<TokenInfo[]> {
-    const allTokens = Array.from(this.tokens.values());
+    const allTokens = Array.from(this.tokens.values()).filter((token) => !this.isNft(token));
     if (chainId !== undefined) {
       return allTokens.filter((token) => token.chainId === chainId);
     }
     return allTokens;
   }
 
+  /**
+   * 获取已关注的 NFT
+   */
+  async getNfts(chainId?: number): Promise<TokenInfo[]> {
+    const nfts = Array.from(this.tokens.values()).filter((token) => this.isNft(token));
+    if (chainId !== undefined) {
+      return nfts.filter((token) => token.chainId === chainId);
+    }
+    return nfts;
+  }
+
   /**
    * 添加代币
    */
   async addToken(token: Omit<TokenInfo, 'addedAt'>): Promise<void> {
-    const key = `${token.chainId}:${token.address.toLowerCase()}`;
+    const key = this.getTokenKey(token.address, token.chainId, token.tokenId);
     const tokenInfo: TokenInfo = {
       ...token,
       addedAt: Date.now(),
@@ -93,9 +133,11 @@ export class TokenService {
 
   /**
    * 删除代币
+   *
+   * @param tokenId NFT 的 tokenId（删除同质化代币时不传）
    */
-  async removeToken(address: string, chainId: number): Promise<void> {
-    const key = `${chainId}:${address.toLowerCase()}`;
+  async removeToken(address: string, chainId: number, tokenId?: string): Promise<void> {
+    const key = this.getTokenKey(address, chainId, tokenId);
     this.tokens.delete(key);
     await this.saveTokens();
   }
@@ -140,6 +182,55 @@ export class TokenService {
     }
   }
 
+  /**
+   * 查询 NFT 信息
+   *
+   * 通过 ERC-165 确认合约实现了声明的标准；name / symbol 为可选扩展，读取失败时留空
+   */
+  async fetchNftInfo(
+    address: Address,
+    chainId: number,
+    standard: NftStandard,
+    tokenId: string
+  ): Promise<Omit<TokenInfo, 'addedAt' | 'balance'>> {
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+
+    let supported = false;
+    try {
+      supported = (await publicClient.readContract({
+        address,
+        abi: ERC165_ABI,
+        functionName: 'supportsInterface',
+        args: [NFT_INTERFACE_IDS[standard]],
+      })) as boolean;
+    } catch (error) {
+      throw new Error(`Failed to fetch token info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!supported) {
+      throw new Error(`Contract ${address} does not implement ${standard}`);
+    }
+
+    const [name, symbol] = await Promise.all(
+      (['name', 'symbol'] as const).map((functionName) =>
+        publicClient
+          .readContract({ address, abi: ERC20_ABI, functionName })
+          .then((value) => value as string)
+          .catch(() => '')
+      )
+    );
+
+    return {
+      address: address.toLowerCase(),
+      chainId,
+      name,
+      symbol,
+      decimals: 0,
+      standard,
+      tokenId,
+    };
+  }
+
   /**
    * 查询代币余额
    * 
@@ -183,6 +274,15 @@ export class TokenService {
     }
   }
 
+  private getTokenKey(address: string, chainId: number, tokenId?: string): string {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    return tokenId !== undefined ? `${key}:${tokenId}` : key;
+  }
+
+  private isNft(token: TokenInfo): boolean {
+    return token.standard === 'ERC721' || token.standard === 'ERC1155';
+  }
+
   /**
    * 保存代币列表
    */
@@ -13,15 +13,31 @@ export interface TransactionHistory {
   from: string;
   to: string;
   value: bigint;
-  status: 'pending' | 'success' | 'failed';
+  /** dropped：已被 Bundler 丢弃；timeout：超过跟踪时限仍未上链；cancelled：已被取消操作替换并上链 */
+  status: 'pending' | 'success' | 'failed' | 'dropped' | 'timeout' | 'cancelled';
   timestamp: number;
   blockNumber?: number;
   gasUsed?: bigint;
   gasPrice?: bigint;
   data?: string;
   type?: 'transfer' | 'contract' | 'batch';
+  /** 打包该 UserOperation 的链上交易哈希（hash 为 userOpHash 时） */
+  bundleTxHash?: string;
+  /** EntryPoint 实际扣除的 Gas 费用（wei） */
+  actualGasCost?: bigint;
+  /** 执行回滚或被丢弃的原因 */
+  failureReason?: string;
+  /** 最近一次替换的类型（加速 / 取消） */
+  replacement?: 'speedUp' | 'cancel';
+  /** 被替换的旧哈希（同一 nonce 的加速 / 取消会合并为一条记录） */
+  replacedHashes?: string[];
 }
 
+/**
+ * 交易状态更新时附带的执行结果
+ */
+export type TransactionStatusDetails = Pick<TransactionHistory, 'bundleTxHash' | 'actualGasCost' | 'failureReason'>;
+
 export class TransactionHistoryService {
   private transactions: Map<string, TransactionHistory> = new Map();
 
@@ -54,7 +70,8 @@ export class TransactionHistoryService {
     hash: string,
     status: TransactionHistory['status'],
     blockNumber?: number,
-    gasUsed?: bigint
+    gasUsed?: bigint,
+    details?: TransactionStatusDetails
   ): Promise<void> {
     const tx = this.transactions.get(hash);
     if (!tx) {
@@ -68,11 +85,43 @@ export class TransactionHistoryService {
     if (gasUsed !== undefined) {
       tx.gasUsed = gasUsed;
     }
+    if (details) {
+      Object.assign(tx, details);
+    }
 
     this.transactions.set(hash, tx);
     await this.saveTransactions();
   }
 
+  /**
+   * 以新哈希承接被替换的交易记录（加速 / 取消）
+   *
+   * 保留原记录的收款方、金额与时间，旧哈希记入 replacedHashes，避免历史中出现重复记录
+   *
+   * @returns 旧记录不存在时返回 false
+   */
+  async replaceTransaction(
+    oldHash: string,
+    newHash: string,
+    replacement?: TransactionHistory['replacement']
+  ): Promise<boolean> {
+    const tx = this.transactions.get(oldHash);
+    if (!tx) {
+      return false;
+    }
+
+    this.transactions.delete(oldHash);
+    this.transactions.set(newHash, {
+      ...tx,
+      hash: newHash,
+      status: 'pending',
+      replacement: replacement ?? tx.replacement,
+      replacedHashes: [...(tx.replacedHashes ?? []), oldHash],
+    });
+    await this.saveTransactions();
+    return true;
+  }
+
   /**
    * 获取交易历史
    */
@@ -120,7 +169,12 @@ export class TransactionHistoryService {
    * 获取交易详情
    */
   async getTransaction(hash: string): Promise<TransactionHistory | null> {
-    return this.transactions.get(hash) || null;
+    const tx = this.transactions.get(hash);
+    if (tx) {
+      return tx;
+    }
+    // 已被加速 / 取消替换的旧哈希，返回承接它的记录
+    return Array.from(this.transactions.values()).find((item) => item.replacedHashes?.includes(hash)) || null;
   }
 
   /**
@@ -9,12 +9,23 @@
 import { type Address, type Hash, type Hex } from 'viem';
 import { Transaction, ChainConfig } from '@/types';
 import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { resolveEntryPointVersion } from '@/utils/userOperation';
 import { bundlerClient } from './BundlerClient';
-import { rpcClientManager } from '@/utils/RpcClientManager';
-import { BundlerUnavailableError } from './BundlerClient';
+import { BundlerUnavailableError, type UserOperationGasEstimate } from './BundlerClient';
 import { accountManager } from './AccountManager';
 import { applicationRegistryClient } from './ApplicationRegistryClient';
 import { ErrorCode, WalletError } from '@/utils/errors';
+import {
+  userOperationTracker,
+  type TrackUserOperationInput,
+  type UserOperationLifecycleStatus,
+  type UserOperationReplacementKind,
+} from './UserOperationTracker';
+import { isRootValidationNonce, nonceManager, type NonceReservation } from './NonceManager';
+import { feeOracleService, type FeeTier } from './FeeOracleService';
+import { validationSimulationService } from './ValidationSimulationService';
+import { tokenPaymasterService, type GasTokenFee } from './TokenPaymasterService';
+import { spendingLimitService } from './SpendingLimitService';
 
 /**
  * 降级模式错误
@@ -24,10 +35,13 @@ import { ErrorCode, WalletError } from '@/utils/errors';
 export class FallbackModeError extends Error {
   code = 'FALLBACK_MODE_AVAILABLE';
   estimatedGas: bigint;
-  constructor(message: string, estimatedGas: bigint) {
+  /** estimatedGas 是否包含随本次操作部署账户的费用 */
+  includesDeployment: boolean;
+  constructor(message: string, estimatedGas: bigint, includesDeployment: boolean = false) {
     super(message);
     this.name = 'FallbackModeError';
     this.estimatedGas = estimatedGas;
+    this.includesDeployment = includesDeployment;
   }
 }
 
@@ -40,6 +54,45 @@ export class FallbackModeError extends Error {
  */
 import type { UserOperation } from '@/utils/kernel-types';
 
+/**
+ * Bundler 返回的 UserOperation 回执（eth_getUserOperationReceipt）
+ */
+export interface UserOperationReceipt {
+  userOpHash: Hash;
+  sender: Address;
+  nonce: Hex;
+  success: boolean;
+  actualGasCost: Hex;
+  actualGasUsed: Hex;
+  reason?: string;
+  logs: unknown[];
+  receipt: {
+    transactionHash: Hash;
+    blockHash: Hash;
+    blockNumber: Hex;
+    gasUsed: Hex;
+    status: Hex;
+    logs: unknown[];
+  };
+}
+
+/**
+ * 发送选项
+ */
+export interface RelayOptions {
+  /** nonce 通道（见 NonceManager），默认为手动交易使用的 default 通道 */
+  nonceChannel?: string;
+  /** Gas 费档位（见 FeeOracleService），默认为 normal */
+  feeTier?: FeeTier;
+  /** 以该 ERC-20 代币支付 Gas（见 TokenPaymasterService），未设置时使用原生代币或赞助 */
+  gasToken?: Address;
+  /**
+   * 签名所用的非根验证器（如会话密钥验证器，见 SessionKeyService），
+   * 此时 ownerPrivateKey 为该验证器认可的签名密钥，nonce 使用该验证器的序列
+   */
+  validator?: Address;
+}
+
 export interface SponsorPolicyContext {
   sponsored?: boolean;
   sponsorId?: string;
@@ -47,16 +100,39 @@ export interface SponsorPolicyContext {
   eoaAddress?: Address | null;
 }
 
+/** 替换（加速 / 取消）操作的最低提价比例，对应 Bundler 内存池的替换规则 */
+const REPLACEMENT_FEE_BUMP_PERCENT = BigInt(10);
+
+/** Bundler 估算不可用时，为随 initCode 部署账户（工厂创建代理并初始化验证器）额外预留的验证 Gas */
+const ACCOUNT_DEPLOYMENT_VERIFICATION_GAS = BigInt(300000);
+
+/** 部署操作处于这些状态时未能上链，账户仍未部署，可以由新的操作重新部署 */
+const DEPLOYMENT_ABANDONED_STATUSES: UserOperationLifecycleStatus[] = ['dropped', 'timeout'];
+
+/**
+ * 随 initCode 部署账户、尚未确认部署的操作（`chainId:address` → UserOperation 哈希，提交前为 null）
+ *
+ * 模块级共享：Provider 与各服务可能持有不同的 TransactionRelayer 实例
+ */
+const pendingDeployments = new Map<string, Hash | null>();
+
 export class TransactionRelayer {
   /**
    * 发送单笔交易
    * 
+   * 账户启用支出限额（见 SpendingLimitService）时，签名前检查转出金额，超额抛出 SPENDING_LIMIT_EXCEEDED；
+   * 未部署账户的首个操作随 initCode 部署账户，该操作上链前其他操作抛出 ACCOUNT_NOT_DEPLOYED
+   * 
    * @param accountAddress 智能合约账户地址
    * @param chainId 链 ID
    * @param target 目标地址
    * @param data 调用数据
    * @param ownerPrivateKey owner 的私钥（必需，用于签名 UserOperation，供 Validator 验证）
    *                        注意：这是账户 owner 的私钥，不是账户合约的私钥
+   * @param options.nonceChannel nonce 通道，独立流程使用各自的通道以免互相阻塞
+   * @param options.feeTier Gas 费档位
+   * @param options.gasToken 支付 Gas 的 ERC-20 代币，代币支付不经过赞助策略
+   * @param options.validator 签名所用的非根验证器（如会话密钥），此时 ownerPrivateKey 为该验证器的签名密钥
    * @returns 交易哈希
    */
   async sendTransaction(
@@ -66,35 +142,81 @@ export class TransactionRelayer {
     data: string,
     ownerPrivateKey: `0x${string}`,
     value: bigint = BigInt(0),
-    sponsorPolicyContext?: SponsorPolicyContext
+    sponsorPolicyContext?: SponsorPolicyContext,
+    options?: RelayOptions
   ): Promise<Hash> {
     const chainConfig = requireChainConfig(chainId, ['rpcUrl']);
-    if (!chainConfig.bundlerUrl) {
-      throw new BundlerUnavailableError(`Bundler URL not configured for chain: ${chainId}`);
+    await this.requireBundlers(chainId);
+    if (!options?.gasToken) {
+      await this.enforceSponsorPolicyGate(accountAddress, chainId, [target], sponsorPolicyContext);
     }
-    await this.enforceSponsorPolicyGate(accountAddress, chainId, [target], sponsorPolicyContext);
+    const calls: Transaction[] = [{ to: target, value, data }];
+    await spendingLimitService.assertWithinLimits(accountAddress, chainId, calls);
+
+    const reservation = await this.reserveNonce(accountAddress, chainId, options);
+    let deploying = false;
+    let txHash: Hash | undefined;
+    try {
+      deploying = await this.claimDeployment(accountAddress, chainId);
 
-    // 构造 UserOperation
-    const userOp = await this.buildUserOperation(accountAddress, chainId, target, data, value);
+      // 构造 UserOperation
+      const userOp = options?.gasToken
+        ? (
+            await this.buildGasTokenUserOperation(
+              accountAddress,
+              chainId,
+              [{ to: target, value, data }],
+              options.gasToken,
+              reservation.nonce,
+              options.feeTier
+            )
+          ).userOp
+        : await this.buildUserOperation(
+            accountAddress,
+            chainId,
+            target,
+            data,
+            value,
+            reservation.nonce,
+            options?.feeTier
+          );
 
-    // 签名 UserOperation
-    const signedUserOp = await this.signUserOperation(userOp, chainId, ownerPrivateKey);
+      // 签名 UserOperation
+      const signedUserOp = await this.signUserOperation(userOp, chainId, ownerPrivateKey);
 
-    // 发送到 Bundler
-    const txHash = await this.sendToBundler(signedUserOp, chainConfig.bundlerUrl, chainId);
-    await this.recordPaymasterUsageIfNeeded(signedUserOp, chainConfig, txHash);
-    return txHash;
+      // 发送到 Bundler
+      txHash = await this.sendToBundler(signedUserOp, chainId);
+      await this.recordPaymasterUsageIfNeeded(signedUserOp, chainConfig, txHash);
+      await this.trackUserOperation(signedUserOp, chainId, txHash, {
+        to: target,
+        value,
+        data: data as Hex,
+        type: data === '0x' ? 'transfer' : 'contract',
+        gasPayment: options?.gasToken ? { token: options.gasToken, calls } : undefined,
+        validator: options?.validator,
+      });
+      await spendingLimitService.recordSpending(accountAddress, chainId, calls, txHash);
+      return txHash;
+    } finally {
+      nonceManager.release(reservation);
+      if (deploying) {
+        this.settleDeployment(accountAddress, chainId, txHash);
+      }
+    }
   }
 
   /**
    * 发送批量交易
    * 
-   * 将多个交易打包成一个 UserOperation，使用 Kernel 的 executeBatch 方法
+   * 将多个交易打包成一个 UserOperation，使用 Kernel 的 executeBatch 方法，支出限额按全部调用合计检查
    * 
    * @param accountAddress 智能合约账户地址
    * @param chainId 链 ID
    * @param transactions 交易列表
    * @param ownerPrivateKey owner 的私钥（必需，用于签名 UserOperation）
+   * @param options.nonceChannel nonce 通道，独立流程使用各自的通道以免互相阻塞
+   * @param options.feeTier Gas 费档位
+   * @param options.gasToken 支付 Gas 的 ERC-20 代币，代币支付不经过赞助策略
    * @returns 交易哈希
    */
   async sendBatch(
@@ -102,22 +224,24 @@ export class TransactionRelayer {
     chainId: number,
     transactions: Transaction[],
     ownerPrivateKey: `0x${string}`,
-    sponsorPolicyContext?: SponsorPolicyContext
+    sponsorPolicyContext?: SponsorPolicyContext,
+    options?: RelayOptions
   ): Promise<Hash> {
     const chainConfig = requireChainConfig(chainId, ['rpcUrl']);
-    if (!chainConfig.bundlerUrl) {
-      throw new BundlerUnavailableError(`Bundler URL not configured for chain: ${chainId}`);
-    }
+    await this.requireBundlers(chainId);
 
     if (transactions.length === 0) {
       throw new Error('No transactions to batch');
     }
-    await this.enforceSponsorPolicyGate(
-      accountAddress,
-      chainId,
-      transactions.map((tx) => tx.to as Address),
-      sponsorPolicyContext
-    );
+    if (!options?.gasToken) {
+      await this.enforceSponsorPolicyGate(
+        accountAddress,
+        chainId,
+        transactions.map((tx) => tx.to as Address),
+        sponsorPolicyContext
+      );
+    }
+    await spendingLimitService.assertWithinLimits(accountAddress, chainId, transactions);
 
     // 构造批量交易的 callData
     const { encodeExecuteBatchCallData } = await import('@/utils/kernel');
@@ -127,14 +251,213 @@ export class TransactionRelayer {
     
     const callData = encodeExecuteBatchCallData(targets, values, datas);
 
-    // 构造 UserOperation
-    const userOp = await this.buildUserOperation(accountAddress, chainId, accountAddress, callData);
+    const reservation = await this.reserveNonce(accountAddress, chainId, options);
+    let deploying = false;
+    let txHash: Hash | undefined;
+    try {
+      deploying = await this.claimDeployment(accountAddress, chainId);
+
+      // 构造 UserOperation（executeBatch 已是账户入口调用，不能再包一层 execute）
+      const userOp = options?.gasToken
+        ? (
+            await this.buildGasTokenUserOperation(
+              accountAddress,
+              chainId,
+              transactions,
+              options.gasToken,
+              reservation.nonce,
+              options.feeTier
+            )
+          ).userOp
+        : await this.buildUserOperationWithCallData(
+            accountAddress,
+            chainId,
+            callData,
+            reservation.nonce,
+            options?.feeTier
+          );
+
+      // 签名 UserOperation
+      const signedUserOp = await this.signUserOperation(userOp, chainId, ownerPrivateKey);
+
+      // 发送到 Bundler
+      txHash = await this.sendToBundler(signedUserOp, chainId);
+      await this.recordPaymasterUsageIfNeeded(signedUserOp, chainConfig, txHash);
+      await this.trackUserOperation(signedUserOp, chainId, txHash, {
+        to: targets[0],
+        value: values.reduce((total, item) => total + item, 0n),
+        data: userOp.callData,
+        type: 'batch',
+        gasPayment: options?.gasToken ? { token: options.gasToken, calls: transactions } : undefined,
+        validator: options?.validator,
+      });
+      await spendingLimitService.recordSpending(accountAddress, chainId, transactions, txHash);
+      return txHash;
+    } finally {
+      nonceManager.release(reservation);
+      if (deploying) {
+        this.settleDeployment(accountAddress, chainId, txHash);
+      }
+    }
+  }
+
+  /**
+   * 查询 UserOperation 回执
+   * 
+   * 通过链配置的 Bundler 调用 eth_getUserOperationReceipt，尚未上链时返回 null
+   * 
+   * @param chainId 链 ID
+   * @param userOpHash UserOperation 哈希（sendTransaction / sendBatch 的返回值）
+   */
+  async getUserOperationReceipt(chainId: number, userOpHash: Hash): Promise<UserOperationReceipt | null> {
+    await this.requireBundlers(chainId);
+
+    const receipt = await bundlerClient.getUserOperationReceipt(userOpHash, chainId);
+    return (receipt as UserOperationReceipt | null) ?? null;
+  }
+
+  /**
+   * 加速待上链的 UserOperation
+   * 
+   * 以相同 nonce 和 callData 重新签名，按 Bundler 替换规则提高 maxFeePerGas / maxPriorityFeePerGas
+   * 
+   * @param userOpHash 待加速的 UserOperation 哈希
+   * @param ownerPrivateKey owner 的私钥（用于重新签名）
+   * @returns 新的 UserOperation 哈希
+   */
+  async speedUpUserOperation(userOpHash: Hash, ownerPrivateKey: `0x${string}`): Promise<Hash> {
+    return this.replaceUserOperation(userOpHash, ownerPrivateKey, 'speedUp');
+  }
+
+  /**
+   * 取消待上链的 UserOperation
+   * 
+   * 以相同 nonce 发送调用账户自身的空操作，提高 Gas 费替换原操作
+   * 
+   * @param userOpHash 待取消的 UserOperation 哈希
+   * @param ownerPrivateKey owner 的私钥（用于重新签名）
+   * @returns 取消操作的 UserOperation 哈希
+   */
+  async cancelUserOperation(userOpHash: Hash, ownerPrivateKey: `0x${string}`): Promise<Hash> {
+    return this.replaceUserOperation(userOpHash, ownerPrivateKey, 'cancel');
+  }
+
+  private async replaceUserOperation(
+    userOpHash: Hash,
+    ownerPrivateKey: `0x${string}`,
+    kind: UserOperationReplacementKind
+  ): Promise<Hash> {
+    const operation = userOperationTracker.getOperation(userOpHash);
+    if (!operation?.userOperation) {
+      throw new Error(`Invalid replacement: UserOperation ${userOpHash} is not tracked`);
+    }
+    if (operation.status !== 'submitted') {
+      throw new Error(`Invalid replacement: UserOperation ${userOpHash} is already ${operation.status}`);
+    }
+    // 替换操作以 owner 私钥重新签名，只有根验证签名的操作可以替换
+    if (operation.validator || !isRootValidationNonce(operation.userOperation.nonce)) {
+      throw new Error(
+        `Invalid replacement: UserOperation ${userOpHash} is signed by a non-root validator and cannot be replaced`
+      );
+    }
+
+    const { chainId } = operation;
+    const previous = operation.userOperation;
+    await this.requireBundlers(chainId);
+
+    let userOp: UserOperation = {
+      ...previous,
+      ...(await this.getReplacementFees(previous, chainId)),
+      signature: '0x',
+    };
+
+    // 取消：调用账户自身的空操作，仅消耗 nonce
+    let gasPayment = operation.gasPayment;
+    if (gasPayment) {
+      // 代币扣费上限随提价后的 Gas 费变化，沿用原操作的授权与 paymasterAndData 会被 Paymaster 拒绝（AA33），
+      // 按业务调用重新报价并重建 approve 与 paymasterAndData
+      if (kind === 'cancel') {
+        gasPayment = { ...gasPayment, calls: [{ to: previous.sender, value: BigInt(0), data: '0x' }] };
+      }
+      const base = userOp;
+      ({ userOp } = await this.buildGasTokenPayment(
+        previous.sender,
+        chainId,
+        gasPayment.calls,
+        gasPayment.token,
+        (callData, paymasterAndData) => this.reestimateUserOperation(base, chainId, callData, paymasterAndData)
+      ));
+    } else if (kind === 'cancel') {
+      const callData = (await this.buildExecuteCallData(previous.sender, BigInt(0), '0x')) as Hex;
+      userOp = await this.reestimateUserOperation(userOp, chainId, callData, userOp.paymasterAndData);
+    }
 
-    // 签名 UserOperation
     const signedUserOp = await this.signUserOperation(userOp, chainId, ownerPrivateKey);
+    const newUserOpHash = await this.sendToBundler(signedUserOp, chainId);
+    await userOperationTracker.track({
+      userOpHash: newUserOpHash,
+      chainId,
+      sender: previous.sender,
+      nonce: previous.nonce,
+      // 取消时调用目标为账户自身，加速沿用原调用目标
+      to: kind === 'cancel' ? previous.sender : operation.to ?? previous.sender,
+      userOperation: signedUserOp,
+      gasPayment,
+      replaces: operation.userOpHash,
+      replacement: kind,
+    });
+    return newUserOpHash;
+  }
+
+  /**
+   * 计算替换操作的 Gas 费
+   * 
+   * Bundler 要求替换操作的 maxFeePerGas 与 maxPriorityFeePerGas 均至少提高 10%；
+   * 当前 normal 档位的费用已高于提价结果时按当前费用
+   */
+  private async getReplacementFees(
+    previous: UserOperation,
+    chainId: number
+  ): Promise<Pick<UserOperation, 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+    const current = await feeOracleService.getFees(chainId);
+    const bump = (fee: bigint) => (fee * (BigInt(100) + REPLACEMENT_FEE_BUMP_PERCENT) + BigInt(99)) / BigInt(100);
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    const maxPriorityFeePerGas = max(bump(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+    const maxFeePerGas = max(max(bump(previous.maxFeePerGas), current.maxFeePerGas), maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * 以新的 callData 与 paymasterAndData 重新估算替换操作的 Gas 限制（沿用 nonce、initCode 与提价后的 Gas 费）
+   */
+  private async reestimateUserOperation(
+    base: UserOperation,
+    chainId: number,
+    callData: Hex,
+    paymasterAndData: Hex
+  ): Promise<UserOperation> {
+    const accountCallData = await this.resolveAccountCallData(base.sender, chainId, base.nonce, callData);
+    const userOp: UserOperation = { ...base, callData: accountCallData, paymasterAndData };
+    const gasEstimate = await this.estimateGas(base.sender, chainId, accountCallData, userOp);
+    userOp.callGasLimit = gasEstimate.callGasLimit;
+    userOp.verificationGasLimit = gasEstimate.verificationGasLimit;
+    userOp.preVerificationGas = gasEstimate.preVerificationGas;
+    if (resolveEntryPointVersion(requireChainConfig(chainId)) === '0.7' && paymasterAndData !== '0x') {
+      userOp.paymasterVerificationGasLimit = gasEstimate.paymasterVerificationGasLimit ?? gasEstimate.verificationGasLimit;
+      userOp.paymasterPostOpGasLimit = gasEstimate.paymasterPostOpGasLimit ?? BigInt(0);
+    }
+    return userOp;
+  }
 
-    // 发送到 Bundler
-    return this.sendToBundler(signedUserOp, chainConfig.bundlerUrl, chainId);
+  /**
+   * 注册链的全部 Bundler，未配置任何 Bundler 时抛出错误
+   */
+  private async requireBundlers(chainId: number): Promise<void> {
+    const bundlers = await bundlerClient.configureChain(chainId);
+    if (bundlers.length === 0) {
+      throw new BundlerUnavailableError(`Bundler URL not configured for chain: ${chainId}`);
+    }
   }
 
   /**
@@ -145,82 +468,321 @@ export class TransactionRelayer {
     chainId: number,
     target: Address,
     data: string,
-    value: bigint = BigInt(0)
+    value: bigint = BigInt(0),
+    nonce?: bigint,
+    feeTier?: FeeTier
   ): Promise<UserOperation> {
-    const chainConfig = requireChainConfig(chainId);
-
-    // 使用 RpcClientManager 获取缓存的 PublicClient 实例
-    const publicClient = rpcClientManager.getPublicClient(chainId);
+    // 构造 callData（调用 Kernel 的 execute 方法）
+    const callData = await this.buildExecuteCallData(target, value, data);
+    return this.buildUserOperationWithCallData(accountAddress, chainId, callData, nonce, feeTier);
+  }
 
-    // 获取账户 nonce
-    const nonce = await this.getAccountNonce(accountAddress, chainId);
+  /**
+   * 使用已编码的账户 callData 构造 UserOperation
+   * 
+   * 供 execute / executeBatch 等已经编码好的 Kernel 入口调用复用
+   * 
+   * @param nonce 已预留的 nonce，未提供时读取默认通道的链上 nonce（仅用于预览）
+   * @param feeTier Gas 费档位
+   * @param paymasterAndData 指定的 paymasterAndData（代币支付模式），未提供时使用链配置的 Paymaster
+   */
+  private async buildUserOperationWithCallData(
+    accountAddress: Address,
+    chainId: number,
+    callData: string,
+    nonce?: bigint,
+    feeTier?: FeeTier,
+    paymasterAndData?: Hex
+  ): Promise<UserOperation> {
+    const chainConfig = requireChainConfig(chainId);
+    const userOpPaymasterAndData = paymasterAndData ?? ((chainConfig.paymasterAddress || '0x') as Hex);
 
-    // 获取当前 Gas 价格
-    const gasPrice = await publicClient.getGasPrice();
-    const maxPriorityFeePerGas = gasPrice / BigInt(2);
+    // 按档位获取 EIP-1559 Gas 费
+    const { maxFeePerGas, maxPriorityFeePerGas } = await feeOracleService.getFees(chainId, feeTier);
 
-    // 构造 callData（调用 Kernel 的 execute 方法）
-    const callData = await this.buildExecuteCallData(target, value, data);
+    // 反事实账户随本次操作部署
+    const initCode = await this.getInitCode(accountAddress, chainId);
 
     // 构造临时 UserOperation 用于 Gas 估算
+    const userOpNonce = nonce ?? (await this.getAccountNonce(accountAddress, chainId));
+    const accountCallData = await this.resolveAccountCallData(
+      accountAddress,
+      chainId,
+      userOpNonce,
+      callData as Hex
+    );
     const tempUserOp: Partial<UserOperation> = {
       sender: accountAddress,
-      nonce: nonce,
-      initCode: '0x', // 账户已存在，不需要初始化代码
-      callData: callData as Hex,
-      maxFeePerGas: gasPrice,
-      maxPriorityFeePerGas: maxPriorityFeePerGas,
-      paymasterAndData: (chainConfig.paymasterAddress || '0x') as Hex,
+      nonce: userOpNonce,
+      initCode,
+      callData: accountCallData,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      paymasterAndData: userOpPaymasterAndData,
     };
 
     // 估算 Gas
     const gasEstimate = await this.estimateGas(
       accountAddress,
       chainId,
-      callData,
-      tempUserOp,
-      chainConfig.bundlerUrl || ''
+      accountCallData,
+      tempUserOp
     );
 
     // 构造完整的 UserOperation
     const userOp: UserOperation = {
       sender: accountAddress,
-      nonce: nonce,
-      initCode: '0x', // 账户已存在，不需要初始化代码
-      callData: callData as Hex,
+      nonce: userOpNonce,
+      initCode,
+      callData: accountCallData,
       callGasLimit: gasEstimate.callGasLimit,
       verificationGasLimit: gasEstimate.verificationGasLimit,
       preVerificationGas: gasEstimate.preVerificationGas,
-      maxFeePerGas: gasPrice,
-      maxPriorityFeePerGas: maxPriorityFeePerGas,
-      paymasterAndData: (chainConfig.paymasterAddress || '0x') as Hex,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      paymasterAndData: userOpPaymasterAndData,
       signature: '0x', // 将在签名步骤填充
     };
 
+    // EntryPoint v0.7 的 Paymaster 需要单独的验证 / postOp Gas 限制
+    if (resolveEntryPointVersion(chainConfig) === '0.7' && userOp.paymasterAndData !== '0x') {
+      userOp.paymasterVerificationGasLimit = gasEstimate.paymasterVerificationGasLimit ?? gasEstimate.verificationGasLimit;
+      userOp.paymasterPostOpGasLimit = gasEstimate.paymasterPostOpGasLimit ?? BigInt(0);
+    }
+
     return userOp;
   }
 
+  /**
+   * 构造以 ERC-20 代币支付 Gas 的 UserOperation
+   *
+   * 先以账户代币余额作为授权额度与最大扣费占位估算 Gas（编码长度相同），
+   * 再按估算结果计算最大扣费，替换为精确额度；授权已足够时不附带 approve
+   *
+   * @param calls 本次操作的调用（approve 会插入到最前面）
+   */
+  private async buildGasTokenUserOperation(
+    accountAddress: Address,
+    chainId: number,
+    calls: Transaction[],
+    gasToken: Address,
+    nonce?: bigint,
+    feeTier?: FeeTier
+  ): Promise<{ userOp: UserOperation; tokenFee: GasTokenFee }> {
+    return this.buildGasTokenPayment(accountAddress, chainId, calls, gasToken, (callData, paymasterAndData) =>
+      this.buildUserOperationWithCallData(
+        accountAddress,
+        chainId,
+        callData,
+        nonce,
+        feeTier,
+        paymasterAndData
+      )
+    );
+  }
+
+  /**
+   * 按代币报价构造授权与 paymasterAndData
+   *
+   * @param build 以给定 callData 与 paymasterAndData 构造并估算 UserOperation（新操作或替换操作）
+   */
+  private async buildGasTokenPayment(
+    accountAddress: Address,
+    chainId: number,
+    calls: Transaction[],
+    gasToken: Address,
+    build: (callData: Hex, paymasterAndData: Hex) => Promise<UserOperation>
+  ): Promise<{ userOp: UserOperation; tokenFee: GasTokenFee }> {
+    const chainConfig = requireChainConfig(chainId);
+    const quote = await tokenPaymasterService.getQuote(chainId, gasToken);
+    const balance = await tokenPaymasterService.getBalance(quote, accountAddress);
+
+    const placeholderApprove = await tokenPaymasterService.getApproveCall(quote, accountAddress, balance);
+    const userOp = await build(
+      (await this.encodeCalls(placeholderApprove ? [placeholderApprove, ...calls] : calls)) as Hex,
+      tokenPaymasterService.buildPaymasterAndData(quote, balance)
+    );
+
+    // postOp 扣款所需的 Gas 不能低于 Paymaster 报价
+    if (resolveEntryPointVersion(chainConfig) === '0.7' && (userOp.paymasterPostOpGasLimit ?? BigInt(0)) < quote.postOpGas) {
+      userOp.paymasterPostOpGasLimit = quote.postOpGas;
+    }
+
+    const maxTokenCost = tokenPaymasterService.getMaxTokenCost(quote, userOp);
+    tokenPaymasterService.assertSufficientBalance(quote, balance, maxTokenCost);
+
+    const approve = await tokenPaymasterService.getApproveCall(quote, accountAddress, maxTokenCost);
+    userOp.callData = await this.resolveAccountCallData(
+      accountAddress,
+      chainId,
+      userOp.nonce,
+      (await this.encodeCalls(approve ? [approve, ...calls] : calls)) as Hex
+    );
+    userOp.paymasterAndData = tokenPaymasterService.buildPaymasterAndData(quote, maxTokenCost);
+
+    return {
+      userOp,
+      tokenFee: {
+        address: quote.address,
+        symbol: quote.symbol,
+        decimals: quote.decimals,
+        maxAmount: maxTokenCost,
+        includesApproval: approve !== null,
+      },
+    };
+  }
+
+  /**
+   * 根验证挂载了支出限额 Hook 时，根验证的操作须经 executeUserOp 执行，Kernel 才会在执行前调用 Hook；
+   * 非根验证器（如会话密钥）的操作不经过根验证的 Hook，保持原样
+   */
+  private async resolveAccountCallData(
+    accountAddress: Address,
+    chainId: number,
+    nonce: bigint,
+    callData: Hex
+  ): Promise<Hex> {
+    if (!isRootValidationNonce(nonce)) {
+      return callData;
+    }
+    if (!(await spendingLimitService.isRootHookAttached(accountAddress, chainId))) {
+      return callData;
+    }
+    const { encodeExecuteUserOpCallData } = await import('@/utils/kernel');
+    return encodeExecuteUserOpCallData(callData);
+  }
+
+  /**
+   * 编码账户调用：单笔使用 execute，多笔使用 executeBatch
+   */
+  private async encodeCalls(calls: Transaction[]): Promise<string> {
+    if (calls.length === 1) {
+      return this.buildExecuteCallData(calls[0].to as Address, calls[0].value, calls[0].data);
+    }
+    const { encodeExecuteBatchCallData } = await import('@/utils/kernel');
+    return encodeExecuteBatchCallData(
+      calls.map((call) => call.to as Address),
+      calls.map((call) => call.value),
+      calls.map((call) => call.data as Hex)
+    );
+  }
+
+  /**
+   * 为未部署账户的操作占用部署
+   *
+   * 账户只能由一个带 initCode 的操作部署：部署操作提交后、跟踪服务标记账户已部署前，
+   * 其他 nonce 通道的操作同样会带上 initCode，上链时因账户已存在失败（AA10），因此直接拒绝；
+   * 链上已有代码时同步为已部署，部署操作被丢弃或超时后允许重新部署
+   *
+   * @returns 本次操作是否随 initCode 部署账户
+   */
+  private async claimDeployment(accountAddress: Address, chainId: number): Promise<boolean> {
+    const key = `${chainId}:${accountAddress.toLowerCase()}`;
+    const accountInfo = await accountManager.getAccountByAddress(accountAddress, chainId);
+    if (!accountInfo || accountInfo.status === 'deployed') {
+      pendingDeployments.delete(key);
+      return false;
+    }
+
+    if (pendingDeployments.has(key)) {
+      if (await accountManager.accountExists(accountAddress, chainId)) {
+        await accountManager.markAccountDeployed(accountAddress, chainId);
+        pendingDeployments.delete(key);
+        return false;
+      }
+
+      const userOpHash = pendingDeployments.get(key);
+      const deployment = userOpHash ? userOperationTracker.getLatestOperation(userOpHash) : null;
+      if (!deployment || !DEPLOYMENT_ABANDONED_STATUSES.includes(deployment.status)) {
+        throw new WalletError(
+          `Account ${accountAddress} is being deployed by another UserOperation; wait for it to be included`,
+          ErrorCode.ACCOUNT_NOT_DEPLOYED,
+          { accountAddress, chainId, userOpHash }
+        );
+      }
+    }
+
+    pendingDeployments.set(key, null);
+    return true;
+  }
+
+  /**
+   * 记录部署操作的哈希；未能提交时释放占用
+   */
+  private settleDeployment(accountAddress: Address, chainId: number, userOpHash?: Hash): void {
+    const key = `${chainId}:${accountAddress.toLowerCase()}`;
+    if (userOpHash) {
+      pendingDeployments.set(key, userOpHash);
+    } else {
+      pendingDeployments.delete(key);
+    }
+  }
+
+  /**
+   * 构造账户部署的 initCode（KernelFactory 地址 + createAccount 调用数据）
+   * 
+   * 仅对尚未部署的本地账户生成：部署状态以链上代码为准，
+   * 已有代码但本地仍记为未部署时同步为已部署；无法确定 owner 的账户返回 0x
+   */
+  private async getInitCode(accountAddress: Address, chainId: number): Promise<Hex> {
+    const accountInfo = await accountManager.getAccountByAddress(accountAddress, chainId);
+    if (!accountInfo || accountInfo.status === 'deployed') {
+      return '0x';
+    }
+
+    if (await accountManager.accountExists(accountAddress, chainId)) {
+      await accountManager.markAccountDeployed(accountAddress, chainId);
+      return '0x';
+    }
+
+    const { factory, factoryData } = await accountManager.getFactoryData(accountInfo.owner as Address, chainId);
+    return `${factory}${factoryData.slice(2)}` as Hex;
+  }
+
   /**
    * 预览交易（不签名、不发送）
    * 
    * 返回构造好的 UserOperation 以及估算费用，供前端展示
+   * 
+   * @param feeTier Gas 费档位（与发送时选择的档位一致）
+   * @param gasToken 支付 Gas 的 ERC-20 代币，设置时额外返回以代币计价的最大扣费
    */
   async previewTransaction(
     accountAddress: Address,
     chainId: number,
     target: Address,
     data: string,
-    value: bigint = BigInt(0)
+    value: bigint = BigInt(0),
+    feeTier?: FeeTier,
+    gasToken?: Address
   ): Promise<{
     userOp: UserOperation;
     estimatedFee: bigint;
+    tokenFee?: GasTokenFee;
   }> {
-    const userOp = await this.buildUserOperation(accountAddress, chainId, target, data, value);
+    let userOp: UserOperation;
+    let tokenFee: GasTokenFee | undefined;
+    if (gasToken) {
+      ({ userOp, tokenFee } = await this.buildGasTokenUserOperation(
+        accountAddress,
+        chainId,
+        [{ to: target, value, data }],
+        gasToken,
+        undefined,
+        feeTier
+      ));
+    } else {
+      userOp = await this.buildUserOperation(accountAddress, chainId, target, data, value, undefined, feeTier);
+    }
     const estimatedFee =
-      (userOp.callGasLimit + userOp.verificationGasLimit + userOp.preVerificationGas) *
+      (userOp.callGasLimit +
+        userOp.verificationGasLimit +
+        userOp.preVerificationGas +
+        (userOp.paymasterVerificationGasLimit ?? BigInt(0)) +
+        (userOp.paymasterPostOpGasLimit ?? BigInt(0))) *
       userOp.maxFeePerGas;
 
-    return { userOp, estimatedFee };
+    return { userOp, estimatedFee, tokenFee };
   }
 
   /**
@@ -244,8 +806,9 @@ export class TransactionRelayer {
     const chainConfig = requireChainConfig(chainId, ['entryPointAddress', 'rpcUrl']);
 
     // 1. 计算 UserOperation 哈希（EIP-712）
+    const version = resolveEntryPointVersion(chainConfig);
     const { getUserOpHash } = await import('@/utils/eip712');
-    getUserOpHash(userOp, chainConfig.entryPointAddress as `0x${string}`, chainId);
+    getUserOpHash(userOp, chainConfig.entryPointAddress as `0x${string}`, chainId, version);
 
     // 2. 使用 owner 私钥签名哈希（EIP-191）
     const { signUserOperation } = await import('@/utils/eip712');
@@ -254,7 +817,8 @@ export class TransactionRelayer {
       chainConfig.entryPointAddress as `0x${string}`,
       chainId,
       ownerPrivateKey,
-      chainConfig.rpcUrl
+      chainConfig.rpcUrl,
+      version
     );
 
     return {
@@ -263,25 +827,53 @@ export class TransactionRelayer {
     };
   }
 
+  /**
+   * 在 nonce 通道（及签名验证器的序列）上预留下一个 nonce
+   */
+  private async reserveNonce(accountAddress: Address, chainId: number, options?: RelayOptions): Promise<NonceReservation> {
+    return nonceManager.reserve({
+      chainId,
+      sender: accountAddress,
+      channel: options?.nonceChannel,
+      validator: options?.validator,
+      readOnChainNonce: (key) => this.getAccountNonce(accountAddress, chainId, key),
+    });
+  }
+
+  /**
+   * 交给生命周期跟踪服务，跟踪失败不影响已发送的交易
+   */
+  private async trackUserOperation(
+    userOp: UserOperation,
+    chainId: number,
+    userOpHash: Hash,
+    call: Pick<TrackUserOperationInput, 'to' | 'value' | 'data' | 'type' | 'gasPayment' | 'validator'>
+  ): Promise<void> {
+    try {
+      await userOperationTracker.track({
+        userOpHash,
+        chainId,
+        sender: userOp.sender,
+        nonce: userOp.nonce,
+        userOperation: userOp,
+        ...call,
+      });
+    } catch (error) {
+      console.warn('[TransactionRelayer] Failed to track UserOperation:', error);
+    }
+  }
+
   /**
    * 发送 UserOperation 到 Bundler
    * 
+   * 发送前先本地预检验证阶段（签名、押金、有效期），失败时直接抛出对应的 AA 错误；
    * 如果所有 Bundler 失败，会抛出 FallbackModeError，提示用户可以选择降级模式
    */
   private async sendToBundler(
     userOp: UserOperation,
-    bundlerUrl: string,
     chainId: number
   ): Promise<Hash> {
-    // 确保 bundler 注册并设置当前链
-    bundlerClient.ensureBundler({
-      url: bundlerUrl,
-      name: bundlerUrl,
-      priority: 1,
-      chainId,
-    });
-    bundlerClient.setBundler(bundlerUrl, chainId);
-    bundlerClient.setChainId(chainId);
+    await validationSimulationService.validate(userOp, chainId);
 
     try {
       return await bundlerClient.sendUserOperation(userOp, chainId);
@@ -294,7 +886,8 @@ export class TransactionRelayer {
         // 抛出降级模式错误，让 UI 层处理用户确认
         throw new FallbackModeError(
           '所有 Bundler 服务不可用。您可以选择自付 Gas 直接发送交易。',
-          estimatedGas
+          estimatedGas,
+          userOp.initCode !== '0x'
         );
       }
       throw error;
@@ -348,6 +941,9 @@ export class TransactionRelayer {
       userOp = await this.signUserOperation(userOp, chainId, ownerPrivateKey);
     }
 
+    // 直发 EntryPoint 验证失败会白白消耗自付的 Gas，同样先预检
+    await validationSimulationService.validate(userOp, chainId);
+
     // 使用降级模式发送
     return await bundlerClient.sendUserOperationDirectly(userOp, chainId, signerPrivateKey);
   }
@@ -356,8 +952,14 @@ export class TransactionRelayer {
    * 获取账户 nonce
    * 
    * 对于未部署的账户，返回 0
+   * 
+   * @param key nonce key（并行通道，见 NonceManager）
    */
-  private async getAccountNonce(accountAddress: Address, chainId: number): Promise<bigint> {
+  private async getAccountNonce(
+    accountAddress: Address,
+    chainId: number,
+    key: bigint = BigInt(0)
+  ): Promise<bigint> {
     const chainConfig = requireChainConfig(chainId, ['entryPointAddress', 'rpcUrl']);
 
     // 检查账户是否已部署
@@ -373,7 +975,8 @@ export class TransactionRelayer {
       return await getAccountNonce(
         chainConfig.entryPointAddress as Address,
         accountAddress,
-        chainConfig.rpcUrl
+        chainConfig.rpcUrl,
+        key
       );
     } catch (error) {
       // 如果获取失败，可能是账户未部署，返回 0
@@ -392,23 +995,20 @@ export class TransactionRelayer {
 
   /**
    * 估算 Gas
+   * 
+   * 带 initCode 时 Bundler 的估算已包含账户部署；降级估算需额外预留部署所需的验证 Gas
    */
   private async estimateGas(
     accountAddress: Address,
     chainId: number,
     callData: string,
-    userOp: Partial<UserOperation>,
-    bundlerUrl: string
-  ): Promise<{
-    callGasLimit: bigint;
-    verificationGasLimit: bigint;
-    preVerificationGas: bigint;
-  }> {
+    userOp: Partial<UserOperation>
+  ): Promise<UserOperationGasEstimate> {
     // 使用 Bundler 的 estimateUserOperationGas 方法
     const tempUserOp: UserOperation = {
       sender: accountAddress,
       nonce: userOp.nonce || BigInt(0),
-      initCode: '0x',
+      initCode: userOp.initCode || '0x',
       callData: callData as Hex,
       callGasLimit: BigInt(0),
       verificationGasLimit: BigInt(0),
@@ -420,24 +1020,21 @@ export class TransactionRelayer {
     };
 
     try {
-      bundlerClient.ensureBundler({
-        url: bundlerUrl,
-        name: bundlerUrl,
-        priority: 1,
-        chainId,
-      });
-      bundlerClient.setBundler(bundlerUrl, chainId);
-      bundlerClient.setChainId(chainId);
+      await bundlerClient.configureChain(chainId);
       return await bundlerClient.estimateUserOperationGas(tempUserOp, chainId);
     } catch (error) {
       console.warn('Gas estimation failed, using fallback estimation:', error);
       
       // 降级方案：智能估算
       const chainConfig = requireChainConfig(chainId);
+      const deploymentGas = tempUserOp.initCode !== '0x' ? ACCOUNT_DEPLOYMENT_VERIFICATION_GAS : BigInt(0);
 
       // 使用链配置的默认值（如果配置了）
       if (chainConfig.defaultGasLimits) {
-        return chainConfig.defaultGasLimits;
+        return {
+          ...chainConfig.defaultGasLimits,
+          verificationGasLimit: chainConfig.defaultGasLimits.verificationGasLimit + deploymentGas,
+        };
       }
 
       // 基于 callData 大小估算
@@ -455,7 +1052,7 @@ export class TransactionRelayer {
 
       return {
         callGasLimit,
-        verificationGasLimit: baseVerificationGas,
+        verificationGasLimit: baseVerificationGas + deploymentGas,
         preVerificationGas,
       };
     }
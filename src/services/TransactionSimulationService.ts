@@ -0,0 +1,479 @@
+/**
+ * 交易模拟服务
+ *
+ * 在签名前以 EntryPoint 身份对账户 execute / executeBatch 发起 eth_call（未部署账户通过
+ * state override 注入 Kernel 实现代码），得到执行结果与资产变化：
+ * - 优先使用 debug_traceCall（callTracer + withLog），从事件日志与调用帧中精确汇总资产变化
+ * - 节点不支持追踪时退化为 eth_call 判断是否回滚，资产变化按调用数据静态解析
+ *
+ * @module services/TransactionSimulationService
+ */
+
+import {
+  BaseError,
+  decodeAbiParameters,
+  decodeErrorResult,
+  decodeFunctionData,
+  hexToBigInt,
+  parseAbi,
+  parseAbiParameters,
+  type Address,
+  type Hex,
+} from 'viem';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { encodeExecuteBatchCallData, encodeExecuteCallData } from '@/utils/kernel';
+import { tokenService } from './TokenService';
+
+/**
+ * 待模拟的调用
+ */
+export interface SimulationCall {
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
+
+/**
+ * 资产变化（amount 为有符号值，负数表示转出）
+ */
+export interface AssetChange {
+  type: 'native' | 'erc20' | 'erc721' | 'erc1155';
+  /** 代币合约地址（原生代币为空） */
+  token?: Address;
+  tokenId?: string;
+  amount: bigint;
+  symbol?: string;
+  decimals?: number;
+}
+
+/**
+ * 本次交易授予的代币授权
+ */
+export interface ApprovalChange {
+  type: 'erc20' | 'erc721' | 'erc721-all';
+  token: Address;
+  spender: Address;
+  /** ERC-20 授权额度 */
+  amount?: bigint;
+  /** ERC-721 单个授权的 tokenId */
+  tokenId?: string;
+  /** setApprovalForAll 的授权状态 */
+  approved?: boolean;
+  /** 是否为无限额度 / 全部 NFT 授权 */
+  unlimited: boolean;
+}
+
+/**
+ * 模拟结果
+ */
+export interface TransactionSimulationResult {
+  success: boolean;
+  revertReason?: string;
+  assetChanges: AssetChange[];
+  approvals: ApprovalChange[];
+  /** 资产变化来源：trace 为执行追踪，calldata 为调用数据静态解析 */
+  source: 'trace' | 'calldata';
+}
+
+type CallFrame = {
+  from: Address;
+  to?: Address;
+  value?: Hex;
+  input?: Hex;
+  output?: Hex;
+  error?: string;
+  revertReason?: string;
+  calls?: CallFrame[];
+  logs?: Array<{ address: Address; topics: Hex[]; data: Hex }>;
+};
+
+const TOPICS = {
+  TRANSFER: '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+  TRANSFER_SINGLE: '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62',
+  TRANSFER_BATCH: '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb',
+  APPROVAL: '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925',
+  APPROVAL_FOR_ALL: '0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31',
+} as const;
+
+const TOKEN_CALL_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amountOrTokenId) returns (bool)',
+  'function approve(address spender, uint256 amountOrTokenId) returns (bool)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+]);
+
+const KERNEL_FACTORY_IMPLEMENTATION_ABI = parseAbi(['function implementation() view returns (address)']);
+const ERC165_ABI = parseAbi(['function supportsInterface(bytes4 interfaceId) view returns (bool)']);
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+
+/** 达到该值的 ERC-20 授权视为无限授权 */
+const UNLIMITED_APPROVAL_THRESHOLD = 2n ** 255n;
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function topicToAddress(topic: Hex): Address {
+  return `0x${topic.slice(-40)}` as Address;
+}
+
+export class TransactionSimulationService {
+  /**
+   * 模拟账户执行一组调用
+   *
+   * @param accountAddress 智能账户地址
+   * @param chainId 链 ID
+   * @param calls 调用列表（单个调用编码为 execute，多个编码为 executeBatch）
+   */
+  async simulate(
+    accountAddress: Address,
+    chainId: number,
+    calls: SimulationCall[]
+  ): Promise<TransactionSimulationResult> {
+    const chainConfig = requireChainConfig(chainId, ['entryPointAddress', 'rpcUrl']);
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    const entryPoint = chainConfig.entryPointAddress as Address;
+
+    const callData =
+      calls.length === 1
+        ? encodeExecuteCallData(calls[0].to, calls[0].value, calls[0].data)
+        : encodeExecuteBatchCallData(
+            calls.map((call) => call.to),
+            calls.map((call) => call.value),
+            calls.map((call) => call.data)
+          );
+
+    const accountCode = await publicClient.getCode({ address: accountAddress });
+    const overrideCode =
+      accountCode && accountCode !== '0x'
+        ? undefined
+        : await this.getKernelImplementationCode(chainId, chainConfig.kernelFactoryAddress as Address | undefined);
+
+    const trace = await this.traceCall(chainId, entryPoint, accountAddress, callData, overrideCode);
+    if (trace) {
+      const failed = trace.error !== undefined;
+      const result = failed
+        ? { assetChanges: [], approvals: [] }
+        : this.collectFromTrace(trace, accountAddress);
+      return this.withTokenMetadata(chainId, {
+        success: !failed,
+        revertReason: failed ? this.getTraceRevertReason(trace) : undefined,
+        ...result,
+        source: 'trace',
+      });
+    }
+
+    let revertReason: string | undefined;
+    try {
+      await publicClient.call({
+        account: entryPoint,
+        to: accountAddress,
+        data: callData,
+        stateOverride: overrideCode ? [{ address: accountAddress, code: overrideCode }] : undefined,
+      });
+    } catch (error) {
+      revertReason = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : 'Execution reverted';
+    }
+
+    const decoded = await this.collectFromCalldata(chainId, accountAddress, calls);
+    return this.withTokenMetadata(chainId, {
+      success: revertReason === undefined,
+      revertReason,
+      ...decoded,
+      source: 'calldata',
+    });
+  }
+
+  /**
+   * 读取 Kernel 实现合约代码（用于未部署账户的 state override）
+   */
+  private async getKernelImplementationCode(chainId: number, factoryAddress?: Address): Promise<Hex | undefined> {
+    if (!factoryAddress) {
+      return undefined;
+    }
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    try {
+      const implementation = await publicClient.readContract({
+        address: factoryAddress,
+        abi: KERNEL_FACTORY_IMPLEMENTATION_ABI,
+        functionName: 'implementation',
+      });
+      const code = await publicClient.getCode({ address: implementation });
+      return code && code !== '0x' ? code : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * debug_traceCall（节点不支持时返回 null）
+   */
+  private async traceCall(
+    chainId: number,
+    from: Address,
+    to: Address,
+    data: Hex,
+    overrideCode?: Hex
+  ): Promise<CallFrame | null> {
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    try {
+      const trace = await publicClient.request({
+        method: 'debug_traceCall',
+        params: [
+          { from, to, data },
+          'latest',
+          {
+            tracer: 'callTracer',
+            tracerConfig: { withLog: true },
+            ...(overrideCode ? { stateOverrides: { [to]: { code: overrideCode } } } : {}),
+          },
+        ],
+      } as never);
+      return trace && typeof trace === 'object' ? (trace as CallFrame) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getTraceRevertReason(trace: CallFrame): string {
+    if (trace.revertReason) {
+      return trace.revertReason;
+    }
+    if (trace.output && trace.output !== '0x') {
+      try {
+        const decoded = decodeErrorResult({ abi: [], data: trace.output });
+        return decoded.args?.length ? `${decoded.errorName}: ${String(decoded.args[0])}` : decoded.errorName;
+      } catch {
+        return `${trace.error}: ${trace.output.slice(0, 10)}`;
+      }
+    }
+    return trace.error || 'Execution reverted';
+  }
+
+  /**
+   * 从调用帧与事件日志汇总资产变化和授权
+   */
+  private collectFromTrace(
+    root: CallFrame,
+    account: Address
+  ): Pick<TransactionSimulationResult, 'assetChanges' | 'approvals'> {
+    const changes = new Map<string, AssetChange>();
+    const approvals: ApprovalChange[] = [];
+
+    const visit = (frame: CallFrame) => {
+      if (frame.error !== undefined) {
+        return;
+      }
+
+      const value = frame.value ? hexToBigInt(frame.value) : 0n;
+      if (value > 0n) {
+        if (sameAddress(frame.from, account)) this.addChange(changes, { type: 'native', amount: -value });
+        if (sameAddress(frame.to, account)) this.addChange(changes, { type: 'native', amount: value });
+      }
+
+      for (const log of frame.logs || []) {
+        this.applyLog(changes, approvals, account, log);
+      }
+      frame.calls?.forEach(visit);
+    };
+    visit(root);
+
+    return { assetChanges: Array.from(changes.values()).filter((change) => change.amount !== 0n), approvals };
+  }
+
+  private applyLog(
+    changes: Map<string, AssetChange>,
+    approvals: ApprovalChange[],
+    account: Address,
+    log: { address: Address; topics: Hex[]; data: Hex }
+  ): void {
+    const [topic0, topic1, topic2, topic3] = log.topics;
+    const token = log.address;
+
+    if (topic0 === TOPICS.TRANSFER && topic1 && topic2) {
+      const from = topicToAddress(topic1);
+      const to = topicToAddress(topic2);
+      // ERC-721 的 tokenId 为 indexed 参数，ERC-20 金额在 data 中
+      const change: Omit<AssetChange, 'amount'> = topic3
+        ? { type: 'erc721', token, tokenId: hexToBigInt(topic3).toString() }
+        : { type: 'erc20', token };
+      const amount = topic3 ? 1n : hexToBigInt(log.data);
+      if (sameAddress(from, account)) this.addChange(changes, { ...change, amount: -amount });
+      if (sameAddress(to, account)) this.addChange(changes, { ...change, amount });
+      return;
+    }
+
+    if ((topic0 === TOPICS.TRANSFER_SINGLE || topic0 === TOPICS.TRANSFER_BATCH) && topic2 && topic3) {
+      const from = topicToAddress(topic2);
+      const to = topicToAddress(topic3);
+      let entries: Array<readonly [bigint, bigint]>;
+      if (topic0 === TOPICS.TRANSFER_SINGLE) {
+        entries = [decodeAbiParameters(parseAbiParameters('uint256, uint256'), log.data)];
+      } else {
+        const [ids, amounts] = decodeAbiParameters(parseAbiParameters('uint256[], uint256[]'), log.data);
+        entries = ids.map((id, index) => [id, amounts[index]] as const);
+      }
+      for (const [id, amount] of entries) {
+        const change = { type: 'erc1155' as const, token, tokenId: id.toString() };
+        if (sameAddress(from, account)) this.addChange(changes, { ...change, amount: -amount });
+        if (sameAddress(to, account)) this.addChange(changes, { ...change, amount });
+      }
+      return;
+    }
+
+    if (topic0 === TOPICS.APPROVAL && topic1 && topic2 && sameAddress(topicToAddress(topic1), account)) {
+      const spender = topicToAddress(topic2);
+      if (topic3) {
+        approvals.push({ type: 'erc721', token, spender, tokenId: hexToBigInt(topic3).toString(), unlimited: false });
+      } else {
+        const amount = hexToBigInt(log.data);
+        approvals.push({ type: 'erc20', token, spender, amount, unlimited: amount >= UNLIMITED_APPROVAL_THRESHOLD });
+      }
+      return;
+    }
+
+    if (topic0 === TOPICS.APPROVAL_FOR_ALL && topic1 && topic2 && sameAddress(topicToAddress(topic1), account)) {
+      const approved = hexToBigInt(log.data) !== 0n;
+      approvals.push({ type: 'erc721-all', token, spender: topicToAddress(topic2), approved, unlimited: approved });
+    }
+  }
+
+  /**
+   * 按调用数据静态解析资产变化（节点不支持追踪时使用）
+   */
+  private async collectFromCalldata(
+    chainId: number,
+    account: Address,
+    calls: SimulationCall[]
+  ): Promise<Pick<TransactionSimulationResult, 'assetChanges' | 'approvals'>> {
+    const changes = new Map<string, AssetChange>();
+    const approvals: ApprovalChange[] = [];
+
+    for (const call of calls) {
+      if (call.value > 0n && !sameAddress(call.to, account)) {
+        this.addChange(changes, { type: 'native', amount: -call.value });
+      }
+
+      let decoded: ReturnType<typeof decodeFunctionData<typeof TOKEN_CALL_ABI>>;
+      try {
+        decoded = decodeFunctionData({ abi: TOKEN_CALL_ABI, data: call.data });
+      } catch {
+        continue;
+      }
+
+      const token = call.to;
+      switch (decoded.functionName) {
+        case 'transfer':
+          this.addChange(changes, { type: 'erc20', token, amount: -decoded.args[1] });
+          break;
+        case 'transferFrom': {
+          const [from, to, amountOrTokenId] = decoded.args;
+          const change: Omit<AssetChange, 'amount'> = (await this.isErc721(chainId, token))
+            ? { type: 'erc721', token, tokenId: amountOrTokenId.toString() }
+            : { type: 'erc20', token };
+          const amount = change.type === 'erc721' ? 1n : amountOrTokenId;
+          if (sameAddress(from, account)) this.addChange(changes, { ...change, amount: -amount });
+          if (sameAddress(to, account)) this.addChange(changes, { ...change, amount });
+          break;
+        }
+        case 'safeTransferFrom': {
+          const [from, to, id] = decoded.args;
+          const change =
+            decoded.args.length === 5
+              ? { type: 'erc1155' as const, token, tokenId: id.toString(), amount: decoded.args[3] }
+              : { type: 'erc721' as const, token, tokenId: id.toString(), amount: 1n };
+          if (sameAddress(from, account)) this.addChange(changes, { ...change, amount: -change.amount });
+          if (sameAddress(to, account)) this.addChange(changes, change);
+          break;
+        }
+        case 'safeBatchTransferFrom': {
+          const [from, to, ids, amounts] = decoded.args;
+          ids.forEach((id, index) => {
+            const change = { type: 'erc1155' as const, token, tokenId: id.toString() };
+            if (sameAddress(from, account)) this.addChange(changes, { ...change, amount: -amounts[index] });
+            if (sameAddress(to, account)) this.addChange(changes, { ...change, amount: amounts[index] });
+          });
+          break;
+        }
+        case 'approve': {
+          const [spender, amountOrTokenId] = decoded.args;
+          if (await this.isErc721(chainId, token)) {
+            approvals.push({ type: 'erc721', token, spender, tokenId: amountOrTokenId.toString(), unlimited: false });
+          } else {
+            approvals.push({
+              type: 'erc20',
+              token,
+              spender,
+              amount: amountOrTokenId,
+              unlimited: amountOrTokenId >= UNLIMITED_APPROVAL_THRESHOLD,
+            });
+          }
+          break;
+        }
+        case 'setApprovalForAll': {
+          const [operator, approved] = decoded.args;
+          approvals.push({ type: 'erc721-all', token, spender: operator, approved, unlimited: approved });
+          break;
+        }
+      }
+    }
+
+    return { assetChanges: Array.from(changes.values()).filter((change) => change.amount !== 0n), approvals };
+  }
+
+  /**
+   * transferFrom / approve 在 ERC-20 与 ERC-721 中选择器相同，通过 ERC-165 区分
+   */
+  private async isErc721(chainId: number, token: Address): Promise<boolean> {
+    try {
+      return await rpcClientManager.getPublicClient(chainId).readContract({
+        address: token,
+        abi: ERC165_ABI,
+        functionName: 'supportsInterface',
+        args: [ERC721_INTERFACE_ID],
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  private addChange(changes: Map<string, AssetChange>, change: AssetChange): void {
+    const key = `${change.type}:${change.token?.toLowerCase() ?? ''}:${change.tokenId ?? ''}`;
+    const existing = changes.get(key);
+    if (existing) {
+      existing.amount += change.amount;
+    } else {
+      changes.set(key, { ...change });
+    }
+  }
+
+  /**
+   * 补充 ERC-20 的 symbol / decimals（读取失败时保持原样）
+   */
+  private async withTokenMetadata(
+    chainId: number,
+    result: TransactionSimulationResult
+  ): Promise<TransactionSimulationResult> {
+    await Promise.all(
+      result.assetChanges
+        .filter((change) => change.type === 'erc20' && change.token)
+        .map(async (change) => {
+          try {
+            const info = await tokenService.fetchTokenInfo(change.token!, chainId);
+            change.symbol = info.symbol;
+            change.decimals = info.decimals;
+          } catch {
+            // 非标准代币，按原始数量展示
+          }
+        })
+    );
+    return result;
+  }
+}
+
+export const transactionSimulationService = new TransactionSimulationService();
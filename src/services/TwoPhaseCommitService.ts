@@ -17,6 +17,9 @@ import { rpcClientManager } from '@/utils/RpcClientManager';
 import { requireChainConfig } from '@/utils/chainConfigValidation';
 import { getAccountOwnerPrivateKey } from '@/utils/getPrivateKey';
 
+/** 揭示交易使用独立的 nonce 通道，避免被同时发起的其它交易阻塞 */
+const TWO_PHASE_COMMIT_NONCE_CHANNEL = 'two-phase-commit';
+
 /**
  * 两阶段提交合约标准 ABI
  * 
@@ -338,7 +341,10 @@ export class TwoPhaseCommitService {
         task.chainId,
         task.contractAddress as Address,
         callData,
-        signerPrivateKey
+        signerPrivateKey,
+        BigInt(0),
+        undefined,
+        { nonceChannel: TWO_PHASE_COMMIT_NONCE_CHANNEL }
       );
 
       // 更新任务状态
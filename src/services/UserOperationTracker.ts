@@ -0,0 +1,479 @@
+/**
+ * UserOperation 生命周期跟踪服务
+ *
+ * 发送到 Bundler 后持续轮询操作状态，直到得出最终结果：
+ * - eth_getUserOperationReceipt：已上链，记录打包交易、区块、实际 Gas 费用与执行结果
+ * - eth_getUserOperationByHash：已被打包但回执尚未就绪（included），或仍在内存池
+ * - 多次查询 Bundler 均不认识该操作：视为被丢弃（dropped）
+ * - 超过跟踪时限仍未上链：超时（timeout）
+ * - 以相同 nonce 加速或取消后，原操作标记为 replaced，由新操作继续跟踪；
+ *   若最终上链的是被替换的旧操作，以其回执作为结果
+ * - 携带 initCode 的操作上链后，将随之部署的反事实账户标记为已部署
+ *
+ * 状态变化会同步到交易历史，并以 `walletOp:<status>` 事件广播，
+ * 供全局消息与 wallet_watchTx 等消费方使用；未结束的操作持久化，页面重新加载后继续跟踪
+ *
+ * @module services/UserOperationTracker
+ */
+
+import { type Address, type Hash, type Hex } from 'viem';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey, type Transaction, type UserOperation } from '@/types';
+import { bundlerClient } from './BundlerClient';
+import { accountManager } from './AccountManager';
+import { transactionHistoryService, type TransactionHistory } from './TransactionHistoryService';
+import type { UserOperationReceipt } from './TransactionRelayer';
+
+export type UserOperationLifecycleStatus =
+  | 'submitted'
+  | 'included'
+  | 'confirmed'
+  | 'failed'
+  | 'dropped'
+  | 'timeout'
+  | 'replaced';
+
+/**
+ * 替换操作类型：speedUp 提高 Gas 费重发，cancel 以空调用占用同一 nonce
+ */
+export type UserOperationReplacementKind = 'speedUp' | 'cancel';
+
+/**
+ * 以 ERC-20 代币支付 Gas 的操作信息
+ *
+ * 代币扣费上限与授权额度随 Gas 费变化，替换时需按业务调用重新构造
+ */
+export interface GasTokenPayment {
+  token: Address;
+  /** 业务调用（不含随操作附带的 approve） */
+  calls: Transaction[];
+}
+
+/**
+ * 被跟踪的 UserOperation
+ */
+export interface TrackedUserOperation {
+  userOpHash: Hash;
+  chainId: number;
+  sender: Address;
+  nonce: bigint;
+  /** 交易历史中记录的调用目标 */
+  to?: Address;
+  /** 签名所用的非根验证器（如会话密钥），根验证签名时为空 */
+  validator?: Address;
+  status: UserOperationLifecycleStatus;
+  submittedAt: number;
+  updatedAt: number;
+  /** 打包该操作的链上交易 */
+  bundleTxHash?: Hash;
+  blockNumber?: number;
+  actualGasCost?: bigint;
+  actualGasUsed?: bigint;
+  /** 执行回滚或被丢弃的原因 */
+  reason?: string;
+  /** 连续未被 Bundler 识别的次数 */
+  missingChecks: number;
+  /** 已签名的 UserOperation（加速 / 取消时以其为基础重新签名） */
+  userOperation?: UserOperation;
+  /** 以代币支付 Gas 时的代币与业务调用 */
+  gasPayment?: GasTokenPayment;
+  /** 本操作是对旧操作的加速或取消 */
+  replacement?: UserOperationReplacementKind;
+  /** 被本操作替换的旧 userOpHash（按替换先后排列） */
+  replaces?: Hash[];
+  /** 替换本操作的新 userOpHash */
+  replacedBy?: Hash;
+  /** 最终上链的 userOpHash（可能是被替换的旧操作） */
+  minedUserOpHash?: Hash;
+}
+
+/**
+ * 开始跟踪时提供的信息（用于补全交易历史）
+ */
+export interface TrackUserOperationInput {
+  userOpHash: Hash;
+  chainId: number;
+  sender: Address;
+  nonce: bigint;
+  to: Address;
+  value?: bigint;
+  data?: Hex;
+  type?: TransactionHistory['type'];
+  userOperation?: UserOperation;
+  gasPayment?: GasTokenPayment;
+  validator?: Address;
+  /** 被替换的旧 userOpHash（加速 / 取消时提供） */
+  replaces?: Hash;
+  replacement?: UserOperationReplacementKind;
+}
+
+export type UserOperationListener = (operation: TrackedUserOperation) => void;
+
+/** 事件名前缀，完整事件名为 `walletOp:<status>` */
+export const WALLET_OP_EVENT_PREFIX = 'walletOp:';
+
+const FINAL_STATUSES: ReadonlySet<UserOperationLifecycleStatus> = new Set([
+  'confirmed',
+  'failed',
+  'dropped',
+  'timeout',
+  'replaced',
+]);
+
+const HISTORY_STATUS: Record<UserOperationLifecycleStatus, TransactionHistory['status']> = {
+  submitted: 'pending',
+  included: 'pending',
+  confirmed: 'success',
+  failed: 'failed',
+  dropped: 'dropped',
+  timeout: 'timeout',
+  replaced: 'pending',
+};
+
+const POLL_INTERVAL_MS = 5_000;
+/** 连续未识别达到该次数、且提交超过宽限期后判定为丢弃 */
+const DROP_MISSING_CHECKS = 3;
+const DROP_GRACE_MS = 60_000;
+/** 超过该时长仍未上链时停止跟踪 */
+const TRACK_TIMEOUT_MS = 30 * 60_000;
+/** 已结束的操作保留数量（供 wallet_watchTx 查询） */
+const MAX_FINISHED_OPERATIONS = 50;
+
+export function isFinalUserOperationStatus(status: UserOperationLifecycleStatus): boolean {
+  return FINAL_STATUSES.has(status);
+}
+
+export class UserOperationTracker {
+  private operations = new Map<string, TrackedUserOperation>();
+  private listeners = new Set<UserOperationListener>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  /**
+   * 初始化，恢复上次未结束的跟踪
+   */
+  async init(): Promise<void> {
+    const stored = (await storageAdapter.get<TrackedUserOperation[]>(StorageKey.USER_OPERATION_TRACKER)) || [];
+    stored.forEach((operation) => {
+      this.operations.set(operation.userOpHash.toLowerCase(), operation);
+    });
+    this.ensurePolling();
+  }
+
+  /**
+   * 开始跟踪已发送到 Bundler 的 UserOperation
+   *
+   * 提供 replaces 时，旧操作标记为 replaced，交易历史中的记录改由新操作承接
+   */
+  async track(input: TrackUserOperationInput): Promise<TrackedUserOperation> {
+    const now = Date.now();
+    const previous = input.replaces ? this.getOperation(input.replaces) : null;
+    const operation: TrackedUserOperation = {
+      userOpHash: input.userOpHash,
+      chainId: input.chainId,
+      sender: input.sender,
+      nonce: input.nonce,
+      to: input.to,
+      validator: input.validator,
+      status: 'submitted',
+      submittedAt: now,
+      updatedAt: now,
+      missingChecks: 0,
+      userOperation: input.userOperation,
+      gasPayment: input.gasPayment,
+      replacement: input.replacement,
+      replaces: previous ? [...(previous.replaces ?? []), previous.userOpHash] : undefined,
+    };
+    this.operations.set(input.userOpHash.toLowerCase(), operation);
+
+    const replacedInHistory =
+      !!previous &&
+      (await transactionHistoryService.replaceTransaction(previous.userOpHash, input.userOpHash, input.replacement));
+    if (!replacedInHistory && !(await transactionHistoryService.getTransaction(input.userOpHash))) {
+      await transactionHistoryService.addTransaction({
+        hash: input.userOpHash,
+        chainId: input.chainId,
+        from: input.sender,
+        to: input.to,
+        value: input.value ?? 0n,
+        status: 'pending',
+        timestamp: now,
+        data: input.data,
+        type: input.type,
+        replacement: input.replacement,
+      });
+    }
+
+    if (previous) {
+      Object.assign(previous, { status: 'replaced', replacedBy: input.userOpHash, updatedAt: now });
+    }
+    await this.save();
+    if (previous) {
+      this.emit(previous);
+    }
+    this.emit(operation);
+    this.ensurePolling();
+    return operation;
+  }
+
+  /**
+   * 获取被跟踪的 UserOperation
+   */
+  getOperation(userOpHash: string): TrackedUserOperation | null {
+    return this.operations.get(userOpHash.toLowerCase()) ?? null;
+  }
+
+  /**
+   * 获取替换链上最新的 UserOperation（未被替换时返回自身）
+   */
+  getLatestOperation(userOpHash: string): TrackedUserOperation | null {
+    let operation = this.getOperation(userOpHash);
+    while (operation?.replacedBy) {
+      const next = this.getOperation(operation.replacedBy);
+      if (!next) {
+        break;
+      }
+      operation = next;
+    }
+    return operation;
+  }
+
+  /**
+   * 获取尚未结束的 UserOperation
+   */
+  getPendingOperations(): TrackedUserOperation[] {
+    return Array.from(this.operations.values()).filter((operation) => !isFinalUserOperationStatus(operation.status));
+  }
+
+  /**
+   * 订阅状态变化
+   *
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: UserOperationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 等待 UserOperation 结束（confirmed / failed / dropped / timeout）
+   *
+   * 操作被替换时继续等待替换链上的最新操作；
+   * 未被跟踪的哈希返回 null，等待超过 timeoutMs 时返回当前状态
+   */
+  async waitForFinalStatus(userOpHash: string, timeoutMs: number): Promise<TrackedUserOperation | null> {
+    const current = this.getLatestOperation(userOpHash);
+    if (!current || isFinalUserOperationStatus(current.status)) {
+      return current;
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(this.getLatestOperation(userOpHash));
+      }, timeoutMs);
+      const unsubscribe = this.subscribe(() => {
+        const latest = this.getLatestOperation(userOpHash);
+        if (latest && isFinalUserOperationStatus(latest.status)) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve({ ...latest });
+        }
+      });
+    });
+  }
+
+  /**
+   * 检查全部未结束的 UserOperation（轮询时调用）
+   */
+  async checkPending(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const operation of this.getPendingOperations()) {
+        await this.checkOperation(operation);
+      }
+    } finally {
+      this.polling = false;
+      if (this.getPendingOperations().length === 0) {
+        this.stopPolling();
+      }
+    }
+  }
+
+  /**
+   * 带 initCode 的操作上链即完成账户部署（执行阶段回滚不影响部署），同步本地账户状态
+   */
+  private async syncAccountDeployment(operation: TrackedUserOperation): Promise<void> {
+    const initCode = operation.userOperation?.initCode;
+    if (!initCode || initCode === '0x') {
+      return;
+    }
+    try {
+      await accountManager.markAccountDeployed(operation.sender, operation.chainId);
+    } catch (error) {
+      console.warn('[UserOperationTracker] Failed to mark account deployed:', error);
+    }
+  }
+
+  private async checkOperation(operation: TrackedUserOperation): Promise<void> {
+    try {
+      if (bundlerClient.getBundlerStatus(operation.chainId).length === 0) {
+        await bundlerClient.configureChain(operation.chainId);
+      }
+
+      const receipt = await this.findReceipt(operation);
+      if (receipt) {
+        await this.update(operation, {
+          status: receipt.success ? 'confirmed' : 'failed',
+          bundleTxHash: receipt.receipt.transactionHash,
+          blockNumber: Number(BigInt(receipt.receipt.blockNumber)),
+          actualGasCost: BigInt(receipt.actualGasCost),
+          actualGasUsed: BigInt(receipt.actualGasUsed),
+          reason: receipt.success ? undefined : receipt.reason || 'UserOperation execution reverted',
+          minedUserOpHash: receipt.userOpHash,
+          missingChecks: 0,
+        });
+        await this.syncAccountDeployment(operation);
+        return;
+      }
+
+      const found = await bundlerClient.getUserOperationByHash(operation.userOpHash, operation.chainId);
+      if (found?.transactionHash) {
+        if (operation.status !== 'included') {
+          await this.update(operation, {
+            status: 'included',
+            bundleTxHash: found.transactionHash,
+            blockNumber: found.blockNumber ? Number(BigInt(found.blockNumber)) : undefined,
+            missingChecks: 0,
+          });
+        }
+      } else if (found) {
+        operation.missingChecks = 0;
+      } else {
+        operation.missingChecks += 1;
+        if (
+          operation.status === 'submitted' &&
+          operation.missingChecks >= DROP_MISSING_CHECKS &&
+          Date.now() - operation.submittedAt >= DROP_GRACE_MS
+        ) {
+          await this.update(operation, {
+            status: 'dropped',
+            reason: 'UserOperation was dropped by the bundler',
+          });
+          return;
+        }
+      }
+    } catch (error) {
+      // 网络或 Bundler 故障时保持原状态，下一轮重试
+      console.warn(`[UserOperationTracker] Failed to check ${operation.userOpHash}:`, error);
+    }
+
+    if (Date.now() - operation.submittedAt >= TRACK_TIMEOUT_MS) {
+      await this.update(operation, {
+        status: 'timeout',
+        reason: 'UserOperation was not included before the tracking timeout',
+      });
+    }
+  }
+
+  /**
+   * 查询本操作的回执；替换操作尚未上链时，检查被替换的旧操作是否已抢先上链
+   */
+  private async findReceipt(operation: TrackedUserOperation): Promise<UserOperationReceipt | null> {
+    for (const userOpHash of [operation.userOpHash, ...[...(operation.replaces ?? [])].reverse()]) {
+      const receipt = (await bundlerClient.getUserOperationReceipt(userOpHash, operation.chainId)) as
+        | UserOperationReceipt
+        | null;
+      if (receipt) {
+        return { ...receipt, userOpHash };
+      }
+    }
+    return null;
+  }
+
+  private toHistoryStatus(operation: TrackedUserOperation): TransactionHistory['status'] {
+    // 取消操作本身上链成功即表示原交易已取消
+    if (
+      operation.replacement === 'cancel' &&
+      operation.status === 'confirmed' &&
+      operation.minedUserOpHash?.toLowerCase() === operation.userOpHash.toLowerCase()
+    ) {
+      return 'cancelled';
+    }
+    return HISTORY_STATUS[operation.status];
+  }
+
+  private async update(operation: TrackedUserOperation, changes: Partial<TrackedUserOperation>): Promise<void> {
+    Object.assign(operation, changes, { updatedAt: Date.now() });
+    await transactionHistoryService.updateTransactionStatus(
+      operation.userOpHash,
+      this.toHistoryStatus(operation),
+      operation.blockNumber,
+      operation.actualGasUsed,
+      {
+        bundleTxHash: operation.bundleTxHash,
+        actualGasCost: operation.actualGasCost,
+        failureReason: operation.reason,
+      }
+    );
+    await this.save();
+    this.emit(operation);
+  }
+
+  private emit(operation: TrackedUserOperation): void {
+    const snapshot = { ...operation };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('[UserOperationTracker] Listener error:', error);
+      }
+    });
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(
+        new CustomEvent<TrackedUserOperation>(`${WALLET_OP_EVENT_PREFIX}${operation.status}`, {
+          detail: snapshot,
+        })
+      );
+    }
+  }
+
+  private ensurePolling(): void {
+    if (this.pollTimer || this.getPendingOperations().length === 0) {
+      return;
+    }
+    this.pollTimer = setInterval(() => {
+      void this.checkPending();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * 保存未结束的操作与最近结束的操作
+   */
+  private async save(): Promise<void> {
+    const all = Array.from(this.operations.values());
+    const finished = all
+      .filter((operation) => isFinalUserOperationStatus(operation.status))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    finished.slice(MAX_FINISHED_OPERATIONS).forEach((operation) => {
+      this.operations.delete(operation.userOpHash.toLowerCase());
+    });
+
+    await storageAdapter.set(StorageKey.USER_OPERATION_TRACKER, Array.from(this.operations.values()));
+  }
+}
+
+export const userOperationTracker = new UserOperationTracker();
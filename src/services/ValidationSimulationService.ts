@@ -0,0 +1,313 @@
+/**
+ * UserOperation 预检服务
+ *
+ * 签名后、提交 Bundler 前在本地模拟验证阶段，提前发现签名、验证器、押金与有效期问题：
+ * - EntryPoint v0.6：直接 eth_call `simulateValidation`，从 ValidationResult / FailedOp 回滚中读取结果
+ * - EntryPoint v0.7：链上 EntryPoint 已移除 simulateValidation，改为以 EntryPoint 身份 eth_call
+ *   账户 `validateUserOp` 与 Paymaster `validatePaymasterUserOp`，并读取押金 / 余额核对最大费用
+ *   （未部署账户在部署前无法调用 validateUserOp，只核对资金与 Paymaster）
+ *
+ * 预检失败以与 Bundler 相同的 AA 错误码抛出 WalletError（见 utils/errors）；
+ * 节点不可用等基础设施问题不阻止发送，交由 Bundler 校验
+ *
+ * @module services/ValidationSimulationService
+ */
+
+import {
+  decodeErrorResult,
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  type Address,
+  type Hex,
+} from 'viem';
+import { entryPoint06Abi } from 'viem/account-abstraction';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { requireChainConfig } from '@/utils/chainConfigValidation';
+import { getUserOpHash } from '@/utils/eip712';
+import { ErrorCode, ErrorHandler, WalletError } from '@/utils/errors';
+import type { EntryPointVersion, UserOperation } from '@/utils/kernel-types';
+import { resolveEntryPointVersion, splitPaymasterAndData, toPackedUserOperation } from '@/utils/userOperation';
+import { getRevertData } from '@/utils/userOperationErrors';
+
+/**
+ * 验证阶段返回的 validationData（ERC-4337）
+ */
+export interface ValidationData {
+  sigFailed: boolean;
+  /** 生效时间（秒），0 表示立即生效 */
+  validAfter: number;
+  /** 过期时间（秒），0 表示不过期 */
+  validUntil: number;
+}
+
+/**
+ * 预检结果
+ */
+export interface ValidationSimulationResult {
+  entryPointVersion: EntryPointVersion;
+  /** 账户验证结果（v0.7 未部署账户为 undefined） */
+  account?: ValidationData;
+  /** Paymaster 验证结果（未使用 Paymaster 时为 undefined） */
+  paymaster?: ValidationData;
+  /** 验证通过所需的最大预付费用 */
+  requiredPrefund: bigint;
+}
+
+const PACKED_USER_OPERATION_TUPLE =
+  '(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)';
+
+const VALIDATION_V07_ABI = parseAbi([
+  `function validateUserOp(${PACKED_USER_OPERATION_TUPLE} userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256 validationData)`,
+  `function validatePaymasterUserOp(${PACKED_USER_OPERATION_TUPLE} userOp, bytes32 userOpHash, uint256 maxCost) returns (bytes context, uint256 validationData)`,
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+/** validUntil 至少保留的剩余时间，覆盖 Bundler 打包上链的延迟 */
+const VALIDITY_MARGIN_SECONDS = 30;
+
+const UINT48_MASK = (BigInt(1) << BigInt(48)) - BigInt(1);
+const ADDRESS_MASK = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+/**
+ * 解析 validationData：低 160 位为 aggregator（1 表示签名失败），其后依次为 validUntil、validAfter
+ */
+export function parseValidationData(validationData: bigint): ValidationData {
+  return {
+    sigFailed: (validationData & ADDRESS_MASK) === BigInt(1),
+    validUntil: Number((validationData >> BigInt(160)) & UINT48_MASK),
+    validAfter: Number((validationData >> BigInt(208)) & UINT48_MASK),
+  };
+}
+
+/**
+ * 以 EntryPoint 的 AA 错误文案创建 WalletError，与 Bundler 返回的错误使用同一映射
+ */
+function validationError(reason: string, cause?: unknown): WalletError {
+  const error = cause === undefined ? new Error(reason) : Object.assign(new Error(reason), { cause });
+  return ErrorHandler.fromUserOperationError(error) ?? new WalletError(reason, ErrorCode.ACCOUNT_VALIDATION_FAILED, error);
+}
+
+/**
+ * 是否为合约回滚（而非节点 / 网络错误）
+ */
+function isRevert(error: unknown): boolean {
+  if (getRevertData(error)) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /revert/i.test(message);
+}
+
+export class ValidationSimulationService {
+  /**
+   * 预检已签名的 UserOperation
+   *
+   * 验证失败时抛出 WalletError；无法完成模拟（节点不支持、网络错误）时返回 null
+   */
+  async validate(userOp: UserOperation, chainId: number): Promise<ValidationSimulationResult | null> {
+    const chainConfig = requireChainConfig(chainId, ['entryPointAddress']);
+    const entryPoint = chainConfig.entryPointAddress as Address;
+    const version = resolveEntryPointVersion(chainConfig);
+
+    let result: ValidationSimulationResult;
+    try {
+      result =
+        version === '0.6'
+          ? await this.simulateV06(userOp, chainId, entryPoint)
+          : await this.simulateV07(userOp, chainId, entryPoint);
+    } catch (error) {
+      if (error instanceof WalletError) {
+        throw error;
+      }
+      console.warn('[ValidationSimulationService] Pre-flight validation unavailable, skipping:', error);
+      return null;
+    }
+
+    this.assertValidationData(result.account, 'AA24 signature error', 'AA22 expired or not due');
+    this.assertValidationData(result.paymaster, 'AA34 signature error', 'AA32 paymaster expired or not due');
+    return result;
+  }
+
+  /**
+   * EntryPoint v0.6：simulateValidation 总是回滚，成功时为 ValidationResult，失败时为 FailedOp
+   *
+   * 预付资金与 Paymaster 押金由 EntryPoint 自身检查（AA21 / AA31）
+   */
+  private async simulateV06(
+    userOp: UserOperation,
+    chainId: number,
+    entryPoint: Address
+  ): Promise<ValidationSimulationResult> {
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    const data = encodeFunctionData({
+      abi: entryPoint06Abi,
+      functionName: 'simulateValidation',
+      args: [
+        {
+          sender: userOp.sender,
+          nonce: userOp.nonce,
+          initCode: userOp.initCode,
+          callData: userOp.callData,
+          callGasLimit: userOp.callGasLimit,
+          verificationGasLimit: userOp.verificationGasLimit,
+          preVerificationGas: userOp.preVerificationGas,
+          maxFeePerGas: userOp.maxFeePerGas,
+          maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+          paymasterAndData: userOp.paymasterAndData,
+          signature: userOp.signature,
+        },
+      ],
+    });
+
+    let revertData: Hex | undefined;
+    try {
+      await publicClient.call({ to: entryPoint, data });
+    } catch (error) {
+      revertData = getRevertData(error);
+      if (!revertData) {
+        throw error;
+      }
+    }
+    if (!revertData) {
+      throw new Error('simulateValidation returned without ValidationResult');
+    }
+
+    let decoded;
+    try {
+      decoded = decodeErrorResult({ abi: entryPoint06Abi, data: revertData });
+    } catch {
+      throw validationError('AA23 reverted', { data: revertData });
+    }
+    if (decoded.errorName !== 'ValidationResult' && decoded.errorName !== 'ValidationResultWithAggregation') {
+      throw validationError(decoded.errorName === 'FailedOp' ? String(decoded.args[1]) : 'AA23 reverted', {
+        data: revertData,
+      });
+    }
+
+    const { prefund, sigFailed, validAfter, validUntil } = decoded.args[0];
+    return {
+      entryPointVersion: '0.6',
+      account: { sigFailed, validAfter: Number(validAfter), validUntil: Number(validUntil) },
+      requiredPrefund: prefund,
+    };
+  }
+
+  /**
+   * EntryPoint v0.7：以 EntryPoint 身份调用账户与 Paymaster 的验证函数，并核对押金
+   */
+  private async simulateV07(
+    userOp: UserOperation,
+    chainId: number,
+    entryPoint: Address
+  ): Promise<ValidationSimulationResult> {
+    const publicClient = rpcClientManager.getPublicClient(chainId);
+    const packed = toPackedUserOperation(userOp);
+    const userOpHash = getUserOpHash(userOp, entryPoint, chainId, '0.7');
+    const requiredPrefund = this.getRequiredPrefund(userOp);
+    const { paymaster } = splitPaymasterAndData(userOp.paymasterAndData);
+    const result: ValidationSimulationResult = { entryPointVersion: '0.7', requiredPrefund };
+
+    const getDeposit = (account: Address) =>
+      publicClient.readContract({ address: entryPoint, abi: VALIDATION_V07_ABI, functionName: 'balanceOf', args: [account] });
+
+    if (paymaster) {
+      const deposit = await getDeposit(paymaster);
+      if (deposit < requiredPrefund) {
+        throw validationError('AA31 paymaster deposit too low');
+      }
+    } else {
+      const [deposit, balance] = await Promise.all([
+        getDeposit(userOp.sender),
+        publicClient.getBalance({ address: userOp.sender }),
+      ]);
+      if (deposit + balance < requiredPrefund) {
+        throw validationError("AA21 didn't pay prefund");
+      }
+    }
+
+    // 未部署账户没有代码，验证需在部署后进行
+    if (userOp.initCode === '0x') {
+      const callData = encodeFunctionData({
+        abi: VALIDATION_V07_ABI,
+        functionName: 'validateUserOp',
+        args: [packed, userOpHash, BigInt(0)],
+      });
+      const data = await this.callAsEntryPoint(chainId, entryPoint, userOp.sender, callData, 'AA23 reverted');
+      result.account = parseValidationData(
+        decodeFunctionResult({ abi: VALIDATION_V07_ABI, functionName: 'validateUserOp', data })
+      );
+    }
+
+    if (paymaster) {
+      const callData = encodeFunctionData({
+        abi: VALIDATION_V07_ABI,
+        functionName: 'validatePaymasterUserOp',
+        args: [packed, userOpHash, requiredPrefund],
+      });
+      const data = await this.callAsEntryPoint(chainId, entryPoint, paymaster, callData, 'AA33 reverted');
+      const [, validationData] = decodeFunctionResult({
+        abi: VALIDATION_V07_ABI,
+        functionName: 'validatePaymasterUserOp',
+        data,
+      });
+      result.paymaster = parseValidationData(validationData);
+    }
+
+    return result;
+  }
+
+  /**
+   * 以 EntryPoint 为 msg.sender 发起 eth_call，回滚时以 revertReason 对应的 AA 错误抛出
+   */
+  private async callAsEntryPoint(
+    chainId: number,
+    entryPoint: Address,
+    to: Address,
+    data: Hex,
+    revertReason: string
+  ): Promise<Hex> {
+    try {
+      const result = await rpcClientManager.getPublicClient(chainId).call({ account: entryPoint, to, data });
+      return result.data ?? '0x';
+    } catch (error) {
+      throw isRevert(error) ? validationError(revertReason, error) : error;
+    }
+  }
+
+  /**
+   * EntryPoint v0.7 验证阶段要求的最大预付费用（v0.6 由 simulateValidation 返回）
+   */
+  private getRequiredPrefund(userOp: UserOperation): bigint {
+    return (
+      (userOp.verificationGasLimit +
+        userOp.callGasLimit +
+        (userOp.paymasterVerificationGasLimit ?? BigInt(0)) +
+        (userOp.paymasterPostOpGasLimit ?? BigInt(0)) +
+        userOp.preVerificationGas) *
+      userOp.maxFeePerGas
+    );
+  }
+
+  /**
+   * 检查签名结果与有效期：未生效、即将过期或 validUntil 不晚于 validAfter 均视为失败
+   */
+  private assertValidationData(data: ValidationData | undefined, signatureReason: string, timeReason: string): void {
+    if (!data) {
+      return;
+    }
+    if (data.sigFailed) {
+      throw validationError(signatureReason);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const notYetValid = data.validAfter > now;
+    const expiring = data.validUntil !== 0 && data.validUntil < now + VALIDITY_MARGIN_SECONDS;
+    const emptyWindow = data.validUntil !== 0 && data.validUntil <= data.validAfter;
+    if (notYetValid || expiring || emptyWindow) {
+      throw validationError(timeReason);
+    }
+  }
+}
+
+export const validationSimulationService = new ValidationSimulationService();
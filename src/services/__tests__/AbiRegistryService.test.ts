@@ -0,0 +1,117 @@
+/**
+ * AbiRegistryService 单元测试
+ *
+ * 测试内置签名解码、executeBatch 递归解码、用户 ABI 注册与事件日志解码
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { encodeFunctionData, pad, parseAbi, toHex, type Address } from 'viem';
+import { AbiRegistryService } from '../AbiRegistryService';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { encodeExecuteBatchCallData } from '@/utils/kernel';
+
+const TOKEN = '0x3333333333333333333333333333333333333333' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const VAULT = '0x5555555555555555555555555555555555555555' as Address;
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const transferData = encodeFunctionData({
+  abi: parseAbi(['function transfer(address to, uint256 amount) returns (bool)']),
+  functionName: 'transfer',
+  args: [RECIPIENT, 1000n],
+});
+
+describe('AbiRegistryService', () => {
+  let service: AbiRegistryService;
+
+  beforeEach(async () => {
+    await storageAdapter.clear();
+    service = new AbiRegistryService();
+    await service.init();
+  });
+
+  it('应该使用内置签名解码 ERC-20 transfer', () => {
+    const call = service.decodeCall(transferData, TOKEN);
+
+    expect(call).toMatchObject({
+      selector: '0xa9059cbb',
+      functionName: 'transfer',
+      signature: 'transfer(address,uint256)',
+      source: 'ERC-20',
+      args: [
+        { name: 'to', type: 'address', value: RECIPIENT },
+        { name: 'amount', type: 'uint256', value: '1000' },
+      ],
+    });
+  });
+
+  it('应该递归解码 executeBatch 的内层调用', () => {
+    const inner = encodeExecuteBatchCallData([RECIPIENT], [10n], ['0x']);
+    const data = encodeExecuteBatchCallData([TOKEN, VAULT], [0n, 0n], [transferData, inner]);
+
+    const call = service.decodeCall(data, VAULT);
+
+    expect(call.functionName).toBe('executeBatch');
+    expect(call.children).toHaveLength(2);
+    expect(call.children?.[0]).toMatchObject({ to: TOKEN, functionName: 'transfer' });
+    expect(call.children?.[1].functionName).toBe('executeBatch');
+    expect(call.children?.[1].children?.[0]).toMatchObject({ to: RECIPIENT, value: 10n, selector: '0x' });
+  });
+
+  it('未知选择器应该只返回选择器', () => {
+    const call = service.decodeCall('0xdeadbeef00', TOKEN);
+
+    expect(call.selector).toBe('0xdeadbeef');
+    expect(call.functionName).toBeUndefined();
+    expect(call.args).toEqual([]);
+  });
+
+  it('应该优先使用绑定合约地址的用户 ABI 并持久化', async () => {
+    await service.registerAbi({
+      name: 'My Vault',
+      address: VAULT,
+      abi: 'function deposit(uint256 assets)\nfunction transfer(address receiver, uint256 shares) returns (bool)',
+    });
+    const depositData = encodeFunctionData({
+      abi: parseAbi(['function deposit(uint256 assets)']),
+      functionName: 'deposit',
+      args: [5n],
+    });
+
+    expect(service.decodeCall(depositData, VAULT)).toMatchObject({ functionName: 'deposit', source: 'My Vault' });
+    expect(service.decodeCall(transferData, VAULT).args[0].name).toBe('receiver');
+    expect(service.decodeCall(transferData, TOKEN).source).toBe('ERC-20');
+
+    const reloaded = new AbiRegistryService();
+    await reloaded.init();
+    expect(reloaded.getRegisteredAbis()).toHaveLength(1);
+  });
+
+  it('应该拒绝无法解析的 ABI', async () => {
+    await expect(service.registerAbi({ name: 'Broken', abi: '[{"type": "constructor"}]' })).rejects.toThrow(
+      'Invalid ABI'
+    );
+    await expect(service.registerAbi({ name: 'Broken', abi: 'not a signature' })).rejects.toThrow('Invalid ABI');
+  });
+
+  it('应该按 indexed 布局区分 ERC-20 与 ERC-721 Transfer 事件', () => {
+    const from = pad(VAULT, { size: 32 });
+    const to = pad(RECIPIENT, { size: 32 });
+
+    const erc20 = service.decodeLog({
+      address: TOKEN,
+      topics: [TRANSFER_TOPIC, from, to],
+      data: pad(toHex(1000n), { size: 32 }),
+    });
+    const erc721 = service.decodeLog({
+      address: TOKEN,
+      topics: [TRANSFER_TOPIC, from, to, pad(toHex(7n), { size: 32 })],
+      data: '0x',
+    });
+
+    expect(erc20).toMatchObject({ eventName: 'Transfer', source: 'ERC-20' });
+    expect(erc20?.args[2]).toEqual({ name: 'value', type: 'uint256', value: '1000' });
+    expect(erc721).toMatchObject({ eventName: 'Transfer', source: 'ERC-721' });
+    expect(erc721?.args[2]).toEqual({ name: 'tokenId', type: 'uint256', value: '7' });
+  });
+});
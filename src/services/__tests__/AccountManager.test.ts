@@ -255,6 +255,35 @@ describe('AccountManager', () => {
     });
   });
 
+  describe('markAccountDeployed', () => {
+    it('应该把预测账户标记为 deployed 并广播 account:deployed', async () => {
+      const address = '0x1234567890123456789012345678901234567890' as Address;
+      vi.mocked(storageAdapter.get).mockResolvedValue([
+        {
+          address,
+          chainId: 5000,
+          owner: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+          createdAt: Date.now(),
+          status: 'predicted' as const,
+        },
+      ]);
+      await accountManager.init();
+      const handler = vi.fn();
+      window.addEventListener('account:deployed', handler);
+
+      const account = await accountManager.markAccountDeployed(address, 5000, 1234);
+      await accountManager.markAccountDeployed(address, 5000);
+      window.removeEventListener('account:deployed', handler);
+
+      expect(account).toMatchObject({ status: 'deployed', deployedAt: 1234 });
+      expect(storageAdapter.set).toHaveBeenCalledWith(
+        StorageKey.ACCOUNTS,
+        expect.arrayContaining([expect.objectContaining({ address, status: 'deployed' })])
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('path conversion guards', () => {
     it('upgradePathA 应在 userType 与 creationPath 不一致时拒绝升级', async () => {
       const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
@@ -3,13 +3,26 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { BundlerClient } from '../BundlerClient';
+import { BundlerClient, BundlerRpcError } from '../BundlerClient';
 import { UserOperation } from '@/types';
 import type { Hash } from 'viem';
 
 // Mock fetch
 global.fetch = vi.fn();
 
+const SUPPORTED_ENTRY_POINTS = [
+  '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+];
+
+// eth_supportedEntryPoints 响应
+function mockSupportedEntryPoints(result: string[] = SUPPORTED_ENTRY_POINTS) {
+  vi.mocked(fetch).mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ jsonrpc: '2.0', id: 1, result }),
+  } as Response);
+}
+
 describe('BundlerClient', () => {
   let bundlerClient: BundlerClient;
 
@@ -91,6 +104,7 @@ describe('BundlerClient', () => {
         chainId: 5000,
       });
 
+      mockSupportedEntryPoints();
       vi.mocked(fetch).mockResolvedValueOnce({
         ok: true,
         json: async () => ({
@@ -137,9 +151,11 @@ describe('BundlerClient', () => {
       });
 
       // 第一个失败
+      mockSupportedEntryPoints();
       vi.mocked(fetch).mockRejectedValueOnce(new Error('Network error'));
 
       // 第二个成功
+      mockSupportedEntryPoints();
       vi.mocked(fetch).mockResolvedValueOnce({
         ok: true,
         json: async () => ({
@@ -158,6 +174,171 @@ describe('BundlerClient', () => {
     });
   });
 
+  describe('故障转移与熔断', () => {
+    const userOp: UserOperation = {
+      sender: '0x1234567890123456789012345678901234567890',
+      nonce: BigInt(0),
+      initCode: '0x',
+      callData: '0x',
+      callGasLimit: BigInt(100000),
+      verificationGasLimit: BigInt(100000),
+      preVerificationGas: BigInt(50000),
+      maxFeePerGas: BigInt(1000000000),
+      maxPriorityFeePerGas: BigInt(100000000),
+      paymasterAndData: '0x',
+      signature: '0x',
+    };
+    const userOpHash = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+      bundlerClient.addBundler({ url: 'https://bundler1.example.com', name: 'Bundler 1', priority: 1 });
+      bundlerClient.addBundler({ url: 'https://bundler2.example.com', name: 'Bundler 2', priority: 2 });
+    });
+
+    it('应该跳过不支持当前 EntryPoint 的 Bundler', async () => {
+      mockSupportedEntryPoints(['0x0000000000000000000000000000000000000001']);
+      mockSupportedEntryPoints();
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ jsonrpc: '2.0', id: 1, result: userOpHash }),
+      } as Response);
+
+      await expect(bundlerClient.sendUserOperation(userOp)).resolves.toBe(userOpHash);
+
+      const urls = vi.mocked(fetch).mock.calls.map(([url]) => url);
+      expect(urls).toEqual([
+        'https://bundler1.example.com',
+        'https://bundler2.example.com',
+        'https://bundler2.example.com',
+      ]);
+    });
+
+    it('Bundler 返回的 AA 错误不应该触发故障转移', async () => {
+      mockSupportedEntryPoints();
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          jsonrpc: '2.0',
+          id: 1,
+          error: { code: -32500, message: "AA21 didn't pay prefund" },
+        }),
+      } as Response);
+
+      await expect(bundlerClient.sendUserOperation(userOp)).rejects.toBeInstanceOf(BundlerRpcError);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('连续失败后应该熔断，并优先使用健康的 Bundler', async () => {
+      vi.mocked(fetch).mockImplementation(async (url) => {
+        if (String(url).startsWith('https://bundler1.example.com')) {
+          throw new Error('Network error');
+        }
+        return {
+          ok: true,
+          json: async () => ({ jsonrpc: '2.0', id: 1, result: SUPPORTED_ENTRY_POINTS }),
+        } as Response;
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(bundlerClient.healthCheck('https://bundler1.example.com')).resolves.toBe(false);
+      }
+
+      const [primary, backup] = bundlerClient.getBundlerStatus();
+      expect(primary.circuitState).toBe('open');
+      expect(primary.score).toBeLessThan(backup.score);
+
+      vi.mocked(fetch).mockClear();
+      await bundlerClient.getUserOperationReceipt(userOpHash as Hash);
+      expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual(['https://bundler2.example.com']);
+    });
+  });
+
+  describe('getUserOperationGasPrice', () => {
+    it('应该解析 Bundler 报价，不支持该接口的节点不计为故障且不再请求', async () => {
+      vi.mocked(fetch).mockReset();
+      bundlerClient.addBundler({ url: 'https://bundler1.example.com', name: 'Bundler 1', priority: 1 });
+      bundlerClient.addBundler({ url: 'https://bundler2.example.com', name: 'Bundler 2', priority: 2 });
+      vi.mocked(fetch).mockImplementation(async (url) => {
+        if (String(url).startsWith('https://bundler1.example.com')) {
+          return {
+            ok: true,
+            json: async () => ({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } }),
+          } as Response;
+        }
+        const fees = { maxFeePerGas: '0x3b9aca00', maxPriorityFeePerGas: '0x5f5e100' };
+        return {
+          ok: true,
+          json: async () => ({ jsonrpc: '2.0', id: 1, result: { slow: fees, standard: fees, fast: fees } }),
+        } as Response;
+      });
+
+      const gasPrice = await bundlerClient.getUserOperationGasPrice();
+      await bundlerClient.getUserOperationGasPrice();
+
+      expect(gasPrice?.standard).toEqual({ maxFeePerGas: BigInt(1000000000), maxPriorityFeePerGas: BigInt(100000000) });
+      expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual([
+        'https://bundler1.example.com',
+        'https://bundler2.example.com',
+        'https://bundler2.example.com',
+      ]);
+      expect(bundlerClient.getBundlerStatus()[0].consecutiveFailures).toBe(0);
+    });
+  });
+
+  describe('EntryPoint v0.7', () => {
+    it('应该拆分 factory / paymaster 字段发送 v0.7 格式', async () => {
+      const mockUserOp: UserOperation = {
+        sender: '0x1234567890123456789012345678901234567890',
+        nonce: BigInt(1),
+        initCode: '0x6723b44Abeec4E71eBE3232BD5B455805baDD22fc0ffee',
+        callData: '0xabcd',
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+        maxFeePerGas: BigInt(1000000000),
+        maxPriorityFeePerGas: BigInt(100000000),
+        paymasterAndData: '0x9999999999999999999999999999999999999999beef',
+        signature: '0x',
+        paymasterVerificationGasLimit: BigInt(60000),
+        paymasterPostOpGasLimit: BigInt(30000),
+      };
+
+      // 未设置链时使用 v0.7 标准 EntryPoint
+      bundlerClient.addBundler({
+        url: 'https://bundler1.example.com',
+        name: 'Bundler 1',
+        priority: 1,
+      });
+
+      mockSupportedEntryPoints();
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          jsonrpc: '2.0',
+          id: 1,
+          result: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+        }),
+      } as Response);
+
+      await bundlerClient.sendUserOperation(mockUserOp);
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[1][1]?.body as string);
+      const [rpcUserOp, entryPoint] = body.params;
+      expect(entryPoint).toBe('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+      expect(rpcUserOp).toMatchObject({
+        factory: '0x6723b44Abeec4E71eBE3232BD5B455805baDD22f',
+        factoryData: '0xc0ffee',
+        paymaster: '0x9999999999999999999999999999999999999999',
+        paymasterVerificationGasLimit: '0xea60',
+        paymasterPostOpGasLimit: '0x7530',
+        paymasterData: '0xbeef',
+      });
+      expect(rpcUserOp).not.toHaveProperty('initCode');
+      expect(rpcUserOp).not.toHaveProperty('paymasterAndData');
+    });
+  });
+
   describe('estimateUserOperationGas', () => {
     it('应该估算 UserOperation Gas', async () => {
       const mockUserOp: UserOperation = {
@@ -180,6 +361,7 @@ describe('BundlerClient', () => {
         priority: 1,
       });
 
+      mockSupportedEntryPoints();
       vi.mocked(fetch).mockResolvedValueOnce({
         ok: true,
         json: async () => ({
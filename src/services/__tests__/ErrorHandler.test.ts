@@ -55,6 +55,44 @@ describe('ErrorHandler', () => {
     });
   });
 
+  describe('UserOperation 错误', () => {
+    it('应该把 AA 错误码映射为钱包错误码并附带用户提示', () => {
+      const result = ErrorHandler.fromError(
+        Object.assign(new Error("Bundler error: AA21 didn't pay prefund"), { rpcCode: -32500 })
+      );
+
+      expect(result.code).toBe(ErrorCode.INSUFFICIENT_PREFUND);
+      expect(result.aaCode).toBe('AA21');
+      expect(result.toUserMessage()).toBe('账户余额不足以支付 Gas 费用，请充值或使用赞助后重试（AA21）');
+      expect(result.isRetryable()).toBe(false);
+    });
+
+    it('未单独映射的 AA 错误码应该按系列分类', () => {
+      expect(ErrorHandler.fromError(new Error('AA33 reverted')).code).toBe(ErrorCode.PAYMASTER_VALIDATION_FAILED);
+      expect(ErrorHandler.fromError(new Error('AA13 initCode failed or OOG')).code).toBe(
+        ErrorCode.ACCOUNT_DEPLOYMENT_FAILED
+      );
+    });
+
+    it('nonce 与有效期错误应该可重试', () => {
+      const nonceError = ErrorHandler.fromError(new Error('AA25 invalid account nonce'));
+      const expiredError = ErrorHandler.fromError({ message: 'UserOperation expired', rpcCode: -32503 });
+
+      expect(nonceError.code).toBe(ErrorCode.INVALID_NONCE);
+      expect(nonceError.isRetryable()).toBe(true);
+      expect(expiredError.code).toBe(ErrorCode.USER_OP_EXPIRED);
+      expect(expiredError.isRetryable()).toBe(true);
+    });
+
+    it('Bundler 错误应该可重试', () => {
+      const result = ErrorHandler.fromError(new Error('Bundler error: mempool is full'));
+
+      expect(result.code).toBe(ErrorCode.BUNDLER_ERROR);
+      expect(result.isRetryable()).toBe(true);
+      expect(new WalletError('Bundler error', ErrorCode.BUNDLER_ERROR).isRetryable()).toBe(true);
+    });
+  });
+
   describe('handleError', () => {
     it('应该返回用户友好的错误消息', () => {
       const error = new WalletError('Test', ErrorCode.NETWORK_ERROR);
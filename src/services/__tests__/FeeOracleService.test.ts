@@ -0,0 +1,112 @@
+/**
+ * FeeOracleService 单元测试
+ *
+ * 测试 Bundler 报价优先、feeHistory 分位数估算、eth_maxPriorityFeePerGas 兜底与非 EIP-1559 链
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FeeOracleService } from '../FeeOracleService';
+import { bundlerClient } from '../BundlerClient';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+
+const publicClient = {
+  getFeeHistory: vi.fn(),
+  estimateMaxPriorityFeePerGas: vi.fn(),
+  getGasPrice: vi.fn(),
+};
+
+vi.mock('../BundlerClient', () => ({
+  bundlerClient: {
+    getBundlerStatus: vi.fn().mockReturnValue([{ url: 'https://bundler.test', chainId: 5000 }]),
+    configureChain: vi.fn(),
+    getUserOperationGasPrice: vi.fn(),
+  },
+}));
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(),
+  },
+}));
+
+const GWEI = BigInt(1000000000);
+
+describe('FeeOracleService', () => {
+  let oracle: FeeOracleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rpcClientManager.getPublicClient).mockReturnValue(
+      publicClient as unknown as ReturnType<typeof rpcClientManager.getPublicClient>
+    );
+    vi.mocked(bundlerClient.getUserOperationGasPrice).mockResolvedValue(null);
+    oracle = new FeeOracleService();
+  });
+
+  it('Bundler 提供报价时应该直接使用其三档费用', async () => {
+    vi.mocked(bundlerClient.getUserOperationGasPrice).mockResolvedValue({
+      slow: { maxFeePerGas: GWEI, maxPriorityFeePerGas: GWEI / BigInt(10) },
+      standard: { maxFeePerGas: BigInt(2) * GWEI, maxPriorityFeePerGas: GWEI / BigInt(5) },
+      fast: { maxFeePerGas: BigInt(3) * GWEI, maxPriorityFeePerGas: GWEI / BigInt(2) },
+    });
+
+    const estimate = await oracle.getFeeEstimate(5000);
+
+    expect(estimate.source).toBe('bundler');
+    expect(estimate.tiers.normal).toMatchObject({ maxFeePerGas: BigInt(2) * GWEI, maxPriorityFeePerGas: GWEI / BigInt(5) });
+    expect(publicClient.getFeeHistory).not.toHaveBeenCalled();
+  });
+
+  it('应该按 feeHistory 小费分位数与下一区块 baseFee 计算三档费用', async () => {
+    publicClient.getFeeHistory.mockResolvedValue({
+      baseFeePerGas: [GWEI, GWEI, BigInt(2) * GWEI],
+      gasUsedRatio: [0.5, 0],
+      reward: [
+        [BigInt(1), BigInt(2), BigInt(3)],
+        [BigInt(0), BigInt(0), BigInt(0)],
+      ],
+    });
+
+    const estimate = await oracle.getFeeEstimate(5000);
+
+    expect(estimate.source).toBe('feeHistory');
+    expect(estimate.baseFeePerGas).toBe(BigInt(2) * GWEI);
+    // 空区块不计入样本；maxFeePerGas = baseFee × 余量 + 优先费
+    expect(estimate.tiers.slow).toMatchObject({ maxPriorityFeePerGas: BigInt(1), maxFeePerGas: BigInt(2200000001) });
+    expect(estimate.tiers.normal).toMatchObject({ maxPriorityFeePerGas: BigInt(2), maxFeePerGas: BigInt(2500000002) });
+    expect(estimate.tiers.fast).toMatchObject({
+      maxPriorityFeePerGas: BigInt(3),
+      maxFeePerGas: BigInt(4000000003),
+      expectedBlocks: 1,
+    });
+    expect(publicClient.estimateMaxPriorityFeePerGas).not.toHaveBeenCalled();
+  });
+
+  it('区块没有小费样本时应该退化为 eth_maxPriorityFeePerGas', async () => {
+    publicClient.getFeeHistory.mockResolvedValue({
+      baseFeePerGas: [GWEI, GWEI],
+      gasUsedRatio: [0],
+      reward: [[BigInt(0), BigInt(0), BigInt(0)]],
+    });
+    publicClient.estimateMaxPriorityFeePerGas.mockResolvedValue(BigInt(100));
+
+    const estimate = await oracle.getFeeEstimate(5000);
+
+    expect(estimate.tiers.slow.maxPriorityFeePerGas).toBe(BigInt(90));
+    expect(estimate.tiers.normal.maxPriorityFeePerGas).toBe(BigInt(100));
+    expect(estimate.tiers.fast.maxPriorityFeePerGas).toBe(BigInt(125));
+    expect(publicClient.estimateMaxPriorityFeePerGas).toHaveBeenCalledTimes(1);
+  });
+
+  it('不支持 EIP-1559 的链应该按 eth_gasPrice 分档并缓存结果', async () => {
+    publicClient.getFeeHistory.mockRejectedValue(new Error('the method eth_feeHistory does not exist'));
+    publicClient.getGasPrice.mockResolvedValue(GWEI);
+
+    const estimate = await oracle.getFeeEstimate(5000);
+    await oracle.getFees(5000, 'fast');
+
+    expect(estimate.source).toBe('legacy');
+    expect(estimate.tiers.fast).toMatchObject({ maxFeePerGas: BigInt(1250000000), maxPriorityFeePerGas: BigInt(1250000000) });
+    expect(publicClient.getGasPrice).toHaveBeenCalledTimes(1);
+  });
+});
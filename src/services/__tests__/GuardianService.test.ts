@@ -3,11 +3,14 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { GuardianService } from '../GuardianService';
+import { GuardianService, type GuardianProposal } from '../GuardianService';
+import { spendingLimitService } from '../SpendingLimitService';
 import { transactionRelayer } from '../TransactionRelayer';
 import { storageAdapter } from '@/adapters/StorageAdapter';
 import type { Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import { getChainConfigByChainId } from '@/config/chains';
+import { rpcClientManager } from '@/utils/RpcClientManager';
 
 // Mock transaction relayer
 vi.mock('../TransactionRelayer', () => ({
@@ -24,6 +27,21 @@ vi.mock('@/adapters/StorageAdapter', () => ({
   },
 }));
 
+// Mock spending limit service
+vi.mock('../SpendingLimitService', () => ({
+  spendingLimitService: {
+    getGuardianApprovalCall: vi.fn(),
+    applyApprovedIncrease: vi.fn(),
+  },
+}));
+
+// Mock RPC client manager
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(),
+  },
+}));
+
 // Mock chain config
 vi.mock('@/config/chains', () => ({
   getChainConfigByChainId: vi.fn(),
@@ -190,4 +208,75 @@ describe('GuardianService', () => {
       ).rejects.toThrow('Recovery plugin address is required');
     });
   });
+
+  describe('voteForGuardianProposal', () => {
+    it('支出限额提案的支持票应该由守护人自己在 Hook 上批准，通过后只同步本地限额', async () => {
+      const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+      const hookAddress = '0x4444444444444444444444444444444444444444' as Address;
+      const guardianKeys = [
+        `0x${'21'.repeat(32)}`,
+        `0x${'22'.repeat(32)}`,
+        `0x${'23'.repeat(32)}`,
+      ] as `0x${string}`[];
+      const guardians = guardianKeys.map((key) => ({
+        address: privateKeyToAccount(key).address,
+        addedAt: Date.now(),
+      }));
+      const proposal: GuardianProposal = {
+        proposalId: 'proposal_1',
+        accountAddress,
+        chainId: 5000,
+        type: 'spending_limit',
+        spendingLimit: {
+          token: '0x7777777777777777777777777777777777777777',
+          symbol: 'USDC',
+          decimals: 6,
+          amount: BigInt(2000_000000),
+          period: 'weekly',
+        },
+        approvers: guardians.map((guardian) => guardian.address),
+        proposer: accountAddress,
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 3600 * 1000,
+        status: 'pending',
+        votes: [],
+      };
+
+      // 投票按提案发起时记录的守护人计算，之后本地守护人列表的变化不影响
+      vi.mocked(storageAdapter.get).mockImplementation(async (key: string) =>
+        key.includes('_proposal_') ? proposal : key.includes('_proposals_') ? [] : guardians.slice(0, 1)
+      );
+      vi.mocked(rpcClientManager.getPublicClient).mockReturnValue({
+        getBytecode: vi.fn().mockResolvedValue('0x6080'),
+      } as unknown as ReturnType<typeof rpcClientManager.getPublicClient>);
+      vi.mocked(spendingLimitService.getGuardianApprovalCall).mockResolvedValue({
+        to: hookAddress,
+        data: '0xapprove',
+      });
+      vi.mocked(transactionRelayer.sendTransaction)
+        .mockResolvedValueOnce('0xapproval1')
+        .mockResolvedValueOnce('0xapproval2');
+
+      await guardianService.voteForGuardianProposal('proposal_1', guardianKeys[0], 'support');
+      expect(proposal.status).toBe('pending');
+      await guardianService.voteForGuardianProposal('proposal_1', guardianKeys[1], 'support');
+
+      // 批准交易以守护人地址发送到 Hook，不以守护人私钥签名账户操作
+      const calls = vi.mocked(transactionRelayer.sendTransaction).mock.calls;
+      expect(calls).toHaveLength(2);
+      calls.forEach(([sender, chainId, to, data, signer], index) => {
+        expect([sender, chainId, to, data, signer]).toEqual([
+          guardians[index].address,
+          5000,
+          hookAddress,
+          '0xapprove',
+          guardianKeys[index],
+        ]);
+      });
+      expect(proposal.status).toBe('approved');
+      expect(proposal.votes.map((entry) => entry.txHash)).toEqual(['0xapproval1', '0xapproval2']);
+      expect(spendingLimitService.applyApprovedIncrease).toHaveBeenCalledWith(proposal);
+      expect(proposal.txHash).toBe('0xapproval2');
+    });
+  });
 });
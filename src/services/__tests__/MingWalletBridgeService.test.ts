@@ -16,6 +16,11 @@ vi.mock('@/stores', () => ({
     waitUntilReady: vi.fn(),
     getAccount: vi.fn(),
   },
+  interactionStore: {
+    addRequest: vi.fn(),
+    getRequest: vi.fn(),
+    cancelRequest: vi.fn(),
+  },
 }));
 
 vi.mock('@/services/KeyManagerService', () => ({
@@ -37,7 +42,8 @@ vi.mock('@/utils/RpcClientManager', () => ({
 }));
 
 import { storageAdapter } from '@/adapters/StorageAdapter';
-import { accountStore } from '@/stores';
+import { accountStore, interactionStore } from '@/stores';
+import { riskAssessmentService } from '@/services/RiskAssessmentService';
 import { keyManagerService } from '@/services/KeyManagerService';
 import { transactionRelayer } from '@/services/TransactionRelayer';
 import { rpcClientManager } from '@/utils/RpcClientManager';
@@ -84,7 +90,7 @@ type BridgeResponse = {
   payload: {
     success: boolean;
     data?: Record<string, unknown>;
-    error?: { code: string; message: string };
+    error?: { code: string; message: string; details?: unknown };
   };
 };
 
@@ -226,7 +232,8 @@ describe('MingWalletBridgeService', () => {
         sponsorId: 'sponsor-0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa-1',
         ownerAddress: TEST_ACCOUNT.owner,
         eoaAddress: null,
-      }
+      },
+      undefined
     );
   });
 
@@ -396,6 +403,100 @@ describe('MingWalletBridgeService', () => {
     );
   });
 
+  it('requires confirmation for high-risk SEND_TRANSACTION and returns TRANSACTION_REJECTED on reject', async () => {
+    await service!.init();
+    const assessSpy = vi.spyOn(riskAssessmentService, 'assess').mockResolvedValue({
+      score: 100,
+      level: 'high',
+      reasons: [{ code: 'ORIGIN_BLOCKLISTED', message: 'blocked', score: 100 }],
+      trustedOrigin: false,
+      requiresAcknowledgement: true,
+    });
+    vi.mocked(interactionStore.addRequest).mockImplementation(() => {
+      setTimeout(() => {
+        window.dispatchEvent(
+          new CustomEvent('interaction:rejected', {
+            detail: { request: { id: 'risk-request', status: 'rejected' } },
+          })
+        );
+      }, 0);
+      return 'risk-request';
+    });
+
+    const response = await sendRequest({
+      type: 'MING_WALLET_SEND_TRANSACTION_REQUEST',
+      messageId: 'msg_send_tx_risky',
+      payload: {
+        protocolVersion: '1.0.0',
+        chainId: 11155111,
+        chainFamily: 'evm',
+        to: '0x3333333333333333333333333333333333333333',
+        data: '0xabcdef',
+        value: '0',
+        gasPolicy: { primary: 'self_pay' },
+      },
+    });
+
+    expect(interactionStore.addRequest).toHaveBeenCalledWith(
+      'eth_sendTransaction',
+      expect.any(String),
+      expect.any(Array),
+      expect.objectContaining({ risk: expect.objectContaining({ level: 'high' }) })
+    );
+    expect(response.payload.success).toBe(false);
+    expect(response.payload.error.code).toBe('TRANSACTION_REJECTED');
+    expect(response.payload.error.details).toEqual({ riskReasons: ['ORIGIN_BLOCKLISTED'] });
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+    assessSpy.mockRestore();
+  });
+
+  it('settles a high-risk SEND_TRANSACTION as TRANSACTION_REJECTED when the confirmation is cancelled', async () => {
+    await service!.init();
+    const assessSpy = vi.spyOn(riskAssessmentService, 'assess').mockResolvedValue({
+      score: 100,
+      level: 'high',
+      reasons: [{ code: 'ORIGIN_BLOCKLISTED', message: 'blocked', score: 100 }],
+      trustedOrigin: false,
+      requiresAcknowledgement: true,
+    });
+    const removeListener = vi.spyOn(window, 'removeEventListener');
+    vi.mocked(interactionStore.addRequest).mockImplementation(() => {
+      setTimeout(() => {
+        window.dispatchEvent(
+          new CustomEvent('interaction:cancelled', {
+            detail: { request: { id: 'risk-request', status: 'cancelled' } },
+          })
+        );
+      }, 0);
+      return 'risk-request';
+    });
+
+    const response = await sendRequest({
+      type: 'MING_WALLET_SEND_TRANSACTION_REQUEST',
+      messageId: 'msg_send_tx_risky_cancelled',
+      payload: {
+        protocolVersion: '1.0.0',
+        chainId: 11155111,
+        chainFamily: 'evm',
+        to: '0x3333333333333333333333333333333333333333',
+        data: '0xabcdef',
+        value: '0',
+        gasPolicy: { primary: 'self_pay' },
+      },
+    });
+
+    expect(response.payload.success).toBe(false);
+    expect(response.payload.error.code).toBe('TRANSACTION_REJECTED');
+    expect(response.payload.error.message).toContain('cancelled');
+    // 确认监听在请求结束后全部移除
+    for (const name of ['interaction:approved', 'interaction:rejected', 'interaction:cancelled']) {
+      expect(removeListener).toHaveBeenCalledWith(name, expect.any(Function));
+    }
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+    removeListener.mockRestore();
+    assessSpy.mockRestore();
+  });
+
   it('returns CHAIN_NOT_SUPPORTED for SEND_TRANSACTION on solana', async () => {
     await service!.init();
 
@@ -487,6 +588,34 @@ describe('MingWalletBridgeService', () => {
     expect(response.payload.error.code).toBe('CONTRACT_CALL_FAILED');
   });
 
+  it('returns wallet ErrorCode with aaCode when SEND_TRANSACTION is rejected by bundler', async () => {
+    await service!.init();
+    vi.mocked(transactionRelayer.sendTransaction).mockRejectedValueOnce(
+      Object.assign(new Error("AA21 didn't pay prefund"), { rpcCode: -32500 })
+    );
+
+    const response = await sendRequest({
+      type: 'MING_WALLET_SEND_TRANSACTION_REQUEST',
+      messageId: 'msg_send_tx_aa21_001',
+      payload: {
+        protocolVersion: '1.0.0',
+        chainId: 11155111,
+        chainFamily: 'evm',
+        to: '0x3333333333333333333333333333333333333333',
+        data: '0xabcdef',
+        gasPolicy: {
+          primary: 'self_pay',
+        },
+      },
+    });
+
+    expect(response.payload.success).toBe(false);
+    expect(response.payload.error).toMatchObject({
+      code: 'INSUFFICIENT_PREFUND',
+      details: { aaCode: 'AA21', retryable: false },
+    });
+  });
+
   it('handles GET_ACTIVE_ACCOUNT request on evm', async () => {
     await service!.init();
 
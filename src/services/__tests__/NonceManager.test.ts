@@ -0,0 +1,123 @@
+/**
+ * NonceManager 单元测试
+ *
+ * 测试并发预留、释放后复用、独立通道与待上链操作占用的序列号
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address, Hash } from 'viem';
+import {
+  DEFAULT_NONCE_CHANNEL,
+  NonceManager,
+  decodeNonce,
+  encodeNonce,
+  getNonceKeyForChannel,
+  getValidatorNonceKey,
+  isRootValidationNonce,
+} from '../NonceManager';
+import { userOperationTracker, type TrackedUserOperation } from '../UserOperationTracker';
+
+vi.mock('../UserOperationTracker', () => ({
+  userOperationTracker: {
+    getPendingOperations: vi.fn().mockReturnValue([]),
+  },
+}));
+
+const SENDER = '0x1234567890123456789012345678901234567890' as Address;
+
+function pendingOperation(nonce: bigint): TrackedUserOperation {
+  return {
+    userOpHash: `0x${'ab'.repeat(32)}` as Hash,
+    chainId: 5000,
+    sender: SENDER,
+    nonce,
+    status: 'submitted',
+    submittedAt: Date.now(),
+    updatedAt: Date.now(),
+    missingChecks: 0,
+  };
+}
+
+describe('NonceManager', () => {
+  let manager: NonceManager;
+
+  beforeEach(() => {
+    vi.mocked(userOperationTracker.getPendingOperations).mockReturnValue([]);
+    manager = new NonceManager();
+  });
+
+  it('默认通道使用 key 0，其它通道映射到 Kernel 的 16 位并行 key', () => {
+    expect(getNonceKeyForChannel(DEFAULT_NONCE_CHANNEL)).toBe(0n);
+
+    const key = getNonceKeyForChannel('ming-scheduled:task_1');
+    expect(key).toBeGreaterThan(0n);
+    expect(key).toBeLessThanOrEqual(0xffffn);
+    expect(getNonceKeyForChannel('ming-scheduled:task_1')).toBe(key);
+    expect(decodeNonce(encodeNonce(key, 5n))).toEqual({ key, sequence: 5n });
+  });
+
+  it('使用非根验证器时应该在 nonce key 高位编码验证类型与验证器地址', async () => {
+    const validator = '0x9999999999999999999999999999999999999999' as Address;
+    const readOnChainNonce = vi.fn().mockResolvedValue(0n);
+
+    const key = getValidatorNonceKey(validator);
+    const reservation = await manager.reserve({ chainId: 5000, sender: SENDER, validator, readOnChainNonce });
+
+    expect(key >> 176n).toBe(1n);
+    expect((key >> 16n) & ((1n << 160n) - 1n)).toBe(BigInt(validator));
+    expect(readOnChainNonce).toHaveBeenCalledWith(key);
+    expect(decodeNonce(reservation.nonce).key).toBe(key);
+    expect(isRootValidationNonce(reservation.nonce)).toBe(false);
+    expect(isRootValidationNonce(encodeNonce(getNonceKeyForChannel('spending-limit'), 3n))).toBe(true);
+  });
+
+  it('并发预留同一通道时应该分配连续且不重复的 nonce', async () => {
+    const readOnChainNonce = vi.fn().mockResolvedValue(3n);
+
+    const reservations = await Promise.all([
+      manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce }),
+      manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce }),
+      manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce }),
+    ]);
+
+    expect(reservations.map((reservation) => reservation.nonce)).toEqual([3n, 4n, 5n]);
+    expect(manager.getReservedNonces(5000, SENDER)).toEqual([3n, 4n, 5n]);
+  });
+
+  it('释放后应该优先填补空位', async () => {
+    const readOnChainNonce = vi.fn().mockResolvedValue(0n);
+    const first = await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+    await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+
+    manager.release(first);
+    const next = await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+
+    expect(next.sequence).toBe(0n);
+  });
+
+  it('不同通道应该互不阻塞', async () => {
+    const channel = 'two-phase-commit';
+    const key = getNonceKeyForChannel(channel);
+    const readOnChainNonce = vi.fn(async (nonceKey: bigint) => (nonceKey === 0n ? 7n : encodeNonce(key, 0n)));
+
+    const manual = await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+    const reveal = await manager.reserve({ chainId: 5000, sender: SENDER, channel, readOnChainNonce });
+
+    expect(manual.nonce).toBe(7n);
+    expect(reveal).toMatchObject({ key, sequence: 0n, nonce: encodeNonce(key, 0n) });
+    expect(readOnChainNonce).toHaveBeenLastCalledWith(key);
+  });
+
+  it('应该跳过待上链操作占用的序列号，操作被丢弃后可重新使用', async () => {
+    const readOnChainNonce = vi.fn().mockResolvedValue(2n);
+    vi.mocked(userOperationTracker.getPendingOperations).mockReturnValue([pendingOperation(2n)]);
+
+    const reservation = await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+    expect(reservation.nonce).toBe(3n);
+    manager.release(reservation);
+
+    vi.mocked(userOperationTracker.getPendingOperations).mockReturnValue([]);
+    const afterDrop = await manager.reserve({ chainId: 5000, sender: SENDER, readOnChainNonce });
+    expect(afterDrop.nonce).toBe(2n);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * PermissionService 单元测试
+ *
+ * 测试按来源持久化的 DApp 权限授予与撤销
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PermissionService } from '../PermissionService';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+
+describe('PermissionService', () => {
+  let permissionService: PermissionService;
+
+  beforeEach(async () => {
+    permissionService = new PermissionService();
+    await storageAdapter.clear();
+    await permissionService.init();
+  });
+
+  it('应该按来源隔离授权', async () => {
+    await permissionService.grantPermissions('https://a.example', ['eth_accounts']);
+
+    expect(await permissionService.hasPermission('https://a.example', 'eth_accounts')).toBe(true);
+    expect(await permissionService.hasPermission('https://b.example', 'eth_accounts')).toBe(false);
+  });
+
+  it('应该跨实例持久化授权', async () => {
+    await permissionService.grantPermissions('https://a.example', ['eth_accounts']);
+
+    const reloaded = new PermissionService();
+    await reloaded.init();
+
+    const permissions = await reloaded.getPermissions('https://a.example');
+    expect(permissions).toHaveLength(1);
+    expect(permissions[0]).toMatchObject({
+      invoker: 'https://a.example',
+      parentCapability: 'eth_accounts',
+    });
+  });
+
+  it('重复授权应覆盖旧记录而不是追加', async () => {
+    await permissionService.grantPermissions('https://a.example', ['eth_accounts']);
+    await permissionService.grantPermissions('https://a.example', ['eth_accounts']);
+
+    expect(await permissionService.getPermissions('https://a.example')).toHaveLength(1);
+  });
+
+  it('撤销后应从已连接网站列表移除', async () => {
+    await permissionService.grantPermissions('https://a.example', ['eth_accounts']);
+    await permissionService.grantPermissions('https://b.example', ['eth_accounts']);
+
+    await permissionService.revokePermissions('https://a.example');
+
+    const sites = await permissionService.getConnectedSites();
+    expect(sites.map((site) => site.origin)).toStrictEqual(['https://b.example']);
+  });
+
+  it('应该只支持 eth_accounts 权限', () => {
+    expect(permissionService.isSupportedPermission('eth_accounts')).toBe(true);
+    expect(permissionService.isSupportedPermission('eth_sign')).toBe(false);
+  });
+});
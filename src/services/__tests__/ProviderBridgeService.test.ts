@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderBridgeService } from '@/services/ProviderBridgeService';
+import { PostMessageProviderClient } from '@/adapters/PostMessageProviderClient';
+import type { AnDaoWalletProvider } from '@/adapters/ProviderAdapter';
+import { permissionService } from '@/services/PermissionService';
+
+const WALLET_ORIGIN = 'https://wallet.example';
+const DAPP_ORIGIN = 'https://dapp.example';
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+
+function createFrameWindow(): Window {
+  const frame = document.createElement('iframe');
+  document.body.appendChild(frame);
+  return frame.contentWindow!;
+}
+
+function deliver(data: unknown, origin: string, source: Window): void {
+  window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+}
+
+describe('ProviderBridgeService', () => {
+  let service: ProviderBridgeService;
+  let walletWindow: Window;
+  let dappWindow: Window;
+  let providerListeners: Map<string, Set<(...args: unknown[]) => void>>;
+  let provider: {
+    requestForOrigin: ReturnType<typeof vi.fn>;
+    on: (event: string, handler: (...args: unknown[]) => void) => void;
+    removeListener: (event: string, handler: (...args: unknown[]) => void) => void;
+  };
+
+  beforeEach(async () => {
+    document.body.innerHTML = '';
+    walletWindow = createFrameWindow();
+    dappWindow = createFrameWindow();
+
+    // 模拟跨源 postMessage：DApp → 钱包时 origin 为 DApp 来源，钱包 → DApp 时为钱包来源
+    vi.spyOn(walletWindow, 'postMessage').mockImplementation(((data: unknown) => {
+      setTimeout(() => deliver(data, DAPP_ORIGIN, dappWindow), 0);
+    }) as Window['postMessage']);
+    vi.spyOn(dappWindow, 'postMessage').mockImplementation(((data: unknown) => {
+      setTimeout(() => deliver(data, WALLET_ORIGIN, walletWindow), 0);
+    }) as Window['postMessage']);
+
+    providerListeners = new Map();
+    provider = {
+      requestForOrigin: vi.fn(async (_origin: string, args: { method: string }) => {
+        if (args.method === 'eth_chainId') return '0x138b';
+        if (args.method === 'eth_accounts') return [ACCOUNT];
+        if (args.method === 'personal_sign') throw new Error('User rejected the request');
+        return null;
+      }),
+      on: (event, handler) => {
+        if (!providerListeners.has(event)) providerListeners.set(event, new Set());
+        providerListeners.get(event)!.add(handler);
+      },
+      removeListener: (event, handler) => {
+        providerListeners.get(event)?.delete(handler);
+      },
+    };
+
+    vi.stubEnv('VITE_PROVIDER_ALLOWED_ORIGINS', `https://other.example, ${DAPP_ORIGIN}`);
+    service = new ProviderBridgeService();
+    await service.init(provider as unknown as AnDaoWalletProvider);
+  });
+
+  afterEach(() => {
+    service.destroy();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('应以 MessageEvent.origin 作为请求来源并回传结果', async () => {
+    const client = new PostMessageProviderClient(walletWindow, WALLET_ORIGIN);
+
+    const chainId = await client.request({ method: 'eth_chainId' });
+
+    expect(chainId).toBe('0x138b');
+    expect(provider.requestForOrigin).toHaveBeenCalledWith(DAPP_ORIGIN, { method: 'eth_chainId', params: undefined });
+    expect(dappWindow.postMessage).toHaveBeenCalledWith(expect.anything(), DAPP_ORIGIN);
+    client.close();
+  });
+
+  it('应将错误转换为 EIP-1193 ProviderRpcError', async () => {
+    const client = new PostMessageProviderClient(walletWindow, WALLET_ORIGIN);
+
+    await expect(client.request({ method: 'personal_sign', params: ['0x', ACCOUNT] })).rejects.toMatchObject({
+      code: 4001,
+      message: 'User rejected the request',
+    });
+    client.close();
+  });
+
+  it('应按来源重新计算 accountsChanged 并转发给已连接的 DApp', async () => {
+    const client = new PostMessageProviderClient(walletWindow, WALLET_ORIGIN);
+    await client.request({ method: 'eth_chainId' });
+    const onAccountsChanged = vi.fn();
+    client.on('accountsChanged', onAccountsChanged);
+
+    providerListeners.get('accountsChanged')!.forEach((handler) => handler(['0xlocal']));
+
+    await vi.waitFor(() => expect(onAccountsChanged).toHaveBeenCalledWith([ACCOUNT]));
+    expect(provider.requestForOrigin).toHaveBeenCalledWith(DAPP_ORIGIN, { method: 'eth_accounts' });
+    client.close();
+  });
+
+  it('断开来源连接时应撤销权限并只向该来源发送 accountsChanged([])', async () => {
+    const revoke = vi.spyOn(permissionService, 'revokePermissions').mockResolvedValue(undefined);
+    const client = new PostMessageProviderClient(walletWindow, WALLET_ORIGIN);
+    await client.request({ method: 'eth_chainId' });
+    const onAccountsChanged = vi.fn();
+    client.on('accountsChanged', onAccountsChanged);
+
+    await service.revokeOrigin('https://other.example');
+    await service.revokeOrigin(DAPP_ORIGIN);
+
+    await vi.waitFor(() => expect(onAccountsChanged).toHaveBeenCalledWith([]));
+    expect(onAccountsChanged).toHaveBeenCalledTimes(1);
+    expect(revoke).toHaveBeenCalledWith(DAPP_ORIGIN);
+    client.close();
+  });
+
+  it('应忽略不在白名单中的来源', async () => {
+    vi.stubEnv('VITE_PROVIDER_ALLOWED_ORIGINS', 'https://allowed.example');
+
+    deliver({ type: 'ANDAO_PROVIDER_REQUEST', id: 'req_1', method: 'eth_accounts' }, DAPP_ORIGIN, dappWindow);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(provider.requestForOrigin).not.toHaveBeenCalled();
+    expect(dappWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('未配置来源白名单时应拒绝所有来源', async () => {
+    vi.stubEnv('VITE_PROVIDER_ALLOWED_ORIGINS', '');
+
+    deliver({ type: 'ANDAO_PROVIDER_REQUEST', id: 'req_2', method: 'eth_accounts' }, DAPP_ORIGIN, dappWindow);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(provider.requestForOrigin).not.toHaveBeenCalled();
+    expect(dappWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('被不在白名单中的页面以 iframe 嵌入时不应启动桥接', async () => {
+    service.destroy();
+    vi.spyOn(window, 'parent', 'get').mockReturnValue(dappWindow);
+    vi.spyOn(document, 'referrer', 'get').mockReturnValue('https://evil.example/page');
+    const parentPostMessage = vi.mocked(dappWindow.postMessage);
+    parentPostMessage.mockClear();
+
+    const embedded = new ProviderBridgeService();
+    await embedded.init(provider as unknown as AnDaoWalletProvider);
+    deliver({ type: 'ANDAO_PROVIDER_REQUEST', id: 'req_3', method: 'eth_accounts' }, DAPP_ORIGIN, dappWindow);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(parentPostMessage).not.toHaveBeenCalled();
+    expect(provider.requestForOrigin).not.toHaveBeenCalled();
+    embedded.destroy();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * RiskAssessmentService 单元测试
+ *
+ * 测试来源名单、无代码目标、无限授权、首次收款地址与大额转账的风险评分
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeFunctionData, maxUint256, parseAbi, parseEther, type Address } from 'viem';
+import { RiskAssessmentService, matchesOriginPattern } from '../RiskAssessmentService';
+import { settingsService } from '../SettingsService';
+import { transactionHistoryService } from '../TransactionHistoryService';
+import { configStorage, storageAdapter } from '@/adapters/StorageAdapter';
+
+const mockGetCode = vi.fn();
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: () => ({ getCode: (...args: unknown[]) => mockGetCode(...args) }),
+  },
+}));
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const TOKEN = '0x3333333333333333333333333333333333333333' as Address;
+const SPENDER = '0x4444444444444444444444444444444444444444' as Address;
+const ERC20_ABI = parseAbi(['function approve(address spender, uint256 amount) returns (bool)']);
+
+describe('RiskAssessmentService', () => {
+  let service: RiskAssessmentService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await configStorage.clear();
+    await storageAdapter.clear();
+    await settingsService.resetToDefaults();
+    await transactionHistoryService.init();
+    mockGetCode.mockResolvedValue('0x6080');
+    service = new RiskAssessmentService();
+  });
+
+  it('应该支持完整来源、主机名与通配主机匹配', () => {
+    expect(matchesOriginPattern('https://app.example.com', 'https://app.example.com/')).toBe(true);
+    expect(matchesOriginPattern('https://app.example.com', 'app.example.com')).toBe(true);
+    expect(matchesOriginPattern('https://a.b.example.com', '*.example.com')).toBe(true);
+    expect(matchesOriginPattern('https://example.com.evil.io', '*.example.com')).toBe(false);
+  });
+
+  it('黑名单来源应该为高风险，白名单条目作为例外', async () => {
+    await settingsService.setOriginLists(['https://safe.phish.io'], ['*.phish.io']);
+
+    const blocked = await service.assess({ origin: 'https://app.phish.io', chainId: 5003 });
+    const trusted = await service.assess({ origin: 'https://safe.phish.io', chainId: 5003 });
+
+    expect(blocked).toMatchObject({ level: 'high', requiresAcknowledgement: true, trustedOrigin: false });
+    expect(blocked.reasons.map((reason) => reason.code)).toEqual(['ORIGIN_BLOCKLISTED']);
+    expect(trusted).toMatchObject({ level: 'low', reasons: [], trustedOrigin: true });
+  });
+
+  it('向无代码地址发起无限授权应该为高风险', async () => {
+    mockGetCode.mockResolvedValue(undefined);
+
+    const risk = await service.assess({
+      origin: 'https://dapp.example',
+      chainId: 5003,
+      accountAddress: ACCOUNT,
+      calls: [
+        {
+          to: TOKEN,
+          data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [SPENDER, maxUint256] }),
+          value: 0n,
+        },
+      ],
+    });
+
+    expect(risk.reasons.map((reason) => reason.code)).toEqual(['TARGET_NO_CODE', 'UNLIMITED_APPROVAL']);
+    expect(risk.score).toBe(80);
+    expect(risk.requiresAcknowledgement).toBe(true);
+  });
+
+  it('应该按安全提示级别判断大额转账，并识别首次收款地址', async () => {
+    await settingsService.setSecurityTipSettings(true, 'high');
+    const call = { to: RECIPIENT, data: '0x' as const, value: parseEther('0.5') };
+
+    const first = await service.assess({ origin: 'https://dapp.example', chainId: 5003, accountAddress: ACCOUNT, calls: [call] });
+    expect(first.reasons.map((reason) => reason.code)).toEqual(['FIRST_TIME_RECIPIENT', 'HIGH_VALUE']);
+    expect(first.level).toBe('medium');
+
+    await transactionHistoryService.addTransaction({
+      hash: '0xabc',
+      chainId: 5003,
+      from: ACCOUNT,
+      to: RECIPIENT,
+      value: parseEther('0.1'),
+      status: 'success',
+      timestamp: Date.now(),
+    });
+    await settingsService.setSecurityTipSettings(true, 'low');
+
+    const repeat = await service.assess({ origin: 'https://dapp.example', chainId: 5003, accountAddress: ACCOUNT, calls: [call] });
+    expect(repeat).toMatchObject({ score: 0, level: 'low', reasons: [] });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * ScheduledExecutorService 单元测试
+ *
+ * 测试执行器安装与调度编码、支出限额 Hook 的挂载、转出上限校验、链上状态读取与取消 / 触发
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeFunctionData,
+  parseAbi,
+  parseEther,
+  slice,
+  type Address,
+  type Hex,
+} from 'viem';
+import { ScheduledExecutorService, encodeTriggerCallData } from '../ScheduledExecutorService';
+import { NATIVE_TOKEN_ADDRESS, spendingLimitService, type SpendingLimitSettings } from '../SpendingLimitService';
+import { pluginService } from '../PluginService';
+import { transactionRelayer } from '../TransactionRelayer';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { PluginType } from '@/types/plugins';
+import { ErrorCode } from '@/utils/errors';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+const EXECUTOR = '0x6666666666666666666666666666666666666666' as Address;
+const USDC = '0x7777777777777777777777777777777777777777' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const HOOK = '0x4444444444444444444444444444444444444444' as Address;
+const OWNER_KEY = `0x${'11'.repeat(32)}` as Hex;
+const START_AT = 1_800_000_000;
+
+const executorAbi = parseAbi([
+  'function createSchedule(bytes32 scheduleId, address target, uint256 value, bytes data, uint48 startAt, uint48 interval, uint16 count, address token, uint256 maxAmount)',
+  'function cancelSchedule(bytes32 scheduleId)',
+  'function execute(address account, bytes32 scheduleId)',
+]);
+const erc20 = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
+
+const publicClient = {
+  readContract: vi.fn(),
+};
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+    entryPointAddress: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    scheduledExecutorAddress: '0x6666666666666666666666666666666666666666',
+  }),
+}));
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(() => publicClient),
+  },
+}));
+
+vi.mock('../PluginService', () => ({
+  pluginService: {
+    buildInstallCallData: vi.fn(() => '0x1nsta11'),
+    registerPlugin: vi.fn(),
+  },
+}));
+
+vi.mock('../TransactionRelayer', () => ({
+  transactionRelayer: {
+    sendTransaction: vi.fn(),
+    sendBatch: vi.fn(),
+  },
+}));
+
+vi.mock('../SpendingLimitService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../SpendingLimitService')>()),
+  spendingLimitService: {
+    getSettings: vi.fn(),
+    isRootHookAttached: vi.fn(),
+    assertScheduleWithinLimits: vi.fn(),
+  },
+}));
+
+/** 链上 getSchedule 返回值 */
+function onChainSchedule(overrides: Record<string, unknown> = {}) {
+  return {
+    startAt: START_AT,
+    interval: 30 * 24 * 3600,
+    count: 12,
+    executedCount: 0,
+    lastExecutedAt: 0,
+    spent: BigInt(0),
+    cancelled: false,
+    ...overrides,
+  };
+}
+
+describe('ScheduledExecutorService', () => {
+  let service: ScheduledExecutorService;
+
+  const createMonthlyPayroll = () =>
+    service.createSchedule(
+      {
+        accountAddress: ACCOUNT,
+        chainId: 5000,
+        label: '工资',
+        target: USDC,
+        value: BigInt(0),
+        data: encodeFunctionData({ abi: erc20, functionName: 'transfer', args: [RECIPIENT, BigInt(1000_000000)] }),
+        startAt: START_AT,
+        interval: 30 * 24 * 3600,
+        count: 12,
+      },
+      OWNER_KEY
+    );
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValue('0xsent');
+    vi.mocked(transactionRelayer.sendBatch).mockResolvedValue('0xbatch');
+    vi.mocked(spendingLimitService.getSettings).mockResolvedValue(null);
+    service = new ScheduledExecutorService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('执行器未安装时应该与创建调度合并为一笔批量操作，并以 ERC-20 转出总额作为默认上限', async () => {
+    publicClient.readContract.mockRejectedValueOnce(new Error('account not deployed'));
+
+    const schedule = await createMonthlyPayroll();
+
+    const [plugin, config] = vi.mocked(pluginService.buildInstallCallData).mock.calls[0];
+    expect(plugin).toMatchObject({ id: 'scheduled-executor', type: PluginType.EXECUTOR, address: EXECUTOR });
+    // hook 占位地址 address(1) 之后为 abi.encode(executorData, hookData)
+    expect(slice(config.installData!, 0, 20)).toBe('0x0000000000000000000000000000000000000001');
+    expect(pluginService.registerPlugin).toHaveBeenCalledWith(expect.objectContaining({ installed: true }));
+
+    // 安装在前、创建调度在后，同一 nonce 通道上的一笔操作
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+    const [account, chainId, calls, signer, , options] = vi.mocked(transactionRelayer.sendBatch).mock.calls[0];
+    expect([account, chainId, signer]).toEqual([ACCOUNT, 5000, OWNER_KEY]);
+    expect(options).toEqual({ nonceChannel: 'scheduled-executor' });
+    expect(calls.map((call) => call.to)).toEqual([ACCOUNT, EXECUTOR]);
+    expect(calls[0].data).toBe('0x1nsta11');
+    const decoded = decodeFunctionData({ abi: executorAbi, data: calls[1].data as Hex });
+    expect(decoded.functionName).toBe('createSchedule');
+    expect(decoded.args).toEqual([
+      schedule.id,
+      USDC,
+      BigInt(0),
+      schedule.data,
+      START_AT,
+      30 * 24 * 3600,
+      12,
+      USDC.toLowerCase(),
+      BigInt(12_000_000000),
+    ]);
+
+    const [stored] = await service.getSchedules(ACCOUNT, 5000);
+    expect(stored).toMatchObject({ id: schedule.id, maxAmount: BigInt(12_000_000000), txHash: '0xbatch' });
+
+    // 已安装时只发送创建调度，且每个调度的 ID 不同
+    publicClient.readContract.mockResolvedValueOnce(true);
+    const second = await createMonthlyPayroll();
+    expect(pluginService.buildInstallCallData).toHaveBeenCalledTimes(1);
+    const [, , to, data, , , , sendOptions] = vi.mocked(transactionRelayer.sendTransaction).mock.calls[0];
+    expect([to, sendOptions]).toEqual([EXECUTOR, { nonceChannel: 'scheduled-executor' }]);
+    expect(decodeFunctionData({ abi: executorAbi, data: data as Hex }).args[0]).toBe(second.id);
+    expect(second.id).not.toBe(schedule.id);
+    expect(spendingLimitService.assertScheduleWithinLimits).toHaveBeenCalledTimes(2);
+  });
+
+  it('启用支出限额时执行器应该以支出限额 Hook 安装，已安装且不经过 Hook 时按限额检查转出上限', async () => {
+    vi.mocked(spendingLimitService.getSettings).mockResolvedValue({ hookAddress: HOOK } as SpendingLimitSettings);
+    vi.mocked(spendingLimitService.isRootHookAttached).mockResolvedValue(true);
+    publicClient.readContract.mockResolvedValueOnce(false);
+
+    await createMonthlyPayroll();
+
+    const [, config] = vi.mocked(pluginService.buildInstallCallData).mock.calls[0];
+    expect(slice(config.installData!, 0, 20)).toBe(HOOK);
+    // hookData 为 0x00：复用已初始化的 Hook，不重置限额
+    expect(decodeAbiParameters([{ type: 'bytes' }, { type: 'bytes' }], slice(config.installData!, 20))).toEqual([
+      '0x',
+      '0x00',
+    ]);
+    expect(spendingLimitService.assertScheduleWithinLimits).not.toHaveBeenCalled();
+
+    // 已安装但执行器的 hook 不是支出限额 Hook
+    publicClient.readContract
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce({ hook: '0x0000000000000000000000000000000000000001' });
+    vi.mocked(spendingLimitService.assertScheduleWithinLimits).mockRejectedValueOnce(new Error('超过支出限额'));
+    await expect(createMonthlyPayroll()).rejects.toThrow('超过支出限额');
+    expect(spendingLimitService.assertScheduleWithinLimits).toHaveBeenCalledWith(
+      ACCOUNT,
+      5000,
+      USDC.toLowerCase(),
+      BigInt(12_000_000000)
+    );
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('应该拒绝无法执行的调度参数', async () => {
+    publicClient.readContract.mockResolvedValue(true);
+    const base = {
+      accountAddress: ACCOUNT,
+      chainId: 5000,
+      label: '订阅',
+      target: RECIPIENT,
+      value: parseEther('1'),
+      data: '0x' as Hex,
+      startAt: START_AT,
+      interval: 3600,
+      count: 3,
+    };
+
+    await expect(service.createSchedule({ ...base, maxAmount: parseEther('0.5') }, OWNER_KEY)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+    await expect(service.createSchedule({ ...base, interval: 0 }, OWNER_KEY)).rejects.toThrow('间隔必须大于 0');
+    await expect(
+      service.createSchedule(
+        {
+          ...base,
+          target: USDC,
+          data: encodeFunctionData({ abi: erc20, functionName: 'transfer', args: [RECIPIENT, BigInt(1)] }),
+        },
+        OWNER_KEY
+      )
+    ).rejects.toThrow('只能转出一种代币');
+
+    // 单次延迟交易：间隔为 0、次数为 1
+    const once = await service.createSchedule({ ...base, interval: 0, count: 1 }, OWNER_KEY);
+    expect(once).toMatchObject({ token: NATIVE_TOKEN_ADDRESS, maxAmount: parseEther('1') });
+  });
+
+  it('应该从链上读取下次执行时间与剩余次数，只在到期时允许触发', async () => {
+    publicClient.readContract.mockResolvedValueOnce(true);
+    const schedule = await createMonthlyPayroll();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    vi.setSystemTime((START_AT + 30 * 24 * 3600 - 60) * 1000);
+    publicClient.readContract.mockResolvedValue(
+      onChainSchedule({ executedCount: 1, lastExecutedAt: START_AT + 5, spent: BigInt(1000_000000) })
+    );
+    expect(await service.getScheduleStatus(schedule)).toEqual({
+      state: 'waiting',
+      executedCount: 1,
+      remainingCount: 11,
+      spent: BigInt(1000_000000),
+      lastExecutedAt: START_AT + 5,
+      nextExecutionAt: START_AT + 30 * 24 * 3600,
+    });
+    expect(publicClient.readContract).toHaveBeenLastCalledWith(
+      expect.objectContaining({ address: EXECUTOR, functionName: 'getSchedule', args: [ACCOUNT, schedule.id] })
+    );
+    await expect(service.triggerSchedule(ACCOUNT, 5000, schedule.id, OWNER_KEY)).rejects.toThrow('后可执行');
+
+    vi.setSystemTime((START_AT + 30 * 24 * 3600) * 1000);
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xtrigger');
+    expect(await service.triggerSchedule(ACCOUNT, 5000, schedule.id, OWNER_KEY)).toBe('0xtrigger');
+    expect(vi.mocked(transactionRelayer.sendTransaction).mock.calls.at(-1)?.[3]).toBe(
+      encodeTriggerCallData(ACCOUNT, schedule.id)
+    );
+
+    publicClient.readContract.mockResolvedValue(onChainSchedule({ executedCount: 12 }));
+    expect(await service.getScheduleStatus(schedule)).toMatchObject({ state: 'completed', remainingCount: 0 });
+    publicClient.readContract.mockResolvedValue(onChainSchedule({ cancelled: true }));
+    expect((await service.getScheduleStatus(schedule)).state).toBe('cancelled');
+  });
+
+  it('取消调度应该调用执行器并记录取消交易', async () => {
+    publicClient.readContract.mockResolvedValueOnce(true);
+    const schedule = await createMonthlyPayroll();
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xcancel');
+
+    expect(await service.cancelSchedule(ACCOUNT, 5000, schedule.id, OWNER_KEY)).toBe('0xcancel');
+
+    const [, , to, data] = vi.mocked(transactionRelayer.sendTransaction).mock.calls.at(-1)!;
+    expect(to).toBe(EXECUTOR);
+    expect(decodeFunctionData({ abi: executorAbi, data: data as Hex })).toEqual({
+      functionName: 'cancelSchedule',
+      args: [schedule.id],
+    });
+    const [stored] = await service.getSchedules(ACCOUNT, 5000);
+    expect(stored.cancelTxHash).toBe('0xcancel');
+    await expect(service.cancelSchedule(ACCOUNT, 5000, schedule.id, OWNER_KEY)).rejects.toThrow('调度已取消');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * ScheduledTransactionService 单元测试
+ *
+ * 测试条件交易与延迟交易的持久化、重新加载后恢复监控、Service Worker 检查请求与执行结果记录
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeFunctionData, parseAbi, parseEther, type Address, type Hex } from 'viem';
+import { ScheduledTransactionService } from '../ScheduledTransactionService';
+import { transactionRelayer } from '../TransactionRelayer';
+import { ConditionType } from '@/plugins/ConditionalTransactionPlugin';
+import { monitoringServiceWorker } from '@/serviceWorker/MonitoringServiceWorker';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { StorageKey } from '@/types';
+import { getAccountOwnerPrivateKey } from '@/utils/getPrivateKey';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+const PLUGIN = '0x5555555555555555555555555555555555555555' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const OWNER_KEY = `0x${'11'.repeat(32)}` as Hex;
+
+const publicClient = {
+  getBlock: vi.fn(),
+};
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(() => publicClient),
+  },
+}));
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+  }),
+}));
+
+vi.mock('../TransactionRelayer', () => ({
+  transactionRelayer: {
+    sendTransaction: vi.fn(),
+    sendBatch: vi.fn(),
+  },
+}));
+
+vi.mock('@/serviceWorker/MonitoringServiceWorker', () => ({
+  monitoringServiceWorker: {
+    isAvailable: vi.fn().mockReturnValue(true),
+    onMessage: vi.fn(),
+    startScheduledMonitoring: vi.fn(),
+    stopMonitoring: vi.fn(),
+  },
+}));
+
+vi.mock('@/utils/getPrivateKey', () => ({
+  getAccountOwnerPrivateKey: vi.fn(),
+}));
+
+const delayedAbi = parseAbi([
+  'function schedule(bytes32 transactionHash, address target, uint256 value, bytes data, uint256 delay)',
+  'function cancel(bytes32 transactionHash)',
+]);
+
+describe('ScheduledTransactionService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    vi.mocked(monitoringServiceWorker.isAvailable).mockReturnValue(true);
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValue('0xsent');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('应该持久化条件交易，重新加载后恢复监控，并在 Service Worker 请求检查时标记为 ready', async () => {
+    const service = new ScheduledTransactionService();
+    await service.init();
+    const plugin = await service.getConditionalPlugin(PLUGIN);
+    const created = await plugin.createConditionalTransaction(ACCOUNT, 5000, {
+      conditions: [{ type: ConditionType.TIMESTAMP, params: {}, operator: 'gte', expectedValue: 1_700_000_000 }],
+      target: RECIPIENT,
+      data: '0x',
+      value: parseEther('0.1'),
+    });
+
+    // 模拟页面重新加载
+    const reloaded = new ScheduledTransactionService();
+    await reloaded.init();
+    const [restored] = reloaded.getConditionalTransactions(ACCOUNT, 5000);
+    expect(restored).toMatchObject({ id: created.id, status: 'monitoring', config: { value: parseEther('0.1') } });
+    expect(monitoringServiceWorker.startScheduledMonitoring).toHaveBeenLastCalledWith({
+      taskId: created.id,
+      kind: 'conditional-transaction',
+      interval: 5000,
+    });
+
+    publicClient.getBlock.mockResolvedValue({ timestamp: BigInt(1_700_000_001) });
+    const [, handler] = vi.mocked(monitoringServiceWorker.onMessage).mock.calls.at(-1)!;
+    handler({ taskId: created.id, kind: 'conditional-transaction' });
+
+    await vi.waitFor(() => expect(restored.status).toBe('ready'));
+    expect(restored.history.map((entry) => entry.status)).toEqual(['pending', 'monitoring', 'ready']);
+    expect(monitoringServiceWorker.stopMonitoring).toHaveBeenCalledWith(created.id);
+    await vi.waitFor(async () => {
+      const stored = await storageAdapter.get<{ status: string }[]>(StorageKey.CONDITIONAL_TRANSACTIONS);
+      expect(stored?.[0].status).toBe('ready');
+    });
+  });
+
+  it('到期的延迟交易应该以会话私钥自动执行，失败时记录错误并允许手动重试', async () => {
+    const service = new ScheduledTransactionService();
+    const plugin = await service.getDelayedPlugin(PLUGIN);
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xschedule');
+    const scheduled = await plugin.scheduleTransaction(
+      ACCOUNT,
+      5000,
+      { delaySeconds: 60, target: RECIPIENT, data: '0x', value: BigInt(1) },
+      OWNER_KEY
+    );
+
+    expect(monitoringServiceWorker.startScheduledMonitoring).toHaveBeenCalledWith({
+      taskId: scheduled.id,
+      kind: 'delayed-transaction',
+      dueAt: scheduled.scheduledAt,
+      interval: 5000,
+    });
+    expect(await plugin.checkTransaction(scheduled.id)).toBe(false);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    vi.mocked(getAccountOwnerPrivateKey).mockResolvedValue(OWNER_KEY);
+    vi.mocked(transactionRelayer.sendTransaction).mockRejectedValueOnce(new Error('bundler down'));
+
+    expect(await plugin.checkTransaction(scheduled.id)).toBe(true);
+    expect(scheduled).toMatchObject({ status: 'failed', error: 'bundler down' });
+
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xexecute');
+    await plugin.executeTransaction(scheduled, OWNER_KEY);
+
+    const reloaded = new ScheduledTransactionService();
+    await reloaded.init();
+    const [restored] = reloaded.getDelayedTransactions(ACCOUNT, 5000);
+    expect(restored).toMatchObject({ status: 'executed', txHash: '0xexecute', error: undefined });
+    expect(restored.history.map((entry) => [entry.status, entry.txHash ?? entry.error])).toEqual([
+      ['scheduled', '0xschedule'],
+      ['failed', 'bundler down'],
+      ['executed', '0xexecute'],
+    ]);
+    // 已执行的交易不再恢复监控
+    expect(monitoringServiceWorker.startScheduledMonitoring).toHaveBeenCalledTimes(1);
+  });
+
+  it('重新调度应该在同一笔批量交易中取消旧调度并以新配置调度', async () => {
+    const service = new ScheduledTransactionService();
+    const plugin = await service.getDelayedPlugin(PLUGIN);
+    const scheduled = await plugin.scheduleTransaction(
+      ACCOUNT,
+      5000,
+      { delaySeconds: 60, target: RECIPIENT, data: '0x', value: BigInt(1) },
+      OWNER_KEY
+    );
+    vi.mocked(transactionRelayer.sendBatch).mockResolvedValue('0xbatch');
+
+    const updated = await plugin.rescheduleTransaction(
+      scheduled.id,
+      { delaySeconds: 3600, target: RECIPIENT, data: '0x', value: BigInt(2) },
+      OWNER_KEY
+    );
+
+    const [, , calls] = vi.mocked(transactionRelayer.sendBatch).mock.calls[0];
+    expect(calls.map((call) => call.to)).toEqual([PLUGIN, PLUGIN]);
+    const [cancel, schedule] = calls.map((call) => decodeFunctionData({ abi: delayedAbi, data: call.data as Hex }));
+    expect(cancel.functionName).toBe('cancel');
+    expect(schedule.functionName).toBe('schedule');
+    expect(schedule.args?.slice(1)).toEqual([RECIPIENT, BigInt(2), '0x', BigInt(3600)]);
+    expect(cancel.args?.[0]).not.toBe(schedule.args?.[0]);
+
+    expect(updated).toMatchObject({ status: 'scheduled', txHash: '0xbatch', config: { delaySeconds: 3600 } });
+    expect(updated.scheduledAt).toBeGreaterThan(scheduled.createdAt + 3599 * 1000);
+    expect(updated.history).toHaveLength(2);
+  });
+});
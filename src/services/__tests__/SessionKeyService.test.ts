@@ -0,0 +1,339 @@
+/**
+ * SessionKeyService 单元测试
+ *
+ * 测试会话密钥的安装数据、安装确认、授权范围检查、以会话密钥发送、额度结算与撤销确认
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeFunctionData, encodeFunctionData, parseAbi, parseEther, slice, type Address, type Hex } from 'viem';
+import { SessionKeyService, getSessionKeyPluginId, type SessionKeyScope } from '../SessionKeyService';
+import { pluginService } from '../PluginService';
+import { securityVault } from '../SecurityVault';
+import { spendingLimitService } from '../SpendingLimitService';
+import { transactionRelayer } from '../TransactionRelayer';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { PluginType } from '@/types/plugins';
+import { ErrorCode } from '@/utils/errors';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+const VALIDATOR = '0x9999999999999999999999999999999999999999' as Address;
+const GAME = '0x3333333333333333333333333333333333333333' as Address;
+const OWNER_KEY = `0x${'11'.repeat(32)}` as Hex;
+const MINT_SELECTOR = '0xa0712d68' as Hex;
+const TOKEN = '0x4444444444444444444444444444444444444444' as Address;
+const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+]);
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+    entryPointAddress: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    sessionKeyValidatorAddress: '0x9999999999999999999999999999999999999999',
+  }),
+}));
+
+vi.mock('../PluginService', () => ({
+  pluginService: {
+    installPlugin: vi.fn(),
+    uninstallPlugin: vi.fn(),
+  },
+}));
+
+vi.mock('../TransactionRelayer', () => ({
+  transactionRelayer: {
+    sendTransaction: vi.fn(),
+    getUserOperationReceipt: vi.fn(),
+  },
+}));
+
+vi.mock('../SpendingLimitService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../SpendingLimitService')>()),
+  spendingLimitService: {
+    getSettings: vi.fn(),
+  },
+}));
+
+vi.mock('../SecurityVault', () => ({
+  securityVault: {
+    setItem: vi.fn(),
+    getItem: vi.fn(),
+    removeItem: vi.fn(),
+  },
+}));
+
+function scope(overrides: Partial<SessionKeyScope> = {}): SessionKeyScope {
+  return {
+    permissions: [{ target: GAME, selectors: [MINT_SELECTOR], maxValuePerCall: parseEther('0.1') }],
+    totalValueLimit: parseEther('0.15'),
+    validUntil: Math.floor(Date.now() / 1000) + 3600,
+    ...overrides,
+  };
+}
+
+/** 安装操作的回执 */
+function receipt(success: boolean, reason?: string) {
+  return { success, reason } as Awaited<ReturnType<typeof transactionRelayer.getUserOperationReceipt>>;
+}
+
+describe('SessionKeyService', () => {
+  let service: SessionKeyService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    vi.mocked(pluginService.installPlugin).mockResolvedValue('0xinstall');
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValue('0xsent');
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(true));
+    vi.mocked(spendingLimitService.getSettings).mockResolvedValue(null);
+    service = new SessionKeyService();
+    await service.init();
+  });
+
+  it('应该生成会话密钥、加密保存私钥，并以验证器模块安装到账户', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+
+    expect(record).toMatchObject({ validator: VALIDATOR, installTxHash: '0xinstall', spentValue: 0n });
+    expect(service.getStatus(record)).toBe('pending');
+    expect(securityVault.setItem).toHaveBeenCalledWith(`session_key_${record.id}`, expect.stringMatching(/^0x/), 'pw');
+
+    const [account, chainId, plugin, config, signer] = vi.mocked(pluginService.installPlugin).mock.calls[0];
+    expect([account, chainId, signer]).toEqual([ACCOUNT, 5000, OWNER_KEY]);
+    expect(plugin).toMatchObject({
+      id: getSessionKeyPluginId(record.address),
+      type: PluginType.VALIDATOR,
+      address: VALIDATOR,
+    });
+    expect(plugin.uninstallData).toBeUndefined();
+    // hook 占位地址之后为 abi.encode(validatorData, hookData, selectorData)
+    expect(slice(config.installData as Hex, 0, 20)).toBe('0x0000000000000000000000000000000000000001');
+    expect(config.installData?.toLowerCase()).toContain(record.address.slice(2).toLowerCase());
+
+    // 重新加载后记录仍在，私钥需重新解锁
+    const reloaded = new SessionKeyService();
+    await reloaded.init();
+    expect(reloaded.getSessionKeys(ACCOUNT, 5000)).toHaveLength(1);
+    expect(reloaded.isUnlocked(record.id)).toBe(false);
+  });
+
+  it('安装失败时应该删除已保存的会话私钥', async () => {
+    vi.mocked(pluginService.installPlugin).mockRejectedValue(new Error('bundler down'));
+
+    await expect(
+      service.createSessionKey(
+        { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+        OWNER_KEY
+      )
+    ).rejects.toThrow('bundler down');
+    expect(securityVault.removeItem).toHaveBeenCalledWith(expect.stringMatching(/^session_key_0x/));
+    expect(service.getSessionKeys(ACCOUNT, 5000)).toHaveLength(0);
+  });
+
+  it('账户启用支出限额后不能创建或使用会话密钥', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    vi.mocked(spendingLimitService.getSettings).mockResolvedValue(
+      {} as Awaited<ReturnType<typeof spendingLimitService.getSettings>>
+    );
+
+    await expect(
+      service.createSessionKey(
+        { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+        OWNER_KEY
+      )
+    ).rejects.toThrow('支出限额');
+    await expect(
+      service.sendTransaction(record.id, GAME, `${MINT_SELECTOR}${'00'.repeat(32)}` as Hex)
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(pluginService.installPlugin).toHaveBeenCalledTimes(1);
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('安装操作上链成功后才生效，执行失败时删除本地私钥', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    const mintData = `${MINT_SELECTOR}${'00'.repeat(32)}` as Hex;
+
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(null);
+    await expect(service.sendTransaction(record.id, GAME, mintData)).rejects.toThrow('尚未在链上生效');
+    expect(transactionRelayer.getUserOperationReceipt).toHaveBeenCalledWith(5000, '0xinstall');
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(true));
+    expect(await service.syncInstallation(record.id)).toBe('active');
+    await service.sendTransaction(record.id, GAME, mintData);
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledTimes(1);
+
+    const failed = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game 2', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(false, 'AA23 reverted'));
+    expect(await service.syncInstallation(failed.id)).toBe('failed');
+    expect(service.getSessionKey(failed.id)?.installError).toBe('AA23 reverted');
+    expect(service.isUnlocked(failed.id)).toBe(false);
+    expect(securityVault.removeItem).toHaveBeenCalledWith(`session_key_${failed.id}`);
+  });
+
+  it('应该拒绝授权范围外的目标、函数与金额，并以验证器 nonce 发送范围内的调用', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    const mintData = `${MINT_SELECTOR}${'00'.repeat(32)}` as Hex;
+
+    await expect(service.sendTransaction(record.id, ACCOUNT, mintData)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+    await expect(service.sendTransaction(record.id, GAME, '0x12345678')).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+    await expect(service.sendTransaction(record.id, GAME, mintData, parseEther('0.2'))).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+
+    await service.sendTransaction(record.id, GAME, mintData, parseEther('0.1'));
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledWith(
+      ACCOUNT,
+      5000,
+      GAME,
+      mintData,
+      expect.stringMatching(/^0x/),
+      parseEther('0.1'),
+      undefined,
+      { validator: VALIDATOR }
+    );
+    // 回执确认前只占用额度，不计入已用
+    expect(service.getSessionKey(record.id)).toMatchObject({
+      spentValue: 0n,
+      pendingSpends: [{ txHash: '0xsent', value: parseEther('0.1'), tokens: {} }],
+    });
+
+    // 累计上限 0.15（发送前按回执结算，成功的操作计入已用）
+    await expect(service.sendTransaction(record.id, GAME, mintData, parseEther('0.1'))).rejects.toThrow('累计上限');
+    expect(service.getSessionKey(record.id)).toMatchObject({ spentValue: parseEther('0.1'), pendingSpends: [] });
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('执行失败的操作应该释放占用的额度，未确认的操作继续占用', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    const mintData = `${MINT_SELECTOR}${'00'.repeat(32)}` as Hex;
+    await service.syncInstallation(record.id);
+
+    await service.sendTransaction(record.id, GAME, mintData, parseEther('0.1'));
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(null);
+    await expect(service.sendTransaction(record.id, GAME, mintData, parseEther('0.1'))).rejects.toThrow('累计上限');
+
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(false, 'reverted'));
+    await service.sendTransaction(record.id, GAME, mintData, parseEther('0.1'));
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(service.getSessionKey(record.id)?.spentValue).toBe(0n);
+  });
+
+  it('ERC-20 转出与授权应该受代币累计上限约束，未声明的代币不能转出', async () => {
+    const tokenScope = scope({
+      permissions: [{ target: TOKEN, selectors: [], maxValuePerCall: 0n }],
+      tokenLimits: [{ token: TOKEN, totalLimit: 100n }],
+    });
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Token', scope: tokenScope, password: 'pw' },
+      OWNER_KEY
+    );
+    const transfer = (amount: bigint) =>
+      encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [GAME, amount] });
+    const approve = (amount: bigint) =>
+      encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [GAME, amount] });
+
+    await service.sendTransaction(record.id, TOKEN, transfer(60n));
+    expect(service.getSessionKey(record.id)?.pendingSpends?.[0].tokens).toEqual({ [TOKEN.toLowerCase()]: 60n });
+    await expect(service.sendTransaction(record.id, TOKEN, approve(50n))).rejects.toThrow('代币转出金额超过');
+    await service.sendTransaction(record.id, TOKEN, approve(40n));
+    expect(service.getSessionKey(record.id)?.spentTokens).toEqual({ [TOKEN.toLowerCase()]: 60n });
+
+    const untracked = await service.createSessionKey(
+      {
+        accountAddress: ACCOUNT,
+        chainId: 5000,
+        label: 'Game',
+        scope: scope({ permissions: tokenScope.permissions }),
+        password: 'pw',
+      },
+      OWNER_KEY
+    );
+    await expect(service.sendTransaction(untracked.id, TOKEN, transfer(1n))).rejects.toThrow('未授权转出代币');
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('不支持以 ERC-20 支付 Gas', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+
+    await expect(
+      service.sendTransaction(record.id, GAME, `${MINT_SELECTOR}${'00'.repeat(32)}` as Hex, 0n, {
+        gasToken: TOKEN,
+      } as Parameters<typeof service.sendTransaction>[4])
+    ).rejects.toThrow('不支持以 ERC-20 支付 Gas');
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('撤销时应该以 owner 私钥调用验证器移除该密钥（不卸载验证器），回执确认后删除本地私钥', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xrevoke');
+
+    const txHash = await service.revokeSessionKey(record.id, OWNER_KEY);
+
+    expect(txHash).toBe('0xrevoke');
+    expect(pluginService.uninstallPlugin).not.toHaveBeenCalled();
+    const [account, chainId, to, data, signer] = vi.mocked(transactionRelayer.sendTransaction).mock.calls[0];
+    expect([account, chainId, to, signer]).toEqual([ACCOUNT, 5000, VALIDATOR, OWNER_KEY]);
+    expect(
+      decodeFunctionData({ abi: parseAbi(['function revokeSessionKey(address sessionKey)']), data: data as Hex })
+    ).toEqual({ functionName: 'revokeSessionKey', args: [record.address] });
+    expect(service.getStatus(service.getSessionKey(record.id)!)).toBe('revoking');
+    expect(service.isUnlocked(record.id)).toBe(false);
+    expect(securityVault.removeItem).not.toHaveBeenCalled();
+    await expect(service.revokeSessionKey(record.id, OWNER_KEY)).rejects.toThrow('正在撤销');
+    await expect(service.sendTransaction(record.id, GAME, MINT_SELECTOR)).rejects.toMatchObject({
+      code: ErrorCode.AUTH_ERROR,
+    });
+
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(null);
+    expect(await service.syncRevocation(record.id)).toBe('revoking');
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(true));
+    expect(await service.syncRevocation(record.id)).toBe('revoked');
+    expect(transactionRelayer.getUserOperationReceipt).toHaveBeenLastCalledWith(5000, '0xrevoke');
+    expect(securityVault.removeItem).toHaveBeenCalledWith(`session_key_${record.id}`);
+  });
+
+  it('撤销操作执行失败时应该恢复可用并保留本地私钥', async () => {
+    const record = await service.createSessionKey(
+      { accountAddress: ACCOUNT, chainId: 5000, label: 'Game', scope: scope(), password: 'pw' },
+      OWNER_KEY
+    );
+    await service.syncInstallation(record.id);
+    await service.revokeSessionKey(record.id, OWNER_KEY);
+
+    vi.mocked(transactionRelayer.getUserOperationReceipt).mockResolvedValue(receipt(false, 'reverted'));
+    expect(await service.syncRevocation(record.id)).toBe('active');
+    expect(service.getSessionKey(record.id)?.revokeTxHash).toBeUndefined();
+    expect(securityVault.removeItem).not.toHaveBeenCalled();
+  });
+});
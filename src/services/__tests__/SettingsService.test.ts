@@ -153,6 +153,25 @@ describe('SettingsService', () => {
     });
   });
 
+  describe('Bundler 节点设置', () => {
+    it('应该按链保存去重后的 Bundler 地址', async () => {
+      await settingsService.setBundlerEndpoints(5000, [
+        ' https://bundler.example.com/ ',
+        'https://bundler.example.com',
+        '',
+      ]);
+
+      expect(await settingsService.getBundlerEndpoints(5000)).toEqual(['https://bundler.example.com']);
+      expect(await settingsService.getBundlerEndpoints(5003)).toEqual([]);
+    });
+
+    it('应该拒绝非 http(s) 地址', async () => {
+      await expect(settingsService.setBundlerEndpoints(5000, ['ws://bundler.example.com'])).rejects.toThrow(
+        'Invalid bundler URL'
+      );
+    });
+  });
+
   describe('持久化', () => {
     it('应该持久化设置到存储', async () => {
       await settingsService.setAutoLockDelay(20);
@@ -0,0 +1,84 @@
+/**
+ * SignatureService 智能账户签名测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hashMessage, recoverAddress, slice, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { SignatureService } from '../SignatureService';
+import { getKernelReplaySafeHash, ERC6492_MAGIC_BYTES } from '@/utils/kernel';
+import type { AccountInfo } from '@/types';
+
+const mockGetFactoryData = vi.fn();
+
+vi.mock('../AccountManager', () => ({
+  accountManager: {
+    getFactoryData: (...args: unknown[]) => mockGetFactoryData(...args),
+  },
+}));
+
+const PRIVATE_KEY = '0x1234567890123456789012345678901234567890123456789012345678901234' as Hex;
+const owner = privateKeyToAccount(PRIVATE_KEY).address;
+
+function createAccount(status: AccountInfo['status']): AccountInfo {
+  return {
+    address: '0x1111111111111111111111111111111111111111',
+    chainId: 5003,
+    owner,
+    createdAt: Date.now(),
+    status,
+  };
+}
+
+describe('SignatureService 智能账户签名', () => {
+  let signatureService: SignatureService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signatureService = new SignatureService();
+    mockGetFactoryData.mockResolvedValue({
+      factory: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      factoryData: '0xdeadbeef',
+    });
+  });
+
+  it('已部署账户应返回根验证器前缀 + 对 replay-safe hash 的 owner 签名', async () => {
+    const account = createAccount('deployed');
+
+    const signature = await signatureService.smartAccountPersonalSign('Sign in', account, PRIVATE_KEY);
+
+    expect(slice(signature, 0, 1)).toBe('0x00');
+    const replaySafeHash = getKernelReplaySafeHash(hashMessage('Sign in'), account.address as Hex, 5003);
+    const recovered = await recoverAddress({ hash: replaySafeHash, signature: slice(signature, 1) });
+    expect(recovered).toBe(owner);
+    expect(mockGetFactoryData).not.toHaveBeenCalled();
+  });
+
+  it('hex 消息应按原始字节计算 EIP-191 哈希', async () => {
+    const account = createAccount('deployed');
+
+    const signature = await signatureService.smartAccountPersonalSign('0x68656c6c6f', account, PRIVATE_KEY);
+
+    const replaySafeHash = getKernelReplaySafeHash(hashMessage('hello'), account.address as Hex, 5003);
+    const recovered = await recoverAddress({ hash: replaySafeHash, signature: slice(signature, 1) });
+    expect(recovered).toBe(owner);
+  });
+
+  it('predicted 账户应返回 ERC-6492 包装签名', async () => {
+    const account = createAccount('predicted');
+
+    const signature = await signatureService.smartAccountSignTypedData(
+      {
+        domain: { name: 'App', version: '1', chainId: 5003 },
+        types: { Person: [{ name: 'name', type: 'string' }] },
+        primaryType: 'Person',
+        message: { name: 'Alice' },
+      },
+      account,
+      PRIVATE_KEY
+    );
+
+    expect(mockGetFactoryData).toHaveBeenCalledWith(owner, 5003);
+    expect(signature.endsWith(ERC6492_MAGIC_BYTES.slice(2))).toBe(true);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * SpendingLimitService 单元测试
+ *
+ * 测试转出统计、Hook 挂载到根验证的安装数据、本地限额检查、降低 / 提高限额的审批流程
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeFunctionData,
+  parseAbi,
+  parseEther,
+  slice,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  NATIVE_TOKEN_ADDRESS,
+  SpendingLimitService,
+  getTokenOutflows,
+  isLimitIncrease,
+  type SpendingLimit,
+} from '../SpendingLimitService';
+import { guardianService, type GuardianProposal } from '../GuardianService';
+import { sessionKeyService, type SessionKey } from '../SessionKeyService';
+import { transactionRelayer } from '../TransactionRelayer';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+import { ErrorCode } from '@/utils/errors';
+import { KERNEL_VALIDATION_ABI } from '@/utils/kernel';
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+const HOOK = '0x4444444444444444444444444444444444444444' as Address;
+const USDC = '0x7777777777777777777777777777777777777777' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const OWNER_KEY = `0x${'11'.repeat(32)}` as Hex;
+const RECOVERY_PLUGIN = '0x3333333333333333333333333333333333333333' as Address;
+const ROOT_VALIDATOR = '0x015555555555555555555555555555555555555555' as Hex;
+
+const erc20 = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+]);
+const hookAbi = parseAbi([
+  'function setSpendingLimit(address token, uint256 limit, uint48 period)',
+  'function applyLimitIncrease(address token)',
+  'function approveLimitIncrease(address account, address token)',
+  'function cancelLimitIncrease(address token)',
+]);
+const installParameters = [
+  { type: 'uint48' },
+  { type: 'address' },
+  { type: 'tuple[]', components: [{ type: 'address' }, { type: 'uint256' }, { type: 'uint48' }] },
+] as const;
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+    entryPointAddress: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    spendingLimitHookAddress: '0x4444444444444444444444444444444444444444',
+    recoveryPluginAddress: '0x3333333333333333333333333333333333333333',
+  }),
+}));
+
+/** 根验证：配置 nonce 1，账户 currentNonce 1，hook 为 rootHook */
+let rootHook: Address = '0x0000000000000000000000000000000000000001';
+const publicClient = {
+  readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+    if (functionName === 'rootValidator') return ROOT_VALIDATOR;
+    if (functionName === 'currentNonce') return 1;
+    return { nonce: 1, hook: rootHook };
+  }),
+};
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(() => publicClient),
+  },
+}));
+
+vi.mock('../TransactionRelayer', () => ({
+  transactionRelayer: {
+    sendTransaction: vi.fn(),
+  },
+}));
+
+vi.mock('../GuardianService', () => ({
+  guardianService: {
+    proposeSpendingLimitIncrease: vi.fn(),
+    cancelProposal: vi.fn(),
+  },
+}));
+
+vi.mock('../SessionKeyService', () => ({
+  sessionKeyService: {
+    getSessionKeys: vi.fn(() => []),
+    getStatus: vi.fn(() => 'active'),
+  },
+}));
+
+const nativeDaily: SpendingLimit = {
+  token: NATIVE_TOKEN_ADDRESS,
+  symbol: 'MNT',
+  decimals: 18,
+  amount: parseEther('1'),
+  period: 'daily',
+};
+
+const usdcWeekly: SpendingLimit = {
+  token: USDC,
+  symbol: 'USDC',
+  decimals: 6,
+  amount: BigInt(500_000000),
+  period: 'weekly',
+};
+
+function transfer(to: Address, amount: bigint): Hex {
+  return encodeFunctionData({ abi: erc20, functionName: 'transfer', args: [to, amount] });
+}
+
+describe('SpendingLimitService', () => {
+  let service: SpendingLimitService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValue('0xsent');
+    service = new SpendingLimitService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('应该统计原生代币、ERC-20 transfer 与以账户为 from 的 transferFrom，并识别放宽的限额', () => {
+    const outflows = getTokenOutflows(ACCOUNT, [
+      { to: RECIPIENT, value: parseEther('0.5'), data: '0x' },
+      { to: USDC, value: BigInt(0), data: transfer(RECIPIENT, BigInt(100)) },
+      {
+        to: USDC,
+        value: BigInt(0),
+        data: encodeFunctionData({ abi: erc20, functionName: 'transferFrom', args: [ACCOUNT, RECIPIENT, BigInt(20)] }),
+      },
+      {
+        to: USDC,
+        value: BigInt(0),
+        data: encodeFunctionData({ abi: erc20, functionName: 'transferFrom', args: [RECIPIENT, ACCOUNT, BigInt(999)] }),
+      },
+    ]);
+
+    expect(outflows.get(NATIVE_TOKEN_ADDRESS)).toBe(parseEther('0.5'));
+    expect(outflows.get(USDC.toLowerCase())).toBe(BigInt(120));
+
+    expect(isLimitIncrease(nativeDaily, { ...nativeDaily, amount: parseEther('0.5') })).toBe(false);
+    // 同样的数量从每周改为每日，一周内可转出 7 倍
+    expect(isLimitIncrease(usdcWeekly, { ...usdcWeekly, period: 'daily' })).toBe(true);
+    expect(isLimitIncrease(nativeDaily, { ...nativeDaily, period: 'weekly' })).toBe(false);
+  });
+
+  it('无法读取根验证配置（账户未部署）时应该拒绝安装', async () => {
+    publicClient.readContract.mockRejectedValueOnce(new Error('execution reverted'));
+
+    await expect(
+      service.installSpendingLimits(
+        { accountAddress: ACCOUNT, chainId: 5000, limits: [nativeDaily], approval: 'delay' },
+        OWNER_KEY
+      )
+    ).rejects.toMatchObject({ code: ErrorCode.ACCOUNT_NOT_DEPLOYED });
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+    expect(await service.getSettings(ACCOUNT, 5000)).toBeNull();
+  });
+
+  it('应该把 Hook 挂载到根验证，并在累计转出超过限额时拒绝', async () => {
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xinstall');
+    expect(await service.isRootHookAttached(ACCOUNT, 5000)).toBe(false);
+
+    const settings = await service.installSpendingLimits(
+      { accountAddress: ACCOUNT, chainId: 5000, limits: [nativeDaily, usdcWeekly], approval: 'delay' },
+      OWNER_KEY
+    );
+
+    expect(settings.installTxHash).toBe('0xinstall');
+    // 安装操作上链、根验证的 hook 变为支出限额 Hook 后才视为已挂载
+    expect(await service.isRootHookAttached(ACCOUNT, 5000)).toBe(false);
+    rootHook = HOOK;
+    expect(await service.isRootHookAttached(ACCOUNT, 5000)).toBe(true);
+    rootHook = '0x0000000000000000000000000000000000000001';
+    expect(await service.isRootHookAttached(ACCOUNT, 5000)).toBe(true);
+    const [account, chainId, to, data, signer, , , options] = vi.mocked(transactionRelayer.sendTransaction).mock.calls[0];
+    expect([account, chainId, to, signer]).toEqual([ACCOUNT, 5000, ACCOUNT, OWNER_KEY]);
+    expect(options).toEqual({ nonceChannel: 'spending-limit' });
+
+    // 以递增后的验证 nonce 重新安装根验证，owner 不变，hookData 以 0xff 强制调用 onInstall
+    const decoded = decodeFunctionData({ abi: KERNEL_VALIDATION_ABI, data: data as Hex });
+    expect(decoded.functionName).toBe('installValidations');
+    const [vIds, configs, validationData, hookData] = decoded.args as readonly [Hex[], unknown[], Hex[], Hex[]];
+    expect(vIds).toEqual([ROOT_VALIDATOR]);
+    expect(configs).toEqual([{ nonce: 2, hook: HOOK }]);
+    expect(validationData).toEqual([privateKeyToAccount(OWNER_KEY).address.toLowerCase()]);
+    expect(slice(hookData[0], 0, 1)).toBe('0xff');
+    const [increaseDelay, guardianRegistry, limits] = decodeAbiParameters(
+      installParameters,
+      slice(hookData[0], 1)
+    );
+    expect(increaseDelay).toBe(48 * 3600);
+    expect(guardianRegistry).toBe(zeroAddress);
+    expect(limits).toEqual([
+      [NATIVE_TOKEN_ADDRESS, parseEther('1'), 86400],
+      [USDC, BigInt(500_000000), 7 * 86400],
+    ]);
+
+    const calls = [{ to: RECIPIENT, value: parseEther('0.6'), data: '0x' }];
+    await service.assertWithinLimits(ACCOUNT, 5000, calls);
+    await service.recordSpending(ACCOUNT, 5000, calls, '0xsent');
+
+    await expect(service.assertWithinLimits(ACCOUNT, 5000, calls)).rejects.toMatchObject({
+      code: ErrorCode.SPENDING_LIMIT_EXCEEDED,
+    });
+    // 未设置限额的代币不受影响
+    await service.assertWithinLimits(ACCOUNT, 5000, [
+      { to: '0x9999999999999999999999999999999999999999', value: BigInt(0), data: transfer(RECIPIENT, BigInt(10) ** BigInt(30)) },
+    ]);
+
+    const usage = await service.getUsage(ACCOUNT, 5000);
+    expect(usage[0]).toMatchObject({ spent: parseEther('0.6'), remaining: parseEther('0.4') });
+
+    // 超过一天后额度恢复
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+    await service.assertWithinLimits(ACCOUNT, 5000, calls);
+  });
+
+  it('降低限额应该立即生效，提高限额应该经过等待期后再生效', async () => {
+    await service.installSpendingLimits(
+      { accountAddress: ACCOUNT, chainId: 5000, limits: [nativeDaily], approval: 'delay', increaseDelay: 3600 },
+      OWNER_KEY
+    );
+
+    const lowered = await service.updateLimit(ACCOUNT, 5000, { ...nativeDaily, amount: parseEther('0.5') }, OWNER_KEY);
+    expect(lowered.status).toBe('applied');
+    expect(
+      decodeFunctionData({ abi: hookAbi, data: vi.mocked(transactionRelayer.sendTransaction).mock.calls[1][3] as Hex })
+        .args
+    ).toEqual([NATIVE_TOKEN_ADDRESS, parseEther('0.5'), 86400]);
+
+    const raised = await service.updateLimit(ACCOUNT, 5000, { ...nativeDaily, amount: parseEther('2') }, OWNER_KEY);
+    expect(raised.status).toBe('pending');
+    expect((await service.getSettings(ACCOUNT, 5000))?.limits[0].amount).toBe(parseEther('0.5'));
+    await expect(
+      service.applyPendingIncrease(ACCOUNT, 5000, NATIVE_TOKEN_ADDRESS, OWNER_KEY)
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 3601 * 1000);
+    await service.applyPendingIncrease(ACCOUNT, 5000, NATIVE_TOKEN_ADDRESS, OWNER_KEY);
+
+    const last = vi.mocked(transactionRelayer.sendTransaction).mock.calls.at(-1);
+    expect(last?.[2]).toBe(HOOK);
+    expect(decodeFunctionData({ abi: hookAbi, data: last?.[3] as Hex }).functionName).toBe('applyLimitIncrease');
+    const settings = await service.getSettings(ACCOUNT, 5000);
+    expect(settings?.limits[0].amount).toBe(parseEther('2'));
+    expect(settings?.pendingIncreases).toHaveLength(0);
+  });
+
+  it('守护人模式应该在 Hook 中登记守护人注册合约，提高限额由 owner 提交并等待守护人链上批准', async () => {
+    vi.mocked(guardianService.proposeSpendingLimitIncrease).mockResolvedValue('proposal_1');
+    await service.installSpendingLimits(
+      { accountAddress: ACCOUNT, chainId: 5000, limits: [usdcWeekly], approval: 'guardians' },
+      OWNER_KEY
+    );
+    const installData = vi.mocked(transactionRelayer.sendTransaction).mock.calls[0][3] as Hex;
+    const [, , , hookData] = decodeFunctionData({ abi: KERNEL_VALIDATION_ABI, data: installData })
+      .args as readonly [Hex[], unknown[], Hex[], Hex[]];
+    const [increaseDelay, guardianRegistry] = decodeAbiParameters(installParameters, slice(hookData[0], 1));
+    expect([increaseDelay, guardianRegistry]).toEqual([0, RECOVERY_PLUGIN]);
+
+    const raisedLimit = { ...usdcWeekly, amount: BigInt(2000_000000) };
+    vi.mocked(transactionRelayer.sendTransaction).mockResolvedValueOnce('0xrequest');
+    const result = await service.updateLimit(ACCOUNT, 5000, raisedLimit, OWNER_KEY);
+
+    expect(result).toEqual({ status: 'pending', txHash: '0xrequest', proposalId: 'proposal_1' });
+    expect(guardianService.proposeSpendingLimitIncrease).toHaveBeenCalledWith(ACCOUNT, 5000, raisedLimit, OWNER_KEY);
+    // 提高请求由 owner 提交到 Hook 排队
+    const [account, , to, data, signer] = vi.mocked(transactionRelayer.sendTransaction).mock.calls[1];
+    expect([account, to, signer]).toEqual([ACCOUNT, HOOK, OWNER_KEY]);
+    expect(decodeFunctionData({ abi: hookAbi, data: data as Hex }).functionName).toBe('setSpendingLimit');
+    expect((await service.getSettings(ACCOUNT, 5000))?.limits[0].amount).toBe(usdcWeekly.amount);
+
+    const proposal = {
+      proposalId: 'proposal_1',
+      accountAddress: ACCOUNT,
+      chainId: 5000,
+      type: 'spending_limit',
+      spendingLimit: raisedLimit,
+      status: 'approved',
+    } as GuardianProposal;
+    const approval = await service.getGuardianApprovalCall(proposal);
+    expect(approval.to).toBe(HOOK);
+    expect(decodeFunctionData({ abi: hookAbi, data: approval.data })).toEqual({
+      functionName: 'approveLimitIncrease',
+      args: [ACCOUNT, USDC],
+    });
+
+    // 提案通过后只同步本地限额，不再发送账户操作
+    await service.applyApprovedIncrease(proposal);
+    expect(transactionRelayer.sendTransaction).toHaveBeenCalledTimes(2);
+    const settings = await service.getSettings(ACCOUNT, 5000);
+    expect(settings?.limits[0].amount).toBe(BigInt(2000_000000));
+    expect(settings?.pendingIncreases).toHaveLength(0);
+  });
+
+  it('提高请求提交失败时应该撤回提案，撤销提高请求应该同时取消链上请求与提案', async () => {
+    vi.mocked(guardianService.proposeSpendingLimitIncrease).mockResolvedValue('proposal_1');
+    await service.installSpendingLimits(
+      { accountAddress: ACCOUNT, chainId: 5000, limits: [usdcWeekly], approval: 'guardians' },
+      OWNER_KEY
+    );
+    const raisedLimit = { ...usdcWeekly, amount: BigInt(2000_000000) };
+
+    vi.mocked(transactionRelayer.sendTransaction).mockRejectedValueOnce(new Error('bundler down'));
+    await expect(service.updateLimit(ACCOUNT, 5000, raisedLimit, OWNER_KEY)).rejects.toThrow('bundler down');
+    expect(guardianService.cancelProposal).toHaveBeenCalledWith('proposal_1', OWNER_KEY);
+    expect((await service.getSettings(ACCOUNT, 5000))?.pendingIncreases).toHaveLength(0);
+
+    vi.mocked(guardianService.cancelProposal).mockClear();
+    await service.updateLimit(ACCOUNT, 5000, raisedLimit, OWNER_KEY);
+
+    await service.cancelPendingIncrease(ACCOUNT, 5000, USDC, OWNER_KEY);
+
+    const [, , to, data, signer] = vi.mocked(transactionRelayer.sendTransaction).mock.calls.at(-1)!;
+    expect([to, signer]).toEqual([HOOK, OWNER_KEY]);
+    expect(decodeFunctionData({ abi: hookAbi, data: data as Hex })).toEqual({
+      functionName: 'cancelLimitIncrease',
+      args: [USDC],
+    });
+    expect(guardianService.cancelProposal).toHaveBeenCalledWith('proposal_1', OWNER_KEY);
+    expect((await service.getSettings(ACCOUNT, 5000))?.pendingIncreases).toHaveLength(0);
+  });
+
+  it('账户仍有可用的会话密钥时应该拒绝启用支出限额', async () => {
+    vi.mocked(sessionKeyService.getSessionKeys).mockReturnValueOnce([{ id: 'key' } as SessionKey]);
+
+    await expect(
+      service.installSpendingLimits(
+        { accountAddress: ACCOUNT, chainId: 5000, limits: [nativeDaily], approval: 'delay' },
+        OWNER_KEY
+      )
+    ).rejects.toThrow('会话密钥');
+    expect(transactionRelayer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('不经过 Hook 的调度转出上限不能超过一个周期的限额', async () => {
+    await service.assertScheduleWithinLimits(ACCOUNT, 5000, USDC, BigInt(10) ** BigInt(30));
+
+    await service.installSpendingLimits(
+      { accountAddress: ACCOUNT, chainId: 5000, limits: [usdcWeekly], approval: 'delay' },
+      OWNER_KEY
+    );
+    await service.assertScheduleWithinLimits(ACCOUNT, 5000, USDC, usdcWeekly.amount);
+    await expect(
+      service.assertScheduleWithinLimits(ACCOUNT, 5000, USDC, usdcWeekly.amount + BigInt(1))
+    ).rejects.toMatchObject({ code: ErrorCode.SPENDING_LIMIT_EXCEEDED });
+    // 未设置限额的代币不受影响
+    await service.assertScheduleWithinLimits(ACCOUNT, 5000, NATIVE_TOKEN_ADDRESS, parseEther('100'));
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * TokenPaymasterService 单元测试
+ *
+ * 测试代币报价、最大扣费折算、paymasterAndData 编码与精确额度授权
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeFunctionData, parseAbi, type Address } from 'viem';
+import { TokenPaymasterService, type GasTokenQuote } from '../TokenPaymasterService';
+import { tokenService } from '../TokenService';
+import { rpcClientManager } from '@/utils/RpcClientManager';
+import { ErrorCode } from '@/utils/errors';
+import type { UserOperation } from '@/utils/kernel-types';
+
+const USDC = '0x7777777777777777777777777777777777777777' as Address;
+const TOKEN_PAYMASTER = '0x8888888888888888888888888888888888888888' as Address;
+const ACCOUNT = '0x1234567890123456789012345678901234567890' as Address;
+
+const publicClient = {
+  readContract: vi.fn(),
+};
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn().mockReturnValue({
+    chainId: 5000,
+    name: 'Mantle',
+    rpcUrl: 'https://rpc.mantle.xyz',
+    entryPointAddress: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    tokenPaymasterAddress: '0x8888888888888888888888888888888888888888',
+    gasTokenAddresses: ['0x7777777777777777777777777777777777777777'],
+  }),
+}));
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: vi.fn(),
+  },
+}));
+
+vi.mock('../TokenService', () => ({
+  tokenService: {
+    fetchTokenInfo: vi.fn(),
+    getTokenBalance: vi.fn(),
+  },
+}));
+
+const quote: GasTokenQuote = {
+  address: USDC,
+  symbol: 'USDC',
+  decimals: 6,
+  chainId: 5000,
+  paymaster: TOKEN_PAYMASTER,
+  // 1 MNT = 0.8 USDC
+  exchangeRate: BigInt(800000),
+  postOpGas: BigInt(40000),
+  updatedAt: Date.now(),
+};
+
+describe('TokenPaymasterService', () => {
+  let service: TokenPaymasterService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rpcClientManager.getPublicClient).mockReturnValue(
+      publicClient as unknown as ReturnType<typeof rpcClientManager.getPublicClient>
+    );
+    vi.mocked(tokenService.fetchTokenInfo).mockResolvedValue({
+      address: USDC.toLowerCase(),
+      chainId: 5000,
+      name: 'USD Coin',
+      symbol: 'USDC',
+      decimals: 6,
+    });
+    service = new TokenPaymasterService();
+  });
+
+  it('应该从 Token Paymaster 读取报价并缓存，未配置的代币应该被拒绝', async () => {
+    publicClient.readContract.mockResolvedValue([BigInt(800000), BigInt(40000)]);
+
+    const result = await service.getQuote(5000, USDC);
+    await service.getQuote(5000, USDC);
+
+    expect(result).toMatchObject({ symbol: 'USDC', decimals: 6, paymaster: TOKEN_PAYMASTER, exchangeRate: BigInt(800000) });
+    expect(publicClient.readContract).toHaveBeenCalledTimes(1);
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: TOKEN_PAYMASTER, functionName: 'getTokenQuote', args: [USDC] })
+    );
+    await expect(service.getQuote(5000, '0x9999999999999999999999999999999999999999')).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+  });
+
+  it('最大扣费应该按全部 Gas 限制折算并向上取整，v0.6 使用报价中的 postOp Gas', () => {
+    const userOp: UserOperation = {
+      sender: ACCOUNT,
+      nonce: BigInt(0),
+      initCode: '0x',
+      callData: '0x',
+      callGasLimit: BigInt(100000),
+      verificationGasLimit: BigInt(100000),
+      preVerificationGas: BigInt(50000),
+      maxFeePerGas: BigInt(1000000001),
+      maxPriorityFeePerGas: BigInt(1),
+      paymasterAndData: '0x',
+      signature: '0x',
+    };
+
+    // (100000 + 100000 + 50000 + 40000) × 1000000001 wei × 0.8 USDC / 1e18 = 232.0000002 → 233
+    expect(service.getMaxTokenCost(quote, userOp)).toBe(BigInt(233));
+  });
+
+  it('paymasterAndData 应该依次编码 paymaster、代币地址与最大扣费', () => {
+    const paymasterAndData = service.buildPaymasterAndData(quote, BigInt(1234));
+
+    expect(paymasterAndData.slice(0, 42)).toBe(TOKEN_PAYMASTER);
+    expect(`0x${paymasterAndData.slice(42, 82)}`).toBe(USDC);
+    expect(BigInt(`0x${paymasterAndData.slice(82)}`)).toBe(BigInt(1234));
+    expect(paymasterAndData.length).toBe(2 + (20 + 20 + 32) * 2);
+  });
+
+  it('授权额度不足时应该返回精确额度的 approve，足够时返回 null', async () => {
+    publicClient.readContract.mockResolvedValueOnce(BigInt(100)).mockResolvedValueOnce(BigInt(5000));
+
+    const approve = await service.getApproveCall(quote, ACCOUNT, BigInt(1234));
+    const none = await service.getApproveCall(quote, ACCOUNT, BigInt(1234));
+
+    expect(publicClient.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: USDC, functionName: 'allowance', args: [ACCOUNT, TOKEN_PAYMASTER] })
+    );
+    expect(approve?.to).toBe(USDC);
+    expect(
+      decodeFunctionData({
+        abi: parseAbi(['function approve(address spender, uint256 amount) returns (bool)']),
+        data: approve?.data as `0x${string}`,
+      }).args
+    ).toEqual([TOKEN_PAYMASTER, BigInt(1234)]);
+    expect(none).toBeNull();
+  });
+});
@@ -160,6 +160,45 @@ describe('TokenService', () => {
     });
   });
 
+  describe('NFT', () => {
+    it('应该将 NFT 与同质化代币分开返回，并按 tokenId 区分', async () => {
+      const nftAddress = '0x3333333333333333333333333333333333333333';
+      await tokenService.addToken({
+        address: '0x1111111111111111111111111111111111111111',
+        chainId: 5000,
+        symbol: 'TEST',
+        name: 'Test Token',
+        decimals: 18,
+      });
+      await tokenService.addToken({
+        address: nftAddress,
+        chainId: 5000,
+        symbol: 'NFT',
+        name: 'Test NFT',
+        decimals: 0,
+        standard: 'ERC721',
+        tokenId: '1',
+      });
+      await tokenService.addToken({
+        address: nftAddress,
+        chainId: 5000,
+        symbol: 'NFT',
+        name: 'Test NFT',
+        decimals: 0,
+        standard: 'ERC721',
+        tokenId: '2',
+      });
+
+      expect(await tokenService.getTokens(5000)).toHaveLength(1);
+      expect(await tokenService.getNfts(5000)).toHaveLength(2);
+
+      await tokenService.removeToken(nftAddress, 5000, '1');
+      const nfts = await tokenService.getNfts(5000);
+      expect(nfts).toHaveLength(1);
+      expect(nfts[0].tokenId).toBe('2');
+    });
+  });
+
   describe('获取代币余额', () => {
     it('应该成功获取代币余额', async () => {
       const tokenAddress = '0x1111111111111111111111111111111111111111' as Address;
@@ -2,13 +2,21 @@
  * TransactionRelayer 测试
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TransactionRelayer } from '../TransactionRelayer';
 import { bundlerClient } from '../BundlerClient';
 import { Transaction } from '@/types';
 import type { Address, Hash } from 'viem';
 import { accountManager } from '../AccountManager';
 import { applicationRegistryClient } from '../ApplicationRegistryClient';
+import { userOperationTracker, type TrackedUserOperation } from '../UserOperationTracker';
+import { encodeNonce, getNonceKeyForChannel } from '../NonceManager';
+import { feeOracleService } from '../FeeOracleService';
+import { validationSimulationService } from '../ValidationSimulationService';
+import { tokenPaymasterService, type GasTokenQuote } from '../TokenPaymasterService';
+import { spendingLimitService } from '../SpendingLimitService';
+import { encodeExecuteBatchCallData } from '@/utils/kernel';
+import { ErrorCode, WalletError } from '@/utils/errors';
 
 // Mock bundler client
 vi.mock('../BundlerClient', () => ({
@@ -17,6 +25,55 @@ vi.mock('../BundlerClient', () => ({
     setChainId: vi.fn(),
     sendUserOperation: vi.fn(),
     estimateUserOperationGas: vi.fn(),
+    configureChain: vi.fn().mockResolvedValue([
+      { url: 'https://bundler.mantle.xyz', name: 'https://bundler.mantle.xyz', priority: 1, chainId: 5000 },
+    ]),
+  },
+}));
+
+vi.mock('../UserOperationTracker', () => ({
+  userOperationTracker: {
+    track: vi.fn().mockResolvedValue(undefined),
+    getPendingOperations: vi.fn().mockReturnValue([]),
+    getOperation: vi.fn(),
+    getLatestOperation: vi.fn(),
+  },
+}));
+
+// Mock FeeOracleService（normal 档位：1 gwei / 0.5 gwei）
+vi.mock('../FeeOracleService', () => ({
+  feeOracleService: {
+    getFees: vi.fn().mockResolvedValue({
+      maxFeePerGas: BigInt(1000000000),
+      maxPriorityFeePerGas: BigInt(500000000),
+    }),
+  },
+}));
+
+vi.mock('../ValidationSimulationService', () => ({
+  validationSimulationService: {
+    validate: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+vi.mock('../TokenPaymasterService', () => ({
+  tokenPaymasterService: {
+    getQuote: vi.fn(),
+    getBalance: vi.fn(),
+    getApproveCall: vi.fn(),
+    getMaxTokenCost: vi.fn(),
+    assertSufficientBalance: vi.fn(),
+    buildPaymasterAndData: vi.fn(
+      (quote: { paymaster: string }, maxTokenCost: bigint) => `${quote.paymaster}:${maxTokenCost.toString()}`
+    ),
+  },
+}));
+
+vi.mock('../SpendingLimitService', () => ({
+  spendingLimitService: {
+    assertWithinLimits: vi.fn().mockResolvedValue(undefined),
+    recordSpending: vi.fn().mockResolvedValue(undefined),
+    isRootHookAttached: vi.fn().mockResolvedValue(false),
   },
 }));
 
@@ -30,6 +87,9 @@ vi.mock('../AccountManager', () => ({
       status: 'deployed' as const,
       deployedAt: Date.now(),
     }),
+    accountExists: vi.fn().mockResolvedValue(false),
+    getFactoryData: vi.fn(),
+    markAccountDeployed: vi.fn(),
   },
 }));
 
@@ -45,6 +105,7 @@ vi.mock('@/utils/kernel', () => ({
   getAccountNonce: vi.fn().mockResolvedValue(BigInt(0)),
   encodeExecuteCallData: vi.fn().mockReturnValue('0xabcd'),
   encodeExecuteBatchCallData: vi.fn().mockReturnValue('0xabcd'),
+  encodeExecuteUserOpCallData: vi.fn((callData: string) => `0x8dd7712f${callData.slice(2)}`),
 }));
 
 // Mock eip712 utils（同时提供 getUserOpHash 和 signUserOperation，避免动态导入报错）
@@ -117,8 +178,11 @@ describe('TransactionRelayer', () => {
       );
 
       expect(hash).toBe(mockHash);
-      expect(bundlerClient.setBundler).toHaveBeenCalled();
+      expect(bundlerClient.configureChain).toHaveBeenCalledWith(chainId);
       expect(bundlerClient.sendUserOperation).toHaveBeenCalled();
+      expect(userOperationTracker.track).toHaveBeenCalledWith(
+        expect.objectContaining({ userOpHash: mockHash, chainId, sender: accountAddress, to: target, type: 'contract' })
+      );
     });
 
     it('有 sponsor 绑定时应调用 canSponsorFor 门禁', async () => {
@@ -185,6 +249,94 @@ describe('TransactionRelayer', () => {
       expect(bundlerClient.sendUserOperation).not.toHaveBeenCalled();
     });
 
+    it('预检未通过时应该在提交 Bundler 前抛出结构化错误', async () => {
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+      vi.mocked(validationSimulationService.validate).mockRejectedValueOnce(
+        new WalletError('AA24 signature error', ErrorCode.SIGNATURE_INVALID, { aaCode: 'AA24' })
+      );
+
+      const sending = transactionRelayer.sendTransaction(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address,
+        '0x01',
+        '0x1234567890123456789012345678901234567890123456789012345678901234'
+      );
+
+      await expect(sending).rejects.toMatchObject({ code: ErrorCode.SIGNATURE_INVALID });
+      expect(validationSimulationService.validate).toHaveBeenCalledWith(
+        expect.objectContaining({ signature: '0x1234567890abcdef' }),
+        5000
+      );
+      expect(bundlerClient.sendUserOperation).not.toHaveBeenCalled();
+    });
+
+    it('超出支出限额时应该在签名前拒绝，发送成功后记录转出', async () => {
+      const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+      const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      const ownerPrivateKey = '0x1234567890123456789012345678901234567890123456789012345678901234' as `0x${string}`;
+      const mockHash = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash;
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(mockHash);
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+      vi.mocked(spendingLimitService.assertWithinLimits).mockRejectedValueOnce(
+        new WalletError('超出 MNT 每日支出限额', ErrorCode.SPENDING_LIMIT_EXCEEDED)
+      );
+
+      await expect(
+        transactionRelayer.sendTransaction(accountAddress, 5000, target, '0x', ownerPrivateKey, BigInt(10))
+      ).rejects.toMatchObject({ code: ErrorCode.SPENDING_LIMIT_EXCEEDED });
+      expect(bundlerClient.sendUserOperation).not.toHaveBeenCalled();
+
+      await transactionRelayer.sendTransaction(accountAddress, 5000, target, '0x', ownerPrivateKey, BigInt(10));
+      expect(spendingLimitService.recordSpending).toHaveBeenCalledWith(
+        accountAddress,
+        5000,
+        [{ to: target, value: BigInt(10), data: '0x' }],
+        mockHash
+      );
+    });
+
+    it('根验证挂载了支出限额 Hook 时，根验证的操作应该经 executeUserOp 执行，会话密钥的操作保持原样', async () => {
+      const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+      const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      const ownerPrivateKey = '0x1234567890123456789012345678901234567890123456789012345678901234' as `0x${string}`;
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+      vi.mocked(spendingLimitService.isRootHookAttached).mockResolvedValue(true);
+
+      await transactionRelayer.sendTransaction(accountAddress, 5000, target, '0x', ownerPrivateKey, BigInt(10));
+      await transactionRelayer.sendTransaction(
+        accountAddress,
+        5000,
+        target,
+        '0x',
+        ownerPrivateKey,
+        BigInt(10),
+        undefined,
+        { validator: '0x9999999999999999999999999999999999999999' }
+      );
+
+      const [[rootUserOp], [sessionUserOp]] = vi.mocked(bundlerClient.sendUserOperation).mock.calls;
+      expect(rootUserOp.callData).toBe('0x8dd7712fabcd');
+      expect(vi.mocked(bundlerClient.estimateUserOperationGas).mock.calls[0][0].callData).toBe('0x8dd7712fabcd');
+      expect(sessionUserOp.callData).toBe('0xabcd');
+      vi.mocked(spendingLimitService.isRootHookAttached).mockResolvedValue(false);
+    });
+
     it('应该在缺少 Bundler URL 时抛出错误', async () => {
       const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
       const chainId = 5000;
@@ -201,6 +353,312 @@ describe('TransactionRelayer', () => {
     });
   });
 
+  describe('nonce 通道', () => {
+    it('并发发送时应该为每个 UserOperation 分配不同的 nonce', async () => {
+      const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+      const ownerPrivateKey = '0x1234567890123456789012345678901234567890123456789012345678901234' as `0x${string}`;
+      // 直接替换链上 nonce 读取，避免并发动态导入时拿到未 mock 的模块
+      const readNonce = vi
+        .spyOn(TransactionRelayer.prototype as unknown as { getAccountNonce: () => Promise<bigint> }, 'getAccountNonce')
+        .mockResolvedValue(BigInt(4));
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      await Promise.all([
+        transactionRelayer.sendTransaction(accountAddress, 5000, target, '0x01', ownerPrivateKey),
+        transactionRelayer.sendTransaction(accountAddress, 5000, target, '0x02', ownerPrivateKey),
+      ]);
+
+      const nonces = vi.mocked(bundlerClient.sendUserOperation).mock.calls.map(([userOp]) => userOp.nonce);
+      expect(nonces.sort()).toEqual([BigInt(4), BigInt(5)]);
+      readNonce.mockRestore();
+    });
+
+    it('独立通道应该读取并使用该通道的 nonce key', async () => {
+      const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+      const { getAccountNonce } = await import('@/utils/kernel');
+      vi.mocked(getAccountNonce).mockResolvedValue(BigInt(0));
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      await transactionRelayer.sendTransaction(
+        accountAddress,
+        5000,
+        '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address,
+        '0x01',
+        '0x1234567890123456789012345678901234567890123456789012345678901234',
+        BigInt(0),
+        undefined,
+        { nonceChannel: 'guardian' }
+      );
+
+      const key = getNonceKeyForChannel('guardian');
+      expect(vi.mocked(getAccountNonce).mock.calls[0][3]).toBe(key);
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp.nonce).toBe(key << BigInt(64));
+    });
+  });
+
+  describe('Gas 费档位', () => {
+    it('应该按选择的档位设置 maxFeePerGas / maxPriorityFeePerGas', async () => {
+      vi.mocked(feeOracleService.getFees).mockResolvedValueOnce({
+        maxFeePerGas: BigInt(3000000000),
+        maxPriorityFeePerGas: BigInt(2000000000),
+      });
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      await transactionRelayer.sendTransaction(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address,
+        '0x01',
+        '0x1234567890123456789012345678901234567890123456789012345678901234',
+        BigInt(0),
+        undefined,
+        { feeTier: 'fast' }
+      );
+
+      expect(feeOracleService.getFees).toHaveBeenCalledWith(5000, 'fast');
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0]).toMatchObject({
+        maxFeePerGas: BigInt(3000000000),
+        maxPriorityFeePerGas: BigInt(2000000000),
+      });
+    });
+  });
+
+  describe('ERC-20 支付 Gas', () => {
+    const USDC = '0x7777777777777777777777777777777777777777' as Address;
+    const TOKEN_PAYMASTER = '0x8888888888888888888888888888888888888888' as Address;
+    const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+    const quote: GasTokenQuote = {
+      address: USDC,
+      symbol: 'USDC',
+      decimals: 6,
+      chainId: 5000,
+      paymaster: TOKEN_PAYMASTER,
+      exchangeRate: BigInt(800000),
+      postOpGas: BigInt(40000),
+      updatedAt: Date.now(),
+    };
+
+    beforeEach(() => {
+      vi.mocked(accountManager.getAccountByAddress).mockResolvedValue({
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 5000,
+        owner: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        sponsorId: 'sponsor-0x1111111111111111111111111111111111111111-1',
+        status: 'deployed',
+        createdAt: Date.now(),
+      });
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+        paymasterPostOpGasLimit: BigInt(10000),
+      });
+      vi.mocked(tokenPaymasterService.getQuote).mockResolvedValue(quote);
+      vi.mocked(tokenPaymasterService.getBalance).mockResolvedValue(BigInt(5000000));
+      vi.mocked(tokenPaymasterService.getMaxTokenCost).mockReturnValue(BigInt(1234));
+    });
+
+    it('授权不足时应该在批量调用前附带精确额度 approve 并使用代币模式 paymasterAndData', async () => {
+      vi.mocked(tokenPaymasterService.getApproveCall).mockImplementation(async (_quote, _owner, amount) => ({
+        to: USDC,
+        value: BigInt(0),
+        data: `0xapprove${amount.toString()}`,
+      }));
+
+      await transactionRelayer.sendTransaction(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        target,
+        '0x01',
+        '0x1234567890123456789012345678901234567890123456789012345678901234',
+        BigInt(0),
+        undefined,
+        { gasToken: USDC }
+      );
+
+      // 代币支付不经过赞助策略
+      expect(applicationRegistryClient.canSponsorFor).not.toHaveBeenCalled();
+      // 先以余额占位估算，再替换为最大扣费
+      expect(vi.mocked(bundlerClient.estimateUserOperationGas).mock.calls[0][0].paymasterAndData).toBe(
+        `${TOKEN_PAYMASTER}:5000000`
+      );
+      expect(vi.mocked(encodeExecuteBatchCallData)).toHaveBeenLastCalledWith(
+        [USDC, target],
+        [BigInt(0), BigInt(0)],
+        ['0xapprove1234', '0x01']
+      );
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp.paymasterAndData).toBe(`${TOKEN_PAYMASTER}:1234`);
+      // postOp Gas 不低于 Paymaster 报价
+      expect(sentUserOp.paymasterPostOpGasLimit).toBe(BigInt(40000));
+      expect(tokenPaymasterService.assertSufficientBalance).toHaveBeenCalledWith(quote, BigInt(5000000), BigInt(1234));
+      // 记录代币与业务调用，替换时据此重建授权
+      expect(userOperationTracker.track).toHaveBeenCalledWith(
+        expect.objectContaining({ gasPayment: { token: USDC, calls: [{ to: target, value: BigInt(0), data: '0x01' }] } })
+      );
+    });
+
+    it('预览时应该返回以代币计价的最大扣费，授权足够时不附带 approve', async () => {
+      vi.mocked(tokenPaymasterService.getApproveCall).mockResolvedValue(null);
+
+      const { tokenFee, userOp } = await transactionRelayer.previewTransaction(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        target,
+        '0x01',
+        BigInt(0),
+        undefined,
+        USDC
+      );
+
+      expect(tokenFee).toEqual({
+        address: USDC,
+        symbol: 'USDC',
+        decimals: 6,
+        maxAmount: BigInt(1234),
+        includesApproval: false,
+      });
+      expect(userOp.callData).toBe('0xabcd');
+      expect(encodeExecuteBatchCallData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('反事实账户部署', () => {
+    const FACTORY = '0x5555555555555555555555555555555555555555' as Address;
+
+    beforeEach(() => {
+      vi.mocked(accountManager.getAccountByAddress).mockResolvedValue({
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 5000,
+        owner: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        status: 'predicted',
+        createdAt: Date.now(),
+      });
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(400000),
+        preVerificationGas: BigInt(50000),
+      });
+    });
+
+    // 恢复为已部署账户，后续用例不再受部署占用影响
+    afterEach(() => {
+      vi.mocked(accountManager.getAccountByAddress).mockResolvedValue({
+        address: '0x1234567890123456789012345678901234567890',
+        chainId: 5000,
+        owner: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        status: 'deployed',
+        deployedAt: Date.now(),
+      });
+    });
+
+    const send = () =>
+      transactionRelayer.sendTransaction(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address,
+        '0x01',
+        '0x1234567890123456789012345678901234567890123456789012345678901234'
+      );
+
+    it('未部署账户的首笔交易应该携带 factory + factoryData 作为 initCode', async () => {
+      vi.mocked(accountManager.accountExists).mockResolvedValue(false);
+      vi.mocked(accountManager.getFactoryData).mockResolvedValue({ factory: FACTORY, factoryData: '0xdeadbeef' });
+
+      await send();
+
+      expect(accountManager.getFactoryData).toHaveBeenCalledWith('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', 5000);
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp.initCode).toBe(`${FACTORY}deadbeef`);
+      expect(vi.mocked(bundlerClient.estimateUserOperationGas).mock.calls[0][0].initCode).toBe(`${FACTORY}deadbeef`);
+    });
+
+    it('账户已在链上部署时应该同步本地状态且不再携带 initCode', async () => {
+      vi.mocked(accountManager.accountExists).mockResolvedValue(true);
+
+      await send();
+
+      expect(accountManager.markAccountDeployed).toHaveBeenCalledWith('0x1234567890123456789012345678901234567890', 5000);
+      expect(accountManager.getFactoryData).not.toHaveBeenCalled();
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0].initCode).toBe('0x');
+    });
+
+    it('部署操作上链前应该拒绝其他通道的操作，部署操作被丢弃后允许重新部署', async () => {
+      const deployment = (status: TrackedUserOperation['status']) => ({ status }) as TrackedUserOperation;
+      vi.mocked(accountManager.accountExists).mockResolvedValue(false);
+      vi.mocked(accountManager.getFactoryData).mockResolvedValue({ factory: FACTORY, factoryData: '0xdeadbeef' });
+      vi.mocked(userOperationTracker.getLatestOperation).mockReturnValue(deployment('dropped'));
+
+      await send();
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0].initCode).toBe(`${FACTORY}deadbeef`);
+
+      vi.mocked(userOperationTracker.getLatestOperation).mockReturnValue(deployment('submitted'));
+      await expect(
+        transactionRelayer.sendTransaction(
+          '0x1234567890123456789012345678901234567890' as Address,
+          5000,
+          '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address,
+          '0x01',
+          '0x1234567890123456789012345678901234567890123456789012345678901234',
+          BigInt(0),
+          undefined,
+          { nonceChannel: 'scheduled' }
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.ACCOUNT_NOT_DEPLOYED });
+      expect(userOperationTracker.getLatestOperation).toHaveBeenLastCalledWith(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890'
+      );
+      expect(bundlerClient.sendUserOperation).toHaveBeenCalledTimes(1);
+
+      vi.mocked(userOperationTracker.getLatestOperation).mockReturnValue(deployment('dropped'));
+      await send();
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[1][0].initCode).toBe(`${FACTORY}deadbeef`);
+    });
+
+    it('部署操作未能提交时应该释放占用', async () => {
+      vi.mocked(accountManager.accountExists).mockResolvedValue(false);
+      vi.mocked(accountManager.getFactoryData).mockResolvedValue({ factory: FACTORY, factoryData: '0xdeadbeef' });
+      // 释放前面用例遗留的部署占用
+      vi.mocked(userOperationTracker.getLatestOperation).mockReturnValue({ status: 'dropped' } as TrackedUserOperation);
+      vi.mocked(validationSimulationService.validate).mockRejectedValueOnce(new Error('AA23 reverted'));
+
+      await expect(send()).rejects.toThrow('AA23 reverted');
+
+      vi.mocked(userOperationTracker.getLatestOperation).mockReturnValue({ status: 'submitted' } as TrackedUserOperation);
+      await send();
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0].initCode).toBe(`${FACTORY}deadbeef`);
+    });
+  });
+
   describe('sendBatch', () => {
     it('应该发送批量交易', async () => {
       const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
@@ -239,6 +697,30 @@ describe('TransactionRelayer', () => {
       expect(bundlerClient.sendUserOperation).toHaveBeenCalled();
     });
 
+    it('executeBatch callData 应直接作为 UserOperation.callData，不再包一层 execute', async () => {
+      const { encodeExecuteBatchCallData, encodeExecuteCallData } = await import('@/utils/kernel');
+      vi.mocked(encodeExecuteBatchCallData).mockReturnValue('0xba7c4');
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(
+        '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890' as Hash
+      );
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(200000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      await transactionRelayer.sendBatch(
+        '0x1234567890123456789012345678901234567890' as Address,
+        5000,
+        [{ to: '0x1111111111111111111111111111111111111111', value: BigInt(0), data: '0x1234' }],
+        '0x1234567890123456789012345678901234567890123456789012345678901234'
+      );
+
+      expect(encodeExecuteCallData).not.toHaveBeenCalled();
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp.callData).toBe('0xba7c4');
+    });
+
     it('应该在交易列表为空时抛出错误', async () => {
       const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
       const chainId = 5000;
@@ -250,4 +732,180 @@ describe('TransactionRelayer', () => {
       ).rejects.toThrow('No transactions to batch');
     });
   });
+
+  describe('speedUpUserOperation / cancelUserOperation', () => {
+    const accountAddress = '0x1234567890123456789012345678901234567890' as Address;
+    const pendingHash = '0x1111111111111111111111111111111111111111111111111111111111111111' as Hash;
+    const replacementHash = '0x2222222222222222222222222222222222222222222222222222222222222222' as Hash;
+    const ownerPrivateKey = '0x1234567890123456789012345678901234567890123456789012345678901234' as `0x${string}`;
+
+    const trackPending = (
+      status: 'submitted' | 'included' = 'submitted',
+      overrides: Partial<TrackedUserOperation> = {},
+      paymasterAndData: `0x${string}` = '0x'
+    ) => {
+      vi.mocked(userOperationTracker.getOperation).mockReturnValue({
+        userOpHash: pendingHash,
+        chainId: 5000,
+        sender: accountAddress,
+        nonce: BigInt(7),
+        status,
+        submittedAt: Date.now(),
+        updatedAt: Date.now(),
+        missingChecks: 0,
+        userOperation: {
+          sender: accountAddress,
+          nonce: BigInt(7),
+          initCode: '0x',
+          callData: '0xdeadbeef',
+          callGasLimit: BigInt(100000),
+          verificationGasLimit: BigInt(100000),
+          preVerificationGas: BigInt(50000),
+          maxFeePerGas: BigInt(2000000000),
+          maxPriorityFeePerGas: BigInt(100000000),
+          paymasterAndData,
+          signature: '0x01',
+        },
+        ...overrides,
+      });
+      vi.mocked(bundlerClient.sendUserOperation).mockResolvedValue(replacementHash);
+    };
+
+    it('加速应该沿用 nonce 与 callData，并把 Gas 费至少提高 10%', async () => {
+      const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      trackPending('submitted', { to: target });
+
+      const hash = await transactionRelayer.speedUpUserOperation(pendingHash, ownerPrivateKey);
+
+      expect(hash).toBe(replacementHash);
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp).toMatchObject({
+        nonce: BigInt(7),
+        callData: '0xdeadbeef',
+        maxFeePerGas: BigInt(2200000000),
+        // 当前 normal 档位的优先费（0.5 gwei）高于提价结果时按当前费用
+        maxPriorityFeePerGas: BigInt(500000000),
+      });
+      expect(userOperationTracker.track).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userOpHash: replacementHash,
+          to: target,
+          replaces: pendingHash,
+          replacement: 'speedUp',
+        })
+      );
+    });
+
+    it('取消应该以相同 nonce 发送调用自身的空操作', async () => {
+      trackPending();
+      const { encodeExecuteCallData } = await import('@/utils/kernel');
+      vi.mocked(encodeExecuteCallData).mockReturnValue('0x0c0ffee0');
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(30000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      await transactionRelayer.cancelUserOperation(pendingHash, ownerPrivateKey);
+
+      expect(encodeExecuteCallData).toHaveBeenCalledWith(accountAddress, BigInt(0), '0x');
+      const sentUserOp = vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0];
+      expect(sentUserOp).toMatchObject({ nonce: BigInt(7), callData: '0x0c0ffee0', callGasLimit: BigInt(30000) });
+      expect(userOperationTracker.track).toHaveBeenCalledWith(
+        expect.objectContaining({ to: accountAddress, replaces: pendingHash, replacement: 'cancel' })
+      );
+    });
+
+    it('代币支付的操作替换时应该按提价后的 Gas 费重建授权与 paymasterAndData', async () => {
+      const USDC = '0x7777777777777777777777777777777777777777' as Address;
+      const TOKEN_PAYMASTER = '0x8888888888888888888888888888888888888888' as Address;
+      const target = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      const call = { to: target, value: BigInt(0), data: '0x01' };
+      trackPending('submitted', { gasPayment: { token: USDC, calls: [call] } }, `${TOKEN_PAYMASTER}0001`);
+      vi.mocked(tokenPaymasterService.getQuote).mockResolvedValue({
+        address: USDC,
+        symbol: 'USDC',
+        decimals: 6,
+        chainId: 5000,
+        paymaster: TOKEN_PAYMASTER,
+        exchangeRate: BigInt(800000),
+        postOpGas: BigInt(40000),
+        updatedAt: Date.now(),
+      });
+      vi.mocked(tokenPaymasterService.getBalance).mockResolvedValue(BigInt(5000000));
+      vi.mocked(tokenPaymasterService.getMaxTokenCost).mockReturnValue(BigInt(2000));
+      vi.mocked(tokenPaymasterService.getApproveCall).mockImplementation(async (_quote, _owner, amount) => ({
+        to: USDC,
+        value: BigInt(0),
+        data: `0xapprove${amount.toString()}`,
+      }));
+      vi.mocked(bundlerClient.estimateUserOperationGas).mockResolvedValue({
+        callGasLimit: BigInt(120000),
+        verificationGasLimit: BigInt(100000),
+        preVerificationGas: BigInt(50000),
+      });
+
+      await transactionRelayer.speedUpUserOperation(pendingHash, ownerPrivateKey);
+
+      // 最大扣费按提价后的 maxFeePerGas 计算
+      expect(vi.mocked(tokenPaymasterService.getMaxTokenCost).mock.calls[0][1]).toMatchObject({
+        nonce: BigInt(7),
+        maxFeePerGas: BigInt(2200000000),
+        callGasLimit: BigInt(120000),
+      });
+      expect(encodeExecuteBatchCallData).toHaveBeenLastCalledWith(
+        [USDC, target],
+        [BigInt(0), BigInt(0)],
+        ['0xapprove2000', '0x01']
+      );
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[0][0].paymasterAndData).toBe(
+        `${TOKEN_PAYMASTER}:2000`
+      );
+
+      // 取消同样附带授权，业务调用替换为空操作
+      trackPending('submitted', { gasPayment: { token: USDC, calls: [call] } }, `${TOKEN_PAYMASTER}0001`);
+      await transactionRelayer.cancelUserOperation(pendingHash, ownerPrivateKey);
+
+      expect(encodeExecuteBatchCallData).toHaveBeenLastCalledWith(
+        [USDC, accountAddress],
+        [BigInt(0), BigInt(0)],
+        ['0xapprove2000', '0x']
+      );
+      expect(vi.mocked(bundlerClient.sendUserOperation).mock.calls[1][0].paymasterAndData).toBe(
+        `${TOKEN_PAYMASTER}:2000`
+      );
+      expect(userOperationTracker.track).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          replacement: 'cancel',
+          gasPayment: { token: USDC, calls: [{ to: accountAddress, value: BigInt(0), data: '0x' }] },
+        })
+      );
+    });
+
+    it('会话密钥等非根验证器签名的操作不能以 owner 重新签名替换', async () => {
+      trackPending('submitted', { validator: '0x6666666666666666666666666666666666666666' });
+      await expect(transactionRelayer.speedUpUserOperation(pendingHash, ownerPrivateKey)).rejects.toThrow(
+        'non-root validator'
+      );
+
+      // 未记录验证器时按 nonce key 中的验证类型判断
+      const { userOperation } = vi.mocked(userOperationTracker.getOperation).mock.results[0].value;
+      trackPending('submitted', {
+        userOperation: { ...userOperation, nonce: encodeNonce(BigInt(1) << BigInt(176), BigInt(0)) },
+      });
+      await expect(transactionRelayer.cancelUserOperation(pendingHash, ownerPrivateKey)).rejects.toThrow(
+        'non-root validator'
+      );
+      expect(bundlerClient.sendUserOperation).not.toHaveBeenCalled();
+    });
+
+    it('已被打包的操作不能再替换', async () => {
+      trackPending('included');
+
+      await expect(transactionRelayer.speedUpUserOperation(pendingHash, ownerPrivateKey)).rejects.toThrow(
+        'Invalid replacement'
+      );
+      expect(bundlerClient.sendUserOperation).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,147 @@
+/**
+ * TransactionSimulationService 单元测试
+ *
+ * 测试交易模拟的资产变化汇总、授权识别与回滚检测
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseError, encodeFunctionData, pad, parseAbi, toHex, type Address, type Hex } from 'viem';
+import { TransactionSimulationService } from '../TransactionSimulationService';
+import { tokenService } from '../TokenService';
+
+const mockGetPublicClient = vi.fn();
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: (...args: unknown[]) => mockGetPublicClient(...args),
+  },
+}));
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111' as Address;
+const RECIPIENT = '0x2222222222222222222222222222222222222222' as Address;
+const TOKEN = '0x3333333333333333333333333333333333333333' as Address;
+const SPENDER = '0x4444444444444444444444444444444444444444' as Address;
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const APPROVAL_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+const addressTopic = (address: Address): Hex => pad(address, { size: 32 });
+
+describe('TransactionSimulationService', () => {
+  let service: TransactionSimulationService;
+  let publicClient: {
+    getCode: ReturnType<typeof vi.fn>;
+    request: ReturnType<typeof vi.fn>;
+    call: ReturnType<typeof vi.fn>;
+    readContract: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TransactionSimulationService();
+    publicClient = {
+      getCode: vi.fn().mockResolvedValue('0x6080'),
+      request: vi.fn(),
+      call: vi.fn().mockResolvedValue({ data: '0x' }),
+      readContract: vi.fn().mockResolvedValue(false),
+    };
+    mockGetPublicClient.mockReturnValue(publicClient);
+    vi.spyOn(tokenService, 'fetchTokenInfo').mockResolvedValue({
+      address: TOKEN,
+      chainId: 5003,
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+    });
+  });
+
+  it('应该从执行追踪的事件日志汇总资产变化与无限授权', async () => {
+    publicClient.request.mockResolvedValue({
+      from: ACCOUNT,
+      to: ACCOUNT,
+      calls: [
+        { from: ACCOUNT, to: RECIPIENT, value: toHex(10n ** 18n) },
+        {
+          from: ACCOUNT,
+          to: TOKEN,
+          logs: [
+            {
+              address: TOKEN,
+              topics: [TRANSFER_TOPIC, addressTopic(ACCOUNT), addressTopic(RECIPIENT)],
+              data: pad(toHex(5_000_000n), { size: 32 }),
+            },
+            {
+              address: TOKEN,
+              topics: [APPROVAL_TOPIC, addressTopic(ACCOUNT), addressTopic(SPENDER)],
+              data: pad(toHex(2n ** 256n - 1n), { size: 32 }),
+            },
+          ],
+        },
+      ],
+    });
+
+    const result = await service.simulate(ACCOUNT, 5003, [
+      { to: RECIPIENT, data: '0x', value: 10n ** 18n },
+      { to: TOKEN, data: '0x', value: 0n },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.source).toBe('trace');
+    expect(result.assetChanges).toEqual([
+      { type: 'native', amount: -(10n ** 18n) },
+      { type: 'erc20', token: TOKEN, amount: -5_000_000n, symbol: 'USDC', decimals: 6 },
+    ]);
+    expect(result.approvals).toEqual([
+      { type: 'erc20', token: TOKEN, spender: SPENDER, amount: 2n ** 256n - 1n, unlimited: true },
+    ]);
+  });
+
+  it('应该在追踪结果回滚时返回回滚原因且不汇总资产变化', async () => {
+    publicClient.request.mockResolvedValue({
+      from: ACCOUNT,
+      to: ACCOUNT,
+      error: 'execution reverted',
+      revertReason: 'ERC20: transfer amount exceeds balance',
+    });
+
+    const result = await service.simulate(ACCOUNT, 5003, [{ to: TOKEN, data: '0x', value: 0n }]);
+
+    expect(result).toMatchObject({
+      success: false,
+      revertReason: 'ERC20: transfer amount exceeds balance',
+      assetChanges: [],
+      approvals: [],
+    });
+  });
+
+  it('节点不支持追踪时应该按调用数据解析并通过 eth_call 检测回滚', async () => {
+    publicClient.request.mockRejectedValue(new Error('the method debug_traceCall does not exist'));
+    publicClient.call.mockRejectedValue(new BaseError('Execution reverted with reason: insufficient balance.'));
+
+    const result = await service.simulate(ACCOUNT, 5003, [
+      {
+        to: TOKEN,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [RECIPIENT, 1_000_000n] }),
+        value: 0n,
+      },
+      {
+        to: TOKEN,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [SPENDER, 100n] }),
+        value: 0n,
+      },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.source).toBe('calldata');
+    expect(result.revertReason).toContain('insufficient balance');
+    expect(result.assetChanges).toEqual([
+      { type: 'erc20', token: TOKEN, amount: -1_000_000n, symbol: 'USDC', decimals: 6 },
+    ]);
+    expect(result.approvals).toEqual([
+      { type: 'erc20', token: TOKEN, spender: SPENDER, amount: 100n, unlimited: false },
+    ]);
+  });
+});
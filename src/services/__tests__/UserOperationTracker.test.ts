@@ -0,0 +1,242 @@
+/**
+ * UserOperationTracker 单元测试
+ *
+ * 测试回执对账、回滚原因、丢弃判定、重新加载后恢复跟踪与加速 / 取消替换
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address, Hash } from 'viem';
+import { UserOperationTracker, type TrackedUserOperation } from '../UserOperationTracker';
+import { bundlerClient } from '../BundlerClient';
+import { transactionHistoryService } from '../TransactionHistoryService';
+import { accountManager } from '../AccountManager';
+import { storageAdapter } from '@/adapters/StorageAdapter';
+
+vi.mock('../BundlerClient', () => ({
+  bundlerClient: {
+    getBundlerStatus: vi.fn().mockReturnValue([{ url: 'https://bundler.test', chainId: 5000 }]),
+    configureChain: vi.fn(),
+    getUserOperationReceipt: vi.fn(),
+    getUserOperationByHash: vi.fn(),
+  },
+}));
+
+vi.mock('../AccountManager', () => ({
+  accountManager: {
+    markAccountDeployed: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+const USER_OP_HASH = `0x${'ab'.repeat(32)}` as Hash;
+const REPLACEMENT_HASH = `0x${'12'.repeat(32)}` as Hash;
+const BUNDLE_TX_HASH = `0x${'cd'.repeat(32)}` as Hash;
+const SENDER = '0x1234567890123456789012345678901234567890' as Address;
+const TARGET = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+
+function buildReceipt(success: boolean, reason?: string, userOpHash: Hash = USER_OP_HASH) {
+  return {
+    userOpHash,
+    sender: SENDER,
+    nonce: '0x1',
+    success,
+    actualGasCost: '0x2386f26fc10000',
+    actualGasUsed: '0x186a0',
+    reason,
+    logs: [],
+    receipt: {
+      transactionHash: BUNDLE_TX_HASH,
+      blockHash: `0x${'ef'.repeat(32)}`,
+      blockNumber: '0x10',
+      gasUsed: '0x30d40',
+      status: success ? '0x1' : '0x0',
+      logs: [],
+    },
+  };
+}
+
+describe('UserOperationTracker', () => {
+  let tracker: UserOperationTracker;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await storageAdapter.clear();
+    await transactionHistoryService.clearTransactions();
+    tracker = new UserOperationTracker();
+    await tracker.track({ userOpHash: USER_OP_HASH, chainId: 5000, sender: SENDER, nonce: 1n, to: TARGET });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('应该在回执成功后标记 confirmed、同步交易历史并发出事件', async () => {
+    const events: TrackedUserOperation[] = [];
+    const handler = (event: Event) => events.push((event as CustomEvent<TrackedUserOperation>).detail);
+    window.addEventListener('walletOp:confirmed', handler);
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockResolvedValue(buildReceipt(true));
+
+    await tracker.checkPending();
+    window.removeEventListener('walletOp:confirmed', handler);
+
+    expect(tracker.getOperation(USER_OP_HASH)).toMatchObject({
+      status: 'confirmed',
+      bundleTxHash: BUNDLE_TX_HASH,
+      blockNumber: 16,
+      actualGasCost: 10000000000000000n,
+    });
+    expect(events).toHaveLength(1);
+    expect(await transactionHistoryService.getTransaction(USER_OP_HASH)).toMatchObject({
+      status: 'success',
+      to: TARGET,
+      blockNumber: 16,
+      bundleTxHash: BUNDLE_TX_HASH,
+      actualGasCost: 10000000000000000n,
+    });
+  });
+
+  it('执行回滚时应该记录失败原因', async () => {
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockResolvedValue(buildReceipt(false, '0x08c379a0'));
+
+    await tracker.checkPending();
+
+    expect(tracker.getOperation(USER_OP_HASH)).toMatchObject({ status: 'failed', reason: '0x08c379a0' });
+    expect(await transactionHistoryService.getTransaction(USER_OP_HASH)).toMatchObject({
+      status: 'failed',
+      failureReason: '0x08c379a0',
+    });
+  });
+
+  it('携带 initCode 的操作上链后应该把账户标记为已部署', async () => {
+    await tracker.track({
+      userOpHash: REPLACEMENT_HASH,
+      chainId: 5000,
+      sender: SENDER,
+      nonce: 2n,
+      to: TARGET,
+      userOperation: {
+        sender: SENDER,
+        nonce: 2n,
+        initCode: '0x5555555555555555555555555555555555555555deadbeef',
+        callData: '0x',
+        callGasLimit: 0n,
+        verificationGasLimit: 0n,
+        preVerificationGas: 0n,
+        maxFeePerGas: 0n,
+        maxPriorityFeePerGas: 0n,
+        paymasterAndData: '0x',
+        signature: '0x',
+      },
+    });
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockImplementation(async (hash) =>
+      buildReceipt(false, '0x08c379a0', hash)
+    );
+
+    await tracker.checkPending();
+
+    // 执行回滚不影响部署；未携带 initCode 的操作不触发
+    expect(accountManager.markAccountDeployed).toHaveBeenCalledTimes(1);
+    expect(accountManager.markAccountDeployed).toHaveBeenCalledWith(SENDER, 5000);
+  });
+
+  it('已打包但回执未就绪时应该标记 included', async () => {
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockResolvedValue(null);
+    vi.mocked(bundlerClient.getUserOperationByHash).mockResolvedValue({
+      entryPoint: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+      transactionHash: BUNDLE_TX_HASH,
+      blockHash: null,
+      blockNumber: '0x10',
+    });
+
+    await tracker.checkPending();
+
+    expect(tracker.getOperation(USER_OP_HASH)).toMatchObject({ status: 'included', bundleTxHash: BUNDLE_TX_HASH });
+    expect((await transactionHistoryService.getTransaction(USER_OP_HASH))?.status).toBe('pending');
+  });
+
+  it('Bundler 多次不识别且超过宽限期后应该标记 dropped', async () => {
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockResolvedValue(null);
+    vi.mocked(bundlerClient.getUserOperationByHash).mockResolvedValue(null);
+
+    await tracker.checkPending();
+    await tracker.checkPending();
+    await tracker.checkPending();
+    expect(tracker.getOperation(USER_OP_HASH)?.status).toBe('submitted');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 61_000);
+    await tracker.checkPending();
+
+    expect(tracker.getOperation(USER_OP_HASH)?.status).toBe('dropped');
+    expect((await transactionHistoryService.getTransaction(USER_OP_HASH))?.status).toBe('dropped');
+  });
+
+  it('重新加载后应该恢复未结束的跟踪', async () => {
+    const reloaded = new UserOperationTracker();
+    await reloaded.init();
+
+    expect(reloaded.getPendingOperations().map((operation) => operation.userOpHash)).toEqual([USER_OP_HASH]);
+
+    vi.mocked(bundlerClient.getUserOperationReceipt).mockResolvedValue(buildReceipt(true));
+    const waiting = reloaded.waitForFinalStatus(USER_OP_HASH, 5_000);
+    await reloaded.checkPending();
+
+    expect((await waiting)?.status).toBe('confirmed');
+    expect(reloaded.getPendingOperations()).toHaveLength(0);
+    await tracker.checkPending();
+  });
+
+  describe('加速 / 取消替换', () => {
+    beforeEach(async () => {
+      await tracker.track({
+        userOpHash: REPLACEMENT_HASH,
+        chainId: 5000,
+        sender: SENDER,
+        nonce: 1n,
+        to: SENDER,
+        replaces: USER_OP_HASH,
+        replacement: 'cancel',
+      });
+    });
+
+    it('应该把旧操作标记为 replaced，并在历史中合并为一条记录', async () => {
+      expect(tracker.getOperation(USER_OP_HASH)).toMatchObject({ status: 'replaced', replacedBy: REPLACEMENT_HASH });
+      expect(tracker.getLatestOperation(USER_OP_HASH)?.userOpHash).toBe(REPLACEMENT_HASH);
+
+      const history = await transactionHistoryService.getTransactions();
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({
+        hash: REPLACEMENT_HASH,
+        to: TARGET,
+        replacement: 'cancel',
+        replacedHashes: [USER_OP_HASH],
+      });
+      expect((await transactionHistoryService.getTransaction(USER_OP_HASH))?.hash).toBe(REPLACEMENT_HASH);
+    });
+
+    it('取消操作上链后历史应该显示已取消', async () => {
+      vi.mocked(bundlerClient.getUserOperationReceipt).mockImplementation(async (hash) =>
+        hash === REPLACEMENT_HASH ? buildReceipt(true, undefined, REPLACEMENT_HASH) : null
+      );
+
+      const waiting = tracker.waitForFinalStatus(USER_OP_HASH, 5_000);
+      await tracker.checkPending();
+
+      expect((await waiting)?.userOpHash).toBe(REPLACEMENT_HASH);
+      expect((await transactionHistoryService.getTransaction(REPLACEMENT_HASH))?.status).toBe('cancelled');
+    });
+
+    it('被替换的旧操作抢先上链时应该以其回执为最终结果', async () => {
+      vi.mocked(bundlerClient.getUserOperationReceipt).mockImplementation(async (hash) =>
+        hash === USER_OP_HASH ? buildReceipt(true) : null
+      );
+
+      await tracker.checkPending();
+
+      expect(tracker.getOperation(REPLACEMENT_HASH)).toMatchObject({
+        status: 'confirmed',
+        minedUserOpHash: USER_OP_HASH,
+      });
+      expect((await transactionHistoryService.getTransaction(REPLACEMENT_HASH))?.status).toBe('success');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * ValidationSimulationService 单元测试
+ *
+ * 测试 v0.7 验证函数调用与押金核对、签名 / 有效期检查、Kernel 回滚与 v0.6 simulateValidation
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeErrorResult, encodeFunctionResult, parseAbi, type Address, type Hex } from 'viem';
+import { entryPoint06Abi } from 'viem/account-abstraction';
+import { ValidationSimulationService } from '../ValidationSimulationService';
+import { ErrorCode, WalletError } from '@/utils/errors';
+import { getChainConfigByChainId } from '@/config/chains';
+import type { UserOperation } from '@/utils/kernel-types';
+
+const mockGetPublicClient = vi.fn();
+
+vi.mock('@/utils/RpcClientManager', () => ({
+  rpcClientManager: {
+    getPublicClient: (...args: unknown[]) => mockGetPublicClient(...args),
+  },
+}));
+
+vi.mock('@/config/chains', () => ({
+  getChainConfigByChainId: vi.fn(),
+}));
+
+const SENDER = '0x1111111111111111111111111111111111111111' as Address;
+const PAYMASTER = '0x9999999999999999999999999999999999999999' as Address;
+const ENTRY_POINT_V07 = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+const ENTRY_POINT_V06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+
+const VALIDATE_ABI = parseAbi([
+  'function validateUserOp((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256 validationData)',
+]);
+
+const USER_OP: UserOperation = {
+  sender: SENDER,
+  nonce: 0n,
+  initCode: '0x',
+  callData: '0xabcd',
+  callGasLimit: 100000n,
+  verificationGasLimit: 100000n,
+  preVerificationGas: 50000n,
+  maxFeePerGas: 1000000000n,
+  maxPriorityFeePerGas: 1000000000n,
+  paymasterAndData: '0x',
+  signature: '0x1234',
+};
+
+/** 250000 gas × 1 gwei */
+const REQUIRED_PREFUND = 250000n * 1000000000n;
+
+function encodeValidationData({ sigFailed = false, validUntil = 0, validAfter = 0 } = {}): Hex {
+  const validationData =
+    (BigInt(validAfter) << 208n) | (BigInt(validUntil) << 160n) | (sigFailed ? 1n : 0n);
+  return encodeFunctionResult({ abi: VALIDATE_ABI, functionName: 'validateUserOp', result: validationData });
+}
+
+async function expectWalletError(promise: Promise<unknown>, code: ErrorCode, aaCode?: string) {
+  const error = await promise.catch((err: unknown) => err);
+  expect(error).toBeInstanceOf(WalletError);
+  expect((error as WalletError).code).toBe(code);
+  if (aaCode) {
+    expect((error as WalletError).aaCode).toBe(aaCode);
+  }
+}
+
+describe('ValidationSimulationService', () => {
+  let service: ValidationSimulationService;
+  let publicClient: {
+    call: ReturnType<typeof vi.fn>;
+    readContract: ReturnType<typeof vi.fn>;
+    getBalance: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ValidationSimulationService();
+    publicClient = {
+      call: vi.fn().mockResolvedValue({ data: encodeValidationData() }),
+      readContract: vi.fn().mockResolvedValue(0n),
+      getBalance: vi.fn().mockResolvedValue(REQUIRED_PREFUND),
+    };
+    mockGetPublicClient.mockReturnValue(publicClient);
+    vi.mocked(getChainConfigByChainId).mockReturnValue({
+      chainId: 5000,
+      name: 'Mantle',
+      rpcUrl: 'https://rpc.mantle.xyz',
+      entryPointAddress: ENTRY_POINT_V07,
+    } as ReturnType<typeof getChainConfigByChainId>);
+  });
+
+  describe('EntryPoint v0.7', () => {
+    it('应该以 EntryPoint 身份调用 validateUserOp 并核对押金与余额', async () => {
+      const result = await service.validate(USER_OP, 5000);
+
+      expect(result).toMatchObject({
+        entryPointVersion: '0.7',
+        requiredPrefund: REQUIRED_PREFUND,
+        account: { sigFailed: false, validAfter: 0, validUntil: 0 },
+      });
+      expect(publicClient.call).toHaveBeenCalledWith(expect.objectContaining({ account: ENTRY_POINT_V07, to: SENDER }));
+    });
+
+    it('签名未通过验证器校验时应该报告 AA24', async () => {
+      publicClient.call.mockResolvedValue({ data: encodeValidationData({ sigFailed: true }) });
+
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.SIGNATURE_INVALID, 'AA24');
+    });
+
+    it('有效期已过或窗口为空时应该报告 AA22', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      publicClient.call.mockResolvedValueOnce({ data: encodeValidationData({ validUntil: now - 10 }) });
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.USER_OP_EXPIRED, 'AA22');
+
+      publicClient.call.mockResolvedValueOnce({
+        data: encodeValidationData({ validAfter: now - 100, validUntil: now - 200 }),
+      });
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.USER_OP_EXPIRED, 'AA22');
+    });
+
+    it('押金与余额不足以支付最大费用时应该报告 AA21，Paymaster 押金不足时报告 AA31', async () => {
+      publicClient.getBalance.mockResolvedValue(REQUIRED_PREFUND - 1n);
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.INSUFFICIENT_PREFUND, 'AA21');
+
+      await expectWalletError(
+        service.validate({ ...USER_OP, paymasterAndData: PAYMASTER }, 5000),
+        ErrorCode.PAYMASTER_DEPOSIT_TOO_LOW,
+        'AA31'
+      );
+      expect(publicClient.call).not.toHaveBeenCalled();
+    });
+
+    it('验证器模式错误导致 Kernel 回滚时应该识别自定义错误', async () => {
+      publicClient.call.mockRejectedValue(
+        Object.assign(new Error('execution reverted'), {
+          data: encodeErrorResult({
+            abi: [{ type: 'error', name: 'InvalidValidator', inputs: [] }],
+            errorName: 'InvalidValidator',
+          }),
+        })
+      );
+
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.ACCOUNT_VALIDATION_FAILED, 'AA23');
+    });
+
+    it('节点不可用时应该跳过预检', async () => {
+      publicClient.call.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(service.validate(USER_OP, 5000)).resolves.toBeNull();
+    });
+  });
+
+  describe('EntryPoint v0.6', () => {
+    beforeEach(() => {
+      vi.mocked(getChainConfigByChainId).mockReturnValue({
+        chainId: 5000,
+        name: 'Mantle',
+        rpcUrl: 'https://rpc.mantle.xyz',
+        entryPointAddress: ENTRY_POINT_V06,
+      } as ReturnType<typeof getChainConfigByChainId>);
+    });
+
+    it('应该解析 simulateValidation 的 ValidationResult', async () => {
+      publicClient.call.mockRejectedValue(
+        Object.assign(new Error('execution reverted'), {
+          data: encodeErrorResult({
+            abi: entryPoint06Abi,
+            errorName: 'ValidationResult',
+            args: [
+              { preOpGas: 60000n, prefund: 42n, sigFailed: false, validAfter: 0, validUntil: 0, paymasterContext: '0x' },
+              { stake: 0n, unstakeDelaySec: 0n },
+              { stake: 0n, unstakeDelaySec: 0n },
+              { stake: 0n, unstakeDelaySec: 0n },
+            ],
+          }),
+        })
+      );
+
+      await expect(service.validate(USER_OP, 5000)).resolves.toMatchObject({
+        entryPointVersion: '0.6',
+        requiredPrefund: 42n,
+        account: { sigFailed: false },
+      });
+      expect(publicClient.call).toHaveBeenCalledWith(expect.objectContaining({ to: ENTRY_POINT_V06 }));
+    });
+
+    it('FailedOp 应该按其中的 AA 错误码报告', async () => {
+      publicClient.call.mockRejectedValue(
+        Object.assign(new Error('execution reverted'), {
+          data: encodeErrorResult({
+            abi: entryPoint06Abi,
+            errorName: 'FailedOp',
+            args: [0n, "AA21 didn't pay prefund"],
+          }),
+        })
+      );
+
+      await expectWalletError(service.validate(USER_OP, 5000), ErrorCode.INSUFFICIENT_PREFUND, 'AA21');
+    });
+  });
+});
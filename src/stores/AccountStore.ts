@@ -41,12 +41,23 @@ export class AccountStore {
   /** 错误信息 */
   error: string | null = null;
 
+  /** 钱包是否处于锁定状态（由 AuthService 的 wallet:locked / wallet:unlocked 事件驱动） */
+  isLocked = true;
+
   /** 初始化任务（用于外部等待 Store 就绪） */
   private initPromise: Promise<void> | null = null;
 
   constructor() {
     makeAutoObservable(this);
     this.initPromise = this.init();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('wallet:locked', () => this.setLocked(true));
+      window.addEventListener('wallet:unlocked', () => this.setLocked(false));
+      window.addEventListener('account:deployed', () => {
+        this.reloadAccounts().catch(console.error);
+      });
+    }
   }
 
   /**
@@ -71,6 +82,23 @@ export class AccountStore {
     }
   }
 
+  /**
+   * 从 AccountManager 重新加载账户列表（如反事实账户随首笔交易部署后），并同步当前账户
+   */
+  async reloadAccounts(): Promise<void> {
+    this.accounts = await accountManager.getAllAccounts();
+
+    const current = this.currentAccount;
+    const updated = current
+      ? this.accounts.find(
+          (a) => a.address.toLowerCase() === current.address.toLowerCase() && a.chainId === current.chainId
+        )
+      : undefined;
+    if (updated) {
+      this.setCurrentAccount(updated);
+    }
+  }
+
   /**
    * 等待初始化完成（不触发重复初始化）
    */
@@ -168,6 +196,13 @@ export class AccountStore {
     }
   }
 
+  /**
+   * 设置锁定状态
+   */
+  setLocked(locked: boolean): void {
+    this.isLocked = locked;
+  }
+
   /**
    * 获取当前账户地址
    */
@@ -8,18 +8,25 @@
  */
 
 import { makeAutoObservable } from 'mobx';
+import type { TransactionSimulationResult } from '@/services/TransactionSimulationService';
+import type { DecodedCall } from '@/services/AbiRegistryService';
+import type { RiskAssessment } from '@/services/RiskAssessmentService';
+import type { FeeEstimate, FeeTier } from '@/services/FeeOracleService';
 
 /**
  * 交互请求类型
  */
 export type InteractionType =
   | 'eth_sendTransaction'
+  | 'wallet_sendCalls'
   | 'eth_sign'
   | 'personal_sign'
   | 'eth_signTypedData'
   | 'eth_requestAccounts'
+  | 'wallet_requestPermissions'
   | 'wallet_switchEthereumChain'
-  | 'wallet_addEthereumChain';
+  | 'wallet_addEthereumChain'
+  | 'wallet_watchAsset';
 
 /**
  * 交互请求状态
@@ -39,8 +46,25 @@ export interface InteractionRequest {
   resolvedAt?: number;
   result?: unknown;
   error?: string;
+  /** 交易模拟结果（签名前展示资产变化与回滚原因） */
+  simulation?: TransactionSimulationResult;
+  /** 交易类请求的解码调用（方法名与参数） */
+  decodedCalls?: DecodedCall[];
+  /** 本地风险评估结果 */
+  risk?: RiskAssessment;
+  /** 用户已确认高风险提示 */
+  riskAcknowledged?: boolean;
+  /** 交易类请求的三档 Gas 费估算 */
+  feeEstimate?: FeeEstimate;
+  /** 用户选择的 Gas 费档位（未选择时使用默认档位） */
+  feeTier?: FeeTier;
 }
 
+/**
+ * 创建请求时附带的展示信息
+ */
+export type InteractionRequestDetails = Pick<InteractionRequest, 'simulation' | 'decodedCalls' | 'risk' | 'feeEstimate'>;
+
 /**
  * 交互 Store
  */
@@ -58,12 +82,14 @@ export class InteractionStore {
    * @param type 请求类型
    * @param origin DApp 来源
    * @param params 请求参数
+   * @param details 附带的展示信息（可选）
    * @returns 请求ID
    */
   addRequest(
     type: InteractionType,
     origin: string,
-    params: unknown
+    params: unknown,
+    details?: InteractionRequestDetails
   ): string {
     const request: InteractionRequest = {
       id: `interaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -72,6 +98,7 @@ export class InteractionStore {
       params,
       status: 'pending',
       createdAt: Date.now(),
+      ...details,
     };
 
     this.requests.push(request);
@@ -103,6 +130,10 @@ export class InteractionStore {
       throw new Error(`Request is not pending: ${request.status}`);
     }
 
+    if (request.risk?.requiresAcknowledgement && !request.riskAcknowledged) {
+      throw new Error('Risk acknowledgement required before approval');
+    }
+
     request.status = 'approved';
     request.result = result;
     request.resolvedAt = Date.now();
@@ -119,6 +150,39 @@ export class InteractionStore {
     );
   }
 
+  /**
+   * 确认高风险提示（高风险请求批准前必须调用）
+   * 
+   * @param requestId 请求ID
+   */
+  acknowledgeRisk(requestId: string): void {
+    const request = this.requests.find((r) => r.id === requestId);
+    if (!request) {
+      throw new Error(`Request not found: ${requestId}`);
+    }
+
+    request.riskAcknowledged = true;
+  }
+
+  /**
+   * 选择交易请求的 Gas 费档位（批准前调用）
+   * 
+   * @param requestId 请求ID
+   * @param feeTier Gas 费档位
+   */
+  setFeeTier(requestId: string, feeTier: FeeTier): void {
+    const request = this.requests.find((r) => r.id === requestId);
+    if (!request) {
+      throw new Error(`Request not found: ${requestId}`);
+    }
+
+    if (request.status !== 'pending') {
+      throw new Error(`Request is not pending: ${request.status}`);
+    }
+
+    request.feeTier = feeTier;
+  }
+
   /**
    * 拒绝请求
    * 
@@ -168,6 +232,13 @@ export class InteractionStore {
     if (this.currentRequest?.id === requestId) {
       this.currentRequest = null;
     }
+
+    // 触发请求取消事件
+    window.dispatchEvent(
+      new CustomEvent('interaction:cancelled', {
+        detail: { request },
+      })
+    );
   }
 
   /**
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InteractionStore } from '../InteractionStore';
+
+describe('InteractionStore', () => {
+  it('高风险请求在确认风险前不能批准', () => {
+    const store = new InteractionStore();
+    const requestId = store.addRequest('eth_sendTransaction', 'https://dapp.example', [], {
+      risk: { score: 80, level: 'high', reasons: [], trustedOrigin: false, requiresAcknowledgement: true },
+    });
+
+    expect(() => store.approveRequest(requestId, undefined)).toThrow('Risk acknowledgement required');
+
+    store.acknowledgeRisk(requestId);
+    store.approveRequest(requestId, undefined);
+
+    expect(store.getRequest(requestId)?.status).toBe('approved');
+  });
+
+  it('应该记录交易请求选择的 Gas 费档位，已处理的请求不能再修改', () => {
+    const store = new InteractionStore();
+    const requestId = store.addRequest('eth_sendTransaction', 'https://dapp.example', []);
+
+    store.setFeeTier(requestId, 'fast');
+    expect(store.getRequest(requestId)?.feeTier).toBe('fast');
+
+    store.rejectRequest(requestId);
+    expect(() => store.setFeeTier(requestId, 'slow')).toThrow('Request is not pending');
+  });
+
+  it('取消请求时应该派发 interaction:cancelled 事件', () => {
+    const store = new InteractionStore();
+    const requestId = store.addRequest('eth_sendTransaction', 'https://dapp.example', []);
+    const listener = vi.fn();
+    window.addEventListener('interaction:cancelled', listener);
+
+    store.cancelRequest(requestId);
+
+    window.removeEventListener('interaction:cancelled', listener);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((listener.mock.calls[0][0] as CustomEvent).detail.request).toMatchObject({
+      id: requestId,
+      status: 'cancelled',
+    });
+  });
+});
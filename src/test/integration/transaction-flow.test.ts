@@ -17,6 +17,22 @@ vi.mock('@/services/BundlerClient', () => ({
     sendUserOperation: vi.fn(),
     estimateUserOperationGas: vi.fn(),
     ensureBundler: vi.fn().mockResolvedValue(undefined),
+    configureChain: vi.fn().mockResolvedValue([
+      { url: 'https://bundler.mantle.xyz', name: 'https://bundler.mantle.xyz', priority: 1, chainId: 5000 },
+    ]),
+  },
+}));
+
+vi.mock('@/services/UserOperationTracker', () => ({
+  userOperationTracker: {
+    track: vi.fn().mockResolvedValue(undefined),
+    getPendingOperations: vi.fn().mockReturnValue([]),
+  },
+}));
+
+vi.mock('@/services/ValidationSimulationService', () => ({
+  validationSimulationService: {
+    validate: vi.fn().mockResolvedValue(null),
   },
 }));
 
@@ -84,7 +100,7 @@ describe('交易流程集成测试', () => {
 
     // 验证
     expect(hash).toBe(mockHash);
-    expect(bundlerClient.setBundler).toHaveBeenCalled();
+    expect(bundlerClient.configureChain).toHaveBeenCalledWith(chainId);
     expect(bundlerClient.sendUserOperation).toHaveBeenCalled();
   });
 });
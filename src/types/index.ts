@@ -14,6 +14,8 @@
  * @module types
  */
 
+import type { EntryPointVersion } from '@/utils/kernel-types';
+
 /**
  * 链配置接口
  * 
@@ -24,11 +26,18 @@
  * @property name - 链的名称
  * @property rpcUrl - RPC 节点 URL（必需）
  * @property bundlerUrl - ERC-4337 Bundler 服务 URL（必需）
+ * @property bundlerUrls - 备用 Bundler 服务 URL（可选，用于故障转移）
  * @property paymasterAddress - Paymaster 合约地址（可选，用于 Gas 代付）
+ * @property tokenPaymasterAddress - ERC-20 Token Paymaster 合约地址（可选，用于以代币支付 Gas）
+ * @property gasTokenAddresses - 可通过 Token Paymaster 支付 Gas 的 ERC-20 代币地址（可选）
  * @property kernelFactoryAddress - Kernel Factory 合约地址（必需）
  * @property entryPointAddress - ERC-4337 EntryPoint 合约地址（必需）
+ * @property entryPointVersion - EntryPoint 版本（可选，未配置时按 entryPointAddress 识别，默认 0.6）
  * @property multiChainValidatorAddress - MultiChainValidator 合约地址（必需，用于账户初始化）
  * @property recoveryPluginAddress - 恢复插件合约地址（可选，用于社交恢复功能）
+ * @property sessionKeyValidatorAddress - 会话密钥验证器合约地址（可选，用于限定权限的会话密钥）
+ * @property spendingLimitHookAddress - 支出限额 Hook 合约地址（可选，用于按周期限制转出金额）
+ * @property scheduledExecutorAddress - 定时执行器合约地址（可选，用于链上预授权的延迟 / 周期交易）
  * @property nativeCurrency - 原生代币信息
  */
 export interface ChainConfig {
@@ -36,11 +45,18 @@ export interface ChainConfig {
   name: string;
   rpcUrl: string;
   bundlerUrl?: string;
+  bundlerUrls?: string[];
   paymasterAddress?: string;
+  tokenPaymasterAddress?: string;
+  gasTokenAddresses?: string[];
   kernelFactoryAddress: string;
   entryPointAddress: string;
+  entryPointVersion?: EntryPointVersion;
   multiChainValidatorAddress?: string; // MultiChainValidator 地址，用于账户初始化
   recoveryPluginAddress?: string; // 恢复插件地址，用于社交恢复功能
+  sessionKeyValidatorAddress?: string; // 会话密钥验证器地址，用于限定权限的会话密钥
+  spendingLimitHookAddress?: string; // 支出限额 Hook 地址，用于按周期限制转出金额
+  scheduledExecutorAddress?: string; // 定时执行器地址，用于链上预授权的延迟 / 周期交易
   nativeCurrency: {
     name: string;
     symbol: string;
@@ -100,7 +116,7 @@ export interface AccountInfo {
  * @see utils/kernel-types.ts
  * @see https://eips.ethereum.org/EIPS/eip-4337
  */
-export type { UserOperation } from '@/utils/kernel-types';
+export type { UserOperation, PackedUserOperation, EntryPointVersion } from '@/utils/kernel-types';
 
 // 交易信息
 export interface Transaction {
@@ -266,4 +282,12 @@ export enum StorageKey {
   GUARDIANS = 'guardians',
   PLUGINS = 'plugins',
   MING_SCHEDULED_TASKS = 'ming_scheduled_tasks',
+  DAPP_PERMISSIONS = 'dapp_permissions',
+  ABI_REGISTRY = 'abi_registry',
+  USER_OPERATION_TRACKER = 'user_operation_tracker',
+  SESSION_KEYS = 'session_keys',
+  SPENDING_LIMITS = 'spending_limits',
+  CONDITIONAL_TRANSACTIONS = 'conditional_transactions',
+  DELAYED_TRANSACTIONS = 'delayed_transactions',
+  EXECUTOR_SCHEDULES = 'executor_schedules',
 }
@@ -7,6 +7,7 @@ export interface MingWalletMessage<TPayload = unknown> {
 }
 
 export interface MingWalletErrorPayload {
+  /** 协议错误码；UserOperation 失败时为钱包 ErrorCode（如 INSUFFICIENT_PREFUND），details 附带 aaCode 与 retryable */
   code: string;
   message: string;
   details?: unknown;
@@ -61,6 +61,11 @@ export interface IPlugin {
    * 安装时间
    */
   installedAt?: number;
+
+  /**
+   * 卸载数据（同一模块多次安装时用于区分实例，如会话密钥地址）
+   */
+  uninstallData?: Hex;
 }
 
 /**
@@ -128,3 +133,28 @@ export interface PluginExecutionResult {
   error?: string;
 }
 
+
+/**
+ * 插件交易状态变更记录
+ */
+export interface PluginTransactionStatusChange<TStatus extends string = string> {
+  /**
+   * 变更后的状态
+   */
+  status: TStatus;
+
+  /**
+   * 变更时间
+   */
+  at: number;
+
+  /**
+   * 相关交易哈希
+   */
+  txHash?: string;
+
+  /**
+   * 错误信息（执行失败时）
+   */
+  error?: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * 跨源 Provider 传输协议类型
+ *
+ * DApp 通过 popup / iframe 打开钱包，经 postMessage 中继 EIP-1193 请求与事件
+ */
+
+export const PROVIDER_BRIDGE_MESSAGE = {
+  /** DApp → 钱包：建立连接（钱包回复 READY） */
+  HANDSHAKE: 'ANDAO_PROVIDER_HANDSHAKE',
+  /** 钱包 → DApp：钱包已就绪 */
+  READY: 'ANDAO_PROVIDER_READY',
+  /** DApp → 钱包：EIP-1193 request */
+  REQUEST: 'ANDAO_PROVIDER_REQUEST',
+  /** 钱包 → DApp：request 结果 */
+  RESPONSE: 'ANDAO_PROVIDER_RESPONSE',
+  /** 钱包 → DApp：EIP-1193 事件（accountsChanged / chainChanged / connect / disconnect） */
+  EVENT: 'ANDAO_PROVIDER_EVENT',
+} as const;
+
+export const PROVIDER_BRIDGE_EVENTS = ['accountsChanged', 'chainChanged', 'connect', 'disconnect'] as const;
+
+export type ProviderBridgeEvent = (typeof PROVIDER_BRIDGE_EVENTS)[number];
+
+/**
+ * EIP-1193 ProviderRpcError
+ */
+export interface ProviderRpcErrorPayload {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface ProviderBridgeHandshakeMessage {
+  type: typeof PROVIDER_BRIDGE_MESSAGE.HANDSHAKE;
+}
+
+export interface ProviderBridgeReadyMessage {
+  type: typeof PROVIDER_BRIDGE_MESSAGE.READY;
+  /** 仅在回复握手时携带（此时已知对方来源） */
+  chainId?: string;
+  accounts?: string[];
+}
+
+export interface ProviderBridgeRequestMessage {
+  type: typeof PROVIDER_BRIDGE_MESSAGE.REQUEST;
+  id: string;
+  method: string;
+  params?: unknown;
+}
+
+export interface ProviderBridgeResponseMessage {
+  type: typeof PROVIDER_BRIDGE_MESSAGE.RESPONSE;
+  id: string;
+  result?: unknown;
+  error?: ProviderRpcErrorPayload;
+}
+
+export interface ProviderBridgeEventMessage {
+  type: typeof PROVIDER_BRIDGE_MESSAGE.EVENT;
+  event: ProviderBridgeEvent;
+  args: unknown[];
+}
@@ -0,0 +1,112 @@
+/**
+ * UserOperation 哈希与 v0.7 打包测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getUserOperationHash } from 'viem/account-abstraction';
+import type { Address, Hex } from 'viem';
+import { getUserOpHash } from '../eip712';
+import { ENTRYPOINT_V06_ADDRESS, ENTRYPOINT_V07_ADDRESS, type UserOperation } from '../kernel-types';
+import {
+  getEntryPointVersionByAddress,
+  packPaymasterAndData,
+  resolveEntryPointVersion,
+  toPackedUserOperation,
+} from '../userOperation';
+
+const FACTORY = '0x6723b44Abeec4E71eBE3232BD5B455805baDD22f' as Address;
+const PAYMASTER = '0x9999999999999999999999999999999999999999' as Address;
+
+const userOp: UserOperation = {
+  sender: '0x1234567890123456789012345678901234567890',
+  nonce: BigInt(3),
+  initCode: `${FACTORY}c0ffee` as Hex,
+  callData: '0xabcdef',
+  callGasLimit: BigInt(100000),
+  verificationGasLimit: BigInt(200000),
+  preVerificationGas: BigInt(50000),
+  maxFeePerGas: BigInt(2000000000),
+  maxPriorityFeePerGas: BigInt(100000000),
+  paymasterAndData: `${PAYMASTER}beef` as Hex,
+  signature: '0x1234',
+  paymasterVerificationGasLimit: BigInt(60000),
+  paymasterPostOpGasLimit: BigInt(30000),
+};
+
+describe('EntryPoint 版本识别', () => {
+  it('应该按地址识别 v0.7，其它地址按 v0.6 处理', () => {
+    expect(getEntryPointVersionByAddress(ENTRYPOINT_V07_ADDRESS.toLowerCase())).toBe('0.7');
+    expect(getEntryPointVersionByAddress(ENTRYPOINT_V06_ADDRESS)).toBe('0.6');
+  });
+
+  it('应该优先使用显式配置的版本', () => {
+    expect(
+      resolveEntryPointVersion({ entryPointAddress: ENTRYPOINT_V07_ADDRESS, entryPointVersion: '0.6' })
+    ).toBe('0.6');
+  });
+});
+
+describe('toPackedUserOperation', () => {
+  it('应该打包 Gas 字段与 Paymaster Gas 限制', () => {
+    const packed = toPackedUserOperation(userOp);
+
+    expect(packed.accountGasLimits).toBe(
+      `0x${(200000).toString(16).padStart(32, '0')}${(100000).toString(16).padStart(32, '0')}`
+    );
+    expect(packed.gasFees).toBe(
+      `0x${(100000000).toString(16).padStart(32, '0')}${(2000000000).toString(16).padStart(32, '0')}`
+    );
+    expect(packed.paymasterAndData).toBe(
+      `${PAYMASTER}${(60000).toString(16).padStart(32, '0')}${(30000).toString(16).padStart(32, '0')}beef`
+    );
+  });
+
+  it('未使用 Paymaster 时应该保持空 paymasterAndData', () => {
+    expect(packPaymasterAndData({ ...userOp, paymasterAndData: '0x' })).toBe('0x');
+  });
+});
+
+describe('getUserOpHash', () => {
+  it('应该按 v0.6 规则计算哈希（不包含签名）', () => {
+    const expected = getUserOperationHash({
+      chainId: 5000,
+      entryPointAddress: ENTRYPOINT_V06_ADDRESS,
+      entryPointVersion: '0.6',
+      userOperation: {
+        ...userOp,
+        paymasterVerificationGasLimit: undefined,
+        paymasterPostOpGasLimit: undefined,
+      },
+    });
+
+    expect(getUserOpHash(userOp, ENTRYPOINT_V06_ADDRESS, 5000)).toBe(expected);
+    expect(getUserOpHash({ ...userOp, signature: '0xffff' }, ENTRYPOINT_V06_ADDRESS, 5000)).toBe(expected);
+  });
+
+  it('应该按 v0.7 规则计算哈希', () => {
+    const expected = getUserOperationHash({
+      chainId: 5000,
+      entryPointAddress: ENTRYPOINT_V07_ADDRESS,
+      entryPointVersion: '0.7',
+      userOperation: {
+        sender: userOp.sender,
+        nonce: userOp.nonce,
+        factory: FACTORY,
+        factoryData: '0xc0ffee',
+        callData: userOp.callData,
+        callGasLimit: userOp.callGasLimit,
+        verificationGasLimit: userOp.verificationGasLimit,
+        preVerificationGas: userOp.preVerificationGas,
+        maxFeePerGas: userOp.maxFeePerGas,
+        maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+        paymaster: PAYMASTER,
+        paymasterVerificationGasLimit: BigInt(60000),
+        paymasterPostOpGasLimit: BigInt(30000),
+        paymasterData: '0xbeef',
+        signature: userOp.signature,
+      },
+    });
+
+    expect(getUserOpHash(userOp, ENTRYPOINT_V07_ADDRESS, 5000)).toBe(expected);
+  });
+});
@@ -6,7 +6,12 @@ import { describe, it, expect } from 'vitest';
 import {
   encodeExecuteCallData,
   encodeExecuteBatchCallData,
+  encodeKernelRootSignature,
+  getKernelReplaySafeHash,
+  wrapSignatureERC6492,
+  ERC6492_MAGIC_BYTES,
 } from '../kernel';
+import { concat, decodeAbiParameters, encodeAbiParameters, keccak256, toHex } from 'viem';
 import type { Address, Hex } from 'viem';
 
 describe('Kernel 工具函数', () => {
@@ -51,5 +56,66 @@ describe('Kernel 工具函数', () => {
       expect(result).toMatch(/^0x/);
     });
   });
-});
 
+  describe('智能账户签名辅助函数', () => {
+    const hash = `0x${'11'.repeat(32)}` as Hex;
+    const account = '0x1234567890123456789012345678901234567890' as Address;
+
+    it('replay-safe hash 应绑定账户地址与链 ID', () => {
+      const wrapped = getKernelReplaySafeHash(hash, account, 5000);
+
+      expect(wrapped).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(wrapped).not.toBe(hash);
+      expect(getKernelReplaySafeHash(hash, account, 5003)).not.toBe(wrapped);
+      expect(
+        getKernelReplaySafeHash(hash, '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address, 5000)
+      ).not.toBe(wrapped);
+    });
+
+    it('replay-safe hash 应使用账户合约的 EIP-712 域（Kernel / 0.3.3）', () => {
+      // 按 Solady EIP712 手工计算：域值取自 Kernel.sol 的 _domainNameAndVersion
+      const domainSeparator = keccak256(
+        encodeAbiParameters(
+          [{ type: 'bytes32' }, { type: 'bytes32' }, { type: 'bytes32' }, { type: 'uint256' }, { type: 'address' }],
+          [
+            keccak256(toHex('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)')),
+            keccak256(toHex('Kernel')),
+            keccak256(toHex('0.3.3')),
+            BigInt(5000),
+            account,
+          ]
+        )
+      );
+      const structHash = keccak256(
+        encodeAbiParameters([{ type: 'bytes32' }, { type: 'bytes32' }], [keccak256(toHex('Kernel(bytes32 hash)')), hash])
+      );
+
+      expect(getKernelReplaySafeHash(hash, account, 5000)).toBe(
+        keccak256(concat(['0x1901', domainSeparator, structHash]))
+      );
+    });
+
+    it('根验证器签名应以 0x00 前缀开头', () => {
+      const signature = `0x${'22'.repeat(65)}` as Hex;
+
+      expect(encodeKernelRootSignature(signature)).toBe(`0x00${'22'.repeat(65)}`);
+    });
+
+    it('ERC-6492 包装应可解码出 factory、factoryData 与原签名', () => {
+      const factory = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+      const factoryData = '0xdeadbeef' as Hex;
+      const signature = `0x00${'22'.repeat(65)}` as Hex;
+
+      const wrapped = wrapSignatureERC6492(factory, factoryData, signature);
+
+      expect(wrapped.endsWith(ERC6492_MAGIC_BYTES.slice(2))).toBe(true);
+      const [decodedFactory, decodedData, decodedSignature] = decodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes' }, { type: 'bytes' }],
+        wrapped.slice(0, -64) as Hex
+      );
+      expect(decodedFactory.toLowerCase()).toBe(factory);
+      expect(decodedData).toBe(factoryData);
+      expect(decodedSignature).toBe(signature);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * 跨源来源白名单工具测试
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getEmbeddingOrigins, isEmbeddingAllowed, isOriginAllowed, parseAllowedOrigins } from '../originAllowList';
+
+function fakeWindow(options: { framed: boolean; ancestors?: string[]; referrer?: string }): Window {
+  const win = {
+    location: { ancestorOrigins: options.ancestors },
+    document: { referrer: options.referrer ?? '' },
+  } as unknown as Window & { parent: Window };
+  win.parent = options.framed ? ({} as Window) : win;
+  return win;
+}
+
+describe('originAllowList', () => {
+  it('应解析逗号分隔的白名单并忽略空白项', () => {
+    expect(parseAllowedOrigins(' https://a.example, ,https://b.example ')).toEqual([
+      'https://a.example',
+      'https://b.example',
+    ]);
+    expect(parseAllowedOrigins(undefined)).toEqual([]);
+  });
+
+  it('未配置白名单时应默认拒绝，显式放行时才允许', () => {
+    expect(isOriginAllowed('https://a.example', '')).toBe(false);
+    expect(isOriginAllowed('https://a.example', undefined, { allowWhenUnconfigured: true })).toBe(true);
+    expect(isOriginAllowed('https://a.example', 'https://a.example')).toBe(true);
+    expect(isOriginAllowed('https://b.example', 'https://a.example')).toBe(false);
+    expect(isOriginAllowed('null', 'https://a.example,null')).toBe(false);
+  });
+
+  it('应优先使用 ancestorOrigins，退回 referrer 来源', () => {
+    expect(getEmbeddingOrigins(fakeWindow({ framed: false }))).toBeNull();
+    expect(
+      getEmbeddingOrigins(fakeWindow({ framed: true, ancestors: ['https://a.example', 'https://top.example'] }))
+    ).toEqual(['https://a.example', 'https://top.example']);
+    expect(getEmbeddingOrigins(fakeWindow({ framed: true, referrer: 'https://a.example/path' }))).toEqual([
+      'https://a.example',
+    ]);
+    expect(getEmbeddingOrigins(fakeWindow({ framed: true }))).toEqual([]);
+  });
+
+  it('所有祖先来源都在白名单中才允许嵌入', () => {
+    const allowList = 'https://a.example';
+
+    expect(isEmbeddingAllowed(fakeWindow({ framed: false }), '')).toBe(true);
+    expect(isEmbeddingAllowed(fakeWindow({ framed: true, ancestors: ['https://a.example'] }), allowList)).toBe(true);
+    expect(
+      isEmbeddingAllowed(fakeWindow({ framed: true, ancestors: ['https://a.example', 'https://evil.example'] }), allowList)
+    ).toBe(false);
+    expect(isEmbeddingAllowed(fakeWindow({ framed: true }), allowList)).toBe(false);
+  });
+});
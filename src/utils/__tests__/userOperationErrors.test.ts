@@ -0,0 +1,93 @@
+/**
+ * userOperationErrors 单元测试
+ *
+ * 测试 FailedOp / FailedOpWithRevert 回滚数据、Kernel 自定义错误、消息中的 AA 错误码与 Bundler 错误码解码
+ */
+
+import { describe, expect, it } from 'vitest';
+import { encodeErrorResult, type Hex } from 'viem';
+import { decodeKernelError, decodeUserOperationError } from '../userOperationErrors';
+
+const FAILED_OP_ABI = [
+  {
+    type: 'error',
+    name: 'FailedOp',
+    inputs: [
+      { name: 'opIndex', type: 'uint256' },
+      { name: 'reason', type: 'string' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'FailedOpWithRevert',
+    inputs: [
+      { name: 'opIndex', type: 'uint256' },
+      { name: 'reason', type: 'string' },
+      { name: 'inner', type: 'bytes' },
+    ],
+  },
+] as const;
+
+const INVALID_NONCE: Hex = encodeErrorResult({
+  abi: [{ type: 'error', name: 'InvalidNonce', inputs: [] }],
+  errorName: 'InvalidNonce',
+});
+
+describe('userOperationErrors', () => {
+  it('应该解码 FailedOp 回滚数据中的 AA 错误码', () => {
+    const data = encodeErrorResult({
+      abi: FAILED_OP_ABI,
+      errorName: 'FailedOp',
+      args: [1n, "AA21 didn't pay prefund"],
+    });
+
+    expect(decodeUserOperationError({ message: 'execution reverted', data })).toEqual({
+      aaCode: 'AA21',
+      reason: "AA21 didn't pay prefund",
+      rpcCode: undefined,
+      opIndex: 1,
+      kernelError: undefined,
+      revertData: undefined,
+    });
+  });
+
+  it('应该解码 FailedOpWithRevert 中的 Kernel 自定义错误', () => {
+    const data = encodeErrorResult({
+      abi: FAILED_OP_ABI,
+      errorName: 'FailedOpWithRevert',
+      args: [0n, 'AA23 reverted', INVALID_NONCE],
+    });
+
+    // 部分 Bundler 把回滚数据放在 data.revertData，且包装在 cause 中
+    const decoded = decodeUserOperationError({
+      message: 'UserOperation reverted during simulation',
+      cause: { code: -32500, data: { revertData: data } },
+    });
+
+    expect(decoded).toMatchObject({ aaCode: 'AA23', kernelError: 'InvalidNonce', rpcCode: -32500, revertData: INVALID_NONCE });
+    expect(decodeKernelError(INVALID_NONCE)).toBe('InvalidNonce');
+  });
+
+  it('应该从 Bundler 错误消息中识别 AA 错误码', () => {
+    const error = Object.assign(new Error('Invalid UserOperation: AA25 invalid account nonce'), { rpcCode: -32602 });
+
+    expect(decodeUserOperationError(error)).toMatchObject({ aaCode: 'AA25', rpcCode: undefined });
+  });
+
+  it('只有 ERC-7769 错误码时也应该识别，普通错误返回 null', () => {
+    expect(decodeUserOperationError({ message: 'paymaster deposit too low', rpcCode: -32508 })).toMatchObject({
+      rpcCode: -32508,
+    });
+    expect(decodeUserOperationError(new Error('Network request failed'))).toBeNull();
+    expect(
+      decodeUserOperationError({
+        message: 'execution reverted',
+        data: encodeErrorResult({
+          abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+          errorName: 'Error',
+          args: ['not owner'],
+        }),
+      })
+    ).toBeNull();
+  });
+});
@@ -5,29 +5,41 @@ export type RequiredChainField =
   | 'rpcUrl'
   | 'bundlerUrl'
   | 'paymasterAddress'
+  | 'tokenPaymasterAddress'
   | 'kernelFactoryAddress'
   | 'entryPointAddress'
   | 'multiChainValidatorAddress'
-  | 'recoveryPluginAddress';
+  | 'recoveryPluginAddress'
+  | 'sessionKeyValidatorAddress'
+  | 'spendingLimitHookAddress'
+  | 'scheduledExecutorAddress';
 
 const FIELD_LABEL: Record<RequiredChainField, string> = {
   rpcUrl: 'RPC 节点 URL',
   bundlerUrl: 'Bundler URL',
   paymasterAddress: 'Paymaster 地址',
+  tokenPaymasterAddress: 'Token Paymaster 地址',
   kernelFactoryAddress: 'Kernel Factory 地址',
   entryPointAddress: 'EntryPoint 地址',
   multiChainValidatorAddress: 'MultiChainValidator 地址',
   recoveryPluginAddress: 'Recovery Plugin 地址',
+  sessionKeyValidatorAddress: 'Session Key Validator 地址',
+  spendingLimitHookAddress: 'Spending Limit Hook 地址',
+  scheduledExecutorAddress: 'Scheduled Executor 地址',
 };
 
 const FIELD_ENV_SUFFIX: Record<RequiredChainField, string> = {
   rpcUrl: 'RPC_URL',
   bundlerUrl: 'BUNDLER_URL',
   paymasterAddress: 'PAYMASTER_ADDRESS',
+  tokenPaymasterAddress: 'TOKEN_PAYMASTER_ADDRESS',
   kernelFactoryAddress: 'KERNEL_FACTORY_ADDRESS',
   entryPointAddress: 'ENTRYPOINT_ADDRESS',
   multiChainValidatorAddress: 'MULTI_CHAIN_VALIDATOR_ADDRESS',
   recoveryPluginAddress: 'RECOVERY_PLUGIN_ADDRESS',
+  sessionKeyValidatorAddress: 'SESSION_KEY_VALIDATOR_ADDRESS',
+  spendingLimitHookAddress: 'SPENDING_LIMIT_HOOK_ADDRESS',
+  scheduledExecutorAddress: 'SCHEDULED_EXECUTOR_ADDRESS',
 };
 
 function getEnvPrefix(chainName: string): string {
@@ -15,17 +15,23 @@
 import type { Address, Hex } from 'viem';
 import { type Hash } from 'viem';
 import { keccak256, encodeAbiParameters, parseAbiParameters } from 'viem';
-import { UserOperation } from '@/types';
+import { UserOperation, EntryPointVersion } from '@/types';
+import { getEntryPointVersionByAddress, packPaymasterAndData, packAccountGasLimits, packGasFees } from './userOperation';
 
 /**
  * 获取 EntryPoint 的 UserOperation 哈希
  * 
  * 根据 ERC-4337 标准，UserOperation 的哈希由 EntryPoint 合约计算
- * 哈希计算方式：keccak256(encode(UserOperation) || entryPoint || chainId)
+ * 哈希计算方式：keccak256(encode(keccak256(pack(UserOperation)), entryPoint, chainId))
+ * 
+ * pack 不包含 signature，动态字段（initCode / callData / paymasterAndData）以 keccak256 代替：
+ * - v0.6：各 Gas 字段独立编码
+ * - v0.7：Gas 字段打包为 accountGasLimits / gasFees，paymasterAndData 包含 Paymaster Gas 限制
  * 
  * @param userOp UserOperation 对象
  * @param entryPointAddress EntryPoint 合约地址
  * @param chainId 链 ID
+ * @param version EntryPoint 版本（未传入时按地址识别）
  * @returns UserOperation 哈希
  * 
  * @see https://eips.ethereum.org/EIPS/eip-4337
@@ -33,15 +39,13 @@ import { UserOperation } from '@/types';
 export function getUserOpHash(
   userOp: UserOperation,
   entryPointAddress: Address,
-  chainId: number
+  chainId: number,
+  version: EntryPointVersion = getEntryPointVersionByAddress(entryPointAddress)
 ): Hash {
-  // ERC-4337 UserOperation 哈希计算
-  // hash = keccak256(encode(UserOperation) || entryPoint || chainId)
-  
-  const encodedUserOp = encodeUserOperation(userOp);
+  const encodedUserOp = encodeUserOperation(userOp, version);
   const encoded = encodeAbiParameters(
-    parseAbiParameters('bytes, address, uint256'),
-    [encodedUserOp, entryPointAddress, BigInt(chainId)]
+    parseAbiParameters('bytes32, address, uint256'),
+    [keccak256(encodedUserOp), entryPointAddress, BigInt(chainId)]
   );
   
   return keccak256(encoded);
@@ -50,29 +54,45 @@ export function getUserOpHash(
 /**
  * 编码 UserOperation
  * 
- * 将 UserOperation 对象编码为 ABI 参数
+ * 将 UserOperation 对象按 EntryPoint 版本编码为 ABI 参数（不含签名）
  * 用于计算哈希
  * 
  * @param userOp UserOperation 对象
+ * @param version EntryPoint 版本
  * @returns 编码后的数据
  */
-function encodeUserOperation(userOp: UserOperation): Hex {
+function encodeUserOperation(userOp: UserOperation, version: EntryPointVersion): Hex {
+  if (version === '0.7') {
+    return encodeAbiParameters(
+      parseAbiParameters('address, uint256, bytes32, bytes32, bytes32, uint256, bytes32, bytes32'),
+      [
+        userOp.sender as Address,
+        userOp.nonce,
+        keccak256(userOp.initCode as Hex),
+        keccak256(userOp.callData as Hex),
+        packAccountGasLimits(userOp.verificationGasLimit, userOp.callGasLimit),
+        userOp.preVerificationGas,
+        packGasFees(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+        keccak256(packPaymasterAndData(userOp)),
+      ]
+    );
+  }
+
   return encodeAbiParameters(
     parseAbiParameters(
-      'address, uint256, bytes, bytes, uint256, uint256, uint256, uint256, uint256, bytes, bytes'
+      'address, uint256, bytes32, bytes32, uint256, uint256, uint256, uint256, uint256, bytes32'
     ),
     [
       userOp.sender as Address,
       userOp.nonce,
-      userOp.initCode as Hex,
-      userOp.callData as Hex,
+      keccak256(userOp.initCode as Hex),
+      keccak256(userOp.callData as Hex),
       userOp.callGasLimit,
       userOp.verificationGasLimit,
       userOp.preVerificationGas,
       userOp.maxFeePerGas,
       userOp.maxPriorityFeePerGas,
-      userOp.paymasterAndData as Hex,
-      userOp.signature as Hex,
+      keccak256(userOp.paymasterAndData as Hex),
     ]
   );
 }
@@ -99,6 +119,7 @@ function encodeUserOperation(userOp: UserOperation): Hex {
  * @param chainId 链 ID
  * @param signerPrivateKey 签名者私钥
  * @param rpcUrl RPC 节点 URL（当前未使用，保留用于未来扩展）
+ * @param version EntryPoint 版本（未传入时按地址识别）
  * @returns 签名结果（65 字节，r + s + v）
  * 
  * @example
@@ -117,10 +138,11 @@ export async function signUserOperation(
   entryPointAddress: Address,
   chainId: number,
   signerPrivateKey: Hex,
-  _rpcUrl: string
+  _rpcUrl: string,
+  version?: EntryPointVersion
 ): Promise<Hex> {
   // 1. 获取 UserOperation 哈希
-  const userOpHash = getUserOpHash(userOp, entryPointAddress, chainId);
+  const userOpHash = getUserOpHash(userOp, entryPointAddress, chainId, version);
   
   // 2. 使用 ethers.js 进行签名
   // 导入 ethers
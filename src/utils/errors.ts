@@ -4,6 +4,13 @@
  * 提供统一的错误分类和处理机制
  */
 
+import {
+  BUNDLER_RPC_ERROR_CODES,
+  decodeUserOperationError,
+  type DecodedUserOperationError,
+  type KernelErrorName,
+} from './userOperationErrors';
+
 /**
  * 错误代码枚举
  */
@@ -20,11 +27,27 @@ export enum ErrorCode {
   SIGNATURE_INVALID = 'SIGNATURE_INVALID',
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
   
+  // ERC-4337 错误（AA1x-AA5x、Bundler 与 Kernel 验证失败）
+  ACCOUNT_DEPLOYMENT_FAILED = 'ACCOUNT_DEPLOYMENT_FAILED',
+  ACCOUNT_NOT_DEPLOYED = 'ACCOUNT_NOT_DEPLOYED',
+  INSUFFICIENT_PREFUND = 'INSUFFICIENT_PREFUND',
+  USER_OP_EXPIRED = 'USER_OP_EXPIRED',
+  ACCOUNT_VALIDATION_FAILED = 'ACCOUNT_VALIDATION_FAILED',
+  INVALID_NONCE = 'INVALID_NONCE',
+  VERIFICATION_GAS_TOO_LOW = 'VERIFICATION_GAS_TOO_LOW',
+  PAYMASTER_NOT_DEPLOYED = 'PAYMASTER_NOT_DEPLOYED',
+  PAYMASTER_DEPOSIT_TOO_LOW = 'PAYMASTER_DEPOSIT_TOO_LOW',
+  PAYMASTER_EXPIRED = 'PAYMASTER_EXPIRED',
+  PAYMASTER_VALIDATION_FAILED = 'PAYMASTER_VALIDATION_FAILED',
+  PAYMASTER_POSTOP_FAILED = 'PAYMASTER_POSTOP_FAILED',
+  EXECUTION_REVERTED = 'EXECUTION_REVERTED',
+  
   // 用户错误
   AUTH_ERROR = 'AUTH_ERROR',
   PASSWORD_INVALID = 'PASSWORD_INVALID',
   ADDRESS_INVALID = 'ADDRESS_INVALID',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
+  SPENDING_LIMIT_EXCEEDED = 'SPENDING_LIMIT_EXCEEDED',
   
   // 系统错误
   STORAGE_ERROR = 'STORAGE_ERROR',
@@ -35,6 +58,77 @@ export enum ErrorCode {
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
+/**
+ * UserOperation 错误详情（WalletError.details）
+ */
+export interface UserOperationErrorDetails extends DecodedUserOperationError {
+  cause: unknown;
+}
+
+/**
+ * 各系列 AA 错误的默认分类，个别错误码见 AA_ERROR_CODES
+ */
+const AA_SERIES_ERROR_CODES: Record<string, ErrorCode> = {
+  AA1: ErrorCode.ACCOUNT_DEPLOYMENT_FAILED,
+  AA2: ErrorCode.ACCOUNT_VALIDATION_FAILED,
+  AA3: ErrorCode.PAYMASTER_VALIDATION_FAILED,
+  AA4: ErrorCode.VERIFICATION_GAS_TOO_LOW,
+  AA5: ErrorCode.PAYMASTER_POSTOP_FAILED,
+};
+
+const AA_ERROR_CODES: Record<string, ErrorCode> = {
+  AA20: ErrorCode.ACCOUNT_NOT_DEPLOYED,
+  AA21: ErrorCode.INSUFFICIENT_PREFUND,
+  AA22: ErrorCode.USER_OP_EXPIRED,
+  AA24: ErrorCode.SIGNATURE_INVALID,
+  AA25: ErrorCode.INVALID_NONCE,
+  AA26: ErrorCode.VERIFICATION_GAS_TOO_LOW,
+  AA30: ErrorCode.PAYMASTER_NOT_DEPLOYED,
+  AA31: ErrorCode.PAYMASTER_DEPOSIT_TOO_LOW,
+  AA32: ErrorCode.PAYMASTER_EXPIRED,
+  AA36: ErrorCode.VERIFICATION_GAS_TOO_LOW,
+  AA51: ErrorCode.INSUFFICIENT_PREFUND,
+};
+
+const KERNEL_ERROR_CODES: Partial<Record<KernelErrorName, ErrorCode>> = {
+  InvalidNonce: ErrorCode.INVALID_NONCE,
+  NonceInvalidationError: ErrorCode.INVALID_NONCE,
+  InvalidSignature: ErrorCode.SIGNATURE_INVALID,
+  ExecutionReverted: ErrorCode.EXECUTION_REVERTED,
+};
+
+const BUNDLER_RPC_ERROR_CODE_MAP: Record<number, ErrorCode> = {
+  [BUNDLER_RPC_ERROR_CODES.REJECTED_BY_ACCOUNT]: ErrorCode.ACCOUNT_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.REJECTED_BY_PAYMASTER]: ErrorCode.PAYMASTER_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.BANNED_OPCODE]: ErrorCode.ACCOUNT_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.OUT_OF_TIME_RANGE]: ErrorCode.USER_OP_EXPIRED,
+  [BUNDLER_RPC_ERROR_CODES.THROTTLED_OR_BANNED]: ErrorCode.PAYMASTER_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.INSUFFICIENT_STAKE]: ErrorCode.PAYMASTER_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.UNSUPPORTED_AGGREGATOR]: ErrorCode.ACCOUNT_VALIDATION_FAILED,
+  [BUNDLER_RPC_ERROR_CODES.INVALID_SIGNATURE]: ErrorCode.SIGNATURE_INVALID,
+  [BUNDLER_RPC_ERROR_CODES.PAYMASTER_DEPOSIT_TOO_LOW]: ErrorCode.PAYMASTER_DEPOSIT_TOO_LOW,
+  [BUNDLER_RPC_ERROR_CODES.EXECUTION_REVERTED]: ErrorCode.EXECUTION_REVERTED,
+};
+
+/**
+ * 解码结果映射为钱包错误码
+ *
+ * Kernel 自定义错误最具体（如 AA23 reverted 的内层为 InvalidNonce），其次为 AA 错误码，最后为 Bundler 错误码
+ */
+function resolveUserOperationErrorCode(decoded: DecodedUserOperationError): ErrorCode {
+  const kernelCode = decoded.kernelError ? KERNEL_ERROR_CODES[decoded.kernelError] : undefined;
+  if (kernelCode) {
+    return kernelCode;
+  }
+  if (decoded.aaCode) {
+    return AA_ERROR_CODES[decoded.aaCode] ?? AA_SERIES_ERROR_CODES[decoded.aaCode.slice(0, 3)];
+  }
+  if (decoded.kernelError) {
+    return ErrorCode.ACCOUNT_VALIDATION_FAILED;
+  }
+  return (decoded.rpcCode !== undefined && BUNDLER_RPC_ERROR_CODE_MAP[decoded.rpcCode]) || ErrorCode.BUNDLER_ERROR;
+}
+
 /**
  * 钱包错误类
  */
@@ -79,6 +173,21 @@ export class WalletError extends Error {
     Object.setPrototypeOf(this, WalletError.prototype);
   }
 
+  /**
+   * EntryPoint 错误码（如 AA21），非 UserOperation 错误时为 undefined
+   */
+  get aaCode(): string | undefined {
+    const details = this.details as Partial<UserOperationErrorDetails> | undefined;
+    return typeof details?.aaCode === 'string' ? details.aaCode : undefined;
+  }
+
+  /**
+   * 附加 AA 错误码，便于排查
+   */
+  private withAaCode(message: string): string {
+    return this.aaCode ? `${message}（${this.aaCode}）` : message;
+  }
+
   /**
    * 转换为用户友好的错误消息
    */
@@ -103,6 +212,45 @@ export class WalletError extends Error {
       case ErrorCode.TRANSACTION_FAILED:
         return '交易执行失败';
       
+      case ErrorCode.ACCOUNT_DEPLOYMENT_FAILED:
+        return this.withAaCode('账户部署失败，请检查账户工厂配置');
+      
+      case ErrorCode.ACCOUNT_NOT_DEPLOYED:
+        return this.withAaCode('账户尚未部署，请先完成账户部署');
+      
+      case ErrorCode.INSUFFICIENT_PREFUND:
+        return this.withAaCode('账户余额不足以支付 Gas 费用，请充值或使用赞助后重试');
+      
+      case ErrorCode.USER_OP_EXPIRED:
+        return this.withAaCode('交易签名已过期或尚未生效，请重新发送');
+      
+      case ErrorCode.ACCOUNT_VALIDATION_FAILED:
+        return this.withAaCode('账户验证未通过，交易被拒绝');
+      
+      case ErrorCode.INVALID_NONCE:
+        return this.withAaCode('交易序号（nonce）已被使用或不连续，请重新发送');
+      
+      case ErrorCode.VERIFICATION_GAS_TOO_LOW:
+        return this.withAaCode('验证阶段 Gas 不足，请重新估算后发送');
+      
+      case ErrorCode.PAYMASTER_NOT_DEPLOYED:
+        return this.withAaCode('Paymaster 合约未部署，无法代付 Gas');
+      
+      case ErrorCode.PAYMASTER_DEPOSIT_TOO_LOW:
+        return this.withAaCode('Paymaster 押金不足，暂时无法代付 Gas');
+      
+      case ErrorCode.PAYMASTER_EXPIRED:
+        return this.withAaCode('Paymaster 赞助已过期，请重新发送');
+      
+      case ErrorCode.PAYMASTER_VALIDATION_FAILED:
+        return this.withAaCode('Paymaster 拒绝代付本次交易');
+      
+      case ErrorCode.PAYMASTER_POSTOP_FAILED:
+        return this.withAaCode('Paymaster 结算失败，交易已回滚');
+      
+      case ErrorCode.EXECUTION_REVERTED:
+        return '交易执行回滚，请检查交易参数';
+      
       case ErrorCode.AUTH_ERROR:
       case ErrorCode.PASSWORD_INVALID:
         return '密码错误，请重新输入';
@@ -113,6 +261,9 @@ export class WalletError extends Error {
       case ErrorCode.VALIDATION_ERROR:
         return this.resolveValidationMessage();
       
+      case ErrorCode.SPENDING_LIMIT_EXCEEDED:
+        return `${this.message}，请减少金额或等待额度恢复`;
+      
       case ErrorCode.STORAGE_ERROR:
         return '存储操作失败';
       
@@ -140,9 +291,19 @@ export class WalletError extends Error {
 
   /**
    * 判断是否为可重试的错误
+   *
+   * 网络与 Bundler 错误（含未单独映射的 Bundler RPC 错误码）可直接重试；
+   * nonce、有效期与验证 Gas 问题在重新构建、签名 UserOperation 后可能成功；
+   * 余额、签名、Paymaster 押金等问题需要用户处理，重试无效
    */
   isRetryable(): boolean {
-    return this.isNetworkError() || this.code === ErrorCode.BUNDLER_ERROR;
+    return this.isNetworkError() || [
+      ErrorCode.BUNDLER_ERROR,
+      ErrorCode.INVALID_NONCE,
+      ErrorCode.USER_OP_EXPIRED,
+      ErrorCode.VERIFICATION_GAS_TOO_LOW,
+      ErrorCode.PAYMASTER_EXPIRED,
+    ].includes(this.code);
   }
 }
 
@@ -167,6 +328,11 @@ export class ErrorHandler {
       return error;
     }
 
+    const userOperationError = this.fromUserOperationError(error);
+    if (userOperationError) {
+      return userOperationError;
+    }
+
     if (error instanceof Error) {
       // 尝试从错误消息中推断错误类型
       const message = error.message.toLowerCase();
@@ -205,6 +371,22 @@ export class ErrorHandler {
     );
   }
 
+  /**
+   * 从 Bundler / EntryPoint / Kernel 错误创建 WalletError，非 UserOperation 错误返回 null
+   */
+  static fromUserOperationError(error: unknown): WalletError | null {
+    const decoded = decodeUserOperationError(error);
+    if (!decoded) {
+      return null;
+    }
+    const details: UserOperationErrorDetails = { ...decoded, cause: error };
+    return new WalletError(
+      error instanceof Error ? error.message : decoded.reason,
+      resolveUserOperationErrorCode(decoded),
+      details
+    );
+  }
+
   /**
    * 处理错误并返回用户友好的消息
    */
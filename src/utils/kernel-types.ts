@@ -150,14 +150,32 @@ export const KERNEL_FACTORY_ABI = KERNEL_FACTORY_ABI_FALLBACK;
 export const KERNEL_ABI = KERNEL_ABI_FALLBACK;
 export const ENTRYPOINT_ABI = ENTRYPOINT_ABI_FALLBACK;
 
+/**
+ * EntryPoint 版本
+ * 
+ * - 0.6：UserOperation 各 Gas 字段独立编码
+ * - 0.7：PackedUserOperation，Gas 字段两两打包为 bytes32，Paymaster 额外携带验证 / postOp Gas 限制
+ */
+export type EntryPointVersion = '0.6' | '0.7';
+
+/** ERC-4337 EntryPoint v0.6 标准地址 */
+export const ENTRYPOINT_V06_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789' as const;
+
+/** ERC-4337 EntryPoint v0.7 标准地址 */
+export const ENTRYPOINT_V07_ADDRESS = '0x0000000071727De22E5E9d8BAf0edAc6f37da032' as const;
+
 /**
  * UserOperation 类型定义
  * 
  * 基于 ERC-4337 标准
  * 
+ * 钱包内部统一使用该结构，发送时按 EntryPoint 版本转换：
+ * - initCode = factory (20 bytes) + factoryData
+ * - paymasterAndData = paymaster (20 bytes) + paymasterData（不含 v0.7 的 Paymaster Gas 限制）
+ * - v0.7 的 Paymaster Gas 限制单独存放在 paymasterVerificationGasLimit / paymasterPostOpGasLimit
+ * 
  * 注意：
  * - 当前使用本地定义的类型
- * - 当 kernel-dev 编译完成后，可以从 kernel-dev 导入 PackedUserOperation 类型
  * - 类型定义需要与 ERC-4337 标准保持一致
  */
 export interface UserOperation {
@@ -172,4 +190,27 @@ export interface UserOperation {
   maxPriorityFeePerGas: bigint;
   paymasterAndData: Hex;
   signature: Hex;
+  /** Paymaster 验证阶段 Gas 限制（仅 v0.7） */
+  paymasterVerificationGasLimit?: bigint;
+  /** Paymaster postOp 阶段 Gas 限制（仅 v0.7） */
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * EntryPoint v0.7 链上 PackedUserOperation 结构
+ * 
+ * - accountGasLimits = verificationGasLimit (16 bytes) + callGasLimit (16 bytes)
+ * - gasFees = maxPriorityFeePerGas (16 bytes) + maxFeePerGas (16 bytes)
+ * - paymasterAndData = paymaster + paymasterVerificationGasLimit (16 bytes) + paymasterPostOpGasLimit (16 bytes) + paymasterData
+ */
+export interface PackedUserOperation {
+  sender: Address;
+  nonce: bigint;
+  initCode: Hex;
+  callData: Hex;
+  accountGasLimits: Hex;
+  preVerificationGas: bigint;
+  gasFees: Hex;
+  paymasterAndData: Hex;
+  signature: Hex;
 }
@@ -10,7 +10,17 @@
  */
 
 import type { Address, Hex, Hash } from 'viem';
-import { createPublicClient, createWalletClient, http, encodeFunctionData } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  encodeFunctionData,
+  encodeAbiParameters,
+  concat,
+  hashTypedData,
+  parseAbi,
+  toFunctionSelector,
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { KERNEL_FACTORY_ABI, KERNEL_ABI, ENTRYPOINT_ABI } from './kernel-types';
 import { rpcClientManager } from './RpcClientManager';
@@ -303,3 +313,190 @@ export async function getAccountNonce(
 
   return nonce;
 }
+
+/**
+ * Kernel v3 EIP-712 域（用于 ERC-1271 replay-safe hash）
+ *
+ * 须与账户实现的 _domainNameAndVersion 一致（smart-services/contracts/src/Kernel.sol）
+ */
+export const KERNEL_EIP712_DOMAIN = {
+  name: 'Kernel',
+  version: '0.3.3',
+} as const;
+
+/**
+ * ERC-6492 签名尾部魔数
+ */
+export const ERC6492_MAGIC_BYTES =
+  '0x6492649264926492649264926492649264926492649264926492649264926492' as const;
+
+/**
+ * Kernel 根验证器签名前缀（ValidationType.ROOT）
+ */
+const KERNEL_ROOT_VALIDATION_TYPE = '0x00' as const;
+
+/**
+ * Kernel v3 验证器安装数据中的 hook 占位地址（address(1) 表示不使用 hook）
+ */
+const KERNEL_NO_HOOK_ADDRESS = '0x0000000000000000000000000000000000000001' as const;
+
+/**
+ * 构造 Kernel v3 installModule(VALIDATOR) 的安装数据
+ *
+ * 格式：hook 地址（20 字节）++ abi.encode(validatorData, hookData, selectorData)，
+ * selectorData 前 4 字节为授权该验证器调用的账户入口函数
+ *
+ * @param validatorData 传给验证器 onInstall 的数据
+ * @param selector 允许该验证器使用的账户函数选择器（如 execute）
+ */
+export function encodeValidatorInstallData(validatorData: Hex, selector: Hex): Hex {
+  return concat([
+    KERNEL_NO_HOOK_ADDRESS,
+    encodeAbiParameters(
+      [{ type: 'bytes' }, { type: 'bytes' }, { type: 'bytes' }],
+      [validatorData, '0x', selector]
+    ),
+  ]);
+}
+
+/**
+ * 构造 Kernel v3 installModule(EXECUTOR) 的安装数据
+ *
+ * 格式：hook 地址（20 字节）++ abi.encode(executorData, hookData)；
+ * 指定 hook 时 hookData 为 0x00，复用账户上已初始化的 hook，不重新调用其 onInstall
+ *
+ * @param executorData 传给执行器 onInstall 的数据
+ * @param hook 执行器每次执行前后调用的 hook（如支出限额 Hook），默认不挂载
+ */
+export function encodeExecutorInstallData(executorData: Hex, hook?: Address): Hex {
+  return concat([
+    hook ?? KERNEL_NO_HOOK_ADDRESS,
+    encodeAbiParameters([{ type: 'bytes' }, { type: 'bytes' }], [executorData, hook ? '0x00' : '0x']),
+  ]);
+}
+
+/**
+ * Kernel v3 验证配置的读取与安装接口
+ */
+export const KERNEL_VALIDATION_ABI = parseAbi([
+  'function rootValidator() view returns (bytes21)',
+  'function currentNonce() view returns (uint32)',
+  'function validationConfig(bytes21 vId) view returns ((uint32 nonce, address hook))',
+  'function installValidations(bytes21[] vIds, (uint32 nonce, address hook)[] configs, bytes[] validationData, bytes[] hookData)',
+]);
+
+/**
+ * executeUserOp 选择器（ERC-4337 IAccountExecute）
+ *
+ * 验证配置了 hook 时，Kernel 要求 callData 以该选择器开头，并以其后的账户调用数据运行 hook
+ */
+export const EXECUTE_USER_OP_SELECTOR = toFunctionSelector(
+  'function executeUserOp((address,uint256,bytes,bytes,bytes32,uint256,bytes32,bytes,bytes),bytes32)'
+);
+
+/**
+ * 构造经 executeUserOp 执行的 callData（选择器 ++ 原账户调用数据）
+ */
+export function encodeExecuteUserOpCallData(callData: Hex): Hex {
+  return concat([EXECUTE_USER_OP_SELECTOR, callData]);
+}
+
+/**
+ * 构造为验证挂载 hook 的 installValidations 调用数据（账户调用自身）
+ *
+ * 以新的验证 nonce 重新安装该验证：验证器重新以 validatorData 初始化，
+ * hookData 首字节 0xff 表示强制调用 hook 的 onInstall
+ *
+ * @param vId 验证 ID（如根验证器）
+ * @param nonce 新的验证 nonce，须等于账户安装时的 currentNonce
+ * @param hook 挂载的 hook 地址
+ * @param validatorData 传给验证器 onInstall 的数据
+ * @param hookInstallData 传给 hook onInstall 的数据
+ */
+export function encodeInstallValidationHookCallData(
+  vId: Hex,
+  nonce: number,
+  hook: Address,
+  validatorData: Hex,
+  hookInstallData: Hex
+): Hex {
+  return encodeFunctionData({
+    abi: KERNEL_VALIDATION_ABI,
+    functionName: 'installValidations',
+    args: [[vId], [{ nonce, hook }], [validatorData], [concat(['0xff', hookInstallData])]],
+  });
+}
+
+/**
+ * 构造 createAccount 调用数据
+ * 
+ * 编码 KernelFactory.createAccount(initData, salt)，用于 ERC-6492 与 initCode
+ * 
+ * @param initData 账户初始化数据
+ * @param salt 盐值
+ * @returns 编码后的调用数据
+ */
+export function encodeCreateAccountCallData(initData: Hex, salt: Hex): Hex {
+  return encodeFunctionData({
+    abi: KERNEL_FACTORY_ABI,
+    functionName: 'createAccount',
+    args: [initData, salt],
+  });
+}
+
+/**
+ * 计算 Kernel 的 replay-safe hash
+ * 
+ * Kernel.isValidSignature 不会直接校验原始哈希，而是先用账户自身的 EIP-712 域
+ * 包装为 Kernel(bytes32 hash)，避免同一 owner 的签名在其他账户/链上被重放
+ * 
+ * @param hash 原始消息哈希（EIP-191 / EIP-712）
+ * @param accountAddress Kernel 账户地址
+ * @param chainId 链 ID
+ * @returns 交给验证器签名的哈希
+ */
+export function getKernelReplaySafeHash(hash: Hex, accountAddress: Address, chainId: number): Hex {
+  return hashTypedData({
+    domain: {
+      ...KERNEL_EIP712_DOMAIN,
+      chainId,
+      verifyingContract: accountAddress,
+    },
+    types: {
+      Kernel: [{ name: 'hash', type: 'bytes32' }],
+    },
+    primaryType: 'Kernel',
+    message: { hash },
+  });
+}
+
+/**
+ * 构造 Kernel 根验证器的 ERC-1271 签名
+ * 
+ * 签名首字节为验证类型，0x00 表示使用账户的根验证器（MultiChainValidator）
+ * 
+ * @param validatorSignature 验证器签名（ECDSA 65 字节）
+ */
+export function encodeKernelRootSignature(validatorSignature: Hex): Hex {
+  return concat([KERNEL_ROOT_VALIDATION_TYPE, validatorSignature]);
+}
+
+/**
+ * ERC-6492 签名包装
+ * 
+ * 未部署账户无法响应 isValidSignature，验证方需先按 factory/factoryData 模拟部署
+ * 格式：abi.encode(factory, factoryData, signature) ++ magicBytes
+ * 
+ * @param factoryAddress Kernel Factory 地址
+ * @param factoryData createAccount 调用数据
+ * @param signature 账户部署后可验证的 ERC-1271 签名
+ */
+export function wrapSignatureERC6492(factoryAddress: Address, factoryData: Hex, signature: Hex): Hex {
+  return concat([
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'bytes' }, { type: 'bytes' }],
+      [factoryAddress, factoryData, signature]
+    ),
+    ERC6492_MAGIC_BYTES,
+  ]);
+}
@@ -0,0 +1,89 @@
+/**
+ * 跨源来源白名单
+ *
+ * 供 postMessage 桥接服务（Provider / Ming）校验消息来源与 iframe 嵌入方，
+ * 白名单来自逗号分隔的环境变量
+ *
+ * @module utils/originAllowList
+ */
+
+export interface OriginAllowListOptions {
+  /** 未配置白名单时是否放行所有来源，默认拒绝 */
+  allowWhenUnconfigured?: boolean;
+}
+
+/**
+ * 解析逗号分隔的来源白名单
+ */
+export function parseAllowedOrigins(configured: string | undefined): string[] {
+  if (!configured) {
+    return [];
+  }
+
+  return configured
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 判断来源是否在白名单中
+ *
+ * 未配置白名单时默认拒绝，避免任意站点打开或嵌入钱包后发起连接和签名请求
+ */
+export function isOriginAllowed(
+  origin: string,
+  configured: string | undefined,
+  options: OriginAllowListOptions = {}
+): boolean {
+  const allowed = parseAllowedOrigins(configured);
+  if (allowed.length === 0) {
+    return !!options.allowWhenUnconfigured;
+  }
+
+  return !!origin && origin !== 'null' && allowed.includes(origin);
+}
+
+/**
+ * 获取嵌入当前页面的祖先来源
+ *
+ * 优先使用 location.ancestorOrigins（包含所有祖先），不支持时退回 document.referrer 的来源；
+ * 未被嵌入时返回 null，无法确定嵌入方时返回空数组
+ */
+export function getEmbeddingOrigins(win: Window): string[] | null {
+  if (win.parent === win) {
+    return null;
+  }
+
+  const ancestorOrigins = win.location.ancestorOrigins;
+  if (ancestorOrigins && ancestorOrigins.length > 0) {
+    return Array.from(ancestorOrigins);
+  }
+
+  try {
+    return win.document.referrer ? [new URL(win.document.referrer).origin] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 判断 iframe 嵌入方是否都在白名单中（frame-ancestors 守卫）
+ *
+ * 未被嵌入时返回 true；嵌入方无法确定或任一祖先不在白名单中时返回 false
+ */
+export function isEmbeddingAllowed(
+  win: Window,
+  configured: string | undefined,
+  options: OriginAllowListOptions = {}
+): boolean {
+  const ancestors = getEmbeddingOrigins(win);
+  if (ancestors === null) {
+    return true;
+  }
+  if (ancestors.length === 0) {
+    return false;
+  }
+
+  return ancestors.every((origin) => isOriginAllowed(origin, configured, options));
+}
@@ -0,0 +1,126 @@
+/**
+ * UserOperation 版本适配工具
+ *
+ * 钱包内部统一使用 UserOperation 结构（见 kernel-types），
+ * 发送、哈希与 Paymaster 交互时按链使用的 EntryPoint 版本转换：
+ * - v0.6：原样使用
+ * - v0.7：拆分 factory / paymaster 字段，Gas 字段打包为 PackedUserOperation
+ *
+ * @module utils/userOperation
+ */
+
+import { concat, pad, toHex, type Address, type Hex } from 'viem';
+import type { ChainConfig } from '@/types';
+import {
+  ENTRYPOINT_V07_ADDRESS,
+  type EntryPointVersion,
+  type PackedUserOperation,
+  type UserOperation,
+} from './kernel-types';
+
+/**
+ * 根据 EntryPoint 地址识别版本
+ *
+ * 仅 v0.7 标准地址识别为 0.7，其它地址（包括自部署的 EntryPoint）按 0.6 处理
+ */
+export function getEntryPointVersionByAddress(entryPointAddress: string): EntryPointVersion {
+  return entryPointAddress.toLowerCase() === ENTRYPOINT_V07_ADDRESS.toLowerCase() ? '0.7' : '0.6';
+}
+
+/**
+ * 解析链使用的 EntryPoint 版本
+ *
+ * 显式配置的 entryPointVersion 优先，未配置时按 entryPointAddress 识别
+ */
+export function resolveEntryPointVersion(
+  chainConfig: Pick<ChainConfig, 'entryPointAddress' | 'entryPointVersion'>
+): EntryPointVersion {
+  return chainConfig.entryPointVersion ?? getEntryPointVersionByAddress(chainConfig.entryPointAddress);
+}
+
+/**
+ * 拆分 initCode 为 factory + factoryData（v0.7 Bundler RPC 格式）
+ */
+export function splitInitCode(initCode: Hex): { factory?: Address; factoryData?: Hex } {
+  if (!initCode || initCode === '0x') {
+    return {};
+  }
+  if (initCode.length < 42) {
+    throw new Error(`Invalid initCode: expected at least 20 bytes, got ${initCode}`);
+  }
+  return {
+    factory: initCode.slice(0, 42) as Address,
+    factoryData: `0x${initCode.slice(42)}` as Hex,
+  };
+}
+
+/**
+ * 拆分 paymasterAndData 为 paymaster + paymasterData
+ *
+ * 输入为钱包内部格式（不含 v0.7 的 Paymaster Gas 限制）
+ */
+export function splitPaymasterAndData(paymasterAndData: Hex): { paymaster?: Address; paymasterData?: Hex } {
+  if (!paymasterAndData || paymasterAndData === '0x') {
+    return {};
+  }
+  if (paymasterAndData.length < 42) {
+    throw new Error(`Invalid paymasterAndData: expected at least 20 bytes, got ${paymasterAndData}`);
+  }
+  return {
+    paymaster: paymasterAndData.slice(0, 42) as Address,
+    paymasterData: `0x${paymasterAndData.slice(42)}` as Hex,
+  };
+}
+
+/**
+ * 将两个 uint128 打包为 bytes32（高 16 字节在前）
+ */
+export function packUint128Pair(high: bigint, low: bigint): Hex {
+  return concat([pad(toHex(high), { size: 16 }), pad(toHex(low), { size: 16 })]);
+}
+
+/**
+ * v0.7 accountGasLimits = verificationGasLimit + callGasLimit
+ */
+export function packAccountGasLimits(verificationGasLimit: bigint, callGasLimit: bigint): Hex {
+  return packUint128Pair(verificationGasLimit, callGasLimit);
+}
+
+/**
+ * v0.7 gasFees = maxPriorityFeePerGas + maxFeePerGas
+ */
+export function packGasFees(maxPriorityFeePerGas: bigint, maxFeePerGas: bigint): Hex {
+  return packUint128Pair(maxPriorityFeePerGas, maxFeePerGas);
+}
+
+/**
+ * v0.7 paymasterAndData = paymaster + paymasterVerificationGasLimit + paymasterPostOpGasLimit + paymasterData
+ */
+export function packPaymasterAndData(userOp: UserOperation): Hex {
+  const { paymaster, paymasterData } = splitPaymasterAndData(userOp.paymasterAndData);
+  if (!paymaster) {
+    return '0x';
+  }
+  return concat([
+    paymaster,
+    packUint128Pair(userOp.paymasterVerificationGasLimit ?? 0n, userOp.paymasterPostOpGasLimit ?? 0n),
+    paymasterData ?? '0x',
+  ]);
+}
+
+/**
+ * 转换为 EntryPoint v0.7 链上 PackedUserOperation
+ */
+export function toPackedUserOperation(userOp: UserOperation): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.initCode,
+    callData: userOp.callData,
+    accountGasLimits: packAccountGasLimits(userOp.verificationGasLimit, userOp.callGasLimit),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: packGasFees(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: packPaymasterAndData(userOp),
+    signature: userOp.signature,
+  };
+}
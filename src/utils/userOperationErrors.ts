@@ -0,0 +1,260 @@
+/**
+ * ERC-4337 错误解码工具
+ *
+ * Bundler 与 EntryPoint 的失败信息分散在多个位置：
+ * - Bundler JSON-RPC 错误：message 中的 AA 错误码（如 `AA21 didn't pay prefund`）与 ERC-7769 错误码（-32500 ~ -32521）
+ * - EntryPoint 回滚数据：`FailedOp(opIndex, reason)` / `FailedOpWithRevert(opIndex, reason, inner)`
+ * - Kernel 与验证器的自定义错误（作为 FailedOpWithRevert 的 inner 或直接回滚）
+ *
+ * 本模块只负责解析，映射到钱包错误码见 utils/errors
+ *
+ * @module utils/userOperationErrors
+ */
+
+import { decodeErrorResult, type Hex } from 'viem';
+
+/**
+ * EntryPoint 错误码（AA1x 账户创建、AA2x 账户验证、AA3x Paymaster 验证、AA4x 验证 Gas、AA5x postOp）
+ */
+export type EntryPointErrorCode = `AA${1 | 2 | 3 | 4 | 5}${number}`;
+
+/**
+ * Kernel / 验证器自定义错误名
+ */
+export type KernelErrorName = (typeof KERNEL_ERROR_ABI)[number]['name'];
+
+/**
+ * 解码结果
+ */
+export interface DecodedUserOperationError {
+  aaCode?: EntryPointErrorCode;
+  /** 失败原因（FailedOp reason 或原始错误消息） */
+  reason: string;
+  /** Bundler JSON-RPC 错误码 */
+  rpcCode?: number;
+  /** 批量提交中失败操作的序号 */
+  opIndex?: number;
+  kernelError?: KernelErrorName;
+  /** 回滚数据（FailedOpWithRevert 为 inner revert） */
+  revertData?: Hex;
+}
+
+const ENTRY_POINT_ERROR_ABI = [
+  {
+    type: 'error',
+    name: 'FailedOp',
+    inputs: [
+      { name: 'opIndex', type: 'uint256' },
+      { name: 'reason', type: 'string' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'FailedOpWithRevert',
+    inputs: [
+      { name: 'opIndex', type: 'uint256' },
+      { name: 'reason', type: 'string' },
+      { name: 'inner', type: 'bytes' },
+    ],
+  },
+] as const;
+
+const KERNEL_ERROR_ABI = [
+  { type: 'error', name: 'InvalidNonce', inputs: [] },
+  { type: 'error', name: 'NonceInvalidationError', inputs: [] },
+  { type: 'error', name: 'InvalidSignature', inputs: [] },
+  { type: 'error', name: 'InvalidValidator', inputs: [] },
+  { type: 'error', name: 'InvalidValidationType', inputs: [] },
+  { type: 'error', name: 'EnableNotApproved', inputs: [] },
+  { type: 'error', name: 'PolicyFailed', inputs: [{ name: 'i', type: 'uint256' }] },
+  { type: 'error', name: 'InvalidCaller', inputs: [] },
+  { type: 'error', name: 'InvalidSelector', inputs: [] },
+  { type: 'error', name: 'InvalidExecutor', inputs: [] },
+  { type: 'error', name: 'OnlyExecuteUserOp', inputs: [] },
+  { type: 'error', name: 'ExecutionReverted', inputs: [] },
+] as const;
+
+/** ERC-7769 定义的 Bundler 错误码 */
+export const BUNDLER_RPC_ERROR_CODES = {
+  /** 账户验证失败或被 EntryPoint 拒绝 */
+  REJECTED_BY_ACCOUNT: -32500,
+  /** Paymaster 验证失败 */
+  REJECTED_BY_PAYMASTER: -32501,
+  /** 验证阶段使用了禁止的操作码或存储 */
+  BANNED_OPCODE: -32502,
+  /** 不在有效期内（validUntil / validAfter） */
+  OUT_OF_TIME_RANGE: -32503,
+  /** Paymaster 或签名聚合器被限流 / 封禁 */
+  THROTTLED_OR_BANNED: -32504,
+  /** 质押不足 */
+  INSUFFICIENT_STAKE: -32505,
+  /** 不支持的签名聚合器 */
+  UNSUPPORTED_AGGREGATOR: -32506,
+  /** 签名无效 */
+  INVALID_SIGNATURE: -32507,
+  /** Paymaster 押金不足 */
+  PAYMASTER_DEPOSIT_TOO_LOW: -32508,
+  /** 执行阶段回滚（eth_estimateUserOperationGas） */
+  EXECUTION_REVERTED: -32521,
+} as const;
+
+const KNOWN_RPC_CODES = new Set<number>(Object.values(BUNDLER_RPC_ERROR_CODES));
+const AA_CODE_PATTERN = /\b(AA[1-5]\d)\b/;
+const HEX_PATTERN = /^0x[0-9a-fA-F]*$/;
+/** 错误 cause 链的最大遍历深度 */
+const MAX_CAUSE_DEPTH = 5;
+
+interface ErrorSources {
+  messages: string[];
+  rpcCode?: number;
+  revertData: Hex[];
+}
+
+function isHexData(value: unknown): value is Hex {
+  // 至少包含 4 字节选择器
+  return typeof value === 'string' && HEX_PATTERN.test(value) && value.length >= 10;
+}
+
+/**
+ * 沿 cause 链收集错误消息、RPC 错误码与回滚数据
+ *
+ * 回滚数据可能直接位于 data 字段，也可能位于 data.revertData / data.data（不同 Bundler 格式不同）
+ */
+function collectSources(error: unknown): ErrorSources {
+  const sources: ErrorSources = { messages: [], revertData: [] };
+  let current: unknown = error;
+
+  for (let depth = 0; depth < MAX_CAUSE_DEPTH && current; depth++) {
+    if (typeof current === 'string') {
+      sources.messages.push(current);
+      break;
+    }
+    if (typeof current !== 'object') {
+      break;
+    }
+
+    const record = current as Record<string, unknown>;
+    if (typeof record.message === 'string') {
+      sources.messages.push(record.message);
+    }
+    if (typeof record.details === 'string') {
+      sources.messages.push(record.details);
+    }
+    const rpcCode = typeof record.rpcCode === 'number' ? record.rpcCode : record.code;
+    if (sources.rpcCode === undefined && typeof rpcCode === 'number' && KNOWN_RPC_CODES.has(rpcCode)) {
+      sources.rpcCode = rpcCode;
+    }
+
+    const data = record.data;
+    if (isHexData(data)) {
+      sources.revertData.push(data);
+    } else if (data && typeof data === 'object') {
+      const nested = data as Record<string, unknown>;
+      [nested.revertData, nested.data].forEach((value) => {
+        if (isHexData(value)) {
+          sources.revertData.push(value);
+        }
+      });
+      if (typeof nested.reason === 'string') {
+        sources.messages.push(nested.reason);
+      }
+    }
+
+    current = record.cause;
+  }
+
+  return sources;
+}
+
+/**
+ * 读取错误中的回滚数据（沿 cause 链查找第一个），没有时返回 undefined
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  return collectSources(error).revertData[0];
+}
+
+function matchAaCode(text: string): EntryPointErrorCode | undefined {
+  return text.match(AA_CODE_PATTERN)?.[1] as EntryPointErrorCode | undefined;
+}
+
+const KERNEL_ERROR_NAMES = new Set<string>(KERNEL_ERROR_ABI.map((item) => item.name));
+
+/**
+ * 识别 Kernel / 验证器自定义错误，无法识别时返回 undefined
+ */
+export function decodeKernelError(data: Hex): KernelErrorName | undefined {
+  try {
+    const { errorName } = decodeErrorResult({ abi: KERNEL_ERROR_ABI, data });
+    // decodeErrorResult 同时识别 Error(string) / Panic(uint256)，此处只接受 Kernel 错误
+    return KERNEL_ERROR_NAMES.has(errorName) ? (errorName as KernelErrorName) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 解码 EntryPoint FailedOp / FailedOpWithRevert 回滚数据
+ */
+function decodeFailedOp(
+  data: Hex
+): Pick<DecodedUserOperationError, 'aaCode' | 'reason' | 'opIndex' | 'kernelError' | 'revertData'> | null {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: ENTRY_POINT_ERROR_ABI, data });
+  } catch {
+    return null;
+  }
+  if (decoded.errorName !== 'FailedOp' && decoded.errorName !== 'FailedOpWithRevert') {
+    return null;
+  }
+
+  const [opIndex, reason] = decoded.args;
+  const inner = decoded.errorName === 'FailedOpWithRevert' ? decoded.args[2] : undefined;
+  return {
+    aaCode: matchAaCode(reason),
+    reason,
+    opIndex: Number(opIndex),
+    kernelError: isHexData(inner) ? decodeKernelError(inner) : undefined,
+    revertData: inner,
+  };
+}
+
+/**
+ * 解码 ERC-4337 相关错误
+ *
+ * 依次识别 EntryPoint 回滚数据、Kernel 自定义错误、消息中的 AA 错误码与 Bundler 错误码；
+ * 均未识别时返回 null（非 UserOperation 错误）
+ */
+export function decodeUserOperationError(error: unknown): DecodedUserOperationError | null {
+  const sources = collectSources(error);
+  const reason = sources.messages[0] ?? '';
+  let decoded: DecodedUserOperationError = { reason, rpcCode: sources.rpcCode };
+
+  for (const data of sources.revertData) {
+    const failedOp = decodeFailedOp(data);
+    if (failedOp) {
+      decoded = { ...decoded, ...failedOp };
+      break;
+    }
+    const kernelError = decodeKernelError(data);
+    if (kernelError) {
+      decoded = { ...decoded, kernelError, revertData: data };
+      break;
+    }
+  }
+
+  if (!decoded.aaCode) {
+    for (const message of sources.messages) {
+      const aaCode = matchAaCode(message);
+      if (aaCode) {
+        decoded.aaCode = aaCode;
+        break;
+      }
+    }
+  }
+
+  if (!decoded.aaCode && !decoded.kernelError && decoded.rpcCode === undefined) {
+    return null;
+  }
+  return decoded;
+}